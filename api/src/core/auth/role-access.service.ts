@@ -0,0 +1,110 @@
+import { eq } from 'drizzle-orm';
+import { db } from '../db/postgres/client.js';
+import { roles, rolePaths, roleDataFilters } from '../db/postgres/schema.js';
+
+/**
+ * Resolved access of a Dyna profile role
+ */
+export interface RoleAccess {
+  /** Dyna profile role, null for users without one */
+  role: string | null;
+  /** Human-readable channel label, null for full access */
+  label: string | null;
+  /** Every route, no row filter */
+  fullAccess: boolean;
+  /** Allowed frontend routes (empty with fullAccess) */
+  paths: string[];
+  /** Mandatory row filters: field → allowed values */
+  dataFilters: Record<string, string[]>;
+}
+
+/**
+ * Cache entry for role access
+ */
+interface RoleAccessCacheEntry {
+  data: RoleAccess | null;
+  timestamp: number;
+}
+
+/**
+ * Service to resolve a dynaRole into its persisted access rules
+ * (`role`, `role_path`, `role_data_filter`)
+ *
+ * Runs on every analytics request, so results are cached for 1 minute.
+ * /api/roles writes clear the cache, so changes apply immediately on this
+ * instance (and within a minute on the others).
+ */
+export class RoleAccessService {
+  private cache = new Map<string, RoleAccessCacheEntry>();
+  private readonly CACHE_TTL = 60 * 1000; // 1 minute
+
+  /**
+   * Resolve the access of a role
+   *
+   * Users without a Dyna role (email OTP users) keep full access.
+   *
+   * @param dynaRole - Dyna profile role of the session user
+   * @returns Role access, or null when the role is not defined (no access)
+   */
+  async getRoleAccess(dynaRole: string | null | undefined): Promise<RoleAccess | null> {
+    if (!dynaRole) {
+      return { role: null, label: null, fullAccess: true, paths: [], dataFilters: {} };
+    }
+
+    const cached = this.cache.get(dynaRole);
+    if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
+      return cached.data;
+    }
+
+    const data = await this.queryRoleAccess(dynaRole);
+    this.cache.set(dynaRole, { data, timestamp: Date.now() });
+    return data;
+  }
+
+  /**
+   * Clear cache (call after role changes)
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async queryRoleAccess(dynaRole: string): Promise<RoleAccess | null> {
+    const [role] = await db.select().from(roles).where(eq(roles.key, dynaRole)).limit(1);
+
+    if (!role) {
+      return null;
+    }
+
+    const [pathRows, filterRows] = await Promise.all([
+      db.select({ path: rolePaths.path }).from(rolePaths).where(eq(rolePaths.roleId, role.id)),
+      db
+        .select({ field: roleDataFilters.field, value: roleDataFilters.value })
+        .from(roleDataFilters)
+        .where(eq(roleDataFilters.roleId, role.id)),
+    ]);
+
+    return {
+      role: role.key,
+      label: role.label,
+      fullAccess: role.fullAccess,
+      paths: role.fullAccess ? [] : pathRows.map((r) => r.path),
+      dataFilters: role.fullAccess ? {} : groupDataFilters(filterRows),
+    };
+  }
+}
+
+/**
+ * Group filter rows into field → values
+ */
+export function groupDataFilters(rows: Array<{ field: string; value: string }>): Record<string, string[]> {
+  const grouped: Record<string, string[]> = {};
+  for (const { field, value } of rows) {
+    (grouped[field] ??= []).push(value);
+  }
+  return grouped;
+}
+
+/**
+ * Shared instance (the cache must be shared by the middleware and /api/roles)
+ */
+export const roleAccessService = new RoleAccessService();
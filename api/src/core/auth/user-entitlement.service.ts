@@ -0,0 +1,64 @@
+import { eq } from 'drizzle-orm';
+import { db } from '../db/postgres/client.js';
+import { userDataEntitlements } from '../db/postgres/schema.js';
+import { groupDataFilters } from './role-access.service.js';
+import type { UserEntitlements } from '../config/entitlements.config.js';
+
+/**
+ * Cache entry for user entitlements
+ */
+interface UserEntitlementsCacheEntry {
+  data: UserEntitlements;
+  timestamp: number;
+}
+
+/**
+ * Service to resolve the per-user data entitlements (`user_data_entitlement`)
+ *
+ * Runs on every analytics request, so results are cached for 1 minute.
+ * /api/users writes clear the user's entry.
+ */
+export class UserEntitlementService {
+  private cache = new Map<string, UserEntitlementsCacheEntry>();
+  private readonly CACHE_TTL = 60 * 1000; // 1 minute
+
+  /**
+   * Get the entitlements of a user
+   *
+   * @param userId - Session user ID
+   * @returns Allowed values per dimension (empty when unrestricted)
+   */
+  async getEntitlements(userId: string): Promise<UserEntitlements> {
+    const cached = this.cache.get(userId);
+    if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
+      return cached.data;
+    }
+
+    const rows = await db
+      .select({ field: userDataEntitlements.field, value: userDataEntitlements.value })
+      .from(userDataEntitlements)
+      .where(eq(userDataEntitlements.userId, userId));
+
+    const data = groupDataFilters(rows) as UserEntitlements;
+    this.cache.set(userId, { data, timestamp: Date.now() });
+    return data;
+  }
+
+  /**
+   * Clear cache (call after entitlement changes)
+   *
+   * @param userId - Only clear this user (all users when omitted)
+   */
+  clearCache(userId?: string): void {
+    if (userId) {
+      this.cache.delete(userId);
+    } else {
+      this.cache.clear();
+    }
+  }
+}
+
+/**
+ * Shared instance (the cache must be shared by the middleware and /api/users)
+ */
+export const userEntitlementService = new UserEntitlementService();
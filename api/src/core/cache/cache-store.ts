@@ -0,0 +1,149 @@
+/**
+ * Key/value backend of the query result cache
+ *
+ * Values are serialized JSON strings. Implementations: MemoryLruStore
+ * (in-process, default) and RedisCacheStore (any Redis-compatible server).
+ */
+export interface CacheStore {
+  /** Backend name reported by /api/admin/cache */
+  readonly backend: 'memory' | 'redis';
+
+  get(key: string): Promise<string | null>;
+
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+
+  /**
+   * Remove every entry
+   * @returns Number of removed entries
+   */
+  clear(): Promise<number>;
+
+  /** Number of live entries */
+  size(): Promise<number>;
+
+  /** Release connections (graceful shutdown) */
+  close?(): Promise<void>;
+}
+
+/**
+ * Cache entry of the in-memory store
+ */
+interface MemoryCacheEntry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * In-process LRU store
+ *
+ * Relies on Map insertion order: a hit re-inserts the entry at the end, so the
+ * first key is always the least recently used one and is evicted when the
+ * store is full. Expired entries are dropped lazily on access.
+ */
+export class MemoryLruStore implements CacheStore {
+  readonly backend = 'memory' as const;
+  private entries = new Map<string, MemoryCacheEntry>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return null;
+
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async clear(): Promise<number> {
+    const count = this.entries.size;
+    this.entries.clear();
+    return count;
+  }
+
+  async size(): Promise<number> {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+    return this.entries.size;
+  }
+}
+
+/**
+ * Minimal command interface of a Redis-compatible client
+ * (implemented by RespClient; ioredis/node-redis `sendCommand` fit as well)
+ */
+export interface RedisCommandClient {
+  command(args: string[]): Promise<unknown>;
+  close?(): void;
+}
+
+/**
+ * Redis-compatible store
+ *
+ * Entries expire server-side (SET PX). All keys live under `namespace` so
+ * clear()/size() only touch this cache's keys (SCAN, never KEYS/FLUSHDB).
+ */
+export class RedisCacheStore implements CacheStore {
+  readonly backend = 'redis' as const;
+
+  constructor(
+    private readonly client: RedisCommandClient,
+    private readonly namespace = 'dynainfo:query-cache:'
+  ) {}
+
+  async get(key: string): Promise<string | null> {
+    const value = await this.client.command(['GET', this.namespace + key]);
+    return typeof value === 'string' ? value : null;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.client.command(['SET', this.namespace + key, value, 'PX', String(Math.max(1, Math.round(ttlMs)))]);
+  }
+
+  async clear(): Promise<number> {
+    let removed = 0;
+    for await (const keys of this.scanKeys()) {
+      if (keys.length > 0) {
+        removed += Number(await this.client.command(['DEL', ...keys]));
+      }
+    }
+    return removed;
+  }
+
+  async size(): Promise<number> {
+    let count = 0;
+    for await (const keys of this.scanKeys()) {
+      count += keys.length;
+    }
+    return count;
+  }
+
+  async close(): Promise<void> {
+    this.client.close?.();
+  }
+
+  private async *scanKeys(): AsyncGenerator<string[]> {
+    let cursor = '0';
+    do {
+      const reply = await this.client.command(['SCAN', cursor, 'MATCH', `${this.namespace}*`, 'COUNT', '500']);
+      const [next, keys] = reply as [string, string[]];
+      cursor = next;
+      yield keys;
+    } while (cursor !== '0');
+  }
+}
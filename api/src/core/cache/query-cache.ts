@@ -0,0 +1,299 @@
+import { createHash } from 'crypto';
+import type { ClickHouseClient } from '@clickhouse/client';
+import type { FastifyInstance } from 'fastify';
+import { MemoryLruStore, RedisCacheStore, type CacheStore } from './cache-store.js';
+import { RespClient } from './resp-client.js';
+import { logger } from '../logger/logger.js';
+import { queryRows, type ObservedQuery } from '../db/clickhouse/observed-query.js';
+import type { Env } from '../config/env.js';
+import { metricRegistry } from '../config/metrics.config.js';
+import {
+  QUERY_CACHE_TTLS,
+  FRESHNESS_PROBE_INTERVAL,
+  type CacheEndpoint,
+} from '../config/query-cache.config.js';
+
+/**
+ * Per-request hit/miss counters (reported in the X-Cache headers)
+ */
+export interface QueryCacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Cache bound to an endpoint TTL, handed to the query builders
+ */
+export interface QueryCacheBinding {
+  cache: QueryCache;
+  ttlMs: number;
+}
+
+/**
+ * State reported by GET /api/admin/cache
+ */
+export interface QueryCacheInfo {
+  backend: 'memory' | 'redis';
+  entries: number;
+  hits: number;
+  misses: number;
+  dataVersion: string | null;
+  lastInvalidatedAt: string | null;
+}
+
+/**
+ * Probe of the last load of the source tables
+ *
+ * The version is the newest active part modification time plus the active part
+ * count of the prefixed tables: any insert, mutation or dropped partition
+ * changes it. Probed at most once per interval.
+ */
+export class DataFreshnessProbe {
+  private version: string | null = null;
+  private checkedAt = 0;
+  private inflight: Promise<string> | null = null;
+
+  constructor(
+    private client: ClickHouseClient,
+    private tablePrefix: string,
+    private intervalMs = FRESHNESS_PROBE_INTERVAL
+  ) {}
+
+  async getVersion(): Promise<string> {
+    if (this.version !== null && Date.now() - this.checkedAt < this.intervalMs) {
+      return this.version;
+    }
+
+    this.inflight ??= this.probe().finally(() => {
+      this.inflight = null;
+    });
+    return this.inflight;
+  }
+
+  private async probe(): Promise<string> {
+    const rows = await queryRows<{ last_load: string; parts: number }>(this.client, {
+      kind: 'freshness-probe',
+      query: `
+        SELECT toString(max(modification_time)) AS last_load, count() AS parts
+        FROM system.parts
+        WHERE database = currentDatabase() AND active AND startsWith(table, {prefix:String})
+      `,
+      queryParams: { prefix: this.tablePrefix },
+    });
+
+    this.version = `${rows[0]?.last_load ?? ''}#${rows[0]?.parts ?? 0}`;
+    this.checkedAt = Date.now();
+    return this.version;
+  }
+}
+
+/**
+ * Query result cache
+ *
+ * Results are keyed by the normalized SQL, its parameters, the data version
+ * of the source tables and the active metric catalog version (a shared store
+ * never serves a result computed with another catalog). When the probe reports a new version the whole store is
+ * cleared, so no result outlives a data load by more than the probe interval.
+ *
+ * The cache never fails a request: store or probe errors are logged and the
+ * query runs against ClickHouse.
+ */
+export class QueryCache {
+  private hits = 0;
+  private misses = 0;
+  private dataVersion: string | null = null;
+  private lastInvalidatedAt: Date | null = null;
+
+  constructor(
+    private store: CacheStore,
+    private probe: DataFreshnessProbe
+  ) {}
+
+  /**
+   * Return the cached result of a query, or run it and cache the result
+   *
+   * @param query - SQL sent to ClickHouse
+   * @param params - Query parameters
+   * @param ttlMs - Entry TTL
+   * @param loader - Runs the query
+   * @param stats - Per-request counters to update
+   */
+  async getOrLoad<T>(
+    query: string,
+    params: Record<string, unknown>,
+    ttlMs: number,
+    loader: () => Promise<T>,
+    stats?: QueryCacheStats
+  ): Promise<T> {
+    let key: string;
+    try {
+      key = buildCacheKey(`${await this.currentVersion()}#catalog-${metricRegistry.getVersion()}`, query, params);
+      const cached = await this.store.get(key);
+
+      if (cached !== null) {
+        this.hits++;
+        if (stats) stats.hits++;
+        return JSON.parse(cached) as T;
+      }
+    } catch (error) {
+      logger.warn({ type: 'query_cache_error', err: error }, 'Query cache unavailable, querying ClickHouse');
+      return loader();
+    }
+
+    this.misses++;
+    if (stats) stats.misses++;
+
+    const result = await loader();
+    this.store.set(key, JSON.stringify(result), ttlMs).catch((error: unknown) => {
+      logger.warn({ type: 'query_cache_error', err: error }, 'Failed to store query result');
+    });
+    return result;
+  }
+
+  /**
+   * Current state of the cache
+   */
+  async inspect(): Promise<QueryCacheInfo> {
+    return {
+      backend: this.store.backend,
+      entries: await this.store.size(),
+      hits: this.hits,
+      misses: this.misses,
+      dataVersion: this.dataVersion,
+      lastInvalidatedAt: this.lastInvalidatedAt?.toISOString() ?? null,
+    };
+  }
+
+  /**
+   * Remove every cached result
+   * @returns Number of removed entries
+   */
+  async purge(): Promise<number> {
+    const removed = await this.store.clear();
+    this.lastInvalidatedAt = new Date();
+    return removed;
+  }
+
+  async close(): Promise<void> {
+    await this.store.close?.();
+  }
+
+  private async currentVersion(): Promise<string> {
+    const version = await this.probe.getVersion();
+
+    if (this.dataVersion !== null && version !== this.dataVersion) {
+      const removed = await this.store.clear();
+      this.lastInvalidatedAt = new Date();
+      logger.info({ type: 'query_cache_invalidated', version, removed }, 'Source data changed, query cache cleared');
+    }
+
+    this.dataVersion = version;
+    return version;
+  }
+}
+
+/**
+ * Collapse whitespace so formatting differences share an entry
+ */
+export function normalizeSql(query: string): string {
+  return query.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Cache key: hash of data version + normalized SQL + parameters (sorted keys)
+ */
+export function buildCacheKey(version: string, query: string, params: Record<string, unknown>): string {
+  return createHash('sha256')
+    .update(version)
+    .update('\n')
+    .update(normalizeSql(query))
+    .update('\n')
+    .update(stableStringify(params))
+    .digest('hex');
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Run a JSONEachRow query, through the cache when one is bound. Only the
+ * queries that reach ClickHouse are recorded (see queryRows).
+ */
+export async function runCachedQuery<T>(
+  client: ClickHouseClient,
+  params: ObservedQuery,
+  cache?: QueryCacheBinding,
+  stats?: QueryCacheStats
+): Promise<T[]> {
+  const load = (): Promise<T[]> => queryRows<T>(client, params);
+
+  return cache ? cache.cache.getOrLoad(params.query, params.queryParams, cache.ttlMs, load, stats) : load();
+}
+
+/**
+ * Bind the server's query cache (if enabled) to an endpoint TTL
+ */
+export function queryCacheFor(fastify: FastifyInstance, endpoint: CacheEndpoint): QueryCacheBinding | undefined {
+  return fastify.queryCache ? { cache: fastify.queryCache, ttlMs: QUERY_CACHE_TTLS[endpoint] } : undefined;
+}
+
+/**
+ * Build the query cache from the environment (null when disabled)
+ */
+export function createQueryCache(
+  config: Pick<Env, 'QUERY_CACHE_ENABLED' | 'QUERY_CACHE_BACKEND' | 'QUERY_CACHE_REDIS_URL' | 'QUERY_CACHE_MAX_ENTRIES' | 'TABLE_PREFIX'>,
+  client: ClickHouseClient
+): QueryCache | null {
+  if (!config.QUERY_CACHE_ENABLED) {
+    return null;
+  }
+
+  const store = config.QUERY_CACHE_BACKEND === 'redis' && config.QUERY_CACHE_REDIS_URL
+    ? new RedisCacheStore(new RespClient(config.QUERY_CACHE_REDIS_URL))
+    : new MemoryLruStore(config.QUERY_CACHE_MAX_ENTRIES);
+
+  return new QueryCache(store, new DataFreshnessProbe(client, config.TABLE_PREFIX));
+}
+
+/**
+ * Per-request counters and cache headers
+ *
+ * X-Cache: HIT (every query served from cache), MISS (none), PARTIAL (some).
+ * Requests that ran no cached query get no header.
+ */
+export function registerQueryCacheHooks(fastify: FastifyInstance): void {
+  fastify.addHook('onRequest', async (request) => {
+    request.queryCacheStats = { hits: 0, misses: 0 };
+  });
+
+  fastify.addHook('onSend', async (request, reply, payload) => {
+    const stats = request.queryCacheStats;
+    if (stats && stats.hits + stats.misses > 0) {
+      const status = stats.misses === 0 ? 'HIT' : stats.hits === 0 ? 'MISS' : 'PARTIAL';
+      reply.header('X-Cache', status);
+      reply.header('X-Cache-Hits', String(stats.hits));
+      reply.header('X-Cache-Misses', String(stats.misses));
+    }
+    return payload;
+  });
+}
+
+// Extend Fastify types with the query cache
+declare module 'fastify' {
+  interface FastifyInstance {
+    queryCache?: QueryCache;
+  }
+  interface FastifyRequest {
+    queryCacheStats?: QueryCacheStats;
+  }
+}
@@ -0,0 +1,205 @@
+import net from 'net';
+import type { RedisCommandClient } from './cache-store.js';
+
+/**
+ * Reply parsed from the server (null for nil bulk strings/arrays)
+ */
+type RespValue = string | number | null | RespValue[];
+
+interface PendingCommand {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Error reply from the server (`-ERR ...`)
+ */
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+/**
+ * Minimal RESP2 client for Redis-compatible servers (Redis, Valkey, KeyDB,
+ * Dragonfly...)
+ *
+ * Only what the query cache needs: one lazily opened TCP connection, commands
+ * pipelined in order, AUTH/SELECT from the URL. Connection errors reject the
+ * pending commands and the next command reconnects; the query cache treats
+ * any failure as a miss.
+ *
+ * @example
+ * const client = new RespClient('redis://:secret@localhost:6379/2');
+ * await client.command(['SET', 'key', 'value', 'PX', '60000']);
+ */
+export class RespClient implements RedisCommandClient {
+  private socket: net.Socket | null = null;
+  // Socket being opened or open; events of older sockets are ignored
+  private current: net.Socket | null = null;
+  private ready: Promise<void> | null = null;
+  private pending: PendingCommand[] = [];
+  private buffer = Buffer.alloc(0);
+  private readonly url: URL;
+
+  constructor(url: string, private readonly timeoutMs = 2000) {
+    this.url = new URL(url);
+  }
+
+  async command(args: string[]): Promise<unknown> {
+    await this.connect();
+    return this.send(args);
+  }
+
+  /**
+   * Close the connection (pending commands are rejected)
+   */
+  close(): void {
+    this.socket?.destroy();
+    this.reset(new Error('Connection closed'));
+  }
+
+  private connect(): Promise<void> {
+    if (this.ready) return this.ready;
+
+    this.ready = new Promise<void>((resolve, reject) => {
+      const socket = net.createConnection({
+        host: this.url.hostname,
+        port: Number(this.url.port || 6379),
+      });
+      this.current = socket;
+      socket.setTimeout(this.timeoutMs);
+      socket.setNoDelay(true);
+
+      socket.once('connect', () => {
+        this.socket = socket;
+        this.handshake().then(resolve, (error: Error) => {
+          reject(error);
+          socket.destroy();
+        });
+      });
+      socket.on('data', (chunk) => this.onData(chunk));
+      // Idle connections stay open; only a command waiting too long is an error
+      socket.on('timeout', () => {
+        if (this.pending.length > 0 || !this.socket) {
+          socket.destroy(new Error('Redis connection timeout'));
+        }
+      });
+      socket.on('error', (error) => {
+        reject(error);
+        if (this.current === socket) this.reset(error);
+      });
+      socket.on('close', () => {
+        if (this.current === socket) this.reset(new Error('Redis connection closed'));
+      });
+    });
+
+    return this.ready;
+  }
+
+  private async handshake(): Promise<void> {
+    const password = decodeURIComponent(this.url.password);
+    const username = decodeURIComponent(this.url.username);
+    if (password) {
+      await this.send(username ? ['AUTH', username, password] : ['AUTH', password]);
+    }
+
+    const db = this.url.pathname.replace('/', '');
+    if (db && db !== '0') {
+      await this.send(['SELECT', db]);
+    }
+  }
+
+  private send(args: string[]): Promise<unknown> {
+    const socket = this.socket;
+    if (!socket) {
+      return Promise.reject(new Error('Redis connection not open'));
+    }
+
+    const payload = `*${args.length}\r\n` + args
+      .map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`)
+      .join('');
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(payload);
+    });
+  }
+
+  private reset(error: Error): void {
+    this.current = null;
+    this.socket = null;
+    this.ready = null;
+    this.buffer = Buffer.alloc(0);
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach((p) => p.reject(error));
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    for (;;) {
+      const parsed = parseReply(this.buffer, 0);
+      if (!parsed) return;
+
+      this.buffer = this.buffer.subarray(parsed.end);
+      const command = this.pending.shift();
+      if (!command) continue;
+
+      if (parsed.value instanceof RespError) {
+        command.reject(parsed.value);
+      } else {
+        command.resolve(parsed.value);
+      }
+    }
+  }
+}
+
+/**
+ * Parse one reply starting at `offset`
+ *
+ * @returns The value and the offset after it, or null if the buffer does not
+ *   hold a complete reply yet
+ */
+function parseReply(buffer: Buffer, offset: number): { value: RespValue | RespError; end: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]!);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, end: next };
+    case '-':
+      return { value: new RespError(line), end: next };
+    case ':':
+      return { value: Number(line), end: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { value: null, end: next };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.toString('utf8', next, next + length), end: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { value: null, end: next };
+
+      const items: RespValue[] = [];
+      let end = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, end);
+        if (!item) return null;
+        if (item.value instanceof RespError) return { value: item.value, end: item.end };
+        items.push(item.value);
+        end = item.end;
+      }
+      return { value: items, end };
+    }
+    default:
+      return { value: new RespError(`Unexpected reply type '${type}'`), end: buffer.length };
+  }
+}
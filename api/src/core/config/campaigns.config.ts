@@ -0,0 +1,400 @@
+import type { MetricConfig } from '../db/clickhouse/query/types.js';
+import type { FilterCondition } from '../db/clickhouse/query/filter-builder.js';
+import { ValidationError } from '../errors/app-error.js';
+
+/**
+ * Commercial campaign definitions
+ *
+ * A campaign is a kind of sales event (Festival Virtual, Black Friday, a
+ * supplier-sponsored week…) tracked by the campaign dashboards: balance
+ * cards, "mismo día" pacing, daily series, grouped listings, "clientes sin
+ * compra" and their exports (see features/campaigns).
+ *
+ * Definitions live in Postgres (`campaign`) and are checked with
+ * validateCampaignDefinition when saved and when loaded. To add a campaign:
+ * 1. Save its definition through PUT /api/admin/campaigns/:campaign (its
+ *    routes are served under /api/campaigns/:campaign)
+ * 2. Create its editions through /api/admin/campaign-editions
+ * Each edition carries the event window, comparison edition, budget periodo,
+ * channels and the values of the campaign's `rules` for one event.
+ *
+ * FESTIVAL_CAMPAIGN is the built-in definition `npm run db:seed` inserts.
+ */
+
+/**
+ * Aliases the campaign cards and listings read from `metrics`
+ */
+export const CAMPAIGN_REQUIRED_METRICS = [
+  'sales', // invoiced sales
+  'gross_margin',
+  'rappel', // absolute rebate (the % is derived over sales)
+  'orders', // committed (not yet invoiced) sales
+  'invoiced_orders', // distinct invoiced order ids
+  'retained_orders', // distinct committed order ids
+] as const;
+
+/**
+ * One bucket (row) of a virtual grouping
+ */
+export interface CampaignBucket {
+  id: string;
+  name: string;
+}
+
+/**
+ * Business rule of a campaign: a list of values every edition sets (e.g. the
+ * festival's exclusive brands), stored in the edition's `rules` under the
+ * rule key
+ */
+export interface CampaignRule {
+  /** Admin label of the list */
+  label: string;
+}
+
+/**
+ * Virtual grouping: a `groupBy`/drill value that is not a ClickHouse column
+ * but a handful of buckets expanded into real per-table conditions.
+ *
+ * - membership: a per-table column IN (members) / NOT IN (others) the values
+ *   of an edition rule (`rule`, a key of the campaign's `rules`)
+ * - conditions: fixed conditions per bucket. A condition scoped to a table
+ *   lacking its column zeroes that table's metrics in the bucket.
+ */
+export type CampaignVirtualGroup =
+  | {
+      kind: 'membership';
+      fieldByTable: Record<string, string>;
+      rule: string;
+      members: CampaignBucket;
+      others: CampaignBucket;
+    }
+  | {
+      kind: 'conditions';
+      buckets: Array<CampaignBucket & { conditions: FilterCondition[] }>;
+    };
+
+/**
+ * Dimension of the campaign page's listing selector
+ */
+export interface CampaignDimension {
+  /** groupBy value: a column or a virtual grouping */
+  key: string;
+  /** Selector label */
+  label: string;
+  /** Header of the listing's first column */
+  rowLabel: string;
+  /** Dimension a row drills into when clicked (none: rows are not drillable) */
+  drillTo?: string;
+}
+
+export interface CampaignDefinition {
+  /** Stable key, stored on its editions and used in its routes (/api/campaigns/festival) */
+  key: string;
+  name: string;
+  /**
+   * Order-date column per sales table. Drives the window filters, the daily
+   * series and the reach counts (customers/products deduped across tables);
+   * every table also needs `channel`, `customer_id`, `product_id` and
+   * `sales_price` columns.
+   */
+  dateFields: Record<string, string>;
+  /** Metrics summed per window; must provide CAMPAIGN_REQUIRED_METRICS */
+  metrics: readonly MetricConfig[];
+  /**
+   * Budget source, selected per edition by its budget periodo (never by the
+   * window dates). null: the campaign has no budget, compliance is hidden.
+   */
+  budget: { table: string; valueField: string; periodoField: string } | null;
+  /** Lists every edition sets, by rule key (see CampaignRule) */
+  rules: Record<string, CampaignRule>;
+  /**
+   * Customer universe of "clientes sin compra": rows of `table` matching
+   * `conditions` whose `regionalField` is one of the values of the edition
+   * rule `rule`. Needs customer_name, seller_id, seller_name and
+   * `snapshotField` (the latest row per customer gives the assigned seller).
+   */
+  universe: { table: string; regionalField: string; rule: string; snapshotField: string; conditions: FilterCondition[] };
+  /** Virtual groupings by groupBy key */
+  virtualGroups: Record<string, CampaignVirtualGroup>;
+  /**
+   * Drill dimensions whose column name differs (or does not exist) per
+   * table: their filters are expanded into one scoped, trimmed copy per
+   * table. A copy on a table lacking the column zeroes that table (0)
+   * instead of leaving it silently unfiltered in grouped listings.
+   */
+  scopedDrillFields: Record<string, Record<string, string>>;
+  /** Dimension the listing is grouped by when none is requested (a column) */
+  defaultGroupBy: string;
+  /**
+   * Dimensions of the campaign page's listing, in selector order. The page
+   * opens on the first one.
+   */
+  dimensions: CampaignDimension[];
+}
+
+// ============ FESTIVAL VIRTUAL ============
+
+/**
+ * Festival budget table: one row per regional × seller × commercial provider
+ * per edition, keyed by `periodo` (yyyyMM of the event month, e.g. 202608)
+ * with `date` at month start — outside the event window. Only IdRegional/
+ * seller_id/ProveedorComercial dimensions exist (no channel/product/customer/brand).
+ */
+const FESTIVAL_PPTO_TABLE = 'ppto_festival';
+
+/**
+ * Universe for "clientes sin compra": the SIESA customer master (dyna_clientes,
+ * one row per NIT × sucursal with the CURRENT assignment), not the sales history.
+ */
+const CUSTOMER_MASTER_TABLE = 'clientes';
+
+/**
+ * Column per table that is the same everywhere: scoping still matters (the
+ * trim flag rescues pedidos' padded identifiers, the universe copy keeps
+ * regional/customer drills narrowing the customer master, the ppto copy stops
+ * a customer drill from silently showing the whole budget).
+ */
+const sameField = (field: string, tables: string[]): Record<string, string> =>
+  Object.fromEntries(tables.map((table) => [table, field]));
+
+const FESTIVAL_TABLES = ['transactions', 'pedidos_retenidos', FESTIVAL_PPTO_TABLE];
+
+export const FESTIVAL_CAMPAIGN: CampaignDefinition = {
+  key: 'festival',
+  name: 'Festival Virtual',
+  // transactions store the order date in `order_date` (SIESA "PedidoFecha");
+  // in pedidos_retenidos the row `date` IS the order date.
+  dateFields: {
+    transactions: 'order_date',
+    pedidos_retenidos: 'date',
+  },
+  // A small subset of the global BALANCE_METRICS: only what the cards need.
+  // The per-row `rappel_pct` is a rate and must not be summed.
+  metrics: [
+    { table: 'transactions', field: 'sales_price', aggregation: 'sum', alias: 'sales' },
+    { table: 'transactions', field: 'gross_margin', aggregation: 'sum', alias: 'gross_margin' },
+    { table: 'transactions', field: 'rappel', aggregation: 'sum', alias: 'rappel' },
+    { table: 'pedidos_retenidos', field: 'sales_price', aggregation: 'sum', alias: 'orders' },
+    // Invoiced and retained order ids don't overlap: no double counting.
+    { table: 'transactions', field: 'Pedido', aggregation: 'uniqExact', alias: 'invoiced_orders' },
+    { table: 'pedidos_retenidos', field: 'pedidoId', aggregation: 'uniqExact', alias: 'retained_orders' },
+  ],
+  budget: { table: FESTIVAL_PPTO_TABLE, valueField: 'valor', periodoField: 'periodo' },
+  rules: {
+    exclusiveBrands: { label: 'Marcas Exclusivas (ProveedorComercial; el resto son Aliadas)' },
+    universeRegionals: { label: 'Regionales del universo de clientes sin compra (IdRegional)' },
+  },
+  universe: {
+    table: CUSTOMER_MASTER_TABLE,
+    regionalField: 'IdRegional',
+    rule: 'universeRegionals',
+    snapshotField: 'updated_at',
+    conditions: [
+      { field: 'activo', operator: 'eq', value: 'true', table: CUSTOMER_MASTER_TABLE },
+      { field: 'bloqueado', operator: 'eq', value: 'false', table: CUSTOMER_MASTER_TABLE },
+    ],
+  },
+  virtualGroups: {
+    // "Marcas": the commercial provider column is named differently per
+    // table; the budget carries it too, so each bucket keeps its budget share.
+    brand_group: {
+      kind: 'membership',
+      fieldByTable: {
+        transactions: 'ProveedorComercial',
+        pedidos_retenidos: 'proveedorComercial',
+        [FESTIVAL_PPTO_TABLE]: 'ProveedorComercial',
+      },
+      rule: 'exclusiveBrands',
+      members: { id: 'exclusivas', name: 'Marcas Exclusivas' },
+      others: { id: 'aliadas', name: 'Marcas Aliadas' },
+    },
+    // "Promoción": event sales split per sale line by whether it generates
+    // rappel. Filtered on rappel_pct, not rappel: the metric alias
+    // `sum(rappel) AS rappel` shadows the column inside the CTE's WHERE.
+    // Neither pedidos nor the budget have the column → both are zeroed.
+    rappel_group: {
+      kind: 'conditions',
+      buckets: [
+        {
+          id: 'con_rappel',
+          name: 'Productos con Promoción',
+          conditions: [
+            { field: 'rappel_pct', operator: 'gt', value: '0', table: 'transactions' },
+            { field: 'rappel_pct', operator: 'gt', value: '0', table: 'pedidos_retenidos' },
+            { field: 'rappel_pct', operator: 'gt', value: '0', table: FESTIVAL_PPTO_TABLE },
+          ],
+        },
+        {
+          id: 'sin_rappel',
+          name: 'Productos sin Promoción',
+          conditions: [
+            { field: 'rappel_pct', operator: 'eq', value: '0', table: 'transactions' },
+            { field: 'rappel_pct', operator: 'gt', value: '0', table: 'pedidos_retenidos' },
+            { field: 'rappel_pct', operator: 'gt', value: '0', table: FESTIVAL_PPTO_TABLE },
+          ],
+        },
+      ],
+    },
+  },
+  scopedDrillFields: {
+    ProveedorComercial: {
+      transactions: 'ProveedorComercial',
+      pedidos_retenidos: 'proveedorComercial',
+      [FESTIVAL_PPTO_TABLE]: 'ProveedorComercial',
+    },
+    Marca: sameField('Marca', FESTIVAL_TABLES),
+    Categoria: sameField('Categoria', FESTIVAL_TABLES),
+    // Festival sales channel (Vendedores / Tienda Virtual / Call Center):
+    // only invoiced sales carry it, so comprometido and budget are excluded.
+    segmentacion_ventas_festival: sameField('segmentacion_ventas_festival', FESTIVAL_TABLES),
+    IdRegional: sameField('IdRegional', [...FESTIVAL_TABLES, CUSTOMER_MASTER_TABLE]),
+    customer_id: sameField('customer_id', [...FESTIVAL_TABLES, CUSTOMER_MASTER_TABLE]),
+  },
+  defaultGroupBy: 'ProveedorComercial',
+  // Festival analysis follows fixed concept chains, regardless of where you
+  // enter them:
+  //   Marcas (Exclusivas/Aliadas) → Proveedor → Producto
+  //   Regional → Vendedor ────────↗
+  //   Canal → Vendedor ───────────↗
+  //   Cliente ────────────────────↗
+  //   Categoría → Marca → Producto
+  // The "Promoción" buckets drill straight into products, and a product
+  // still crosses over to its customers.
+  dimensions: [
+    { key: 'brand_group', label: 'Marcas', rowLabel: 'Marca', drillTo: 'ProveedorComercial' },
+    { key: 'rappel_group', label: 'Promoción', rowLabel: 'Promoción', drillTo: 'product_id' },
+    { key: 'ProveedorComercial', label: 'Proveedores', rowLabel: 'Proveedor', drillTo: 'product_id' },
+    { key: 'Categoria', label: 'Categoría', rowLabel: 'Categoría', drillTo: 'Marca' },
+    { key: 'Marca', label: 'Marca', rowLabel: 'Marca', drillTo: 'product_id' },
+    { key: 'segmentacion_ventas_festival', label: 'Canales', rowLabel: 'Canal', drillTo: 'seller_id' },
+    { key: 'IdRegional', label: 'Regionales', rowLabel: 'Regional', drillTo: 'seller_id' },
+    { key: 'seller_id', label: 'Vendedores', rowLabel: 'Vendedor', drillTo: 'ProveedorComercial' },
+    { key: 'product_id', label: 'Productos', rowLabel: 'Producto', drillTo: 'customer_id' },
+    { key: 'customer_id', label: 'Clientes', rowLabel: 'Cliente', drillTo: 'ProveedorComercial' },
+  ],
+};
+
+const IDENTIFIER_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+const CAMPAIGN_KEY_REGEX = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Check the parts of a definition its schema cannot: table and column names
+ * (they end up in the queries), the metrics the cards read and the
+ * references between rules, groupings and dimensions
+ *
+ * @throws ValidationError listing every problem found
+ */
+export function validateCampaignDefinition(campaign: CampaignDefinition): void {
+  const errors: string[] = [];
+  const identifier = (where: string, value: string) => {
+    if (!IDENTIFIER_REGEX.test(value)) {
+      errors.push(`${where}: invalid identifier "${value}"`);
+    }
+  };
+  const columns = (where: string, fieldByTable: Record<string, string>) => {
+    for (const [table, field] of Object.entries(fieldByTable)) {
+      identifier(`${where} table`, table);
+      identifier(`${where} column`, field);
+    }
+  };
+  const conditions = (where: string, list: FilterCondition[]) => {
+    list.forEach((condition) => {
+      identifier(`${where} column`, condition.field);
+      if (condition.table !== undefined) identifier(`${where} table`, condition.table);
+    });
+  };
+
+  if (!CAMPAIGN_KEY_REGEX.test(campaign.key)) {
+    errors.push(`invalid key "${campaign.key}" (lowercase letters, digits and dashes)`);
+  }
+
+  const salesTables = Object.keys(campaign.dateFields);
+  if (salesTables.length === 0) {
+    errors.push('dateFields: at least one sales table is required');
+  }
+  columns('dateFields', campaign.dateFields);
+
+  const tables = new Set([...salesTables, ...(campaign.budget ? [campaign.budget.table] : []), campaign.universe.table]);
+
+  const aliases = campaign.metrics.map((metric) => metric.alias);
+  for (const metric of campaign.metrics) {
+    identifier('metric alias', metric.alias);
+    columns(`metric "${metric.alias}"`, { [metric.table]: metric.field });
+    if (!tables.has(metric.table)) {
+      errors.push(`metric "${metric.alias}": table "${metric.table}" is not a sales, budget or universe table`);
+    }
+  }
+  const missing = CAMPAIGN_REQUIRED_METRICS.filter((alias) => !aliases.includes(alias));
+  if (missing.length > 0) {
+    errors.push(`metrics: missing ${missing.join(', ')}`);
+  }
+  // The budget alias is added from the budget source
+  if (aliases.includes('budget')) {
+    errors.push('metrics: "budget" is reserved for the budget source');
+  }
+
+  if (campaign.budget) {
+    const { table, valueField, periodoField } = campaign.budget;
+    identifier('budget table', table);
+    identifier('budget column', valueField);
+    identifier('budget column', periodoField);
+  }
+
+  const rules = Object.keys(campaign.rules);
+  rules.forEach((rule) => identifier('rule', rule));
+
+  const { universe } = campaign;
+  columns('universe', { [universe.table]: universe.regionalField });
+  identifier('universe column', universe.snapshotField);
+  conditions('universe', universe.conditions);
+  if (!rules.includes(universe.rule)) {
+    errors.push(`universe: unknown rule "${universe.rule}"`);
+  }
+
+  for (const [key, group] of Object.entries(campaign.virtualGroups)) {
+    const where = `virtual grouping "${key}"`;
+    identifier('virtual grouping', key);
+    if (group.kind === 'membership') {
+      columns(where, group.fieldByTable);
+      if (!rules.includes(group.rule)) {
+        errors.push(`${where}: unknown rule "${group.rule}"`);
+      }
+    } else {
+      group.buckets.forEach((bucket) => conditions(where, bucket.conditions));
+    }
+    if (key in campaign.scopedDrillFields) {
+      errors.push(`${where}: also a scoped drill dimension`);
+    }
+  }
+
+  for (const [key, fields] of Object.entries(campaign.scopedDrillFields)) {
+    identifier('scoped drill dimension', key);
+    columns(`scoped drill dimension "${key}"`, fields);
+    Object.keys(fields)
+      .filter((table) => !tables.has(table))
+      .forEach((table) => errors.push(`scoped drill dimension "${key}": table "${table}" is not a sales, budget or universe table`));
+  }
+
+  identifier('defaultGroupBy', campaign.defaultGroupBy);
+  if (campaign.defaultGroupBy in campaign.virtualGroups) {
+    errors.push('defaultGroupBy: must be a column, not a virtual grouping');
+  }
+
+  const dimensions = campaign.dimensions.map((dimension) => dimension.key);
+  if (dimensions.length === 0) {
+    errors.push('dimensions: at least one dimension is required');
+  }
+  for (const dimension of campaign.dimensions) {
+    identifier('dimension', dimension.key);
+    if (dimensions.indexOf(dimension.key) !== dimensions.lastIndexOf(dimension.key)) {
+      errors.push(`dimension "${dimension.key}": duplicated`);
+    }
+    if (dimension.drillTo !== undefined && !dimensions.includes(dimension.drillTo)) {
+      errors.push(`dimension "${dimension.key}": drills into unknown dimension "${dimension.drillTo}"`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(`Invalid campaign "${campaign.key}": ${errors[0]}`, errors);
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Per-user data entitlements.
+ *
+ * On top of the dynaRole filters, a user can be restricted to some values of a
+ * dimension (a regional manager to their IdRegional, a seller to their
+ * seller_id). Values live in Postgres (`user_data_entitlement`) and are managed
+ * through PATCH /api/users/:id.
+ */
+import { ValidationError } from '../errors/app-error.js';
+
+/**
+ * Dimensions a user can be entitled to (regional, seller, provider)
+ */
+export const ENTITLEMENT_FIELDS = ['IdRegional', 'seller_id', 'ProveedorComercial'] as const;
+
+export type EntitlementField = (typeof ENTITLEMENT_FIELDS)[number];
+
+/**
+ * Allowed values per dimension. A missing field means no restriction on it.
+ */
+export type UserEntitlements = Partial<Record<EntitlementField, string[]>>;
+
+/**
+ * Entitlements may only restrict the supported dimensions
+ *
+ * @throws ValidationError on any other field
+ */
+export function validateEntitlements(entitlements: Record<string, unknown>): void {
+  const invalid = Object.keys(entitlements).filter(
+    (field) => !(ENTITLEMENT_FIELDS as readonly string[]).includes(field)
+  );
+  if (invalid.length > 0) {
+    throw new ValidationError(
+      `Invalid entitlement field: ${invalid.join(', ')} (allowed: ${ENTITLEMENT_FIELDS.join(', ')})`
+    );
+  }
+}
@@ -63,6 +63,135 @@ const envSchema = z.object({
 
   // Optional table prefix
   TABLE_PREFIX: z.string().optional().default(''),
+
+  // Query result cache (see src/core/cache)
+  QUERY_CACHE_ENABLED: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((val) => val === 'true'),
+
+  QUERY_CACHE_BACKEND: z
+    .enum(['memory', 'redis'])
+    .default('memory')
+    .describe('memory: in-process LRU; redis: any Redis-compatible server (Redis, Valkey, KeyDB...)'),
+
+  QUERY_CACHE_REDIS_URL: z
+    .string()
+    .url('QUERY_CACHE_REDIS_URL must be a valid URL (redis://host:port)')
+    .optional(),
+
+  QUERY_CACHE_MAX_ENTRIES: z
+    .string()
+    .default('500')
+    .transform((val) => parseInt(val, 10))
+    .refine((val) => val > 0, {
+      message: 'QUERY_CACHE_MAX_ENTRIES must be a positive number',
+    }),
+
+  // Outgoing email (see src/core/email)
+  EMAIL_TRANSPORT: z
+    .enum(['resend', 'memory'])
+    .default('resend')
+    .describe('resend: Resend API (RESEND_API_KEY); memory: in-process outbox that only logs (local development)'),
+
+  EMAIL_FROM: z.string().default('DynaInfo <no-reply@aionsales.app>'),
+
+  // Scheduled report subscriptions (see src/features/report-subscriptions)
+  REPORT_SCHEDULER_ENABLED: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((val) => val === 'true'),
+
+  REPORT_SCHEDULER_INTERVAL_MS: z
+    .string()
+    .default('60000')
+    .transform((val) => parseInt(val, 10))
+    .refine((val) => val >= 1000, {
+      message: 'REPORT_SCHEDULER_INTERVAL_MS must be at least 1000',
+    }),
+
+  // KPI threshold alerts (see src/features/alerts)
+  ALERT_SCHEDULER_ENABLED: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((val) => val === 'true'),
+
+  ALERT_SCHEDULER_INTERVAL_MS: z
+    .string()
+    .default('60000')
+    .transform((val) => parseInt(val, 10))
+    .refine((val) => val >= 1000, {
+      message: 'ALERT_SCHEDULER_INTERVAL_MS must be at least 1000',
+    }),
+
+  // Background export jobs (see src/features/exports)
+  EXPORT_WORKER_ENABLED: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((val) => val === 'true'),
+
+  EXPORT_WORKER_INTERVAL_MS: z
+    .string()
+    .default('5000')
+    .transform((val) => parseInt(val, 10))
+    .refine((val) => val >= 1000, {
+      message: 'EXPORT_WORKER_INTERVAL_MS must be at least 1000',
+    }),
+
+  EXPORT_STORAGE_DIR: z
+    .string()
+    .default('storage/exports')
+    .describe('Directory of the finished export files (shared by the replicas serving downloads)'),
+
+  EXPORT_RETENTION_HOURS: z
+    .string()
+    .default('24')
+    .transform((val) => parseInt(val, 10))
+    .refine((val) => val > 0, {
+      message: 'EXPORT_RETENTION_HOURS must be a positive number',
+    }),
+
+  EXPORT_QUERY_TIMEOUT_S: z
+    .string()
+    .default('600')
+    .transform((val) => parseInt(val, 10))
+    .refine((val) => val > 0, {
+      message: 'EXPORT_QUERY_TIMEOUT_S must be a positive number',
+    })
+    .describe('ClickHouse max_execution_time of the export job queries (the HTTP endpoints keep 60 s)'),
+
+  // Query observability (see src/core/observability)
+  QUERY_SLOW_MS: z
+    .string()
+    .default('1000')
+    .transform((val) => parseInt(val, 10))
+    .refine((val) => val > 0, {
+      message: 'QUERY_SLOW_MS must be a positive number',
+    })
+    .describe('ClickHouse queries at least this long (ms) are logged as slow and kept in GET /api/admin/queries'),
+
+  QUERY_SLOW_LOG_SIZE: z
+    .string()
+    .default('100')
+    .transform((val) => parseInt(val, 10))
+    .refine((val) => val > 0, {
+      message: 'QUERY_SLOW_LOG_SIZE must be a positive number',
+    }),
+
+  METRICS_TOKEN: z
+    .string()
+    .min(16, 'METRICS_TOKEN must be at least 16 characters')
+    .optional()
+    .describe('Bearer token required by GET /metrics (open when unset)'),
+
+  PUBLIC_API_URL: z
+    .string()
+    .url('PUBLIC_API_URL must be a valid URL')
+    .optional()
+    .describe('Public base URL of the API, used in email links (e.g., https://api.dynainfo.com.co)'),
+}).refine((env) => env.QUERY_CACHE_BACKEND !== 'redis' || !!env.QUERY_CACHE_REDIS_URL, {
+  message: 'QUERY_CACHE_REDIS_URL is required when QUERY_CACHE_BACKEND=redis',
+  path: ['QUERY_CACHE_REDIS_URL'],
 });
 
 /**
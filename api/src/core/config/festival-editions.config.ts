@@ -0,0 +1,63 @@
+/**
+ * Default Festival Virtual editions (seed data).
+ *
+ * Editions live in Postgres (`campaign_edition`, campaign `festival`) and are
+ * managed through /api/admin/campaign-editions. These defaults reproduce the
+ * editions and business rules the festival dashboard was first built with,
+ * and are inserted by `npm run db:seed` when no edition exists yet.
+ */
+export interface FestivalEditionDefinition {
+  name: string;
+  /** Event window (yyyy-MM-dd, inclusive) */
+  startDate: string;
+  endDate: string;
+  /** Name of the seeded edition it is compared against (null: no comparison) */
+  compareWith: string | null;
+  /** ppto_festival periodo (yyyyMM) */
+  budgetPeriodo: string;
+  /** Rule values by rule key (see FESTIVAL_CAMPAIGN.rules) */
+  rules: Record<string, string[]>;
+  /** Sales channels counted by the festival */
+  channels: string[];
+  status: 'draft' | 'active' | 'closed';
+}
+
+/**
+ * Regionals outside this list (castigo, cobro jurídico, retail, empleados,
+ * canales muertos…) are not festival targets.
+ */
+const COMMERCIAL_REGIONALS = [
+  '0001', // Costa Atlántica
+  '0002', // Andina (Medellín)
+  '0003', // Costa Pacífica (Cali)
+  '0004', // Bogotá Ciudad
+  '0015', // Canal Alternativo (Contact Center)
+  '0018', // Territorio Especial
+  '0019', // Centro
+  '0026', // Oriente
+  '0033', // Eje Centro
+];
+
+// Seeded in order: an edition may only be compared against an earlier one.
+export const DEFAULT_FESTIVAL_EDITIONS: FestivalEditionDefinition[] = [
+  {
+    name: 'Festival Virtual 1',
+    startDate: '2026-03-11',
+    endDate: '2026-03-16',
+    compareWith: null,
+    budgetPeriodo: '202603',
+    rules: { exclusiveBrands: ['VERA', 'FORTE'], universeRegionals: COMMERCIAL_REGIONALS },
+    channels: ['DISTRIBUCION'],
+    status: 'closed',
+  },
+  {
+    name: 'Festival Virtual 2',
+    startDate: '2026-08-12',
+    endDate: '2026-08-16',
+    compareWith: 'Festival Virtual 1',
+    budgetPeriodo: '202608',
+    rules: { exclusiveBrands: ['VERA', 'FORTE'], universeRegionals: COMMERCIAL_REGIONALS },
+    channels: ['DISTRIBUCION'],
+    status: 'active',
+  },
+];
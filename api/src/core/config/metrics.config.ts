@@ -1,26 +1,62 @@
 import type { MetricConfig } from '../db/clickhouse/query/types.js';
+import { MetricRegistry } from '../metrics/metric-registry.js';
 
 /**
  * ========================================================================
- * CONFIGURATION SECTION - Change metrics and calculated metrics here!
+ * BUILT-IN CATALOG - Default metrics and calculated metrics
  * ========================================================================
  *
- * This is the SINGLE POINT OF CONFIGURATION for all metrics.
- * Everything else in this file is generated from these two arrays.
+ * The metric catalog is loaded at startup from the versioned
+ * `metric_definition` table (see MetricCatalogService) and can be published
+ * through PUT /api/metrics/catalog without a deploy.
+ *
+ * These two arrays are the built-in catalog: used until a version is
+ * published, and seeded as version 1 by `npm run db:seed`.
+ * Everything else in this file reads the active catalog from metricRegistry.
+ */
+
+// ============ DISPLAY METADATA ============
+
+/**
+ * How the web app formats a metric value
  */
+export type MetricFormat = 'currency' | 'percent' | 'number';
+
+/**
+ * Heatmap color thresholds (value >= threshold gets the color).
+ * Must be descending: excellent >= good >= neutral >= warning.
+ */
+export interface HeatmapThresholds {
+  readonly excellent: number;
+  readonly good: number;
+  readonly neutral: number;
+  readonly warning?: number;
+}
+
+/**
+ * Display metadata shared by base and calculated metrics
+ */
+export interface MetricDisplay {
+  readonly label: string;
+  readonly format: MetricFormat;
+  readonly heatmap?: HeatmapThresholds;
+}
+
+/**
+ * Base metric definition (aggregation + display)
+ */
+export type BaseMetricDefinition = Readonly<MetricConfig> & MetricDisplay;
 
 // ============ BASE METRICS CONFIGURATION ============
 
 /**
- * Base metrics configuration
+ * Built-in base metrics
  *
- * To add a new base metric:
- * 1. Add it to BALANCE_METRICS array below
- * 2. That's it! Everything else updates automatically:
- *    - Types are generated automatically
+ * A base metric is published in the catalog and, from then on:
  *    - response-builder.ts will return it
  *    - API responses will include it
  *    - Swagger docs will show it
+ *    - /api/metrics/catalog will describe it
  */
 export const BALANCE_METRICS = [
   {
@@ -28,6 +64,8 @@ export const BALANCE_METRICS = [
     field: 'sales_price',
     aggregation: 'sum',
     alias: 'budget',
+    label: 'Presupuesto',
+    format: 'currency',
   },
   {
     // Full month budget (NOT prorated by elapsed business days). The budget CTE
@@ -36,36 +74,48 @@ export const BALANCE_METRICS = [
     field: 'sales_price',
     aggregation: 'sum',
     alias: 'budget_full',
+    label: 'Presupuesto mes completo',
+    format: 'currency',
   },
   {
     table: 'budget',
     field: 'cost_price',
     aggregation: 'sum',
     alias: 'budget_cost',
+    label: 'Costo presupuesto',
+    format: 'currency',
   },
   {
     table: 'transactions',
     field: 'sales_price',
     aggregation: 'sum',
     alias: 'sales',
+    label: 'Facturado',
+    format: 'currency',
   },
   {
     table: 'transactions',
     field: 'gross_margin',
     aggregation: 'sum',
     alias: 'gross_margin',
+    label: 'Margen bruto',
+    format: 'currency',
   },
   {
     table: 'pedidos_retenidos',
     field: 'sales_price',
     aggregation: 'sum',
     alias: 'orders',
+    label: 'Comprometido',
+    format: 'currency',
   },
   {
     table: 'cartera',
     field: 'sales_price',
     aggregation: 'sum',
     alias: 'cartera',
+    label: 'Cartera',
+    format: 'currency',
   },
   // Add more metrics here as needed
   // Example:
@@ -74,8 +124,10 @@ export const BALANCE_METRICS = [
   //   field: 'cost_price',
   //   aggregation: 'sum',
   //   alias: 'costs',
+  //   label: 'Costos',
+  //   format: 'currency',
   // },
-] as const satisfies readonly MetricConfig[];
+] as const satisfies readonly BaseMetricDefinition[];
 
 // ============ CALCULATED METRICS CONFIGURATION ============
 
@@ -86,31 +138,42 @@ export interface CalculatedMetricConfig {
   readonly name: string;
   readonly description: string;
   readonly dependencies: readonly string[]; // Base metric aliases needed
-  readonly formula: string; // SQL formula with {alias} placeholders
+  readonly formula: string; // Formula with {alias} placeholders (see core/metrics/formula)
   /**
    * When true, the `orders` (comprometido) term is dropped from the formula
    * for closed periods (facturadoOnly). Budget-relative metrics should only
    * count facturado once the period is closed. See MetricCalculator.
    */
   readonly facturadoSensitive?: boolean;
+  /**
+   * The formula may return NULL (e.g. growth over a zero base → 'N/A').
+   * Non-nullable metrics default to 0 when missing.
+   */
+  readonly nullable?: boolean;
 }
 
 /**
- * Calculated metrics configuration
+ * Calculated metric definition (formula + display)
+ */
+export type CalculatedMetricDefinition = CalculatedMetricConfig & MetricDisplay;
+
+/**
+ * Built-in calculated metrics
  * These are derived metrics calculated from base metrics
  *
- * To add a new calculated metric:
- * 1. Add it to CALCULATED_METRICS array below
- * 2. That's it! Everything updates automatically:
+ * A published calculated metric:
  *    - MetricCalculator will generate SQL for it
- *    - Types are generated automatically
  *    - API responses will include it
  *    - Swagger docs will show it
  *
  * Formula placeholders:
- * - Use {alias} to reference base metrics (e.g., {sales}, {budget})
- * - MetricCalculator will replace them with correct CTE references
- * - Use ClickHouse functions: if(), round(), etc.
+ * - Use {alias} to reference base metrics (e.g., {sales}, {budget}),
+ *   their last year value ({sales_last_year}) or other calculated metrics
+ * - Formulas are parsed and type-checked when the catalog is loaded, then
+ *   MetricCalculator generates SQL with the correct CTE references
+ * - Arithmetic, comparisons, AND/OR/NOT and the functions in
+ *   FORMULA_FUNCTIONS: if(), nullIf(), round(), safeDiv(), etc.
+ * - A formula that may return NULL must set `nullable`
  */
 export const CALCULATED_METRICS = [
   {
@@ -118,6 +181,9 @@ export const CALCULATED_METRICS = [
     description: 'Sales vs budget variance %',
     dependencies: ['sales', 'orders', 'budget'],
     formula: 'if({budget} != 0, ((({sales} + {orders}) - {budget}) / {budget}) * 100, 0)',
+    label: 'Ventas vs presupuesto',
+    format: 'percent',
+    heatmap: { excellent: 20, good: 5, neutral: 0, warning: -5 },
     facturadoSensitive: true,
   },
   {
@@ -125,6 +191,9 @@ export const CALCULATED_METRICS = [
     description: 'Budget achievement %',
     dependencies: ['sales', 'orders', 'budget'],
     formula: 'if({budget} != 0, (({sales} + {orders}) / {budget}) * 100, 0)',
+    label: 'Cumplimiento presupuesto',
+    format: 'percent',
+    heatmap: { excellent: 105, good: 99, neutral: 95, warning: 80 },
     facturadoSensitive: true,
   },
   {
@@ -132,6 +201,9 @@ export const CALCULATED_METRICS = [
     description: 'Budget achievement % against the full (non-prorated) month budget',
     dependencies: ['sales', 'orders', 'budget_full'],
     formula: 'if({budget_full} != 0, (({sales} + {orders}) / {budget_full}) * 100, 0)',
+    label: 'Cumplimiento presupuesto mes completo',
+    format: 'percent',
+    heatmap: { excellent: 105, good: 99, neutral: 95, warning: 80 },
     facturadoSensitive: true,
   },
   {
@@ -139,24 +211,35 @@ export const CALCULATED_METRICS = [
     description: 'Order fulfillment %',
     dependencies: ['sales', 'orders'],
     formula: 'if({sales} != 0, ({orders} / {sales}) * 100, 0)',
+    label: 'Comprometido / facturado',
+    format: 'percent',
   },
   {
     name: 'gross_margin_pct',
     description: 'Gross margin percentage',
     dependencies: ['gross_margin', 'sales'],
     formula: 'if({sales} != 0, ({gross_margin} / {sales}) * 100, 0)',
+    label: 'Margen bruto %',
+    format: 'percent',
+    heatmap: { excellent: 24.5, good: 23, neutral: 21.5 },
   },
   {
     name: 'budget_gross_margin_pct',
     description: 'Budget gross margin percentage',
     dependencies: ['budget', 'budget_cost'],
     formula: 'if({budget} != 0, (({budget} - {budget_cost}) / {budget}) * 100, 0)',
+    label: 'Margen presupuestado %',
+    format: 'percent',
+    heatmap: { excellent: 24.5, good: 23, neutral: 21.5 },
   },
   {
     name: 'gross_margin_pct_last_year',
     description: 'Gross margin percentage from last year',
     dependencies: ['gross_margin_last_year', 'sales_last_year'],
     formula: 'if({sales_last_year} > 0, ({gross_margin_last_year} / {sales_last_year}) * 100, NULL)',
+    label: 'Margen bruto % año anterior',
+    format: 'percent',
+    nullable: true,
   },
   {
     // Variation in percentage POINTS, not relative growth: 20% → 25% reads +5.
@@ -165,12 +248,18 @@ export const CALCULATED_METRICS = [
     description: 'YoY variation in percentage points for gross margin percentage',
     dependencies: ['gross_margin_pct', 'gross_margin_pct_last_year'],
     formula: '{gross_margin_pct} - {gross_margin_pct_last_year}',
+    label: 'Variación margen (pp)',
+    format: 'number',
+    nullable: true,
   },
   {
     name: 'cartera_compliance_pct',
     description: 'Cartera compliance % ((sales + orders + cartera) / budget * 100)',
     dependencies: ['sales', 'orders', 'cartera', 'budget'],
     formula: 'if({budget} != 0, (({sales} + {orders} + {cartera}) / {budget}) * 100, 0)',
+    label: 'Cumplimiento con cartera',
+    format: 'percent',
+    heatmap: { excellent: 105, good: 99, neutral: 95, warning: 80 },
     facturadoSensitive: true,
   },
   {
@@ -178,18 +267,26 @@ export const CALCULATED_METRICS = [
     description: 'Total ventas (facturado + comprometido)',
     dependencies: ['sales', 'orders'],
     formula: '{sales} + {orders}',
+    label: 'Total ventas',
+    format: 'currency',
   },
   {
     name: 'sales_total_last_year',
     description: 'Total ventas año anterior',
     dependencies: ['sales_last_year', 'orders_last_year'],
     formula: '{sales_last_year} + {orders_last_year}',
+    label: 'Total ventas año anterior',
+    format: 'currency',
   },
   {
     name: 'sales_total_vs_last_year',
     description: 'YoY variance % for total ventas',
     dependencies: ['sales_total', 'sales_total_last_year'],
     formula: 'if({sales_total_last_year} > 0, (({sales_total} - {sales_total_last_year}) / {sales_total_last_year}) * 100, NULL)',
+    label: 'Crecimiento total ventas',
+    format: 'percent',
+    heatmap: { excellent: 20, good: 5, neutral: 0, warning: -5 },
+    nullable: true,
   },
   // Add more calculated metrics here as needed
   // Example:
@@ -198,12 +295,28 @@ export const CALCULATED_METRICS = [
   //   description: 'Profit margin %',
   //   dependencies: ['sales', 'costs'],
   //   formula: 'if({sales} != 0, (({sales} - {costs}) / {sales}) * 100, 0)',
+  //   label: 'Margen de beneficio',
+  //   format: 'percent',
   // },
-] as const satisfies readonly CalculatedMetricConfig[];
+] as const satisfies readonly CalculatedMetricDefinition[];
+
+/**
+ * Active metric catalog
+ *
+ * Starts with the built-in catalog (version 0) and is replaced by the latest
+ * published version at startup (loadMetricCatalog), on publish and, for the
+ * versions published through other instances, by the MetricCatalogWatcher.
+ */
+export const metricRegistry = new MetricRegistry({
+  version: 0,
+  publishedAt: null,
+  baseMetrics: BALANCE_METRICS,
+  calculatedMetrics: CALCULATED_METRICS,
+});
 
 /**
  * ========================================================================
- * UTILITY FUNCTIONS - Generated from configuration above
+ * UTILITY FUNCTIONS - Generated from the active catalog
  * ========================================================================
  * Do not modify these unless you're changing the metric system itself
  */
@@ -212,14 +325,14 @@ export const CALCULATED_METRICS = [
  * Get all metric aliases (for runtime)
  */
 export function getAllMetricAliases(): string[] {
-  return BALANCE_METRICS.map((m) => m.alias);
+  return metricRegistry.getBaseMetrics().map((m) => m.alias);
 }
 
 /**
  * Get all calculated metric names (for runtime)
  */
 export function getAllCalculatedMetricNames(): string[] {
-  return CALCULATED_METRICS.map((m) => m.name);
+  return metricRegistry.getCalculatedMetrics().map((m) => m.name);
 }
 
 /**
@@ -229,7 +342,7 @@ export function getAllResponseFields(): string[] {
   const baseFields: string[] = [];
 
   // For each metric, add: current, last_year, vs_last_year
-  for (const metric of BALANCE_METRICS) {
+  for (const metric of metricRegistry.getBaseMetrics()) {
     baseFields.push(metric.alias);
     baseFields.push(`${metric.alias}_last_year`);
     baseFields.push(`${metric.alias}_vs_last_year`);
@@ -243,9 +356,10 @@ export function getAllResponseFields(): string[] {
 
 /**
  * ========================================================================
- * TYPE EXPORTS - Generated types for compile-time safety
+ * TYPE EXPORTS - Types of the built-in catalog
  * ========================================================================
- * These types are automatically updated when you modify configuration
+ * Published metrics are only known at runtime: use these types for code that
+ * reads built-in metrics, and string keys for everything else.
  */
 
 /**
@@ -282,46 +396,61 @@ export type AllMetricFieldNames =
  * ========================================================================
  */
 
+/**
+ * JSON Schema property of a metric
+ */
+export interface MetricSchemaProperty {
+  type: string;
+  description: string;
+  /** Value may be null (YoY variances, growth over a zero base) */
+  nullable: boolean;
+}
+
 /**
  * Generate Fastify JSON Schema for all metrics
  * Used in route definitions to avoid duplicating metric definitions
  *
- * This function dynamically generates the schema properties based on
- * BALANCE_METRICS and CALCULATED_METRICS configuration.
+ * This function dynamically generates the schema properties from the active
+ * catalog, so it must be called when routes are registered (after
+ * loadMetricCatalog), not at module load.
  *
  * @returns JSON Schema properties object for Fastify validation
  */
-export function generateMetricsSchema(): Record<string, { type: string; description: string }> {
-  const schema: Record<string, { type: string; description: string }> = {};
+export function generateMetricsSchema(): Record<string, MetricSchemaProperty> {
+  const schema: Record<string, MetricSchemaProperty> = {};
 
   // Add all base metrics (current, last_year, vs_last_year)
-  for (const metric of BALANCE_METRICS) {
+  for (const metric of metricRegistry.getBaseMetrics()) {
     const alias = metric.alias;
 
     // Current period value
     schema[alias] = {
       type: 'number',
       description: `Current period ${alias}`,
+      nullable: false,
     };
 
     // Last year value
     schema[`${alias}_last_year`] = {
       type: 'number',
       description: `Previous year ${alias}`,
+      nullable: false,
     };
 
-    // Year-over-year variance
+    // Year-over-year variance (null when there is no last year base)
     schema[`${alias}_vs_last_year`] = {
       type: 'number',
       description: `YoY variance % for ${alias}`,
+      nullable: true,
     };
   }
 
-  // Add calculated metrics from configuration
-  for (const calculatedMetric of CALCULATED_METRICS) {
+  // Add calculated metrics from the catalog
+  for (const calculatedMetric of metricRegistry.getCalculatedMetrics()) {
     schema[calculatedMetric.name] = {
       type: 'number',
       description: calculatedMetric.description,
+      nullable: calculatedMetric.nullable === true,
     };
   }
 
@@ -0,0 +1,21 @@
+/**
+ * Price-volume-mix analysis configuration (see /api/insights/price-volume-mix).
+ *
+ * The analysis needs the units sold of each transactions row. The column is
+ * not part of the metric catalog: the first of QUANTITY_COLUMNS present in
+ * `transactions` (column discovery) is used, and the endpoint is unavailable
+ * when none is.
+ */
+
+/**
+ * Candidate quantity columns of `transactions`, in order of preference
+ */
+export const QUANTITY_COLUMNS = ['quantity', 'Cantidad', 'units'] as const;
+
+/**
+ * Product levels the sales are decomposed at: price and mix effects compare
+ * the unit prices and the quantity shares of these items
+ */
+export const PVM_ITEM_LEVELS = ['product_id', 'Marca', 'Categoria'] as const;
+
+export type PvmItemLevel = (typeof PVM_ITEM_LEVELS)[number];
@@ -0,0 +1,35 @@
+/**
+ * Query result cache configuration.
+ *
+ * Entries are also invalidated as soon as the source tables receive new data
+ * (see DataFreshnessProbe), so the TTL only bounds how long an entry may live
+ * when nothing is loaded.
+ */
+
+/**
+ * Endpoints whose ClickHouse queries go through the cache
+ */
+export type CacheEndpoint = 'balance' | 'list' | 'list-export' | 'labels' | 'qube6' | 'campaign' | 'customers' | 'rfm' | 'insights';
+
+/**
+ * Result TTL per endpoint (ms)
+ */
+export const QUERY_CACHE_TTLS: Record<CacheEndpoint, number> = {
+  balance: 10 * 60 * 1000,
+  list: 10 * 60 * 1000,
+  'list-export': 10 * 60 * 1000,
+  // Distinct values barely change between loads
+  labels: 30 * 60 * 1000,
+  qube6: 30 * 60 * 1000,
+  // "En Vivo" campaign dashboards refetch every 2 minutes
+  campaign: 60 * 1000,
+  customers: 10 * 60 * 1000,
+  rfm: 30 * 60 * 1000,
+  insights: 10 * 60 * 1000,
+};
+
+/**
+ * How often the last-load timestamp of the source tables is probed (ms).
+ * Bounds how long a result may outlive a data load.
+ */
+export const FRESHNESS_PROBE_INTERVAL = 30 * 1000;
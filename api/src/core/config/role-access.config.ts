@@ -0,0 +1,44 @@
+/**
+ * Default role-access definitions (seed data).
+ *
+ * Roles, their allowed frontend routes and their mandatory row filters live in
+ * Postgres (`role`, `role_path`, `role_data_filter`) and are managed through
+ * /api/roles. These defaults reproduce the original static web config and are
+ * inserted by `npm run db:seed` when a role does not exist yet.
+ */
+export interface RoleDefinition {
+  /** Dyna profile role (`users.dynaRole`) */
+  key: string;
+  /** Human-readable channel label (chip next to page titles) */
+  label: string | null;
+  /** Every route, no row filter */
+  fullAccess: boolean;
+  /** Allowed frontend routes (ignored with fullAccess) */
+  paths: string[];
+  /** Mandatory row filters: field → allowed values */
+  dataFilters: Record<string, string[]>;
+}
+
+const DISTRIBUTION_PATHS = [
+  '/distribucion/regionales',
+  '/distribucion/comerciales',
+  '/distribucion/clientes',
+  '/distribucion/productos',
+  '/distribucion/marcas',
+  '/distribucion/marcas-aliadas',
+];
+
+export const DEFAULT_ROLES: RoleDefinition[] = [
+  { key: 'MANAGER', label: null, fullAccess: true, paths: [], dataFilters: {} },
+  {
+    key: 'MANAGER_DISTRIBUTION',
+    label: 'Distribución',
+    fullAccess: false,
+    paths: DISTRIBUTION_PATHS,
+    dataFilters: { channel: ['DISTRIBUCION'] },
+  },
+  { key: 'MANAGER_CADENAS', label: 'Cadenas', fullAccess: false, paths: [], dataFilters: { channel: ['CADENAS'] } },
+  { key: 'MANAGER_EXPORTATION', label: 'Exportación', fullAccess: false, paths: [], dataFilters: { channel: ['EXPORTACIONES'] } },
+  // Retail is identified by its regional, not by channel=RETAIL
+  { key: 'MANAGER_RETAIL', label: 'Retail', fullAccess: false, paths: [], dataFilters: { IdRegional: ['RTL'] } },
+];
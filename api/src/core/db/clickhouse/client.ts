@@ -1,5 +1,6 @@
 import { createClient, type ClickHouseClient } from '@clickhouse/client';
 import { logger } from '../../logger/logger.js';
+import { queryRows } from './observed-query.js';
 
 interface ClickHouseConfig {
   host: string;
@@ -9,6 +10,8 @@ interface ClickHouseConfig {
   database: string;
   request_timeout?: number;
   max_open_connections?: number;
+  /** Server-side query time limit (seconds). Default: 60 */
+  max_execution_time?: number;
 }
 
 class DatabaseClient {
@@ -31,7 +34,7 @@ class DatabaseClient {
       },
       clickhouse_settings: {
         // Optimizations for analytics workload
-        max_execution_time: 60,
+        max_execution_time: config.max_execution_time ?? 60,
         enable_http_compression: 1,
         output_format_json_quote_64bit_integers: 0,
       },
@@ -48,14 +51,21 @@ class DatabaseClient {
     return DatabaseClient.instance;
   }
 
+  /**
+   * Separate client with its own settings and connection pool (e.g. the
+   * longer time limits of the background export jobs)
+   */
+  public static create(config: ClickHouseConfig): DatabaseClient {
+    return new DatabaseClient(config);
+  }
+
   public getClient(): ClickHouseClient {
     return this.client;
   }
 
   public async healthCheck(): Promise<boolean> {
     try {
-      const result = await this.client.query({ query: 'SELECT 1' });
-      await result.json();
+      await queryRows(this.client, { kind: 'health-check', query: 'SELECT 1', queryParams: {} });
       return true;
     } catch (error) {
       logger.error({
@@ -0,0 +1,119 @@
+import { randomUUID } from 'crypto';
+import type { ClickHouseClient, ClickHouseSettings } from '@clickhouse/client';
+import { queryMonitor } from '../../observability/query-monitor.js';
+import { currentRequestId } from '../../observability/request-context.js';
+
+/**
+ * A JSONEachRow query and the label it is reported under
+ */
+export interface ObservedQuery {
+  /** Short, stable label of the caller (a metric label: keep the set bounded) */
+  kind: string;
+  query: string;
+  queryParams: Record<string, unknown>;
+  clickhouseSettings?: ClickHouseSettings | undefined;
+}
+
+/**
+ * Run a JSONEachRow query and read all its rows, recording its timing, the
+ * rows ClickHouse read and the request that ran it (see QueryMonitor)
+ */
+export async function queryRows<T>(client: ClickHouseClient, params: ObservedQuery): Promise<T[]> {
+  const run = startQuery(params);
+  try {
+    const resultSet = await client.query(run.request);
+    const rows = await resultSet.json<T>();
+    run.finish(resultSet.response_headers, rows.length);
+    return rows;
+  } catch (error) {
+    run.fail(error);
+    throw error;
+  }
+}
+
+/**
+ * Stream the rows of a JSONEachRow query (parsed as ClickHouse sends them).
+ * Recorded once the stream ends; a consumer that stops early records the
+ * rows it read.
+ */
+export async function* streamRows<T>(client: ClickHouseClient, params: ObservedQuery): AsyncGenerator<T> {
+  const run = startQuery(params);
+  let headers: ResponseHeaders | undefined;
+  let count = 0;
+  let failed = false;
+  try {
+    const resultSet = await client.query(run.request);
+    headers = resultSet.response_headers;
+
+    for await (const rows of resultSet.stream<T>()) {
+      for (const row of rows) {
+        count++;
+        yield row.json();
+      }
+    }
+  } catch (error) {
+    failed = true;
+    run.fail(error, headers);
+    throw error;
+  } finally {
+    if (!failed) run.finish(headers, count);
+  }
+}
+
+type ResponseHeaders = Record<string, string | string[] | undefined>;
+
+function startQuery({ kind, query, queryParams, clickhouseSettings }: ObservedQuery) {
+  const queryId = randomUUID();
+  const requestId = currentRequestId() ?? null;
+  const startedAt = new Date();
+  const start = performance.now();
+
+  const record = (headers: ResponseHeaders | undefined, resultRows: number | null, error: string | null) => {
+    const summary = parseSummary(headers);
+    queryMonitor.record({
+      queryId,
+      kind,
+      requestId,
+      startedAt: startedAt.toISOString(),
+      elapsedMs: Math.round(performance.now() - start),
+      readRows: summary.readRows,
+      readBytes: summary.readBytes,
+      resultRows,
+      error,
+      sql: query,
+    });
+  };
+
+  return {
+    request: {
+      query,
+      query_params: queryParams,
+      query_id: queryId,
+      format: 'JSONEachRow' as const,
+      ...(clickhouseSettings && { clickhouse_settings: clickhouseSettings }),
+    },
+    finish: (headers: ResponseHeaders | undefined, resultRows: number) => record(headers, resultRows, null),
+    fail: (error: unknown, headers?: ResponseHeaders) =>
+      record(headers, null, error instanceof Error ? error.message : String(error)),
+  };
+}
+
+/**
+ * Rows and bytes read, from the X-ClickHouse-Summary response header. For a
+ * streamed result the header is sent with the first rows, so it may fall
+ * short of the final figures (system.query_log has them, by query_id).
+ */
+function parseSummary(headers: ResponseHeaders | undefined): { readRows: number | null; readBytes: number | null } {
+  const header = headers?.['x-clickhouse-summary'];
+  if (typeof header !== 'string') return { readRows: null, readBytes: null };
+
+  try {
+    const summary = JSON.parse(header) as { read_rows?: string; read_bytes?: string };
+    return {
+      readRows: summary.read_rows !== undefined ? Number(summary.read_rows) : null,
+      readBytes: summary.read_bytes !== undefined ? Number(summary.read_bytes) : null,
+    };
+  } catch {
+    return { readRows: null, readBytes: null };
+  }
+}
@@ -1,27 +1,132 @@
-import type { ClickHouseClient } from '@clickhouse/client';
+import type { ClickHouseClient, ClickHouseSettings } from '@clickhouse/client';
 import { FilterBuilder, type FilterCondition } from './filter-builder.js';
 import { MetricCalculator } from './metric-calculator.js';
 import { ColumnDiscoveryService } from './column-discovery.js';
-import type { MetricConfig } from './types.js';
+import { ProjectionBuilder, type ProjectionSource } from './projection-builder.js';
+import type {
+  DailyOutlier,
+  DistinctValue,
+  DistinctValuesOrder,
+  GroupedRowCondition,
+  MetricConfig,
+  PriceVolumeMixRow,
+} from './types.js';
 import type { IAnalyticsQueryBuilder } from './interfaces.js';
-import { getAllMetricAliases, getAllCalculatedMetricNames } from '../../../config/metrics.config.js';
+import { runCachedQuery, type QueryCacheBinding, type QueryCacheStats } from '../../../cache/query-cache.js';
+import { streamRows } from '../observed-query.js';
+import { getAllMetricAliases, getAllCalculatedMetricNames, metricRegistry } from '../../../config/metrics.config.js';
+import type { CompiledCustomMetric } from '../../../metrics/custom-metric.js';
 import { getFieldPair } from '../../../config/dimension-fields.config.js';
+import { ValidationError } from '../../../errors/app-error.js';
+import {
+  DEFAULT_SERIES_METRICS,
+  lastYearDate,
+  seriesLookbackStart,
+  seriesTransformWindow,
+  type LastYearAlignment,
+  type SeriesGranularity,
+  type SeriesRow,
+  type SeriesTransform,
+  type SeriesWindow,
+  seriesPeriodEnd,
+} from '../../../utils/time-series.js';
+import { PROJECTION_FIELDS, resolveProjectionWindow, type ProjectionMethod } from '../../../utils/projection.js';
 
 /**
  * Valid fields for ORDER BY clause
  * Includes 'name' (dimension value) + all base metrics + all calculated metrics
+ * of the active catalog (read per call: the catalog can be republished)
  */
-const VALID_ORDER_BY_FIELDS = [
-  'name',
-  ...getAllMetricAliases(),
-  ...getAllCalculatedMetricNames(),
-];
+function getValidOrderByFields(): string[] {
+  return ['name', ...getAllMetricAliases(), ...getAllCalculatedMetricNames()];
+}
+
+/**
+ * Distinct value search: shortest term matched fuzzily (n-grams of 4 chars
+ * need a term at least that long) and the minimum n-gram similarity
+ */
+const DISTINCT_FUZZY_MIN_LENGTH = 4;
+const DISTINCT_FUZZY_MIN_SIMILARITY = 0.5;
+/** Search rank of a value that does not match */
+const DISTINCT_SEARCH_NO_MATCH = 5;
+
+/**
+ * ClickHouse function truncating a date to the start of its period
+ */
+const SERIES_PERIOD_FUNCTIONS: Record<Exclude<SeriesGranularity, 'day'>, string> = {
+  week: 'toMonday',
+  month: 'toStartOfMonth',
+  quarter: 'toStartOfQuarter',
+  year: 'toStartOfYear',
+};
+
+/**
+ * Value of a date condition of a filter set (e.g. the startDate of a 'gte')
+ */
+function dateFilterValue(filters: FilterCondition[], operator: FilterCondition['operator']): string | undefined {
+  const value = filters.find((f) => f.field === 'date' && f.operator === operator)?.value;
+  return typeof value === 'string' ? value : undefined;
+}
 
 /**
  * Valid sort directions
  */
 export type OrderDirection = 'asc' | 'desc';
 
+const ROW_CONDITION_OPERATORS: Record<GroupedRowCondition['operator'], string> = {
+  lt: '<',
+  lte: '<=',
+  gt: '>',
+  gte: '>=',
+};
+
+/**
+ * Configuration of a grouped year-over-year query
+ */
+export interface GroupedYoYQueryConfig {
+  metrics: MetricConfig[];
+  currentPeriodFilters: FilterCondition[];
+  comparisonFilters?: FilterCondition[];
+  groupBy: string;
+  limit?: number;
+  offset?: number;
+  orderBy?: string;
+  orderDirection?: OrderDirection;
+  facturadoOnly?: boolean;
+  search?: string;
+  /**
+   * Also emit groups with no rows in the first table's current period (e.g.
+   * sellers with only committed orders). Not compatible with `search`.
+   */
+  includeAllGroups?: boolean;
+  /**
+   * With includeAllGroups: also emit groups with rows in the comparison
+   * period only (e.g. a seller who sold last year and nothing this year), so
+   * the rows add up to the comparison total too
+   */
+  includePreviousGroups?: boolean;
+  /** User-defined metrics added as extra columns (also valid for orderBy) */
+  customMetrics?: readonly CompiledCustomMetric[];
+  /**
+   * Ancestor dimensions (outermost first) of a hierarchical level: rows are
+   * grouped by them plus groupBy and carry their ids as _parent_<n>.
+   * `_total_count` then counts the rows of each parent.
+   */
+  parentGroupBy?: string[];
+  /** With parentGroupBy: keep the first N rows (in orderBy order) of each parent */
+  limitPerParent?: number;
+  /** Add the end-of-period projection fields of each row (also valid for orderBy) */
+  projection?: ProjectionMethod;
+  /**
+   * Keep only the rows that meet a condition, most extreme first (ascending
+   * for lt/lte, descending for gt/gte; replaces orderBy). limit and offset
+   * apply to the matching rows. Missing values compare as the response
+   * reports them (0 for base metrics and non-nullable calculated metrics).
+   * Not compatible with parentGroupBy.
+   */
+  having?: GroupedRowCondition;
+}
+
 /**
  * AnalyticsQueryBuilder - Orchestrates year-over-year comparison queries
  *
@@ -40,24 +145,81 @@ export class AnalyticsQueryBuilder implements IAnalyticsQueryBuilder {
   private tablePrefix: string;
   private filterBuilder: FilterBuilder;
   private metricCalculator: MetricCalculator;
+  private projectionBuilder: ProjectionBuilder;
   private columnDiscoveryService: ColumnDiscoveryService;
+  private scopeFilters: FilterCondition[];
+  private cache: QueryCacheBinding | undefined;
+  private cacheStats: QueryCacheStats | undefined;
 
-  constructor(client: ClickHouseClient) {
+  /**
+   * @param client - ClickHouse client
+   * @param scopeFilters - Mandatory data-scope conditions (role policy) appended
+   *   to the filters of every query this builder runs. See withScope().
+   * @param cache - Query result cache and the endpoint TTL (no caching if omitted)
+   */
+  constructor(client: ClickHouseClient, scopeFilters: FilterCondition[] = [], cache?: QueryCacheBinding) {
     this.client = client;
     this.tablePrefix = process.env['TABLE_PREFIX'] ?? '';
     this.filterBuilder = new FilterBuilder();
     this.metricCalculator = new MetricCalculator();
+    this.projectionBuilder = new ProjectionBuilder(this.filterBuilder);
     this.columnDiscoveryService = new ColumnDiscoveryService(client);
+    this.scopeFilters = scopeFilters;
+    this.cache = cache;
+  }
+
+  /**
+   * Return a builder bound to a request's data scope (e.g. channel=DISTRIBUCION
+   * for a distribution manager). The scope conditions are appended to every
+   * filter set, so no query path can read outside it. The column discovery
+   * cache and the query cache are shared with this builder.
+   *
+   * @param cacheStats - Request counters updated on cache hits/misses
+   */
+  withScope(scopeFilters: FilterCondition[], cacheStats?: QueryCacheStats): AnalyticsQueryBuilder {
+    const scoped = new AnalyticsQueryBuilder(this.client, scopeFilters, this.cache);
+    scoped.columnDiscoveryService = this.columnDiscoveryService;
+    scoped.cacheStats = cacheStats;
+    return scoped;
+  }
+
+  /**
+   * Run a query, through the query cache when one is bound. Scope conditions
+   * are part of the SQL and its parameters, so differently scoped results
+   * never share an entry.
+   */
+  private runQuery<T>(
+    kind: string,
+    query: string,
+    queryParams: Record<string, unknown>,
+    clickhouseSettings?: ClickHouseSettings
+  ): Promise<T[]> {
+    return runCachedQuery<T>(
+      this.client,
+      { kind, query, queryParams, clickhouseSettings },
+      this.cache,
+      this.cacheStats
+    );
+  }
+
+  /**
+   * Append the mandatory scope conditions to a filter set
+   */
+  private scoped(filters: FilterCondition[]): FilterCondition[] {
+    return this.scopeFilters.length > 0 ? [...filters, ...this.scopeFilters] : filters;
   }
 
   /**
    * Validate orderBy field name against allowlist
    * Prevents SQL injection by only allowing predefined metric aliases and 'name'
+   *
+   * @param customFields - Response fields of the custom metrics in the query
    */
-  private validateOrderByField(field: string): void {
-    if (!VALID_ORDER_BY_FIELDS.includes(field)) {
+  private validateOrderByField(field: string, customFields: string[] = []): void {
+    const validFields = [...getValidOrderByFields(), ...customFields];
+    if (!validFields.includes(field)) {
       throw new Error(
-        `Invalid orderBy field: ${field}. Must be one of: ${VALID_ORDER_BY_FIELDS.join(', ')}`
+        `Invalid orderBy field: ${field}. Must be one of: ${validFields.join(', ')}`
       );
     }
   }
@@ -87,8 +249,13 @@ export class AnalyticsQueryBuilder implements IAnalyticsQueryBuilder {
     currentPeriodFilters: FilterCondition[];
     comparisonFilters?: FilterCondition[];
     facturadoOnly?: boolean;
+    customMetrics?: readonly CompiledCustomMetric[];
+    /** Add the end-of-period projection fields (see utils/projection.ts) */
+    projection?: ProjectionMethod;
   }): Promise<Record<string, number>> {
-    const { metrics, currentPeriodFilters, comparisonFilters, facturadoOnly = false } = config;
+    const { metrics, facturadoOnly = false, customMetrics = [], projection } = config;
+    const currentPeriodFilters = this.scoped(config.currentPeriodFilters);
+    const comparisonFilters = config.comparisonFilters && this.scoped(config.comparisonFilters);
 
     // Comparison period: an explicit static range when provided (e.g. Festival),
     // otherwise the same range shifted back one year (year-over-year default).
@@ -115,18 +282,24 @@ export class AnalyticsQueryBuilder implements IAnalyticsQueryBuilder {
     );
 
     // Add calculated metrics
-    this.metricCalculator.addCalculatedMetrics(finalSelects, metricsByTable, undefined, facturadoOnly);
+    this.metricCalculator.addCalculatedMetrics(finalSelects, metricsByTable, undefined, facturadoOnly, customMetrics);
 
-    // Build and execute final query
-    const query = this.buildFinalQuery(ctes, finalSelects, metricsByTable);
+    const projectionSources = projection
+      ? this.addProjection(ctes, finalSelects, {
+          method: projection,
+          filters: currentPeriodFilters,
+          queryParams,
+          columnMap,
+          references: this.metricCalculator.buildAliasToCteMap(metricsByTable),
+          facturadoOnly,
+          dimensions: [],
+        })
+      : [];
 
-    const resultSet = await this.client.query({
-      query,
-      query_params: queryParams,
-      format: 'JSONEachRow',
-    });
+    // Build and execute final query
+    const query = this.buildFinalQuery(ctes, finalSelects, metricsByTable, projectionSources);
 
-    const results = await resultSet.json<Record<string, number>>();
+    const results = await this.runQuery<Record<string, number>>('yoy', query, queryParams);
     return results[0] ?? {};
   }
 
@@ -139,27 +312,36 @@ export class AnalyticsQueryBuilder implements IAnalyticsQueryBuilder {
    * @param config - Query configuration with groupBy dimension and optional pagination
    * @returns Array of rows, one per group
    */
-  async buildGroupedMultiTableYoYQuery(config: {
-    metrics: MetricConfig[];
-    currentPeriodFilters: FilterCondition[];
-    comparisonFilters?: FilterCondition[];
-    groupBy: string;
-    limit?: number;
-    offset?: number;
-    orderBy?: string;
-    orderDirection?: OrderDirection;
-    facturadoOnly?: boolean;
-    search?: string;
-    /**
-     * Also emit groups with no rows in the first table's current period (e.g.
-     * sellers with only committed orders). Not compatible with `search`.
-     */
-    includeAllGroups?: boolean;
-  }): Promise<Array<Record<string, number | string>>> {
+  async buildGroupedMultiTableYoYQuery(config: GroupedYoYQueryConfig): Promise<Array<Record<string, number | string>>> {
+    const { query, queryParams } = await this.buildGroupedQuery(config);
+    const results = await this.runQuery<Record<string, number | string>>('grouped-yoy', query, queryParams);
+    return Array.isArray(results) ? results : [results];
+  }
+
+  /**
+   * Same query as buildGroupedMultiTableYoYQuery, read as a stream of rows
+   *
+   * Rows are parsed as ClickHouse sends them and the next chunk is only read
+   * when the consumer asks for more rows, so an unbounded result (exports
+   * without a row cap) keeps memory flat. Not cached: entries of that size
+   * would defeat the purpose.
+   */
+  async *streamGroupedMultiTableYoYQuery(
+    config: GroupedYoYQueryConfig
+  ): AsyncGenerator<Record<string, number | string>> {
+    const { query, queryParams } = await this.buildGroupedQuery(config);
+    yield* streamRows<Record<string, number | string>>(this.client, { kind: 'grouped-yoy-stream', query, queryParams });
+  }
+
+  /**
+   * Build the SQL and parameters of a grouped year-over-year query
+   */
+  private async buildGroupedQuery(config: GroupedYoYQueryConfig): Promise<{
+    query: string;
+    queryParams: Record<string, string | string[]>;
+  }> {
     const {
       metrics,
-      currentPeriodFilters,
-      comparisonFilters,
       groupBy,
       limit,
       offset,
@@ -168,10 +350,25 @@ export class AnalyticsQueryBuilder implements IAnalyticsQueryBuilder {
       facturadoOnly = false,
       search,
       includeAllGroups = false,
+      includePreviousGroups = false,
+      customMetrics = [],
+      parentGroupBy = [],
+      limitPerParent,
+      projection,
+      having,
     } = config;
+    const currentPeriodFilters = this.scoped(config.currentPeriodFilters);
+    const comparisonFilters = config.comparisonFilters && this.scoped(config.comparisonFilters);
 
-    // Validate groupBy field
+    // Validate groupBy fields
     this.filterBuilder.validateFieldName(groupBy);
+    parentGroupBy.forEach((field) => this.filterBuilder.validateFieldName(field));
+    if (includeAllGroups && parentGroupBy.length > 0) {
+      throw new Error('includeAllGroups is not supported with parentGroupBy');
+    }
+    if (having && parentGroupBy.length > 0) {
+      throw new Error('having is not supported with parentGroupBy');
+    }
 
     // Comparison period: explicit static range when provided, else same range -1 year
     const previousYearFilters = comparisonFilters
@@ -188,7 +385,7 @@ export class AnalyticsQueryBuilder implements IAnalyticsQueryBuilder {
 
     // Build query components with GROUP BY and table-aware filtering
     const queryParams: Record<string, string | string[]> = {};
-    const includeTotalCount = limit !== undefined;
+    const includeTotalCount = !having && (limit !== undefined || limitPerParent !== undefined);
     const { ctes, finalSelects, tablesWithDimension, skippedTables } = this.buildGroupedQueryComponents(
       metricsByTable,
       currentPeriodFilters,
@@ -198,11 +395,24 @@ export class AnalyticsQueryBuilder implements IAnalyticsQueryBuilder {
       groupBy,
       includeTotalCount,
       search,
-      includeAllGroups
+      includeAllGroups,
+      parentGroupBy
     );
 
     // Add calculated metrics (pass skipped tables so formulas use literal aliases instead of CTE refs)
-    this.metricCalculator.addCalculatedMetrics(finalSelects, metricsByTable, skippedTables, facturadoOnly);
+    this.metricCalculator.addCalculatedMetrics(finalSelects, metricsByTable, skippedTables, facturadoOnly, customMetrics);
+
+    const projectionSources = projection
+      ? this.addProjection(ctes, finalSelects, {
+          method: projection,
+          filters: currentPeriodFilters,
+          queryParams,
+          columnMap,
+          references: this.metricCalculator.buildAliasToCteMap(metricsByTable, skippedTables),
+          facturadoOnly,
+          dimensions: [...parentGroupBy, getFieldPair(groupBy).idField],
+        })
+      : [];
 
     // Build and execute final query with JOINs (only for tables that have the dimension)
     const query = this.buildGroupedFinalQuery(
@@ -210,21 +420,73 @@ export class AnalyticsQueryBuilder implements IAnalyticsQueryBuilder {
       finalSelects,
       tablesWithDimension,
       groupBy,
-      limit,
-      offset,
+      having ? undefined : limit,
+      having ? undefined : offset,
       orderBy,
       orderDirection,
-      includeAllGroups
+      includeAllGroups,
+      [...customMetrics.map((m) => m.name), ...(projection ? PROJECTION_FIELDS : [])],
+      parentGroupBy,
+      limitPerParent,
+      projectionSources,
+      includePreviousGroups
     );
 
-    const resultSet = await this.client.query({
-      query,
-      query_params: queryParams,
-      format: 'JSONEachRow',
-    });
+    if (having) {
+      return { query: this.filterGroupedRows(query, having, queryParams, limit, offset), queryParams };
+    }
+    return { query, queryParams };
+  }
 
-    const results = await resultSet.json<Record<string, number | string>>();
-    return Array.isArray(results) ? results : [results];
+  /**
+   * Wrap a grouped query to keep the rows that meet a condition (see
+   * GroupedYoYQueryConfig.having). The condition reads the output columns, so
+   * it applies to calculated metrics too.
+   */
+  private filterGroupedRows(
+    query: string,
+    condition: GroupedRowCondition,
+    queryParams: Record<string, string | string[]>,
+    limit?: number,
+    offset?: number
+  ): string {
+    const value = this.responseFieldSql(condition.field);
+    const operator = ROW_CONDITION_OPERATORS[condition.operator];
+    if (!operator || !Number.isFinite(condition.value)) {
+      throw new Error(`Invalid having condition on ${condition.field}`);
+    }
+    queryParams['having_value'] = String(condition.value);
+    const direction = condition.operator.startsWith('lt') ? 'ASC' : 'DESC';
+
+    const paginationClause = limit !== undefined
+      ? `\nLIMIT ${limit}${offset !== undefined ? ` OFFSET ${offset}` : ''}`
+      : '';
+
+    return `
+SELECT *
+FROM (${query})
+WHERE ${value} ${operator} {having_value:Float64}
+ORDER BY ${value} ${direction}${paginationClause}
+`;
+  }
+
+  /**
+   * Output column expression of a catalog response field, with the missing
+   * values the response builder reports (see buildDynamicResponse)
+   *
+   * @throws Error if the field is not a response field of the catalog
+   */
+  private responseFieldSql(field: string): string {
+    for (const { alias } of metricRegistry.getBaseMetrics()) {
+      if (field === alias) return `ifNull(${alias}, 0)`;
+      if (field === `${alias}_last_year`) return `ifNull(${alias}_ly, 0)`;
+      if (field === `${alias}_vs_last_year`) return field;
+    }
+    const calculated = metricRegistry.getCalculatedMetrics().find((metric) => metric.name === field);
+    if (calculated) {
+      return calculated.nullable ? field : `ifNull(${field}, 0)`;
+    }
+    throw new Error(`Invalid having field: ${field}`);
   }
 
   /**
@@ -258,6 +520,60 @@ export class AnalyticsQueryBuilder implements IAnalyticsQueryBuilder {
     return filters.filter((f) => !f.table || f.table === table);
   }
 
+  /**
+   * Add the end-of-period projection to a query: pushes its CTEs and SELECT
+   * expressions and returns the sources the final query must join.
+   * The actual is sales + orders (sales only for facturadoOnly).
+   *
+   * @param config.references - Base metric alias -> SQL reference in the host query
+   * @throws ValidationError for open date ranges, or a catalog without sales / budget_full
+   */
+  private addProjection(
+    ctes: string[],
+    selects: string[],
+    config: {
+      method: ProjectionMethod;
+      filters: FilterCondition[];
+      queryParams: Record<string, string | string[]>;
+      columnMap: Map<string, Set<string>>;
+      references: Map<string, string>;
+      facturadoOnly: boolean;
+      dimensions: string[];
+      period?: (dateExpr: string) => string;
+      periodEnd?: string;
+    }
+  ): ProjectionSource[] {
+    const { filters, references } = config;
+    const window = resolveProjectionWindow(
+      dateFilterValue(filters, 'gte'),
+      dateFilterValue(filters, 'lte'),
+      config.periodEnd
+    );
+
+    const sales = references.get('sales');
+    const budgetFull = references.get('budget_full');
+    if (sales === undefined || budgetFull === undefined) {
+      throw new ValidationError('projection requires the sales and budget_full metrics');
+    }
+    const orders = config.facturadoOnly ? undefined : references.get('orders');
+
+    const projection = this.projectionBuilder.build({
+      method: config.method,
+      window,
+      filters: this.filtersForTable(filters, 'transactions'),
+      queryParams: config.queryParams,
+      tablePrefix: this.tablePrefix,
+      columnMap: config.columnMap,
+      dimensions: config.dimensions,
+      ...(config.period && { period: config.period }),
+      references: { actual: orders === undefined ? sales : `${sales} + ${orders}`, budgetFull },
+    });
+
+    ctes.push(...projection.ctes);
+    selects.push(...projection.selects);
+    return projection.sources;
+  }
+
   /**
    * Build CTEs and SELECT clauses for non-grouped query with table-aware filtering
    */
@@ -371,7 +687,8 @@ ${previousWhere}
     groupBy: string,
     includeTotalCount = false,
     search?: string,
-    includeAllGroups = false
+    includeAllGroups = false,
+    parentFields: string[] = []
   ): { ctes: string[]; finalSelects: string[]; tablesWithDimension: string[]; skippedTables: Set<string> } {
     const ctes: string[] = [];
     const finalSelects: string[] = [];
@@ -389,7 +706,7 @@ ${previousWhere}
     const tablesWithDimension = tables.filter((table) => {
       const tableName = `${this.tablePrefix}${table}`;
       const cols = columnMap.get(tableName);
-      if (!(cols?.has(idField) ?? false)) return false;
+      if (![...parentFields, idField].every((field) => cols?.has(field) ?? false)) return false;
       return !this.filtersForTable(currentPeriodFilters, table).some(
         (f) => f.table === table && !(cols?.has(f.field) ?? false)
       );
@@ -449,9 +766,20 @@ ${previousWhere}
       );
     }
 
-    // Add total count as window function if pagination is needed
+    // Ancestor ids of a hierarchical level (_parent_0 is the outermost)
+    const parentExprs = parentFields.map((field) =>
+      `COALESCE(${tablesWithDimension.flatMap((table) => [`${table}_current.${field}`, `${table}_previous.${field}`]).join(', ')})`
+    );
+    parentExprs.forEach((expr, index) => finalSelects.push(`${expr} AS _parent_${index}`));
+
+    // Add total count as window function if pagination is needed (per parent
+    // for hierarchical levels)
     if (includeTotalCount) {
-      finalSelects.push(`count() OVER () AS _total_count`);
+      finalSelects.push(
+        parentExprs.length > 0
+          ? `count() OVER (PARTITION BY ${parentExprs.join(', ')}) AS _total_count`
+          : `count() OVER () AS _total_count`
+      );
     }
 
     for (const [table, tableMetrics] of metricsByTable) {
@@ -469,13 +797,13 @@ ${previousWhere}
             cteName: currentCteName, tableMetrics,
             filters: tableCurrentFilters, queryParams,
             paramPrefix: `current_${table}`, tableName, columnMap, aliasSuffix: '',
-            groupByConfig: { idField, nameField },
+            groupByConfig: { idField, nameField, parentFields },
           }));
           ctes.push(this.buildBudgetCteSql({
             cteName: previousCteName, tableMetrics,
             filters: tablePreviousFilters, queryParams,
             paramPrefix: `previous_${table}`, tableName, columnMap, aliasSuffix: '_ly',
-            groupByConfig: { idField, nameField },
+            groupByConfig: { idField, nameField, parentFields },
           }));
         } else {
           // Build table-aware WHERE clauses
@@ -507,16 +835,17 @@ ${previousWhere}
 
           // Select both id and name fields. If idField === nameField (e.g.
           // month) or the table lacks the name column, only select the id.
+          // Ancestor dimensions of a hierarchical level come first.
           const selectName = idField !== nameField && tableHasName(table);
-          const dimensionSelects = selectName
-            ? `trimBoth(${idField}) AS ${idField}, trimBoth(${nameField}) AS ${nameField}`
-            : `trimBoth(${idField}) AS ${idField}`;
+          const dimensionFields = [...parentFields, idField, ...(selectName ? [nameField] : [])];
+          const dimensionSelects = dimensionFields.map((field) => `trimBoth(${field}) AS ${field}`).join(', ');
+          const groupByPositions = dimensionFields.map((_, index) => index + 1).join(', ');
 
           ctes.push(`${currentCteName} AS (
   SELECT ${dimensionSelects}, ${currentMetrics}
   FROM ${tableName}
 ${currentWhere}
-  GROUP BY ${selectName ? '1, 2' : '1'}
+  GROUP BY ${groupByPositions}
 )`);
 
           // Previous year CTE with GROUP BY
@@ -528,7 +857,7 @@ ${currentWhere}
   SELECT ${dimensionSelects}, ${previousMetrics}
   FROM ${tableName}
 ${previousWhere}
-  GROUP BY ${selectName ? '1, 2' : '1'}
+  GROUP BY ${groupByPositions}
 )`);
         }
 
@@ -571,7 +900,7 @@ ${previousWhere}
     tableName: string;
     columnMap: Map<string, Set<string>>;
     aliasSuffix: string;
-    groupByConfig?: { idField: string; nameField: string };
+    groupByConfig?: { idField: string; nameField: string; parentFields?: string[] };
   }): string {
     const {
       cteName, tableMetrics, filters, queryParams, paramPrefix,
@@ -588,7 +917,48 @@ ${previousWhere}
       : 'coalesce(d.Dias_transcurridos / nullIf(d.Dias_habiles, 0), 1)';
     const tableColumns = columnMap.get(tableName) ?? new Set<string>();
 
-    // Build WHERE conditions with date expansion for budget
+    const whereClause = this.buildBudgetWhereClause(filters, queryParams, paramPrefix, tableColumns);
+
+    // Build metric expressions with proration (aliases ending in "_full" keep
+    // the raw, non-prorated month budget)
+    const metricExprs = tableMetrics
+      .map((m) => {
+        const expr = m.alias.endsWith('_full')
+          ? `${m.aggregation}(${m.field})`
+          : `${m.aggregation}(${m.field} * ${prorationFactor})`;
+        return `${expr} AS ${m.alias}${aliasSuffix}`;
+      })
+      .join(', ');
+
+    // Build dimension selects and GROUP BY for grouped queries
+    let dimensionSelectsPart = '';
+    let groupByClause = '';
+    if (groupByConfig) {
+      const { idField, nameField, parentFields = [] } = groupByConfig;
+      const dimensionFields = [...parentFields, idField, ...(idField === nameField ? [] : [nameField])];
+      dimensionSelectsPart = `${dimensionFields.map((field) => `trimBoth(${field}) AS ${field}`).join(', ')}, `;
+      groupByClause = `\n  GROUP BY ${dimensionFields.map((_, index) => index + 1).join(', ')}`;
+    }
+
+    return `${cteName} AS (
+  SELECT ${dimensionSelectsPart}${metricExprs}
+  FROM ${tableName}
+  LEFT JOIN ${diasTable} d ON toMonth(toDate(date)) = d.Mes AND toYear(toDate(date)) = d.Ano
+${whereClause}${groupByClause}
+)`;
+  }
+
+  /**
+   * WHERE clause of a budget query: filters on columns the table lacks are
+   * skipped and the start date is expanded to the start of its month
+   * (budget rows are stored on the 1st of each month)
+   */
+  private buildBudgetWhereClause(
+    filters: FilterCondition[],
+    queryParams: Record<string, string | string[]>,
+    paramPrefix: string,
+    tableColumns: Set<string>
+  ): string {
     const conditions: string[] = [];
 
     for (let index = 0; index < filters.length; index++) {
@@ -621,37 +991,7 @@ ${previousWhere}
       }
     }
 
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
-
-    // Build metric expressions with proration (aliases ending in "_full" keep
-    // the raw, non-prorated month budget)
-    const metricExprs = tableMetrics
-      .map((m) => {
-        const expr = m.alias.endsWith('_full')
-          ? `${m.aggregation}(${m.field})`
-          : `${m.aggregation}(${m.field} * ${prorationFactor})`;
-        return `${expr} AS ${m.alias}${aliasSuffix}`;
-      })
-      .join(', ');
-
-    // Build dimension selects and GROUP BY for grouped queries
-    let dimensionSelectsPart = '';
-    let groupByClause = '';
-    if (groupByConfig) {
-      const { idField, nameField } = groupByConfig;
-      const dimensionSelects = idField === nameField
-        ? `trimBoth(${idField}) AS ${idField}`
-        : `trimBoth(${idField}) AS ${idField}, trimBoth(${nameField}) AS ${nameField}`;
-      dimensionSelectsPart = `${dimensionSelects}, `;
-      groupByClause = `\n  GROUP BY ${idField === nameField ? '1' : '1, 2'}`;
-    }
-
-    return `${cteName} AS (
-  SELECT ${dimensionSelectsPart}${metricExprs}
-  FROM ${tableName}
-  LEFT JOIN ${diasTable} d ON toMonth(toDate(date)) = d.Mes AND toYear(toDate(date)) = d.Ano
-${whereClause}${groupByClause}
-)`;
+    return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
   }
 
   /**
@@ -660,15 +1000,17 @@ ${whereClause}${groupByClause}
   private buildFinalQuery(
     ctes: string[],
     finalSelects: string[],
-    metricsByTable: Map<string, MetricConfig[]>
+    metricsByTable: Map<string, MetricConfig[]>,
+    projectionSources: ProjectionSource[] = []
   ): string {
+    const previousTables = Array.from(metricsByTable.keys()).map((t) => `${t}_previous`);
     return `
 WITH
 ${ctes.join(',\n')}
 SELECT
   ${finalSelects.join(',\n  ')}
 FROM ${Array.from(metricsByTable.keys()).map((t) => `${t}_current`).join(', ')}
-CROSS JOIN ${Array.from(metricsByTable.keys()).map((t) => `${t}_previous`).join('\nCROSS JOIN ')}
+CROSS JOIN ${[...previousTables, ...projectionSources.map((source) => source.cte)].join('\nCROSS JOIN ')}
 `;
   }
 
@@ -687,16 +1029,25 @@ CROSS JOIN ${Array.from(metricsByTable.keys()).map((t) => `${t}_previous`).join(
     offset?: number,
     orderBy: string = 'sales',
     orderDirection: OrderDirection = 'desc',
-    includeAllGroups = false
+    includeAllGroups = false,
+    customFields: string[] = [],
+    parentFields: string[] = [],
+    limitPerParent?: number,
+    projectionSources: ProjectionSource[] = [],
+    includePreviousGroups = false
   ): string {
     // Validate ordering parameters
-    this.validateOrderByField(orderBy);
+    this.validateOrderByField(orderBy, customFields);
     const validatedDirection = this.validateOrderDirection(orderDirection);
     const firstTable = tablesWithDimension[0]; // Always 'transactions' due to groupMetricsByTable sorting
     const joinClauses: string[] = [];
 
-    // Get field mapping to know which field to use for JOINs
+    // Get field mapping to know which field to use for JOINs (hierarchical
+    // levels join on the ancestor ids too)
     const { idField } = getFieldPair(groupBy);
+    const joinFields = [...parentFields, idField];
+    const joinOn = (left: string, right: string): string =>
+      joinFields.map((field) => `${left}.${field} = ${right}.${field}`).join(' AND ');
 
     let fromClause: string;
     if (includeAllGroups) {
@@ -705,9 +1056,12 @@ CROSS JOIN ${Array.from(metricsByTable.keys()).map((t) => `${t}_previous`).join(
       // committed orders but no invoiced sales yet) still get a row. Note the
       // `search` predicate only lives in the driving table's CTE, so spine
       // mode does not support search.
+      const spineCtes = tablesWithDimension.flatMap((t) =>
+        includePreviousGroups ? [`${t}_current`, `${t}_previous`] : [`${t}_current`]
+      );
       ctes.push(`all_ids AS (
   SELECT DISTINCT ${idField} FROM (
-  ${tablesWithDimension.map((t) => `SELECT ${idField} FROM ${t}_current`).join('\n  UNION ALL\n  ')}
+  ${spineCtes.map((cte) => `SELECT ${idField} FROM ${cte}`).join('\n  UNION ALL\n  ')}
   )
 )`);
       fromClause = 'all_ids';
@@ -724,20 +1078,34 @@ CROSS JOIN ${Array.from(metricsByTable.keys()).map((t) => `${t}_previous`).join(
 
       // First LEFT JOIN the previous year of the first table
       joinClauses.push(
-        `LEFT JOIN ${firstTable}_previous ON ${firstTable}_current.${idField} = ${firstTable}_previous.${idField}`
+        `LEFT JOIN ${firstTable}_previous ON ${joinOn(`${firstTable}_current`, `${firstTable}_previous`)}`
       );
 
       // Then LEFT JOIN other tables that have the dimension column
       for (const table of tablesWithDimension.slice(1)) {
         joinClauses.push(
-          `LEFT JOIN ${table}_current ON ${firstTable}_current.${idField} = ${table}_current.${idField}`
+          `LEFT JOIN ${table}_current ON ${joinOn(`${firstTable}_current`, `${table}_current`)}`
         );
         joinClauses.push(
-          `LEFT JOIN ${table}_previous ON ${firstTable}_current.${idField} = ${table}_previous.${idField}`
+          `LEFT JOIN ${table}_previous ON ${joinOn(`${firstTable}_current`, `${table}_previous`)}`
         );
       }
     }
 
+    // Projection CTEs: single-row ones (calendar) apply to every group
+    for (const { cte, keys } of projectionSources) {
+      joinClauses.push(
+        keys.length === 0
+          ? `CROSS JOIN ${cte}`
+          : `LEFT JOIN ${cte} ON ${keys.map((key) => `${fromClause}.${key} = ${cte}.${key}`).join(' AND ')}`
+      );
+    }
+
+    // Top-N rows per parent for hierarchical levels (ClickHouse LIMIT BY)
+    const limitByClause = limitPerParent !== undefined && parentFields.length > 0
+      ? `\nLIMIT ${limitPerParent} BY ${parentFields.map((_, index) => `_parent_${index}`).join(', ')}`
+      : '';
+
     // Build pagination clause if limit is provided
     const paginationClause = limit !== undefined
       ? `\nLIMIT ${limit}${offset !== undefined ? ` OFFSET ${offset}` : ''}`
@@ -750,136 +1118,467 @@ SELECT
   ${finalSelects.join(',\n  ')}
 FROM ${fromClause}
 ${joinClauses.join('\n')}
-ORDER BY ${orderBy} ${validatedDirection.toUpperCase()}${paginationClause}
+ORDER BY ${orderBy} ${validatedDirection.toUpperCase()}${limitByClause}${paginationClause}
 `;
   }
 
   /**
-   * Build time-series query returning sales grouped by day or month
+   * Build a time series of catalog metrics (base or calculated) per period
+   *
+   * Base metrics are aggregated per period and table; calculated metrics are
+   * then evaluated per period from their formulas. Every period of the
+   * [startDate, endDate] range gets a row (missing values are 0), so rolling
+   * windows always span the same number of periods.
+   *
+   * Budget honours the dimension filters its table has (same zeroing rule as
+   * buildMultiTableYoYQuery). At day/week granularity it is spread over the
+   * days with sales: monthly budget / business days per day.
    *
-   * @param config - Filters and granularity ('day' | 'month')
-   * @returns Array of { period, sales } rows sorted by period ASC
+   * - transform: cumulative or rolling sums of the base metrics, computed over
+   *   a lookback before startDate so the first period's window is complete
+   * - lastYear: adds `<metric>_last_year`, last year's series shifted onto the
+   *   current periods (by calendar date or by weekday)
+   * - projection: adds the projected close of each month / quarter / year
+   *   (see addProjection); not combinable with transform
+   *
+   * @param config.metrics - Metrics of each row (default: sales, budget)
+   * @returns Rows of { period, ...metrics } sorted by period ASC
+   * @throws ValidationError for unknown metrics or unsupported transform /
+   *         alignment combinations
    */
   async buildTimeSeriesQuery(config: {
     filters: FilterCondition[];
-    granularity: 'day' | 'month';
-  }): Promise<Array<{ period: string; sales: number; budget: number }>> {
-    const { filters, granularity } = config;
-    const transactionsTable = `${this.tablePrefix}transactions`;
-    const budgetTable = `${this.tablePrefix}budget`;
-    const diasTable = `${this.tablePrefix}fnc_dias_ppto`;
-    const queryParams: Record<string, string | string[]> = {};
+    granularity: SeriesGranularity;
+    metrics?: readonly string[];
+    transform?: SeriesTransform;
+    lastYear?: LastYearAlignment;
+    projection?: ProjectionMethod;
+  }): Promise<SeriesRow[]> {
+    const { granularity, transform, lastYear, projection } = config;
+    const alignment = lastYear ?? 'same_date';
+    const baseMetrics = new Map(metricRegistry.getBaseMetrics().map((m) => [m.alias, m]));
+    const lastYearAlias = (reference: string): string | undefined => {
+      const alias = reference.endsWith('_last_year') ? reference.slice(0, -'_last_year'.length) : undefined;
+      return alias !== undefined && baseMetrics.has(alias) ? alias : undefined;
+    };
+
+    // Output expressions over the per-period base metric columns of `s`
+    const currentAliases = new Set<string>();
+    const lastYearAliases = new Set<string>();
+    const outputs = new Map<string, string>();
+    for (const name of config.metrics ?? DEFAULT_SERIES_METRICS) {
+      const current = this.metricCalculator.inlineMetricSql(name, (reference) => {
+        if (baseMetrics.has(reference)) {
+          currentAliases.add(reference);
+          return `s.${reference}`;
+        }
+        const alias = lastYearAlias(reference);
+        if (alias !== undefined) {
+          lastYearAliases.add(alias);
+          return `s.${reference}`;
+        }
+        return undefined;
+      });
+      if (current === undefined) {
+        throw new ValidationError(`Unknown metric: ${name}`);
+      }
+      outputs.set(name, current);
+
+      if (lastYear && !outputs.has(`${name}_last_year`)) {
+        // Metrics that already reference last year values have no last-year series
+        const references = new Set<string>();
+        const previous = this.metricCalculator.inlineMetricSql(name, (reference) => {
+          if (!baseMetrics.has(reference)) return undefined;
+          references.add(reference);
+          return `s.${reference}_last_year`;
+        });
+        if (previous !== undefined) {
+          references.forEach((alias) => lastYearAliases.add(alias));
+          outputs.set(`${name}_last_year`, previous);
+        }
+      }
+    }
 
-    // Sales conditions: all filters applied normally
-    const salesConditions: string[] = [];
-    // Budget conditions: only date filters, with start date expanded to start of month
-    const budgetConditions: string[] = [];
+    const startDate = dateFilterValue(config.filters, 'gte');
+    const endDate = dateFilterValue(config.filters, 'lte');
 
-    for (let index = 0; index < filters.length; index++) {
-      const f = filters[index]!;
+    let window: SeriesWindow | undefined;
+    let queryStart = startDate;
+    if (transform) {
+      window = seriesTransformWindow(transform, granularity);
+      if (!startDate || !endDate) {
+        throw new ValidationError(`transform ${transform} requires startDate and endDate`);
+      }
+      for (const alias of new Set([...currentAliases, ...lastYearAliases])) {
+        const { aggregation } = baseMetrics.get(alias)!;
+        if (aggregation !== 'sum' && aggregation !== 'count') {
+          throw new ValidationError(`transform ${transform} is not defined for ${alias} (${aggregation} aggregation)`);
+        }
+      }
+      queryStart = seriesLookbackStart(transform, startDate);
+    }
+    if (lastYear === 'same_weekday' && granularity !== 'day' && granularity !== 'week') {
+      throw new ValidationError('lastYear same_weekday requires granularity day or week');
+    }
+    const projectionGranularity = granularity === 'day' || granularity === 'week' ? undefined : granularity;
+    if (projection) {
+      if (!projectionGranularity) {
+        throw new ValidationError('projection requires granularity month, quarter or year');
+      }
+      if (transform) {
+        throw new ValidationError('projection is not supported with transform');
+      }
+      // Columns the projection reads
+      ['sales', 'orders', 'budget_full']
+        .filter((alias) => baseMetrics.has(alias))
+        .forEach((alias) => currentAliases.add(alias));
+    }
 
-      if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(f.field)) {
-        throw new Error(`Invalid field name format: ${f.field}`);
+    // Current filters start at the lookback; last year's are shifted back and
+    // their dates moved forward onto the current periods
+    const currentFilters = this.scoped(
+      config.filters.map((f) =>
+        f.field === 'date' && f.operator === 'gte' && queryStart !== undefined ? { ...f, value: queryStart } : f
+      )
+    );
+    const lastYearFilters = currentFilters.map((f) =>
+      f.field === 'date' && typeof f.value === 'string' ? { ...f, value: lastYearDate(alignment, f.value) } : f
+    );
+    const periodOf = (dateExpr: string): string =>
+      granularity === 'day' ? `toString(${dateExpr})` : `toString(${SERIES_PERIOD_FUNCTIONS[granularity]}(${dateExpr}))`;
+    const alignDate = (dateExpr: string, variant: 'current' | 'last_year'): string => {
+      if (variant === 'current') return dateExpr;
+      return alignment === 'same_weekday' ? `addDays(${dateExpr}, 364)` : `addYears(${dateExpr}, 1)`;
+    };
+
+    const metricsByTable = new Map<string, { current: MetricConfig[]; last_year: MetricConfig[] }>();
+    for (const [variant, aliases] of [['current', currentAliases], ['last_year', lastYearAliases]] as const) {
+      for (const alias of aliases) {
+        const metric = baseMetrics.get(alias)!;
+        const entry = metricsByTable.get(metric.table) ?? { current: [], last_year: [] };
+        entry[variant].push(metric);
+        metricsByTable.set(metric.table, entry);
       }
+    }
 
-      const paramName = `series_${f.field}_${index}`;
+    const spreadBudget = granularity === 'day' || granularity === 'week';
+    const tableNames = [...metricsByTable.keys(), ...(spreadBudget || projection ? ['transactions'] : [])]
+      .map((table) => `${this.tablePrefix}${table}`);
+    const columnMap = await this.columnDiscoveryService.getColumnsForTables([...new Set(tableNames)]);
+    const queryParams: Record<string, string | string[]> = {};
+    const ctes: string[] = [];
+    const seriesCtes: string[] = [];
+    const seriesColumns: string[] = [];
 
-      if (f.field === 'date') {
-        queryParams[paramName] = String(f.value);
-        const opMap: Record<string, string> = { gte: '>=', lte: '<=', eq: '=', gt: '>', lt: '<', neq: '!=' };
-        const op = opMap[f.operator] ?? '=';
-        salesConditions.push(`date ${op} {${paramName}:String}`);
-        // Budget: expand start date to beginning of month (budget rows are on the 1st)
-        if (f.operator === 'gte') {
-          budgetConditions.push(`date >= toString(toStartOfMonth(toDate({${paramName}:String})))`);
+    for (const [table, variants] of metricsByTable) {
+      const tableName = `${this.tablePrefix}${table}`;
+      const tableColumns = columnMap.get(tableName) ?? new Set<string>();
+
+      for (const variant of ['current', 'last_year'] as const) {
+        const tableMetrics = variants[variant];
+        if (tableMetrics.length === 0) continue;
+
+        const cteName = `${table}_${variant}`;
+        const suffix = variant === 'current' ? '' : '_last_year';
+        const paramPrefix = `series_${table}${suffix}`;
+        const tableFilters = this.filtersForTable(variant === 'current' ? currentFilters : lastYearFilters, table);
+
+        // A table that can't be scoped to the requested dimensions contributes 0
+        const hasUnfilterableColumn = tableFilters
+          .filter((f) => f.field !== 'date')
+          .some((f) => !tableColumns.has(f.field));
+        if (hasUnfilterableColumn) {
+          seriesColumns.push(...tableMetrics.map((m) => `0 AS ${m.alias}${suffix}`));
+          continue;
+        }
+
+        const period = periodOf(alignDate('toDate(date)', variant));
+        let cteSql: string;
+        if (table === 'budget' && spreadBudget) {
+          const daysFilters = this.filtersForTable(tableFilters.filter((f) => f.field === 'date'), 'transactions');
+          const daysWhere = this.filterBuilder.buildWhereClauseForTable(
+            daysFilters,
+            queryParams,
+            `series_days${suffix}`,
+            `${this.tablePrefix}transactions`,
+            columnMap
+          );
+          const budgetWhere = this.buildBudgetWhereClause(tableFilters, queryParams, paramPrefix, tableColumns);
+          cteSql = `${cteName} AS (
+  SELECT ${periodOf(alignDate('days.day', variant))} AS period, ${tableMetrics.map((m) => `sum(b.${m.alias}) AS ${m.alias}${suffix}`).join(', ')}
+  FROM (SELECT DISTINCT toDate(date) AS day FROM ${this.tablePrefix}transactions ${daysWhere}) days
+  INNER JOIN (
+    SELECT toStartOfMonth(toDate(date)) AS month, ${tableMetrics.map((m) => `${m.aggregation}(${m.field}) / nullIf(max(d.Dias_habiles), 0) AS ${m.alias}`).join(', ')}
+    FROM ${tableName}
+    LEFT JOIN ${this.tablePrefix}fnc_dias_ppto d ON toMonth(toDate(date)) = d.Mes AND toYear(toDate(date)) = d.Ano
+    ${budgetWhere}
+    GROUP BY month
+  ) b ON toStartOfMonth(days.day) = b.month
+  GROUP BY period
+)`;
         } else {
-          budgetConditions.push(`date ${op} {${paramName}:String}`);
+          // Budget rows sit on the 1st of the month: whole months per period
+          const where = table === 'budget'
+            ? this.buildBudgetWhereClause(tableFilters, queryParams, paramPrefix, tableColumns)
+            : this.filterBuilder.buildWhereClauseForTable(tableFilters, queryParams, paramPrefix, tableName, columnMap);
+          cteSql = `${cteName} AS (
+  SELECT ${period} AS period, ${tableMetrics.map((m) => `${m.aggregation}(${m.field}) AS ${m.alias}${suffix}`).join(', ')}
+  FROM ${tableName}
+  ${where}
+  GROUP BY period
+)`;
         }
-      } else if (f.operator === 'in') {
-        const values = Array.isArray(f.value) ? f.value : [f.value];
-        queryParams[paramName] = values.map(String);
-        salesConditions.push(`${f.field} IN {${paramName}:Array(String)}`);
-        // Dimension filters not applied to budget (column may not exist)
-      } else {
-        queryParams[paramName] = String(f.value);
-        const opMap: Record<string, string> = { gte: '>=', lte: '<=', eq: '=', gt: '>', lt: '<', neq: '!=' };
-        const op = opMap[f.operator] ?? '=';
-        salesConditions.push(`${f.field} ${op} {${paramName}:String}`);
-        // Dimension filters not applied to budget (column may not exist)
+
+        ctes.push(cteSql);
+        seriesCtes.push(cteName);
+        seriesColumns.push(...tableMetrics.map((m) => `coalesce(${cteName}.${m.alias}${suffix}, 0) AS ${m.alias}${suffix}`));
       }
     }
 
-    const salesWhere = salesConditions.length > 0 ? `WHERE ${salesConditions.join(' AND ')}` : '';
-    const budgetWhere = budgetConditions.length > 0 ? `WHERE ${budgetConditions.join(' AND ')}` : '';
+    // Every period of the range, or those with data for open ranges
+    if (queryStart !== undefined && endDate !== undefined) {
+      queryParams['series_start'] = queryStart;
+      queryParams['series_end'] = endDate;
+      ctes.push(`periods AS (
+  SELECT DISTINCT ${periodOf('addDays(toDate({series_start:String}), number)')} AS period
+  FROM numbers(toUInt32(greatest(dateDiff('day', toDate({series_start:String}), toDate({series_end:String})) + 1, 0)))
+)`);
+    } else {
+      if (seriesCtes.length === 0) return [];
+      ctes.push(`periods AS (
+  SELECT DISTINCT period FROM (${seriesCtes.map((name) => `SELECT period FROM ${name}`).join(' UNION ALL ')})
+)`);
+    }
 
-    let query: string;
+    ctes.push(`series AS (
+  SELECT ${['p.period AS period', ...seriesColumns].join(',\n    ')}
+  FROM periods p
+  ${seriesCtes.map((name) => `LEFT JOIN ${name} ON p.period = ${name}.period`).join('\n  ')}
+)`);
 
-    if (granularity === 'month') {
-      // Monthly: full monthly budget per month
-      query = `
+    let source = 'series';
+    let trimClause = '';
+    if (window && startDate !== undefined) {
+      const frame = window.kind === 'rolling'
+        ? `ORDER BY period ROWS BETWEEN ${window.periods - 1} PRECEDING AND CURRENT ROW`
+        : `PARTITION BY ${window.resetEvery === 'month' ? 'toStartOfMonth' : 'toStartOfYear'}(toDate(period)) ORDER BY period ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW`;
+      const columns = [...currentAliases].concat([...lastYearAliases].map((alias) => `${alias}_last_year`));
+      ctes.push(`transformed AS (
+  SELECT period, ${columns.map((column) => `sum(${column}) OVER (${frame}) AS ${column}`).join(',\n    ')}
+  FROM series
+)`);
+      source = 'transformed';
+      // Drop the lookback periods
+      queryParams['series_from'] = startDate;
+      trimClause = `\nWHERE s.period >= ${periodOf('toDate({series_from:String})')}`;
+    }
+
+    const selects = [...outputs].map(([name, sql]) => `${sql} AS ${name}`);
+    const projectionJoins = projection
+      ? this.addProjection(ctes, selects, {
+          method: projection,
+          filters: currentFilters,
+          queryParams,
+          columnMap,
+          references: new Map([...currentAliases].map((alias) => [alias, `s.${alias}`])),
+          facturadoOnly: false,
+          dimensions: [],
+          period: periodOf,
+          ...(endDate && projectionGranularity && { periodEnd: seriesPeriodEnd(projectionGranularity, endDate) }),
+        }).map(({ cte }) => `\nLEFT JOIN ${cte} ON s.period = ${cte}.period`)
+      : [];
+
+    const query = `
 WITH
-sales_series AS (
-  SELECT
-    toString(toStartOfMonth(toDate(date))) AS period,
-    sum(sales_price) AS sales
-  FROM ${transactionsTable}
-  ${salesWhere}
-  GROUP BY period
-),
-budget_series AS (
-  SELECT
-    toString(toStartOfMonth(toDate(date))) AS period,
-    sum(sales_price) AS budget
-  FROM ${budgetTable}
-  ${budgetWhere}
-  GROUP BY period
-)
+${ctes.join(',\n')}
 SELECT
-  s.period,
-  s.sales,
-  coalesce(b.budget, 0) AS budget
-FROM sales_series s
-LEFT JOIN budget_series b ON s.period = b.period
-ORDER BY s.period ASC
+  s.period AS period,
+  ${selects.join(',\n  ')}
+FROM ${source} s${projectionJoins.join('')}${trimClause}
+ORDER BY period ASC
 `;
-    } else {
-      // Daily: budget per day = monthly_budget / Dias_habiles (same as isDailyView proration)
-      query = `
+
+    return this.runQuery<SeriesRow>('time-series', query, queryParams);
+  }
+
+  /**
+   * Days whose invoiced sales are outliers for their group: the robust
+   * z-score (0.6745 · (sales − median) / MAD, median absolute deviation) of
+   * each day against the group's days with sales in the filtered range.
+   * Groups with fewer than `minDays` days or no spread (MAD 0) have no
+   * outliers. Only days from `reportFrom` on are returned, by |z| descending.
+   *
+   * @param config.filters - Conditions of the baseline window (date gte/lte included)
+   * @returns [] when transactions lack the dimension or a filtered column
+   */
+  async buildDailyOutliersQuery(config: {
+    filters: FilterCondition[];
+    groupBy: string;
+    reportFrom: string;
+    threshold: number;
+    minDays: number;
+    limit: number;
+  }): Promise<DailyOutlier[]> {
+    const { idField, nameField } = getFieldPair(config.groupBy);
+    const tableName = `${this.tablePrefix}transactions`;
+    const columnMap = await this.columnDiscoveryService.getColumnsForTables([tableName]);
+    const tableColumns = columnMap.get(tableName) ?? new Set<string>();
+    const filters = this.filtersForTable(this.scoped(config.filters), 'transactions');
+
+    const hasUnfilterableColumn = filters
+      .filter((f) => f.field !== 'date')
+      .some((f) => !tableColumns.has(f.field));
+    if (hasUnfilterableColumn || !tableColumns.has(idField)) {
+      return [];
+    }
+
+    const queryParams: Record<string, string | string[]> = {
+      outliers_from: config.reportFrom,
+      outliers_threshold: String(config.threshold),
+      outliers_min_days: String(config.minDays),
+      outliers_limit: String(config.limit),
+    };
+    const where = this.filterBuilder.buildWhereClauseForTable(filters, queryParams, 'outliers', tableName, columnMap);
+    const name = tableColumns.has(nameField) ? nameField : idField;
+
+    const query = `
 WITH
-sales_series AS (
-  SELECT
-    toString(toDate(date)) AS period,
-    sum(sales_price) AS sales
-  FROM ${transactionsTable}
-  ${salesWhere}
-  GROUP BY period
+daily AS (
+  SELECT trimBoth(toString(${idField})) AS id, any(trimBoth(toString(${name}))) AS name, toDate(date) AS day, sum(sales_price) AS sales
+  FROM ${tableName}
+  ${where}
+  GROUP BY id, day
 ),
-budget_monthly AS (
-  SELECT
-    toString(toStartOfMonth(toDate(date))) AS month_str,
-    sum(sales_price) / nullIf(max(d.Dias_habiles), 0) AS budget_per_day
-  FROM ${budgetTable}
-  LEFT JOIN ${diasTable} d ON toMonth(toDate(date)) = d.Mes AND toYear(toDate(date)) = d.Ano
-  ${budgetWhere}
-  GROUP BY month_str
+medians AS (
+  SELECT id, medianExact(sales) AS median_sales
+  FROM daily
+  GROUP BY id
+  HAVING count() >= {outliers_min_days:UInt32}
+),
+deviations AS (
+  SELECT daily.id AS id, medianExact(abs(daily.sales - medians.median_sales)) AS mad
+  FROM daily
+  INNER JOIN medians ON daily.id = medians.id
+  GROUP BY id
 )
 SELECT
-  s.period,
-  s.sales,
-  coalesce(b.budget_per_day, 0) AS budget
-FROM sales_series s
-LEFT JOIN budget_monthly b ON toString(toStartOfMonth(toDate(s.period))) = b.month_str
-ORDER BY s.period ASC
+  d.id AS id,
+  d.name AS name,
+  toString(d.day) AS date,
+  d.sales AS sales,
+  m.median_sales AS median_sales,
+  0.6745 * (d.sales - m.median_sales) / v.mad AS z_score
+FROM daily d
+INNER JOIN medians m ON d.id = m.id
+INNER JOIN deviations v ON d.id = v.id
+WHERE v.mad > 0 AND d.day >= toDate({outliers_from:String}) AND abs(z_score) >= {outliers_threshold:Float64}
+ORDER BY abs(z_score) DESC
+LIMIT {outliers_limit:UInt32}
 `;
+
+    return this.runQuery<DailyOutlier>('daily-outliers', query, queryParams);
+  }
+
+  /**
+   * Price-volume-mix inputs per group: sales, gross margin and quantities of
+   * each item (itemLevel) in the current and the comparison period, summed
+   * per group by item class (continuing / new / lost).
+   *
+   * The quantity column is the first of `quantityColumns` present in
+   * transactions. Items are compared by id, so an item level must mean the
+   * same item in both periods.
+   *
+   * @param config.comparisonFilters - Explicit comparison period (default: current filters shifted -1 year)
+   * @returns null when transactions has none of the quantity columns; no rows
+   *          when it lacks the dimension, the item level or a filtered column
+   */
+  async buildPriceVolumeMixQuery(config: {
+    currentPeriodFilters: FilterCondition[];
+    comparisonFilters?: FilterCondition[];
+    groupBy: string;
+    itemLevel: string;
+    quantityColumns: readonly string[];
+  }): Promise<{ quantityColumn: string; rows: PriceVolumeMixRow[] } | null> {
+    this.filterBuilder.validateFieldName(config.groupBy);
+    this.filterBuilder.validateFieldName(config.itemLevel);
+    const { idField, nameField } = getFieldPair(config.groupBy);
+    const tableName = `${this.tablePrefix}transactions`;
+    const columnMap = await this.columnDiscoveryService.getColumnsForTables([tableName]);
+    const tableColumns = columnMap.get(tableName) ?? new Set<string>();
+
+    const quantityColumn = config.quantityColumns.find((column) => tableColumns.has(column));
+    if (!quantityColumn) {
+      return null;
     }
 
-    const resultSet = await this.client.query({
-      query,
-      query_params: queryParams,
-      format: 'JSONEachRow',
-    });
+    const currentFilters = this.filtersForTable(this.scoped(config.currentPeriodFilters), 'transactions');
+    const previousFilters = this.filtersForTable(
+      config.comparisonFilters
+        ? this.scoped(config.comparisonFilters)
+        : this.filterBuilder.shiftDateFilters(this.scoped(config.currentPeriodFilters), -1),
+      'transactions'
+    );
+    const hasUnfilterableColumn = [...currentFilters, ...previousFilters]
+      .filter((f) => f.field !== 'date')
+      .some((f) => !tableColumns.has(f.field));
+    if (hasUnfilterableColumn || !tableColumns.has(idField) || !tableColumns.has(config.itemLevel)) {
+      return { quantityColumn, rows: [] };
+    }
+
+    const queryParams: Record<string, string | string[]> = {};
+    const currentWhere = this.filterBuilder.buildWhereClauseForTable(currentFilters, queryParams, 'pvm_current', tableName, columnMap);
+    const previousWhere = this.filterBuilder.buildWhereClauseForTable(previousFilters, queryParams, 'pvm_previous', tableName, columnMap);
+    const name = tableColumns.has(nameField) ? nameField : idField;
+    const keys = `trimBoth(toString(${idField})) AS id, trimBoth(toString(${name})) AS name, trimBoth(toString(${config.itemLevel})) AS item`;
+    const continuing = 'q0 > 0 AND q1 > 0';
+
+    const query = `
+WITH
+items AS (
+  SELECT id, any(name) AS name, item,
+    sum(r1) AS r1, sum(m1) AS m1, sum(q1) AS q1,
+    sum(r0) AS r0, sum(m0) AS m0, sum(q0) AS q0
+  FROM (
+    SELECT ${keys},
+      toFloat64(sales_price) AS r1, toFloat64(gross_margin) AS m1, toFloat64(${quantityColumn}) AS q1,
+      toFloat64(0) AS r0, toFloat64(0) AS m0, toFloat64(0) AS q0
+    FROM ${tableName}
+    ${currentWhere}
+    UNION ALL
+    SELECT ${keys},
+      toFloat64(0) AS r1, toFloat64(0) AS m1, toFloat64(0) AS q1,
+      toFloat64(sales_price) AS r0, toFloat64(gross_margin) AS m0, toFloat64(${quantityColumn}) AS q0
+    FROM ${tableName}
+    ${previousWhere}
+  )
+  GROUP BY id, item
+)
+SELECT
+  id,
+  any(name) AS name,
+  sum(r1) AS sales,
+  sum(r0) AS sales_previous,
+  sum(m1) AS gross_margin,
+  sum(m0) AS gross_margin_previous,
+  sumIf(r1, ${continuing}) AS continuing_sales,
+  sumIf(r0, ${continuing}) AS continuing_sales_previous,
+  sumIf(m1, ${continuing}) AS continuing_margin,
+  sumIf(m0, ${continuing}) AS continuing_margin_previous,
+  sumIf(q1, ${continuing}) AS continuing_quantity,
+  sumIf(q0, ${continuing}) AS continuing_quantity_previous,
+  sumIf(q1 * r0 / q0, ${continuing}) AS sales_at_previous_price,
+  sumIf(q1 * m0 / q0, ${continuing}) AS margin_at_previous_unit_margin,
+  sumIf(r1 - r0, q0 <= 0) AS new_sales,
+  sumIf(m1 - m0, q0 <= 0) AS new_margin,
+  sumIf(r1 - r0, q0 > 0 AND q1 <= 0) AS lost_sales,
+  sumIf(m1 - m0, q0 > 0 AND q1 <= 0) AS lost_margin,
+  countIf(q0 <= 0 AND q1 > 0) AS new_items,
+  countIf(q0 > 0 AND q1 <= 0) AS lost_items
+FROM items
+GROUP BY id
+`;
 
-    return resultSet.json<{ period: string; sales: number; budget: number }>();
+    return { quantityColumn, rows: await this.runQuery<PriceVolumeMixRow>('price-volume-mix', query, queryParams) };
   }
 
   /**
@@ -895,7 +1594,8 @@ ORDER BY s.period ASC
     sources: Array<{ table: string; dateField: string; valueField: string }>;
     filters: FilterCondition[];
   }): Promise<Array<{ period: string; value: number }>> {
-    const { sources, filters } = config;
+    const { sources } = config;
+    const filters = this.scoped(config.filters);
 
     const tableNames = sources.map((s) => `${this.tablePrefix}${s.table}`);
     const columnMap = await this.columnDiscoveryService.getColumnsForTables(tableNames);
@@ -943,13 +1643,7 @@ GROUP BY period
 ORDER BY period ASC
 `;
 
-    const resultSet = await this.client.query({
-      query,
-      query_params: queryParams,
-      format: 'JSONEachRow',
-    });
-
-    return resultSet.json<{ period: string; value: number }>();
+    return this.runQuery<{ period: string; value: number }>('daily-series', query, queryParams);
   }
 
   /**
@@ -963,7 +1657,8 @@ ORDER BY period ASC
     sources: Array<{ table: string; field: string }>;
     filters: FilterCondition[];
   }): Promise<number> {
-    const { sources, filters } = config;
+    const { sources } = config;
+    const filters = this.scoped(config.filters);
 
     const tableNames = sources.map((s) => `${this.tablePrefix}${s.table}`);
     const columnMap = await this.columnDiscoveryService.getColumnsForTables(tableNames);
@@ -1006,13 +1701,7 @@ FROM (
 )
 `;
 
-    const resultSet = await this.client.query({
-      query,
-      query_params: queryParams,
-      format: 'JSONEachRow',
-    });
-
-    const rows = await resultSet.json<{ count: number }>();
+    const rows = await this.runQuery<{ count: number }>('distinct-count', query, queryParams);
     return Number(rows[0]?.count ?? 0);
   }
 
@@ -1028,7 +1717,8 @@ FROM (
     filters: FilterCondition[];
     groupBy: string;
   }): Promise<Map<string, number>> {
-    const { sources, filters, groupBy } = config;
+    const { sources, groupBy } = config;
+    const filters = this.scoped(config.filters);
 
     this.filterBuilder.validateFieldName(groupBy);
 
@@ -1078,13 +1768,7 @@ FROM (
 GROUP BY id
 `;
 
-    const resultSet = await this.client.query({
-      query,
-      query_params: queryParams,
-      format: 'JSONEachRow',
-    });
-
-    const rows = await resultSet.json<{ id: string; count: number }>();
+    const rows = await this.runQuery<{ id: string; count: number }>('grouped-distinct-count', query, queryParams);
     return new Map(rows.map((r) => [r.id, Number(r.count)]));
   }
 
@@ -1158,12 +1842,12 @@ GROUP BY id
     const queryParams: Record<string, string | string[]> = {};
 
     const [universeSelect] = this.buildDistinctSourceSelects(
-      [universe], universe.filters, columnMap, queryParams, 'universe'
+      [universe], this.scoped(universe.filters), columnMap, queryParams, 'universe'
     );
     if (!universeSelect) return 0;
 
     const excludeSelects = this.buildDistinctSourceSelects(
-      exclude.sources, exclude.filters, columnMap, queryParams, 'exclude'
+      exclude.sources, this.scoped(exclude.filters), columnMap, queryParams, 'exclude'
     );
     const exclusion = excludeSelects.length > 0
       ? `WHERE value NOT IN (\n  SELECT value FROM (\n  ${excludeSelects.join('\n  UNION ALL\n  ')}\n  )\n)`
@@ -1175,13 +1859,7 @@ FROM (${universeSelect})
 ${exclusion}
 `;
 
-    const resultSet = await this.client.query({
-      query,
-      query_params: queryParams,
-      format: 'JSONEachRow',
-    });
-
-    const rows = await resultSet.json<{ count: number }>();
+    const rows = await this.runQuery<{ count: number }>('distinct-count-excluding', query, queryParams);
     return Number(rows[0]?.count ?? 0);
   }
 
@@ -1217,7 +1895,7 @@ ${exclusion}
 
     const universeTable = `${this.tablePrefix}${universe.table}`;
     const universeColumns = columnMap.get(universeTable) ?? new Set<string>();
-    const universeFilters = this.filtersForTable(universe.filters, universe.table);
+    const universeFilters = this.filtersForTable(this.scoped(universe.filters), universe.table);
     const missingColumn = [universe.keyField, dateField, ...attributes].some((f) => !universeColumns.has(f))
       || universeFilters.filter((f) => f.field !== 'date').some((f) => !universeColumns.has(f.field));
     if (missingColumn) return [];
@@ -1227,7 +1905,7 @@ ${exclusion}
     );
 
     const excludeSelects = this.buildDistinctSourceSelects(
-      exclude.sources, exclude.filters, columnMap, queryParams, 'exclude_detail'
+      exclude.sources, this.scoped(exclude.filters), columnMap, queryParams, 'exclude_detail'
     );
     const exclusion = excludeSelects.length > 0
       ? `${where ? 'AND' : 'WHERE'} ${universe.keyField} NOT IN (\n  SELECT value FROM (\n  ${excludeSelects.join('\n  UNION ALL\n  ')}\n  )\n)`
@@ -1248,13 +1926,7 @@ GROUP BY ${universe.keyField}
 ORDER BY ${orderBy} ASC
 `;
 
-    const resultSet = await this.client.query({
-      query,
-      query_params: queryParams,
-      format: 'JSONEachRow',
-    });
-
-    return resultSet.json<Record<string, string>>();
+    return this.runQuery<Record<string, string>>('distinct-details-excluding', query, queryParams);
   }
 
   /**
@@ -1280,11 +1952,11 @@ ORDER BY ${orderBy} ASC
     const queryParams: Record<string, string | string[]> = {};
 
     const [universeSelect] = this.buildDistinctSourceSelects(
-      [universe], universe.filters, columnMap, queryParams, 'guniverse', groupBy
+      [universe], this.scoped(universe.filters), columnMap, queryParams, 'guniverse', groupBy
     );
 
     const excludeSelects = this.buildDistinctSourceSelects(
-      exclude.sources, exclude.filters, columnMap, queryParams, 'gexclude', groupBy
+      exclude.sources, this.scoped(exclude.filters), columnMap, queryParams, 'gexclude', groupBy
     );
 
     let query: string;
@@ -1304,7 +1976,7 @@ GROUP BY id
       // universe members that bought that group. Groups only exist where the
       // exclusion sources saw activity — which is exactly the listing's rows.
       const [flatUniverse] = this.buildDistinctSourceSelects(
-        [universe], universe.filters, columnMap, queryParams, 'guniverse'
+        [universe], this.scoped(universe.filters), columnMap, queryParams, 'guniverse'
       );
       if (!flatUniverse || excludeSelects.length === 0) return new Map();
       query = `
@@ -1318,114 +1990,104 @@ GROUP BY id
 `;
     }
 
-    const resultSet = await this.client.query({
-      query,
-      query_params: queryParams,
-      format: 'JSONEachRow',
-    });
-
-    const rows = await resultSet.json<{ id: string; count: number }>();
+    const rows = await this.runQuery<{ id: string; count: number }>('grouped-distinct-count-excluding', query, queryParams);
     return new Map(rows.map((r) => [r.id, Number(r.count)]));
   }
 
   /**
-   * Build query to get distinct values from a column
-   * Returns array of unique string values sorted alphabetically A-Z
+   * Distinct values of a dimension in one source table, with the rows and
+   * sales behind each value under the given filters
+   *
+   * A source lacking the column, or a (scope) filter column, returns no
+   * values — consistent with the zeroing in buildGroupedMultiTableYoYQuery.
+   * With a search, values are ranked exact > prefix > word prefix >
+   * substring > fuzzy (n-gram similarity of the name) before the requested
+   * order.
    *
-   * @param config - Configuration with table name, column, and optional filters
-   * @returns Array of distinct values sorted A-Z
+   * @param config.table - Source table (unprefixed); must have sales_price
+   * @param config.column - Dimension id column; its name column (see
+   *   getFieldPair) is used when the table has it
+   * @returns One entry per non-empty value, at most 10k before pagination
    */
   async buildDistinctValuesQuery(config: {
     table: string;
     column: string;
     filters: FilterCondition[];
-    limit?: number;
-    offset?: number;
-  }): Promise<string[]> {
-    const { table, column, filters, limit, offset } = config;
+    search?: string | undefined;
+    orderBy?: DistinctValuesOrder | undefined;
+    limit?: number | undefined;
+    offset?: number | undefined;
+  }): Promise<DistinctValue[]> {
+    const { table, column, orderBy = 'name', limit, offset } = config;
+    const filters = this.filtersForTable(this.scoped(config.filters), table);
 
     // Validate column name to prevent SQL injection
     this.filterBuilder.validateFieldName(column);
 
-    // Build table name with prefix
     const tableName = `${this.tablePrefix}${table}`;
+    const columnMap = await this.columnDiscoveryService.getColumnsForTables([tableName]);
+    const tableColumns = columnMap.get(tableName) ?? new Set<string>();
 
-    // Build WHERE clause directly without table-aware filtering
-    // For distinct values, we apply all filters directly since we're querying a single table
-    const queryParams: Record<string, string | string[]> = {};
-    const conditions: string[] = [];
+    if (!tableColumns.has(column) || filters.some((f) => !tableColumns.has(f.field))) {
+      return [];
+    }
 
-    filters.forEach((f, index) => {
-      // Validate field name for security
-      this.filterBuilder.validateFieldName(f.field);
-
-      const paramName = `filter_${f.field}_${index}`;
-
-      switch (f.operator) {
-        case 'gte':
-          queryParams[paramName] = String(f.value);
-          conditions.push(`${f.field} >= {${paramName}:String}`);
-          break;
-        case 'lte':
-          queryParams[paramName] = String(f.value);
-          conditions.push(`${f.field} <= {${paramName}:String}`);
-          break;
-        case 'eq':
-          queryParams[paramName] = String(f.value);
-          conditions.push(`${f.field} = {${paramName}:String}`);
-          break;
-        case 'in':
-          const values = Array.isArray(f.value) ? f.value : [f.value];
-          queryParams[paramName] = values.map(String);
-          conditions.push(`${f.field} IN {${paramName}:Array(String)}`);
-          break;
-        case 'gt':
-          queryParams[paramName] = String(f.value);
-          conditions.push(`${f.field} > {${paramName}:String}`);
-          break;
-        case 'lt':
-          queryParams[paramName] = String(f.value);
-          conditions.push(`${f.field} < {${paramName}:String}`);
-          break;
-        case 'neq':
-          queryParams[paramName] = String(f.value);
-          conditions.push(`${f.field} != {${paramName}:String}`);
-          break;
+    const queryParams: Record<string, string | string[]> = {};
+    const where = this.filterBuilder.buildWhereClauseForTable(filters, queryParams, 'filter', tableName, columnMap);
+    const conditions = [where.replace(/^WHERE /, ''), `trimBoth(${column}) != ''`].filter((c) => c);
+
+    // Name fields only exist in some tables
+    const { nameField } = getFieldPair(column);
+    const idExpr = `trimBoth(${column})`;
+    const nameExpr = tableColumns.has(nameField) ? `trimBoth(${nameField})` : idExpr;
+
+    // Search rank of a row (DISTINCT_SEARCH_NO_MATCH: filtered out)
+    const search = config.search?.trim().toLowerCase();
+    let rankSelect = '';
+    let rankOrder = '';
+    if (search) {
+      queryParams['search'] = search;
+      queryParams['search_word'] = ` ${search}`;
+      const id = `lowerUTF8(${idExpr})`;
+      const name = `lowerUTF8(${nameExpr})`;
+      const branches = [
+        `${id} = {search:String} OR ${name} = {search:String}`, '0',
+        `startsWith(${id}, {search:String}) OR startsWith(${name}, {search:String})`, '1',
+        `position(${name}, {search_word:String}) > 0`, '2',
+        `position(${id}, {search:String}) > 0 OR position(${name}, {search:String}) > 0`, '3',
+      ];
+      if (search.length >= DISTINCT_FUZZY_MIN_LENGTH) {
+        branches.push(`ngramSearchUTF8(${name}, {search:String}) >= ${DISTINCT_FUZZY_MIN_SIMILARITY}`, '4');
       }
-    });
-
-    // Add filter for non-empty values
-    conditions.push(`trimBoth(${column}) != ''`);
-
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const rankExpr = `multiIf(${branches.join(', ')}, ${DISTINCT_SEARCH_NO_MATCH})`;
+      conditions.push(`${rankExpr} < ${DISTINCT_SEARCH_NO_MATCH}`);
+      rankSelect = `,\n  min(${rankExpr}) AS match_rank`;
+      rankOrder = 'match_rank ASC, ';
+    }
 
-    // Build LIMIT/OFFSET clause
+    const order = orderBy === 'name' ? 'name ASC' : `${orderBy === 'rows' ? 'row_count' : 'sales'} DESC, name ASC`;
     const limitClause = limit !== undefined ? `LIMIT ${limit}` : '';
     const offsetClause = offset !== undefined && offset > 0 ? `OFFSET ${offset}` : '';
     const paginationClause = [limitClause, offsetClause].filter(c => c).join(' ');
 
-    // Build query to get distinct values sorted A-Z, filtering out empty values
     const query = `
-SELECT DISTINCT trimBoth(${column}) AS value
+SELECT
+  ${idExpr} AS id,
+  any(${nameExpr}) AS name,
+  count() AS row_count,
+  sum(sales_price) AS sales${rankSelect}
 FROM ${tableName}
-${whereClause}
-ORDER BY value ASC
+WHERE ${conditions.join(' AND ')}
+GROUP BY id
+ORDER BY ${rankOrder}${order}
 ${paginationClause}
 `;
 
-    const resultSet = await this.client.query({
-      query,
-      query_params: queryParams,
-      format: 'JSONEachRow',
-      clickhouse_settings: {
-        max_result_rows: '10000', // Allow up to 10k distinct values
-        result_overflow_mode: 'throw',
-      },
+    const results = await this.runQuery<{ id: string; name: string; row_count: number; sales: number }>('distinct-values', query, queryParams, {
+      max_result_rows: '10000', // Allow up to 10k distinct values
+      result_overflow_mode: 'throw',
     });
 
-    const results = await resultSet.json<{ value: string }>();
-
-    // Return only the values (empty strings already filtered in query)
-    return results.map((r) => r.value);
+    return results.map((r) => ({ id: r.id, name: r.name, rows: Number(r.row_count), sales: Number(r.sales) }));
   }
 }
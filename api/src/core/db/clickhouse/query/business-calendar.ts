@@ -0,0 +1,68 @@
+import type { ClickHouseClient } from '@clickhouse/client';
+import { runCachedQuery, type QueryCacheBinding, type QueryCacheStats } from '../../../cache/query-cache.js';
+
+/**
+ * Business days of a date range
+ */
+export interface BusinessDays {
+  /** Dates with invoiced sales (YYYY-MM-DD, ascending) */
+  days: string[];
+  /** Planned business days of the months the range spans */
+  plannedDays: number;
+}
+
+/**
+ * Company business-day calendar: the dates with invoiced sales in
+ * transactions and the planned business days of fnc_dias_ppto.
+ *
+ * Kept out of AnalyticsQueryBuilder on purpose: the calendar is the same for
+ * every user, so it takes no data scope and no filters. A seller with no
+ * sales on a day still has the business day, and the result holds only dates
+ * and day counts, never scoped amounts.
+ */
+export class BusinessCalendar {
+  private tablePrefix: string;
+
+  /**
+   * @param client - ClickHouse client
+   * @param cache - Query result cache and the endpoint TTL (no caching if omitted)
+   */
+  constructor(private client: ClickHouseClient, private cache?: QueryCacheBinding) {
+    this.tablePrefix = process.env['TABLE_PREFIX'] ?? '';
+  }
+
+  /**
+   * Business days of a date range: the dates with invoiced sales and the
+   * planned business days (Dias_habiles) of the months the range spans, days
+   * still to come included
+   *
+   * @param cacheStats - Request counters updated on cache hits/misses
+   */
+  async getBusinessDays(
+    range: { startDate: string; endDate: string },
+    cacheStats?: QueryCacheStats
+  ): Promise<BusinessDays> {
+    const monthStart = 'makeDate(Ano, Mes, 1)';
+    const query = `
+SELECT
+  (
+    SELECT arraySort(groupUniqArray(toString(toDate(date))))
+    FROM ${this.tablePrefix}transactions
+    WHERE date >= {business_start:String} AND date <= {business_end:String}
+  ) AS days,
+  (
+    SELECT sum(Dias_habiles)
+    FROM ${this.tablePrefix}fnc_dias_ppto
+    WHERE ${monthStart} >= toStartOfMonth(toDate({business_start:String})) AND ${monthStart} <= toDate({business_end:String})
+  ) AS planned_days
+`;
+
+    const rows = await runCachedQuery<{ days: string[]; planned_days: number | string | null }>(
+      this.client,
+      { kind: 'business-days', query, queryParams: { business_start: range.startDate, business_end: range.endDate } },
+      this.cache,
+      cacheStats
+    );
+    return { days: rows[0]?.days ?? [], plannedDays: Number(rows[0]?.planned_days ?? 0) };
+  }
+}
@@ -1,4 +1,5 @@
 import type { ClickHouseClient } from '@clickhouse/client';
+import { queryRows } from '../observed-query.js';
 
 /**
  * Cache entry for column discovery
@@ -90,14 +91,12 @@ export class ColumnDiscoveryService {
       queryParams[`table_${index}`] = tableName;
     });
 
-    const resultSet = await this.client.query({
+    const rows = await queryRows<{ table_name: string; column_name: string }>(this.client, {
+      kind: 'column-discovery',
       query,
-      query_params: queryParams,
-      format: 'JSONEachRow',
+      queryParams,
     });
 
-    const rows = await resultSet.json<{ table_name: string; column_name: string }>();
-
     // Build Map<table, Set<columns>>
     const columnMap = new Map<string, Set<string>>();
 
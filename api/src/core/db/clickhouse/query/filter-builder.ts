@@ -1,4 +1,6 @@
 import { ALLOWED_DIMENSIONS } from '../../../config/dimensions.config.js';
+import { shiftYears } from '../../../utils/dates.js';
+import { ValidationError } from '../../../errors/app-error.js';
 
 /**
  * Filter condition structure
@@ -40,7 +42,7 @@ const VALID_FIELD_NAME_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
 /**
  * Validate field name against whitelist (legacy validation)
  */
-function isValidFieldName(field: string): boolean {
+export function isValidFieldName(field: string): boolean {
   return ALLOWED_FIELDS.includes(field as typeof ALLOWED_FIELDS[number]);
 }
 
@@ -132,12 +134,9 @@ export class FilterBuilder {
         return filter;
       }
 
-      const date = new Date(filter.value);
-      date.setFullYear(date.getFullYear() + years);
-
       return {
         ...filter,
-        value: date.toISOString().split('T')[0]!,
+        value: shiftYears(filter.value, years),
       };
     });
   }
@@ -189,7 +188,25 @@ export class FilterBuilder {
     tableName: string,
     columnMap: Map<string, Set<string>>
   ): string {
-    if (filters.length === 0) return '';
+    const conditions = this.buildConditionsForTable(filters, queryParams, prefix, tableName, columnMap);
+    return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  }
+
+  /**
+   * Conditions of buildWhereClauseForTable, unjoined: for queries that AND
+   * them with conditions of their own
+   *
+   * @returns One SQL condition per applicable filter (empty if none apply)
+   * @throws ValidationError if a field name has an invalid format
+   */
+  buildConditionsForTable(
+    filters: FilterCondition[],
+    queryParams: Record<string, string | string[]>,
+    prefix: string,
+    tableName: string,
+    columnMap: Map<string, Set<string>>
+  ): string[] {
+    if (filters.length === 0) return [];
 
     // Get columns available in this table
     const tableColumns = columnMap.get(tableName) ?? new Set<string>();
@@ -198,18 +215,15 @@ export class FilterBuilder {
     const applicableFilters = filters.filter(f => {
       // Validate field name format first (security)
       if (!isValidFieldNameFormat(f.field)) {
-        throw new Error(`Invalid field name format: ${f.field}`);
+        throw new ValidationError(`Invalid field name format: ${f.field}`);
       }
 
       // Check if column exists in this table
       return tableColumns.has(f.field);
     });
 
-    // If no applicable filters, return empty string (no WHERE clause)
-    if (applicableFilters.length === 0) return '';
-
-    // Build WHERE clause using only applicable filters
-    const conditions = applicableFilters.map((f, index) => {
+    // Build conditions using only applicable filters
+    return applicableFilters.map((f, index) => {
       const paramName = `${prefix}_${f.field}_${index}`;
       const column = f.trim ? `trimBoth(${f.field})` : f.field;
 
@@ -241,7 +255,5 @@ export class FilterBuilder {
           return `${column} = {${paramName}:String}`;
       }
     });
-
-    return `WHERE ${conditions.join(' AND ')}`;
   }
 }
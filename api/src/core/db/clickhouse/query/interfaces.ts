@@ -1,4 +1,6 @@
 import type { MetricConfig } from './types.js';
+import type { CompiledCustomMetric } from '../../../metrics/custom-metric.js';
+import type { ProjectionMethod } from '../../../utils/projection.js';
 
 export type { FilterCondition } from './filter-builder.js';
 
@@ -25,6 +27,10 @@ export interface IAnalyticsQueryBuilder {
      */
     comparisonFilters?: import('./filter-builder.js').FilterCondition[];
     facturadoOnly?: boolean;
+    /** User-defined metrics added to the result (see core/metrics/custom-metric.ts) */
+    customMetrics?: readonly CompiledCustomMetric[];
+    /** Add the end-of-period projection fields (see core/utils/projection.ts) */
+    projection?: ProjectionMethod;
   }): Promise<Record<string, number>>;
 
   /**
@@ -44,26 +50,80 @@ export interface IAnalyticsQueryBuilder {
     search?: string;
     /** Also emit groups absent from the first table's current period. */
     includeAllGroups?: boolean;
+    /** With includeAllGroups: also emit groups with comparison-period rows only. */
+    includePreviousGroups?: boolean;
+    /** User-defined metrics added as extra columns (also valid for orderBy) */
+    customMetrics?: readonly CompiledCustomMetric[];
+    /** Ancestor dimensions of a hierarchical level; rows carry their ids as _parent_<n> */
+    parentGroupBy?: string[];
+    /** With parentGroupBy: keep the first N rows of each parent */
+    limitPerParent?: number;
+    /** Add the end-of-period projection fields of each row */
+    projection?: ProjectionMethod;
+    /** Keep only the rows whose response field meets a condition, most extreme first */
+    having?: import('./types.js').GroupedRowCondition;
   }): Promise<Array<Record<string, number | string>>>;
 
   /**
-   * Build query to get distinct values from a column
+   * Same query as buildGroupedMultiTableYoYQuery, read as a stream of rows
+   * (unbounded exports; not cached)
+   */
+  streamGroupedMultiTableYoYQuery(
+    config: Parameters<IAnalyticsQueryBuilder['buildGroupedMultiTableYoYQuery']>[0]
+  ): AsyncIterable<Record<string, number | string>>;
+
+  /**
+   * Distinct values of a column with their rows and sales under the filters,
+   * optionally searched (ranked by match quality)
    */
   buildDistinctValuesQuery(config: {
     table: string;
     column: string;
     filters: import('./filter-builder.js').FilterCondition[];
-    limit?: number;
-    offset?: number;
-  }): Promise<string[]>;
+    search?: string | undefined;
+    orderBy?: import('./types.js').DistinctValuesOrder | undefined;
+    limit?: number | undefined;
+    offset?: number | undefined;
+  }): Promise<import('./types.js').DistinctValue[]>;
 
   /**
-   * Build time-series query grouped by day or month
+   * Build a time series of base or calculated metrics per period, optionally
+   * transformed (cumulative / rolling) and with an aligned last-year series
    */
   buildTimeSeriesQuery(config: {
     filters: import('./filter-builder.js').FilterCondition[];
-    granularity: 'day' | 'month';
-  }): Promise<Array<{ period: string; sales: number; budget: number }>>;
+    granularity: import('../../../utils/time-series.js').SeriesGranularity;
+    metrics?: readonly string[];
+    transform?: import('../../../utils/time-series.js').SeriesTransform;
+    lastYear?: import('../../../utils/time-series.js').LastYearAlignment;
+    projection?: ProjectionMethod;
+  }): Promise<import('../../../utils/time-series.js').SeriesRow[]>;
+
+  /**
+   * Days whose invoiced sales are outliers for their group (robust z-score
+   * against the group's days with sales in the filtered range)
+   */
+  buildDailyOutliersQuery(config: {
+    filters: import('./filter-builder.js').FilterCondition[];
+    groupBy: string;
+    reportFrom: string;
+    threshold: number;
+    minDays: number;
+    limit: number;
+  }): Promise<import('./types.js').DailyOutlier[]>;
+
+  /**
+   * Price-volume-mix inputs per group (sales, gross margin and quantities of
+   * continuing, new and lost items); null when transactions has none of the
+   * quantity columns
+   */
+  buildPriceVolumeMixQuery(config: {
+    currentPeriodFilters: import('./filter-builder.js').FilterCondition[];
+    comparisonFilters?: import('./filter-builder.js').FilterCondition[];
+    groupBy: string;
+    itemLevel: string;
+    quantityColumns: readonly string[];
+  }): Promise<{ quantityColumn: string; rows: import('./types.js').PriceVolumeMixRow[] } | null>;
 
   /**
    * Build a daily value series summed across several sources, each grouped by
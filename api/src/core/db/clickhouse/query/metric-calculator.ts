@@ -1,5 +1,7 @@
 import type { MetricConfig } from './types.js';
-import { CALCULATED_METRICS } from '../../../config/metrics.config.js';
+import { metricRegistry } from '../../../config/metrics.config.js';
+import { generateSql } from '../../../metrics/formula/sql-generator.js';
+import type { CompiledCustomMetric } from '../../../metrics/custom-metric.js';
 
 /**
  * MetricCalculator - Handles calculated metrics logic (CONFIG-DRIVEN)
@@ -7,29 +9,32 @@ import { CALCULATED_METRICS } from '../../../config/metrics.config.js';
  * Responsibilities:
  * - Generate SQL for calculated metrics dynamically from configuration
  * - Determine which calculated metrics are available based on base metrics
- * - Replace formula placeholders with correct CTE references
+ * - Generate formula SQL with placeholders resolved to CTE references
  *
- * This class reads from CALCULATED_METRICS in metrics.config.ts.
- * To add a new calculated metric, just add it to that config array.
- * No changes needed here!
+ * This class reads the calculated metrics of the active catalog
+ * (metricRegistry). To add a new calculated metric, publish it in the
+ * catalog. No changes needed here!
  */
 export class MetricCalculator {
   /**
    * Add calculated metrics to SELECT clause (FULLY DYNAMIC)
    *
-   * Reads from CALCULATED_METRICS configuration and generates SQL expressions.
-   * Uses ClickHouse's if() function for safe division (already in formulas).
+   * Reads the calculated metrics of the active catalog and generates SQL expressions
+   * from their parsed formulas (validated when the catalog was activated).
    *
    * Handles dependencies between calculated metrics by processing in multiple passes.
    *
    * @param selects - Array to append calculated metric expressions
    * @param metricsByTable - Map of metrics grouped by table (to find CTE names)
+   * @param customMetrics - User-defined metrics requested by the query, added
+   *   after the catalog ones (they only reference base metrics)
    */
   addCalculatedMetrics(
     selects: string[],
     metricsByTable: Map<string, MetricConfig[]>,
     skippedTables?: Set<string>,
-    facturadoOnly = false
+    facturadoOnly = false,
+    customMetrics: readonly CompiledCustomMetric[] = []
   ): void {
     // Build map of alias -> CTE reference for base metrics
     const aliasToCte = this.buildAliasToCteMap(metricsByTable, skippedTables);
@@ -42,7 +47,7 @@ export class MetricCalculator {
     while (addedInLastPass) {
       addedInLastPass = false;
 
-      for (const calculatedMetric of CALCULATED_METRICS) {
+      for (const calculatedMetric of metricRegistry.getCalculatedMetrics()) {
         // Skip if already added
         if (addedMetrics.has(calculatedMetric.name)) {
           continue;
@@ -60,39 +65,68 @@ export class MetricCalculator {
 
         // For closed periods, budget-relative metrics drop the comprometido
         // (orders) term: same metric name, facturado-only calculation.
-        const dropOrders = facturadoOnly
-          && 'facturadoSensitive' in calculatedMetric
-          && calculatedMetric.facturadoSensitive === true;
-
-        // Replace {alias} placeholders with actual references
-        let formula: string = calculatedMetric.formula;
-        for (const dependency of calculatedMetric.dependencies) {
-          let reference = aliasToCte.get(dependency);
-
-          // If not in base metrics, check if it's a previously calculated metric
-          if (!reference && addedMetrics.has(dependency)) {
-            reference = dependency; // Just use the metric name directly
-          }
+        const dropOrders = facturadoOnly && calculatedMetric.facturadoSensitive === true;
+
+        const formula = metricRegistry.getFormula(calculatedMetric.name);
+        if (!formula) {
+          continue;
+        }
 
+        const sql = generateSql(formula, (dependency) => {
           // Facturado-only: zero out the orders term in budget-relative metrics
           if (dropOrders && dependency === 'orders') {
-            reference = '0';
+            return '0';
           }
-
-          if (reference) {
-            formula = formula.replace(
-              new RegExp(`\\{${dependency}\\}`, 'g'),
-              reference
-            );
-          }
-        }
+          // Base metric CTE reference, or a previously calculated metric by name
+          return aliasToCte.get(dependency) ?? dependency;
+        });
 
         // Add to selects and mark as added
-        selects.push(`${formula} AS ${calculatedMetric.name}`);
+        selects.push(`${sql} AS ${calculatedMetric.name}`);
         addedMetrics.add(calculatedMetric.name);
         addedInLastPass = true;
       }
     }
+
+    for (const customMetric of customMetrics) {
+      if (!customMetric.dependencies.every((dep) => aliasToCte.has(dep))) {
+        continue;
+      }
+
+      const sql = generateSql(customMetric.formula, (dependency) => aliasToCte.get(dependency)!);
+      selects.push(`${sql} AS ${customMetric.name}`);
+    }
+  }
+
+  /**
+   * Expression of a catalog metric in a query whose base metrics are plain
+   * columns (time series). Calculated metrics are inlined from their formulas;
+   * `resolveBase` maps a base metric reference (alias or alias_last_year) to
+   * its column, or returns undefined when it is not one / not available.
+   *
+   * @returns undefined for unknown metrics or unavailable references
+   */
+  inlineMetricSql(name: string, resolveBase: (reference: string) => string | undefined): string | undefined {
+    const base = resolveBase(name);
+    if (base !== undefined) {
+      return base;
+    }
+
+    const formula = metricRegistry.getFormula(name);
+    if (!formula) {
+      return undefined;
+    }
+
+    let available = true;
+    const sql = generateSql(formula, (dependency) => {
+      const dependencySql = this.inlineMetricSql(dependency, resolveBase);
+      if (dependencySql === undefined) {
+        available = false;
+        return 'NULL';
+      }
+      return dependencySql;
+    });
+    return available ? `(${sql})` : undefined;
   }
 
   /**
@@ -101,7 +135,7 @@ export class MetricCalculator {
    * @param metricsByTable - Map of metrics grouped by table
    * @returns Map of alias -> full CTE.field reference
    */
-  private buildAliasToCteMap(
+  buildAliasToCteMap(
     metricsByTable: Map<string, MetricConfig[]>,
     skippedTables?: Set<string>
   ): Map<string, string> {
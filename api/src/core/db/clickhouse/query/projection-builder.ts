@@ -0,0 +1,148 @@
+import type { FilterBuilder, FilterCondition } from './filter-builder.js';
+import {
+  SMOOTHING_ALPHA,
+  type ProjectionMethod,
+  type ProjectionWindow,
+} from '../../../utils/projection.js';
+
+/**
+ * CTE the host query joins to add the projection: CROSS JOIN when `keys` is
+ * empty, otherwise LEFT JOIN on the key columns
+ */
+export interface ProjectionSource {
+  cte: string;
+  keys: string[];
+}
+
+/**
+ * ProjectionBuilder - Builds the end-of-period projection columns
+ * (see utils/projection.ts) of a balance, list or series query
+ *
+ * Business days come from fnc_dias_ppto (same calendar as the budget
+ * proration); the seasonal and smoothing models read daily sales from
+ * transactions with the host query's filters.
+ */
+export class ProjectionBuilder {
+  constructor(private filterBuilder: FilterBuilder) {}
+
+  /**
+   * @param config.filters - Current-period conditions applicable to
+   *   transactions (their date conditions are replaced by the window)
+   * @param config.dimensions - Grouping fields of the host rows ([] for a
+   *   single row); rows are keyed by trimBoth(field) like the grouped CTEs
+   * @param config.period - Period expression of a date for series rows
+   * @param config.references - SQL of the host's current actual
+   *   (sales + orders) and full-month budget
+   * @returns CTEs to add, the sources to join and the SELECT expressions
+   */
+  build(config: {
+    method: ProjectionMethod;
+    window: ProjectionWindow;
+    filters: FilterCondition[];
+    queryParams: Record<string, string | string[]>;
+    tablePrefix: string;
+    columnMap: Map<string, Set<string>>;
+    dimensions: string[];
+    period?: (dateExpr: string) => string;
+    references: { actual: string; budgetFull: string };
+  }): { ctes: string[]; sources: ProjectionSource[]; selects: string[] } {
+    const { window, filters, queryParams, tablePrefix, columnMap, dimensions, period, references } = config;
+    const transactionsTable = `${tablePrefix}transactions`;
+    const transactionsColumns = columnMap.get(transactionsTable) ?? new Set<string>();
+    const nonDateFilters = filters.filter((f) => f.field !== 'date');
+
+    // Transactions that can't be scoped to the host's dimensions hold no
+    // daily history for the row: only the linear model applies
+    const method = nonDateFilters.some((f) => !transactionsColumns.has(f.field)) ? 'linear' : config.method;
+
+    const periodKeys = period ? ['period'] : [];
+    const rowKeys = [...dimensions, ...periodKeys];
+    const ctes: string[] = [];
+    const sources: ProjectionSource[] = [];
+
+    // Business days of the months from startDate to the close
+    queryParams['projection_start'] = window.startDate;
+    queryParams['projection_period_end'] = window.periodEnd;
+    const monthStart = 'makeDate(Ano, Mes, 1)';
+    ctes.push(`projection_calendar AS (
+  SELECT ${period ? `${period(monthStart)} AS period, ` : ''}sum(Dias_habiles) AS business_days, sum(Dias_transcurridos) AS elapsed_days
+  FROM ${tablePrefix}fnc_dias_ppto
+  WHERE ${monthStart} >= toStartOfMonth(toDate({projection_start:String})) AND ${monthStart} <= toDate({projection_period_end:String})${period ? '\n  GROUP BY period' : ''}
+)`);
+    sources.push({ cte: 'projection_calendar', keys: periodKeys });
+
+    const keySelects = (dateExpr: string): string =>
+      [...dimensions.map((field) => `trimBoth(${field}) AS ${field}`), ...(period ? [`${period(dateExpr)} AS period`] : [])]
+        .map((select) => `${select}, `)
+        .join('');
+    const groupByKeys = (extra: string[] = []): string => {
+      const keys = [...rowKeys, ...extra];
+      return keys.length > 0 ? `\n  GROUP BY ${keys.join(', ')}` : '';
+    };
+    const whereFor = (prefix: string, startDate: string, endDate: string): string =>
+      this.filterBuilder.buildWhereClauseForTable(
+        [
+          { field: 'date', operator: 'gte', value: startDate },
+          { field: 'date', operator: 'lte', value: endDate },
+          ...nonDateFilters,
+        ],
+        queryParams,
+        prefix,
+        transactionsTable,
+        columnMap
+      );
+
+    if (method === 'seasonal') {
+      // Last year's actual to the same date and at the close, keyed on the
+      // current periods
+      const { lastYear } = window;
+      queryParams['projection_ly_end'] = lastYear.endDate;
+      ctes.push(`projection_last_year AS (
+  SELECT ${keySelects('addYears(toDate(date), 1)')}sumIf(sales_price, date <= {projection_ly_end:String}) AS to_date, sum(sales_price) AS period_total
+  FROM ${transactionsTable}
+  ${whereFor('projection_ly', lastYear.startDate, lastYear.periodEnd)}${groupByKeys()}
+)`);
+      sources.push({ cte: 'projection_last_year', keys: rowKeys });
+    }
+
+    if (method === 'smoothing') {
+      // Simple exponential smoothing of the daily sales, level initialised
+      // with the first day: level_n = Σ value_i · α^[i > 1] · (1 - α)^(n - i)
+      const partition = rowKeys.length > 0 ? `PARTITION BY ${rowKeys.join(', ')} ` : '';
+      ctes.push(`projection_smoothing AS (
+  SELECT ${rowKeys.map((key) => `${key}, `).join('')}sum(value * pow(1 - ${SMOOTHING_ALPHA}, n - i) * if(i = 1, 1, ${SMOOTHING_ALPHA})) AS level
+  FROM (
+    SELECT ${rowKeys.map((key) => `${key}, `).join('')}value,
+      row_number() OVER (${partition}ORDER BY day) AS i,
+      count() OVER (${partition.trim()}) AS n
+    FROM (
+      SELECT ${keySelects('toDate(date)')}toDate(date) AS day, sum(sales_price) AS value
+      FROM ${transactionsTable}
+      ${whereFor('projection_daily', window.startDate, window.endDate)}${groupByKeys(['day'])}
+    )
+  )${groupByKeys()}
+)`);
+      sources.push({ cte: 'projection_smoothing', keys: rowKeys });
+    }
+
+    const actual = `(${references.actual})`;
+    const budgetFull = `(${references.budgetFull})`;
+    const remaining = 'greatest(projection_calendar.business_days - projection_calendar.elapsed_days, 0)';
+    const linear = `if(projection_calendar.elapsed_days > 0, ${actual} * projection_calendar.business_days / projection_calendar.elapsed_days, NULL)`;
+    const close: Record<ProjectionMethod, string> = {
+      linear,
+      seasonal: `if(projection_last_year.to_date > 0, ${actual} * projection_last_year.period_total / projection_last_year.to_date, ${linear})`,
+      smoothing: `if(projection_calendar.elapsed_days > 0, ${actual} + coalesce(projection_smoothing.level, 0) * ${remaining}, NULL)`,
+    };
+
+    return {
+      ctes,
+      sources,
+      selects: [
+        `${close[method]} AS projected_close`,
+        `projected_close - ${budgetFull} AS projected_gap`,
+        `if(${remaining} > 0, greatest(${budgetFull} - ${actual}, 0) / ${remaining}, NULL) AS required_daily_sales`,
+      ],
+    };
+  }
+}
@@ -9,3 +9,76 @@ export interface MetricConfig {
   aggregation: 'sum' | 'avg' | 'count' | 'min' | 'max' | 'uniqExact';
   alias: string;
 }
+
+/**
+ * Condition on a catalog response field of grouped rows
+ * (e.g. sales_total_vs_last_year lt -10)
+ */
+export interface GroupedRowCondition {
+  field: string;
+  operator: 'lt' | 'lte' | 'gt' | 'gte';
+  value: number;
+}
+
+/**
+ * Distinct value of a dimension with its weight under the applied filters
+ */
+export interface DistinctValue {
+  id: string;
+  /** Display name (the id for dimensions without a name column in the source table) */
+  name: string;
+  /** Source rows with this value */
+  rows: number;
+  /** sum(sales_price) of those rows */
+  sales: number;
+}
+
+/**
+ * Order of distinct values: A-Z, or by weight (descending)
+ */
+export type DistinctValuesOrder = 'name' | 'rows' | 'sales';
+
+/**
+ * Day whose sales stand out from its group's usual daily sales
+ */
+export interface DailyOutlier {
+  id: string;
+  name: string;
+  /** YYYY-MM-DD */
+  date: string;
+  sales: number;
+  /** Median daily sales of the group over the window */
+  median_sales: number;
+  /** Robust z-score: 0.6745 · (sales − median) / MAD */
+  z_score: number;
+}
+
+/**
+ * Sales, gross margin and quantities of one group in the current and the
+ * comparison period, split by item: continuing items (quantity in both
+ * periods), new items (no comparison quantity) and lost items (no current
+ * quantity). `*_at_previous_*` value the current quantities of the
+ * continuing items at their comparison unit price / unit margin.
+ */
+export interface PriceVolumeMixRow {
+  id: string;
+  name: string;
+  sales: number;
+  sales_previous: number;
+  gross_margin: number;
+  gross_margin_previous: number;
+  continuing_sales: number;
+  continuing_sales_previous: number;
+  continuing_margin: number;
+  continuing_margin_previous: number;
+  continuing_quantity: number;
+  continuing_quantity_previous: number;
+  sales_at_previous_price: number;
+  margin_at_previous_unit_margin: number;
+  new_sales: number;
+  new_margin: number;
+  lost_sales: number;
+  lost_margin: number;
+  new_items: number;
+  lost_items: number;
+}
@@ -1,4 +1,9 @@
-import { pgTable, uuid, text, timestamp, boolean, index } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, text, timestamp, boolean, integer, doublePrecision, jsonb, index, uniqueIndex, type AnyPgColumn } from 'drizzle-orm/pg-core';
+import type { BaseMetricDefinition, CalculatedMetricDefinition } from '../../config/metrics.config.js';
+import type { DatePreset } from '../../utils/date-presets.js';
+import type { ReportSubscriptionView } from '../../../features/report-subscriptions/report-subscriptions.schemas.js';
+import type { SavedViewState } from '../../../features/saved-views/saved-views.schemas.js';
+import type { CampaignDefinition } from '../../config/campaigns.config.js';
 
 /**
  * Users table - Core authentication and user management
@@ -78,6 +83,421 @@ export const verification = pgTable('verification', {
     .defaultNow(),
 });
 
+/**
+ * Roles table - Data-access profiles keyed by Dyna profile role (`users.dynaRole`)
+ *
+ * A role grants either full access (every route, no row filter) or the routes in
+ * `role_path` restricted by the row filters in `role_data_filter`.
+ * A dynaRole without a row here has no access at all.
+ */
+export const roles = pgTable('role', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  // Dyna profile role this row describes (e.g. MANAGER_DISTRIBUTION)
+  key: text('key').unique().notNull(),
+  // Human-readable channel label (chip next to page titles)
+  label: text('label'),
+  fullAccess: boolean('full_access').notNull().default(false),
+  createdAt: timestamp('created_at', { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
+/**
+ * Role paths table - Frontend routes a (non full-access) role may open
+ */
+export const rolePaths = pgTable('role_path', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  roleId: uuid('role_id')
+    .notNull()
+    .references(() => roles.id, { onDelete: 'cascade' }),
+  path: text('path').notNull(),
+}, (table) => ({
+  // One row per (role, path)
+  rolePathIdx: uniqueIndex('role_path_role_id_path_idx').on(table.roleId, table.path),
+}));
+
+/**
+ * Role data filters table - Mandatory row filters applied to every analytics
+ * query of the role. Rows on the same field are OR-ed (IN), fields are AND-ed.
+ */
+export const roleDataFilters = pgTable('role_data_filter', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  roleId: uuid('role_id')
+    .notNull()
+    .references(() => roles.id, { onDelete: 'cascade' }),
+  // ClickHouse column (e.g. channel, IdRegional)
+  field: text('field').notNull(),
+  value: text('value').notNull(),
+}, (table) => ({
+  // Index for JOIN queries (WHERE role_id = ?)
+  roleIdIdx: index('role_data_filter_role_id_idx').on(table.roleId),
+}));
+
+/**
+ * User data entitlements table - Per-user allowed values of a dimension
+ * (e.g. a regional manager's IdRegional, a seller's seller_id), applied to
+ * every analytics query on top of the dynaRole filters.
+ * Rows on the same field are OR-ed (IN), fields are AND-ed.
+ */
+export const userDataEntitlements = pgTable('user_data_entitlement', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  // ClickHouse column (see ENTITLEMENT_FIELDS)
+  field: text('field').notNull(),
+  value: text('value').notNull(),
+}, (table) => ({
+  // One row per (user, field, value); also serves WHERE user_id = ?
+  userFieldValueIdx: uniqueIndex('user_data_entitlement_user_field_value_idx').on(table.userId, table.field, table.value),
+}));
+
+/**
+ * Metric catalog versions - Every publish of the metric catalog creates a new,
+ * immutable version. The API serves the highest version; deleting it rolls
+ * back to the previous one (on next startup).
+ */
+export const metricCatalogs = pgTable('metric_catalog', {
+  version: integer('version').primaryKey(),
+  note: text('note'),
+  publishedBy: uuid('published_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
+/**
+ * Metric definitions of a catalog version: base aggregations and calculated
+ * formulas with their display metadata (see metrics.config.ts)
+ */
+export const metricDefinitions = pgTable('metric_definition', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  version: integer('version')
+    .notNull()
+    .references(() => metricCatalogs.version, { onDelete: 'cascade' }),
+  kind: text('kind', { enum: ['base', 'calculated'] }).notNull(),
+  // Base metric alias or calculated metric name
+  name: text('name').notNull(),
+  // Order within its kind (response and catalog order)
+  position: integer('position').notNull(),
+  definition: jsonb('definition').$type<BaseMetricDefinition | CalculatedMetricDefinition>().notNull(),
+}, (table) => ({
+  // One row per (version, name); also serves WHERE version = ?
+  versionNameIdx: uniqueIndex('metric_definition_version_name_idx').on(table.version, table.name),
+}));
+
+/**
+ * Custom metrics - User-defined calculated metrics over the base metrics of the
+ * active catalog (see core/metrics/custom-metric.ts). Private to the owner
+ * unless shared with the owner's dynaRole (their team).
+ */
+export const customMetrics = pgTable('custom_metric', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  ownerId: uuid('owner_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  // Requested as metrics=<key>, returned as custom_<key>
+  key: text('key').notNull(),
+  label: text('label').notNull(),
+  description: text('description'),
+  formula: text('formula').notNull(),
+  format: text('format', { enum: ['currency', 'percent', 'number'] }).notNull().default('number'),
+  // dynaRole the metric is shared with (null = private)
+  sharedWithRole: text('shared_with_role'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  // One key per owner; also serves WHERE owner_id = ?
+  ownerKeyIdx: uniqueIndex('custom_metric_owner_id_key_idx').on(table.ownerId, table.key),
+  // Index for team lookups (WHERE shared_with_role = ?)
+  sharedWithRoleIdx: index('custom_metric_shared_with_role_idx').on(table.sharedWithRole),
+}));
+
+/**
+ * Saved views - The state of an analytics page of the web app (date range,
+ * filters, sort, nested dimensions) under a name, so it can be reopened or
+ * shared as a link (see features/saved-views). Private to the owner, shared
+ * with the owner's dynaRole (their team) or public to every user.
+ */
+export const savedViews = pgTable('saved_view', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  ownerId: uuid('owner_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  visibility: text('visibility', { enum: ['private', 'team', 'public'] }).notNull().default('private'),
+  // dynaRole of a 'team' view (null otherwise)
+  sharedWithRole: text('shared_with_role'),
+  // Web app route of the page (e.g. /distribucion/clientes)
+  route: text('route').notNull(),
+  state: jsonb('state').$type<SavedViewState>().notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+}, (table) => ({
+  // Index for owner lookups (WHERE owner_id = ?)
+  ownerIdIdx: index('saved_view_owner_id_idx').on(table.ownerId),
+  // Index for team lookups (WHERE shared_with_role = ?)
+  sharedWithRoleIdx: index('saved_view_shared_with_role_idx').on(table.sharedWithRole),
+}));
+
+/**
+ * Report subscriptions - A saved list view (groupBy, filters, date preset)
+ * emailed to its owner as an Excel file plus headline KPIs on a schedule
+ * (see features/report-subscriptions).
+ *
+ * Due rows are claimed by one API replica at a time: `locked_until` is a lease
+ * taken with FOR UPDATE SKIP LOCKED, so a replica that dies mid-delivery only
+ * delays the report until the lease expires.
+ */
+export const reportSubscriptions = pgTable('report_subscription', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  ownerId: uuid('owner_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  view: jsonb('view').$type<ReportSubscriptionView>().notNull(),
+  frequency: text('frequency', { enum: ['daily', 'weekly', 'monthly'] }).notNull(),
+  // Delivery hour (UTC, 0-23); weekly on Mondays, monthly on the 1st
+  hour: integer('hour').notNull(),
+  active: boolean('active').notNull().default(true),
+  // Secret of the unsubscribe link (no session required)
+  unsubscribeToken: text('unsubscribe_token').notNull().unique(),
+  nextRunAt: timestamp('next_run_at', { withTimezone: true }).notNull(),
+  lastSentAt: timestamp('last_sent_at', { withTimezone: true }),
+  lastError: text('last_error'),
+  // Failed attempts of the current delivery (reset once it is sent or given up)
+  failureCount: integer('failure_count').notNull().default(0),
+  lockedUntil: timestamp('locked_until', { withTimezone: true }),
+  lockedBy: text('locked_by'),
+  createdAt: timestamp('created_at', { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+}, (table) => ({
+  // Index for owner lookups (WHERE owner_id = ?)
+  ownerIdIdx: index('report_subscription_owner_id_idx').on(table.ownerId),
+  // Index for the scheduler (WHERE active AND next_run_at <= now())
+  activeNextRunIdx: index('report_subscription_active_next_run_at_idx').on(table.active, table.nextRunAt),
+}));
+
+/**
+ * Report deliveries - One row per delivery attempt of a subscription
+ */
+export const reportDeliveries = pgTable('report_delivery', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  subscriptionId: uuid('subscription_id')
+    .notNull()
+    .references(() => reportSubscriptions.id, { onDelete: 'cascade' }),
+  status: text('status', { enum: ['sent', 'failed'] }).notNull(),
+  // 1 for the scheduled run, 2+ for its retries
+  attempt: integer('attempt').notNull(),
+  error: text('error'),
+  createdAt: timestamp('created_at', { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+}, (table) => ({
+  // Index for the delivery history (WHERE subscription_id = ? ORDER BY created_at)
+  subscriptionCreatedAtIdx: index('report_delivery_subscription_id_created_at_idx').on(table.subscriptionId, table.createdAt),
+}));
+
+/**
+ * Alert rules - A threshold on a metric (e.g. budget_achievement_pct < 90)
+ * evaluated on a schedule over the owner's data scope, optionally per member
+ * of a dimension (see features/alerts).
+ *
+ * `breached` holds the targets currently over the threshold so that a breach
+ * is notified once, when it starts, and not on every evaluation. Due rows are
+ * leased to one API replica at a time like report subscriptions.
+ */
+export const alertRules = pgTable('alert_rule', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  ownerId: uuid('owner_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  metric: text('metric').notNull(),
+  // Evaluate each member of this dimension (null: the whole scope)
+  dimension: text('dimension'),
+  filters: jsonb('filters').$type<Record<string, string>>().notNull().default({}),
+  preset: text('preset').$type<DatePreset>().notNull(),
+  comparator: text('comparator', { enum: ['lt', 'lte', 'gt', 'gte'] }).notNull(),
+  threshold: doublePrecision('threshold').notNull(),
+  frequency: text('frequency', { enum: ['hourly', 'daily', 'weekly'] }).notNull(),
+  // Evaluation hour (UTC, 0-23) of daily and weekly rules
+  hour: integer('hour').notNull(),
+  active: boolean('active').notNull().default(true),
+  snoozedUntil: timestamp('snoozed_until', { withTimezone: true }),
+  // Dimension ids in breach at the last evaluation ('' for the whole scope)
+  breached: jsonb('breached').$type<string[]>().notNull().default([]),
+  nextRunAt: timestamp('next_run_at', { withTimezone: true }).notNull(),
+  lastEvaluatedAt: timestamp('last_evaluated_at', { withTimezone: true }),
+  lastError: text('last_error'),
+  lockedUntil: timestamp('locked_until', { withTimezone: true }),
+  lockedBy: text('locked_by'),
+  createdAt: timestamp('created_at', { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+}, (table) => ({
+  // Index for owner lookups (WHERE owner_id = ?)
+  ownerIdIdx: index('alert_rule_owner_id_idx').on(table.ownerId),
+  // Index for the scheduler (WHERE active AND next_run_at <= now())
+  activeNextRunIdx: index('alert_rule_active_next_run_at_idx').on(table.active, table.nextRunAt),
+}));
+
+/**
+ * Alert events - Notification history and in-app inbox: one row when a target
+ * starts breaching a rule (triggered) and one when it recovers (resolved)
+ */
+export const alertEvents = pgTable('alert_event', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  ruleId: uuid('rule_id')
+    .notNull()
+    .references(() => alertRules.id, { onDelete: 'cascade' }),
+  ownerId: uuid('owner_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  status: text('status', { enum: ['triggered', 'resolved'] }).notNull(),
+  // Copy of the rule at evaluation time (the rule may change later)
+  ruleName: text('rule_name').notNull(),
+  metric: text('metric').notNull(),
+  comparator: text('comparator', { enum: ['lt', 'lte', 'gt', 'gte'] }).notNull(),
+  threshold: doublePrecision('threshold').notNull(),
+  value: doublePrecision('value'),
+  dimension: text('dimension'),
+  dimensionId: text('dimension_id'),
+  dimensionName: text('dimension_name'),
+  startDate: text('start_date').notNull(),
+  endDate: text('end_date').notNull(),
+  emailedAt: timestamp('emailed_at', { withTimezone: true }),
+  readAt: timestamp('read_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+}, (table) => ({
+  // Index for the inbox (WHERE owner_id = ? ORDER BY created_at)
+  ownerCreatedAtIdx: index('alert_event_owner_id_created_at_idx').on(table.ownerId, table.createdAt),
+  // Index for the rule history (WHERE rule_id = ?)
+  ruleIdIdx: index('alert_event_rule_id_idx').on(table.ruleId),
+}));
+
+/**
+ * Export jobs - A list / campaign export built in the background (see
+ * features/exports), so a large export does not run inside the HTTP request.
+ * The finished file lives on the API's local disk until `expires_at`; the row
+ * is kept as the user's download history.
+ *
+ * Queued rows are claimed by one API replica at a time (FOR UPDATE SKIP
+ * LOCKED); the lease is renewed while the file is written, so a job whose
+ * lease expired was interrupted and is marked failed.
+ */
+export const exportJobs = pgTable('export_job', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  ownerId: uuid('owner_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  kind: text('kind', { enum: ['list', 'festival-list', 'festival-sin-compra'] }).notNull(),
+  format: text('format', { enum: ['xlsx', 'csv', 'parquet'] }).notNull(),
+  // Query of the matching GET export endpoint (validated by its schema)
+  query: jsonb('query').$type<Record<string, unknown>>().notNull(),
+  // Download filename, without extension
+  filename: text('filename').notNull(),
+  status: text('status', { enum: ['queued', 'running', 'completed', 'failed', 'expired'] })
+    .notNull()
+    .default('queued'),
+  // 0-100
+  progress: integer('progress').notNull().default(0),
+  // Bytes written so far (final size once completed)
+  sizeBytes: doublePrecision('size_bytes'),
+  error: text('error'),
+  startedAt: timestamp('started_at', { withTimezone: true }),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+  expiresAt: timestamp('expires_at', { withTimezone: true }),
+  lockedUntil: timestamp('locked_until', { withTimezone: true }),
+  lockedBy: text('locked_by'),
+  createdAt: timestamp('created_at', { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+}, (table) => ({
+  // Index for the download history (WHERE owner_id = ? ORDER BY created_at)
+  ownerCreatedAtIdx: index('export_job_owner_id_created_at_idx').on(table.ownerId, table.createdAt),
+  // Index for the worker (WHERE status = 'queued' ORDER BY created_at)
+  statusCreatedAtIdx: index('export_job_status_created_at_idx').on(table.status, table.createdAt),
+}));
+
+/**
+ * Campaigns - Definition of each commercial campaign (sales tables, metrics,
+ * budget, rules, groupings and page dimensions; see
+ * core/config/campaigns.config.ts). Managed through /api/admin/campaigns and
+ * checked when saved and when loaded; its routes are served under
+ * /api/campaigns/:key.
+ */
+export const campaigns = pgTable('campaign', {
+  key: text('key').primaryKey(),
+  // Everything but the key (validated as a CampaignDefinition)
+  definition: jsonb('definition').$type<Omit<CampaignDefinition, 'key'>>().notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
+/**
+ * Campaign editions - One event of a commercial campaign (e.g. a Festival
+ * Virtual): its event window, the edition it is compared against, its budget
+ * `periodo`, its sales channels and the values of the campaign's business
+ * rules (e.g. the festival's exclusive brands). Managed through
+ * /api/admin/campaign-editions; the campaign endpoints take an `editionId`
+ * (see features/campaigns).
+ */
+export const campaignEditions = pgTable('campaign_edition', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  // Key of the campaign (`campaign` table)
+  campaign: text('campaign').notNull(),
+  name: text('name').notNull(),
+  // Event window (yyyy-MM-dd, inclusive), on the order date
+  startDate: text('start_date').notNull(),
+  endDate: text('end_date').notNull(),
+  // Edition the event is compared against (null: no comparison)
+  compareEditionId: uuid('compare_edition_id')
+    .references((): AnyPgColumn => campaignEditions.id, { onDelete: 'set null' }),
+  // Budget periodo of the edition (yyyyMM)
+  budgetPeriodo: text('budget_periodo').notNull(),
+  // Values of the campaign's rules by rule key (e.g. the festival's
+  // exclusiveBrands and universeRegionals), checked against its definition
+  rules: jsonb('rules').$type<Record<string, string[]>>().notNull(),
+  // Sales channels the campaign counts (channel column)
+  channels: jsonb('channels').$type<string[]>().notNull(),
+  // draft: hidden from the campaign page; active: running or upcoming; closed: past
+  status: text('status', { enum: ['draft', 'active', 'closed'] }).notNull().default('draft'),
+  createdAt: timestamp('created_at', { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+}, (table) => ({
+  // Index for the edition selector (WHERE campaign = ? AND status <> 'draft' ORDER BY start_date)
+  campaignStatusStartDateIdx: index('campaign_edition_campaign_status_start_date_idx')
+    .on(table.campaign, table.status, table.startDate),
+}));
+
 // Type inference for TypeScript
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
@@ -85,3 +505,23 @@ export type Session = typeof session.$inferSelect;
 export type NewSession = typeof session.$inferInsert;
 export type Verification = typeof verification.$inferSelect;
 export type NewVerification = typeof verification.$inferInsert;
+export type Role = typeof roles.$inferSelect;
+export type NewRole = typeof roles.$inferInsert;
+export type RolePath = typeof rolePaths.$inferSelect;
+export type RoleDataFilter = typeof roleDataFilters.$inferSelect;
+export type UserDataEntitlement = typeof userDataEntitlements.$inferSelect;
+export type MetricCatalogVersion = typeof metricCatalogs.$inferSelect;
+export type MetricDefinitionRow = typeof metricDefinitions.$inferSelect;
+export type CustomMetric = typeof customMetrics.$inferSelect;
+export type NewCustomMetric = typeof customMetrics.$inferInsert;
+export type SavedView = typeof savedViews.$inferSelect;
+export type ReportSubscription = typeof reportSubscriptions.$inferSelect;
+export type NewReportSubscription = typeof reportSubscriptions.$inferInsert;
+export type ReportDelivery = typeof reportDeliveries.$inferSelect;
+export type AlertRule = typeof alertRules.$inferSelect;
+export type NewAlertRule = typeof alertRules.$inferInsert;
+export type AlertEvent = typeof alertEvents.$inferSelect;
+export type ExportJob = typeof exportJobs.$inferSelect;
+export type Campaign = typeof campaigns.$inferSelect;
+export type CampaignEdition = typeof campaignEditions.$inferSelect;
+export type NewCampaignEdition = typeof campaignEditions.$inferInsert;
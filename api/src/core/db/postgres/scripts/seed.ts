@@ -1,6 +1,10 @@
 import 'dotenv/config';
 import { db } from '../client.js';
-import { users } from '../schema.js';
+import { users, roles, rolePaths, roleDataFilters, metricCatalogs, metricDefinitions, campaigns, campaignEditions } from '../schema.js';
+import { DEFAULT_ROLES } from '../../../config/role-access.config.js';
+import { BALANCE_METRICS, CALCULATED_METRICS } from '../../../config/metrics.config.js';
+import { DEFAULT_FESTIVAL_EDITIONS } from '../../../config/festival-editions.config.js';
+import { FESTIVAL_CAMPAIGN } from '../../../config/campaigns.config.js';
 import { eq } from 'drizzle-orm';
 import { logger } from '../../../logger/logger.js';
 
@@ -11,6 +15,15 @@ import { logger } from '../../../logger/logger.js';
  *
  * Creates a superadmin user with the email specified in SUPERADMIN_EMAIL env variable
  * If user already exists, updates their role to superadmin and activates them
+ *
+ * Also inserts the default role-access rules (DEFAULT_ROLES) for roles that
+ * do not exist yet. Existing roles are left untouched.
+ *
+ * Publishes the built-in metric catalog as version 1 when no version exists.
+ *
+ * Inserts the festival campaign (FESTIVAL_CAMPAIGN) when it does not exist,
+ * and the default festival editions (DEFAULT_FESTIVAL_EDITIONS) when no
+ * campaign edition exists.
  */
 async function seed() {
   const email = process.env['SUPERADMIN_EMAIL'] || 'admin@dynainfo.com';
@@ -75,6 +88,109 @@ async function seed() {
       console.log(`   Role: ${newUser.role}`);
     }
 
+    console.log('🔐 Seeding default roles...');
+
+    for (const definition of DEFAULT_ROLES) {
+      const [existingRole] = await db
+        .select()
+        .from(roles)
+        .where(eq(roles.key, definition.key))
+        .limit(1);
+
+      if (existingRole) {
+        console.log(`   ${definition.key}: already exists, skipped`);
+        continue;
+      }
+
+      const [role] = await db
+        .insert(roles)
+        .values({ key: definition.key, label: definition.label, fullAccess: definition.fullAccess })
+        .returning();
+
+      if (!role) {
+        throw new Error(`Failed to create role ${definition.key}`);
+      }
+
+      if (definition.paths.length > 0) {
+        await db.insert(rolePaths).values(definition.paths.map((path) => ({ roleId: role.id, path })));
+      }
+
+      const filterRows = Object.entries(definition.dataFilters).flatMap(([field, values]) =>
+        values.map((value) => ({ roleId: role.id, field, value }))
+      );
+      if (filterRows.length > 0) {
+        await db.insert(roleDataFilters).values(filterRows);
+      }
+
+      console.log(`   ${definition.key}: created`);
+    }
+
+    console.log('📊 Seeding metric catalog...');
+
+    const [existingCatalog] = await db.select().from(metricCatalogs).limit(1);
+
+    if (existingCatalog) {
+      console.log('   Metric catalog already published, skipped');
+    } else {
+      await db.insert(metricCatalogs).values({ version: 1, note: 'Built-in catalog' });
+      await db.insert(metricDefinitions).values([
+        ...BALANCE_METRICS.map((definition, position) => ({
+          version: 1,
+          kind: 'base' as const,
+          name: definition.alias,
+          position,
+          definition,
+        })),
+        ...CALCULATED_METRICS.map((definition, position) => ({
+          version: 1,
+          kind: 'calculated' as const,
+          name: definition.name,
+          position,
+          definition,
+        })),
+      ]);
+      console.log(`   Version 1: ${BALANCE_METRICS.length} base, ${CALCULATED_METRICS.length} calculated metrics`);
+    }
+
+    console.log('🎪 Seeding festival campaign...');
+
+    const { key: festivalKey, ...festivalDefinition } = FESTIVAL_CAMPAIGN;
+    const [existingCampaign] = await db.select().from(campaigns).where(eq(campaigns.key, festivalKey)).limit(1);
+
+    if (existingCampaign) {
+      console.log('   Festival campaign already defined, skipped');
+    } else {
+      await db.insert(campaigns).values({ key: festivalKey, definition: festivalDefinition });
+      console.log(`   ${FESTIVAL_CAMPAIGN.name}: created`);
+    }
+
+    console.log('🎪 Seeding festival editions...');
+
+    const [existingEdition] = await db.select().from(campaignEditions).limit(1);
+
+    if (existingEdition) {
+      console.log('   Festival editions already defined, skipped');
+    } else {
+      const idsByName = new Map<string, string>();
+      for (const { compareWith, ...definition } of DEFAULT_FESTIVAL_EDITIONS) {
+        const [edition] = await db
+          .insert(campaignEditions)
+          .values({
+            ...definition,
+            campaign: FESTIVAL_CAMPAIGN.key,
+            compareEditionId: compareWith ? idsByName.get(compareWith) ?? null : null,
+          })
+          .returning();
+
+        if (!edition) {
+          throw new Error(`Failed to create festival edition ${definition.name}`);
+        }
+
+        idsByName.set(edition.name, edition.id);
+        console.log(`   ${edition.name}: created`);
+      }
+    }
+
     console.log('');
     console.log('📝 Next steps:');
     console.log('   1. Start the server: npm run dev');
@@ -0,0 +1,11 @@
+/**
+ * Escape user-provided text (report names, dimension names...) for the HTML
+ * body of an email
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
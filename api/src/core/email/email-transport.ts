@@ -0,0 +1,102 @@
+import { Resend } from 'resend';
+import { logger } from '../logger/logger.js';
+import type { Env } from '../config/env.js';
+
+/**
+ * File attached to an email
+ */
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+/**
+ * Outgoing email
+ */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  attachments?: EmailAttachment[];
+  /** Extra headers (e.g. List-Unsubscribe) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Delivery backend of outgoing emails
+ *
+ * Implementations: ResendEmailTransport (Resend API, default) and
+ * MemoryEmailTransport (in-process outbox for local development and tests).
+ */
+export interface EmailTransport {
+  readonly name: 'resend' | 'memory';
+
+  /**
+   * @throws Error when the message could not be delivered
+   */
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Resend API transport
+ */
+export class ResendEmailTransport implements EmailTransport {
+  readonly name = 'resend' as const;
+
+  constructor(
+    private readonly client: Resend,
+    private readonly from: string
+  ) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const { error } = await this.client.emails.send({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      ...(message.attachments && {
+        attachments: message.attachments.map((attachment) => ({
+          filename: attachment.filename,
+          content: attachment.content,
+          ...(attachment.contentType && { contentType: attachment.contentType }),
+        })),
+      }),
+      ...(message.headers && { headers: message.headers }),
+    });
+
+    // Resend reports API errors in the response instead of throwing
+    if (error) {
+      throw new Error(`Resend error: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * In-process outbox: keeps every message in `outbox` and logs it instead of
+ * sending it
+ */
+export class MemoryEmailTransport implements EmailTransport {
+  readonly name = 'memory' as const;
+  readonly outbox: EmailMessage[] = [];
+
+  send(message: EmailMessage): Promise<void> {
+    this.outbox.push(message);
+    logger.info({
+      type: 'email_outbox',
+      to: message.to,
+      subject: message.subject,
+      attachments: message.attachments?.map((attachment) => attachment.filename) ?? [],
+    }, 'Email kept in the in-memory outbox');
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Build the email transport from the environment
+ */
+export function createEmailTransport(config: Pick<Env, 'EMAIL_TRANSPORT' | 'EMAIL_FROM'>): EmailTransport {
+  return config.EMAIL_TRANSPORT === 'memory'
+    ? new MemoryEmailTransport()
+    : new ResendEmailTransport(new Resend(process.env['RESEND_API_KEY']), config.EMAIL_FROM);
+}
@@ -0,0 +1,52 @@
+/**
+ * Streaming CSV encoder for tabular exports (RFC 4180, UTF-8 with BOM so
+ * Excel detects the encoding)
+ */
+
+export type CsvValue = string | number | null;
+
+const BOM = '﻿';
+
+/** Encoded lines gathered into one chunk before it is emitted */
+const LINES_PER_CHUNK = 500;
+
+/**
+ * Leading characters that make a spreadsheet read a cell as a formula
+ * (CSV injection); such text cells are prefixed with an apostrophe.
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function encodeValue(value: CsvValue): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function encodeLine(values: readonly CsvValue[]): string {
+  return `${values.map(encodeValue).join(',')}\r\n`;
+}
+
+/**
+ * Encode a header and rows as CSV, in chunks of LINES_PER_CHUNK lines.
+ * Empty and non-finite numbers are written as empty cells.
+ */
+export async function* encodeCsv(
+  header: readonly string[],
+  rows: AsyncIterable<readonly CsvValue[]>
+): AsyncGenerator<string> {
+  let chunk = BOM + encodeLine(header);
+  let lines = 1;
+
+  for await (const row of rows) {
+    chunk += encodeLine(row);
+    if (++lines >= LINES_PER_CHUNK) {
+      yield chunk;
+      chunk = '';
+      lines = 0;
+    }
+  }
+
+  if (chunk) yield chunk;
+}
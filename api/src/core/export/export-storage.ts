@@ -0,0 +1,88 @@
+import { createReadStream, createWriteStream } from 'node:fs';
+import { mkdir, rename, rm, stat } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+
+/** Keys are plain file names (no directories) */
+const KEY_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Local-disk storage of the files built by the export jobs
+ *
+ * A file is written under a temporary name and renamed once complete, so a
+ * download never reads a partial file. With several API replicas the
+ * directory must be shared (downloads may reach another replica).
+ */
+export class ExportFileStorage {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = resolve(dir);
+  }
+
+  /**
+   * Write a file, piping a streamed body with backpressure
+   *
+   * @param onBytes - Called with the bytes written so far as chunks are written
+   * @returns Size of the file (bytes)
+   */
+  async save(
+    key: string,
+    body: Buffer | AsyncIterable<string | Buffer>,
+    onBytes?: (bytes: number) => void
+  ): Promise<number> {
+    const path = this.pathFor(key);
+    const partial = `${path}.partial`;
+    await mkdir(this.dir, { recursive: true });
+
+    let bytes = 0;
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        bytes += chunk.length;
+        onBytes?.(bytes);
+        callback(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(Buffer.isBuffer(body) ? Readable.from([body]) : Readable.from(body), counter, createWriteStream(partial));
+      await rename(partial, path);
+    } catch (error) {
+      await rm(partial, { force: true });
+      throw error;
+    }
+    return bytes;
+  }
+
+  /**
+   * Read a stored file
+   *
+   * @returns The file stream, or null if the file does not exist
+   */
+  async open(key: string): Promise<Readable | null> {
+    const path = this.pathFor(key);
+    try {
+      await stat(path);
+    } catch {
+      return null;
+    }
+    return createReadStream(path);
+  }
+
+  /**
+   * Delete a file (and its partial copy); missing files are ignored
+   */
+  async remove(key: string): Promise<void> {
+    const path = this.pathFor(key);
+    await rm(path, { force: true });
+    await rm(`${path}.partial`, { force: true });
+  }
+
+  private pathFor(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid export file key: ${key}`);
+    }
+    return join(this.dir, key);
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Streaming Parquet encoder for tabular exports (on hyparquet-writer)
+ *
+ * Flat schemas of optional UTF-8 string and double columns. Rows are buffered
+ * only up to a row group, which is encoded and emitted as soon as it fills,
+ * so memory is bounded by the row group size whatever the number of rows.
+ * The footer (page indexes and file metadata) is emitted last.
+ *
+ * See https://parquet.apache.org/docs/file-format/
+ */
+import { ByteWriter, ParquetWriter, schemaFromColumnData, type ColumnSource } from 'hyparquet-writer';
+
+export type ParquetColumnType = 'string' | 'double';
+
+export interface ParquetColumn {
+  name: string;
+  type: ParquetColumnType;
+}
+
+export type ParquetValue = string | number | null;
+
+/** Rows per row group */
+export const PARQUET_ROW_GROUP_SIZE = 10_000;
+
+const BASIC_TYPE: Record<ParquetColumnType, NonNullable<ColumnSource['type']>> = { string: 'STRING', double: 'DOUBLE' };
+
+/**
+ * Encode rows (values in column order) as a Parquet file, chunk by chunk:
+ * the magic number, one chunk per row group and the footer.
+ *
+ * @param rowGroupSize - Rows buffered before a row group is emitted
+ */
+export async function* encodeParquet(
+  columns: readonly ParquetColumn[],
+  rows: AsyncIterable<readonly ParquetValue[]>,
+  rowGroupSize = PARQUET_ROW_GROUP_SIZE
+): AsyncGenerator<Buffer> {
+  const columnData = (values: ParquetValue[][]): ColumnSource[] =>
+    columns.map((column, index) => ({ name: column.name, type: BASIC_TYPE[column.type], nullable: true, data: values[index]! }));
+
+  const writer = new ByteWriter();
+  const parquet = new ParquetWriter({ writer, schema: schemaFromColumnData({ columnData: columnData(columns.map(() => [])) }) });
+  let buffered: ParquetValue[][] = columns.map(() => []);
+  let bufferedRows = 0;
+
+  // Bytes written since the last chunk; the writer keeps counting file
+  // offsets across drains (as its own file writer does)
+  const drain = (): Buffer => {
+    const chunk = Buffer.from(writer.getBytes());
+    writer.index = 0;
+    return chunk;
+  };
+
+  const flush = async (): Promise<Buffer> => {
+    await parquet.write({ columnData: columnData(buffered), rowGroupSize: bufferedRows });
+    buffered = columns.map(() => []);
+    bufferedRows = 0;
+    return drain();
+  };
+
+  yield drain();
+
+  for await (const row of rows) {
+    columns.forEach((column, index) => {
+      const value = row[index] ?? null;
+      // Non-finite doubles (Infinity, NaN) have no portable reading: null
+      buffered[index]!.push(column.type === 'double' && typeof value === 'number' && !Number.isFinite(value) ? null : value);
+    });
+    bufferedRows++;
+    if (bufferedRows >= rowGroupSize) yield await flush();
+  }
+
+  if (bufferedRows > 0) yield await flush();
+  await parquet.finish();
+  yield drain();
+}
@@ -0,0 +1,95 @@
+import { Readable } from 'node:stream';
+import type { FastifyReply } from 'fastify';
+import type { Static } from '@sinclair/typebox';
+import type { ExportFormatSchema } from '../schemas/common.schemas.js';
+import { encodeCsv } from './csv-writer.js';
+import { encodeParquet, type ParquetColumnType } from './parquet-writer.js';
+
+export type ExportFormat = Static<typeof ExportFormatSchema>;
+
+/** Formats streamed as data files (no styling, no row cap) */
+export type DataExportFormat = Exclude<ExportFormat, 'xlsx'>;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv; charset=utf-8',
+  parquet: 'application/vnd.apache.parquet',
+};
+
+/**
+ * Column of a data export
+ */
+export interface TabularColumn<T> {
+  /** Parquet column name (stable, machine-friendly) */
+  name: string;
+  /** CSV header (display label) */
+  header: string;
+  type: ParquetColumnType;
+  value: (row: T) => string | number | null;
+}
+
+/**
+ * Encode rows as a CSV or Parquet file. Rows are pulled from `rows` only as
+ * the encoded chunks are consumed, so a slow client slows the query read.
+ */
+export function encodeTabular<T>(
+  format: DataExportFormat,
+  columns: readonly TabularColumn<T>[],
+  rows: AsyncIterable<T>
+): AsyncIterable<string | Buffer> {
+  async function* values(): AsyncGenerator<Array<string | number | null>> {
+    for await (const row of rows) {
+      yield columns.map((column) => column.value(row));
+    }
+  }
+
+  return format === 'csv'
+    ? encodeCsv(columns.map((column) => column.header), values())
+    : encodeParquet(columns.map(({ name, type }) => ({ name, type })), values());
+}
+
+/**
+ * Start reading rows before the response is committed: the first row is
+ * awaited here, so query errors (invalid params, ClickHouse failures) still
+ * reach the error handler as a regular error response instead of cutting a
+ * download that already started.
+ */
+export async function prefetchRows<T>(rows: AsyncIterable<T>): Promise<AsyncIterable<T>> {
+  const iterator = rows[Symbol.asyncIterator]();
+  const first = await iterator.next();
+
+  return (async function* () {
+    try {
+      if (first.done) return;
+      yield first.value;
+      yield* { [Symbol.asyncIterator]: () => iterator };
+    } finally {
+      // Closes the query stream when the download is aborted
+      await iterator.return?.();
+    }
+  })();
+}
+
+/**
+ * Send an export as a download. Streamed bodies (and stored files) are piped
+ * with backpressure.
+ *
+ * @param baseName - Filename without extension (already sanitized)
+ */
+export function sendExport(
+  reply: FastifyReply,
+  format: ExportFormat,
+  baseName: string,
+  body: Buffer | Readable | AsyncIterable<string | Buffer>
+): FastifyReply {
+  const asciiName = baseName.replace(/[^\x20-\x7e]+/g, '_');
+  const encodedName = encodeURIComponent(`${baseName}.${format}`);
+
+  return reply
+    .header('Content-Type', EXPORT_CONTENT_TYPES[format])
+    .header(
+      'Content-Disposition',
+      `attachment; filename="${asciiName}.${format}"; filename*=UTF-8''${encodedName}`
+    )
+    .send(Buffer.isBuffer(body) || body instanceof Readable ? body : Readable.from(body));
+}
@@ -0,0 +1,125 @@
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+import type { FastifyInstance } from 'fastify';
+import { logger } from '../logger/logger.js';
+
+export interface LeaseRunnerOptions<T> {
+  /** Name in the startup log, e.g. "Report scheduler" */
+  name: string;
+  /** Log type of the runner's own errors, e.g. report_scheduler_error */
+  errorType: string;
+  intervalMs: number;
+  /** How long a claimed item stays locked to this instance (ms) */
+  leaseMs: number;
+  /** Items claimed per tick */
+  batchSize: number;
+  /**
+   * Lock up to `limit` due items to this instance until `now + leaseMs`
+   * (must be safe with several API replicas)
+   */
+  claimDue(instanceId: string, now: Date, leaseMs: number, limit: number): Promise<T[]>;
+  /**
+   * Process one claimed item: record its outcome and release its lease
+   *
+   * @returns What the item adds to the tick result (reports sent, alerts triggered…)
+   */
+  handle(item: T, instanceId: string, now: Date): Promise<number>;
+  /** Runs at the start of every tick, before the claim (e.g. clean-up) */
+  beforeClaim?(now: Date): Promise<void>;
+}
+
+/**
+ * In-process runner of leased background work (report deliveries, alert
+ * evaluations, export jobs)
+ *
+ * Every `intervalMs` it claims the due items for this instance and handles
+ * them one by one. A tick is skipped while the previous one runs; an item
+ * whose handler throws is logged and its lease left to expire, so the next
+ * claim retries it.
+ */
+export class LeaseRunner<T> {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<number> | null = null;
+
+  constructor(
+    private options: LeaseRunnerOptions<T>,
+    readonly instanceId = `${hostname()}-${process.pid}-${randomBytes(3).toString('hex')}`
+  ) {}
+
+  get name(): string {
+    return this.options.name;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.options.intervalMs);
+    // Never keep the process alive just for the runner
+    this.timer.unref();
+  }
+
+  /**
+   * Stop ticking and wait for the item in progress
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.running;
+  }
+
+  /**
+   * Handle the due items (skipped while the previous tick runs)
+   *
+   * @returns Sum of the handler results
+   */
+  async tick(now = new Date()): Promise<number> {
+    if (this.running) return 0;
+
+    this.running = this.runDue(now).finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  private async runDue(now: Date): Promise<number> {
+    const { errorType, leaseMs, batchSize } = this.options;
+
+    try {
+      await this.options.beforeClaim?.(now);
+    } catch (error) {
+      logger.error({ type: errorType, err: error }, `${this.options.name}: failed to prepare the claim`);
+    }
+
+    let due: T[];
+    try {
+      due = await this.options.claimDue(this.instanceId, now, leaseMs, batchSize);
+    } catch (error) {
+      logger.error({ type: errorType, err: error }, `${this.options.name}: failed to claim due items`);
+      return 0;
+    }
+
+    let total = 0;
+    for (const item of due) {
+      try {
+        total += await this.options.handle(item, this.instanceId, now);
+      } catch (error) {
+        logger.error({ type: errorType, err: error }, `${this.options.name}: failed to handle a claimed item`);
+      }
+    }
+    return total;
+  }
+}
+
+/**
+ * Start a runner with the server and stop it on close
+ */
+export function registerLeaseRunner<T>(fastify: FastifyInstance, runner: LeaseRunner<T>): void {
+  runner.start();
+  fastify.addHook('onClose', async () => {
+    await runner.stop();
+  });
+  fastify.log.info(`${runner.name}: instance ${runner.instanceId}`);
+}
@@ -0,0 +1,115 @@
+import { metricRegistry, type MetricFormat } from '../config/metrics.config.js';
+import { ValidationError } from '../errors/app-error.js';
+import type { FormulaNode } from './formula/ast.js';
+import { collectReferences, parseFormula } from './formula/parser.js';
+import { typeCheck } from './formula/type-checker.js';
+
+/**
+ * Custom metrics - user-defined calculated metrics (stored in `custom_metric`)
+ *
+ * Unlike catalog metrics they only exist in the queries that request them
+ * (`metrics=` on /balance, /list and /list/export) and may only reference
+ * base metrics of the active catalog and their last year values.
+ */
+
+/**
+ * Response field prefix: custom metrics never collide with catalog fields
+ */
+export const CUSTOM_METRIC_PREFIX = 'custom_';
+
+/**
+ * Maximum custom metrics requested by a single query
+ */
+export const MAX_CUSTOM_METRICS_PER_QUERY = 10;
+
+const CUSTOM_METRIC_KEY_REGEX = /^[a-z][a-z0-9_]{0,47}$/;
+
+/**
+ * Custom metric compiled against the active catalog (see MetricCalculator)
+ */
+export interface CompiledCustomMetric {
+  /** Response field: custom_<key> */
+  name: string;
+  /** Referenced base metrics ({sales}, {sales_last_year}...) */
+  dependencies: readonly string[];
+  formula: FormulaNode;
+  nullable: boolean;
+}
+
+/**
+ * Custom metric resolved for a query, with the display metadata the export needs
+ */
+export interface ResolvedCustomMetric extends CompiledCustomMetric {
+  key: string;
+  label: string;
+  format: MetricFormat;
+}
+
+export function customMetricField(key: string): string {
+  return `${CUSTOM_METRIC_PREFIX}${key}`;
+}
+
+/**
+ * @throws ValidationError unless the key is lowercase snake_case (max 48 chars)
+ */
+export function validateCustomMetricKey(key: string): void {
+  if (!CUSTOM_METRIC_KEY_REGEX.test(key)) {
+    throw new ValidationError(
+      `Invalid custom metric key "${key}": use lowercase letters, digits and "_", starting with a letter (max 48)`
+    );
+  }
+}
+
+/**
+ * Compile a custom metric formula
+ *
+ * @throws FormulaError on syntax/type errors or references to anything other
+ *   than a base metric or its _last_year value
+ * @throws ValidationError on an invalid key or a formula returning a condition
+ */
+export function compileCustomMetric(key: string, formula: string): CompiledCustomMetric {
+  validateCustomMetricKey(key);
+
+  const references = new Map(
+    metricRegistry.getBaseMetrics().flatMap((metric) => [
+      [metric.alias, { nullable: false }] as const,
+      [`${metric.alias}_last_year`, { nullable: false }] as const,
+    ])
+  );
+
+  const node = parseFormula(formula);
+  const type = typeCheck(
+    node,
+    formula,
+    references,
+    (name) => `Unknown metric {${name}}, use a base metric or its _last_year value`
+  );
+  if (type.type !== 'number') {
+    throw new ValidationError('Formula must return a number, got a condition');
+  }
+
+  return {
+    name: customMetricField(key),
+    dependencies: [...collectReferences(node)],
+    formula: node,
+    nullable: type.nullable,
+  };
+}
+
+/**
+ * Parse the `metrics` query parameter: comma-separated custom metric keys
+ *
+ * @example parseCustomMetricKeys('cartera_ratio,rappel_margin') // ['cartera_ratio', 'rappel_margin']
+ * @throws ValidationError on invalid keys or more than MAX_CUSTOM_METRICS_PER_QUERY
+ */
+export function parseCustomMetricKeys(value: unknown): string[] {
+  const raw = Array.isArray(value) ? value.join(',') : typeof value === 'string' ? value : '';
+  const keys = [...new Set(raw.split(',').map((key) => key.trim()).filter(Boolean))];
+
+  if (keys.length > MAX_CUSTOM_METRICS_PER_QUERY) {
+    throw new ValidationError(`At most ${MAX_CUSTOM_METRICS_PER_QUERY} custom metrics per query`);
+  }
+  keys.forEach(validateCustomMetricKey);
+
+  return keys;
+}
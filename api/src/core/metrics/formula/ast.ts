@@ -0,0 +1,108 @@
+import { ValidationError } from '../../errors/app-error.js';
+
+/**
+ * Formula language - tokens, syntax tree and errors
+ *
+ * Calculated metric formulas are a small expression language, not SQL:
+ *
+ *   if({budget} != 0, ({sales} + {orders}) / {budget} * 100, 0)
+ *
+ * - Numbers, NULL, {placeholder} references to other metrics
+ * - Arithmetic: + - * / and unary minus
+ * - Comparisons: = != <> < <= > >=
+ * - Logic: AND, OR, NOT
+ * - Functions listed in FORMULA_FUNCTIONS (functions.ts)
+ *
+ * Pipeline: tokenize → parse → typeCheck → generateSql
+ */
+
+export type TokenType =
+  | 'number'
+  | 'placeholder'
+  | 'identifier'
+  | 'operator'
+  | 'comma'
+  | 'lparen'
+  | 'rparen'
+  | 'eof';
+
+export interface Token {
+  type: TokenType;
+  /** Source text (placeholder name without braces) */
+  value: string;
+  /** 0-based offset in the formula */
+  position: number;
+  /** Length in the formula (e.g. `{sales}` is 7) */
+  length: number;
+}
+
+export type ArithmeticOperator = '+' | '-' | '*' | '/';
+export type ComparisonOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+export type LogicalOperator = 'AND' | 'OR';
+export type BinaryOperator = ArithmeticOperator | ComparisonOperator | LogicalOperator;
+
+interface BaseNode {
+  /** 0-based offset of the node's first token */
+  position: number;
+  /** Length of the node's source text */
+  length: number;
+}
+
+export interface NumberNode extends BaseNode {
+  kind: 'number';
+  /** Literal as written (digits and optional decimals) */
+  value: string;
+}
+
+export interface NullNode extends BaseNode {
+  kind: 'null';
+}
+
+export interface ReferenceNode extends BaseNode {
+  kind: 'reference';
+  /** Referenced metric ({sales} → sales) */
+  name: string;
+}
+
+export interface UnaryNode extends BaseNode {
+  kind: 'unary';
+  operator: '-' | 'NOT';
+  operand: FormulaNode;
+}
+
+export interface BinaryNode extends BaseNode {
+  kind: 'binary';
+  operator: BinaryOperator;
+  left: FormulaNode;
+  right: FormulaNode;
+}
+
+export interface CallNode extends BaseNode {
+  kind: 'call';
+  /** Canonical function name (see FORMULA_FUNCTIONS) */
+  name: string;
+  args: FormulaNode[];
+}
+
+export type FormulaNode = NumberNode | NullNode | ReferenceNode | UnaryNode | BinaryNode | CallNode;
+
+/**
+ * Invalid formula (400)
+ *
+ * The message names the offending token and its 1-based column, e.g.
+ * `Unknown function "sleep" at column 1`. `excerpt` underlines it:
+ *
+ *   sleep(3) + {sales}
+ *   ^^^^^
+ */
+export class FormulaError extends ValidationError {
+  readonly column: number;
+  readonly excerpt: string;
+
+  constructor(message: string, formula: string, position: number, length = 1) {
+    const column = Math.min(position, formula.length) + 1;
+    super(`${message} at column ${column}`);
+    this.column = column;
+    this.excerpt = `${formula}\n${' '.repeat(column - 1)}${'^'.repeat(Math.max(length, 1))}`;
+  }
+}
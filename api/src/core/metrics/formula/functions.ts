@@ -0,0 +1,125 @@
+import type { FormulaNode } from './ast.js';
+
+export type ValueType = 'number' | 'boolean';
+
+/**
+ * Function signature, used by the type checker and the SQL generator
+ */
+export interface FormulaFunction {
+  /** Canonical (ClickHouse) name */
+  name: string;
+  /** Parameter types; with `variadic`, the last one repeats */
+  params: readonly ValueType[];
+  minArgs: number;
+  variadic?: boolean;
+  returns: ValueType;
+  /**
+   * When the result may be NULL: if any argument may be ('any'), always,
+   * never, or if one of the listed arguments may be
+   */
+  nullable: 'any' | 'always' | 'never' | readonly number[];
+  /** Arguments that must be integer literals (e.g. round() precision) */
+  literalArgs?: readonly number[];
+  /** Rewrite into other nodes before generating SQL (not a ClickHouse function) */
+  expand?: (args: FormulaNode[], position: number, length: number) => FormulaNode;
+}
+
+/**
+ * Functions a formula may call (case-insensitive)
+ */
+export const FORMULA_FUNCTIONS: Readonly<Record<string, FormulaFunction>> = {
+  if: {
+    name: 'if',
+    params: ['boolean', 'number', 'number'],
+    minArgs: 3,
+    returns: 'number',
+    nullable: [1, 2],
+  },
+  nullif: {
+    name: 'nullIf',
+    params: ['number', 'number'],
+    minArgs: 2,
+    returns: 'number',
+    nullable: 'always',
+  },
+  ifnull: {
+    name: 'ifNull',
+    params: ['number', 'number'],
+    minArgs: 2,
+    returns: 'number',
+    nullable: [1],
+  },
+  isnull: {
+    name: 'isNull',
+    params: ['number'],
+    minArgs: 1,
+    returns: 'boolean',
+    nullable: 'never',
+  },
+  isnotnull: {
+    name: 'isNotNull',
+    params: ['number'],
+    minArgs: 1,
+    returns: 'boolean',
+    nullable: 'never',
+  },
+  round: {
+    name: 'round',
+    params: ['number', 'number'],
+    minArgs: 1,
+    returns: 'number',
+    nullable: [0],
+    literalArgs: [1],
+  },
+  abs: { name: 'abs', params: ['number'], minArgs: 1, returns: 'number', nullable: 'any' },
+  floor: { name: 'floor', params: ['number'], minArgs: 1, returns: 'number', nullable: 'any' },
+  ceil: { name: 'ceil', params: ['number'], minArgs: 1, returns: 'number', nullable: 'any' },
+  greatest: {
+    name: 'greatest',
+    params: ['number', 'number'],
+    minArgs: 2,
+    variadic: true,
+    returns: 'number',
+    nullable: 'any',
+  },
+  least: {
+    name: 'least',
+    params: ['number', 'number'],
+    minArgs: 2,
+    variadic: true,
+    returns: 'number',
+    nullable: 'any',
+  },
+  /**
+   * safeDiv(a, b[, fallback]) → if(b != 0, a / b, fallback), fallback defaults to 0
+   */
+  safediv: {
+    name: 'safeDiv',
+    params: ['number', 'number', 'number'],
+    minArgs: 2,
+    returns: 'number',
+    nullable: 'any',
+    expand: ([numerator, denominator, fallback], position, length) => ({
+      kind: 'call',
+      name: 'if',
+      position,
+      length,
+      args: [
+        {
+          kind: 'binary',
+          operator: '!=',
+          left: denominator!,
+          right: { kind: 'number', value: '0', position, length },
+          position,
+          length,
+        },
+        { kind: 'binary', operator: '/', left: numerator!, right: denominator!, position, length },
+        fallback ?? { kind: 'number', value: '0', position, length },
+      ],
+    }),
+  },
+};
+
+export function findFunction(name: string): FormulaFunction | undefined {
+  return FORMULA_FUNCTIONS[name.toLowerCase()];
+}
@@ -0,0 +1,81 @@
+import { FormulaError, type Token } from './ast.js';
+
+const NUMBER_REGEX = /^\d+(\.\d+)?/;
+const IDENTIFIER_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*/;
+const PLACEHOLDER_REGEX = /^\{([a-zA-Z_][a-zA-Z0-9_]*)\}/;
+
+/** Longest first, so `<=` is not read as `<` `=` */
+const OPERATORS = ['!=', '<>', '<=', '>=', '+', '-', '*', '/', '=', '<', '>'];
+
+/**
+ * Split a formula into tokens
+ *
+ * Anything that is not a number, placeholder, identifier, operator, comma or
+ * parenthesis is rejected here (quotes, semicolons, comments...).
+ *
+ * @throws FormulaError pointing at the first invalid character
+ */
+export function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < formula.length) {
+    const rest = formula.slice(position);
+    const char = rest[0]!;
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    const number = NUMBER_REGEX.exec(rest);
+    if (number) {
+      if (IDENTIFIER_REGEX.test(rest.slice(number[0].length))) {
+        throw new FormulaError(`Invalid number "${number[0]}"`, formula, position, number[0].length + 1);
+      }
+      tokens.push({ type: 'number', value: number[0], position, length: number[0].length });
+      position += number[0].length;
+      continue;
+    }
+
+    const placeholder = PLACEHOLDER_REGEX.exec(rest);
+    if (placeholder) {
+      tokens.push({ type: 'placeholder', value: placeholder[1]!, position, length: placeholder[0].length });
+      position += placeholder[0].length;
+      continue;
+    }
+    if (char === '{') {
+      const end = rest.indexOf('}');
+      throw new FormulaError('Invalid placeholder', formula, position, end === -1 ? 1 : end + 1);
+    }
+
+    const identifier = IDENTIFIER_REGEX.exec(rest);
+    if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0], position, length: identifier[0].length });
+      position += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => rest.startsWith(op));
+    if (operator) {
+      if ((operator === '-' && rest.startsWith('--')) || (operator === '/' && rest.startsWith('/*'))) {
+        throw new FormulaError('Comments are not allowed', formula, position, 2);
+      }
+      tokens.push({ type: 'operator', value: operator, position, length: operator.length });
+      position += operator.length;
+      continue;
+    }
+
+    const punctuation = char === ',' ? 'comma' : char === '(' ? 'lparen' : char === ')' ? 'rparen' : null;
+    if (punctuation) {
+      tokens.push({ type: punctuation, value: char, position, length: 1 });
+      position++;
+      continue;
+    }
+
+    throw new FormulaError(`Unexpected character "${char}"`, formula, position);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: formula.length, length: 1 });
+  return tokens;
+}
@@ -0,0 +1,276 @@
+import {
+  FormulaError,
+  type BinaryOperator,
+  type ComparisonOperator,
+  type FormulaNode,
+  type Token,
+} from './ast.js';
+import { findFunction } from './functions.js';
+import { tokenize } from './lexer.js';
+
+const COMPARISON_OPERATORS: Readonly<Record<string, ComparisonOperator>> = {
+  '=': '=',
+  '!=': '!=',
+  '<>': '!=',
+  '<': '<',
+  '<=': '<=',
+  '>': '>',
+  '>=': '>=',
+};
+
+/**
+ * Parse a formula into a syntax tree
+ *
+ * Grammar (lowest precedence first):
+ *
+ *   or         := and (OR and)*
+ *   and        := not (AND not)*
+ *   not        := NOT not | comparison
+ *   comparison := additive (('=' | '!=' | '<>' | '<' | '<=' | '>' | '>=') additive)?
+ *   additive   := term (('+' | '-') term)*
+ *   term       := unary (('*' | '/') unary)*
+ *   unary      := '-' unary | primary
+ *   primary    := number | NULL | {placeholder} | function '(' args ')' | '(' or ')'
+ *
+ * @throws FormulaError pointing at the offending token
+ */
+export function parseFormula(formula: string): FormulaNode {
+  return new Parser(formula, tokenize(formula)).parse();
+}
+
+/**
+ * Metrics referenced by a formula ({placeholder} names)
+ */
+export function collectReferences(node: FormulaNode, references = new Set<string>()): Set<string> {
+  switch (node.kind) {
+    case 'reference':
+      references.add(node.name);
+      break;
+    case 'unary':
+      collectReferences(node.operand, references);
+      break;
+    case 'binary':
+      collectReferences(node.left, references);
+      collectReferences(node.right, references);
+      break;
+    case 'call':
+      node.args.forEach((arg) => collectReferences(arg, references));
+      break;
+  }
+  return references;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly formula: string,
+    private readonly tokens: Token[]
+  ) {}
+
+  parse(): FormulaNode {
+    if (this.peek().type === 'eof') {
+      throw this.error('Formula is empty', this.peek());
+    }
+
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw this.error(`Unexpected ${describeToken(next)}`, next);
+    }
+    return node;
+  }
+
+  private parseOr(): FormulaNode {
+    return this.parseLogical('OR', () => this.parseAnd());
+  }
+
+  private parseAnd(): FormulaNode {
+    return this.parseLogical('AND', () => this.parseNot());
+  }
+
+  private parseLogical(operator: 'AND' | 'OR', operand: () => FormulaNode): FormulaNode {
+    let left = operand();
+    while (this.isKeyword(this.peek(), operator)) {
+      this.advance();
+      left = this.binary(operator, left, operand());
+    }
+    return left;
+  }
+
+  private parseNot(): FormulaNode {
+    const token = this.peek();
+    if (this.isKeyword(token, 'NOT')) {
+      this.advance();
+      return this.unary('NOT', token, this.parseNot());
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): FormulaNode {
+    const left = this.parseAdditive();
+    const token = this.peek();
+    const operator = token.type === 'operator' ? COMPARISON_OPERATORS[token.value] : undefined;
+    if (!operator) {
+      return left;
+    }
+
+    this.advance();
+    const node = this.binary(operator, left, this.parseAdditive());
+
+    const next = this.peek();
+    if (next.type === 'operator' && COMPARISON_OPERATORS[next.value]) {
+      throw this.error(`Unexpected ${describeToken(next)}: comparisons cannot be chained`, next);
+    }
+    return node;
+  }
+
+  private parseAdditive(): FormulaNode {
+    let left = this.parseTerm();
+    while (this.isOperator(this.peek(), '+', '-')) {
+      const operator = this.advance().value as '+' | '-';
+      left = this.binary(operator, left, this.parseTerm());
+    }
+    return left;
+  }
+
+  private parseTerm(): FormulaNode {
+    let left = this.parseUnary();
+    while (this.isOperator(this.peek(), '*', '/')) {
+      const operator = this.advance().value as '*' | '/';
+      left = this.binary(operator, left, this.parseUnary());
+    }
+    return left;
+  }
+
+  private parseUnary(): FormulaNode {
+    const token = this.peek();
+    if (this.isOperator(token, '-')) {
+      this.advance();
+      return this.unary('-', token, this.parseUnary());
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.advance();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'number', value: token.value, position: token.position, length: token.length };
+
+      case 'placeholder':
+        return { kind: 'reference', name: token.value, position: token.position, length: token.length };
+
+      case 'lparen': {
+        const node = this.parseOr();
+        this.expect('rparen', '")"', token);
+        return node;
+      }
+
+      case 'identifier':
+        if (this.isKeyword(token, 'NULL')) {
+          return { kind: 'null', position: token.position, length: token.length };
+        }
+        if (this.isKeyword(token, 'AND') || this.isKeyword(token, 'OR') || this.isKeyword(token, 'NOT')) {
+          throw this.error(`Unexpected ${describeToken(token)}`, token);
+        }
+        return this.parseCall(token);
+
+      default:
+        throw this.error(`Unexpected ${describeToken(token)}`, token);
+    }
+  }
+
+  private parseCall(nameToken: Token): FormulaNode {
+    const fn = findFunction(nameToken.value);
+    if (!fn) {
+      throw this.error(`Unknown function "${nameToken.value}"`, nameToken);
+    }
+
+    const open = this.peek();
+    if (open.type !== 'lparen') {
+      throw this.error(`Expected "(" after ${fn.name}`, open);
+    }
+    this.advance();
+
+    const args: FormulaNode[] = [];
+    if (this.peek().type !== 'rparen') {
+      args.push(this.parseOr());
+      while (this.peek().type === 'comma') {
+        this.advance();
+        args.push(this.parseOr());
+      }
+    }
+    this.expect('rparen', `"," or ")" in ${fn.name}()`, open);
+
+    return { kind: 'call', name: fn.name, args, ...this.span(nameToken) };
+  }
+
+  private binary(operator: BinaryOperator, left: FormulaNode, right: FormulaNode): FormulaNode {
+    return {
+      kind: 'binary',
+      operator,
+      left,
+      right,
+      position: left.position,
+      length: right.position + right.length - left.position,
+    };
+  }
+
+  private unary(operator: '-' | 'NOT', token: Token, operand: FormulaNode): FormulaNode {
+    return { kind: 'unary', operator, operand, ...this.span(token) };
+  }
+
+  /**
+   * Source span from a token to the last consumed token
+   */
+  private span(start: Token): { position: number; length: number } {
+    const last = this.tokens[this.index - 1]!;
+    return { position: start.position, length: last.position + last.length - start.position };
+  }
+
+  private expect(type: Token['type'], expected: string, opening: Token): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      const unclosed = token.type === 'eof' ? ` (opened at column ${opening.position + 1})` : '';
+      throw this.error(`Expected ${expected} but found ${describeToken(token)}${unclosed}`, token);
+    }
+    return this.advance();
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]!;
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.index]!;
+    if (token.type !== 'eof') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private isOperator(token: Token, ...operators: string[]): boolean {
+    return token.type === 'operator' && operators.includes(token.value);
+  }
+
+  private isKeyword(token: Token, keyword: 'AND' | 'OR' | 'NOT' | 'NULL'): boolean {
+    return token.type === 'identifier' && token.value.toUpperCase() === keyword;
+  }
+
+  private error(message: string, token: Token): FormulaError {
+    return new FormulaError(message, this.formula, token.position, token.length);
+  }
+}
+
+function describeToken(token: Token): string {
+  switch (token.type) {
+    case 'eof':
+      return 'end of formula';
+    case 'placeholder':
+      return `"{${token.value}}"`;
+    default:
+      return `"${token.value}"`;
+  }
+}
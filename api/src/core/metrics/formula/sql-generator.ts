@@ -0,0 +1,89 @@
+import type { BinaryOperator, FormulaNode } from './ast.js';
+import { findFunction } from './functions.js';
+
+/**
+ * Operator precedence, higher binds tighter (same order as ClickHouse)
+ */
+const PRECEDENCE: Readonly<Record<BinaryOperator, number>> = {
+  OR: 1,
+  AND: 2,
+  '=': 4,
+  '!=': 4,
+  '<': 4,
+  '<=': 4,
+  '>': 4,
+  '>=': 4,
+  '+': 5,
+  '-': 5,
+  '*': 6,
+  '/': 6,
+};
+const NOT_PRECEDENCE = 3;
+const UNARY_MINUS_PRECEDENCE = 7;
+const PRIMARY_PRECEDENCE = 8;
+
+/**
+ * Generate the ClickHouse expression of a type-checked formula
+ *
+ * Only the syntax tree is emitted: numbers as parsed, NULL, operators and
+ * allowlisted function names. Placeholders become whatever `resolve`
+ * returns (CTE column references built by MetricCalculator), so formula
+ * text never reaches the query.
+ *
+ * @param resolve - SQL for a {placeholder}
+ */
+export function generateSql(node: FormulaNode, resolve: (name: string) => string): string {
+  const emit = (n: FormulaNode): string => {
+    switch (n.kind) {
+      case 'number':
+        return n.value;
+
+      case 'null':
+        return 'NULL';
+
+      case 'reference':
+        return resolve(n.name);
+
+      case 'unary':
+        return n.operator === 'NOT'
+          ? `NOT ${wrap(n.operand, n.operand.kind === 'binary' ? Infinity : NOT_PRECEDENCE)}`
+          : `-${wrap(n.operand, n.operand.kind === 'unary' ? Infinity : UNARY_MINUS_PRECEDENCE)}`;
+
+      case 'binary': {
+        const precedence = PRECEDENCE[n.operator];
+        // Left-associative: only a looser left side needs parentheses,
+        // an equal right side does too (a - (b - c))
+        return `${wrap(n.left, precedence)} ${n.operator} ${wrap(n.right, precedence + 1)}`;
+      }
+
+      case 'call': {
+        const fn = findFunction(n.name)!;
+        if (fn.expand) {
+          return emit(fn.expand(n.args, n.position, n.length));
+        }
+        return `${fn.name}(${n.args.map(emit).join(', ')})`;
+      }
+    }
+  };
+
+  /**
+   * Emit a sub-expression, in parentheses if it binds looser than `minPrecedence`
+   */
+  const wrap = (n: FormulaNode, minPrecedence: number): string => {
+    const sql = emit(n);
+    return precedenceOf(n) < minPrecedence ? `(${sql})` : sql;
+  };
+
+  return emit(node);
+}
+
+function precedenceOf(node: FormulaNode): number {
+  switch (node.kind) {
+    case 'binary':
+      return PRECEDENCE[node.operator];
+    case 'unary':
+      return node.operator === 'NOT' ? NOT_PRECEDENCE : UNARY_MINUS_PRECEDENCE;
+    default:
+      return PRIMARY_PRECEDENCE;
+  }
+}
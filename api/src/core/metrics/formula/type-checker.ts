@@ -0,0 +1,117 @@
+import { FormulaError, type FormulaNode } from './ast.js';
+import { findFunction, type ValueType } from './functions.js';
+
+/**
+ * Type of an expression. `null` is the NULL literal, which fits any type.
+ */
+export interface FormulaType {
+  type: ValueType | 'null';
+  /** The value may be NULL at runtime */
+  nullable: boolean;
+}
+
+/**
+ * Metrics a formula may reference, with whether each may be NULL
+ */
+export type ReferenceTypes = ReadonlyMap<string, { nullable: boolean }>;
+
+/**
+ * Type-check a parsed formula
+ *
+ * - Arithmetic and comparisons take numbers, AND/OR/NOT take conditions
+ * - Function arguments match FORMULA_FUNCTIONS signatures
+ * - {placeholders} must be in `references`
+ * - NULL cannot be used in arithmetic or compared with `=` (always NULL)
+ *
+ * @param unknownReference - Error message for a placeholder missing from `references`
+ * @returns Type of the formula (a metric formula must return a number)
+ * @throws FormulaError pointing at the offending expression
+ */
+export function typeCheck(
+  node: FormulaNode,
+  formula: string,
+  references: ReferenceTypes,
+  unknownReference = (name: string) => `{${name}} is not a declared dependency`
+): FormulaType {
+  const check = (n: FormulaNode): FormulaType => {
+    switch (n.kind) {
+      case 'number':
+        return { type: 'number', nullable: false };
+
+      case 'null':
+        return { type: 'null', nullable: true };
+
+      case 'reference': {
+        const reference = references.get(n.name);
+        if (!reference) {
+          throw error(unknownReference(n.name), n);
+        }
+        return { type: 'number', nullable: reference.nullable };
+      }
+
+      case 'unary': {
+        const expected = n.operator === 'NOT' ? 'boolean' : 'number';
+        const operand = expect(n.operand, expected, `Operand of ${n.operator}`);
+        return { type: expected, nullable: operand.nullable };
+      }
+
+      case 'binary': {
+        if (n.operator === 'AND' || n.operator === 'OR') {
+          const left = expect(n.left, 'boolean', `Left side of ${n.operator}`);
+          const right = expect(n.right, 'boolean', `Right side of ${n.operator}`);
+          return { type: 'boolean', nullable: left.nullable || right.nullable };
+        }
+
+        for (const side of [n.left, n.right]) {
+          if (side.kind === 'null') {
+            throw n.operator === '=' || n.operator === '!='
+              ? error('Comparing with NULL is always NULL, use isNull() or isNotNull()', side)
+              : error(`NULL in "${n.operator}" always yields NULL`, side);
+          }
+        }
+        const left = expect(n.left, 'number', `Left side of "${n.operator}"`);
+        const right = expect(n.right, 'number', `Right side of "${n.operator}"`);
+        const isArithmetic = ['+', '-', '*', '/'].includes(n.operator);
+        return { type: isArithmetic ? 'number' : 'boolean', nullable: left.nullable || right.nullable };
+      }
+
+      case 'call': {
+        const fn = findFunction(n.name)!;
+        const maxArgs = fn.variadic ? Infinity : fn.params.length;
+        if (n.args.length < fn.minArgs || n.args.length > maxArgs) {
+          const count = fn.minArgs === maxArgs
+            ? `${fn.minArgs}`
+            : maxArgs === Infinity ? `at least ${fn.minArgs}` : `${fn.minArgs} to ${maxArgs}`;
+          throw error(`${fn.name}() takes ${count} argument${count === '1' ? '' : 's'}, got ${n.args.length}`, n);
+        }
+
+        const argTypes = n.args.map((arg, i) => {
+          if (fn.literalArgs?.includes(i) && (arg.kind !== 'number' || arg.value.includes('.'))) {
+            throw error(`Argument ${i + 1} of ${fn.name}() must be an integer`, arg);
+          }
+          const type = fn.params[Math.min(i, fn.params.length - 1)]!;
+          return expect(arg, type, `Argument ${i + 1} of ${fn.name}()`);
+        });
+
+        const nullable = fn.nullable === 'always'
+          || (fn.nullable === 'any' && argTypes.some((t) => t.nullable))
+          || (Array.isArray(fn.nullable) && fn.nullable.some((i) => argTypes[i]?.nullable === true));
+        return { type: fn.returns, nullable };
+      }
+    }
+  };
+
+  const expect = (n: FormulaNode, expected: ValueType, subject: string): FormulaType => {
+    const actual = check(n);
+    if (actual.type !== expected && actual.type !== 'null') {
+      const name = (t: ValueType) => (t === 'boolean' ? 'a condition' : 'a number');
+      throw error(`${subject} must be ${name(expected)}, got ${name(actual.type)}`, n);
+    }
+    return actual;
+  };
+
+  const error = (message: string, n: FormulaNode) =>
+    new FormulaError(message, formula, n.position, n.length);
+
+  return check(node);
+}
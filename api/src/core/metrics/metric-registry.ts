@@ -0,0 +1,249 @@
+import type {
+  BaseMetricDefinition,
+  CalculatedMetricDefinition,
+  HeatmapThresholds,
+  MetricFormat,
+} from '../config/metrics.config.js';
+import type { MetricConfig } from '../db/clickhouse/query/types.js';
+import { ValidationError } from '../errors/app-error.js';
+import type { FormulaNode } from './formula/ast.js';
+import { collectReferences, parseFormula } from './formula/parser.js';
+import { typeCheck } from './formula/type-checker.js';
+
+/**
+ * A complete, validated set of metric definitions
+ */
+export interface MetricCatalog {
+  /** Published version (0 = built-in catalog) */
+  version: number;
+  /** ISO timestamp of the publish, null for the built-in catalog */
+  publishedAt: string | null;
+  baseMetrics: readonly BaseMetricDefinition[];
+  calculatedMetrics: readonly CalculatedMetricDefinition[];
+}
+
+/**
+ * Aggregations a base metric may use
+ */
+export const METRIC_AGGREGATIONS: readonly MetricConfig['aggregation'][] = ['sum', 'avg', 'count', 'min', 'max', 'uniqExact'];
+
+export const METRIC_FORMATS: readonly MetricFormat[] = ['currency', 'percent', 'number'];
+
+const IDENTIFIER_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Parsed formulas of a catalog, by calculated metric name
+ */
+export type ParsedFormulas = ReadonlyMap<string, FormulaNode>;
+
+/**
+ * Registry of the active metric catalog
+ *
+ * Read synchronously by the query builders, response builder and schemas.
+ * A catalog is validated before it becomes active: an invalid one never
+ * replaces the current catalog.
+ */
+export class MetricRegistry {
+  private catalog: MetricCatalog;
+  private formulas: ParsedFormulas;
+
+  constructor(catalog: MetricCatalog) {
+    this.formulas = validateMetricCatalog(catalog);
+    this.catalog = catalog;
+  }
+
+  getVersion(): number {
+    return this.catalog.version;
+  }
+
+  getBaseMetrics(): readonly BaseMetricDefinition[] {
+    return this.catalog.baseMetrics;
+  }
+
+  getCalculatedMetrics(): readonly CalculatedMetricDefinition[] {
+    return this.catalog.calculatedMetrics;
+  }
+
+  getCatalog(): MetricCatalog {
+    return this.catalog;
+  }
+
+  /**
+   * Parsed formula of a calculated metric (see formula/sql-generator.ts)
+   */
+  getFormula(name: string): FormulaNode | undefined {
+    return this.formulas.get(name);
+  }
+
+  /**
+   * Activate a catalog
+   * @throws ValidationError if the catalog is invalid (current one is kept)
+   */
+  replace(catalog: MetricCatalog): void {
+    this.formulas = validateMetricCatalog(catalog);
+    this.catalog = catalog;
+  }
+}
+
+/**
+ * Validate a catalog: names, aggregations, display metadata, formulas,
+ * dependencies and dependency cycles
+ *
+ * @returns The parsed formulas
+ * @throws ValidationError listing every problem found
+ */
+export function validateMetricCatalog(
+  catalog: Pick<MetricCatalog, 'baseMetrics' | 'calculatedMetrics'>
+): ParsedFormulas {
+  const errors: string[] = [];
+  const formulas = new Map<string, FormulaNode>();
+  const responseFields = new Set<string>();
+  // Names a formula may reference: base metric, its last year value, calculated metric
+  const referenceable = new Set<string>();
+
+  for (const metric of catalog.baseMetrics) {
+    const name = `Base metric "${metric.alias}"`;
+
+    for (const [key, value] of [['alias', metric.alias], ['table', metric.table], ['field', metric.field]] as const) {
+      if (!IDENTIFIER_REGEX.test(value)) {
+        errors.push(`${name}: invalid ${key} "${value}"`);
+      }
+    }
+    if (!METRIC_AGGREGATIONS.includes(metric.aggregation)) {
+      errors.push(`${name}: invalid aggregation "${metric.aggregation}"`);
+    }
+    errors.push(...validateDisplay(name, metric));
+
+    for (const field of [metric.alias, `${metric.alias}_last_year`, `${metric.alias}_vs_last_year`]) {
+      if (responseFields.has(field)) {
+        errors.push(`${name}: duplicate response field "${field}"`);
+      }
+      responseFields.add(field);
+    }
+    referenceable.add(metric.alias);
+    referenceable.add(`${metric.alias}_last_year`);
+  }
+
+  for (const metric of catalog.calculatedMetrics) {
+    if (responseFields.has(metric.name)) {
+      errors.push(`Calculated metric "${metric.name}": duplicate response field`);
+    }
+    responseFields.add(metric.name);
+    referenceable.add(metric.name);
+  }
+
+  const nullableMetrics = new Set(catalog.calculatedMetrics.filter((m) => m.nullable === true).map((m) => m.name));
+
+  for (const metric of catalog.calculatedMetrics) {
+    const name = `Calculated metric "${metric.name}"`;
+
+    if (!IDENTIFIER_REGEX.test(metric.name)) {
+      errors.push(`${name}: invalid name`);
+    }
+    errors.push(...validateDisplay(name, metric));
+
+    try {
+      formulas.set(metric.name, checkFormula(metric, nullableMetrics));
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      errors.push(`${name}: ${error.message}`);
+    }
+
+    for (const dependency of metric.dependencies) {
+      if (!referenceable.has(dependency)) {
+        errors.push(`${name}: unknown dependency "${dependency}"`);
+      }
+    }
+  }
+
+  errors.push(...findDependencyCycles(catalog.calculatedMetrics));
+
+  if (errors.length > 0) {
+    throw new ValidationError(`Invalid metric catalog: ${errors[0]}`, errors);
+  }
+
+  return formulas;
+}
+
+function validateDisplay(name: string, metric: BaseMetricDefinition | CalculatedMetricDefinition): string[] {
+  const errors: string[] = [];
+
+  if (typeof metric.label !== 'string' || metric.label.trim() === '') {
+    errors.push(`${name}: label is required`);
+  }
+  if (!METRIC_FORMATS.includes(metric.format)) {
+    errors.push(`${name}: invalid format "${metric.format}"`);
+  }
+  if (metric.heatmap && !isDescending(metric.heatmap)) {
+    errors.push(`${name}: heatmap thresholds must be numbers with excellent >= good >= neutral >= warning`);
+  }
+
+  return errors;
+}
+
+function isDescending({ excellent, good, neutral, warning }: HeatmapThresholds): boolean {
+  const values = warning === undefined ? [excellent, good, neutral] : [excellent, good, neutral, warning];
+  return values.every((v, i) => Number.isFinite(v) && (i === 0 || v <= values[i - 1]!));
+}
+
+/**
+ * Parse and type-check a formula against its declared dependencies
+ *
+ * @param nullableMetrics - Calculated metrics that may be NULL
+ * @throws FormulaError on syntax or type errors
+ * @throws ValidationError on unused dependencies, or a formula that may
+ *   return NULL without `nullable`
+ */
+function checkFormula(metric: CalculatedMetricDefinition, nullableMetrics: ReadonlySet<string>): FormulaNode {
+  const formula = parseFormula(metric.formula);
+  const references = new Map(
+    metric.dependencies.map((dependency) => [dependency, { nullable: nullableMetrics.has(dependency) }])
+  );
+  const type = typeCheck(formula, metric.formula, references);
+
+  const used = collectReferences(formula);
+  const unused = metric.dependencies.find((dependency) => !used.has(dependency));
+  if (unused) {
+    throw new ValidationError(`Dependency "${unused}" is not used in the formula`);
+  }
+  if (type.type !== 'number') {
+    throw new ValidationError('Formula must return a number, got a condition');
+  }
+  if (type.nullable && metric.nullable !== true) {
+    throw new ValidationError('Formula may return NULL, set nullable: true');
+  }
+
+  return formula;
+}
+
+/**
+ * Detect cycles between calculated metrics (a → b → a)
+ */
+function findDependencyCycles(metrics: readonly CalculatedMetricDefinition[]): string[] {
+  const byName = new Map(metrics.map((m) => [m.name, m]));
+  const done = new Set<string>();
+  const errors: string[] = [];
+
+  const visit = (name: string, path: string[]): void => {
+    if (done.has(name)) return;
+
+    const start = path.indexOf(name);
+    if (start !== -1) {
+      errors.push(`Dependency cycle: ${[...path.slice(start), name].join(' -> ')}`);
+      return;
+    }
+
+    for (const dependency of byName.get(name)?.dependencies ?? []) {
+      if (byName.has(dependency)) {
+        visit(dependency, [...path, name]);
+      }
+    }
+    done.add(name);
+  };
+
+  for (const metric of metrics) {
+    visit(metric.name, []);
+  }
+
+  return errors;
+}
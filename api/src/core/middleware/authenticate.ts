@@ -4,7 +4,8 @@ import { auth } from '../auth/auth.js';
 /**
  * Authentication middleware
  *
- * Verifies JWT token and attaches user to request
+ * Verifies the session (Bearer token, or the session cookie sent by the web
+ * app) and attaches user to request
  * Returns 401 if token is invalid or missing
  */
 export async function authenticate(
@@ -12,21 +13,26 @@ export async function authenticate(
   reply: FastifyReply
 ): Promise<void> {
   try {
-    // Get token from Authorization header
+    // Session credentials: Bearer token or session cookie
     const authHeader = request.headers.authorization;
+    const token = authHeader?.startsWith('Bearer ') ? authHeader.replace('Bearer ', '') : undefined;
+    const cookieHeader = request.headers.cookie;
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if (!token && !cookieHeader) {
       return reply.status(401).send({
         error: 'Missing or invalid authorization header',
       });
     }
 
-    const token = authHeader.replace('Bearer ', '');
+    // Verify session with Better Auth (Bearer token first, else session cookie)
+    const headers = new Headers();
+    if (token) {
+      headers.set('authorization', `Bearer ${token}`);
+    } else if (cookieHeader) {
+      headers.set('cookie', cookieHeader);
+    }
 
-    // Verify session with Better Auth
-    const session = await auth.api.getSession({
-      headers: new Headers({ authorization: `Bearer ${token}` }),
-    });
+    const session = await auth.api.getSession({ headers });
 
     if (!session || !session.user) {
       return reply.status(401).send({
@@ -52,6 +58,8 @@ declare module 'fastify' {
       email: string;
       name?: string;
       role?: string;
+      /** Dyna profile role (SSO users); drives data scoping */
+      dynaRole?: string | null;
       emailVerified: boolean;
     };
   }
@@ -0,0 +1,124 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import type { FilterCondition } from '../db/clickhouse/query/filter-builder.js';
+import { roleAccessService } from '../auth/role-access.service.js';
+import { userEntitlementService } from '../auth/user-entitlement.service.js';
+import { parseDynamicFilters, querystringParams } from '../utils/filter-parser.js';
+import { ForbiddenError, UnauthorizedError } from '../errors/app-error.js';
+
+/**
+ * Build the mandatory filter conditions for role data filters or user entitlements
+ *
+ * @param dataFilters - Field → allowed values (role_data_filter or user_data_entitlement)
+ * @returns Scope conditions (empty for full access)
+ */
+export function getScopeFilters(dataFilters: Partial<Record<string, string[]>>): FilterCondition[] {
+  return Object.entries(dataFilters).flatMap(([field, values]): FilterCondition[] => {
+    if (!values) return [];
+    return [values.length === 1
+      ? { field, operator: 'eq', value: values[0]! }
+      : { field, operator: 'in', value: values }];
+  });
+}
+
+/**
+ * Reject user filters that try to widen or replace the scope
+ *
+ * A filter on a scoped field is only accepted when it selects values inside
+ * the scope (e.g. the web app still sends `channel=DISTRIBUCION`); any other
+ * operator or value on that field is an override attempt.
+ *
+ * @param filters - Filters parsed from the request query
+ * @param scopeFilters - Mandatory scope conditions
+ * @throws ForbiddenError on an override attempt
+ */
+export function assertScopeNotOverridden(
+  filters: FilterCondition[],
+  scopeFilters: FilterCondition[]
+): void {
+  for (const scope of scopeFilters) {
+    const allowed = Array.isArray(scope.value) ? scope.value : [scope.value];
+
+    for (const filter of filters) {
+      if (filter.field !== scope.field) continue;
+
+      const values = Array.isArray(filter.value) ? filter.value : [filter.value];
+      const withinScope = (filter.operator === 'eq' || filter.operator === 'in')
+        && values.every((v) => allowed.includes(v));
+
+      if (!withinScope) {
+        throw new ForbiddenError(`Filter on '${scope.field}' is not allowed for your role`);
+      }
+    }
+  }
+}
+
+/**
+ * Resolve a user's data scope: the mandatory conditions of their `dynaRole`
+ * plus their own entitlements (regional, seller, provider)
+ *
+ * The entitlements are not checked against `filters`: the conditions are
+ * AND-ed, so user filters are intersected with them.
+ *
+ * @param filters - Filters the user asked for (checked against the role scope)
+ * @throws ForbiddenError when the role is not defined or a filter overrides its scope
+ */
+export async function resolveUserDataScope(
+  user: { id: string; dynaRole?: string | null | undefined },
+  filters: FilterCondition[] = []
+): Promise<FilterCondition[]> {
+  const access = await roleAccessService.getRoleAccess(user.dynaRole);
+
+  if (!access) {
+    throw new ForbiddenError('Access denied');
+  }
+
+  const roleScope = getScopeFilters(access.dataFilters);
+  assertScopeNotOverridden(filters, roleScope);
+
+  const entitlements = await userEntitlementService.getEntitlements(user.id);
+
+  return [...roleScope, ...getScopeFilters(entitlements)];
+}
+
+/**
+ * Data scope middleware
+ *
+ * Resolves the session user's data scope (see resolveUserDataScope): 403 when
+ * the role is not defined or the query params try to override it (the params
+ * of the route's querystring schema are not filters).
+ * Everything is attached to `request.dataScope` for the query builders.
+ * Must be used AFTER authenticate middleware
+ *
+ * @example
+ * ```ts
+ * fastify.get('/balance',
+ *   { preHandler: [authenticate, resolveDataScope] },
+ *   handler
+ * );
+ * ```
+ */
+export async function resolveDataScope(
+  request: FastifyRequest,
+  _reply: FastifyReply
+): Promise<void> {
+  const user = request.user;
+
+  if (!user) {
+    throw new UnauthorizedError('Authentication required');
+  }
+
+  request.dataScope = await resolveUserDataScope(
+    user,
+    parseDynamicFilters(
+      request.query as Record<string, unknown>,
+      querystringParams(request.routeOptions.schema?.querystring)
+    )
+  );
+}
+
+// Extend Fastify types to include the resolved data scope
+declare module 'fastify' {
+  interface FastifyRequest {
+    dataScope?: FilterCondition[];
+  }
+}
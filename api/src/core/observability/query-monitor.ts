@@ -0,0 +1,215 @@
+import { logger } from '../logger/logger.js';
+
+/**
+ * One ClickHouse query as run by the API
+ */
+export interface QueryRecord {
+  /** ClickHouse query_id (system.query_log) */
+  queryId: string;
+  /** Short, stable label of the caller (e.g. "grouped", "qube6") */
+  kind: string;
+  /** HTTP request that ran the query (null for background jobs) */
+  requestId: string | null;
+  startedAt: string;
+  elapsedMs: number;
+  /** Rows / bytes read by ClickHouse, from the X-ClickHouse-Summary header */
+  readRows: number | null;
+  readBytes: number | null;
+  /** Rows returned (null for failed queries) */
+  resultRows: number | null;
+  error: string | null;
+  /** SQL, whitespace collapsed and truncated to SQL_PREVIEW_LENGTH */
+  sql: string;
+}
+
+/**
+ * Totals of the queries of one kind since the process started
+ */
+export interface QueryKindStats {
+  kind: string;
+  count: number;
+  errors: number;
+  slow: number;
+  totalMs: number;
+  maxMs: number;
+  readRows: number;
+  readBytes: number;
+}
+
+/**
+ * Upper bounds (seconds) of the query duration histogram
+ */
+export const QUERY_DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const SQL_PREVIEW_LENGTH = 2000;
+
+interface KindCounters extends QueryKindStats {
+  /** Non-cumulative count per QUERY_DURATION_BUCKETS bound (+Inf last) */
+  buckets: number[];
+}
+
+/**
+ * Query observations of this process: structured logs, a rolling buffer of
+ * the slowest-running queries and per-kind counters (Prometheus format)
+ */
+export class QueryMonitor {
+  private slow: QueryRecord[] = [];
+  private kinds = new Map<string, KindCounters>();
+
+  constructor(
+    private slowThresholdMs = 1000,
+    private slowLogSize = 100
+  ) {}
+
+  /**
+   * Apply the environment settings
+   */
+  configure({ slowThresholdMs, slowLogSize }: { slowThresholdMs: number; slowLogSize: number }): void {
+    this.slowThresholdMs = slowThresholdMs;
+    this.slowLogSize = slowLogSize;
+    this.slow = this.slow.slice(-slowLogSize);
+  }
+
+  get slowQueryThresholdMs(): number {
+    return this.slowThresholdMs;
+  }
+
+  record(query: QueryRecord): void {
+    const record = { ...query, sql: previewSql(query.sql) };
+    const isSlow = record.elapsedMs >= this.slowThresholdMs;
+
+    const counters = this.counters(record.kind);
+    counters.count++;
+    counters.totalMs += record.elapsedMs;
+    counters.maxMs = Math.max(counters.maxMs, record.elapsedMs);
+    counters.readRows += record.readRows ?? 0;
+    counters.readBytes += record.readBytes ?? 0;
+    if (record.error !== null) counters.errors++;
+    if (isSlow) counters.slow++;
+    const bucket = QUERY_DURATION_BUCKETS.findIndex((bound) => record.elapsedMs <= bound * 1000);
+    counters.buckets[bucket === -1 ? QUERY_DURATION_BUCKETS.length : bucket]!++;
+
+    if (isSlow) {
+      this.slow.push(record);
+      if (this.slow.length > this.slowLogSize) this.slow.shift();
+    }
+
+    const entry = {
+      type: 'db_query',
+      queryId: record.queryId,
+      kind: record.kind,
+      reqId: record.requestId,
+      duration_ms: record.elapsedMs,
+      read_rows: record.readRows,
+      read_bytes: record.readBytes,
+      result_rows: record.resultRows,
+      slow: isSlow,
+      ...(record.error !== null && { error: record.error }),
+    };
+    if (record.error !== null || isSlow) {
+      logger.warn({ ...entry, ...(isSlow && { sql: record.sql }) }, isSlow ? 'Slow ClickHouse query' : 'ClickHouse query failed');
+    } else {
+      logger.debug(entry, 'ClickHouse query executed');
+    }
+  }
+
+  /**
+   * Slow queries still in the buffer, newest first
+   */
+  slowQueries(): QueryRecord[] {
+    return [...this.slow].reverse();
+  }
+
+  /**
+   * Totals per kind, by total time spent (descending)
+   */
+  stats(): QueryKindStats[] {
+    return [...this.kinds.values()]
+      .map(({ buckets: _buckets, ...stats }) => stats)
+      .sort((a, b) => b.totalMs - a.totalMs);
+  }
+
+  /**
+   * Counters in the Prometheus text exposition format
+   */
+  renderPrometheus(): string {
+    const kinds = [...this.kinds.values()].sort((a, b) => a.kind.localeCompare(b.kind));
+    const lines: string[] = [];
+
+    const metric = (name: string, type: 'counter' | 'histogram', help: string, samples: string[]) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...samples);
+    };
+
+    metric('clickhouse_queries_total', 'counter', 'ClickHouse queries run by the API, by kind and outcome', kinds.flatMap((k) => [
+      `clickhouse_queries_total{kind="${escapeLabel(k.kind)}",status="ok"} ${k.count - k.errors}`,
+      `clickhouse_queries_total{kind="${escapeLabel(k.kind)}",status="error"} ${k.errors}`,
+    ]));
+
+    metric('clickhouse_query_duration_seconds', 'histogram', 'Elapsed time of the ClickHouse queries, as seen by the API', kinds.flatMap((k) => {
+      const label = escapeLabel(k.kind);
+      let cumulative = 0;
+      const buckets = QUERY_DURATION_BUCKETS.map((bound, i) => {
+        cumulative += k.buckets[i]!;
+        return `clickhouse_query_duration_seconds_bucket{kind="${label}",le="${bound}"} ${cumulative}`;
+      });
+      return [
+        ...buckets,
+        `clickhouse_query_duration_seconds_bucket{kind="${label}",le="+Inf"} ${k.count}`,
+        `clickhouse_query_duration_seconds_sum{kind="${label}"} ${k.totalMs / 1000}`,
+        `clickhouse_query_duration_seconds_count{kind="${label}"} ${k.count}`,
+      ];
+    }));
+
+    metric('clickhouse_query_read_rows_total', 'counter', 'Rows read by ClickHouse for the queries of each kind',
+      kinds.map((k) => `clickhouse_query_read_rows_total{kind="${escapeLabel(k.kind)}"} ${k.readRows}`));
+
+    metric('clickhouse_query_read_bytes_total', 'counter', 'Bytes read by ClickHouse for the queries of each kind',
+      kinds.map((k) => `clickhouse_query_read_bytes_total{kind="${escapeLabel(k.kind)}"} ${k.readBytes}`));
+
+    metric('clickhouse_slow_queries_total', 'counter', 'Queries slower than the slow-query threshold',
+      kinds.map((k) => `clickhouse_slow_queries_total{kind="${escapeLabel(k.kind)}"} ${k.slow}`));
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Forget every observation
+   */
+  reset(): void {
+    this.slow = [];
+    this.kinds.clear();
+  }
+
+  private counters(kind: string): KindCounters {
+    let counters = this.kinds.get(kind);
+    if (!counters) {
+      counters = {
+        kind,
+        count: 0,
+        errors: 0,
+        slow: 0,
+        totalMs: 0,
+        maxMs: 0,
+        readRows: 0,
+        readBytes: 0,
+        buckets: new Array<number>(QUERY_DURATION_BUCKETS.length + 1).fill(0),
+      };
+      this.kinds.set(kind, counters);
+    }
+    return counters;
+  }
+}
+
+function previewSql(sql: string): string {
+  const collapsed = sql.replace(/\s+/g, ' ').trim();
+  return collapsed.length > SQL_PREVIEW_LENGTH ? `${collapsed.slice(0, SQL_PREVIEW_LENGTH)}…` : collapsed;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Monitor of the process (configured from the environment at startup)
+ */
+export const queryMonitor = new QueryMonitor();
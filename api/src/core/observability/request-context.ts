@@ -0,0 +1,29 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { FastifyInstance } from 'fastify';
+
+/**
+ * Context of the HTTP request being served, available to code that has no
+ * access to the request object (services, query builders)
+ */
+interface RequestContext {
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Id of the request being served (undefined outside a request, e.g. in the
+ * schedulers and the export worker)
+ */
+export function currentRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
+
+/**
+ * Run the rest of each request's lifecycle inside its context
+ */
+export function registerRequestContext(fastify: FastifyInstance): void {
+  fastify.addHook('onRequest', (request, _reply, done) => {
+    storage.run({ requestId: request.id }, done);
+  });
+}
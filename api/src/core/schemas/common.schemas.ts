@@ -73,3 +73,12 @@ export const ApiInfoResponseSchema = Type.Object({
     labels: Type.String(),
   }),
 });
+
+/**
+ * File format of a list export: styled Excel (row-capped) or a data file
+ * streamed without a row cap
+ */
+export const ExportFormatSchema = Type.Union(
+  [Type.Literal('xlsx'), Type.Literal('csv'), Type.Literal('parquet')],
+  { description: 'xlsx (default): styled workbook, capped; csv / parquet: streamed data file, no row cap' }
+);
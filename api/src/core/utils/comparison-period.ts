@@ -0,0 +1,141 @@
+import { Type, type Static } from '@sinclair/typebox';
+import type { FilterCondition } from '../db/clickhouse/query/filter-builder.js';
+import { ValidationError } from '../errors/app-error.js';
+import { combineFilters } from './filter-parser.js';
+import { addDays, epochDay, lastDayOfMonth, parseDate, shiftYears, utcDate } from './dates.js';
+
+/**
+ * Comparison periods for the YoY columns (`*_ly`) of balance/list/export.
+ *
+ * By default the current range is compared against the same range one year
+ * earlier (`previous_year`, done by the query builder). Callers may instead
+ * pick a named mode or an explicit `compareStartDate`/`compareEndDate` window.
+ */
+
+/**
+ * Named comparison modes
+ * - previous_year: same range one year earlier (default)
+ * - previous_period: range of the same length ending the day before startDate
+ * - two_years_ago: same range two years earlier
+ * - previous_month: same range one month earlier (month ends map to month ends)
+ */
+export const COMPARISON_MODES = ['previous_year', 'previous_period', 'two_years_ago', 'previous_month'] as const;
+
+export type ComparisonMode = (typeof COMPARISON_MODES)[number];
+
+export const ComparisonModeSchema = Type.Union(
+  [
+    Type.Literal('previous_year'),
+    Type.Literal('previous_period'),
+    Type.Literal('two_years_ago'),
+    Type.Literal('previous_month'),
+  ],
+  { description: 'Named comparison period (default previous_year). Ignored when compareStartDate/compareEndDate are given.' }
+);
+
+/**
+ * Resolved comparison window, echoed in response metadata
+ */
+export const ComparisonPeriodSchema = Type.Object({
+  mode: Type.Union([...ComparisonModeSchema.anyOf, Type.Literal('custom')], {
+    description: 'Named mode, or "custom" for an explicit compareStartDate/compareEndDate window',
+  }),
+  startDate: Type.String({ description: 'First day of the comparison window (YYYY-MM-DD)' }),
+  endDate: Type.String({ description: 'Last day of the comparison window (YYYY-MM-DD)' }),
+});
+
+export type ComparisonPeriod = Static<typeof ComparisonPeriodSchema>;
+
+/** Shift one month back, clamping to the month length; a month end maps to the previous month end */
+function shiftMonthBack(value: string): string {
+  const date = parseDate(value);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+  const previousLastDay = lastDayOfMonth(year, month - 1);
+  const targetDay = day === lastDayOfMonth(year, month) ? previousLastDay : Math.min(day, previousLastDay);
+  return utcDate(year, month - 1, targetDay);
+}
+
+/**
+ * Comparison window for a named mode and the current [startDate, endDate] range
+ */
+export function comparisonWindow(
+  mode: ComparisonMode,
+  startDate: string,
+  endDate: string
+): { startDate: string; endDate: string } {
+  switch (mode) {
+    case 'previous_year':
+      return { startDate: shiftYears(startDate, -1), endDate: shiftYears(endDate, -1) };
+    case 'two_years_ago':
+      return { startDate: shiftYears(startDate, -2), endDate: shiftYears(endDate, -2) };
+    case 'previous_month':
+      return { startDate: shiftMonthBack(startDate), endDate: shiftMonthBack(endDate) };
+    case 'previous_period': {
+      const length = epochDay(endDate) - epochDay(startDate);
+      return {
+        startDate: addDays(startDate, -1 - length),
+        endDate: addDays(startDate, -1),
+      };
+    }
+  }
+}
+
+/**
+ * Resolve the comparison period requested by a balance/list/export query.
+ *
+ * Explicit compareStartDate/compareEndDate win over compareMode. Named modes
+ * need both startDate and endDate; without them (open ranges) only the default
+ * year shift applies and no period is reported.
+ *
+ * @throws ValidationError for half-open or inverted comparison windows, or a
+ *         named mode without a complete current range
+ */
+export function resolveComparisonPeriod(query: {
+  startDate?: string;
+  endDate?: string;
+  compareStartDate?: string;
+  compareEndDate?: string;
+  compareMode?: ComparisonMode;
+}): ComparisonPeriod | undefined {
+  const { startDate, endDate, compareStartDate, compareEndDate, compareMode } = query;
+
+  if (compareStartDate || compareEndDate) {
+    if (!compareStartDate || !compareEndDate) {
+      throw new ValidationError('compareStartDate and compareEndDate must be provided together');
+    }
+    if (compareStartDate > compareEndDate) {
+      throw new ValidationError('compareStartDate must not be after compareEndDate');
+    }
+    return { mode: 'custom', startDate: compareStartDate, endDate: compareEndDate };
+  }
+
+  if (!startDate || !endDate) {
+    if (compareMode && compareMode !== 'previous_year') {
+      throw new ValidationError(`compareMode ${compareMode} requires startDate and endDate`);
+    }
+    return undefined;
+  }
+
+  const mode = compareMode ?? 'previous_year';
+  return { mode, ...comparisonWindow(mode, startDate, endDate) };
+}
+
+/**
+ * Comparison-period filters for the query builder: the dynamic filters plus
+ * the comparison window. Undefined for previous_year, which the builder
+ * already derives by shifting the current-period date filters.
+ */
+export function buildComparisonFilters(
+  period: ComparisonPeriod | undefined,
+  dynamicFilters: FilterCondition[]
+): FilterCondition[] | undefined {
+  if (!period || period.mode === 'previous_year') {
+    return undefined;
+  }
+  return combineFilters(dynamicFilters, [
+    { field: 'date', operator: 'gte', value: period.startDate },
+    { field: 'date', operator: 'lte', value: period.endDate },
+  ]);
+}
@@ -0,0 +1,75 @@
+import { Type } from '@sinclair/typebox';
+import { bogotaToday, parseDate, utcDate } from './dates.js';
+
+/**
+ * Server-side port of the web date-range presets
+ * (`web/src/core/utils/dateRangePresets.ts`), resolved when a saved view runs
+ * (e.g. a scheduled report) instead of when it was saved.
+ *
+ * - today: today only
+ * - current-month: from the 1st of the month to today
+ * - previous-month: the whole previous month
+ * - accumulated: from January 1st to the end of the previous month
+ * - last-30-days / last-6-months / last-12-months: rolling windows ending today
+ */
+export const DATE_PRESETS = [
+  'today',
+  'current-month',
+  'previous-month',
+  'accumulated',
+  'last-30-days',
+  'last-6-months',
+  'last-12-months',
+] as const;
+
+export type DatePreset = (typeof DATE_PRESETS)[number];
+
+export const DatePresetSchema = Type.Union(
+  DATE_PRESETS.map((preset) => Type.Literal(preset)),
+  { description: 'Date range resolved on each run: today, current-month, previous-month, accumulated, last-30-days, last-6-months or last-12-months' }
+);
+
+/**
+ * Human-readable labels (same as the web PRESET_LABELS)
+ */
+export const DATE_PRESET_LABELS: Record<DatePreset, string> = {
+  'today': 'Hoy',
+  'current-month': 'Mes actual',
+  'previous-month': 'Mes anterior',
+  'accumulated': 'Acumulado',
+  'last-30-days': 'Últimos 30 días',
+  'last-6-months': 'Últimos 6 meses',
+  'last-12-months': 'Últimos 12 meses',
+};
+
+/**
+ * Resolve a preset at an instant. "Today" is the America/Bogota day of `now`
+ * (like the web presets), so runs in the Bogota evening do not resolve to
+ * the next UTC day or month.
+ *
+ * @returns startDate and endDate (YYYY-MM-DD)
+ */
+export function resolveDatePreset(preset: DatePreset, now: Date): { startDate: string; endDate: string } {
+  const today = parseDate(bogotaToday(now));
+  const year = today.getUTCFullYear();
+  const month = today.getUTCMonth();
+  const day = today.getUTCDate();
+  const end = utcDate(year, month, day);
+
+  switch (preset) {
+    case 'today':
+      return { startDate: end, endDate: end };
+    case 'current-month':
+      return { startDate: utcDate(year, month, 1), endDate: end };
+    case 'previous-month':
+      return { startDate: utcDate(year, month - 1, 1), endDate: utcDate(year, month, 0) };
+    case 'accumulated':
+      return { startDate: utcDate(year, 0, 1), endDate: utcDate(year, month, 0) };
+    case 'last-30-days':
+      return { startDate: utcDate(year, month, day - 29), endDate: end };
+    case 'last-6-months':
+      return { startDate: utcDate(year, month - 6, day), endDate: end };
+    case 'last-12-months':
+      return { startDate: utcDate(year, month - 12, day), endDate: end };
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Calendar-day helpers on YYYY-MM-DD strings
+ *
+ * Every day is handled at UTC midnight: results never depend on the server
+ * timezone and a day is always DAY_MS long. Query filters, comparison periods,
+ * series windows, projections and pacing all shift dates through here, so
+ * they agree on leap days and month ends.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * UTC midnight of a YYYY-MM-DD date
+ */
+export function parseDate(value: string): Date {
+  return new Date(`${value}T00:00:00.000Z`);
+}
+
+/**
+ * YYYY-MM-DD of the UTC day of a date
+ */
+export function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0]!;
+}
+
+/**
+ * YYYY-MM-DD of a calendar day (month 0-based). Months and days overflow as
+ * in Date.UTC: day 0 is the last day of the previous month.
+ */
+export function utcDate(year: number, month: number, day: number): string {
+  return formatDate(new Date(Date.UTC(year, month, day)));
+}
+
+/**
+ * Date of an instant in America/Bogota (YYYY-MM-DD): the business day. The
+ * API container runs in UTC, which would start each day five hours early.
+ */
+export function bogotaToday(now: Date = new Date()): string {
+  return now.toLocaleDateString('en-CA', { timeZone: 'America/Bogota' });
+}
+
+/**
+ * Days since 1970-01-01 (differences give day counts)
+ */
+export function epochDay(value: string): number {
+  return parseDate(value).getTime() / DAY_MS;
+}
+
+/**
+ * Date shifted by a number of days (negative: earlier)
+ */
+export function addDays(value: string, days: number): string {
+  return formatDate(new Date(parseDate(value).getTime() + days * DAY_MS));
+}
+
+/**
+ * Date shifted by whole years (Feb 29 rolls over to Mar 1)
+ */
+export function shiftYears(value: string, years: number): string {
+  const date = parseDate(value);
+  date.setUTCFullYear(date.getUTCFullYear() + years);
+  return formatDate(date);
+}
+
+/**
+ * Number of days of a month (month 0-based, may overflow)
+ */
+export function lastDayOfMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Last day of the month of a date
+ */
+export function endOfMonth(value: string): string {
+  const date = parseDate(value);
+  return utcDate(date.getUTCFullYear(), date.getUTCMonth() + 1, 0);
+}
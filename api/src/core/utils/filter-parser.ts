@@ -1,23 +1,49 @@
 import type { FilterCondition } from '../db/clickhouse/query/filter-builder.js';
 
 /**
- * Reserved query parameters that should not be treated as filters
+ * Reserved query parameters that should not be treated as filters on any
+ * route. Params of a single feature belong in its querystring schema instead
+ * (see querystringParams).
  */
 const RESERVED_PARAMS = [
   'startDate', 'endDate', 'compareStartDate', 'compareEndDate', 'groupBy', 'page', 'limit', 'granularity',
-  'orderBy', 'orderDirection', 'preset', 'facturadoOnly', 'search',
-  // Excel export presentation params (never filters)
-  'reportTitle', 'periodLabel', 'generatedLabel', 'dimensionLabel', 'billingLabel',
-  'totalsLabel', 'currentYear', 'previousYear', 'hideBudgetColumns', 'hideRetainedColumn',
+  'compareMode', 'childLimit', 'orderBy', 'orderDirection', 'preset', 'facturadoOnly', 'search', 'metrics',
+  'transform', 'lastYear', 'projection',
+  // Export format and presentation params (never filters)
+  'format', 'reportTitle', 'periodLabel', 'generatedLabel', 'dimensionLabel', 'billingLabel',
+  'totalsLabel', 'currentYear', 'previousYear', 'comparisonLabel', 'hideBudgetColumns', 'hideRetainedColumn',
   'nameOverrides', 'filename',
 ];
 
+/**
+ * Whether a query parameter is reserved (never parsed as a filter)
+ */
+export function isReservedParam(name: string): boolean {
+  return RESERVED_PARAMS.includes(name);
+}
+
+/**
+ * Params declared by route querystring schemas (TypeBox objects, or the
+ * querystring of a route's options), for parseDynamicFilters
+ *
+ * @example
+ * querystringParams(MoversQueryStringSchema)
+ * // Returns: Set { 'startDate', 'endDate', 'groupBy', ..., 'trailingDays', 'zThreshold' }
+ */
+export function querystringParams(...schemas: unknown[]): ReadonlySet<string> {
+  return new Set(schemas.flatMap((schema) => {
+    const properties = (schema as { properties?: Record<string, unknown> } | undefined)?.properties;
+    return properties ? Object.keys(properties) : [];
+  }));
+}
+
 /**
  * Parse dynamic filters from query parameters
- * Accepts ANY parameter except reserved ones
+ * Accepts ANY parameter except reserved ones and the route's own params
  * NO field validation - ClickHouse will handle invalid columns
  *
  * @param query - Query parameters object
+ * @param routeParams - Params of the route's querystring schema (see querystringParams)
  * @returns Array of filter conditions
  *
  * @example
@@ -39,13 +65,14 @@ const RESERVED_PARAMS = [
  * // ]
  */
 export function parseDynamicFilters(
-  query: Record<string, unknown>
+  query: Record<string, unknown>,
+  routeParams: ReadonlySet<string> = new Set()
 ): FilterCondition[] {
   const filters: FilterCondition[] = [];
 
   for (const [field, value] of Object.entries(query)) {
-    // Skip reserved parameters
-    if (RESERVED_PARAMS.includes(field)) {
+    // Skip reserved and route parameters
+    if (RESERVED_PARAMS.includes(field) || routeParams.has(field)) {
       continue;
     }
 
@@ -0,0 +1,225 @@
+import { Type, type Static } from '@sinclair/typebox';
+import { ValidationError } from '../errors/app-error.js';
+import { COMPARISON_MODES, type ComparisonMode } from './comparison-period.js';
+import { addDays, bogotaToday, epochDay } from './dates.js';
+
+/**
+ * Day-by-day pacing of /balance/pacing: cumulative sales of a period and of
+ * its comparison periods per day index (day 1 vs day 1, day 2 vs day 2…),
+ * and the growth to date over the CLOSED days of the period.
+ *
+ * "Today" is resolved in America/Bogota — the API container runs in UTC and
+ * would otherwise close each day five hours early.
+ */
+
+/**
+ * Day alignment of the curves
+ * - business_day: day n is the n-th business day of each window. Business
+ *   days are the dates with invoiced sales (the calendar that spreads the
+ *   daily budget); the months' planned business days come from fnc_dias_ppto
+ * - calendar_day: day n is the n-th date of each window
+ */
+export const PACING_ALIGNMENTS = ['business_day', 'calendar_day'] as const;
+
+export type PacingAlignment = (typeof PACING_ALIGNMENTS)[number];
+
+export const PacingAlignmentSchema = Type.Union(
+  [Type.Literal('business_day'), Type.Literal('calendar_day')],
+  { description: 'Align the curves by business day (default) or calendar day' }
+);
+
+/**
+ * Comparison periods of a pacing request when none are given
+ */
+export const DEFAULT_PACING_COMPARISONS: readonly ComparisonMode[] = ['previous_month', 'previous_year'];
+
+/**
+ * Longest period a pacing request may cover, in days
+ */
+export const MAX_PACING_DAYS = 366;
+
+/**
+ * Comma-separated comparison modes (e.g. "previous_month,previous_year")
+ */
+export const PacingComparisonsSchema = Type.String({
+  pattern: `^(${COMPARISON_MODES.join('|')})(,(${COMPARISON_MODES.join('|')}))*$`,
+  description: `Comma-separated comparison modes. Default: ${DEFAULT_PACING_COMPARISONS.join(',')}`,
+});
+
+/**
+ * Split a compare param, dropping duplicates
+ */
+export function parsePacingComparisons(value: string | undefined): ComparisonMode[] {
+  if (!value) {
+    return [...DEFAULT_PACING_COMPARISONS];
+  }
+  return [...new Set(value.split(',').map((mode) => mode.trim()))] as ComparisonMode[];
+}
+
+/**
+ * Pacing options and today's position echoed in the response metadata
+ */
+export const PacingMetadataSchema = Type.Object({
+  align: PacingAlignmentSchema,
+  today: Type.String({ description: 'Cut-off date, America/Bogota (YYYY-MM-DD)' }),
+  closedDays: Type.Integer({ description: 'Closed day indexes of the period (the growth compares these)' }),
+  currentDay: Type.Integer({ description: 'Running day index (0 before the period, capped at its length)' }),
+  totalDays: Type.Integer({ description: 'Day indexes of the longest window' }),
+});
+
+export type PacingMetadata = Static<typeof PacingMetadataSchema>;
+
+/**
+ * Summary of one window: `current` or a comparison mode (`custom` for an
+ * explicit compareStartDate/compareEndDate window)
+ */
+export const PacingPeriodSchema = Type.Object({
+  key: Type.String(),
+  startDate: Type.String(),
+  endDate: Type.String(),
+  days: Type.Integer({ description: 'Day indexes of the window' }),
+  salesToDate: Type.Number({ description: 'Cumulative sales through the closed days of the period' }),
+  growthToDate: Type.Union([Type.Number(), Type.Null()], {
+    description: 'Growth % of the period over this window to date (null for current, before the first closed day or on a 0 base)',
+  }),
+});
+
+export type PacingPeriod = Static<typeof PacingPeriodSchema>;
+
+/**
+ * Row of the curves: the day index, the date of the period at that index
+ * (null when not known yet) and the cumulative sales of each window by key
+ * (null past the window, or past today for the period)
+ */
+export type PacingRow = Record<string, number | string | null> & { day: number; date: string | null };
+
+/**
+ * Daily sales of one window, as read from ClickHouse
+ */
+export interface PacingWindowSales {
+  key: string;
+  startDate: string;
+  endDate: string;
+  /** Sales per date (dates without sales may be missing) */
+  daily: ReadonlyMap<string, number>;
+  /** business_day only: dates with invoiced sales, ascending, and the planned business days of the months */
+  businessDays?: { days: readonly string[]; plannedDays: number };
+}
+
+/**
+ * Position of "today" within a window: fully closed days, the running day
+ * number (1-based; 0 before the window, capped at the length) and the total
+ * length.
+ */
+export function closedWindowDays(
+  startDate: string,
+  endDate: string,
+  today: string = bogotaToday()
+): { closed: number; currentDay: number; total: number } {
+  const total = epochDay(endDate) - epochDay(startDate) + 1;
+  const elapsed = epochDay(today) - epochDay(startDate);
+  const closed = Math.min(Math.max(elapsed, 0), total);
+  const currentDay = Math.min(Math.max(elapsed + 1, 0), total);
+  return { closed, currentDay, total };
+}
+
+/**
+ * Validate the period of a pacing request
+ *
+ * @throws ValidationError for inverted periods or periods over MAX_PACING_DAYS
+ */
+export function assertPacingPeriod(startDate: string, endDate: string): void {
+  if (startDate > endDate) {
+    throw new ValidationError('startDate must not be after endDate');
+  }
+  if (epochDay(endDate) - epochDay(startDate) + 1 > MAX_PACING_DAYS) {
+    throw new ValidationError(`Pacing periods cover at most ${MAX_PACING_DAYS} days`);
+  }
+}
+
+/**
+ * Dates of a window in day-index order and its number of day indexes. A
+ * business-day window reaching past its known dates (today, or a month whose
+ * data is incomplete) keeps the planned business days as its length.
+ */
+function windowDays(window: PacingWindowSales, align: PacingAlignment): { dates: readonly string[]; length: number } {
+  if (align === 'business_day') {
+    const { days, plannedDays } = window.businessDays ?? { days: [], plannedDays: 0 };
+    return { dates: days, length: Math.max(days.length, plannedDays) };
+  }
+  const length = epochDay(window.endDate) - epochDay(window.startDate) + 1;
+  return { dates: Array.from({ length }, (_, i) => addDays(window.startDate, i)), length };
+}
+
+/**
+ * Cumulative sales per day index of a window (index 0 = day 1), through its
+ * known dates
+ */
+function cumulative(window: PacingWindowSales, dates: readonly string[]): number[] {
+  let total = 0;
+  return dates.map((date) => (total += window.daily.get(date) ?? 0));
+}
+
+/**
+ * Align the period and its comparison windows by day index
+ *
+ * The period's curve stops at the running day (today's partial sales
+ * included); the growth to date compares its CLOSED days only — a partial
+ * day against a full one would always understate. A comparison window
+ * shorter than the closed days counts whole.
+ */
+export function buildPacing(config: {
+  align: PacingAlignment;
+  current: PacingWindowSales;
+  comparisons: readonly PacingWindowSales[];
+  today: string;
+}): { rows: PacingRow[]; periods: PacingPeriod[]; meta: PacingMetadata } {
+  const { align, current, comparisons, today } = config;
+
+  const currentDays = windowDays(current, align);
+  let closed: number;
+  let currentDay: number;
+  if (align === 'calendar_day') {
+    ({ closed, currentDay } = closedWindowDays(current.startDate, current.endDate, today));
+  } else {
+    // Running day: today, when it falls inside the period
+    closed = currentDays.dates.filter((date) => date < today).length;
+    const running = today >= current.startDate && today <= current.endDate ? 1 : 0;
+    currentDay = Math.min(closed + running, currentDays.length);
+  }
+
+  const currentCurve = cumulative(current, currentDays.dates.slice(0, currentDay));
+  const currentToDate = closed > 0 ? currentCurve[closed - 1] ?? 0 : 0;
+
+  const windows = [
+    { window: current, length: currentDays.length, curve: currentCurve },
+    ...comparisons.map((window) => {
+      const days = windowDays(window, align);
+      return { window, length: days.length, curve: cumulative(window, days.dates) };
+    }),
+  ];
+  const totalDays = Math.max(...windows.map((w) => w.length));
+
+  const rows = Array.from({ length: totalDays }, (_, i): PacingRow => {
+    const row: PacingRow = { day: i + 1, date: currentDays.dates[i] ?? null };
+    for (const { window, curve } of windows) {
+      row[window.key] = curve[i] ?? null;
+    }
+    return row;
+  });
+
+  const periods = windows.map(({ window, length, curve }): PacingPeriod => {
+    const isCurrent = window === current;
+    const toDate = isCurrent ? currentToDate : closed > 0 ? curve[Math.min(closed, curve.length) - 1] ?? 0 : 0;
+    return {
+      key: window.key,
+      startDate: window.startDate,
+      endDate: window.endDate,
+      days: length,
+      salesToDate: toDate,
+      growthToDate: !isCurrent && closed > 0 && toDate > 0 ? ((currentToDate - toDate) / toDate) * 100 : null,
+    };
+  });
+
+  return { rows, periods, meta: { align, today, closedDays: closed, currentDay, totalDays } };
+}
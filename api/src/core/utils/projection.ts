@@ -0,0 +1,91 @@
+import { Type, type Static } from '@sinclair/typebox';
+import { ValidationError } from '../errors/app-error.js';
+import { endOfMonth, shiftYears } from './dates.js';
+
+/**
+ * End-of-period projections ("will we hit budget this month?").
+ *
+ * The actual to date (sales + orders) is projected to the close of the
+ * period containing endDate (the end of its month for balance/list) and
+ * compared against the full, non-prorated budget (`budget_full`).
+ */
+
+/**
+ * Projection models
+ * - linear: run-rate by business days (actual / Dias_transcurridos * Dias_habiles)
+ * - seasonal: actual scaled by last year's close / last year's same-date actual
+ *   (falls back to linear when last year has no sales to date)
+ * - smoothing: actual plus the exponentially smoothed daily sales for each
+ *   remaining business day
+ */
+export const PROJECTION_METHODS = ['linear', 'seasonal', 'smoothing'] as const;
+
+export type ProjectionMethod = (typeof PROJECTION_METHODS)[number];
+
+export const ProjectionMethodSchema = Type.Union(
+  [Type.Literal('linear'), Type.Literal('seasonal'), Type.Literal('smoothing')],
+  { description: 'Add projected_close, projected_gap and required_daily_sales using this model (requires startDate and endDate)' }
+);
+
+/**
+ * Weight of the latest day in the exponential smoothing model
+ */
+export const SMOOTHING_ALPHA = 0.3;
+
+/**
+ * Response fields added when a projection is requested
+ * - projected_close: projected actual at the close of the period
+ * - projected_gap: projected_close - budget_full (negative: budget missed)
+ * - required_daily_sales: budget still missing per remaining business day
+ *   (NULL once no business days remain)
+ */
+export const PROJECTION_FIELDS = ['projected_close', 'projected_gap', 'required_daily_sales'] as const;
+
+/**
+ * Projection echoed in response metadata
+ */
+export const ProjectionMetadataSchema = Type.Object({
+  method: ProjectionMethodSchema,
+  periodEnd: Type.String({ description: 'Close date the values are projected to (YYYY-MM-DD)' }),
+});
+
+export type ProjectionMetadata = Static<typeof ProjectionMetadataSchema>;
+
+/**
+ * Date range of a projection and its last-year counterpart (same dates one
+ * year earlier, used by the seasonal model)
+ */
+export interface ProjectionWindow {
+  startDate: string;
+  endDate: string;
+  periodEnd: string;
+  lastYear: { startDate: string; endDate: string; periodEnd: string };
+}
+
+/**
+ * Resolve the projection window of a [startDate, endDate] range
+ *
+ * @param periodEnd - Close date, a month end (default: end of endDate's month)
+ * @throws ValidationError when the range is open
+ */
+export function resolveProjectionWindow(
+  startDate: string | undefined,
+  endDate: string | undefined,
+  periodEnd?: string
+): ProjectionWindow {
+  if (!startDate || !endDate) {
+    throw new ValidationError('projection requires startDate and endDate');
+  }
+  const close = periodEnd ?? endOfMonth(endDate);
+  return {
+    startDate,
+    endDate,
+    periodEnd: close,
+    lastYear: {
+      startDate: shiftYears(startDate, -1),
+      endDate: shiftYears(endDate, -1),
+      // Month ends map to month ends (Feb 29 → Feb 28)
+      periodEnd: endOfMonth(shiftYears(`${close.slice(0, 7)}-01`, -1)),
+    },
+  };
+}
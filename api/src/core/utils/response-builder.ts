@@ -1,4 +1,6 @@
-import { BALANCE_METRICS, getAllCalculatedMetricNames } from '../config/metrics.config.js';
+import { metricRegistry } from '../config/metrics.config.js';
+import type { CompiledCustomMetric } from '../metrics/custom-metric.js';
+import { PROJECTION_FIELDS } from './projection.js';
 import type { BalanceSheetResponse } from '../../features/balance/balance.schemas.js';
 
 /**
@@ -10,16 +12,20 @@ import type { BalanceSheetResponse } from '../../features/balance/balance.schema
  * - Last year value
  * - Year-over-year variance
  * - All calculated metrics
+ * - The custom metrics requested by the query (custom_<key>)
+ * - The projection fields, when the query requested a projection
  *
  * This keeps the response structure consistent across all endpoints
  */
 export function buildDynamicResponse(
-  result: Record<string, number | null>
+  result: Record<string, number | null>,
+  customMetrics: readonly CompiledCustomMetric[] = [],
+  projected = false
 ): BalanceSheetResponse {
   const response: Record<string, number | null> = {};
 
   // Add all base metrics (current, last_year, vs_last_year)
-  for (const metric of BALANCE_METRICS) {
+  for (const metric of metricRegistry.getBaseMetrics()) {
     const alias = metric.alias;
 
     // Current period value
@@ -33,9 +39,18 @@ export function buildDynamicResponse(
   }
 
   // Add all calculated metrics (growth metrics keep null when base <= 0 → 'N/A')
-  for (const calculatedMetricName of getAllCalculatedMetricNames()) {
-    const fallback = (calculatedMetricName.endsWith('_vs_last_year') || calculatedMetricName === 'gross_margin_pct_last_year') ? null : 0;
-    response[calculatedMetricName] = result[calculatedMetricName] ?? fallback;
+  for (const calculatedMetric of metricRegistry.getCalculatedMetrics()) {
+    response[calculatedMetric.name] = result[calculatedMetric.name] ?? (calculatedMetric.nullable ? null : 0);
+  }
+
+  for (const customMetric of customMetrics) {
+    response[customMetric.name] = result[customMetric.name] ?? (customMetric.nullable ? null : 0);
+  }
+
+  if (projected) {
+    for (const field of PROJECTION_FIELDS) {
+      response[field] = result[field] ?? null;
+    }
   }
 
   return response as BalanceSheetResponse;
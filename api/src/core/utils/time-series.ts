@@ -0,0 +1,190 @@
+import { Type, type Static } from '@sinclair/typebox';
+import { ValidationError } from '../errors/app-error.js';
+import { ProjectionMetadataSchema } from './projection.js';
+import { addDays, parseDate, shiftYears, utcDate } from './dates.js';
+
+/**
+ * Time-series options of /balance/series: period size, running transforms
+ * (cumulative or rolling window) and the aligned last-year series.
+ *
+ * Transforms add up the per-period values of the base metrics, so they are
+ * only defined for additive (sum/count) metrics; calculated metrics are then
+ * evaluated on the transformed values (e.g. a year-to-date margin %).
+ */
+
+/**
+ * Metrics of a series when none are requested
+ */
+export const DEFAULT_SERIES_METRICS = ['sales', 'budget'] as const;
+
+/**
+ * Maximum number of metrics per series request
+ */
+export const MAX_SERIES_METRICS = 10;
+
+export const SERIES_GRANULARITIES = ['day', 'week', 'month', 'quarter', 'year'] as const;
+
+export type SeriesGranularity = (typeof SERIES_GRANULARITIES)[number];
+
+export const SeriesGranularitySchema = Type.Union(
+  [
+    Type.Literal('day'),
+    Type.Literal('week'),
+    Type.Literal('month'),
+    Type.Literal('quarter'),
+    Type.Literal('year'),
+  ],
+  { description: 'Period size (weeks start on Monday). Default: day' }
+);
+
+/**
+ * Running transforms
+ * - mtd / ytd: cumulative, reset at the start of each month / year
+ * - rolling_<n>d: sum of the last n days (day granularity)
+ * - rolling_<n>m: sum of the last n months (month granularity)
+ */
+export const SERIES_TRANSFORMS = ['mtd', 'ytd', 'rolling_7d', 'rolling_30d', 'rolling_90d', 'rolling_3m', 'rolling_12m'] as const;
+
+export type SeriesTransform = (typeof SERIES_TRANSFORMS)[number];
+
+export const SeriesTransformSchema = Type.Union(
+  [
+    Type.Literal('mtd'),
+    Type.Literal('ytd'),
+    Type.Literal('rolling_7d'),
+    Type.Literal('rolling_30d'),
+    Type.Literal('rolling_90d'),
+    Type.Literal('rolling_3m'),
+    Type.Literal('rolling_12m'),
+  ],
+  { description: 'Cumulative (mtd, ytd) or rolling-window transform of the values' }
+);
+
+/**
+ * Alignment of the last-year series
+ * - same_date: same calendar date one year earlier
+ * - same_weekday: 364 days earlier (same weekday, 52 weeks back)
+ */
+export const LAST_YEAR_ALIGNMENTS = ['same_date', 'same_weekday'] as const;
+
+export type LastYearAlignment = (typeof LAST_YEAR_ALIGNMENTS)[number];
+
+export const LastYearAlignmentSchema = Type.Union(
+  [Type.Literal('same_date'), Type.Literal('same_weekday')],
+  { description: 'Add <metric>_last_year values aligned by same date or same weekday' }
+);
+
+/**
+ * Comma-separated metric names (e.g. "sales,budget,gross_margin_percent")
+ */
+export const SeriesMetricsSchema = Type.String({
+  pattern: '^[A-Za-z_][A-Za-z0-9_]*(,[A-Za-z_][A-Za-z0-9_]*)*$',
+  description: `Comma-separated base or calculated metrics (max ${MAX_SERIES_METRICS}). Default: ${DEFAULT_SERIES_METRICS.join(',')}`,
+});
+
+/**
+ * Split a metrics param, dropping duplicates
+ *
+ * @throws ValidationError when more than MAX_SERIES_METRICS are requested
+ */
+export function parseSeriesMetrics(value: string | undefined): string[] {
+  if (!value) {
+    return [...DEFAULT_SERIES_METRICS];
+  }
+  const metrics = [...new Set(value.split(',').map((name) => name.trim()).filter(Boolean))];
+  if (metrics.length > MAX_SERIES_METRICS) {
+    throw new ValidationError(`At most ${MAX_SERIES_METRICS} metrics per series`);
+  }
+  return metrics;
+}
+
+/**
+ * Series options echoed in the response metadata
+ */
+export const SeriesMetadataSchema = Type.Object({
+  granularity: SeriesGranularitySchema,
+  metrics: Type.Array(Type.String(), { description: 'Metrics of each period' }),
+  transform: Type.Optional(SeriesTransformSchema),
+  lastYear: Type.Optional(LastYearAlignmentSchema),
+  projection: Type.Optional(ProjectionMetadataSchema),
+});
+
+export type SeriesMetadata = Static<typeof SeriesMetadataSchema>;
+
+/**
+ * Row of a series: the period (first day, YYYY-MM-DD) and one value per
+ * output metric (NULL where a calculated metric is undefined)
+ */
+export type SeriesRow = Record<string, number | string | null> & { period: string };
+
+/**
+ * Window of a transform, in periods of the requested granularity
+ * - rolling: the current period and the `periods - 1` before it
+ * - cumulative: every period since the start of the current `resetEvery`
+ */
+export type SeriesWindow =
+  | { kind: 'rolling'; periods: number }
+  | { kind: 'cumulative'; resetEvery: 'month' | 'year' };
+
+const TRANSFORM_WINDOWS: Readonly<Record<SeriesTransform, { window: SeriesWindow; granularities: readonly SeriesGranularity[] }>> = {
+  mtd: { window: { kind: 'cumulative', resetEvery: 'month' }, granularities: ['day'] },
+  ytd: { window: { kind: 'cumulative', resetEvery: 'year' }, granularities: ['day', 'month', 'quarter'] },
+  rolling_7d: { window: { kind: 'rolling', periods: 7 }, granularities: ['day'] },
+  rolling_30d: { window: { kind: 'rolling', periods: 30 }, granularities: ['day'] },
+  rolling_90d: { window: { kind: 'rolling', periods: 90 }, granularities: ['day'] },
+  rolling_3m: { window: { kind: 'rolling', periods: 3 }, granularities: ['month'] },
+  rolling_12m: { window: { kind: 'rolling', periods: 12 }, granularities: ['month'] },
+};
+
+/**
+ * Window of a transform at a granularity
+ *
+ * @throws ValidationError when the transform is not defined for the granularity
+ */
+export function seriesTransformWindow(transform: SeriesTransform, granularity: SeriesGranularity): SeriesWindow {
+  const { window, granularities } = TRANSFORM_WINDOWS[transform];
+  if (!granularities.includes(granularity)) {
+    throw new ValidationError(
+      `transform ${transform} requires granularity ${granularities.join(' or ')}`
+    );
+  }
+  return window;
+}
+
+/**
+ * First date to query so that the window of the first period of
+ * [startDate, …] is complete (e.g. the 1st of the month for mtd)
+ */
+export function seriesLookbackStart(transform: SeriesTransform, startDate: string): string {
+  const date = parseDate(startDate);
+  const window = TRANSFORM_WINDOWS[transform].window;
+
+  if (window.kind === 'cumulative') {
+    return window.resetEvery === 'month'
+      ? utcDate(date.getUTCFullYear(), date.getUTCMonth(), 1)
+      : utcDate(date.getUTCFullYear(), 0, 1);
+  }
+
+  // Rolling windows count days (day granularity) or months (month granularity)
+  return transform.endsWith('d')
+    ? addDays(startDate, 1 - window.periods)
+    : utcDate(date.getUTCFullYear(), date.getUTCMonth() - (window.periods - 1), 1);
+}
+
+/**
+ * Last day of the month, quarter or year containing a date (the close the
+ * projection of a series period refers to)
+ */
+export function seriesPeriodEnd(granularity: 'month' | 'quarter' | 'year', value: string): string {
+  const date = parseDate(value);
+  const months = { month: 1, quarter: 3, year: 12 }[granularity];
+  const lastMonth = Math.floor(date.getUTCMonth() / months) * months + months;
+  return utcDate(date.getUTCFullYear(), lastMonth, 0);
+}
+
+/**
+ * Last-year counterpart of a date (same_weekday: 364 days earlier)
+ */
+export function lastYearDate(alignment: LastYearAlignment, value: string): string {
+  return alignment === 'same_weekday' ? addDays(value, -364) : shiftYears(value, -1);
+}
@@ -0,0 +1,119 @@
+import type { FastifyInstance } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { authenticate } from '../../core/middleware/authenticate.js';
+import { requireSuperadmin } from '../../core/middleware/authorize.js';
+import { QUERY_CACHE_TTLS } from '../../core/config/query-cache.config.js';
+import { queryMonitor } from '../../core/observability/query-monitor.js';
+
+const CacheStatusSchema = Type.Object({
+  enabled: Type.Boolean(),
+  backend: Type.Optional(Type.Union([Type.Literal('memory'), Type.Literal('redis')])),
+  entries: Type.Optional(Type.Integer()),
+  hits: Type.Optional(Type.Integer()),
+  misses: Type.Optional(Type.Integer()),
+  dataVersion: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+  lastInvalidatedAt: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+  ttls: Type.Record(Type.String(), Type.Integer()),
+});
+
+const QueryRecordSchema = Type.Object({
+  queryId: Type.String({ description: 'ClickHouse query_id (system.query_log)' }),
+  kind: Type.String(),
+  requestId: Type.Union([Type.String(), Type.Null()]),
+  startedAt: Type.String(),
+  elapsedMs: Type.Number(),
+  readRows: Type.Union([Type.Number(), Type.Null()]),
+  readBytes: Type.Union([Type.Number(), Type.Null()]),
+  resultRows: Type.Union([Type.Integer(), Type.Null()]),
+  error: Type.Union([Type.String(), Type.Null()]),
+  sql: Type.String({ description: 'Whitespace collapsed, truncated' }),
+});
+
+const QueryKindStatsSchema = Type.Object({
+  kind: Type.String(),
+  count: Type.Integer(),
+  errors: Type.Integer(),
+  slow: Type.Integer(),
+  totalMs: Type.Number(),
+  maxMs: Type.Number(),
+  readRows: Type.Number(),
+  readBytes: Type.Number(),
+});
+
+/**
+ * Operational administration routes
+ *
+ * All routes require superadmin role
+ */
+export async function adminRoutes(fastify: FastifyInstance) {
+  // Inspect the query result cache (superadmin)
+  fastify.get(
+    '/admin/cache',
+    {
+      preHandler: [authenticate, requireSuperadmin],
+      schema: {
+        description: 'Query result cache status: backend, entries, hit/miss counters, data version and TTLs (ms)',
+        tags: ['Admin'],
+        response: {
+          200: CacheStatusSchema,
+        },
+      },
+    },
+    async (_request, reply) => {
+      if (!fastify.queryCache) {
+        return reply.send({ enabled: false, ttls: QUERY_CACHE_TTLS });
+      }
+
+      const info = await fastify.queryCache.inspect();
+      return reply.send({ enabled: true, ...info, ttls: QUERY_CACHE_TTLS });
+    }
+  );
+
+  // Purge the query result cache (superadmin)
+  fastify.delete(
+    '/admin/cache',
+    {
+      preHandler: [authenticate, requireSuperadmin],
+      schema: {
+        description: 'Remove every cached query result',
+        tags: ['Admin'],
+        response: {
+          200: Type.Object({
+            removed: Type.Integer(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const removed = fastify.queryCache ? await fastify.queryCache.purge() : 0;
+      request.log.info({ type: 'query_cache_purged', removed, userId: request.user?.id }, 'Query cache purged');
+      return reply.send({ removed });
+    }
+  );
+
+  // Slow-query log (superadmin)
+  fastify.get(
+    '/admin/queries',
+    {
+      preHandler: [authenticate, requireSuperadmin],
+      schema: {
+        description: 'ClickHouse queries of this instance: the latest slow queries (newest first) and totals per query kind since startup',
+        tags: ['Admin'],
+        response: {
+          200: Type.Object({
+            slowThresholdMs: Type.Integer(),
+            slow: Type.Array(QueryRecordSchema),
+            kinds: Type.Array(QueryKindStatsSchema),
+          }),
+        },
+      },
+    },
+    async (_request, reply) => {
+      return reply.send({
+        slowThresholdMs: queryMonitor.slowQueryThresholdMs,
+        slow: queryMonitor.slowQueries(),
+        kinds: queryMonitor.stats(),
+      });
+    }
+  );
+}
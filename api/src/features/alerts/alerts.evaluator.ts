@@ -0,0 +1,205 @@
+import type { AnalyticsQueryBuilder } from '../../core/db/clickhouse/query/analytics-query-builder.js';
+import type { AlertEvent, AlertRule } from '../../core/db/postgres/schema.js';
+import { getAllResponseFields } from '../../core/config/metrics.config.js';
+import { getFieldPair } from '../../core/config/dimension-fields.config.js';
+import { ValidationError } from '../../core/errors/app-error.js';
+import { resolveUserDataScope } from '../../core/middleware/data-scope.js';
+import { combineFilters, parseDynamicFilters } from '../../core/utils/filter-parser.js';
+import { resolveDatePreset } from '../../core/utils/date-presets.js';
+import { parseQueryParamsToFilters } from '../balance/balance.schemas.js';
+import { BalanceService } from '../balance/balance.service.js';
+import { ListService } from '../list/list.service.js';
+import { usesFacturadoOnly } from '../list/list.export.transform.js';
+import type { GroupByDimension, ListItemResponse } from '../list/list.schemas.js';
+
+export type AlertComparator = AlertRule['comparator'];
+
+/**
+ * Members of a dimension read per evaluation, most breaching first. Members
+ * past it start breaching once they are among the most extreme; the ones
+ * already in breach are re-read by id, so none is resolved by the limit.
+ */
+export const ALERT_TARGET_LIMIT = 500;
+
+/**
+ * Value of the rule metric for one target: a member of the rule dimension, or
+ * the whole scope (id '')
+ */
+export interface AlertTarget {
+  id: string;
+  name: string | null;
+  value: number | null;
+}
+
+/**
+ * Outcome of one evaluation of a rule
+ */
+export interface AlertEvaluation {
+  startDate: string;
+  endDate: string;
+  targets: AlertTarget[];
+  /** Targets over the threshold */
+  breached: AlertTarget[];
+}
+
+/**
+ * User fields needed to scope an evaluation
+ */
+export interface AlertRuleUser {
+  id: string;
+  dynaRole?: string | null | undefined;
+}
+
+/**
+ * Whether a value crosses the threshold. A missing value (e.g. a growth
+ * without last-year base) never does.
+ */
+export function isBreached(value: number | null, comparator: AlertComparator, threshold: number): boolean {
+  if (value === null || !Number.isFinite(value)) return false;
+
+  switch (comparator) {
+    case 'lt': return value < threshold;
+    case 'lte': return value <= threshold;
+    case 'gt': return value > threshold;
+    case 'gte': return value >= threshold;
+  }
+}
+
+/**
+ * @throws ValidationError if the metric is not a field of the balance response
+ */
+export function assertAlertMetric(metric: string): void {
+  if (!getAllResponseFields().includes(metric)) {
+    throw new ValidationError(`Unknown metric: ${metric}`);
+  }
+}
+
+function toValue(raw: unknown): number | null {
+  return typeof raw === 'number' && Number.isFinite(raw) ? raw : null;
+}
+
+function toTarget(item: ListItemResponse, metric: string): AlertTarget {
+  const row = item as unknown as Record<string, unknown>;
+  return { id: String(row['id']), name: String(row['name'] ?? row['id']), value: toValue(row[metric]) };
+}
+
+/**
+ * Evaluates alert rules through the analytics query builder: the balance of
+ * the rule filters, or the members of the rule dimension, over the dates of
+ * the rule preset resolved at `now`. For a dimension only the breaching
+ * members (the threshold is applied in ClickHouse) and the members in breach
+ * at the previous evaluation are read.
+ *
+ * Queries run with the owner's current data scope, as if the owner had
+ * opened the dashboard.
+ */
+export class AlertEvaluator {
+  /**
+   * @param analyticsBuilder - Unscoped builder (scoped per owner on each run)
+   */
+  constructor(private analyticsBuilder: AnalyticsQueryBuilder) {}
+
+  /**
+   * @throws ForbiddenError if the owner's role is gone or no longer allows the rule filters
+   * @throws ValidationError if the metric left the catalog
+   */
+  async evaluate(
+    rule: Pick<AlertRule, 'metric' | 'dimension' | 'filters' | 'preset' | 'comparator' | 'threshold' | 'breached'>,
+    owner: AlertRuleUser,
+    now: Date
+  ): Promise<AlertEvaluation> {
+    assertAlertMetric(rule.metric);
+
+    const dynamicFilters = parseDynamicFilters(rule.filters);
+    const scoped = this.analyticsBuilder.withScope(await resolveUserDataScope(owner, dynamicFilters));
+
+    const { startDate, endDate } = resolveDatePreset(rule.preset, now);
+    const filters = combineFilters(dynamicFilters, parseQueryParamsToFilters({ startDate, endDate }));
+    const facturadoOnly = usesFacturadoOnly(rule.preset);
+
+    let targets: AlertTarget[];
+    if (rule.dimension) {
+      const list = new ListService(scoped);
+      const groupBy = rule.dimension as GroupByDimension;
+      const breaching = await list.getBalanceListMatching({
+        groupBy,
+        filters,
+        condition: { field: rule.metric, operator: rule.comparator, value: rule.threshold },
+        limit: ALERT_TARGET_LIMIT,
+        facturadoOnly,
+      });
+      targets = breaching.map((item) => toTarget(item, rule.metric));
+
+      // Current values of the members previously in breach that are not
+      // among them: recovered, or still in breach past the limit
+      const read = new Set(targets.map((target) => target.id));
+      const previous = new Set(rule.breached.filter((id) => !read.has(id)));
+      if (previous.size > 0) {
+        const items = await list.getBalanceListMatching({
+          groupBy,
+          filters: [
+            ...filters,
+            { field: getFieldPair(groupBy).idField, operator: 'in', value: [...previous], trim: true },
+          ],
+          limit: previous.size,
+          facturadoOnly,
+        });
+        targets.push(...items.map((item) => toTarget(item, rule.metric)).filter((target) => previous.has(target.id)));
+      }
+    } else {
+      const balance = await new BalanceService(scoped).getBalanceSheet({ filters, facturadoOnly });
+      targets = [{ id: '', name: null, value: toValue((balance as Record<string, unknown>)[rule.metric]) }];
+    }
+
+    return {
+      startDate,
+      endDate,
+      targets,
+      breached: targets.filter((target) => isBreached(target.value, rule.comparator, rule.threshold)),
+    };
+  }
+}
+
+/**
+ * Breach transitions since the previous evaluation: targets that started
+ * breaching (notified) and targets that recovered. Targets still in breach
+ * are not repeated, which is what deduplicates the notifications.
+ *
+ * @param previous - Target ids in breach at the previous evaluation
+ */
+export function diffBreaches(
+  previous: readonly string[],
+  evaluation: Pick<AlertEvaluation, 'targets' | 'breached'>
+): { triggered: AlertTarget[]; resolved: AlertTarget[] } {
+  const before = new Set(previous);
+  const now = new Set(evaluation.breached.map((target) => target.id));
+  const byId = new Map(evaluation.targets.map((target) => [target.id, target]));
+
+  return {
+    triggered: evaluation.breached.filter((target) => !before.has(target.id)),
+    // A member without rows in the period is resolved with no value
+    resolved: previous
+      .filter((id) => !now.has(id))
+      .map((id) => byId.get(id) ?? { id, name: null, value: null }),
+  };
+}
+
+/**
+ * Triggered events still to email: the ones whose email failed on an earlier
+ * run (diffBreaches no longer reports them), while their target is in breach.
+ * A target that recovered and broke again is notified once, by its latest event.
+ *
+ * @param unemailed - Triggered events of the rule without email, oldest first
+ */
+export function pendingNotifications(
+  unemailed: readonly AlertEvent[],
+  evaluation: Pick<AlertEvaluation, 'breached'>
+): AlertEvent[] {
+  const now = new Set(evaluation.breached.map((target) => target.id));
+  const latest = new Map<string, AlertEvent>();
+  for (const event of unemailed) {
+    const target = event.dimensionId ?? '';
+    if (event.status === 'triggered' && now.has(target)) latest.set(target, event);
+  }
+  return [...latest.values()];
+}
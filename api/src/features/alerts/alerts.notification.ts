@@ -0,0 +1,99 @@
+import type { AlertEvent } from '../../core/db/postgres/schema.js';
+import type { EmailMessage } from '../../core/email/email-transport.js';
+import { escapeHtml } from '../../core/email/email-html.js';
+import { metricRegistry, type MetricFormat } from '../../core/config/metrics.config.js';
+import type { AlertComparator } from './alerts.evaluator.js';
+
+const COMPARATOR_SYMBOLS: Record<AlertComparator, string> = {
+  lt: '<',
+  lte: '≤',
+  gt: '>',
+  gte: '≥',
+};
+
+const currency = new Intl.NumberFormat('es-CO', { maximumFractionDigits: 0 });
+const decimal = new Intl.NumberFormat('es-CO', { maximumFractionDigits: 2 });
+
+/**
+ * Label and format of a field of the balance response: a calculated metric,
+ * a base metric, or its _last_year / _vs_last_year (growth %) variant
+ */
+export function describeAlertMetric(metric: string): { label: string; format: MetricFormat } {
+  const calculated = metricRegistry.getCalculatedMetrics().find((m) => m.name === metric);
+  if (calculated) return { label: calculated.label, format: calculated.format };
+
+  for (const base of metricRegistry.getBaseMetrics()) {
+    if (metric === base.alias) return { label: base.label, format: base.format };
+    if (metric === `${base.alias}_last_year`) return { label: `${base.label} año anterior`, format: base.format };
+    if (metric === `${base.alias}_vs_last_year`) return { label: `${base.label} vs año anterior`, format: 'percent' };
+  }
+
+  return { label: metric, format: 'number' };
+}
+
+export function formatAlertValue(value: number | null, format: MetricFormat): string {
+  if (value === null) return 'N/A';
+  if (format === 'currency') return `$ ${currency.format(value)}`;
+  if (format === 'percent') return `${decimal.format(value)}%`;
+  return decimal.format(value);
+}
+
+/**
+ * Email of the alerts triggered by one evaluation of a rule (one row per
+ * target in breach)
+ *
+ * @param appUrl - Web app URL linked from the email (alerts inbox), if known
+ */
+export function buildAlertEmail(to: string, events: AlertEvent[], appUrl?: string): EmailMessage {
+  const first = events[0]!;
+  const { label, format } = describeAlertMetric(first.metric);
+  const condition = `${label} ${COMPARATOR_SYMBOLS[first.comparator]} ${formatAlertValue(first.threshold, format)}`;
+  const subject = events.length === 1 && first.dimensionName === null
+    ? `Alerta: ${first.ruleName}`
+    : `Alerta: ${first.ruleName} (${events.length})`;
+
+  const rows = events
+    .map((event) => `
+            <tr>
+              <td style="padding: 10px 0; color: #6b7280; border-bottom: 1px solid #e5e7eb;">${escapeHtml(event.dimensionName ?? 'Total')}</td>
+              <td style="padding: 10px 0; text-align: right; font-weight: bold; color: #b91c1c; border-bottom: 1px solid #e5e7eb;">${escapeHtml(formatAlertValue(event.value, format))}</td>
+            </tr>`)
+    .join('');
+
+  const link = appUrl
+    ? `<p style="color: #6b7280; font-size: 14px;"><a href="${escapeHtml(appUrl)}" style="color: #1f2937;">Ver alertas en DynaInfo</a></p>`
+    : '';
+
+  return {
+    to,
+    subject,
+    html: `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      </head>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background: #333; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+          <h1 style="color: white; margin: 0; font-size: 28px;">DynaInfo</h1>
+        </div>
+
+        <div style="background: #f9fafb; padding: 40px 30px; border-radius: 0 0 10px 10px; border: 1px solid #e5e7eb; border-top: none;">
+          <h2 style="color: #1f2937; margin-top: 0;">${escapeHtml(first.ruleName)}</h2>
+          <p style="color: #6b7280; font-size: 16px;">${escapeHtml(condition)} · ${escapeHtml(`${first.startDate} – ${first.endDate}`)}</p>
+
+          <table style="width: 100%; border-collapse: collapse; margin: 30px 0;">${rows}
+          </table>
+
+          ${link}
+
+          <p style="color: #9ca3af; font-size: 13px; margin-top: 40px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+            Recibes este correo porque creaste esta alerta. No se repetirá mientras la condición siga activa; puedes posponerla o desactivarla en DynaInfo.
+          </p>
+        </div>
+      </body>
+    </html>
+  `,
+  };
+}
@@ -0,0 +1,275 @@
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { AlertsService } from './alerts.service.js';
+import type { AlertRuleUser } from './alerts.evaluator.js';
+import {
+  AlertRuleSchema,
+  CreateAlertRuleBodySchema,
+  UpdateAlertRuleBodySchema,
+  SnoozeAlertRuleBodySchema,
+  AlertParamsSchema,
+  AlertEventSchema,
+  AlertEventsQuerySchema,
+  type AlertEventsQuery,
+  type CreateAlertRuleBody,
+  type SnoozeAlertRuleBody,
+  type UpdateAlertRuleBody,
+} from './alerts.schemas.js';
+import { authenticate } from '../../core/middleware/authenticate.js';
+import { NotFoundError, UnauthorizedError } from '../../core/errors/app-error.js';
+
+const NotFoundSchema = Type.Object({
+  error: Type.String(),
+});
+
+/**
+ * KPI alert routes
+ *
+ * Any authenticated user defines threshold rules on metrics within their data
+ * scope and reads the resulting notifications in the in-app inbox; only the
+ * owner sees or edits a rule and its events.
+ */
+export function alertsRoutes(fastify: FastifyInstance): void {
+  const service = new AlertsService();
+
+  const sessionUser = (request: FastifyRequest): AlertRuleUser => {
+    if (!request.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+    return request.user;
+  };
+
+  // List own rules
+  fastify.get(
+    '/alerts/rules',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'List your alert rules',
+        tags: ['Alerts'],
+        response: {
+          200: Type.Object({
+            data: Type.Array(AlertRuleSchema),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const data = await service.listRules(sessionUser(request));
+      return reply.send({ data });
+    }
+  );
+
+  // Create rule
+  fastify.post(
+    '/alerts/rules',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Create an alert rule: you are notified when the metric crosses the threshold (once per breach)',
+        tags: ['Alerts'],
+        body: CreateAlertRuleBodySchema,
+        response: {
+          201: AlertRuleSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const rule = await service.createRule(sessionUser(request), request.body as CreateAlertRuleBody);
+      return reply.status(201).send(rule);
+    }
+  );
+
+  // Update own rule
+  fastify.patch(
+    '/alerts/rules/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Update, pause or resume one of your alert rules',
+        tags: ['Alerts'],
+        params: AlertParamsSchema,
+        body: UpdateAlertRuleBodySchema,
+        response: {
+          200: AlertRuleSchema,
+          404: NotFoundSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const rule = await service.updateRule(sessionUser(request), id, request.body as UpdateAlertRuleBody);
+
+      if (!rule) {
+        throw new NotFoundError('Alert rule not found');
+      }
+
+      return reply.send(rule);
+    }
+  );
+
+  // Snooze own rule
+  fastify.post(
+    '/alerts/rules/:id/snooze',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Snooze one of your alert rules until a date (null to unsnooze)',
+        tags: ['Alerts'],
+        params: AlertParamsSchema,
+        body: SnoozeAlertRuleBodySchema,
+        response: {
+          200: AlertRuleSchema,
+          404: NotFoundSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const { until } = request.body as SnoozeAlertRuleBody;
+      const rule = await service.snoozeRule(sessionUser(request), id, until === null ? null : new Date(until));
+
+      if (!rule) {
+        throw new NotFoundError('Alert rule not found');
+      }
+
+      return reply.send(rule);
+    }
+  );
+
+  // Delete own rule
+  fastify.delete(
+    '/alerts/rules/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Delete one of your alert rules and its history',
+        tags: ['Alerts'],
+        params: AlertParamsSchema,
+        response: {
+          200: Type.Object({
+            success: Type.Boolean(),
+            message: Type.String(),
+          }),
+          404: NotFoundSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const deleted = await service.deleteRule(sessionUser(request), id);
+
+      if (!deleted) {
+        throw new NotFoundError('Alert rule not found');
+      }
+
+      return reply.send({
+        success: true,
+        message: 'Alert rule deleted successfully',
+      });
+    }
+  );
+
+  // History of own rule
+  fastify.get(
+    '/alerts/rules/:id/events',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Notification history of one of your alert rules, newest first',
+        tags: ['Alerts'],
+        params: AlertParamsSchema,
+        querystring: AlertEventsQuerySchema,
+        response: {
+          200: Type.Object({
+            data: Type.Array(AlertEventSchema),
+          }),
+          404: NotFoundSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const data = await service.listRuleEvents(sessionUser(request), id, request.query as AlertEventsQuery);
+
+      if (!data) {
+        throw new NotFoundError('Alert rule not found');
+      }
+
+      return reply.send({ data });
+    }
+  );
+
+  // Inbox
+  fastify.get(
+    '/alerts/events',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Alerts inbox: latest events of your rules, newest first, plus the unread count',
+        tags: ['Alerts'],
+        querystring: AlertEventsQuerySchema,
+        response: {
+          200: Type.Object({
+            data: Type.Array(AlertEventSchema),
+            unreadCount: Type.Integer(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const inbox = await service.listEvents(sessionUser(request), request.query as AlertEventsQuery);
+      return reply.send(inbox);
+    }
+  );
+
+  // Mark every event read
+  fastify.post(
+    '/alerts/events/read',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Mark all your alerts as read',
+        tags: ['Alerts'],
+        response: {
+          200: Type.Object({
+            updated: Type.Integer(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const updated = await service.markAllRead(sessionUser(request));
+      return reply.send({ updated });
+    }
+  );
+
+  // Mark one event read
+  fastify.post(
+    '/alerts/events/:id/read',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Mark one of your alerts as read',
+        tags: ['Alerts'],
+        params: AlertParamsSchema,
+        response: {
+          200: Type.Object({
+            success: Type.Boolean(),
+          }),
+          404: NotFoundSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const marked = await service.markRead(sessionUser(request), id);
+
+      if (!marked) {
+        throw new NotFoundError('Alert not found');
+      }
+
+      return reply.send({ success: true });
+    }
+  );
+}
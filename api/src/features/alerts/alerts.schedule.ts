@@ -0,0 +1,25 @@
+import { nextRunAt } from '../report-subscriptions/report-subscriptions.schedule.js';
+
+/**
+ * Evaluation schedule of alert rules (all times UTC)
+ *
+ * - hourly: at the start of every hour
+ * - daily: every day at `hour`
+ * - weekly: Mondays at `hour`
+ */
+
+export type AlertFrequency = 'hourly' | 'daily' | 'weekly';
+
+export { DEFAULT_DELIVERY_HOUR as DEFAULT_EVALUATION_HOUR } from '../report-subscriptions/report-subscriptions.schedule.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * First scheduled evaluation strictly after a date
+ */
+export function nextEvaluationAt(frequency: AlertFrequency, hour: number, after: Date): Date {
+  if (frequency === 'hourly') {
+    return new Date((Math.floor(after.getTime() / HOUR_MS) + 1) * HOUR_MS);
+  }
+  return nextRunAt(frequency, hour, after);
+}
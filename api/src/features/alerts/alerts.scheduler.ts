@@ -0,0 +1,90 @@
+import type { AlertEvent, AlertRule } from '../../core/db/postgres/schema.js';
+import type { EmailTransport } from '../../core/email/email-transport.js';
+import { ForbiddenError } from '../../core/errors/app-error.js';
+import { LeaseRunner } from '../../core/jobs/lease-runner.js';
+import { logger } from '../../core/logger/logger.js';
+import type { AlertEvaluator } from './alerts.evaluator.js';
+import { buildAlertEmail } from './alerts.notification.js';
+import type { AlertsService } from './alerts.service.js';
+
+/**
+ * How long a claimed rule stays locked to this instance (ms)
+ */
+export const EVALUATION_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * Rules claimed per tick
+ */
+export const EVALUATION_BATCH_SIZE = 20;
+
+/**
+ * Scheduler of alert rules
+ *
+ * Its runner claims the due rules (see AlertsService.claimDue), evaluates
+ * them and emails the owner of each rule that has new breaches. The inbox
+ * keeps the events even if the email fails. An inactive owner, or one whose
+ * role no longer allows the rule filters, pauses the rule.
+ */
+export class AlertScheduler {
+  readonly runner: LeaseRunner<AlertRule>;
+
+  /**
+   * @param appUrl - Web app URL linked from the emails, if known
+   */
+  constructor(
+    private service: Pick<AlertsService, 'claimDue' | 'getOwner' | 'recordEvaluation' | 'recordFailure' | 'markEmailed'>,
+    private evaluator: Pick<AlertEvaluator, 'evaluate'>,
+    private transport: EmailTransport,
+    intervalMs: number,
+    private appUrl?: string,
+    instanceId?: string
+  ) {
+    this.runner = new LeaseRunner({
+      name: 'Alert scheduler',
+      errorType: 'alert_scheduler_error',
+      intervalMs,
+      leaseMs: EVALUATION_LEASE_MS,
+      batchSize: EVALUATION_BATCH_SIZE,
+      claimDue: (...args) => this.service.claimDue(...args),
+      handle: (rule, instanceId, now) => this.evaluate(rule, instanceId, now),
+    }, instanceId);
+  }
+
+  private async evaluate(rule: AlertRule, instanceId: string, now: Date): Promise<number> {
+    const owner = await this.service.getOwner(rule.ownerId).catch(() => null);
+    if (!owner?.isActive) {
+      await this.recordFailure(rule, instanceId, 'Owner account is inactive', now, true);
+      return 0;
+    }
+
+    let events: AlertEvent[];
+    try {
+      const evaluation = await this.evaluator.evaluate(rule, owner, now);
+      events = await this.service.recordEvaluation(rule, instanceId, evaluation, now);
+    } catch (error) {
+      logger.error({ type: 'alert_evaluation_error', err: error, ruleId: rule.id }, 'Failed to evaluate alert rule');
+      // Retrying cannot fix filters outside the owner's data scope
+      await this.recordFailure(rule, instanceId, error instanceof Error ? error.message : String(error), now, error instanceof ForbiddenError);
+      return 0;
+    }
+
+    if (events.length > 0) {
+      try {
+        await this.transport.send(buildAlertEmail(owner.email, events, this.appUrl));
+        await this.service.markEmailed(events.map((event) => event.id), now);
+      } catch (error) {
+        logger.error({ type: 'alert_email_error', err: error, ruleId: rule.id }, 'Failed to email alert');
+      }
+    }
+    return events.length;
+  }
+
+  private async recordFailure(rule: AlertRule, instanceId: string, reason: string, now: Date, pause: boolean): Promise<void> {
+    try {
+      await this.service.recordFailure(rule, instanceId, reason, now, { pause });
+    } catch (error) {
+      // The lease expires and the rule is evaluated by the next claim
+      logger.error({ type: 'alert_scheduler_error', err: error, ruleId: rule.id }, 'Failed to record alert evaluation failure');
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { Type, type Static } from '@sinclair/typebox';
+import { GroupByDimensionSchema } from '../list/list.schemas.js';
+import { DatePresetSchema } from '../../core/utils/date-presets.js';
+
+/**
+ * TypeBox schemas for KPI threshold alerts
+ */
+
+const MetricSchema = Type.String({
+  pattern: '^[a-z][a-z0-9_]*$',
+  description: 'Metric of the balance response (e.g. budget_achievement_pct, gross_margin_pct_vs_last_year)',
+});
+
+const ComparatorSchema = Type.Union(
+  [Type.Literal('lt'), Type.Literal('lte'), Type.Literal('gt'), Type.Literal('gte')],
+  { description: 'Alert when the metric is lt / lte / gt / gte the threshold' }
+);
+
+const FrequencySchema = Type.Union(
+  [Type.Literal('hourly'), Type.Literal('daily'), Type.Literal('weekly')],
+  { description: 'hourly, daily or weekly (Mondays)' }
+);
+
+const HourSchema = Type.Integer({ minimum: 0, maximum: 23, description: 'Evaluation hour (UTC) of daily and weekly rules. Default: 11 (6:00 in Colombia)' });
+
+const FiltersSchema = Type.Record(
+  Type.String({ pattern: '^[A-Za-z_][A-Za-z0-9_]*$' }),
+  Type.String({ minLength: 1 }),
+  { description: 'Dimension filters, as in the balance query (comma-separated values)' }
+);
+
+const NullableDimensionSchema = Type.Union([GroupByDimensionSchema, Type.Null()], {
+  description: 'Evaluate each member of this dimension separately (e.g. IdRegional). null: the whole scope',
+});
+
+/**
+ * Alert rule response schema
+ */
+export const AlertRuleSchema = Type.Object({
+  id: Type.String(),
+  name: Type.String(),
+  metric: Type.String(),
+  dimension: Type.Union([Type.String(), Type.Null()]),
+  filters: Type.Record(Type.String(), Type.String()),
+  preset: DatePresetSchema,
+  comparator: ComparatorSchema,
+  threshold: Type.Number(),
+  frequency: FrequencySchema,
+  hour: HourSchema,
+  active: Type.Boolean(),
+  snoozedUntil: Type.Union([Type.String(), Type.Null()]),
+  breachedCount: Type.Integer({ description: 'Targets in breach at the last evaluation' }),
+  nextRunAt: Type.String(),
+  lastEvaluatedAt: Type.Union([Type.String(), Type.Null()]),
+  lastError: Type.Union([Type.String(), Type.Null()], { description: 'Error of the last failed evaluation' }),
+  createdAt: Type.String(),
+  updatedAt: Type.String(),
+});
+
+/**
+ * Create alert rule body schema
+ */
+export const CreateAlertRuleBodySchema = Type.Object({
+  name: Type.String({ minLength: 1, maxLength: 100 }),
+  metric: MetricSchema,
+  dimension: Type.Optional(NullableDimensionSchema),
+  filters: Type.Optional(FiltersSchema),
+  preset: DatePresetSchema,
+  comparator: ComparatorSchema,
+  threshold: Type.Number(),
+  frequency: FrequencySchema,
+  hour: Type.Optional(HourSchema),
+});
+
+export type CreateAlertRuleBody = Static<typeof CreateAlertRuleBodySchema>;
+
+/**
+ * Update alert rule body schema
+ */
+export const UpdateAlertRuleBodySchema = Type.Object({
+  name: Type.Optional(Type.String({ minLength: 1, maxLength: 100 })),
+  metric: Type.Optional(MetricSchema),
+  dimension: Type.Optional(NullableDimensionSchema),
+  filters: Type.Optional(FiltersSchema),
+  preset: Type.Optional(DatePresetSchema),
+  comparator: Type.Optional(ComparatorSchema),
+  threshold: Type.Optional(Type.Number()),
+  frequency: Type.Optional(FrequencySchema),
+  hour: Type.Optional(HourSchema),
+  active: Type.Optional(Type.Boolean({ description: 'Pause or resume the evaluations' })),
+});
+
+export type UpdateAlertRuleBody = Static<typeof UpdateAlertRuleBodySchema>;
+
+/**
+ * Snooze body schema
+ */
+export const SnoozeAlertRuleBodySchema = Type.Object({
+  until: Type.Union([Type.String({ format: 'date-time' }), Type.Null()], {
+    description: 'No evaluations nor notifications until this date. null: unsnooze',
+  }),
+});
+
+export type SnoozeAlertRuleBody = Static<typeof SnoozeAlertRuleBodySchema>;
+
+export const AlertParamsSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+/**
+ * Alert event (notification history / inbox item) response schema
+ */
+export const AlertEventSchema = Type.Object({
+  id: Type.String(),
+  ruleId: Type.String(),
+  status: Type.Union([Type.Literal('triggered'), Type.Literal('resolved')]),
+  ruleName: Type.String(),
+  metric: Type.String(),
+  comparator: ComparatorSchema,
+  threshold: Type.Number(),
+  value: Type.Union([Type.Number(), Type.Null()]),
+  dimension: Type.Union([Type.String(), Type.Null()]),
+  dimensionId: Type.Union([Type.String(), Type.Null()]),
+  dimensionName: Type.Union([Type.String(), Type.Null()]),
+  startDate: Type.String(),
+  endDate: Type.String(),
+  emailedAt: Type.Union([Type.String(), Type.Null()]),
+  readAt: Type.Union([Type.String(), Type.Null()]),
+  createdAt: Type.String(),
+});
+
+/**
+ * Inbox query schema
+ */
+export const AlertEventsQuerySchema = Type.Object({
+  unread: Type.Optional(Type.Boolean({ description: 'Only unread events' })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 50 })),
+});
+
+export type AlertEventsQuery = Static<typeof AlertEventsQuerySchema>;
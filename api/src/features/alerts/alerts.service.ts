@@ -0,0 +1,469 @@
+import { and, asc, desc, eq, inArray, isNull, lt, lte, or } from 'drizzle-orm';
+import { db } from '../../core/db/postgres/client.js';
+import {
+  alertEvents,
+  alertRules,
+  users,
+  type AlertEvent,
+  type AlertRule,
+} from '../../core/db/postgres/schema.js';
+import { ValidationError } from '../../core/errors/app-error.js';
+import { resolveUserDataScope } from '../../core/middleware/data-scope.js';
+import { isReservedParam, parseDynamicFilters } from '../../core/utils/filter-parser.js';
+import { parseGroupByDimensions } from '../list/list.schemas.js';
+import {
+  assertAlertMetric,
+  diffBreaches,
+  pendingNotifications,
+  type AlertEvaluation,
+  type AlertRuleUser,
+} from './alerts.evaluator.js';
+import { DEFAULT_EVALUATION_HOUR, nextEvaluationAt } from './alerts.schedule.js';
+import type {
+  AlertEventsQuery,
+  CreateAlertRuleBody,
+  UpdateAlertRuleBody,
+} from './alerts.schemas.js';
+
+/**
+ * Owner of a rule, as needed to evaluate it and notify
+ */
+export interface AlertOwner {
+  id: string;
+  email: string;
+  isActive: boolean;
+  dynaRole: string | null;
+}
+
+/**
+ * Alert rule as returned by the API (breach state and scheduler lease are not exposed)
+ */
+export type AlertRuleResponse = Omit<AlertRule, 'ownerId' | 'breached' | 'lockedUntil' | 'lockedBy'> & {
+  breachedCount: number;
+};
+
+export type AlertEventResponse = Omit<AlertEvent, 'ownerId'>;
+
+/**
+ * Inbox page: latest events plus the unread total
+ */
+export interface AlertInbox {
+  data: AlertEventResponse[];
+  unreadCount: number;
+}
+
+/**
+ * Default size of an inbox page
+ */
+const DEFAULT_INBOX_LIMIT = 50;
+
+/**
+ * Rule fields that define the alert condition: changing any of them starts
+ * the breach state over
+ */
+const CONDITION_FIELDS = ['metric', 'dimension', 'filters', 'preset', 'comparator', 'threshold'] as const;
+
+/**
+ * Alerts service - Threshold rules on metrics (`alert_rule`), their
+ * notification history / in-app inbox (`alert_event`) and the claim/record
+ * operations of the scheduler (see alerts.scheduler.ts)
+ */
+export class AlertsService {
+  /**
+   * Own rules, ordered by name
+   */
+  async listRules(user: AlertRuleUser): Promise<AlertRuleResponse[]> {
+    const rows = await db
+      .select()
+      .from(alertRules)
+      .where(eq(alertRules.ownerId, user.id))
+      .orderBy(asc(alertRules.name));
+
+    return rows.map(toRuleResponse);
+  }
+
+  /**
+   * Create a rule for the user
+   *
+   * @throws ValidationError if the metric, dimension or filters are invalid
+   * @throws ForbiddenError if the filters override the user's data scope
+   */
+  async createRule(user: AlertRuleUser, data: CreateAlertRuleBody): Promise<AlertRuleResponse> {
+    const filters = data.filters ?? {};
+    await validateCondition(user, data.metric, data.dimension ?? null, filters);
+    const hour = data.hour ?? DEFAULT_EVALUATION_HOUR;
+
+    const [created] = await db
+      .insert(alertRules)
+      .values({
+        ownerId: user.id,
+        name: data.name,
+        metric: data.metric,
+        dimension: data.dimension ?? null,
+        filters,
+        preset: data.preset,
+        comparator: data.comparator,
+        threshold: data.threshold,
+        frequency: data.frequency,
+        hour,
+        nextRunAt: nextEvaluationAt(data.frequency, hour, new Date()),
+      })
+      .returning();
+
+    if (!created) {
+      throw new Error('Failed to create alert rule');
+    }
+
+    return toRuleResponse(created);
+  }
+
+  /**
+   * Update a rule owned by the user. A new condition starts the breach state
+   * over (current breaches are notified again); a new schedule, or resuming a
+   * paused rule, restarts it from the next scheduled evaluation.
+   *
+   * @returns The rule, or null if it does not exist or belongs to someone else
+   * @throws ValidationError if the new condition is invalid
+   */
+  async updateRule(user: AlertRuleUser, id: string, data: UpdateAlertRuleBody): Promise<AlertRuleResponse | null> {
+    const current = await this.findOwnRule(user, id);
+    if (!current) return null;
+
+    const conditionChanged = CONDITION_FIELDS.some((field) => data[field] !== undefined);
+    if (conditionChanged) {
+      await validateCondition(
+        user,
+        data.metric ?? current.metric,
+        data.dimension !== undefined ? data.dimension : current.dimension,
+        data.filters ?? current.filters
+      );
+    }
+
+    const frequency = data.frequency ?? current.frequency;
+    const hour = data.hour ?? current.hour;
+    const reschedule = frequency !== current.frequency
+      || hour !== current.hour
+      || (data.active === true && !current.active);
+
+    const [updated] = await db
+      .update(alertRules)
+      .set({
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.metric !== undefined && { metric: data.metric }),
+        ...(data.dimension !== undefined && { dimension: data.dimension }),
+        ...(data.filters !== undefined && { filters: data.filters }),
+        ...(data.preset !== undefined && { preset: data.preset }),
+        ...(data.comparator !== undefined && { comparator: data.comparator }),
+        ...(data.threshold !== undefined && { threshold: data.threshold }),
+        ...(data.active !== undefined && { active: data.active }),
+        ...(conditionChanged && { breached: [] }),
+        frequency,
+        hour,
+        ...(reschedule && { nextRunAt: nextEvaluationAt(frequency, hour, new Date()) }),
+        updatedAt: new Date(),
+      })
+      .where(eq(alertRules.id, id))
+      .returning();
+
+    return updated ? toRuleResponse(updated) : null;
+  }
+
+  /**
+   * Snooze (or unsnooze with null) a rule owned by the user: no evaluations
+   * until then. Breaches that started before the snooze are not notified
+   * again when it ends.
+   *
+   * @returns The rule, or null if it does not exist or belongs to someone else
+   */
+  async snoozeRule(user: AlertRuleUser, id: string, until: Date | null): Promise<AlertRuleResponse | null> {
+    const [updated] = await db
+      .update(alertRules)
+      .set({ snoozedUntil: until, updatedAt: new Date() })
+      .where(and(eq(alertRules.id, id), eq(alertRules.ownerId, user.id)))
+      .returning();
+
+    return updated ? toRuleResponse(updated) : null;
+  }
+
+  /**
+   * Delete a rule owned by the user (and its history)
+   */
+  async deleteRule(user: AlertRuleUser, id: string): Promise<boolean> {
+    const result = await db
+      .delete(alertRules)
+      .where(and(eq(alertRules.id, id), eq(alertRules.ownerId, user.id)))
+      .returning();
+    return result.length > 0;
+  }
+
+  /**
+   * Inbox: latest events of the user's rules, newest first
+   *
+   * @param ruleId - Only the history of this rule
+   */
+  async listEvents(user: AlertRuleUser, query: AlertEventsQuery & { ruleId?: string } = {}): Promise<AlertInbox> {
+    const conditions = [eq(alertEvents.ownerId, user.id)];
+    if (query.unread) conditions.push(isNull(alertEvents.readAt));
+    if (query.ruleId) conditions.push(eq(alertEvents.ruleId, query.ruleId));
+
+    const rows = await db
+      .select()
+      .from(alertEvents)
+      .where(and(...conditions))
+      .orderBy(desc(alertEvents.createdAt))
+      .limit(query.limit ?? DEFAULT_INBOX_LIMIT);
+
+    const [unread] = await db
+      .select({ count: db.$count(alertEvents.id) })
+      .from(alertEvents)
+      .where(and(eq(alertEvents.ownerId, user.id), isNull(alertEvents.readAt)));
+
+    return { data: rows.map(toEventResponse), unreadCount: Number(unread?.count ?? 0) };
+  }
+
+  /**
+   * History of a rule owned by the user
+   *
+   * @returns The events, or null if the rule does not exist or belongs to someone else
+   */
+  async listRuleEvents(user: AlertRuleUser, id: string, query: AlertEventsQuery = {}): Promise<AlertEventResponse[] | null> {
+    if (!(await this.findOwnRule(user, id))) return null;
+    return (await this.listEvents(user, { ...query, ruleId: id })).data;
+  }
+
+  /**
+   * Mark one event of the user as read
+   */
+  async markRead(user: AlertRuleUser, eventId: string): Promise<boolean> {
+    const result = await db
+      .update(alertEvents)
+      .set({ readAt: new Date() })
+      .where(and(eq(alertEvents.id, eventId), eq(alertEvents.ownerId, user.id)))
+      .returning({ id: alertEvents.id });
+    return result.length > 0;
+  }
+
+  /**
+   * Mark every unread event of the user as read
+   *
+   * @returns Number of events marked
+   */
+  async markAllRead(user: AlertRuleUser): Promise<number> {
+    const result = await db
+      .update(alertEvents)
+      .set({ readAt: new Date() })
+      .where(and(eq(alertEvents.ownerId, user.id), isNull(alertEvents.readAt)))
+      .returning({ id: alertEvents.id });
+    return result.length;
+  }
+
+  /**
+   * Claim the due rules for this instance (snoozed rules wait)
+   *
+   * Rows locked by another replica's claim are skipped, and a claimed row is
+   * leased until `now + leaseMs`: no other replica picks it up meanwhile.
+   */
+  async claimDue(instanceId: string, now: Date, leaseMs: number, limit: number): Promise<AlertRule[]> {
+    const due = db
+      .select({ id: alertRules.id })
+      .from(alertRules)
+      .where(and(
+        eq(alertRules.active, true),
+        lte(alertRules.nextRunAt, now),
+        or(isNull(alertRules.snoozedUntil), lte(alertRules.snoozedUntil, now)),
+        or(isNull(alertRules.lockedUntil), lt(alertRules.lockedUntil, now))
+      ))
+      .orderBy(asc(alertRules.nextRunAt))
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return db
+      .update(alertRules)
+      .set({ lockedUntil: new Date(now.getTime() + leaseMs), lockedBy: instanceId })
+      .where(inArray(alertRules.id, due))
+      .returning();
+  }
+
+  /**
+   * Owner of a rule (null if the user no longer exists)
+   */
+  async getOwner(ownerId: string): Promise<AlertOwner | null> {
+    const [owner] = await db
+      .select({ id: users.id, email: users.email, isActive: users.isActive, dynaRole: users.dynaRole })
+      .from(users)
+      .where(eq(users.id, ownerId))
+      .limit(1);
+
+    return owner ?? null;
+  }
+
+  /**
+   * Record an evaluation: an event per breach transition, the new breach
+   * state and the next evaluation. Releases the lease.
+   *
+   * @returns The triggered events to notify: the new ones and the still
+   * breaching ones not emailed yet (empty if the lease was lost)
+   */
+  async recordEvaluation(rule: AlertRule, instanceId: string, evaluation: AlertEvaluation, now: Date): Promise<AlertEvent[]> {
+    const { triggered, resolved } = diffBreaches(rule.breached, evaluation);
+
+    return db.transaction(async (tx) => {
+      const released = await tx
+        .update(alertRules)
+        .set({
+          breached: evaluation.breached.map((target) => target.id),
+          nextRunAt: nextEvaluationAt(rule.frequency, rule.hour, now),
+          lastEvaluatedAt: now,
+          lastError: null,
+          lockedUntil: null,
+          lockedBy: null,
+        })
+        .where(leasedBy(rule.id, instanceId))
+        .returning({ id: alertRules.id });
+
+      if (released.length === 0) return [];
+
+      const transitions = [
+        ...triggered.map((target) => ({ target, status: 'triggered' as const })),
+        ...resolved.map((target) => ({ target, status: 'resolved' as const })),
+      ];
+      if (transitions.length > 0) {
+        await tx
+          .insert(alertEvents)
+          .values(transitions.map(({ target, status }) => ({
+            ruleId: rule.id,
+            ownerId: rule.ownerId,
+            status,
+            ruleName: rule.name,
+            metric: rule.metric,
+            comparator: rule.comparator,
+            threshold: rule.threshold,
+            value: target.value,
+            dimension: rule.dimension,
+            dimensionId: rule.dimension ? target.id : null,
+            dimensionName: rule.dimension ? target.name : null,
+            startDate: evaluation.startDate,
+            endDate: evaluation.endDate,
+            createdAt: now,
+          })));
+      }
+
+      // The new breaches, plus the ones an earlier email failed to notify
+      const unemailed = await tx
+        .select()
+        .from(alertEvents)
+        .where(and(
+          eq(alertEvents.ruleId, rule.id),
+          eq(alertEvents.status, 'triggered'),
+          isNull(alertEvents.emailedAt)
+        ))
+        .orderBy(asc(alertEvents.createdAt));
+
+      return pendingNotifications(unemailed, evaluation);
+    });
+  }
+
+  /**
+   * Record a failed evaluation: keep the breach state, try again at the next
+   * scheduled evaluation. Releases the lease.
+   *
+   * @param options.pause - Deactivate the rule instead
+   */
+  async recordFailure(
+    rule: AlertRule,
+    instanceId: string,
+    error: string,
+    now: Date,
+    options: { pause?: boolean } = {}
+  ): Promise<void> {
+    await db
+      .update(alertRules)
+      .set({
+        nextRunAt: nextEvaluationAt(rule.frequency, rule.hour, now),
+        lastError: error,
+        ...(options.pause && { active: false }),
+        lockedUntil: null,
+        lockedBy: null,
+      })
+      .where(leasedBy(rule.id, instanceId));
+  }
+
+  /**
+   * Record the notification email of triggered events
+   */
+  async markEmailed(eventIds: string[], now: Date): Promise<void> {
+    if (eventIds.length === 0) return;
+    await db
+      .update(alertEvents)
+      .set({ emailedAt: now })
+      .where(inArray(alertEvents.id, eventIds));
+  }
+
+  private async findOwnRule(user: AlertRuleUser, id: string): Promise<AlertRule | null> {
+    const [rule] = await db
+      .select()
+      .from(alertRules)
+      .where(and(eq(alertRules.id, id), eq(alertRules.ownerId, user.id)))
+      .limit(1);
+    return rule ?? null;
+  }
+}
+
+/**
+ * A condition must target a metric of the balance response and a valid
+ * dimension, with filters within the user's data scope
+ */
+async function validateCondition(
+  user: AlertRuleUser,
+  metric: string,
+  dimension: string | null,
+  filters: Record<string, string>
+): Promise<void> {
+  assertAlertMetric(metric);
+  if (dimension !== null && parseGroupByDimensions(dimension).length !== 1) {
+    throw new ValidationError('dimension accepts a single dimension');
+  }
+
+  const reserved = Object.keys(filters).filter(isReservedParam);
+  if (reserved.length > 0) {
+    throw new ValidationError(`Not a filter: ${reserved.join(', ')}`);
+  }
+
+  await resolveUserDataScope(user, parseDynamicFilters(filters));
+}
+
+/**
+ * The rule while this instance still holds its lease (a replica whose lease
+ * expired must not overwrite the newer claim)
+ */
+function leasedBy(id: string, instanceId: string) {
+  return and(eq(alertRules.id, id), eq(alertRules.lockedBy, instanceId));
+}
+
+function toRuleResponse(row: AlertRule): AlertRuleResponse {
+  return {
+    id: row.id,
+    name: row.name,
+    metric: row.metric,
+    dimension: row.dimension,
+    filters: row.filters,
+    preset: row.preset,
+    comparator: row.comparator,
+    threshold: row.threshold,
+    frequency: row.frequency,
+    hour: row.hour,
+    active: row.active,
+    snoozedUntil: row.snoozedUntil,
+    breachedCount: row.breached.length,
+    nextRunAt: row.nextRunAt,
+    lastEvaluatedAt: row.lastEvaluatedAt,
+    lastError: row.lastError,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function toEventResponse(row: AlertEvent): AlertEventResponse {
+  const { ownerId: _ownerId, ...event } = row;
+  return event;
+}
@@ -1,17 +1,46 @@
-import type { FastifyInstance } from 'fastify';
+import type { FastifyInstance, FastifyRequest } from 'fastify';
 import type { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
 import { Type } from '@sinclair/typebox';
 import { BalanceService } from './balance.service.js';
 import { AnalyticsQueryBuilder } from '../../core/db/clickhouse/query/analytics-query-builder.js';
+import { BusinessCalendar } from '../../core/db/clickhouse/query/business-calendar.js';
+import { queryCacheFor } from '../../core/cache/query-cache.js';
 import type { DatabaseClient } from '../../core/db/clickhouse/client.js';
 import type { BalanceQueryParams } from './balance.schemas.js';
 import {
   BalanceQueryStringSchema,
-  BalanceSheetResponseSchema,
+  BalanceMetadataSchema,
+  PacingQueryStringSchema,
+  buildBalanceSheetResponseSchema,
   parseQueryParamsToFilters,
 } from './balance.schemas.js';
-import { SuccessResponseSchema, DateStringSchema } from '../../core/schemas/common.schemas.js';
-import { parseDynamicFilters, combineFilters } from '../../core/utils/filter-parser.js';
+import { DateStringSchema } from '../../core/schemas/common.schemas.js';
+import { parseDynamicFilters, combineFilters, querystringParams } from '../../core/utils/filter-parser.js';
+import { authenticate } from '../../core/middleware/authenticate.js';
+import { resolveDataScope } from '../../core/middleware/data-scope.js';
+import { CustomMetricsService } from '../custom-metrics/custom-metrics.service.js';
+import { parseCustomMetricKeys } from '../../core/metrics/custom-metric.js';
+import { resolveComparisonPeriod, buildComparisonFilters, comparisonWindow } from '../../core/utils/comparison-period.js';
+import { ProjectionMethodSchema, resolveProjectionWindow } from '../../core/utils/projection.js';
+import {
+  LastYearAlignmentSchema,
+  SeriesGranularitySchema,
+  SeriesMetadataSchema,
+  SeriesMetricsSchema,
+  SeriesTransformSchema,
+  parseSeriesMetrics,
+  seriesPeriodEnd,
+} from '../../core/utils/time-series.js';
+import {
+  PacingMetadataSchema,
+  PacingPeriodSchema,
+  assertPacingPeriod,
+  parsePacingComparisons,
+} from '../../core/utils/pacing.js';
+import { bogotaToday } from '../../core/utils/dates.js';
+
+// Params of the pacing querystring (compare, align...), never filters
+const PACING_PARAMS = querystringParams(PacingQueryStringSchema);
 
 /**
  * Register balance routes
@@ -23,9 +52,13 @@ export function balanceRoutes(
   // Use TypeBox type provider for type-safe schemas
   const server = fastify.withTypeProvider<TypeBoxTypeProvider>();
 
-  // Instantiate service with DI
-  const analyticsBuilder = new AnalyticsQueryBuilder(dbClient.getClient());
-  const service = new BalanceService(analyticsBuilder);
+  // Instantiate service with DI, bound per request to the user's data scope
+  const cache = queryCacheFor(fastify, 'balance');
+  const analyticsBuilder = new AnalyticsQueryBuilder(dbClient.getClient(), [], cache);
+  const calendar = new BusinessCalendar(dbClient.getClient(), cache);
+  const serviceFor = (request: FastifyRequest): BalanceService =>
+    new BalanceService(analyticsBuilder.withScope(request.dataScope ?? [], request.queryCacheStats), calendar);
+  const customMetricsService = new CustomMetricsService();
 
   /**
    * GET /balance
@@ -34,8 +67,16 @@ export function balanceRoutes(
    * Query params:
    * - startDate: ISO date string (optional)
    * - endDate: ISO date string (optional)
+   * - compareMode: previous_year (default) | previous_period | two_years_ago | previous_month (optional)
+   * - compareStartDate / compareEndDate: explicit comparison window (optional, overrides compareMode)
+   * - metrics: Custom metric keys (optional, comma-separated), returned as custom_<key>
+   * - projection: linear | seasonal | smoothing (optional, requires startDate and endDate);
+   *   adds projected_close, projected_gap and required_daily_sales
    * - Any other params: Dynamic filters (comma-separated for multiple values)
    *
+   * The resolved comparison window is returned in meta.comparison, the
+   * projection model and close date in meta.projection.
+   *
    * Examples:
    * - /balance?seller_id=S001
    * - /balance?seller_id=S001,S002,S003&country=españa
@@ -44,12 +85,16 @@ export function balanceRoutes(
   server.get(
     '/balance',
     {
+      preHandler: [authenticate, resolveDataScope],
       schema: {
         description: 'Get balance sheet with sales, budget, and orders data. Supports dynamic filters.',
         tags: ['balance'],
         querystring: BalanceQueryStringSchema,
         response: {
-          200: SuccessResponseSchema(BalanceSheetResponseSchema),
+          200: Type.Object({
+            data: buildBalanceSheetResponseSchema(),
+            meta: Type.Optional(BalanceMetadataSchema),
+          }),
         },
       },
     },
@@ -69,70 +114,220 @@ export function balanceRoutes(
       // Combine all filters
       const allFilters = combineFilters(dynamicFilters, dateFilters);
 
+      // Comparison window for the *_ly metrics (default: same range a year earlier)
+      const comparison = resolveComparisonPeriod(query);
+      const comparisonFilters = buildComparisonFilters(comparison, dynamicFilters);
+
       // Closed periods (facturadoOnly) exclude comprometido from budget-relative metrics
       const facturadoOnly = (query as Record<string, unknown>)['facturadoOnly'] === true
         || (query as Record<string, unknown>)['facturadoOnly'] === 'true';
 
+      // User-defined metrics requested with metrics=<key>,<key>
+      const customMetrics = await customMetricsService.resolveForQuery(
+        request.user,
+        parseCustomMetricKeys(query.metrics)
+      );
+
+      // End-of-period projection (requires a closed date range)
+      const projection = query.projection && {
+        method: query.projection,
+        periodEnd: resolveProjectionWindow(query.startDate, query.endDate).periodEnd,
+      };
+
       // Get balance with combined filters
-      const balance = await service.getBalanceSheet({ filters: allFilters, facturadoOnly });
+      const balance = await serviceFor(request).getBalanceSheet({
+        filters: allFilters,
+        ...(comparisonFilters && { comparisonFilters }),
+        facturadoOnly,
+        customMetrics,
+        ...(projection && { projection: projection.method }),
+      });
 
       return reply.code(200).send({
         data: balance,
+        ...((comparison ?? projection) && {
+          meta: {
+            ...(comparison && { comparison }),
+            ...(projection && { projection }),
+          },
+        }),
       });
     }
   );
 
   /**
    * GET /balance/series
-   * Get time-series sales data grouped by day or month
+   * Get a time series of metrics per period
    *
    * Query params:
    * - startDate: ISO date string (optional)
    * - endDate: ISO date string (optional)
-   * - granularity: 'day' | 'month' (default: 'day')
+   * - granularity: day | week | month | quarter | year (default: 'day')
+   * - metrics: Base or calculated metrics (optional, comma-separated, default: sales,budget)
+   * - transform: mtd | ytd | rolling_7d | rolling_30d | rolling_90d | rolling_3m | rolling_12m (optional,
+   *   requires startDate and endDate)
+   * - lastYear: same_date | same_weekday (optional), adds <metric>_last_year
+   * - projection: linear | seasonal | smoothing (optional, requires startDate, endDate and
+   *   granularity month, quarter or year), adds the projected close of each period
    * - Any other params: Dynamic filters (comma-separated for multiple values)
+   *
+   * Examples:
+   * - /balance/series?startDate=2026-01-01&endDate=2026-03-31&metrics=sales,budget&transform=mtd
+   * - /balance/series?startDate=2025-01-01&endDate=2026-03-31&granularity=month&transform=rolling_12m&lastYear=same_date
    */
   server.get(
     '/balance/series',
     {
+      preHandler: [authenticate, resolveDataScope],
       schema: {
-        description: 'Get time-series sales data grouped by day or month.',
+        description: 'Get a time series of base or calculated metrics per period, optionally cumulative or rolling, with an aligned last-year series.',
         tags: ['balance'],
         querystring: Type.Object(
           {
             startDate: Type.Optional(DateStringSchema),
             endDate: Type.Optional(DateStringSchema),
-            granularity: Type.Optional(Type.Union([Type.Literal('day'), Type.Literal('month')])),
+            granularity: Type.Optional(SeriesGranularitySchema),
+            metrics: Type.Optional(SeriesMetricsSchema),
+            transform: Type.Optional(SeriesTransformSchema),
+            lastYear: Type.Optional(LastYearAlignmentSchema),
+            projection: Type.Optional(ProjectionMethodSchema),
           },
           { additionalProperties: true }
         ),
         response: {
-          200: SuccessResponseSchema(
-            Type.Array(
-              Type.Object({
-                period: Type.String(),
-                sales: Type.Number(),
-                budget: Type.Number(),
-              })
-            )
-          ),
+          200: Type.Object({
+            data: Type.Array(
+              Type.Object(
+                { period: Type.String() },
+                { additionalProperties: Type.Union([Type.Number(), Type.Null()]) }
+              )
+            ),
+            meta: SeriesMetadataSchema,
+          }),
         },
       },
     },
     async (request, reply) => {
-      const query = request.query as Record<string, unknown>;
-      const granularity = (query['granularity'] as 'day' | 'month') ?? 'day';
+      const query = request.query;
+      const granularity = query.granularity ?? 'day';
+      const metrics = parseSeriesMetrics(query.metrics);
 
-      const params: BalanceQueryParams = {};
-      if (query['startDate']) params.startDate = String(query['startDate']);
-      if (query['endDate']) params.endDate = String(query['endDate']);
+      const params: BalanceQueryParams = {
+        ...(query.startDate && { startDate: query.startDate }),
+        ...(query.endDate && { endDate: query.endDate }),
+      };
       const dateFilters = parseQueryParamsToFilters(params);
       const dynamicFilters = parseDynamicFilters(query);
       const allFilters = combineFilters(dynamicFilters, dateFilters);
 
-      const series = await service.getBalanceSeries({ filters: allFilters, granularity });
+      // Close of the last period (each period is projected to its own close)
+      const projection = query.projection && {
+        method: query.projection,
+        periodEnd: seriesPeriodEnd(
+          granularity === 'quarter' || granularity === 'year' ? granularity : 'month',
+          resolveProjectionWindow(query.startDate, query.endDate).endDate
+        ),
+      };
 
-      return reply.code(200).send({ data: series });
+      const series = await serviceFor(request).getBalanceSeries({
+        filters: allFilters,
+        granularity,
+        metrics,
+        ...(query.transform && { transform: query.transform }),
+        ...(query.lastYear && { lastYear: query.lastYear }),
+        ...(projection && { projection: projection.method }),
+      });
+
+      return reply.code(200).send({
+        data: series,
+        meta: {
+          granularity,
+          metrics,
+          ...(query.transform && { transform: query.transform }),
+          ...(query.lastYear && { lastYear: query.lastYear }),
+          ...(projection && { projection }),
+        },
+      });
+    }
+  );
+
+  /**
+   * GET /balance/pacing
+   * Cumulative sales per day index of a period and its comparison periods
+   * (e.g. this month vs last month vs the same month last year)
+   *
+   * Query params:
+   * - startDate, endDate: the period (required, at most 366 days)
+   * - compare: Comparison modes (optional, comma-separated, default: previous_month,previous_year)
+   * - compareStartDate / compareEndDate: explicit comparison window (optional), added as `custom`
+   * - align: business_day (default) | calendar_day
+   * - Any other params: Dynamic filters (comma-separated for multiple values)
+   *
+   * Each row carries the day index, the period's date at that index and the
+   * cumulative sales of every window by key (`current`, the mode names,
+   * `custom`). periods[] holds the growth to date over the closed days of the
+   * period ("today" in America/Bogota, echoed with the day counts in meta).
+   *
+   * Examples:
+   * - /balance/pacing?startDate=2026-03-01&endDate=2026-03-31
+   * - /balance/pacing?startDate=2026-03-01&endDate=2026-03-31&compare=previous_year&align=calendar_day&seller_id=S001
+   */
+  server.get(
+    '/balance/pacing',
+    {
+      preHandler: [authenticate, resolveDataScope],
+      schema: {
+        description: 'Get cumulative sales per business or calendar day of a period and its comparison periods, with the growth to date over closed days.',
+        tags: ['balance'],
+        querystring: PacingQueryStringSchema,
+        response: {
+          200: Type.Object({
+            data: Type.Object({
+              days: Type.Array(
+                Type.Object(
+                  { day: Type.Integer(), date: Type.Union([Type.String(), Type.Null()]) },
+                  { additionalProperties: Type.Union([Type.Number(), Type.Null()]) }
+                )
+              ),
+              periods: Type.Array(PacingPeriodSchema),
+            }),
+            meta: PacingMetadataSchema,
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const query = request.query;
+      const { startDate, endDate } = query;
+      assertPacingPeriod(startDate, endDate);
+
+      const comparisons: Array<{ key: string; startDate: string; endDate: string }> =
+        parsePacingComparisons(query.compare).map((mode) => ({
+          key: mode,
+          ...comparisonWindow(mode, startDate, endDate),
+        }));
+      if (query.compareStartDate || query.compareEndDate) {
+        const custom = resolveComparisonPeriod({
+          ...(query.compareStartDate && { compareStartDate: query.compareStartDate }),
+          ...(query.compareEndDate && { compareEndDate: query.compareEndDate }),
+        })!;
+        assertPacingPeriod(custom.startDate, custom.endDate);
+        comparisons.push({ key: 'custom', startDate: custom.startDate, endDate: custom.endDate });
+      }
+
+      const pacing = await serviceFor(request).getPacing({
+        filters: parseDynamicFilters(query, PACING_PARAMS),
+        current: { startDate, endDate },
+        comparisons,
+        align: query.align ?? 'business_day',
+        today: bogotaToday(),
+        cacheStats: request.queryCacheStats,
+      });
+
+      return reply.code(200).send({
+        data: { days: pacing.rows, periods: pacing.periods },
+        meta: pacing.meta,
+      });
     }
   );
 }
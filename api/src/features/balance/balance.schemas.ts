@@ -2,6 +2,9 @@ import { Type, type Static } from '@sinclair/typebox';
 import { DateStringSchema } from '../../core/schemas/common.schemas.js';
 import { generateMetricsSchema } from '../../core/config/metrics.config.js';
 import type { FilterCondition } from '../../core/db/clickhouse/query/filter-builder.js';
+import { ComparisonModeSchema, ComparisonPeriodSchema } from '../../core/utils/comparison-period.js';
+import { ProjectionMetadataSchema, ProjectionMethodSchema } from '../../core/utils/projection.js';
+import { PacingAlignmentSchema, PacingComparisonsSchema } from '../../core/utils/pacing.js';
 
 /**
  * TypeBox schemas and types for balance endpoint
@@ -15,7 +18,12 @@ export const BalanceQueryStringSchema = Type.Object(
   {
     startDate: Type.Optional(DateStringSchema),
     endDate: Type.Optional(DateStringSchema),
+    compareStartDate: Type.Optional(DateStringSchema),
+    compareEndDate: Type.Optional(DateStringSchema),
+    compareMode: Type.Optional(ComparisonModeSchema),
     facturadoOnly: Type.Optional(Type.Boolean({ description: 'Closed period: exclude comprometido from budget-relative metrics' })),
+    metrics: Type.Optional(Type.String({ description: 'Comma-separated custom metric keys, returned as custom_<key> fields' })),
+    projection: Type.Optional(ProjectionMethodSchema),
   },
   {
     additionalProperties: true,
@@ -25,6 +33,21 @@ export const BalanceQueryStringSchema = Type.Object(
 
 export type BalanceQueryString = Static<typeof BalanceQueryStringSchema>;
 
+/**
+ * Query parameters for the pacing endpoint (plus dynamic filters)
+ */
+export const PacingQueryStringSchema = Type.Object(
+  {
+    startDate: DateStringSchema,
+    endDate: DateStringSchema,
+    compare: Type.Optional(PacingComparisonsSchema),
+    compareStartDate: Type.Optional(DateStringSchema),
+    compareEndDate: Type.Optional(DateStringSchema),
+    align: Type.Optional(PacingAlignmentSchema),
+  },
+  { additionalProperties: true }
+);
+
 /**
  * Query parameters interface for balance sheet
  */
@@ -35,25 +58,41 @@ export interface BalanceQueryParams {
 
 /**
  * Balance sheet response schema
- * Dynamically generated from metrics configuration
+ * Dynamically generated from the active metric catalog: build it when routes
+ * are registered (after the catalog is loaded), not at module load.
+ * additionalProperties lets metrics published later through the response.
  */
-export const BalanceSheetResponseSchema = Type.Object(
-  Object.fromEntries(
-    Object.entries(generateMetricsSchema()).map(([key, value]) => [
-      key,
-      (key.endsWith('_vs_last_year') || key === 'gross_margin_pct_last_year')
-        ? Type.Union([Type.Number(), Type.Null()], { description: value.description })
-        : Type.Number({ description: value.description }),
-    ])
-  ),
-  {
-    $id: 'BalanceSheetResponse',
-    description: 'Dynamic balance sheet response - automatically generated from metrics.config.ts',
-    additionalProperties: Type.Number(),
-  }
-);
+export function buildBalanceSheetResponseSchema() {
+  return Type.Object(
+    Object.fromEntries(
+      Object.entries(generateMetricsSchema()).map(([key, value]) => [
+        key,
+        value.nullable
+          ? Type.Union([Type.Number(), Type.Null()], { description: value.description })
+          : Type.Number({ description: value.description }),
+      ])
+    ),
+    {
+      $id: 'BalanceSheetResponse',
+      description: 'Dynamic balance sheet response - generated from the metric catalog',
+      additionalProperties: Type.Union([Type.Number(), Type.Null()]),
+    }
+  );
+}
 
-export type BalanceSheetResponse = Static<typeof BalanceSheetResponseSchema>;
+export type BalanceSheetResponse = Static<ReturnType<typeof buildBalanceSheetResponseSchema>>;
+
+/**
+ * Balance response metadata
+ * comparison is the window behind the *_ly metrics (absent for open date ranges)
+ * projection is present when projection fields were requested
+ */
+export const BalanceMetadataSchema = Type.Object({
+  comparison: Type.Optional(ComparisonPeriodSchema),
+  projection: Type.Optional(ProjectionMetadataSchema),
+}, {
+  $id: 'BalanceMetadata',
+});
 
 /**
  * Helper to convert query parameters to filter conditions
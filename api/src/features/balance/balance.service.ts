@@ -1,43 +1,125 @@
 import type { IAnalyticsQueryBuilder, FilterCondition } from '../../core/db/clickhouse/query/interfaces.js';
+import type { BusinessCalendar } from '../../core/db/clickhouse/query/business-calendar.js';
+import type { QueryCacheStats } from '../../core/cache/query-cache.js';
 import type {
   BalanceSheetResponse,
   BalanceQueryParams,
 } from './balance.schemas.js';
 import { parseQueryParamsToFilters } from './balance.schemas.js';
-import { BALANCE_METRICS } from '../../core/config/metrics.config.js';
+import { metricRegistry } from '../../core/config/metrics.config.js';
 import { buildDynamicResponse } from '../../core/utils/response-builder.js';
+import type { CompiledCustomMetric } from '../../core/metrics/custom-metric.js';
+import type { ProjectionMethod } from '../../core/utils/projection.js';
+import type { LastYearAlignment, SeriesGranularity, SeriesRow, SeriesTransform } from '../../core/utils/time-series.js';
+import { combineFilters } from '../../core/utils/filter-parser.js';
+import {
+  buildPacing,
+  type PacingAlignment,
+  type PacingMetadata,
+  type PacingPeriod,
+  type PacingRow,
+  type PacingWindowSales,
+} from '../../core/utils/pacing.js';
 
 /**
  * Service for balance sheet business logic
  * Uses single optimized query with CTEs for maximum performance
  *
- * To add new metrics: Just add them to BALANCE_METRICS in metrics.config.ts
+ * To add new metrics: publish them in the metric catalog (metrics.config.ts)
  * Everything else is handled automatically!
  *
  * Uses dependency injection for testability and loose coupling
  */
 export class BalanceService {
-  constructor(private analyticsBuilder: IAnalyticsQueryBuilder) {}
+  /**
+   * @param calendar - Business-day calendar (unscoped), required for
+   *   business-day pacing only
+   */
+  constructor(
+    private analyticsBuilder: IAnalyticsQueryBuilder,
+    private calendar?: Pick<BusinessCalendar, 'getBusinessDays'>
+  ) {}
 
   /**
-   * Get time-series sales data grouped by day or month
+   * Get a time series of metrics per period (see buildTimeSeriesQuery)
    */
   async getBalanceSeries(params: {
     filters: FilterCondition[];
-    granularity: 'day' | 'month';
-  }): Promise<Array<{ period: string; sales: number; budget: number }>> {
+    granularity: SeriesGranularity;
+    metrics?: readonly string[];
+    transform?: SeriesTransform;
+    lastYear?: LastYearAlignment;
+    projection?: ProjectionMethod;
+  }): Promise<SeriesRow[]> {
     return this.analyticsBuilder.buildTimeSeriesQuery(params);
   }
 
+  /**
+   * Get the day-by-day pacing of a period against its comparison windows
+   * (see core/utils/pacing.ts): one daily sales series per window, plus the
+   * business-day calendar of each window when aligned by business day
+   *
+   * @param params.filters - Dynamic filters, applied to every window
+   * @param params.today - Cut-off date (America/Bogota)
+   * @param params.cacheStats - Request counters of the business-day reads
+   */
+  async getPacing(params: {
+    filters: FilterCondition[];
+    current: { startDate: string; endDate: string };
+    comparisons: ReadonlyArray<{ key: string; startDate: string; endDate: string }>;
+    align: PacingAlignment;
+    today: string;
+    cacheStats?: QueryCacheStats | undefined;
+  }): Promise<{ rows: PacingRow[]; periods: PacingPeriod[]; meta: PacingMetadata }> {
+    const calendar = params.align === 'business_day' ? this.calendar : undefined;
+    if (params.align === 'business_day' && !calendar) {
+      throw new Error('Business-day pacing requires a business calendar');
+    }
+
+    const windowSales = async (window: { key: string; startDate: string; endDate: string }): Promise<PacingWindowSales> => {
+      const [series, businessDays] = await Promise.all([
+        this.analyticsBuilder.buildTimeSeriesQuery({
+          filters: combineFilters(params.filters, [
+            { field: 'date', operator: 'gte', value: window.startDate },
+            { field: 'date', operator: 'lte', value: window.endDate },
+          ]),
+          granularity: 'day',
+          metrics: ['sales'],
+        }),
+        calendar?.getBusinessDays({ startDate: window.startDate, endDate: window.endDate }, params.cacheStats),
+      ]);
+      return {
+        ...window,
+        daily: new Map(series.map((row) => [row.period, Number(row['sales'] ?? 0)])),
+        ...(businessDays && { businessDays }),
+      };
+    };
+
+    const [current, ...comparisons] = await Promise.all([
+      windowSales({ key: 'current', ...params.current }),
+      ...params.comparisons.map(windowSales),
+    ]);
+
+    return buildPacing({ align: params.align, current, comparisons, today: params.today });
+  }
+
   /**
    * Get complete balance sheet (single raw object)
    * Single optimized query - all calculations in ClickHouse
    * Response is dynamically built from metrics configuration
    *
    * Accepts filters directly or via params for backward compatibility
+   * Requested custom metrics are added as custom_<key> fields
+   * comparisonFilters replaces the default year-shifted comparison window
+   * projection adds projected_close, projected_gap and required_daily_sales
    */
   async getBalanceSheet(
-    params: (BalanceQueryParams | { filters: FilterCondition[] }) & { facturadoOnly?: boolean }
+    params: (BalanceQueryParams | { filters: FilterCondition[] }) & {
+      comparisonFilters?: FilterCondition[];
+      facturadoOnly?: boolean;
+      customMetrics?: readonly CompiledCustomMetric[];
+      projection?: ProjectionMethod;
+    }
   ): Promise<BalanceSheetResponse> {
     // Support both filter formats: direct filters or params to parse
     const filters = 'filters' in params
@@ -46,12 +128,15 @@ export class BalanceService {
 
     // Execute single query with all metrics and YoY comparison
     const result = await this.analyticsBuilder.buildMultiTableYoYQuery({
-      metrics: BALANCE_METRICS,
+      metrics: metricRegistry.getBaseMetrics(),
       currentPeriodFilters: filters,
+      ...(params.comparisonFilters && { comparisonFilters: params.comparisonFilters }),
       facturadoOnly: params.facturadoOnly ?? false,
+      customMetrics: params.customMetrics ?? [],
+      ...(params.projection && { projection: params.projection }),
     });
 
     // Build response using shared utility
-    return buildDynamicResponse(result);
+    return buildDynamicResponse(result, params.customMetrics, params.projection !== undefined);
   }
 }
@@ -0,0 +1,92 @@
+import type { FastifyInstance } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { campaignDefinitionsService } from './campaign.definitions.service.js';
+import {
+  CampaignDefinitionBodySchema,
+  CampaignDefinitionSchema,
+  CampaignSummarySchema,
+  type CampaignDefinitionBody,
+} from './campaign.definitions.schemas.js';
+import { CampaignParamsSchema } from './campaign.schemas.js';
+import { authenticate } from '../../core/middleware/authenticate.js';
+import { requireSuperadmin } from '../../core/middleware/authorize.js';
+
+/**
+ * Campaign definition routes
+ *
+ * GET /campaigns only requires authentication (the web app renders the
+ * campaign page from it)
+ * /admin/campaigns routes require superadmin role: a definition names the
+ * ClickHouse tables and columns the campaign reads
+ */
+export function campaignDefinitionsRoutes(fastify: FastifyInstance): void {
+  const service = campaignDefinitionsService;
+
+  // Campaigns and their page dimensions
+  fastify.get(
+    '/campaigns',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Commercial campaigns and the dimensions of their page listing',
+        tags: ['campaigns'],
+        response: {
+          200: Type.Object({
+            data: Type.Array(CampaignSummarySchema),
+          }),
+        },
+      },
+    },
+    async (_request, reply) => {
+      const campaigns = await service.list();
+      const data = campaigns.map(({ key, name, dimensions }) => ({ key, name, dimensions }));
+      return reply.send({ data });
+    }
+  );
+
+  // Full definitions (admin)
+  fastify.get(
+    '/admin/campaigns',
+    {
+      preHandler: [authenticate, requireSuperadmin],
+      schema: {
+        description: 'List every valid campaign definition',
+        tags: ['campaigns'],
+        response: {
+          200: Type.Object({
+            data: Type.Array(CampaignDefinitionSchema),
+          }),
+        },
+      },
+    },
+    async (_request, reply) => {
+      const data = await service.list();
+      return reply.send({ data });
+    }
+  );
+
+  // Create or replace a definition (admin)
+  fastify.put(
+    '/admin/campaigns/:campaign',
+    {
+      preHandler: [authenticate, requireSuperadmin],
+      schema: {
+        description: 'Create or replace a campaign definition. Table and column names, required metrics and references between rules, groupings and dimensions are validated before it is stored.',
+        tags: ['campaigns'],
+        params: CampaignParamsSchema,
+        body: CampaignDefinitionBodySchema,
+        response: {
+          200: CampaignDefinitionSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { campaign: key } = request.params as { campaign: string };
+      const campaign = await service.save(key, request.body as CampaignDefinitionBody);
+
+      request.log.info({ type: 'campaign_saved', key, userId: request.user?.id }, 'Campaign definition saved');
+
+      return reply.send(campaign);
+    }
+  );
+}
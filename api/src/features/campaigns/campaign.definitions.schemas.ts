@@ -0,0 +1,135 @@
+import { Type, type Static } from '@sinclair/typebox';
+
+/**
+ * TypeBox schemas of the campaign definitions (see
+ * core/config/campaigns.config.ts for the meaning of each field). They check
+ * the shape; validateCampaignDefinition checks names and references.
+ */
+
+const ColumnByTableSchema = (description: string) =>
+  Type.Record(Type.String(), Type.String(), { description });
+
+const FilterConditionSchema = Type.Object({
+  field: Type.String(),
+  operator: Type.Union([
+    Type.Literal('eq'),
+    Type.Literal('neq'),
+    Type.Literal('gt'),
+    Type.Literal('gte'),
+    Type.Literal('lt'),
+    Type.Literal('lte'),
+    Type.Literal('in'),
+  ]),
+  value: Type.Union([Type.String(), Type.Array(Type.String())]),
+  table: Type.Optional(Type.String({ description: 'Only this table is filtered' })),
+  trim: Type.Optional(Type.Boolean({ description: 'Compare trimBoth(field)' })),
+}, { additionalProperties: false });
+
+const CampaignBucketSchema = Type.Object({
+  id: Type.String({ minLength: 1 }),
+  name: Type.String({ minLength: 1 }),
+}, { additionalProperties: false });
+
+// The branches allow extra properties: the request validator strips them
+// while it tries a branch, which would break the next one.
+const CampaignVirtualGroupSchema = Type.Union([
+  Type.Object({
+    kind: Type.Literal('membership'),
+    fieldByTable: ColumnByTableSchema('Column holding the rule values, per table'),
+    rule: Type.String({ description: 'Rule whose values are the members' }),
+    members: CampaignBucketSchema,
+    others: CampaignBucketSchema,
+  }),
+  Type.Object({
+    kind: Type.Literal('conditions'),
+    buckets: Type.Array(
+      Type.Object({
+        id: Type.String({ minLength: 1 }),
+        name: Type.String({ minLength: 1 }),
+        conditions: Type.Array(FilterConditionSchema),
+      }, { additionalProperties: false }),
+      { minItems: 1 }
+    ),
+  }),
+], {
+  description: 'membership: buckets by the values of a rule; conditions: fixed conditions per bucket',
+});
+
+export const CampaignDimensionSchema = Type.Object({
+  key: Type.String({ description: 'groupBy value: a column or a virtual grouping' }),
+  label: Type.String({ minLength: 1, description: 'Selector label' }),
+  rowLabel: Type.String({ minLength: 1, description: "Header of the listing's first column" }),
+  drillTo: Type.Optional(Type.String({ description: 'Dimension a row drills into (none: not drillable)' })),
+}, { additionalProperties: false });
+
+/**
+ * Campaign definition without its key (PUT /admin/campaigns/:campaign body,
+ * `campaign.definition` column)
+ */
+export const CampaignDefinitionBodySchema = Type.Object({
+  name: Type.String({ minLength: 1, maxLength: 100 }),
+  dateFields: ColumnByTableSchema('Order-date column per sales table'),
+  metrics: Type.Array(
+    Type.Object({
+      table: Type.String(),
+      field: Type.String(),
+      aggregation: Type.Union([
+        Type.Literal('sum'),
+        Type.Literal('avg'),
+        Type.Literal('count'),
+        Type.Literal('min'),
+        Type.Literal('max'),
+        Type.Literal('uniqExact'),
+      ]),
+      alias: Type.String(),
+    }, { additionalProperties: false }),
+    { description: 'Metrics summed per window' }
+  ),
+  budget: Type.Union([
+    Type.Object({
+      table: Type.String(),
+      valueField: Type.String(),
+      periodoField: Type.String(),
+    }, { additionalProperties: false }),
+    Type.Null(),
+  ], { description: 'Budget source (null: no budget)' }),
+  rules: Type.Record(
+    Type.String(),
+    Type.Object({ label: Type.String({ minLength: 1 }) }, { additionalProperties: false }),
+    { description: 'Lists every edition sets, by rule key' }
+  ),
+  universe: Type.Object({
+    table: Type.String(),
+    regionalField: Type.String(),
+    rule: Type.String({ description: 'Rule holding the regionals of the universe' }),
+    snapshotField: Type.String(),
+    conditions: Type.Array(FilterConditionSchema),
+  }, { additionalProperties: false, description: 'Customer universe of "clientes sin compra"' }),
+  virtualGroups: Type.Record(Type.String(), CampaignVirtualGroupSchema, { description: 'Virtual groupings by groupBy key' }),
+  scopedDrillFields: Type.Record(Type.String(), ColumnByTableSchema('Column per table'), {
+    description: 'Drill dimensions whose column differs per table',
+  }),
+  defaultGroupBy: Type.String({ description: 'Listing dimension when none is requested (a column)' }),
+  dimensions: Type.Array(CampaignDimensionSchema, { description: "Dimensions of the campaign page's listing, in order" }),
+}, { additionalProperties: false });
+
+export type CampaignDefinitionBody = Static<typeof CampaignDefinitionBodySchema>;
+
+/**
+ * Campaign definition response schema (administration)
+ */
+export const CampaignDefinitionSchema = Type.Composite([
+  Type.Object({ key: Type.String() }),
+  CampaignDefinitionBodySchema,
+]);
+
+/**
+ * What the campaign page needs to render a campaign (GET /campaigns)
+ */
+export const CampaignSummarySchema = Type.Object({
+  key: Type.String(),
+  name: Type.String(),
+  dimensions: Type.Array(CampaignDimensionSchema),
+});
+
+export type CampaignSummary = Static<typeof CampaignSummarySchema>;
@@ -0,0 +1,141 @@
+import { asc } from 'drizzle-orm';
+import { Value } from '@sinclair/typebox/value';
+import { db } from '../../core/db/postgres/client.js';
+import { campaigns } from '../../core/db/postgres/schema.js';
+import { NotFoundError, ValidationError } from '../../core/errors/app-error.js';
+import { validateCampaignDefinition, type CampaignDefinition } from '../../core/config/campaigns.config.js';
+import { logger } from '../../core/logger/logger.js';
+import { CampaignDefinitionBodySchema, type CampaignDefinitionBody } from './campaign.definitions.schemas.js';
+
+/**
+ * Campaign definitions service - Commercial campaigns (`campaign`)
+ *
+ * Every campaign request resolves its campaign, so the (short) definition
+ * list is cached for 1 minute. Writes clear the cache, so changes apply
+ * immediately on this instance (and within a minute on the others).
+ *
+ * Definitions are checked when saved and when loaded. At startup
+ * (loadCampaigns) an invalid stored definition stops the server; on later
+ * reloads it is logged and left out, so one bad row edited by hand does not
+ * take down the other campaigns.
+ */
+export class CampaignDefinitionsService {
+  private cache: { campaigns: CampaignDefinition[]; timestamp: number } | null = null;
+  private readonly CACHE_TTL = 60 * 1000; // 1 minute
+
+  /**
+   * Every valid campaign, by key
+   */
+  async list(): Promise<CampaignDefinition[]> {
+    if (this.cache && Date.now() - this.cache.timestamp < this.CACHE_TTL) {
+      return this.cache.campaigns;
+    }
+
+    const valid: CampaignDefinition[] = [];
+    for (const row of await this.readRows()) {
+      try {
+        valid.push(parseCampaignDefinition(row.key, row.definition));
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        logger.error({ type: 'campaign_definition_invalid', key: row.key, err: error }, 'Invalid campaign definition skipped');
+      }
+    }
+    this.cache = { campaigns: valid, timestamp: Date.now() };
+    return valid;
+  }
+
+  /**
+   * Campaign by key (undefined for unknown keys)
+   */
+  async get(key: string): Promise<CampaignDefinition | undefined> {
+    const list = await this.list();
+    return list.find((campaign) => campaign.key === key);
+  }
+
+  /**
+   * Campaign a request refers to
+   *
+   * @throws NotFoundError if the campaign does not exist
+   */
+  async resolve(key: string): Promise<CampaignDefinition> {
+    const campaign = await this.get(key);
+    if (!campaign) {
+      throw new NotFoundError('Campaign not found');
+    }
+    return campaign;
+  }
+
+  /**
+   * Create or replace a campaign definition
+   *
+   * @throws ValidationError if the definition is invalid (nothing is stored)
+   */
+  async save(key: string, data: CampaignDefinitionBody): Promise<CampaignDefinition> {
+    const campaign = parseCampaignDefinition(key, data);
+
+    await db
+      .insert(campaigns)
+      .values({ key, definition: data })
+      .onConflictDoUpdate({ target: campaigns.key, set: { definition: data, updatedAt: new Date() } });
+
+    this.clearCache();
+    return campaign;
+  }
+
+  /**
+   * Every stored definition, checked (server startup)
+   *
+   * @returns Number of campaigns
+   * @throws ValidationError for the first invalid definition
+   */
+  async load(): Promise<number> {
+    const rows = await this.readRows();
+    const loaded = rows.map((row) => parseCampaignDefinition(row.key, row.definition));
+    this.cache = { campaigns: loaded, timestamp: Date.now() };
+    return loaded.length;
+  }
+
+  /**
+   * Clear cache (call after definition changes)
+   */
+  clearCache(): void {
+    this.cache = null;
+  }
+
+  private readRows() {
+    return db.select().from(campaigns).orderBy(asc(campaigns.key));
+  }
+}
+
+/**
+ * Shared instance: the campaign routes, the edition service and the export
+ * jobs resolve campaigns through the same cache the administration routes clear
+ */
+export const campaignDefinitionsService = new CampaignDefinitionsService();
+
+/**
+ * Load and check the stored campaigns (server startup)
+ *
+ * @returns Number of campaigns
+ * @throws ValidationError if a stored definition is invalid (e.g. edited by hand)
+ */
+export function loadCampaigns(service = campaignDefinitionsService): Promise<number> {
+  return service.load();
+}
+
+/**
+ * Campaign definition of a stored (or submitted) row: its shape, then its
+ * names and references
+ *
+ * @throws ValidationError listing the problems found
+ */
+export function parseCampaignDefinition(key: string, definition: unknown): CampaignDefinition {
+  if (!Value.Check(CampaignDefinitionBodySchema, definition)) {
+    const errors = [...Value.Errors(CampaignDefinitionBodySchema, definition)]
+      .map((error) => `${error.path || '/'}: ${error.message}`);
+    throw new ValidationError(`Invalid campaign "${key}": ${errors[0]}`, errors);
+  }
+  const campaign: CampaignDefinition = { key, ...definition };
+  validateCampaignDefinition(campaign);
+  return campaign;
+}
@@ -0,0 +1,194 @@
+import type { FastifyInstance } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { campaignEditionsService } from './campaign.editions.service.js';
+import {
+  CampaignEditionSchema,
+  CreateCampaignEditionBodySchema,
+  UpdateCampaignEditionBodySchema,
+  CampaignEditionParamsSchema,
+  ListCampaignEditionsQuerySchema,
+  type CreateCampaignEditionBody,
+  type UpdateCampaignEditionBody,
+} from './campaign.editions.schemas.js';
+import { authenticate } from '../../core/middleware/authenticate.js';
+import { requireAdmin } from '../../core/middleware/authorize.js';
+import { resolveDataScope } from '../../core/middleware/data-scope.js';
+import { NotFoundError } from '../../core/errors/app-error.js';
+import { campaignMounts } from './campaign.mounts.js';
+
+/**
+ * Campaign edition routes
+ *
+ * An edition is one event of a campaign: event window, comparison edition,
+ * budget periodo, sales channels and the values of the campaign's rules.
+ * The campaign endpoints take its `editionId`.
+ *
+ * /campaigns/:campaign/editions lists the published editions (campaign page selector);
+ * /festival/editions is its deprecated festival alias
+ * /admin/campaign-editions routes require admin role
+ */
+export function campaignEditionsRoutes(fastify: FastifyInstance): void {
+  const service = campaignEditionsService;
+
+  // Published editions of a campaign (campaign page selector), also under
+  // the deprecated /festival alias
+  for (const { path, campaignOf, schema } of campaignMounts) {
+    fastify.get(
+      `${path}/editions`,
+      {
+        preHandler: [authenticate, resolveDataScope],
+        schema: {
+          description: 'Published editions of a campaign (active and closed), newest first',
+          tags: ['campaigns'],
+          ...schema,
+          response: {
+            200: Type.Object({
+              data: Type.Array(CampaignEditionSchema),
+            }),
+          },
+        },
+      },
+      async (request, reply) => {
+        const data = await service.listPublished(campaignOf(request));
+        return reply.send({ data });
+      }
+    );
+  }
+
+  // List editions, drafts included (admin)
+  fastify.get(
+    '/admin/campaign-editions',
+    {
+      preHandler: [authenticate, requireAdmin],
+      schema: {
+        description: 'List every campaign edition (optionally of one campaign), drafts included, newest first',
+        tags: ['campaigns'],
+        querystring: ListCampaignEditionsQuerySchema,
+        response: {
+          200: Type.Object({
+            data: Type.Array(CampaignEditionSchema),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { campaign } = request.query as { campaign?: string };
+      const data = await service.listAll(campaign);
+      return reply.send({ data });
+    }
+  );
+
+  // Get edition by ID (admin)
+  fastify.get(
+    '/admin/campaign-editions/:id',
+    {
+      preHandler: [authenticate, requireAdmin],
+      schema: {
+        description: 'Get campaign edition by ID',
+        tags: ['campaigns'],
+        params: CampaignEditionParamsSchema,
+        response: {
+          200: CampaignEditionSchema,
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const edition = await service.getById(id);
+
+      if (!edition) {
+        throw new NotFoundError('Campaign edition not found');
+      }
+
+      return reply.send(edition);
+    }
+  );
+
+  // Create edition (admin)
+  fastify.post(
+    '/admin/campaign-editions',
+    {
+      preHandler: [authenticate, requireAdmin],
+      schema: {
+        description: 'Create campaign edition (a draft unless status is given)',
+        tags: ['campaigns'],
+        body: CreateCampaignEditionBodySchema,
+        response: {
+          201: CampaignEditionSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const edition = await service.create(request.body as CreateCampaignEditionBody);
+      return reply.status(201).send(edition);
+    }
+  );
+
+  // Update edition (admin)
+  fastify.patch(
+    '/admin/campaign-editions/:id',
+    {
+      preHandler: [authenticate, requireAdmin],
+      schema: {
+        description: 'Update campaign edition (omitted fields are left unchanged; the campaign is fixed)',
+        tags: ['campaigns'],
+        params: CampaignEditionParamsSchema,
+        body: UpdateCampaignEditionBodySchema,
+        response: {
+          200: CampaignEditionSchema,
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const edition = await service.update(id, request.body as UpdateCampaignEditionBody);
+
+      if (!edition) {
+        throw new NotFoundError('Campaign edition not found');
+      }
+
+      return reply.send(edition);
+    }
+  );
+
+  // Delete edition (admin)
+  fastify.delete(
+    '/admin/campaign-editions/:id',
+    {
+      preHandler: [authenticate, requireAdmin],
+      schema: {
+        description: 'Delete campaign edition (editions compared against it lose their comparison)',
+        tags: ['campaigns'],
+        params: CampaignEditionParamsSchema,
+        response: {
+          200: Type.Object({
+            success: Type.Boolean(),
+            message: Type.String(),
+          }),
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const deleted = await service.delete(id);
+
+      if (!deleted) {
+        throw new NotFoundError('Campaign edition not found');
+      }
+
+      return reply.send({
+        success: true,
+        message: 'Campaign edition deleted successfully',
+      });
+    }
+  );
+}
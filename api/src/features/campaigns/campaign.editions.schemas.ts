@@ -0,0 +1,104 @@
+import { Type, type Static } from '@sinclair/typebox';
+import { DateStringSchema } from '../../core/schemas/common.schemas.js';
+
+/**
+ * TypeBox schemas and types of the campaign editions: one event of a
+ * campaign each, with its event window, comparison edition, budget periodo
+ * and the business rules of the dashboard (see `campaign_edition`).
+ */
+
+export const CampaignKeySchema = Type.String({ minLength: 1, description: 'Campaign key (GET /campaigns)' });
+
+export const CampaignEditionStatusSchema = Type.Union(
+  [Type.Literal('draft'), Type.Literal('active'), Type.Literal('closed')],
+  { description: 'draft: hidden from the campaign page; active: running or upcoming; closed: past' }
+);
+
+export type CampaignEditionStatus = Static<typeof CampaignEditionStatusSchema>;
+
+const BudgetPeriodoSchema = Type.String({
+  pattern: '^\\d{4}(0[1-9]|1[0-2])$',
+  description: 'Budget periodo of the edition (yyyyMM). Defaults to the month of startDate',
+});
+
+const ValuesSchema = (description: string) =>
+  Type.Array(Type.String({ minLength: 1 }), { minItems: 1, uniqueItems: true, description });
+
+const ChannelsSchema = ValuesSchema('Sales channels the campaign counts (channel column)');
+
+const RulesSchema = (description: string) =>
+  Type.Record(Type.String(), ValuesSchema('Values of the rule'), { description });
+
+/**
+ * Window of the comparison edition
+ */
+const ComparisonEditionSchema = Type.Object({
+  id: Type.String(),
+  name: Type.String(),
+  startDate: Type.String(),
+  endDate: Type.String(),
+  budgetPeriodo: Type.String(),
+});
+
+/**
+ * Campaign edition response schema
+ */
+export const CampaignEditionSchema = Type.Object({
+  id: Type.String(),
+  campaign: Type.String(),
+  name: Type.String(),
+  startDate: Type.String({ description: 'First day of the event (yyyy-MM-dd)' }),
+  endDate: Type.String({ description: 'Last day of the event (yyyy-MM-dd)' }),
+  compareEdition: Type.Union([ComparisonEditionSchema, Type.Null()], {
+    description: 'Edition the event is compared against (null: no comparison)',
+  }),
+  budgetPeriodo: Type.String(),
+  rules: Type.Record(Type.String(), Type.Array(Type.String())),
+  channels: Type.Array(Type.String()),
+  status: CampaignEditionStatusSchema,
+  createdAt: Type.String(),
+  updatedAt: Type.String(),
+});
+
+export type CampaignEditionResponse = Static<typeof CampaignEditionSchema>;
+
+/**
+ * Create edition body schema
+ */
+export const CreateCampaignEditionBodySchema = Type.Object({
+  campaign: CampaignKeySchema,
+  name: Type.String({ minLength: 1, maxLength: 100 }),
+  startDate: DateStringSchema,
+  endDate: DateStringSchema,
+  compareEditionId: Type.Optional(Type.Union([Type.String({ format: 'uuid' }), Type.Null()])),
+  budgetPeriodo: Type.Optional(BudgetPeriodoSchema),
+  rules: RulesSchema("Values of every rule of the campaign, by rule key (see the campaign definition's `rules`)"),
+  channels: Type.Optional(ValuesSchema('Sales channels the campaign counts (default DISTRIBUCION)')),
+  status: Type.Optional(CampaignEditionStatusSchema),
+});
+
+export type CreateCampaignEditionBody = Static<typeof CreateCampaignEditionBodySchema>;
+
+/**
+ * Update edition body schema (omitted fields are left unchanged)
+ */
+export const UpdateCampaignEditionBodySchema = Type.Object({
+  name: Type.Optional(Type.String({ minLength: 1, maxLength: 100 })),
+  startDate: Type.Optional(DateStringSchema),
+  endDate: Type.Optional(DateStringSchema),
+  compareEditionId: Type.Optional(Type.Union([Type.String({ format: 'uuid' }), Type.Null()])),
+  budgetPeriodo: Type.Optional(BudgetPeriodoSchema),
+  rules: Type.Optional(RulesSchema('Rules to replace, by rule key (the other rules are left unchanged)')),
+  channels: Type.Optional(ChannelsSchema),
+  status: Type.Optional(CampaignEditionStatusSchema),
+});
+
+export type UpdateCampaignEditionBody = Static<typeof UpdateCampaignEditionBodySchema>;
+
+export const CampaignEditionParamsSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+export const ListCampaignEditionsQuerySchema = Type.Object({
+  campaign: Type.Optional(CampaignKeySchema),
+});
@@ -0,0 +1,282 @@
+import { asc, eq } from 'drizzle-orm';
+import { db } from '../../core/db/postgres/client.js';
+import { campaignEditions, type CampaignEdition } from '../../core/db/postgres/schema.js';
+import { NotFoundError, ValidationError } from '../../core/errors/app-error.js';
+import type { CampaignDefinition } from '../../core/config/campaigns.config.js';
+import { campaignDefinitionsService, type CampaignDefinitionsService } from './campaign.definitions.service.js';
+import type {
+  CreateCampaignEditionBody,
+  CampaignEditionResponse,
+  UpdateCampaignEditionBody,
+} from './campaign.editions.schemas.js';
+
+/** Channel counted by an edition created without `channels` */
+const DEFAULT_CHANNELS = ['DISTRIBUCION'];
+
+/**
+ * Campaign editions service - Events of the commercial campaigns (`campaign_edition`)
+ *
+ * Every campaign request resolves its edition, so the (short) edition list
+ * is cached for 1 minute. Writes clear the cache, so changes apply
+ * immediately on this instance (and within a minute on the others).
+ */
+export class CampaignEditionsService {
+  private cache: { rows: CampaignEdition[]; timestamp: number } | null = null;
+  private readonly CACHE_TTL = 60 * 1000; // 1 minute
+
+  /**
+   * @param campaigns - Campaign definitions the editions belong to
+   */
+  constructor(private campaigns: Pick<CampaignDefinitionsService, 'get'> = campaignDefinitionsService) {}
+
+  /**
+   * Editions shown on a campaign page (not drafts), newest first
+   *
+   * @throws NotFoundError if the campaign does not exist
+   */
+  async listPublished(campaign: string): Promise<CampaignEditionResponse[]> {
+    if (!await this.campaigns.get(campaign)) {
+      throw new NotFoundError('Campaign not found');
+    }
+    const rows = await this.loadEditions();
+    return rows
+      .filter((row) => row.campaign === campaign && row.status !== 'draft')
+      .reverse()
+      .map((row) => toResponse(row, rows));
+  }
+
+  /**
+   * Every edition, drafts included, newest first (administration)
+   *
+   * @param campaign - Only the editions of this campaign
+   * @throws ValidationError for an unknown campaign
+   */
+  async listAll(campaign?: string): Promise<CampaignEditionResponse[]> {
+    if (campaign !== undefined) {
+      await this.campaignOf(campaign);
+    }
+    const rows = await this.loadEditions();
+    return rows
+      .filter((row) => campaign === undefined || row.campaign === campaign)
+      .reverse()
+      .map((row) => toResponse(row, rows));
+  }
+
+  /**
+   * Get edition by ID, drafts included (administration)
+   */
+  async getById(id: string): Promise<CampaignEditionResponse | null> {
+    const rows = await this.loadEditions();
+    const row = rows.find((r) => r.id === id);
+    return row ? toResponse(row, rows) : null;
+  }
+
+  /**
+   * Edition a campaign query refers to (`editionId`)
+   *
+   * @param campaign - Campaign of the route (export jobs resolve by id alone)
+   * @throws NotFoundError if the edition does not exist, is a draft or belongs to another campaign
+   */
+  async resolve(id: string, campaign?: string): Promise<CampaignEditionResponse> {
+    const edition = await this.getById(id);
+    if (!edition || edition.status === 'draft' || (campaign !== undefined && edition.campaign !== campaign)) {
+      throw new NotFoundError('Campaign edition not found');
+    }
+    return edition;
+  }
+
+  /**
+   * Edition of an export job (resolved by id alone) and its campaign
+   *
+   * @throws NotFoundError if the edition does not resolve or its campaign is no longer defined
+   */
+  async resolveWithCampaign(id: string): Promise<{ campaign: CampaignDefinition; edition: CampaignEditionResponse }> {
+    const edition = await this.resolve(id);
+    const campaign = await this.campaigns.get(edition.campaign);
+    if (!campaign) {
+      throw new NotFoundError('Campaign edition not found');
+    }
+    return { campaign, edition };
+  }
+
+  /**
+   * Create edition. The budget periodo defaults to the month of startDate.
+   *
+   * @throws ValidationError for an unknown campaign, rules that do not match its definition, an inverted window or an unknown (or other campaign's) comparison edition
+   */
+  async create(data: CreateCampaignEditionBody): Promise<CampaignEditionResponse> {
+    validateRules(await this.campaignOf(data.campaign), data.rules);
+    validateWindow(data.startDate, data.endDate);
+    await this.validateComparison(data.campaign, data.compareEditionId ?? null);
+
+    const [created] = await db
+      .insert(campaignEditions)
+      .values({
+        campaign: data.campaign,
+        name: data.name,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        compareEditionId: data.compareEditionId ?? null,
+        budgetPeriodo: data.budgetPeriodo ?? periodoOf(data.startDate),
+        rules: data.rules,
+        channels: data.channels ?? DEFAULT_CHANNELS,
+        status: data.status ?? 'draft',
+      })
+      .returning();
+
+    if (!created) {
+      throw new Error('Failed to create campaign edition');
+    }
+
+    this.clearCache();
+    return (await this.getById(created.id))!;
+  }
+
+  /**
+   * Update edition (omitted fields and rules are left unchanged; the campaign is fixed)
+   *
+   * @throws ValidationError for rules that do not match the campaign definition, an inverted window or an unknown (its own, or other campaign's) comparison edition
+   */
+  async update(id: string, data: UpdateCampaignEditionBody): Promise<CampaignEditionResponse | null> {
+    const current = await this.getById(id);
+    if (!current) return null;
+
+    const rules = data.rules !== undefined ? { ...current.rules, ...data.rules } : undefined;
+    if (rules) {
+      validateRules(await this.campaignOf(current.campaign), rules);
+    }
+    validateWindow(data.startDate ?? current.startDate, data.endDate ?? current.endDate);
+    if (data.compareEditionId !== undefined) {
+      if (data.compareEditionId === id) {
+        throw new ValidationError('An edition cannot be compared against itself');
+      }
+      await this.validateComparison(current.campaign, data.compareEditionId);
+    }
+
+    await db
+      .update(campaignEditions)
+      .set({
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.startDate !== undefined && { startDate: data.startDate }),
+        ...(data.endDate !== undefined && { endDate: data.endDate }),
+        ...(data.compareEditionId !== undefined && { compareEditionId: data.compareEditionId }),
+        ...(data.budgetPeriodo !== undefined && { budgetPeriodo: data.budgetPeriodo }),
+        ...(rules !== undefined && { rules }),
+        ...(data.channels !== undefined && { channels: data.channels }),
+        ...(data.status !== undefined && { status: data.status }),
+        updatedAt: new Date(),
+      })
+      .where(eq(campaignEditions.id, id));
+
+    this.clearCache();
+    return this.getById(id);
+  }
+
+  /**
+   * Delete edition. Editions compared against it lose their comparison.
+   */
+  async delete(id: string): Promise<boolean> {
+    const result = await db.delete(campaignEditions).where(eq(campaignEditions.id, id)).returning();
+    this.clearCache();
+    return result.length > 0;
+  }
+
+  /**
+   * Clear cache (call after edition changes)
+   */
+  clearCache(): void {
+    this.cache = null;
+  }
+
+  /**
+   * Every edition, oldest first
+   */
+  private async loadEditions(): Promise<CampaignEdition[]> {
+    if (this.cache && Date.now() - this.cache.timestamp < this.CACHE_TTL) {
+      return this.cache.rows;
+    }
+
+    const rows = await db
+      .select()
+      .from(campaignEditions)
+      .orderBy(asc(campaignEditions.startDate), asc(campaignEditions.name));
+    this.cache = { rows, timestamp: Date.now() };
+    return rows;
+  }
+
+  private async campaignOf(key: string): Promise<CampaignDefinition> {
+    const campaign = await this.campaigns.get(key);
+    if (!campaign) {
+      throw new ValidationError(`Unknown campaign: ${key}`);
+    }
+    return campaign;
+  }
+
+  private async validateComparison(campaign: string, compareEditionId: string | null): Promise<void> {
+    if (compareEditionId === null) return;
+    const compare = await this.getById(compareEditionId);
+    if (!compare) {
+      throw new ValidationError('Comparison edition not found');
+    }
+    if (compare.campaign !== campaign) {
+      throw new ValidationError('Comparison edition belongs to another campaign');
+    }
+  }
+}
+
+/**
+ * Shared instance: the campaign routes and the export jobs resolve editions
+ * through the same cache the administration routes clear
+ */
+export const campaignEditionsService = new CampaignEditionsService();
+
+/**
+ * An edition sets every rule its campaign defines, and only those
+ */
+function validateRules(campaign: CampaignDefinition, rules: Record<string, string[]>): void {
+  const unknown = Object.keys(rules).filter((key) => !(key in campaign.rules));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown ${campaign.name} rules: ${unknown.join(', ')}`);
+  }
+  const missing = Object.keys(campaign.rules).filter((key) => !rules[key]);
+  if (missing.length > 0) {
+    throw new ValidationError(`Missing ${campaign.name} rules: ${missing.join(', ')}`);
+  }
+}
+
+function validateWindow(startDate: string, endDate: string): void {
+  if (startDate > endDate) {
+    throw new ValidationError('startDate must not be after endDate');
+  }
+}
+
+/** yyyyMM of a yyyy-MM-dd date */
+function periodoOf(date: string): string {
+  return date.slice(0, 7).replace('-', '');
+}
+
+function toResponse(row: CampaignEdition, rows: CampaignEdition[]): CampaignEditionResponse {
+  const compare = row.compareEditionId ? rows.find((r) => r.id === row.compareEditionId) : undefined;
+  return {
+    id: row.id,
+    campaign: row.campaign,
+    name: row.name,
+    startDate: row.startDate,
+    endDate: row.endDate,
+    compareEdition: compare
+      ? {
+          id: compare.id,
+          name: compare.name,
+          startDate: compare.startDate,
+          endDate: compare.endDate,
+          budgetPeriodo: compare.budgetPeriodo,
+        }
+      : null,
+    budgetPeriodo: row.budgetPeriodo,
+    rules: row.rules,
+    channels: row.channels,
+    status: row.status,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
@@ -0,0 +1,165 @@
+import type { CampaignService } from './campaign.service.js';
+import type { CampaignDefinition } from '../../core/config/campaigns.config.js';
+import type {
+  CampaignListExportQueryString,
+  CampaignListQueryString,
+  CampaignListRow,
+  CampaignSinCompraExportQueryString,
+} from './campaign.schemas.js';
+import {
+  buildCampaignExportWorkbook,
+  buildSinCompraExportWorkbook,
+  buildCampaignColumns,
+} from './campaign.export.workbook.js';
+import { buildWindows, type CampaignWindowEdition } from './campaign.filters.js';
+import { sanitizeFilename } from '../../core/utils/export-filename.js';
+import {
+  encodeTabular,
+  prefetchRows,
+  type DataExportFormat,
+  type TabularColumn,
+} from '../../core/export/tabular-export.js';
+
+/**
+ * Campaign, edition and service an export (or listing) is built with
+ */
+export interface CampaignExportContext {
+  campaign: CampaignDefinition;
+  /** Edition of `query.editionId` */
+  edition: CampaignWindowEdition;
+  /** Campaign service bound to the caller's data scope */
+  service: CampaignService;
+}
+
+/**
+ * Listing rows for the requested edition/groupBy (virtual groupings such as
+ * "Marcas"/"Promoción" are a handful of bucket rows)
+ */
+export function fetchCampaignListRows(
+  { campaign, edition, service }: CampaignExportContext,
+  query: CampaignListQueryString
+): Promise<CampaignListRow[]> {
+  const windows = buildWindows(query, campaign, edition);
+  const groupBy = query.groupBy;
+  if (groupBy && campaign.virtualGroups[groupBy]) {
+    return service.getVirtualGroupRows({
+      groupBy,
+      currentFilters: windows.currentFilters,
+      universeFilters: windows.universeFilters,
+      edition,
+    });
+  }
+  return service.getList({ ...windows, ...(groupBy && { groupBy }) });
+}
+
+/**
+ * Same listing rows, streamed for the CSV/Parquet exports
+ */
+function streamCampaignListRows(context: CampaignExportContext, query: CampaignListQueryString): AsyncIterable<CampaignListRow> {
+  const groupBy = query.groupBy;
+  if (groupBy && context.campaign.virtualGroups[groupBy]) {
+    return (async function* () {
+      yield* await fetchCampaignListRows(context, query);
+    })();
+  }
+  return context.service.streamList({
+    ...buildWindows(query, context.campaign, context.edition),
+    ...(groupBy && { groupBy }),
+  });
+}
+
+/**
+ * Presentation of the listing export derived from the query
+ */
+function listExportLayout(query: CampaignListExportQueryString) {
+  const groupBy = query.groupBy;
+  return {
+    dimensionLabel: query.dimensionLabel || groupBy || 'Grupo',
+    // Grouping by the counted entity itself would render a column of 1s.
+    hideNumerica: groupBy === 'customer_id',
+    hideItems: groupBy === 'product_id',
+  };
+}
+
+/**
+ * Download name (without extension) of the listing export
+ */
+export function campaignListExportName(query: CampaignListExportQueryString, campaign: CampaignDefinition): string {
+  return sanitizeFilename(query.filename) || `${campaign.key}-${query.groupBy ?? 'listado'}`;
+}
+
+/**
+ * Download name (without extension) of the clientes-sin-compra export
+ */
+export function sinCompraExportName(query: CampaignSinCompraExportQueryString, campaign: CampaignDefinition): string {
+  return sanitizeFilename(query.filename) || `${campaign.key}-clientes-sin-compra`;
+}
+
+/**
+ * Build the styled Excel export of the campaign listing. The budget columns
+ * are shown only when some group has a budget.
+ *
+ * Shared by GET /campaigns/:campaign/list/export and the export jobs.
+ */
+export async function buildCampaignListExport(
+  context: CampaignExportContext,
+  query: CampaignListExportQueryString
+): Promise<Buffer> {
+  const rows = await fetchCampaignListRows(context, query);
+  return buildCampaignExportWorkbook({
+    rows,
+    campaignName: context.campaign.name,
+    ...listExportLayout(query),
+    includeBudget: rows.some((r) => r.presupuesto != null && r.presupuesto > 0),
+    ...(query.reportTitle && { reportTitle: query.reportTitle }),
+    ...(query.periodLabel && { periodLabel: query.periodLabel }),
+    ...(query.generatedLabel && { generatedLabel: query.generatedLabel }),
+  });
+}
+
+/**
+ * Stream the CSV or Parquet export of the campaign listing. The data files
+ * always carry the budget columns (empty when not applicable) and leave out
+ * the share of sales, which needs the grand total before the first row.
+ *
+ * @returns The encoded file chunks (the query has already returned its first row)
+ */
+export async function streamCampaignListExport(
+  context: CampaignExportContext,
+  query: CampaignListExportQueryString,
+  format: DataExportFormat
+): Promise<AsyncIterable<string | Buffer>> {
+  const rows = await prefetchRows(streamCampaignListRows(context, query));
+  const columns: Array<TabularColumn<CampaignListRow>> = [
+    { name: 'id', header: 'ID', type: 'string', value: (r) => r.id },
+    ...buildCampaignColumns({ ...listExportLayout(query), includeBudget: true })
+      .map((column): TabularColumn<CampaignListRow> => ({
+        name: column.id,
+        header: column.header,
+        type: column.format === 'text' ? 'string' : 'double',
+        value: column.value,
+      })),
+  ];
+  return encodeTabular(format, columns, rows);
+}
+
+/**
+ * Build the styled Excel export of the clientes-sin-compra listing
+ */
+export async function buildSinCompraExport(
+  { campaign, edition, service }: CampaignExportContext,
+  query: CampaignSinCompraExportQueryString
+): Promise<Buffer> {
+  const windows = buildWindows(query, campaign, edition);
+  const rows = await service.getSinCompraList({
+    currentFilters: windows.currentFilters,
+    universeFilters: windows.universeFilters,
+  });
+
+  return buildSinCompraExportWorkbook({
+    rows,
+    ...(query.reportTitle && { reportTitle: query.reportTitle }),
+    ...(query.periodLabel && { periodLabel: query.periodLabel }),
+    ...(query.generatedLabel && { generatedLabel: query.generatedLabel }),
+  });
+}
@@ -1,9 +1,11 @@
 import ExcelJS from 'exceljs';
 import { toArgb, complianceColor } from '../list/list.export.heatmap.js';
-import type { FestivalListRow, FestivalSinCompraRow } from './festival.schemas.js';
+import type { CampaignListRow, CampaignSinCompraRow } from './campaign.schemas.js';
 
-export interface FestivalWorkbookInput {
-  rows: FestivalListRow[];
+export interface CampaignWorkbookInput {
+  rows: CampaignListRow[];
+  /** Campaign name: sheet name and default report title. */
+  campaignName: string;
   /** Header of the dimension column (e.g. "Proveedor"). */
   dimensionLabel: string;
   /** Show the budget columns (only when the grouping carries a budget). */
@@ -17,14 +19,24 @@ export interface FestivalWorkbookInput {
   generatedLabel?: string;
 }
 
+/**
+ * Inputs that decide the listing columns (shared by the workbook and the
+ * CSV/Parquet exports). `totalSales` adds the share-of-sales column.
+ */
+export type CampaignColumnsInput = Pick<CampaignWorkbookInput, 'dimensionLabel' | 'includeBudget' | 'hideNumerica' | 'hideItems'> & {
+  totalSales?: number;
+};
+
 type ColFormat = 'text' | 'currency' | 'percent' | 'integer';
 
-interface FestivalExcelColumn {
+export interface CampaignExcelColumn {
+  /** Stable column id (the listing row field, or "share") */
+  id: string;
   header: string;
   format: ColFormat;
   width: number;
-  value: (row: FestivalListRow) => number | string | null;
-  color?: (row: FestivalListRow) => string; // hex6, no '#'
+  value: (row: CampaignListRow) => number | string | null;
+  color?: (row: CampaignListRow) => string; // hex6, no '#'
 }
 
 const NUM_FMT: Record<ColFormat, string | undefined> = {
@@ -43,97 +55,99 @@ const MUTED_TEXT = 'FF64748B';
 const ZEBRA_FILL = 'FFF8FAFC'; // slate-50
 const BORDER = 'FFE2E8F0';
 
-/** Ordered festival columns — mirrors the on-screen listing. */
-function buildColumns(input: FestivalWorkbookInput): FestivalExcelColumn[] {
-  const total = input.rows.reduce((sum, r) => sum + r.sales_total, 0);
+/** Ordered campaign columns — mirrors the on-screen listing. */
+export function buildCampaignColumns(input: CampaignColumnsInput): CampaignExcelColumn[] {
+  const total = input.totalSales;
 
-  const cols: (FestivalExcelColumn | null)[] = [
+  const cols: (CampaignExcelColumn | null)[] = [
     {
-      header: input.dimensionLabel, format: 'text', width: 34,
+      id: 'name', header: input.dimensionLabel, format: 'text', width: 34,
       value: (r) => r.name,
     },
+    total === undefined
+      ? null
+      : {
+          id: 'share', header: '% Ventas', format: 'percent', width: 12,
+          value: (r) => (total > 0 ? (r.sales_total / total) * 100 : 0),
+        },
     {
-      header: '% Ventas', format: 'percent', width: 12,
-      value: (r) => (total > 0 ? (r.sales_total / total) * 100 : 0),
-    },
-    {
-      header: 'Ventas (Facturado + Comprometido)', format: 'currency', width: 20,
+      id: 'sales_total', header: 'Ventas (Facturado + Comprometido)', format: 'currency', width: 20,
       value: (r) => r.sales_total,
     },
     input.includeBudget
       ? {
-          header: 'Ppto Festival', format: 'currency', width: 16,
+          id: 'presupuesto', header: 'Presupuesto', format: 'currency', width: 16,
           value: (r) => r.presupuesto,
         }
       : null,
     input.includeBudget
       ? {
-          header: '% Cumpl. Ppto', format: 'percent', width: 14,
+          id: 'cumplimiento_ppto', header: '% Cumpl. Ppto', format: 'percent', width: 14,
           value: (r) => r.cumplimiento_ppto,
           color: (r) => complianceColor(r.cumplimiento_ppto ?? 0),
         }
       : null,
     {
-      header: 'Comprometido', format: 'currency', width: 16,
+      id: 'comprometido', header: 'Comprometido', format: 'currency', width: 16,
       value: (r) => r.comprometido,
     },
     {
-      header: 'Margen Bruto %', format: 'percent', width: 14,
+      id: 'gross_margin_pct', header: 'Margen Bruto %', format: 'percent', width: 14,
       value: (r) => r.gross_margin_pct,
     },
     {
-      header: 'Margen Recuperado %', format: 'percent', width: 16,
+      id: 'rappel_pct', header: 'Margen Recuperado %', format: 'percent', width: 16,
       value: (r) => r.rappel_pct,
     },
     {
-      header: 'Margen Total %', format: 'percent', width: 14,
+      id: 'margen_rappel_pct', header: 'Margen Total %', format: 'percent', width: 14,
       value: (r) => r.margen_rappel_pct,
     },
     {
-      header: 'Pedido Promedio', format: 'currency', width: 16,
+      id: 'pedido_promedio', header: 'Pedido Promedio', format: 'currency', width: 16,
       value: (r) => r.pedido_promedio,
     },
     input.hideItems
       ? null
       : {
-          header: 'Items', format: 'integer', width: 12,
+          id: 'productos_unicos', header: 'Items', format: 'integer', width: 12,
           value: (r) => r.productos_unicos,
         },
     input.hideNumerica
       ? null
       : {
-          header: 'Numérica', format: 'integer', width: 12,
+          id: 'clientes_unicos', header: 'Numérica', format: 'integer', width: 12,
           value: (r) => r.clientes_unicos,
         },
     input.hideNumerica
       ? null
       : {
-          header: 'Clientes sin compra', format: 'integer', width: 16,
+          id: 'clientes_sin_compra', header: 'Clientes sin compra', format: 'integer', width: 16,
           value: (r) => r.clientes_sin_compra,
         },
   ];
 
-  return cols.filter((c): c is FestivalExcelColumn => c !== null);
+  return cols.filter((c): c is CampaignExcelColumn => c !== null);
 }
 
 export interface SinCompraWorkbookInput {
-  rows: FestivalSinCompraRow[];
+  rows: CampaignSinCompraRow[];
   reportTitle?: string;
   periodLabel?: string;
   generatedLabel?: string;
 }
 
 /**
- * "Clientes sin compra" export: the active-year customers without a festival
+ * "Clientes sin compra" export: the universe customers without a campaign
  * purchase, with their assigned seller. Same visual language as the listing
  * export (title block, dark header, zebra rows, auto filter).
  */
 export async function buildSinCompraExportWorkbook(input: SinCompraWorkbookInput): Promise<Buffer> {
   const columns = [
-    { header: 'NIT', width: 16, value: (r: FestivalSinCompraRow) => r.customer_id },
-    { header: 'Cliente', width: 46, value: (r: FestivalSinCompraRow) => r.customer_name },
-    { header: 'Código Vendedor', width: 16, value: (r: FestivalSinCompraRow) => r.seller_id },
-    { header: 'Vendedor', width: 34, value: (r: FestivalSinCompraRow) => r.seller_name },
+    { header: 'NIT', width: 16, value: (r: CampaignSinCompraRow) => r.customer_id },
+    { header: 'Cliente', width: 46, value: (r: CampaignSinCompraRow) => r.customer_name },
+    { header: 'Código Vendedor', width: 16, value: (r: CampaignSinCompraRow) => r.seller_id },
+    { header: 'Vendedor', width: 34, value: (r: CampaignSinCompraRow) => r.seller_name },
   ];
   const lastCol = columns.length;
 
@@ -199,8 +213,14 @@ export async function buildSinCompraExportWorkbook(input: SinCompraWorkbookInput
   return Buffer.from(buffer as ArrayBuffer);
 }
 
-export async function buildFestivalExportWorkbook(input: FestivalWorkbookInput): Promise<Buffer> {
-  const columns = buildColumns(input);
+export async function buildCampaignExportWorkbook(input: CampaignWorkbookInput): Promise<Buffer> {
+  const columns = buildCampaignColumns({
+    dimensionLabel: input.dimensionLabel,
+    includeBudget: input.includeBudget,
+    hideNumerica: input.hideNumerica,
+    hideItems: input.hideItems,
+    totalSales: input.rows.reduce((sum, r) => sum + r.sales_total, 0),
+  });
   const lastCol = columns.length;
 
   // Optional report title block above the table (title, period, spacer).
@@ -209,7 +229,7 @@ export async function buildFestivalExportWorkbook(input: FestivalWorkbookInput):
   const headerRow = topOffset + 1;
 
   const wb = new ExcelJS.Workbook();
-  const ws = wb.addWorksheet('Festival', {
+  const ws = wb.addWorksheet(input.campaignName.slice(0, 31), {
     views: [{ state: 'frozen', xSplit: 1, ySplit: headerRow }],
   });
 
@@ -227,7 +247,7 @@ export async function buildFestivalExportWorkbook(input: FestivalWorkbookInput):
   if (hasTitle) {
     const titleRow = ws.getRow(1);
     ws.mergeCells(1, 1, 1, lastCol);
-    titleRow.getCell(1).value = input.reportTitle || 'Festival Virtual';
+    titleRow.getCell(1).value = input.reportTitle || input.campaignName;
     titleRow.getCell(1).font = { name: FONT, bold: true, size: 15, color: { argb: HEADER_FILL } };
     titleRow.getCell(1).alignment = { horizontal: 'left', vertical: 'middle' };
     titleRow.height = 24;
@@ -0,0 +1,223 @@
+import type { FilterCondition } from '../../core/db/clickhouse/query/filter-builder.js';
+import type { CampaignDefinition, CampaignVirtualGroup } from '../../core/config/campaigns.config.js';
+import type { CampaignEditionResponse } from './campaign.editions.schemas.js';
+import { parseDynamicFilters, combineFilters, querystringParams } from '../../core/utils/filter-parser.js';
+import { ForbiddenError } from '../../core/errors/app-error.js';
+import {
+  CampaignListExportQueryStringSchema,
+  CampaignListQueryStringSchema,
+  CampaignQueryStringSchema,
+  CampaignSinCompraExportQueryStringSchema,
+} from './campaign.schemas.js';
+
+// Params of the campaign querystrings (editionId...), never filters
+const CAMPAIGN_PARAMS = querystringParams(
+  CampaignQueryStringSchema,
+  CampaignListQueryStringSchema,
+  CampaignListExportQueryStringSchema,
+  CampaignSinCompraExportQueryStringSchema
+);
+
+/**
+ * Edition settings the campaign filters are built from
+ */
+export type CampaignWindowEdition = Pick<
+  CampaignEditionResponse,
+  'startDate' | 'endDate' | 'compareEdition' | 'budgetPeriodo' | 'rules' | 'channels'
+>;
+
+/**
+ * Channel filters always applied to the campaign, both windows: only the
+ * edition's sales channels count (distribution, for the festival — retail,
+ * exports and chains do not apply).
+ * Scoped to the sales tables: the budget table has no channel column and is
+ * per edition by nature — an unscoped filter would zero it.
+ */
+function channelFilters(campaign: CampaignDefinition, channels: string[]): FilterCondition[] {
+  return Object.keys(campaign.dateFields).map((table): FilterCondition => (
+    channels.length === 1
+      ? { field: 'channel', operator: 'eq', value: channels[0]!, table }
+      : { field: 'channel', operator: 'in', value: channels, table }
+  ));
+}
+
+/**
+ * Values of an edition rule. An edition saved before its campaign defined
+ * the rule has none: the rule matches no value until the edition sets it.
+ */
+function ruleValues(edition: Pick<CampaignWindowEdition, 'rules'>, rule: string): string[] {
+  return edition.rules[rule] ?? [];
+}
+
+/**
+ * Per-table conditions of one bucket of a virtual grouping (null for an
+ * unknown bucket). Membership buckets read their list from the edition rule:
+ * the members bucket is an IN, the others bucket one neq per member.
+ */
+export function virtualGroupFilters(
+  group: CampaignVirtualGroup,
+  bucket: string,
+  edition: Pick<CampaignWindowEdition, 'rules'>
+): FilterCondition[] | null {
+  if (group.kind === 'conditions') {
+    return group.buckets.find((b) => b.id === bucket)?.conditions ?? null;
+  }
+  const members = ruleValues(edition, group.rule);
+  const fields = Object.entries(group.fieldByTable);
+  if (bucket === group.members.id) {
+    return fields.map(([table, field]): FilterCondition => ({ field, operator: 'in', value: members, table }));
+  }
+  if (bucket === group.others.id) {
+    return fields.flatMap(([table, field]) =>
+      members.map((value): FilterCondition => ({ field, operator: 'neq', value, table }))
+    );
+  }
+  return null;
+}
+
+/**
+ * Buckets (rows) of a virtual grouping, in declaration order
+ */
+export function virtualGroupBuckets(group: CampaignVirtualGroup): Array<{ id: string; name: string }> {
+  return group.kind === 'conditions'
+    ? group.buckets.map(({ id, name }) => ({ id, name }))
+    : [group.members, group.others];
+}
+
+/**
+ * Expand virtual drill filters (e.g. `brand_group`, `rappel_group`) into real
+ * per-table conditions so the rest of the pipeline sees normal column filters
+ * (they are UI buckets, not ClickHouse columns; unknown buckets are dropped),
+ * and scope the per-table drill dimensions (see `scopedDrillFields`).
+ */
+function expandDrillFilters(
+  campaign: CampaignDefinition,
+  filters: FilterCondition[],
+  edition: Pick<CampaignWindowEdition, 'rules'>
+): FilterCondition[] {
+  return filters.flatMap((f) => {
+    const group = campaign.virtualGroups[f.field];
+    if (group) {
+      return typeof f.value === 'string' ? virtualGroupFilters(group, f.value, edition) ?? [] : [];
+    }
+    const scoped = campaign.scopedDrillFields[f.field];
+    if (scoped && !f.table) {
+      // trim: pedidos_retenidos pads identifiers with spaces (IdRegional,
+      // customer_id) — comparing trimBoth(column) keeps the drill filters
+      // matching. Harmless on the tables that store them clean.
+      return Object.entries(scoped).map(([table, field]) => ({ ...f, field, table, trim: true }));
+    }
+    return [f];
+  });
+}
+
+/**
+ * Adapt the user's role data scope to the campaign tables. A channel scope is
+ * applied like the edition's channel filters (sales tables only — the budget
+ * has no channel column); roles scoped to none of the edition's channels have
+ * no data in the campaign. Drill-dimension scopes (e.g. retail's IdRegional)
+ * get one scoped copy per table, like the drill filters.
+ */
+export function campaignScopeFilters(
+  scopeFilters: FilterCondition[],
+  campaign: CampaignDefinition,
+  edition: Pick<CampaignWindowEdition, 'channels' | 'rules'>
+): FilterCondition[] {
+  return scopeFilters.flatMap((f) => {
+    if (f.field !== 'channel') {
+      return expandDrillFilters(campaign, [f], edition);
+    }
+    const values = Array.isArray(f.value) ? f.value : [f.value];
+    if (!values.some((value) => edition.channels.includes(value))) {
+      throw new ForbiddenError('Access denied');
+    }
+    return Object.keys(campaign.dateFields).map((table) => ({ ...f, table }));
+  });
+}
+
+/**
+ * Build gte/lte date-range filters for the campaign, scoped per table on its
+ * ORDER-date column (see `dateFields` — an unscoped filter would zero the
+ * balance or leave the listing unbounded in time).
+ */
+function dateRangeFilters(campaign: CampaignDefinition, start: string, end: string): FilterCondition[] {
+  return Object.entries(campaign.dateFields).flatMap(([table, field]): FilterCondition[] => [
+    { field, operator: 'gte', value: start, table },
+    { field, operator: 'lte', value: end, table },
+  ]);
+}
+
+/**
+ * Budget-table filter selecting an edition's budget (its budget periodo)
+ */
+function budgetFilters(campaign: CampaignDefinition, periodo: string): FilterCondition[] {
+  const budget = campaign.budget;
+  return budget ? [{ field: budget.periodoField, operator: 'eq', value: periodo, table: budget.table }] : [];
+}
+
+/**
+ * Conditions of the "clientes sin compra" universe of an edition
+ */
+function universeConditions(campaign: CampaignDefinition, edition: Pick<CampaignWindowEdition, 'rules'>): FilterCondition[] {
+  const { table, regionalField, rule, conditions } = campaign.universe;
+  return [...conditions, { field: regionalField, operator: 'in', value: ruleValues(edition, rule), table }];
+}
+
+/**
+ * Build the event-window and (optional) comparison-window filter sets of an
+ * edition, plus the customer universe for `clientes_sin_compra` (same dynamic
+ * filters — only those matching universe columns apply — plus the universe
+ * conditions and the regionals of the edition's universe rule).
+ * Dynamic filters (the querystring params are not filters) and the edition's
+ * channels and rules apply to both windows, so the comparison edition is
+ * measured by the rules of the edition being viewed.
+ * `comparisonFilters` is undefined when the edition has no comparison edition.
+ */
+export function buildWindows(
+  query: Record<string, unknown>,
+  campaign: CampaignDefinition,
+  edition: CampaignWindowEdition
+): {
+  currentFilters: FilterCondition[];
+  comparisonFilters?: FilterCondition[];
+  universeFilters: FilterCondition[];
+} {
+  // The edition's channels are enforced server-side; virtual buckets are expanded.
+  const dynamicFilters = [
+    ...channelFilters(campaign, edition.channels),
+    ...expandDrillFilters(campaign, parseDynamicFilters(query, CAMPAIGN_PARAMS), edition),
+  ];
+  // The budget joins each window via its edition (periodo), not via dates.
+  const currentFilters = combineFilters(dynamicFilters, [
+    ...dateRangeFilters(campaign, edition.startDate, edition.endDate),
+    ...budgetFilters(campaign, edition.budgetPeriodo),
+  ]);
+  const universeFilters = combineFilters(dynamicFilters, universeConditions(campaign, edition));
+  const compare = edition.compareEdition;
+  if (compare) {
+    return {
+      currentFilters,
+      comparisonFilters: combineFilters(dynamicFilters, [
+        ...dateRangeFilters(campaign, compare.startDate, compare.endDate),
+        ...budgetFilters(campaign, compare.budgetPeriodo),
+      ]),
+      universeFilters,
+    };
+  }
+  return { currentFilters, universeFilters };
+}
+
+/**
+ * Event and comparison windows of an edition, for the "mismo día" pacing of
+ * the balance
+ */
+export function editionWindow(edition: CampaignWindowEdition): {
+  startDate: string; endDate: string; compareStartDate?: string; compareEndDate?: string;
+} {
+  const compare = edition.compareEdition;
+  return {
+    startDate: edition.startDate,
+    endDate: edition.endDate,
+    ...(compare && { compareStartDate: compare.startDate, compareEndDate: compare.endDate }),
+  };
+}
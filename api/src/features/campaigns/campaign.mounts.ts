@@ -0,0 +1,33 @@
+import type { FastifyRequest, FastifySchema } from 'fastify';
+import { CampaignParamsSchema } from './campaign.schemas.js';
+
+/**
+ * Where a set of campaign routes is mounted and which campaign it serves
+ */
+export interface CampaignMount {
+  path: string;
+  /** Campaign of a request: the `:campaign` param or a fixed key */
+  campaignOf(request: FastifyRequest): string;
+  /** Route schema shared by the mount (params, deprecation) */
+  schema: FastifySchema;
+}
+
+export const campaignsMount: CampaignMount = {
+  path: '/campaigns/:campaign',
+  campaignOf: (request) => (request.params as { campaign: string }).campaign,
+  schema: { params: CampaignParamsSchema },
+};
+
+/**
+ * The festival's routes before campaigns were generalized (/festival,
+ * /festival/list…), kept for existing clients. Deprecated: use
+ * /campaigns/festival.
+ */
+export const festivalAlias: CampaignMount = {
+  path: '/festival',
+  campaignOf: () => 'festival',
+  schema: { deprecated: true },
+};
+
+/** Every mount of the campaign routes, the canonical one first */
+export const campaignMounts: readonly CampaignMount[] = [campaignsMount, festivalAlias];
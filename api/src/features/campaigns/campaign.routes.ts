@@ -0,0 +1,242 @@
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import type { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
+import { CampaignService } from './campaign.service.js';
+import { campaignMounts, type CampaignMount } from './campaign.mounts.js';
+import { AnalyticsQueryBuilder } from '../../core/db/clickhouse/query/analytics-query-builder.js';
+import { queryCacheFor } from '../../core/cache/query-cache.js';
+import type { DatabaseClient } from '../../core/db/clickhouse/client.js';
+import {
+  CampaignQueryStringSchema,
+  CampaignBalanceSchema,
+  CampaignListQueryStringSchema,
+  CampaignListExportQueryStringSchema,
+  CampaignListSchema,
+  CampaignDailySchema,
+  CampaignSinCompraSchema,
+  CampaignSinCompraExportQueryStringSchema,
+} from './campaign.schemas.js';
+import { buildWindows, editionWindow, campaignScopeFilters } from './campaign.filters.js';
+import { campaignEditionsService } from './campaign.editions.service.js';
+import { campaignDefinitionsService } from './campaign.definitions.service.js';
+import type { CampaignEditionResponse } from './campaign.editions.schemas.js';
+import {
+  fetchCampaignListRows,
+  buildCampaignListExport,
+  streamCampaignListExport,
+  buildSinCompraExport,
+  campaignListExportName,
+  sinCompraExportName,
+  type CampaignExportContext,
+} from './campaign.export.builder.js';
+import { SuccessResponseSchema } from '../../core/schemas/common.schemas.js';
+import { authenticate } from '../../core/middleware/authenticate.js';
+import { resolveDataScope } from '../../core/middleware/data-scope.js';
+import { sendExport } from '../../core/export/tabular-export.js';
+
+/**
+ * Register the campaign routes under /campaigns/:campaign (e.g.
+ * /campaigns/festival, /campaigns/festival/list…), plus the deprecated
+ * /festival aliases. Any stored campaign is served; unknown keys are 404.
+ *
+ * Every route takes the `editionId` of a published edition of the campaign
+ * (see campaign.editions.routes.ts): its window, comparison edition, budget
+ * periodo and business rules drive the queries.
+ */
+export function campaignRoutes(fastify: FastifyInstance, dbClient: DatabaseClient): void {
+  const analyticsBuilder = new AnalyticsQueryBuilder(dbClient.getClient(), [], queryCacheFor(fastify, 'campaign'));
+  for (const mount of campaignMounts) {
+    mountCampaignRoutes(fastify, analyticsBuilder, mount);
+  }
+}
+
+function mountCampaignRoutes(
+  fastify: FastifyInstance,
+  analyticsBuilder: AnalyticsQueryBuilder,
+  { path, campaignOf, schema }: CampaignMount
+): void {
+  const server = fastify.withTypeProvider<TypeBoxTypeProvider>();
+
+  // Campaign and edition of the query, and the service bound per request to
+  // the user's data scope (adapted to the edition's channels)
+  const campaignFor = async (
+    request: FastifyRequest,
+    editionId: string
+  ): Promise<CampaignExportContext & { edition: CampaignEditionResponse }> => {
+    const campaign = await campaignDefinitionsService.resolve(campaignOf(request));
+    const edition = await campaignEditionsService.resolve(editionId, campaign.key);
+    const scope = campaignScopeFilters(request.dataScope ?? [], campaign, edition);
+    const service = new CampaignService(analyticsBuilder.withScope(scope, request.queryCacheStats), campaign);
+    return { campaign, edition, service };
+  };
+
+  /**
+   * GET /campaigns/:campaign
+   * Campaign dashboard metrics for the edition's event window compared
+   * against the window of its comparison edition. Dynamic filters apply to
+   * both windows.
+   */
+  server.get(
+    path,
+    {
+      preHandler: [authenticate, resolveDataScope],
+      schema: {
+        description: "Campaign metrics: sales (+comprometido), margin, growth and rappel for the edition's event window vs its comparison edition.",
+        tags: ['campaigns'],
+        ...schema,
+        querystring: CampaignQueryStringSchema,
+        response: {
+          200: SuccessResponseSchema(CampaignBalanceSchema),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { campaign, edition, service } = await campaignFor(request, request.query.editionId);
+      const balance = await service.getBalance({
+        ...buildWindows(request.query, campaign, edition),
+        window: editionWindow(edition),
+      });
+      return reply.code(200).send({ data: balance });
+    }
+  );
+
+  /**
+   * GET /campaigns/:campaign/list
+   * Campaign metrics grouped by an arbitrary dimension (groupBy, defaults to
+   * the campaign's defaultGroupBy), ordered by event sales. Same
+   * edition/filters contract as the balance.
+   */
+  server.get(
+    `${path}/list`,
+    {
+      preHandler: [authenticate, resolveDataScope],
+      schema: {
+        description: "Campaign metrics grouped by the requested dimension for the edition's event window.",
+        tags: ['campaigns'],
+        ...schema,
+        querystring: CampaignListQueryStringSchema,
+        response: {
+          200: SuccessResponseSchema(CampaignListSchema),
+        },
+      },
+    },
+    async (request, reply) => {
+      const context = await campaignFor(request, request.query.editionId);
+      const rows = await fetchCampaignListRows(context, request.query);
+      return reply.code(200).send({ data: rows });
+    }
+  );
+
+  /**
+   * GET /campaigns/:campaign/list/export
+   * Same listing as /campaigns/:campaign/list, as a styled Excel file or a
+   * CSV / Parquet file streamed from ClickHouse. The data files always carry the budget
+   * columns (empty when not applicable) and leave out the share of sales,
+   * which needs the grand total before the first row.
+   */
+  server.get(
+    `${path}/list/export`,
+    {
+      preHandler: [authenticate, resolveDataScope],
+      schema: {
+        description: 'Export the campaign listing (grouped by the requested dimension) as a styled Excel file or a streamed CSV / Parquet file.',
+        tags: ['campaigns'],
+        ...schema,
+        querystring: CampaignListExportQueryStringSchema,
+        // NOTE: no response schema — the handler sends a raw file.
+      },
+    },
+    async (request, reply) => {
+      const query = request.query;
+      const format = query.format ?? 'xlsx';
+      const context = await campaignFor(request, query.editionId);
+      const body = format === 'xlsx'
+        ? await buildCampaignListExport(context, query)
+        : await streamCampaignListExport(context, query, format);
+
+      return sendExport(reply, format, campaignListExportName(query, context.campaign), body);
+    }
+  );
+
+  /**
+   * GET /campaigns/:campaign/sin-compra
+   * Detail of the `clientes_sin_compra` balance metric: the universe
+   * customers with no purchase during the campaign, with their assigned
+   * seller. Same edition/filters contract as the balance.
+   */
+  server.get(
+    `${path}/sin-compra`,
+    {
+      preHandler: [authenticate, resolveDataScope],
+      schema: {
+        description: 'Clientes del universo de la campaña sin compra durante la campaña, con su vendedor.',
+        tags: ['campaigns'],
+        ...schema,
+        querystring: CampaignQueryStringSchema,
+        response: {
+          200: SuccessResponseSchema(CampaignSinCompraSchema),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { campaign, edition, service } = await campaignFor(request, request.query.editionId);
+      const windows = buildWindows(request.query, campaign, edition);
+      const rows = await service.getSinCompraList({
+        currentFilters: windows.currentFilters,
+        universeFilters: windows.universeFilters,
+      });
+      return reply.code(200).send({ data: rows });
+    }
+  );
+
+  /**
+   * GET /campaigns/:campaign/sin-compra/export
+   * Same listing as /campaigns/:campaign/sin-compra, streamed as a styled
+   * Excel file.
+   */
+  server.get(
+    `${path}/sin-compra/export`,
+    {
+      preHandler: [authenticate, resolveDataScope],
+      schema: {
+        description: 'Export the campaign clientes-sin-compra listing as a styled Excel file.',
+        tags: ['campaigns'],
+        ...schema,
+        querystring: CampaignSinCompraExportQueryStringSchema,
+        // NOTE: no response schema — the handler sends a raw xlsx Buffer.
+      },
+    },
+    async (request, reply) => {
+      const query = request.query;
+      const context = await campaignFor(request, query.editionId);
+      const buffer = await buildSinCompraExport(context, query);
+      return sendExport(reply, 'xlsx', sinCompraExportName(query, context.campaign), buffer);
+    }
+  );
+
+  /**
+   * GET /campaigns/:campaign/daily
+   * Daily sales series (facturado + comprometido) over the event window.
+   * Same edition/filters contract as the balance; the comparison edition is ignored.
+   */
+  server.get(
+    `${path}/daily`,
+    {
+      preHandler: [authenticate, resolveDataScope],
+      schema: {
+        description: 'Campaign daily sales series (facturado + comprometido) for the event window.',
+        tags: ['campaigns'],
+        ...schema,
+        querystring: CampaignQueryStringSchema,
+        response: {
+          200: SuccessResponseSchema(CampaignDailySchema),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { campaign, edition, service } = await campaignFor(request, request.query.editionId);
+      const { currentFilters } = buildWindows(request.query, campaign, edition);
+      const rows = await service.getDailySales({ currentFilters });
+      return reply.code(200).send({ data: rows });
+    }
+  );
+}
@@ -0,0 +1,226 @@
+import { Type, type Static } from '@sinclair/typebox';
+import { ExportFormatSchema } from '../../core/schemas/common.schemas.js';
+
+/**
+ * TypeBox schemas and types for the campaign endpoints.
+ *
+ * A campaign dashboard (Festival Virtual, …, see campaigns.config.ts) tracks
+ * sales of a concrete event (an edition, see campaign.editions.schemas.ts)
+ * over its date window and compares it against the window of another edition
+ * (not the app-wide year-over-year comparison). It has no period presets.
+ */
+
+/**
+ * Route params of the campaign endpoints (/campaigns/:campaign…)
+ */
+export const CampaignParamsSchema = Type.Object({
+  campaign: Type.String({ description: 'Campaign key (GET /campaigns)' }),
+});
+
+/**
+ * Query parameters for the campaign balance endpoint.
+ * - editionId: the edition (event window, comparison edition, budget periodo
+ *   and business rules) — see GET /campaigns/:campaign/editions
+ * - any other param: dynamic filters (comma-separated for multiple values)
+ */
+export const CampaignQueryStringSchema = Type.Object(
+  {
+    // Without a comparison edition, comparison fields come back null.
+    editionId: Type.String({ format: 'uuid', description: 'Campaign edition (GET /campaigns/:campaign/editions)' }),
+  },
+  {
+    additionalProperties: true,
+    description: 'Campaign edition. Accepts dynamic filters beyond editionId.',
+  }
+);
+
+export type CampaignQueryString = Static<typeof CampaignQueryStringSchema>;
+
+const NullableNumber = Type.Union([Type.Number(), Type.Null()]);
+
+/**
+ * Campaign balance response. Growth/comparison fields are the event window vs
+ * the window of the comparison edition (nullable without one, or when the
+ * comparison base is 0).
+ */
+export const CampaignBalanceSchema = Type.Object(
+  {
+    // Ventas (facturado + comprometido)
+    sales_total: Type.Number({ description: 'Ventas del evento (facturado + comprometido)' }),
+    sales_total_compare: NullableNumber, // null cuando no hay comparativa
+    sales_total_growth: NullableNumber, // % vs comparación (evento completo)
+    // Crecimiento "a mismo día": días cerrados vs mismos días del evento anterior.
+    sales_total_growth_to_date: NullableNumber, // null hasta cerrar el día 1 o sin comparativa
+    // Acumulado del evento anterior hasta el día en curso (crece cada día).
+    sales_total_compare_to_date: NullableNumber,
+    to_date_days: Type.Number({ description: 'Días cerrados incluidos en el crecimiento a mismo día' }),
+    current_day: Type.Number({ description: 'Día del evento en curso (0 antes de empezar)' }),
+    event_days: Type.Number({ description: 'Duración del evento en días' }),
+
+    // Margen
+    gross_margin: Type.Number({ description: 'Margen bruto (valor absoluto)' }),
+    gross_margin_pct: Type.Number({ description: 'Margen bruto %' }),
+    gross_margin_pct_compare: NullableNumber,
+    gross_margin_pct_growth: NullableNumber,
+
+    // Rappel (nueva columna, aún no disponible → 0 por ahora)
+    rappel: Type.Number({ description: 'Rappel (valor absoluto)' }),
+    rappel_pct: Type.Number({ description: 'Rappel %' }),
+
+    // Margen + Rappel
+    margen_rappel: Type.Number({ description: 'Margen bruto + rappel (valor absoluto)' }),
+    margen_rappel_pct: Type.Number({ description: '(Margen bruto + rappel) sobre ventas, %' }),
+    margen_rappel_pct_compare: NullableNumber, // null sin comparativa
+    margen_rappel_pct_growth: NullableNumber, // puntos porcentuales vs comparación (evento completo)
+    margen_rappel_pct_growth_to_date: NullableNumber, // puntos "a mismo día" (días cerrados)
+    margen_rappel_pct_compare_to_date: NullableNumber, // margen del anterior hasta el día en curso
+
+    // Pedidos
+    comprometido: Type.Number({ description: 'Valor de pedidos comprometidos (pendientes de facturar)' }),
+    pedidos_count: Type.Number({ description: 'Nº de pedidos del evento (facturados + comprometidos, sin solape)' }),
+    pedido_promedio: Type.Number({ description: 'Ventas totales del evento / nº de pedidos' }),
+    pedido_promedio_compare: NullableNumber, // null sin comparativa o sin pedidos en la ventana comparada
+
+    // Alcance del evento (deduplicados entre facturado y comprometido)
+    clientes_unicos: Type.Number({ description: 'Clientes únicos atendidos durante el evento' }),
+    productos_unicos: Type.Number({ description: 'Productos únicos vendidos durante el evento' }),
+    clientes_sin_compra: Type.Number({
+      description: 'Clientes del maestro (activos, no bloqueados, regionales comerciales) sin compra durante la campaña',
+    }),
+
+    // Presupuesto de la campaña. Null cuando los filtros activos no son
+    // aplicables al presupuesto (producto, cliente, marca, promoción…).
+    presupuesto: NullableNumber, // presupuesto completo del evento
+    cumplimiento_ppto: NullableNumber, // ventas totales / presupuesto total, %
+  },
+  { $id: 'CampaignBalance', description: 'Métricas del dashboard de una campaña comercial' }
+);
+
+export type CampaignBalance = Static<typeof CampaignBalanceSchema>;
+
+/**
+ * Query parameters for the campaign listing: the edition plus the dimension
+ * to group by (defaults to the campaign's defaultGroupBy).
+ */
+export const CampaignListQueryStringSchema = Type.Object(
+  {
+    ...CampaignQueryStringSchema.properties,
+    groupBy: Type.Optional(Type.String({ description: 'Dimension to group rows by (e.g. ProveedorComercial)' })),
+  },
+  {
+    additionalProperties: true,
+    description: 'Campaign listing grouped by an arbitrary dimension.',
+  }
+);
+
+export type CampaignListQueryString = Static<typeof CampaignListQueryStringSchema>;
+
+/**
+ * Query parameters for the campaign listing export: same contract as the
+ * listing plus the file format and presentation labels. Both are
+ * reserved in the dynamic filter parser, so they never leak into the filters.
+ */
+export const CampaignListExportQueryStringSchema = Type.Composite(
+  [
+    CampaignListQueryStringSchema,
+    Type.Object({
+      format: Type.Optional(ExportFormatSchema),
+      dimensionLabel: Type.Optional(Type.String({ description: 'Header of the dimension column' })),
+      reportTitle: Type.Optional(Type.String({ description: 'Report title shown at the top of the file' })),
+      periodLabel: Type.Optional(Type.String({ description: 'Human-readable event window' })),
+      generatedLabel: Type.Optional(Type.String({ description: 'Date the export was generated' })),
+      filename: Type.Optional(Type.String({ description: 'Download filename (without extension)' })),
+    }),
+  ],
+  {
+    additionalProperties: true,
+    description: 'Campaign listing export: listing params + presentation labels.',
+  }
+);
+
+export type CampaignListExportQueryString = Static<typeof CampaignListExportQueryStringSchema>;
+
+/**
+ * One row of the campaign listing (grouped by any dimension). Same metric
+ * labels as the header cards: ventas del evento, margen %, rappel %, margen + rappel %.
+ */
+export const CampaignListRowSchema = Type.Object(
+  {
+    id: Type.String({ description: 'Raw value of the grouped dimension (for drill-down filtering)' }),
+    name: Type.String({ description: 'Display value of the grouped dimension' }),
+    sales_total: Type.Number({ description: 'Ventas del evento (facturado + comprometido)' }),
+    gross_margin_pct: Type.Number({ description: 'Margen bruto %' }),
+    rappel_pct: Type.Number({ description: 'Rappel %' }),
+    margen_rappel_pct: Type.Number({ description: '(Margen + rappel) sobre ventas, %' }),
+    comprometido: Type.Number({ description: 'Valor de pedidos comprometidos (pendientes de facturar)' }),
+    pedido_promedio: Type.Number({ description: 'Ventas totales / nº de pedidos del grupo' }),
+    // Alcance del grupo (deduplicados entre facturado y comprometido)
+    clientes_unicos: Type.Number({ description: 'Numérica: clientes únicos del grupo durante el evento' }),
+    productos_unicos: Type.Number({ description: 'Items: productos únicos del grupo durante el evento' }),
+    clientes_sin_compra: Type.Number({
+      description: 'Clientes del maestro sin compra del grupo durante la campaña (en dimensiones del maestro, acotado a los clientes del grupo)',
+    }),
+    presupuesto: NullableNumber, // presupuesto del evento para el grupo; null si no aplica
+    cumplimiento_ppto: NullableNumber, // ventas / presupuesto total, %
+  },
+  { $id: 'CampaignListRow' }
+);
+
+export type CampaignListRow = Static<typeof CampaignListRowSchema>;
+
+export const CampaignListSchema = Type.Array(CampaignListRowSchema);
+
+/**
+ * One client of the "clientes sin compra" detail listing: a customer of the
+ * campaign's universe (the festival's: active, non-blocked customers of the
+ * commercial-regional master) with no purchase during the campaign, with the
+ * seller ASSIGNED in the master.
+ */
+export const CampaignSinCompraRowSchema = Type.Object(
+  {
+    customer_id: Type.String(),
+    customer_name: Type.String(),
+    seller_id: Type.String(),
+    seller_name: Type.String(),
+  },
+  { $id: 'CampaignSinCompraRow' }
+);
+
+export type CampaignSinCompraRow = Static<typeof CampaignSinCompraRowSchema>;
+
+export const CampaignSinCompraSchema = Type.Array(CampaignSinCompraRowSchema);
+
+/**
+ * Query parameters for the "clientes sin compra" Excel export: same contract
+ * as the balance plus presentation labels (reserved in the filter parser).
+ */
+export const CampaignSinCompraExportQueryStringSchema = Type.Composite(
+  [
+    CampaignQueryStringSchema,
+    Type.Object({
+      reportTitle: Type.Optional(Type.String()),
+      periodLabel: Type.Optional(Type.String()),
+      generatedLabel: Type.Optional(Type.String()),
+      filename: Type.Optional(Type.String()),
+    }),
+  ],
+  {
+    additionalProperties: true,
+    description: 'Clientes sin compra export: campaign params + presentation labels.',
+  }
+);
+
+export type CampaignSinCompraExportQueryString = Static<typeof CampaignSinCompraExportQueryStringSchema>;
+
+/** One day of the campaign daily sales series. */
+export const CampaignDailyPointSchema = Type.Object(
+  {
+    period: Type.String({ description: 'Día (yyyy-MM-dd)' }),
+    sales_total: Type.Number({ description: 'Ventas del día (facturado + comprometido)' }),
+  },
+  { $id: 'CampaignDailyPoint' }
+);
+
+export type CampaignDailyPoint = Static<typeof CampaignDailyPointSchema>;
+
+export const CampaignDailySchema = Type.Array(CampaignDailyPointSchema);
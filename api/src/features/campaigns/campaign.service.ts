@@ -1,16 +1,15 @@
 import type { IAnalyticsQueryBuilder, FilterCondition } from '../../core/db/clickhouse/query/interfaces.js';
-import {
-  FESTIVAL_METRICS,
-  FESTIVAL_DEFAULT_GROUP_BY,
-  FESTIVAL_DATE_FIELDS,
-  FESTIVAL_UNIVERSE_TABLE,
-  brandGroupFilters,
-  rappelGroupFilters,
-  type FestivalBalance,
-  type FestivalListRow,
-  type FestivalDailyPoint,
-  type FestivalSinCompraRow,
-} from './festival.schemas.js';
+import type { MetricConfig } from '../../core/db/clickhouse/query/types.js';
+import type { CampaignDefinition } from '../../core/config/campaigns.config.js';
+import type {
+  CampaignBalance,
+  CampaignListRow,
+  CampaignDailyPoint,
+  CampaignSinCompraRow,
+} from './campaign.schemas.js';
+import { virtualGroupBuckets, virtualGroupFilters, type CampaignWindowEdition } from './campaign.filters.js';
+import { closedWindowDays } from '../../core/utils/pacing.js';
+import { addDays } from '../../core/utils/dates.js';
 
 /**
  * Coalesce a possibly-null/undefined query value to a number. ClickHouse
@@ -27,76 +26,110 @@ function nullableNum(value: unknown): number | null {
   return typeof value === 'number' && Number.isFinite(value) ? value : null;
 }
 
-/** Day index (UTC epoch days) of a yyyy-MM-dd string. */
-function epochDay(date: string): number {
-  return Date.parse(`${date}T00:00:00Z`) / 86_400_000;
-}
-
-/** yyyy-MM-dd of `date` shifted by `days`. */
-function shiftDay(date: string, days: number): string {
-  return new Date((epochDay(date) + days) * 86_400_000).toISOString().slice(0, 10);
+/**
+ * Metrics summed per window: the campaign's metrics plus its budget source,
+ * aliased `budget`. Any filter or grouping outside the budget's dimensions
+ * zeroes it, and the frontend hides compliance when it comes back 0.
+ */
+function campaignMetrics(campaign: CampaignDefinition): readonly MetricConfig[] {
+  const budget = campaign.budget;
+  return budget
+    ? [...campaign.metrics, { table: budget.table, field: budget.valueField, aggregation: 'sum', alias: 'budget' }]
+    : campaign.metrics;
 }
 
 /**
- * Position of "today" within the event window: fully closed days, the running
- * day number (1-based; 0 before the event, capped at the length) and the total
- * length. "Today" is resolved in America/Bogota — the API container runs in
- * UTC and would otherwise close each day five hours early.
+ * Params of the campaign listing
  */
-function closedEventDays(startDate: string, endDate: string): { closed: number; currentDay: number; total: number } {
-  const today = new Date().toLocaleDateString('en-CA', { timeZone: 'America/Bogota' });
-  const total = epochDay(endDate) - epochDay(startDate) + 1;
-  const elapsed = epochDay(today) - epochDay(startDate);
-  const closed = Math.min(Math.max(elapsed, 0), total);
-  const currentDay = Math.min(Math.max(elapsed + 1, 0), total);
-  return { closed, currentDay, total };
+interface CampaignListParams {
+  currentFilters: FilterCondition[];
+  comparisonFilters?: FilterCondition[];
+  /** Active-year customer universe for `clientes_sin_compra`. */
+  universeFilters: FilterCondition[];
+  groupBy?: string;
 }
 
 /**
- * Sources for the unique-reach counts (numérica / items): the same field
- * across both sales tables, deduped BETWEEN tables — a customer/product
- * present in facturado and comprometido counts once.
+ * Per-group reach counts of the listing, by raw group id
  */
-function distinctSources(field: string): Array<{ table: string; field: string }> {
-  return Object.keys(FESTIVAL_DATE_FIELDS).map((table) => ({ table, field }));
+interface ListReach {
+  clientes: Map<string, number>;
+  productos: Map<string, number>;
+  sinCompra: Map<string, number>;
+}
+
+/** Map a grouped metrics row (plus its reach counts) to a listing row */
+function toListRow(row: Record<string, number | string>, reach: ListReach): CampaignListRow {
+  const sales = num(row['sales']);
+  const rappel = num(row['rappel']);
+  const rappelPct = sales !== 0 ? (rappel / sales) * 100 : 0;
+  const grossMarginPct = num(row['gross_margin_pct']);
+  const salesTotal = num(row['sales_total']);
+  const pedidosCount = num(row['invoiced_orders']) + num(row['retained_orders']);
+  const budget = num(row['budget']);
+  const rawId = String(row['id'] ?? '').trim();
+  const rawName = String(row['name'] ?? '').trim();
+
+  return {
+    id: rawId,
+    name: rawName === '' ? 'Sin Determinar' : rawName,
+    sales_total: salesTotal,
+    gross_margin_pct: grossMarginPct,
+    rappel_pct: rappelPct,
+    margen_rappel_pct: grossMarginPct + rappelPct,
+    comprometido: num(row['orders']),
+    pedido_promedio: pedidosCount > 0 ? salesTotal / pedidosCount : 0,
+    clientes_unicos: reach.clientes.get(rawId) ?? 0,
+    productos_unicos: reach.productos.get(rawId) ?? 0,
+    clientes_sin_compra: reach.sinCompra.get(rawId) ?? 0,
+    presupuesto: budget > 0 ? budget : null,
+    cumplimiento_ppto: budget > 0 ? (salesTotal / budget) * 100 : null,
+  };
 }
 
 /**
- * Service for the Festival Virtual dashboard.
+ * Service for the campaign dashboards (one instance per campaign definition).
  *
  * Reuses the analytics engine (single CTE query) but with an explicit static
  * comparison window instead of the app-wide year-over-year shift.
  */
-export class FestivalService {
-  constructor(private analyticsBuilder: IAnalyticsQueryBuilder) {}
+export class CampaignService {
+  private readonly metrics: readonly MetricConfig[];
+
+  constructor(
+    private analyticsBuilder: IAnalyticsQueryBuilder,
+    private campaign: CampaignDefinition
+  ) {
+    this.metrics = campaignMetrics(campaign);
+  }
 
-  async getFestivalBalance(params: {
+  async getBalance(params: {
     currentFilters: FilterCondition[];
     comparisonFilters?: FilterCondition[];
     /** Active-year customer universe for `clientes_sin_compra`. */
     universeFilters: FilterCondition[];
     /** Raw event/comparison windows, needed for the to-date (mismo día) growth. */
     window?: { startDate: string; endDate: string; compareStartDate?: string; compareEndDate?: string };
-  }): Promise<FestivalBalance> {
+  }): Promise<CampaignBalance> {
     const hasComparison = !!params.comparisonFilters;
 
     const [result, clientesUnicos, productosUnicos, clientesSinCompra, toDate] = await Promise.all([
       this.analyticsBuilder.buildMultiTableYoYQuery({
-        metrics: FESTIVAL_METRICS,
+        metrics: this.metrics,
         currentPeriodFilters: params.currentFilters,
         ...(params.comparisonFilters ? { comparisonFilters: params.comparisonFilters } : {}),
       }),
       this.analyticsBuilder.buildDistinctCountQuery({
-        sources: distinctSources('customer_id'),
+        sources: this.distinctSources('customer_id'),
         filters: params.currentFilters,
       }),
       this.analyticsBuilder.buildDistinctCountQuery({
-        sources: distinctSources('product_id'),
+        sources: this.distinctSources('product_id'),
         filters: params.currentFilters,
       }),
       this.analyticsBuilder.buildDistinctCountExcludingQuery({
-        universe: { table: FESTIVAL_UNIVERSE_TABLE, field: 'customer_id', filters: params.universeFilters },
-        exclude: { sources: distinctSources('customer_id'), filters: params.currentFilters },
+        universe: { table: this.campaign.universe.table, field: 'customer_id', filters: params.universeFilters },
+        exclude: { sources: this.distinctSources('customer_id'), filters: params.currentFilters },
       }),
       this.salesGrowthToDate(params),
     ]);
@@ -181,83 +214,88 @@ export class FestivalService {
   }
 
   /**
-   * Festival listing: metrics grouped by an arbitrary dimension (defaults to
-   * commercial provider), ordered by event sales. Same derived metrics as the
-   * header cards.
+   * Campaign listing: metrics grouped by an arbitrary dimension (defaults to
+   * the campaign's defaultGroupBy), ordered by event sales. Same derived
+   * metrics as the header cards.
    */
-  async getFestivalList(params: {
-    currentFilters: FilterCondition[];
-    comparisonFilters?: FilterCondition[];
-    /** Active-year customer universe for `clientes_sin_compra`. */
-    universeFilters: FilterCondition[];
-    groupBy?: string;
-  }): Promise<FestivalListRow[]> {
-    const groupBy = params.groupBy || FESTIVAL_DEFAULT_GROUP_BY;
-
+  async getList(params: CampaignListParams): Promise<CampaignListRow[]> {
     // Comparison is irrelevant to the listing (only current-period metrics are shown).
-    const [rows, clientesByGroup, productosByGroup, sinCompraByGroup] = await Promise.all([
-      this.analyticsBuilder.buildGroupedMultiTableYoYQuery({
-        metrics: FESTIVAL_METRICS,
-        currentPeriodFilters: params.currentFilters,
-        ...(params.comparisonFilters ? { comparisonFilters: params.comparisonFilters } : {}),
-        groupBy,
-        orderBy: 'sales_total',
-        orderDirection: 'desc',
-        // A group with only committed orders (or only budget) must still get a
-        // row — on day 1 most sellers have nothing invoiced yet.
-        includeAllGroups: true,
-      }),
+    const [rows, reach] = await Promise.all([
+      this.analyticsBuilder.buildGroupedMultiTableYoYQuery(this.listQueryConfig(params)),
+      this.listReach(params),
+    ]);
+
+    return rows.map((row) => toListRow(row, reach));
+  }
+
+  /**
+   * Same listing as getList, streamed for the CSV/Parquet exports
+   * (no row cap). The per-group reach counts are read first; the grouped
+   * metrics are then mapped as ClickHouse sends them.
+   */
+  async *streamList(params: CampaignListParams): AsyncGenerator<CampaignListRow> {
+    const reach = await this.listReach(params);
+    for await (const row of this.analyticsBuilder.streamGroupedMultiTableYoYQuery(this.listQueryConfig(params))) {
+      yield toListRow(row, reach);
+    }
+  }
+
+  /** Grouped metrics query of the campaign listing */
+  private listQueryConfig(params: CampaignListParams) {
+    return {
+      metrics: this.metrics,
+      currentPeriodFilters: params.currentFilters,
+      ...(params.comparisonFilters ? { comparisonFilters: params.comparisonFilters } : {}),
+      groupBy: params.groupBy || this.campaign.defaultGroupBy,
+      orderBy: 'sales_total',
+      orderDirection: 'desc' as const,
+      // A group with only committed orders (or only budget) must still get a
+      // row — on day 1 most sellers have nothing invoiced yet.
+      includeAllGroups: true,
+    };
+  }
+
+  /**
+   * Sources for the unique-reach counts (numérica / items): the same field
+   * across the sales tables, deduped BETWEEN tables — a customer/product
+   * present in facturado and comprometido counts once.
+   */
+  private distinctSources(field: string): Array<{ table: string; field: string }> {
+    return Object.keys(this.campaign.dateFields).map((table) => ({ table, field }));
+  }
+
+  /**
+   * Unique customers, unique products and customers without a purchase of
+   * each group of the listing, by group id
+   */
+  private async listReach(params: CampaignListParams): Promise<ListReach> {
+    const { groupBy } = this.listQueryConfig(params);
+    const [clientes, productos, sinCompra] = await Promise.all([
       this.analyticsBuilder.buildGroupedDistinctCountQuery({
-        sources: distinctSources('customer_id'),
+        sources: this.distinctSources('customer_id'),
         filters: params.currentFilters,
         groupBy,
       }),
       this.analyticsBuilder.buildGroupedDistinctCountQuery({
-        sources: distinctSources('product_id'),
+        sources: this.distinctSources('product_id'),
         filters: params.currentFilters,
         groupBy,
       }),
       this.analyticsBuilder.buildGroupedDistinctCountExcludingQuery({
-        universe: { table: FESTIVAL_UNIVERSE_TABLE, field: 'customer_id', filters: params.universeFilters },
-        exclude: { sources: distinctSources('customer_id'), filters: params.currentFilters },
+        universe: { table: this.campaign.universe.table, field: 'customer_id', filters: params.universeFilters },
+        exclude: { sources: this.distinctSources('customer_id'), filters: params.currentFilters },
         groupBy,
       }),
     ]);
-
-    return rows.map((row) => {
-      const sales = num(row['sales']);
-      const rappel = num(row['rappel']);
-      const rappelPct = sales !== 0 ? (rappel / sales) * 100 : 0;
-      const grossMarginPct = num(row['gross_margin_pct']);
-      const salesTotal = num(row['sales_total']);
-      const pedidosCount = num(row['invoiced_orders']) + num(row['retained_orders']);
-      const budget = num(row['budget']);
-      const rawId = String(row['id'] ?? '').trim();
-      const rawName = String(row['name'] ?? '').trim();
-
-      return {
-        id: rawId,
-        name: rawName === '' ? 'Sin Determinar' : rawName,
-        sales_total: salesTotal,
-        gross_margin_pct: grossMarginPct,
-        rappel_pct: rappelPct,
-        margen_rappel_pct: grossMarginPct + rappelPct,
-        comprometido: num(row['orders']),
-        pedido_promedio: pedidosCount > 0 ? salesTotal / pedidosCount : 0,
-        clientes_unicos: clientesByGroup.get(rawId) ?? 0,
-        productos_unicos: productosByGroup.get(rawId) ?? 0,
-        clientes_sin_compra: sinCompraByGroup.get(rawId) ?? 0,
-        presupuesto: budget > 0 ? budget : null,
-        cumplimiento_ppto: budget > 0 ? (salesTotal / budget) * 100 : null,
-      };
-    });
+    return { clientes, productos, sinCompra };
   }
 
   /**
    * "Mismo día" pacing growths: the CLOSED days of the current event vs the
    * same day-indexes of the comparison event (day 1 vs day 1, day 2 vs day
-   * 2…). The running day is excluded — comparing a partial day against a full
-   * one would always understate. Implemented by re-running the balance query
+   * 2…), as of "today" in America/Bogota (see closedWindowDays). The running
+   * day is excluded — comparing a partial day against a full one would always
+   * understate. Implemented by re-running the balance query
    * with both windows truncated to the closed-day count, so sales and margin
    * use exactly the same formulas as the headline cards. Growths are null
    * until the first day closes, without a comparison window, or on a 0 base.
@@ -279,18 +317,18 @@ export class FestivalService {
     const w = params.window;
     if (!w) return { ...empty, days: 0, currentDay: 0, total: 0 };
 
-    const { closed, currentDay, total } = closedEventDays(w.startDate, w.endDate);
+    const { closed, currentDay, total } = closedWindowDays(w.startDate, w.endDate);
     if (currentDay === 0 || !params.comparisonFilters || !w.compareStartDate) {
       return { ...empty, days: closed, currentDay, total };
     }
 
     // Truncate a window's upper date bound to its first `days` days. The
     // window bounds are the scoped lte conditions on the per-table date fields.
-    const dateFields = new Set<string>(Object.values(FESTIVAL_DATE_FIELDS));
+    const dateFields = new Set<string>(Object.values(this.campaign.dateFields));
     const truncate = (filters: FilterCondition[], start: string, days: number): FilterCondition[] =>
       filters.map((f) =>
         dateFields.has(f.field) && f.operator === 'lte' && f.table
-          ? { ...f, value: shiftDay(start, days - 1) }
+          ? { ...f, value: addDays(start, days - 1) }
           : f
       );
 
@@ -298,18 +336,18 @@ export class FestivalService {
       sales !== 0 ? ((margin + rappel) / sales) * 100 : 0;
 
     // Two truncations: growth compares CLOSED days (partial running day would
-    // always understate), while the "Festival anterior" display accumulates
+    // always understate), while the previous-edition display accumulates
     // through the RUNNING day so the reference grows with the event.
     const [growthResult, compareToDate] = await Promise.all([
       closed > 0
         ? this.analyticsBuilder.buildMultiTableYoYQuery({
-            metrics: FESTIVAL_METRICS,
+            metrics: this.metrics,
             currentPeriodFilters: truncate(params.currentFilters, w.startDate, closed),
             comparisonFilters: truncate(params.comparisonFilters, w.compareStartDate, closed),
           })
         : Promise.resolve(null),
       this.analyticsBuilder.buildMultiTableYoYQuery({
-        metrics: FESTIVAL_METRICS,
+        metrics: this.metrics,
         currentPeriodFilters: truncate(params.comparisonFilters, w.compareStartDate, currentDay),
       }),
     ]);
@@ -341,21 +379,21 @@ export class FestivalService {
   }
 
   /**
-   * Detail of the `clientes_sin_compra` count: the master-universe customers
-   * that did not buy during the festival, with the seller ASSIGNED in the
-   * master (argMax over updated_at picks the latest snapshot row). Same
+   * Detail of the `clientes_sin_compra` count: the universe customers that
+   * did not buy during the campaign, with the seller ASSIGNED in the
+   * universe (argMax over its snapshot field picks the latest row). Same
    * universe/exclusion as the balance card, so the listing length always
    * matches the card.
    */
-  async getFestivalSinCompraList(params: {
+  async getSinCompraList(params: {
     currentFilters: FilterCondition[];
     universeFilters: FilterCondition[];
-  }): Promise<FestivalSinCompraRow[]> {
+  }): Promise<CampaignSinCompraRow[]> {
     const rows = await this.analyticsBuilder.buildDistinctDetailsExcludingQuery({
-      universe: { table: FESTIVAL_UNIVERSE_TABLE, keyField: 'customer_id', filters: params.universeFilters },
+      universe: { table: this.campaign.universe.table, keyField: 'customer_id', filters: params.universeFilters },
       attributes: ['customer_name', 'seller_id', 'seller_name'],
-      dateField: 'updated_at',
-      exclude: { sources: distinctSources('customer_id'), filters: params.currentFilters },
+      dateField: this.campaign.universe.snapshotField,
+      exclude: { sources: this.distinctSources('customer_id'), filters: params.currentFilters },
       orderBy: 'customer_name',
     });
 
@@ -368,14 +406,14 @@ export class FestivalService {
   }
 
   /**
-   * Daily sales series (facturado + comprometido) over the event window:
-   * transactions summed by order date, pedidos_retenidos by their row date.
+   * Daily sales series (facturado + comprometido) over the event window,
+   * each sales table summed by its order-date column.
    */
-  async getFestivalDailySales(params: {
+  async getDailySales(params: {
     currentFilters: FilterCondition[];
-  }): Promise<FestivalDailyPoint[]> {
+  }): Promise<CampaignDailyPoint[]> {
     const rows = await this.analyticsBuilder.buildDailySeriesQuery({
-      sources: Object.entries(FESTIVAL_DATE_FIELDS).map(([table, dateField]) => ({
+      sources: Object.entries(this.campaign.dateFields).map(([table, dateField]) => ({
         table,
         dateField,
         valueField: 'sales_price',
@@ -387,52 +425,34 @@ export class FestivalService {
   }
 
   /**
-   * Virtual "Marcas" listing: two aggregated rows (Marcas Exclusivas / Aliadas)
-   * by ProveedorComercial membership. Clicking a row drills into its providers.
+   * Listing of a virtual grouping (e.g. "Marcas": Exclusivas / Aliadas by the
+   * edition's featured brands; "Promoción": sales with / without rappel): one
+   * aggregated row per bucket, ordered by sales. Clicking a row drills into
+   * the bucket.
    */
-  async getFestivalBrandGroups(params: {
+  async getVirtualGroupRows(params: {
+    groupBy: string;
     currentFilters: FilterCondition[];
     universeFilters: FilterCondition[];
-  }): Promise<FestivalListRow[]> {
-    const bucket = (b: 'exclusivas' | 'aliadas', name: string) =>
-      this.bucketRow(
-        b,
-        name,
-        [...params.currentFilters, ...brandGroupFilters(b)],
-        [...params.universeFilters, ...brandGroupFilters(b)]
-      );
-
-    const [exclusivas, aliadas] = await Promise.all([
-      bucket('exclusivas', 'Marcas Exclusivas'),
-      bucket('aliadas', 'Marcas Aliadas'),
-    ]);
-
-    return [exclusivas, aliadas].sort((a, b) => b.sales_total - a.sales_total);
-  }
-
-  /**
-   * Virtual "Rappel" listing: event sales split by whether the sale generates
-   * rappel. Comprometido is excluded (it has no rappel information). Clicking
-   * a row drills into the products sold with/without rappel.
-   */
-  async getFestivalRappelGroups(params: {
-    currentFilters: FilterCondition[];
-    universeFilters: FilterCondition[];
-  }): Promise<FestivalListRow[]> {
-    const bucket = (b: 'con_rappel' | 'sin_rappel', name: string) =>
-      this.bucketRow(
-        b,
-        name,
-        [...params.currentFilters, ...rappelGroupFilters(b)],
-        [...params.universeFilters, ...rappelGroupFilters(b)]
-      );
-
-    const [conRappel, sinRappel] = await Promise.all([
-      bucket('con_rappel', 'Productos con Promoción'),
-      bucket('sin_rappel', 'Productos sin Promoción'),
-    ]);
-
-    return [conRappel, sinRappel].sort((a, b) => b.sales_total - a.sales_total);
+    /** Edition of the query (membership groupings read their list from it) */
+    edition: Pick<CampaignWindowEdition, 'rules'>;
+  }): Promise<CampaignListRow[]> {
+    const group = this.campaign.virtualGroups[params.groupBy];
+    if (!group) return [];
+
+    const rows = await Promise.all(
+      virtualGroupBuckets(group).map(({ id, name }) => {
+        const conditions = virtualGroupFilters(group, id, params.edition) ?? [];
+        return this.bucketRow(
+          id,
+          name,
+          [...params.currentFilters, ...conditions],
+          [...params.universeFilters, ...conditions]
+        );
+      })
+    );
+
+    return rows.sort((a, b) => b.sales_total - a.sales_total);
   }
 
   /** Aggregate one virtual bucket into a listing row (same derived metrics). */
@@ -441,23 +461,23 @@ export class FestivalService {
     name: string,
     filters: FilterCondition[],
     universeFilters: FilterCondition[]
-  ): Promise<FestivalListRow> {
+  ): Promise<CampaignListRow> {
     const [result, clientesUnicos, productosUnicos, clientesSinCompra] = await Promise.all([
       this.analyticsBuilder.buildMultiTableYoYQuery({
-        metrics: FESTIVAL_METRICS,
+        metrics: this.metrics,
         currentPeriodFilters: filters,
       }),
       this.analyticsBuilder.buildDistinctCountQuery({
-        sources: distinctSources('customer_id'),
+        sources: this.distinctSources('customer_id'),
         filters,
       }),
       this.analyticsBuilder.buildDistinctCountQuery({
-        sources: distinctSources('product_id'),
+        sources: this.distinctSources('product_id'),
         filters,
       }),
       this.analyticsBuilder.buildDistinctCountExcludingQuery({
-        universe: { table: FESTIVAL_UNIVERSE_TABLE, field: 'customer_id', filters: universeFilters },
-        exclude: { sources: distinctSources('customer_id'), filters },
+        universe: { table: this.campaign.universe.table, field: 'customer_id', filters: universeFilters },
+        exclude: { sources: this.distinctSources('customer_id'), filters },
       }),
     ]);
     const sales = num(result['sales']);
@@ -0,0 +1,137 @@
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { CustomMetricsService, type CustomMetricUser } from './custom-metrics.service.js';
+import {
+  CustomMetricSchema,
+  CreateCustomMetricBodySchema,
+  UpdateCustomMetricBodySchema,
+  CustomMetricParamsSchema,
+  type CreateCustomMetricBody,
+  type UpdateCustomMetricBody,
+} from './custom-metrics.schemas.js';
+import { authenticate } from '../../core/middleware/authenticate.js';
+import { NotFoundError, UnauthorizedError } from '../../core/errors/app-error.js';
+
+/**
+ * Custom metric routes
+ *
+ * Any authenticated user manages their own metrics and sees those shared with
+ * their Dyna role. Only the owner can edit or delete a metric.
+ * Metrics are requested in /balance, /list and /list/export with metrics=<key>.
+ */
+export async function customMetricsRoutes(fastify: FastifyInstance) {
+  const service = new CustomMetricsService();
+
+  const sessionUser = (request: FastifyRequest): CustomMetricUser => {
+    if (!request.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+    return request.user;
+  };
+
+  // List own and team metrics
+  fastify.get(
+    '/custom-metrics',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'List your custom metrics and those shared with your team',
+        tags: ['Custom metrics'],
+        response: {
+          200: Type.Object({
+            data: Type.Array(CustomMetricSchema),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const data = await service.listVisible(sessionUser(request));
+      return reply.send({ data });
+    }
+  );
+
+  // Create metric
+  fastify.post(
+    '/custom-metrics',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Create a custom metric. The formula may only reference base metrics and their _last_year values.',
+        tags: ['Custom metrics'],
+        body: CreateCustomMetricBodySchema,
+        response: {
+          201: CustomMetricSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const metric = await service.create(sessionUser(request), request.body as CreateCustomMetricBody);
+      return reply.status(201).send(metric);
+    }
+  );
+
+  // Update own metric
+  fastify.patch(
+    '/custom-metrics/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Update one of your custom metrics',
+        tags: ['Custom metrics'],
+        params: CustomMetricParamsSchema,
+        body: UpdateCustomMetricBodySchema,
+        response: {
+          200: CustomMetricSchema,
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const metric = await service.update(sessionUser(request), id, request.body as UpdateCustomMetricBody);
+
+      if (!metric) {
+        throw new NotFoundError('Custom metric not found');
+      }
+
+      return reply.send(metric);
+    }
+  );
+
+  // Delete own metric
+  fastify.delete(
+    '/custom-metrics/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Delete one of your custom metrics',
+        tags: ['Custom metrics'],
+        params: CustomMetricParamsSchema,
+        response: {
+          200: Type.Object({
+            success: Type.Boolean(),
+            message: Type.String(),
+          }),
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const deleted = await service.delete(sessionUser(request), id);
+
+      if (!deleted) {
+        throw new NotFoundError('Custom metric not found');
+      }
+
+      return reply.send({
+        success: true,
+        message: 'Custom metric deleted successfully',
+      });
+    }
+  );
+}
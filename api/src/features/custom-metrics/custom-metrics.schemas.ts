@@ -0,0 +1,65 @@
+import { Type, type Static } from '@sinclair/typebox';
+
+/**
+ * TypeBox schemas for user-defined custom metrics
+ * (see core/metrics/custom-metric.ts)
+ */
+
+const CustomMetricFormatSchema = Type.Union(
+  [Type.Literal('currency'), Type.Literal('percent'), Type.Literal('number')],
+  { description: 'How the web app and the export format the value' }
+);
+
+const FormulaSchema = Type.String({
+  minLength: 1,
+  maxLength: 1000,
+  description: 'Formula over base metrics and their _last_year values, e.g. safeDiv({sales} - {sales_last_year}, {sales_last_year}) * 100',
+});
+
+/**
+ * Custom metric response schema
+ */
+export const CustomMetricSchema = Type.Object({
+  id: Type.String(),
+  key: Type.String({ description: 'Requested as metrics=<key>' }),
+  field: Type.String({ description: 'Response field: custom_<key>' }),
+  label: Type.String(),
+  description: Type.Union([Type.String(), Type.Null()]),
+  formula: Type.String(),
+  format: CustomMetricFormatSchema,
+  shared: Type.Boolean({ description: 'Visible to every user with the owner\'s Dyna role' }),
+  owned: Type.Boolean({ description: 'Created by the session user (only the owner can edit it)' }),
+  createdAt: Type.String(),
+  updatedAt: Type.String(),
+});
+
+/**
+ * Create custom metric body schema
+ */
+export const CreateCustomMetricBodySchema = Type.Object({
+  key: Type.String({ pattern: '^[a-z][a-z0-9_]{0,47}$', description: 'Lowercase snake_case, unique per owner' }),
+  label: Type.String({ minLength: 1, maxLength: 100 }),
+  description: Type.Optional(Type.Union([Type.String({ maxLength: 500 }), Type.Null()])),
+  formula: FormulaSchema,
+  format: Type.Optional(CustomMetricFormatSchema),
+  shared: Type.Optional(Type.Boolean({ description: 'Share with the users of your Dyna role' })),
+});
+
+export type CreateCustomMetricBody = Static<typeof CreateCustomMetricBodySchema>;
+
+/**
+ * Update custom metric body schema (the key cannot change)
+ */
+export const UpdateCustomMetricBodySchema = Type.Object({
+  label: Type.Optional(Type.String({ minLength: 1, maxLength: 100 })),
+  description: Type.Optional(Type.Union([Type.String({ maxLength: 500 }), Type.Null()])),
+  formula: Type.Optional(FormulaSchema),
+  format: Type.Optional(CustomMetricFormatSchema),
+  shared: Type.Optional(Type.Boolean()),
+});
+
+export type UpdateCustomMetricBody = Static<typeof UpdateCustomMetricBodySchema>;
+
+export const CustomMetricParamsSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
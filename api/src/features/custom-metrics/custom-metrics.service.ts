@@ -0,0 +1,219 @@
+import { and, asc, desc, eq, inArray, or } from 'drizzle-orm';
+import { db } from '../../core/db/postgres/client.js';
+import { customMetrics, type CustomMetric } from '../../core/db/postgres/schema.js';
+import { UnauthorizedError, ValidationError } from '../../core/errors/app-error.js';
+import {
+  compileCustomMetric,
+  customMetricField,
+  type ResolvedCustomMetric,
+} from '../../core/metrics/custom-metric.js';
+import type { CreateCustomMetricBody, UpdateCustomMetricBody } from './custom-metrics.schemas.js';
+
+/**
+ * Session user fields that decide which custom metrics are visible
+ */
+export interface CustomMetricUser {
+  id: string;
+  /** Team: metrics shared with this Dyna role are visible */
+  dynaRole?: string | null | undefined;
+}
+
+/**
+ * Custom metric as returned by the API
+ */
+export interface CustomMetricResponse {
+  id: string;
+  key: string;
+  field: string;
+  label: string;
+  description: string | null;
+  formula: string;
+  format: CustomMetric['format'];
+  shared: boolean;
+  owned: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Custom metrics service - User-defined metrics (`custom_metric`), private or
+ * shared with the owner's team (Dyna role)
+ */
+export class CustomMetricsService {
+  /**
+   * Own metrics and those shared with the user's team, ordered by label
+   */
+  async listVisible(user: CustomMetricUser): Promise<CustomMetricResponse[]> {
+    const rows = await db
+      .select()
+      .from(customMetrics)
+      .where(visibleTo(user))
+      .orderBy(asc(customMetrics.label));
+
+    return rows.map((row) => toResponse(row, user));
+  }
+
+  /**
+   * Create a metric owned by the user
+   *
+   * @throws ValidationError if the formula is invalid, the key is taken or the
+   *   metric is shared by a user without a Dyna role
+   */
+  async create(user: CustomMetricUser, data: CreateCustomMetricBody): Promise<CustomMetricResponse> {
+    compileCustomMetric(data.key, data.formula);
+
+    const [existing] = await db
+      .select({ id: customMetrics.id })
+      .from(customMetrics)
+      .where(and(eq(customMetrics.ownerId, user.id), eq(customMetrics.key, data.key)))
+      .limit(1);
+    if (existing) {
+      throw new ValidationError(`You already have a custom metric with key "${data.key}"`);
+    }
+
+    const [created] = await db
+      .insert(customMetrics)
+      .values({
+        ownerId: user.id,
+        key: data.key,
+        label: data.label,
+        description: data.description ?? null,
+        formula: data.formula,
+        format: data.format ?? 'number',
+        sharedWithRole: data.shared ? sharedRole(user) : null,
+      })
+      .returning();
+
+    if (!created) {
+      throw new Error('Failed to create custom metric');
+    }
+
+    return toResponse(created, user);
+  }
+
+  /**
+   * Update a metric owned by the user
+   *
+   * @returns The metric, or null if it does not exist or belongs to someone else
+   * @throws ValidationError if the new formula is invalid
+   */
+  async update(
+    user: CustomMetricUser,
+    id: string,
+    data: UpdateCustomMetricBody
+  ): Promise<CustomMetricResponse | null> {
+    const [current] = await db
+      .select()
+      .from(customMetrics)
+      .where(and(eq(customMetrics.id, id), eq(customMetrics.ownerId, user.id)))
+      .limit(1);
+
+    if (!current) return null;
+
+    if (data.formula !== undefined) {
+      compileCustomMetric(current.key, data.formula);
+    }
+
+    const [updated] = await db
+      .update(customMetrics)
+      .set({
+        ...(data.label !== undefined && { label: data.label }),
+        ...(data.description !== undefined && { description: data.description }),
+        ...(data.formula !== undefined && { formula: data.formula }),
+        ...(data.format !== undefined && { format: data.format }),
+        ...(data.shared !== undefined && { sharedWithRole: data.shared ? sharedRole(user) : null }),
+        updatedAt: new Date(),
+      })
+      .where(eq(customMetrics.id, id))
+      .returning();
+
+    return updated ? toResponse(updated, user) : null;
+  }
+
+  /**
+   * Delete a metric owned by the user
+   */
+  async delete(user: CustomMetricUser, id: string): Promise<boolean> {
+    const result = await db
+      .delete(customMetrics)
+      .where(and(eq(customMetrics.id, id), eq(customMetrics.ownerId, user.id)))
+      .returning();
+    return result.length > 0;
+  }
+
+  /**
+   * Resolve the keys of a `metrics=` query parameter against the visible
+   * metrics. The user's own metric wins over a team metric with the same key.
+   *
+   * @param user - Session user (set by authenticate)
+   * @returns Compiled metrics in the requested order
+   * @throws ValidationError on unknown keys or formulas no longer valid for
+   *   the active metric catalog
+   */
+  async resolveForQuery(user: CustomMetricUser | undefined, keys: string[]): Promise<ResolvedCustomMetric[]> {
+    if (keys.length === 0) return [];
+    if (!user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const rows = await db
+      .select()
+      .from(customMetrics)
+      .where(and(inArray(customMetrics.key, keys), visibleTo(user)))
+      .orderBy(desc(customMetrics.updatedAt));
+
+    return keys.map((key) => {
+      const candidates = rows.filter((row) => row.key === key);
+      const row = candidates.find((r) => r.ownerId === user.id) ?? candidates[0];
+      if (!row) {
+        throw new ValidationError(`Unknown custom metric "${key}"`);
+      }
+
+      try {
+        return {
+          ...compileCustomMetric(row.key, row.formula),
+          key: row.key,
+          label: row.label,
+          format: row.format,
+        };
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          throw new ValidationError(`Custom metric "${key}" is no longer valid: ${error.message}`);
+        }
+        throw error;
+      }
+    });
+  }
+}
+
+function visibleTo(user: CustomMetricUser) {
+  return user.dynaRole
+    ? or(eq(customMetrics.ownerId, user.id), eq(customMetrics.sharedWithRole, user.dynaRole))
+    : eq(customMetrics.ownerId, user.id);
+}
+
+/**
+ * Sharing targets the owner's team, so it needs a Dyna role
+ */
+function sharedRole(user: CustomMetricUser): string {
+  if (!user.dynaRole) {
+    throw new ValidationError('Only users with a Dyna role can share custom metrics');
+  }
+  return user.dynaRole;
+}
+
+function toResponse(row: CustomMetric, user: CustomMetricUser): CustomMetricResponse {
+  return {
+    id: row.id,
+    key: row.key,
+    field: customMetricField(row.key),
+    label: row.label,
+    description: row.description,
+    formula: row.formula,
+    format: row.format,
+    shared: row.sharedWithRole !== null,
+    owned: row.ownerId === user.id,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
@@ -0,0 +1,121 @@
+import ExcelJS from 'exceljs';
+import { sanitizeFilename } from '../../core/utils/export-filename.js';
+import {
+  encodeTabular,
+  prefetchRows,
+  type DataExportFormat,
+  type TabularColumn,
+} from '../../core/export/tabular-export.js';
+import { EXPORT_ROW_HARD_CAP, ExportTooLargeError } from '../list/list.service.js';
+import type { CustomerLifecycleService } from './customers.service.js';
+import type { LifecycleCustomersQueryParams } from './customers.query.js';
+import type { LifecycleCustomer, LifecycleStatus } from './customers.schemas.js';
+
+type ExportParams = Omit<LifecycleCustomersQueryParams, 'limit' | 'offset' | 'columnMap'>;
+
+/**
+ * Status labels of the exported files
+ */
+export const LIFECYCLE_STATUS_LABELS: Record<LifecycleStatus, string> = {
+  new: 'Nuevo',
+  retained: 'Retenido',
+  reactivated: 'Reactivado',
+  at_risk: 'En riesgo',
+  churned: 'Perdido',
+};
+
+const FONT = 'Calibri';
+const HEADER_FILL = 'FF1E293B'; // slate-800
+const HEADER_TEXT = 'FFFFFFFF';
+const MONEY_FMT = '#,##0';
+
+/**
+ * Columns of the customer export (the group columns only with a groupBy)
+ */
+function exportColumns(grouped: boolean): Array<TabularColumn<LifecycleCustomer> & { width: number }> {
+  return [
+    { name: 'customer_id', header: 'NIT', type: 'string', width: 16, value: (r) => r.customer_id },
+    { name: 'customer_name', header: 'Cliente', type: 'string', width: 46, value: (r) => r.customer_name },
+    { name: 'status', header: 'Estado', type: 'string', width: 14, value: (r) => LIFECYCLE_STATUS_LABELS[r.status] },
+    ...(grouped
+      ? [
+        { name: 'group_id', header: 'Código Grupo', type: 'string', width: 16, value: (r: LifecycleCustomer) => r.group_id },
+        { name: 'group_name', header: 'Grupo', type: 'string', width: 34, value: (r: LifecycleCustomer) => r.group_name },
+      ] as const
+      : []),
+    { name: 'first_purchase', header: 'Primera compra', type: 'string', width: 14, value: (r) => r.first_purchase },
+    { name: 'last_purchase', header: 'Última compra', type: 'string', width: 14, value: (r) => r.last_purchase },
+    { name: 'days_since_last', header: 'Días sin compra', type: 'double', width: 14, value: (r) => r.days_since_last },
+    { name: 'sales', header: 'Ventas', type: 'double', width: 16, value: (r) => r.sales },
+    { name: 'previous_sales', header: 'Ventas comparación', type: 'double', width: 18, value: (r) => r.previous_sales },
+    { name: 'sales_change', header: 'Variación', type: 'double', width: 16, value: (r) => r.sales_change },
+  ];
+}
+
+/**
+ * Download name (without extension) of the customer export
+ */
+export function lifecycleExportName(filename: string | undefined, status: LifecycleStatus | undefined): string {
+  return sanitizeFilename(filename) || `clientes-${status ?? 'ciclo-de-vida'}`;
+}
+
+/**
+ * Build the Excel export of the customer list
+ *
+ * @throws ExportTooLargeError when more than EXPORT_ROW_HARD_CAP customers match
+ */
+export async function buildLifecycleCustomersExport(
+  service: CustomerLifecycleService,
+  params: ExportParams
+): Promise<Buffer> {
+  const rows: LifecycleCustomer[] = [];
+  for await (const row of service.streamCustomers({ ...params, limit: EXPORT_ROW_HARD_CAP + 1 })) {
+    rows.push(row);
+  }
+  if (rows.length > EXPORT_ROW_HARD_CAP) {
+    throw new ExportTooLargeError(rows.length);
+  }
+
+  const columns = exportColumns(Boolean(params.groupBy));
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet('Clientes', { views: [{ state: 'frozen', xSplit: 0, ySplit: 1 }] });
+
+  ws.columns = columns.map((c) => ({
+    width: c.width,
+    style: {
+      font: { name: FONT },
+      ...(c.type === 'double' && { numFmt: MONEY_FMT, alignment: { horizontal: 'right' as const } }),
+    },
+  }));
+
+  const header = ws.getRow(1);
+  header.height = 22;
+  columns.forEach((c, i) => {
+    const cell = header.getCell(i + 1);
+    cell.value = c.header;
+    cell.font = { name: FONT, bold: true, color: { argb: HEADER_TEXT } };
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: HEADER_FILL } };
+    cell.alignment = { vertical: 'middle' };
+  });
+
+  for (const row of rows) {
+    ws.addRow(columns.map((c) => c.value(row)));
+  }
+
+  const buffer = await wb.xlsx.writeBuffer();
+  return Buffer.from(buffer as ArrayBuffer);
+}
+
+/**
+ * Stream the CSV or Parquet export of the customer list (no row cap)
+ *
+ * @returns The encoded file chunks (the query has already returned its first row)
+ */
+export async function streamLifecycleCustomersExport(
+  service: CustomerLifecycleService,
+  params: ExportParams,
+  format: DataExportFormat
+): Promise<AsyncIterable<string | Buffer>> {
+  const rows = await prefetchRows(service.streamCustomers(params));
+  return encodeTabular(format, exportColumns(Boolean(params.groupBy)), rows);
+}
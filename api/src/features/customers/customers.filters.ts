@@ -0,0 +1,82 @@
+import type { FilterCondition } from '../../core/db/clickhouse/query/filter-builder.js';
+import { sanitizeDateString } from '../../core/utils/sanitization.js';
+import { parseDynamicFilters, querystringParams } from '../../core/utils/filter-parser.js';
+import { resolveComparisonPeriod } from '../../core/utils/comparison-period.js';
+import { ValidationError } from '../../core/errors/app-error.js';
+import { lifecycleWindows, type LifecycleWindows } from './customers.query.js';
+import {
+  DEFAULT_CHURN_DAYS,
+  DEFAULT_DECLINE_PCT,
+  LifecycleCustomersExportQueryStringSchema,
+  LifecycleCustomersQueryStringSchema,
+  LifecycleQueryStringSchema,
+  type LifecycleMeta,
+  type LifecycleQueryString,
+} from './customers.schemas.js';
+
+// Params of the lifecycle querystrings (churnDays, lifecycleStatus...), never filters
+const LIFECYCLE_PARAMS = querystringParams(
+  LifecycleQueryStringSchema,
+  LifecycleCustomersQueryStringSchema,
+  LifecycleCustomersExportQueryStringSchema
+);
+
+/**
+ * Shared query-param parsing for the customer lifecycle endpoints
+ * (summary, customer list and export)
+ */
+export interface ParsedLifecycleQuery {
+  groupBy?: string | undefined;
+  windows: LifecycleWindows;
+  declinePct: number;
+  /** Dynamic filters (the date bounds are part of the lifecycle query) */
+  filters: FilterCondition[];
+  meta: LifecycleMeta;
+}
+
+/**
+ * The declining check compares against the previous period by default
+ * (compareMode / compareStartDate / compareEndDate pick another window)
+ *
+ * @throws ValidationError for an inverted range, a comparison window that does
+ *         not end before startDate, or a groupId without groupBy
+ */
+export function parseLifecycleQuery(query: LifecycleQueryString & { groupId?: string }): ParsedLifecycleQuery {
+  const startDate = sanitizeDateString(query.startDate);
+  const endDate = sanitizeDateString(query.endDate);
+  if (startDate > endDate) {
+    throw new ValidationError('startDate must not be after endDate');
+  }
+  if (query.groupId !== undefined && !query.groupBy) {
+    throw new ValidationError('groupId requires groupBy');
+  }
+
+  const comparison = resolveComparisonPeriod({
+    startDate,
+    endDate,
+    ...(query.compareStartDate && { compareStartDate: sanitizeDateString(query.compareStartDate) }),
+    ...(query.compareEndDate && { compareEndDate: sanitizeDateString(query.compareEndDate) }),
+    compareMode: query.compareMode ?? 'previous_period',
+  })!;
+  if (comparison.endDate >= startDate) {
+    throw new ValidationError('The comparison window must end before startDate');
+  }
+
+  const churnDays = query.churnDays ?? DEFAULT_CHURN_DAYS;
+  const declinePct = query.declinePct ?? DEFAULT_DECLINE_PCT;
+
+  return {
+    groupBy: query.groupBy,
+    windows: lifecycleWindows(startDate, endDate, comparison, churnDays),
+    declinePct,
+    filters: parseDynamicFilters(query as Record<string, unknown>, LIFECYCLE_PARAMS),
+    meta: {
+      startDate,
+      endDate,
+      comparison,
+      churnDays,
+      declinePct,
+      groupBy: query.groupBy ?? null,
+    },
+  };
+}
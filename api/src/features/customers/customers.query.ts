@@ -0,0 +1,283 @@
+import { ALLOWED_DIMENSIONS } from '../../core/config/dimensions.config.js';
+import { getFieldPair } from '../../core/config/dimension-fields.config.js';
+import { FilterBuilder, type FilterCondition } from '../../core/db/clickhouse/query/filter-builder.js';
+import { sanitizeFieldName } from '../../core/utils/sanitization.js';
+import { addDays } from '../../core/utils/dates.js';
+import { ValidationError } from '../../core/errors/app-error.js';
+import type { LifecycleStatus } from './customers.schemas.js';
+
+/**
+ * Groups returned by the lifecycle summary (largest first)
+ */
+export const LIFECYCLE_GROUP_LIMIT = 200;
+
+/**
+ * Dates that bound the lifecycle classes (YYYY-MM-DD)
+ */
+export interface LifecycleWindows {
+  startDate: string;
+  endDate: string;
+  /** Comparison window of the declining check */
+  previousStartDate: string;
+  previousEndDate: string;
+  /** A customer whose previous purchase is older was churned when the period started */
+  reactivatedBefore: string;
+  /** A customer without purchases in the period who bought since this date is not churned yet */
+  lapsingFrom: string;
+  /** A customer whose last purchase is from this date (and before lapsingFrom) churned during the period */
+  churnedFrom: string;
+}
+
+interface LifecycleBaseParams {
+  groupBy?: string | undefined;
+  windows: LifecycleWindows;
+  declinePct: number;
+  filters: FilterCondition[];
+  /** Mandatory data-scope conditions (role policy) */
+  scopeFilters: FilterCondition[];
+  /** Discovered columns of the transactions table (filters on other columns are dropped) */
+  columnMap: Map<string, Set<string>>;
+}
+
+export interface LifecycleCustomersQueryParams extends LifecycleBaseParams {
+  status?: LifecycleStatus | undefined;
+  groupId?: string | undefined;
+  search?: string | undefined;
+  orderBy: 'sales' | 'previous_sales' | 'sales_change' | 'last_purchase' | 'days_since_last' | 'customer_name';
+  orderDirection: 'asc' | 'desc';
+  limit?: number | undefined;
+  offset?: number | undefined;
+}
+
+/**
+ * Table the purchase histories are read from
+ */
+export function lifecycleTable(): string {
+  return `${process.env['TABLE_PREFIX'] ?? ''}transactions`;
+}
+
+/**
+ * Lifecycle windows of a period. A customer is churned the first day it goes
+ * over `churnDays` days without buying.
+ */
+export function lifecycleWindows(
+  startDate: string,
+  endDate: string,
+  comparison: { startDate: string; endDate: string },
+  churnDays: number
+): LifecycleWindows {
+  return {
+    startDate,
+    endDate,
+    previousStartDate: comparison.startDate,
+    previousEndDate: comparison.endDate,
+    reactivatedBefore: addDays(startDate, -churnDays),
+    lapsingFrom: addDays(endDate, -churnDays),
+    churnedFrom: addDays(startDate, -churnDays - 1),
+  };
+}
+
+/**
+ * Shared CTEs: one row per customer (per group with a groupBy) with its
+ * purchase history up to endDate and its lifecycle status.
+ */
+function buildClassifiedCTEs(params: LifecycleBaseParams): {
+  ctes: string;
+  queryParams: Record<string, string | string[]>;
+  grouped: boolean;
+} {
+  const { groupBy, windows, declinePct, filters, scopeFilters, columnMap } = params;
+
+  let groupSelect = '';
+  if (groupBy) {
+    const sanitizedGroupBy = sanitizeFieldName(groupBy);
+    if (!ALLOWED_DIMENSIONS.includes(sanitizedGroupBy as typeof ALLOWED_DIMENSIONS[number])) {
+      throw new ValidationError(`Invalid groupBy dimension: ${sanitizedGroupBy}`);
+    }
+    const nameField = sanitizeFieldName(getFieldPair(sanitizedGroupBy).nameField);
+    groupSelect = `
+          trimBoth(toString(${sanitizedGroupBy})) AS group_id,
+          any(trimBoth(toString(${nameField}))) AS group_name,`;
+  }
+
+  const filterBuilder = new FilterBuilder();
+  const queryParams: Record<string, string | string[]> = {
+    start: windows.startDate,
+    end: windows.endDate,
+    prev_start: windows.previousStartDate,
+    prev_end: windows.previousEndDate,
+    reactivated_before: windows.reactivatedBefore,
+    lapsing_from: windows.lapsingFrom,
+    churned_from: windows.churnedFrom,
+    decline_factor: String(1 - declinePct / 100),
+  };
+
+  const table = lifecycleTable();
+  const where = [
+    'date <= {end:Date}',
+    `cid != ''`,
+    ...filterBuilder.buildConditionsForTable([...filters, ...scopeFilters], queryParams, 'f', table, columnMap),
+  ].join(' AND ');
+
+  const ctes = `
+    WITH
+      customer_history AS (
+        SELECT${groupSelect}
+          trimBoth(customer_id) AS cid,
+          any(trimBoth(customer_name)) AS customer_name,
+          min(date) AS first_purchase,
+          max(date) AS last_purchase,
+          maxIf(date, date < {start:Date}) AS last_before,
+          countIf(date >= {start:Date}) AS period_rows,
+          sumIf(sales_price, date >= {start:Date}) AS sales,
+          sumIf(sales_price, date >= {prev_start:Date} AND date <= {prev_end:Date}) AS previous_sales
+        FROM ${table}
+        WHERE ${where}
+        GROUP BY ${groupBy ? 'group_id, ' : ''}cid
+      ),
+
+      classified AS (
+        SELECT
+          *,
+          dateDiff('day', last_purchase, {end:Date}) AS days_since_last,
+          multiIf(
+            period_rows > 0 AND first_purchase >= {start:Date}, 'new',
+            period_rows > 0 AND last_before < {reactivated_before:Date}, 'reactivated',
+            period_rows > 0 AND previous_sales > 0 AND sales <= previous_sales * {decline_factor:Float64}, 'at_risk',
+            period_rows > 0, 'retained',
+            last_purchase >= {lapsing_from:Date}, 'at_risk',
+            last_purchase >= {churned_from:Date}, 'churned',
+            ''
+          ) AS status
+        FROM customer_history
+      )
+  `;
+
+  return { ctes, queryParams, grouped: Boolean(groupBy) };
+}
+
+/**
+ * Customers and sales per lifecycle status (per group and status with a
+ * groupBy, for the LIFECYCLE_GROUP_LIMIT groups with the most sales).
+ */
+export function buildLifecycleSummaryQuery(params: LifecycleBaseParams): {
+  query: string;
+  queryParams: Record<string, string | string[]>;
+} {
+  const { ctes, queryParams, grouped } = buildClassifiedCTEs(params);
+
+  const topGroups = grouped
+    ? `
+      AND group_id IN (
+        SELECT group_id
+        FROM classified
+        WHERE status != ''
+        GROUP BY group_id
+        ORDER BY sum(sales) + sum(previous_sales) DESC, group_id
+        LIMIT ${LIFECYCLE_GROUP_LIMIT}
+      )`
+    : '';
+
+  const query = `
+    ${ctes}
+
+    SELECT
+      ${grouped ? 'group_id, any(group_name) AS group_name,' : ''}
+      status,
+      count() AS customers,
+      sum(sales) AS sales,
+      sum(previous_sales) AS previous_sales
+    FROM classified
+    WHERE status != ''${topGroups}
+    GROUP BY ${grouped ? 'group_id, ' : ''}status
+  `;
+
+  return { query, queryParams };
+}
+
+/**
+ * WHERE conditions of the customer list (drill-down)
+ */
+function customerConditions(
+  params: Pick<LifecycleCustomersQueryParams, 'status' | 'groupId' | 'search'>,
+  queryParams: Record<string, string | string[]>,
+  grouped: boolean
+): string {
+  const conditions = [`status != ''`];
+
+  if (params.status) {
+    queryParams['status'] = params.status;
+    conditions.push('status = {status:String}');
+  }
+  if (params.groupId !== undefined && grouped) {
+    queryParams['group_id'] = params.groupId;
+    conditions.push('group_id = {group_id:String}');
+  }
+  const search = params.search?.trim();
+  if (search) {
+    queryParams['search'] = search;
+    conditions.push('(positionCaseInsensitiveUTF8(cid, {search:String}) > 0 OR positionCaseInsensitiveUTF8(customer_name, {search:String}) > 0)');
+  }
+
+  return conditions.join(' AND ');
+}
+
+/**
+ * Customers with their status, history and sales (one row per group and
+ * customer with a groupBy)
+ */
+export function buildLifecycleCustomersQuery(params: LifecycleCustomersQueryParams): {
+  query: string;
+  queryParams: Record<string, string | string[]>;
+} {
+  const { ctes, queryParams, grouped } = buildClassifiedCTEs(params);
+  const where = customerConditions(params, queryParams, grouped);
+
+  const pagination = [
+    params.limit !== undefined ? `LIMIT ${params.limit}` : '',
+    params.offset ? `OFFSET ${params.offset}` : '',
+  ].filter(Boolean).join(' ');
+
+  const query = `
+    ${ctes}
+
+    SELECT
+      cid AS customer_id,
+      customer_name,
+      status,
+      ${grouped ? 'group_id, group_name' : 'NULL AS group_id, NULL AS group_name'},
+      toString(toDate(first_purchase)) AS first_purchase,
+      toString(toDate(last_purchase)) AS last_purchase,
+      days_since_last,
+      sales,
+      previous_sales,
+      sales - previous_sales AS sales_change
+    FROM classified
+    WHERE ${where}
+    ORDER BY ${params.orderBy} ${params.orderDirection === 'asc' ? 'ASC' : 'DESC'}, customer_id ASC
+    ${pagination}
+  `;
+
+  return { query, queryParams };
+}
+
+/**
+ * Number of customers listed by buildLifecycleCustomersQuery (without pagination)
+ */
+export function buildLifecycleCustomersCountQuery(params: LifecycleCustomersQueryParams): {
+  query: string;
+  queryParams: Record<string, string | string[]>;
+} {
+  const { ctes, queryParams, grouped } = buildClassifiedCTEs(params);
+  const where = customerConditions(params, queryParams, grouped);
+
+  const query = `
+    ${ctes}
+
+    SELECT count() AS total
+    FROM classified
+    WHERE ${where}
+  `;
+
+  return { query, queryParams };
+}
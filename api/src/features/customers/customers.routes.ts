@@ -0,0 +1,161 @@
+import type { FastifyInstance } from 'fastify';
+import type { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
+import type { DatabaseClient } from '../../core/db/clickhouse/client.js';
+import { queryCacheFor } from '../../core/cache/query-cache.js';
+import { CustomerLifecycleService } from './customers.service.js';
+import { parseLifecycleQuery } from './customers.filters.js';
+import {
+  buildLifecycleCustomersExport,
+  streamLifecycleCustomersExport,
+  lifecycleExportName,
+} from './customers.export.js';
+import {
+  LifecycleQueryStringSchema,
+  LifecycleResponseSchema,
+  LifecycleCustomersQueryStringSchema,
+  LifecycleCustomersResponseSchema,
+  LifecycleCustomersExportQueryStringSchema,
+} from './customers.schemas.js';
+import { ExportTooLargeError } from '../list/list.service.js';
+import { authenticate } from '../../core/middleware/authenticate.js';
+import { resolveDataScope } from '../../core/middleware/data-scope.js';
+import { sendExport } from '../../core/export/tabular-export.js';
+
+/**
+ * Register the customer lifecycle routes.
+ *
+ * Customers are classified per period from their purchase history as new,
+ * retained, reactivated, at risk (declining or lapsing) or churned (no
+ * purchase in `churnDays` days). Dynamic filters and the data scope restrict
+ * the transactions the history is built from.
+ */
+export function customersRoutes(
+  fastify: FastifyInstance,
+  dbClient: DatabaseClient
+): void {
+  const server = fastify.withTypeProvider<TypeBoxTypeProvider>();
+  const service = new CustomerLifecycleService(dbClient.getClient(), queryCacheFor(fastify, 'customers'));
+
+  /**
+   * GET /customers/lifecycle
+   * Customers and sales per class, overall and per groupBy value
+   *
+   * Examples:
+   * - /customers/lifecycle?startDate=2025-01-01&endDate=2025-03-31
+   * - /customers/lifecycle?startDate=2025-01-01&endDate=2025-03-31&groupBy=IdRegional&churnDays=60&channel=DISTRIBUCION
+   */
+  server.get(
+    '/customers/lifecycle',
+    {
+      preHandler: [authenticate, resolveDataScope],
+      schema: {
+        description: 'Customers classified as new, retained, reactivated, at risk or churned in the period, with their sales, overall and per groupBy value.',
+        tags: ['customers'],
+        querystring: LifecycleQueryStringSchema,
+        response: {
+          200: LifecycleResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { meta, ...parsed } = parseLifecycleQuery(request.query);
+
+      const data = await service.getSummary({
+        ...parsed,
+        scopeFilters: request.dataScope ?? [],
+        cacheStats: request.queryCacheStats,
+      });
+
+      return reply.code(200).send({ data, meta });
+    }
+  );
+
+  /**
+   * GET /customers/lifecycle/customers
+   * Drill-down: the customers of a class (and group), paginated
+   */
+  server.get(
+    '/customers/lifecycle/customers',
+    {
+      preHandler: [authenticate, resolveDataScope],
+      schema: {
+        description: 'Customers with their lifecycle class, purchase dates and sales. Filter by lifecycleStatus and groupBy + groupId to drill into a summary cell.',
+        tags: ['customers'],
+        querystring: LifecycleCustomersQueryStringSchema,
+        response: {
+          200: LifecycleCustomersResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const query = request.query;
+      const { meta, ...parsed } = parseLifecycleQuery(query);
+      const page = query.page ?? 1;
+      const limit = query.limit ?? 50;
+
+      const { rows, total } = await service.getCustomers({
+        ...parsed,
+        status: query.lifecycleStatus,
+        groupId: query.groupId,
+        search: query.search,
+        orderBy: query.orderBy ?? 'sales',
+        orderDirection: query.orderDirection ?? 'desc',
+        limit,
+        offset: (page - 1) * limit,
+        scopeFilters: request.dataScope ?? [],
+        cacheStats: request.queryCacheStats,
+      });
+
+      return reply.code(200).send({
+        data: rows,
+        meta: { ...meta, total, page, limit, totalPages: Math.ceil(total / limit) },
+      });
+    }
+  );
+
+  /**
+   * GET /customers/lifecycle/customers/export
+   * The drill-down customer list as an Excel file (up to 20,000 rows) or a
+   * CSV / Parquet file streamed without a row cap
+   */
+  server.get(
+    '/customers/lifecycle/customers/export',
+    {
+      preHandler: [authenticate, resolveDataScope],
+      schema: {
+        description: 'Export the customers of the lifecycle drill-down as Excel (up to 20,000 rows), CSV or Parquet.',
+        tags: ['customers'],
+        querystring: LifecycleCustomersExportQueryStringSchema,
+        // NOTE: no response schema — the handler sends a raw file.
+      },
+    },
+    async (request, reply) => {
+      const query = request.query;
+      const format = query.format ?? 'xlsx';
+      const { meta: _meta, ...parsed } = parseLifecycleQuery(query);
+      const params = {
+        ...parsed,
+        status: query.lifecycleStatus,
+        groupId: query.groupId,
+        search: query.search,
+        orderBy: query.orderBy ?? 'sales',
+        orderDirection: query.orderDirection ?? 'desc',
+        scopeFilters: request.dataScope ?? [],
+      } as const;
+      const filename = lifecycleExportName(query.filename, query.lifecycleStatus);
+
+      if (format !== 'xlsx') {
+        return sendExport(reply, format, filename, await streamLifecycleCustomersExport(service, params, format));
+      }
+
+      try {
+        return sendExport(reply, format, filename, await buildLifecycleCustomersExport(service, params));
+      } catch (error) {
+        if (error instanceof ExportTooLargeError) {
+          return reply.code(400).send({ error: 'EXPORT_TOO_LARGE', message: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,199 @@
+import { Type, type Static } from '@sinclair/typebox';
+import { DateStringSchema, ExportFormatSchema } from '../../core/schemas/common.schemas.js';
+import { ComparisonModeSchema, ComparisonPeriodSchema } from '../../core/utils/comparison-period.js';
+import { GroupByDimensionSchema, OrderDirectionSchema } from '../list/list.schemas.js';
+
+/**
+ * TypeBox schemas and types for the customer lifecycle endpoints
+ */
+
+/**
+ * Lifecycle classes of a customer in the period
+ * - new: first purchase ever inside the period
+ * - retained: bought in the period and within churnDays before it
+ * - reactivated: bought in the period after more than churnDays without buying
+ * - at_risk: bought in the period but sales fell declinePct or more vs the
+ *   comparison window, or has not bought in the period yet and is not churned
+ * - churned: went over churnDays without buying during the period
+ */
+export const LIFECYCLE_STATUSES = ['new', 'retained', 'reactivated', 'at_risk', 'churned'] as const;
+
+export type LifecycleStatus = (typeof LIFECYCLE_STATUSES)[number];
+
+export const LifecycleStatusSchema = Type.Union(
+  [
+    Type.Literal('new'),
+    Type.Literal('retained'),
+    Type.Literal('reactivated'),
+    Type.Literal('at_risk'),
+    Type.Literal('churned'),
+  ],
+  { description: 'new | retained | reactivated | at_risk (declining or lapsing) | churned' }
+);
+
+/**
+ * Default days without a purchase after which a customer is churned
+ */
+export const DEFAULT_CHURN_DAYS = 90;
+
+/**
+ * Default sales drop (%) vs the comparison window that puts a buying customer at risk
+ */
+export const DEFAULT_DECLINE_PCT = 30;
+
+/**
+ * Parameters shared by the summary, the customer list and its export
+ * (accepts dynamic filters, like /list)
+ */
+const LifecycleBaseProperties = {
+  startDate: DateStringSchema,
+  endDate: DateStringSchema,
+  groupBy: Type.Optional(GroupByDimensionSchema),
+  churnDays: Type.Optional(Type.Integer({
+    minimum: 7,
+    maximum: 730,
+    default: DEFAULT_CHURN_DAYS,
+    description: `Days without a purchase after which a customer is churned (default ${DEFAULT_CHURN_DAYS})`,
+  })),
+  declinePct: Type.Optional(Type.Integer({
+    minimum: 1,
+    maximum: 100,
+    default: DEFAULT_DECLINE_PCT,
+    description: `Sales drop (%) vs the comparison window that makes a buying customer at risk (default ${DEFAULT_DECLINE_PCT})`,
+  })),
+  compareMode: Type.Optional(ComparisonModeSchema),
+  compareStartDate: Type.Optional(DateStringSchema),
+  compareEndDate: Type.Optional(DateStringSchema),
+};
+
+/**
+ * Filters of the customer list (drill-down into one class and/or group)
+ */
+const LifecycleCustomerProperties = {
+  lifecycleStatus: Type.Optional(LifecycleStatusSchema),
+  groupId: Type.Optional(Type.String({ description: 'Only customers of this groupBy value (requires groupBy)' })),
+  search: Type.Optional(Type.String({ maxLength: 100, description: 'Case-insensitive substring search on the customer id/name' })),
+  orderBy: Type.Optional(Type.Union([
+    Type.Literal('sales'),
+    Type.Literal('previous_sales'),
+    Type.Literal('sales_change'),
+    Type.Literal('last_purchase'),
+    Type.Literal('days_since_last'),
+    Type.Literal('customer_name'),
+  ], { default: 'sales', description: 'Sort field (default sales)' })),
+  orderDirection: Type.Optional(OrderDirectionSchema),
+};
+
+export const LifecycleQueryStringSchema = Type.Object(LifecycleBaseProperties, {
+  additionalProperties: true,
+  description: 'Customer lifecycle summary. Accepts dynamic filters beyond defined params.',
+});
+
+export type LifecycleQueryString = Static<typeof LifecycleQueryStringSchema>;
+
+export const LifecycleCustomersQueryStringSchema = Type.Object(
+  {
+    ...LifecycleBaseProperties,
+    ...LifecycleCustomerProperties,
+    page: Type.Optional(Type.Integer({ minimum: 1, default: 1, description: 'Page number (1-indexed)' })),
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 200, default: 50, description: 'Customers per page (max 200)' })),
+  },
+  {
+    additionalProperties: true,
+    description: 'Customers of a lifecycle class. Accepts dynamic filters beyond defined params.',
+  }
+);
+
+export type LifecycleCustomersQueryString = Static<typeof LifecycleCustomersQueryStringSchema>;
+
+export const LifecycleCustomersExportQueryStringSchema = Type.Object(
+  {
+    ...LifecycleBaseProperties,
+    ...LifecycleCustomerProperties,
+    format: Type.Optional(ExportFormatSchema),
+    filename: Type.Optional(Type.String({ maxLength: 120, description: 'Download name without extension' })),
+  },
+  {
+    additionalProperties: true,
+    description: 'Export of the customers of a lifecycle class. Accepts dynamic filters beyond defined params.',
+  }
+);
+
+export type LifecycleCustomersExportQueryString = Static<typeof LifecycleCustomersExportQueryStringSchema>;
+
+/**
+ * Customers and sales of one class
+ */
+const LifecycleClassSchema = Type.Object({
+  customers: Type.Integer(),
+  sales: Type.Number({ description: 'Sales in the period' }),
+  previous_sales: Type.Number({ description: 'Sales in the comparison window' }),
+});
+
+export type LifecycleClass = Static<typeof LifecycleClassSchema>;
+
+const LifecycleBreakdownSchema = Type.Object({
+  new: LifecycleClassSchema,
+  retained: LifecycleClassSchema,
+  reactivated: LifecycleClassSchema,
+  at_risk: LifecycleClassSchema,
+  churned: LifecycleClassSchema,
+});
+
+export type LifecycleBreakdown = Static<typeof LifecycleBreakdownSchema>;
+
+const LifecycleMetaSchema = Type.Object({
+  startDate: Type.String(),
+  endDate: Type.String(),
+  comparison: ComparisonPeriodSchema,
+  churnDays: Type.Integer(),
+  declinePct: Type.Integer(),
+  groupBy: Type.Union([Type.String(), Type.Null()]),
+});
+
+export type LifecycleMeta = Static<typeof LifecycleMetaSchema>;
+
+export const LifecycleResponseSchema = Type.Object({
+  data: Type.Object({
+    totals: LifecycleBreakdownSchema,
+    groups: Type.Array(Type.Object({
+      id: Type.String(),
+      name: Type.String(),
+      classes: LifecycleBreakdownSchema,
+    }), { description: 'Per groupBy value, largest first (empty without groupBy). A customer is classified within each group it bought in.' }),
+  }),
+  meta: LifecycleMetaSchema,
+});
+
+export type LifecycleResponse = Static<typeof LifecycleResponseSchema>;
+
+export const LifecycleCustomerSchema = Type.Object({
+  customer_id: Type.String(),
+  customer_name: Type.String(),
+  status: LifecycleStatusSchema,
+  group_id: Type.Union([Type.String(), Type.Null()]),
+  group_name: Type.Union([Type.String(), Type.Null()]),
+  first_purchase: Type.String(),
+  last_purchase: Type.String(),
+  days_since_last: Type.Integer({ description: 'Days from the last purchase to endDate' }),
+  sales: Type.Number(),
+  previous_sales: Type.Number(),
+  sales_change: Type.Number({ description: 'sales - previous_sales' }),
+});
+
+export type LifecycleCustomer = Static<typeof LifecycleCustomerSchema>;
+
+export const LifecycleCustomersResponseSchema = Type.Object({
+  data: Type.Array(LifecycleCustomerSchema),
+  meta: Type.Composite([
+    LifecycleMetaSchema,
+    Type.Object({
+      total: Type.Integer(),
+      page: Type.Integer(),
+      limit: Type.Integer(),
+      totalPages: Type.Integer(),
+    }),
+  ]),
+});
+
+export type LifecycleCustomersResponse = Static<typeof LifecycleCustomersResponseSchema>;
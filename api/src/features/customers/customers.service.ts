@@ -0,0 +1,191 @@
+import type { ClickHouseClient } from '@clickhouse/client';
+import type { FilterCondition } from '../../core/db/clickhouse/query/filter-builder.js';
+import { runCachedQuery, type QueryCacheBinding, type QueryCacheStats } from '../../core/cache/query-cache.js';
+import { streamRows } from '../../core/db/clickhouse/observed-query.js';
+import { ColumnDiscoveryService } from '../../core/db/clickhouse/query/column-discovery.js';
+import {
+  buildLifecycleSummaryQuery,
+  buildLifecycleCustomersQuery,
+  buildLifecycleCustomersCountQuery,
+  lifecycleTable,
+  type LifecycleCustomersQueryParams,
+  type LifecycleWindows,
+} from './customers.query.js';
+import {
+  LIFECYCLE_STATUSES,
+  type LifecycleBreakdown,
+  type LifecycleCustomer,
+  type LifecycleStatus,
+} from './customers.schemas.js';
+
+interface LifecycleParams {
+  groupBy?: string | undefined;
+  windows: LifecycleWindows;
+  declinePct: number;
+  filters: FilterCondition[];
+  /** Mandatory data-scope conditions resolved for the requesting user. */
+  scopeFilters: FilterCondition[];
+  /** Request counters updated on query cache hits/misses. */
+  cacheStats?: QueryCacheStats | undefined;
+}
+
+type LifecycleCustomersParams = LifecycleParams & Omit<LifecycleCustomersQueryParams, keyof LifecycleParams | 'columnMap'>;
+
+export interface LifecycleSummary {
+  totals: LifecycleBreakdown;
+  groups: Array<{ id: string; name: string; classes: LifecycleBreakdown }>;
+}
+
+type SummaryRow = {
+  group_id?: string;
+  group_name?: string;
+  status: LifecycleStatus;
+  customers: number | string;
+  sales: number | string;
+  previous_sales: number | string;
+};
+
+type CustomerRow = Omit<LifecycleCustomer, 'days_since_last' | 'sales' | 'previous_sales' | 'sales_change'> & {
+  days_since_last: number | string;
+  sales: number | string;
+  previous_sales: number | string;
+  sales_change: number | string;
+};
+
+/**
+ * Customer lifecycle: customers classified per period as new, retained,
+ * reactivated, at risk or churned (see LIFECYCLE_STATUSES), from their
+ * purchase history in `transactions`.
+ */
+export class CustomerLifecycleService {
+  private columnDiscoveryService: ColumnDiscoveryService;
+
+  constructor(
+    private client: ClickHouseClient,
+    private cache?: QueryCacheBinding
+  ) {
+    this.columnDiscoveryService = new ColumnDiscoveryService(client);
+  }
+
+  /**
+   * Columns of the transactions table, for the dynamic filters
+   */
+  private transactionColumns(): Promise<Map<string, Set<string>>> {
+    return this.columnDiscoveryService.getColumnsForTables([lifecycleTable()]);
+  }
+
+  /**
+   * Customers and sales per status, overall and per groupBy value
+   */
+  async getSummary({ cacheStats, ...params }: LifecycleParams): Promise<LifecycleSummary> {
+    const columnMap = await this.transactionColumns();
+    const run = (groupBy: string | undefined) => {
+      const { query, queryParams } = buildLifecycleSummaryQuery({ ...params, groupBy, columnMap });
+      return runCachedQuery<SummaryRow>(
+        this.client,
+        { kind: 'customer-lifecycle', query, queryParams },
+        this.cache,
+        cacheStats
+      );
+    };
+
+    // Totals classify each customer once; within groups a customer is
+    // classified in every group it bought in
+    const [totalRows, groupRows] = await Promise.all([
+      run(undefined),
+      params.groupBy ? run(params.groupBy) : Promise.resolve([]),
+    ]);
+
+    const totals = emptyBreakdown();
+    for (const row of totalRows) {
+      addRow(totals, row);
+    }
+
+    const groups = new Map<string, LifecycleSummary['groups'][number]>();
+    for (const row of groupRows) {
+      const id = row.group_id ?? '';
+      let group = groups.get(id);
+      if (!group) {
+        group = { id, name: row.group_name?.length ? row.group_name : id, classes: emptyBreakdown() };
+        groups.set(id, group);
+      }
+      addRow(group.classes, row);
+    }
+
+    return {
+      totals,
+      groups: [...groups.values()].sort((a, b) => weight(b.classes) - weight(a.classes) || a.id.localeCompare(b.id)),
+    };
+  }
+
+  /**
+   * A page of customers and the total number of matching customers
+   */
+  async getCustomers({ cacheStats, ...params }: LifecycleCustomersParams): Promise<{ rows: LifecycleCustomer[]; total: number }> {
+    const columnMap = await this.transactionColumns();
+    const list = buildLifecycleCustomersQuery({ ...params, columnMap });
+    const count = buildLifecycleCustomersCountQuery({ ...params, columnMap });
+
+    const [rows, totals] = await Promise.all([
+      runCachedQuery<CustomerRow>(
+        this.client,
+        { kind: 'customer-lifecycle-customers', ...list },
+        this.cache,
+        cacheStats
+      ),
+      runCachedQuery<{ total: number | string }>(
+        this.client,
+        { kind: 'customer-lifecycle-count', ...count },
+        this.cache,
+        cacheStats
+      ),
+    ]);
+
+    return { rows: rows.map(toCustomer), total: Number(totals[0]?.total ?? 0) };
+  }
+
+  /**
+   * Every matching customer, streamed from ClickHouse (exports)
+   */
+  async *streamCustomers(params: Omit<LifecycleCustomersParams, 'cacheStats'>): AsyncGenerator<LifecycleCustomer> {
+    const { query, queryParams } = buildLifecycleCustomersQuery({ ...params, columnMap: await this.transactionColumns() });
+    for await (const row of streamRows<CustomerRow>(this.client, { kind: 'customer-lifecycle-export', query, queryParams })) {
+      yield toCustomer(row);
+    }
+  }
+}
+
+function emptyBreakdown(): LifecycleBreakdown {
+  return Object.fromEntries(
+    LIFECYCLE_STATUSES.map((status) => [status, { customers: 0, sales: 0, previous_sales: 0 }])
+  ) as LifecycleBreakdown;
+}
+
+function addRow(breakdown: LifecycleBreakdown, row: SummaryRow): void {
+  const target = breakdown[row.status];
+  if (!target) return;
+  target.customers += Number(row.customers);
+  target.sales += Number(row.sales);
+  target.previous_sales += Number(row.previous_sales);
+}
+
+/** Sort key of a group: current and comparison sales of its customers */
+function weight(breakdown: LifecycleBreakdown): number {
+  return LIFECYCLE_STATUSES.reduce((sum, status) => sum + breakdown[status].sales + breakdown[status].previous_sales, 0);
+}
+
+function toCustomer(row: CustomerRow): LifecycleCustomer {
+  return {
+    customer_id: row.customer_id,
+    customer_name: row.customer_name || row.customer_id,
+    status: row.status,
+    group_id: row.group_id ?? null,
+    group_name: row.group_name ?? null,
+    first_purchase: row.first_purchase,
+    last_purchase: row.last_purchase,
+    days_since_last: Number(row.days_since_last),
+    sales: Number(row.sales),
+    previous_sales: Number(row.previous_sales),
+    sales_change: Number(row.sales_change),
+  };
+}
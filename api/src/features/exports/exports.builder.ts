@@ -0,0 +1,78 @@
+import type { AnalyticsQueryBuilder } from '../../core/db/clickhouse/query/analytics-query-builder.js';
+import type { ExportJob } from '../../core/db/postgres/schema.js';
+import { resolveUserDataScope } from '../../core/middleware/data-scope.js';
+import { parseDynamicFilters, querystringParams } from '../../core/utils/filter-parser.js';
+import { parseCustomMetricKeys } from '../../core/metrics/custom-metric.js';
+import { ListService } from '../list/list.service.js';
+import { buildListExport, streamListExport } from '../list/list.export.builder.js';
+import type { ListExportQueryString } from '../list/list.export.schemas.js';
+import { CampaignService } from '../campaigns/campaign.service.js';
+import { campaignScopeFilters } from '../campaigns/campaign.filters.js';
+import { campaignEditionsService } from '../campaigns/campaign.editions.service.js';
+import {
+  buildCampaignListExport,
+  buildSinCompraExport,
+  streamCampaignListExport,
+} from '../campaigns/campaign.export.builder.js';
+import type {
+  CampaignListExportQueryString,
+  CampaignSinCompraExportQueryString,
+} from '../campaigns/campaign.schemas.js';
+import type { CustomMetricsService } from '../custom-metrics/custom-metrics.service.js';
+import type { ExportOwner } from './exports.service.js';
+import { EXPORT_QUERY_SCHEMAS } from './exports.schemas.js';
+
+/**
+ * Builds the file of an export job with the builders of its export endpoint
+ * (same content as the synchronous download).
+ *
+ * Queries run with the owner's current data scope, as if the owner had
+ * requested the export.
+ */
+export class ExportJobBuilder {
+  /**
+   * @param analyticsBuilder - Unscoped builder (scoped per owner on each job)
+   */
+  constructor(
+    private analyticsBuilder: AnalyticsQueryBuilder,
+    private customMetricsService: CustomMetricsService
+  ) {}
+
+  /**
+   * @returns The xlsx file, or the encoded chunks of a CSV / Parquet file
+   *   (streamed from ClickHouse as they are consumed)
+   * @throws ForbiddenError if the owner's role is gone or no longer allows the filters
+   * @throws NotFoundError if the campaign edition of the query is gone or back to draft
+   * @throws ExportTooLargeError if an xlsx list export exceeds EXPORT_ROW_HARD_CAP rows
+   */
+  async build(job: ExportJob, owner: ExportOwner): Promise<Buffer | AsyncIterable<string | Buffer>> {
+    const scope = await resolveUserDataScope(
+      owner,
+      parseDynamicFilters(job.query, querystringParams(EXPORT_QUERY_SCHEMAS[job.kind]))
+    );
+
+    if (job.kind === 'list') {
+      const query = job.query as ListExportQueryString;
+      const service = new ListService(this.analyticsBuilder.withScope(scope));
+      const customMetrics = await this.customMetricsService.resolveForQuery(owner, parseCustomMetricKeys(query.metrics));
+
+      return job.format === 'xlsx'
+        ? (await buildListExport(service, query, customMetrics)).buffer
+        : (await streamListExport(service, query, customMetrics, job.format)).body;
+    }
+
+    // Campaign jobs: the edition decides the campaign
+    const { campaign, edition } = await campaignEditionsService.resolveWithCampaign(String(job.query['editionId']));
+    const scoped = this.analyticsBuilder.withScope(campaignScopeFilters(scope, campaign, edition));
+    const context = { campaign, edition, service: new CampaignService(scoped, campaign) };
+
+    if (job.kind === 'festival-sin-compra') {
+      return buildSinCompraExport(context, job.query as CampaignSinCompraExportQueryString);
+    }
+
+    const query = job.query as CampaignListExportQueryString;
+    return job.format === 'xlsx'
+      ? buildCampaignListExport(context, query)
+      : streamCampaignListExport(context, query, job.format);
+  }
+}
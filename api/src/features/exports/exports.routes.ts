@@ -0,0 +1,141 @@
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { ExportsService, type ExportJobUser } from './exports.service.js';
+import {
+  ExportJobSchema,
+  CreateExportJobBodySchema,
+  ExportJobParamsSchema,
+  EXPORT_QUERY_SCHEMAS,
+  type CreateExportJobBody,
+  type ExportJobKind,
+} from './exports.schemas.js';
+import { exportFileKey } from './exports.worker.js';
+import type { ExportFileStorage } from '../../core/export/export-storage.js';
+import { sendExport } from '../../core/export/tabular-export.js';
+import { authenticate } from '../../core/middleware/authenticate.js';
+import { NotFoundError, UnauthorizedError, ValidationError } from '../../core/errors/app-error.js';
+
+/**
+ * Export job routes
+ *
+ * Any authenticated user queues the exports of the list and campaign pages
+ * (built in the background by the export worker), polls their progress and
+ * downloads the finished files until they expire. Only the owner sees a job.
+ */
+export function exportsRoutes(fastify: FastifyInstance, storage: ExportFileStorage): void {
+  const service = new ExportsService();
+
+  const sessionUser = (request: FastifyRequest): ExportJobUser => {
+    if (!request.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+    return request.user;
+  };
+
+  // Download history
+  fastify.get(
+    '/exports',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Your latest export jobs, newest first',
+        tags: ['Exports'],
+        response: {
+          200: Type.Object({
+            data: Type.Array(ExportJobSchema),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const data = await service.list(sessionUser(request));
+      return reply.send({ data });
+    }
+  );
+
+  // Queue an export
+  fastify.post(
+    '/exports',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Queue an export of the list or campaign pages. The query is the one of the matching GET export endpoint; poll GET /exports/:id for its progress.',
+        tags: ['Exports'],
+        body: CreateExportJobBodySchema,
+        response: {
+          202: ExportJobSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { kind, query } = request.body as { kind: ExportJobKind; query: Record<string, unknown> };
+      // Coerces the query string values like the GET endpoint
+      const validate = request.compileValidationSchema(EXPORT_QUERY_SCHEMAS[kind], 'querystring');
+      if (!validate(query)) {
+        throw new ValidationError('Validation failed', validate.errors);
+      }
+
+      const job = await service.create(sessionUser(request), { kind, query } as CreateExportJobBody);
+      return reply.status(202).send(job);
+    }
+  );
+
+  // Progress of a job
+  fastify.get(
+    '/exports/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Status and progress of one of your export jobs',
+        tags: ['Exports'],
+        params: ExportJobParamsSchema,
+        response: {
+          200: ExportJobSchema,
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const job = await service.get(sessionUser(request), id);
+
+      if (!job) {
+        throw new NotFoundError('Export not found');
+      }
+
+      return reply.send(job);
+    }
+  );
+
+  // Download a finished file
+  fastify.get(
+    '/exports/:id/download',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Download the file of one of your completed export jobs (until it expires)',
+        tags: ['Exports'],
+        params: ExportJobParamsSchema,
+        // NOTE: no response schema — the handler sends a raw file.
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const job = await service.get(sessionUser(request), id);
+
+      // The worker marks expired jobs on its next tick
+      if (job?.status !== 'completed' || (job.expiresAt !== null && job.expiresAt <= new Date())) {
+        throw new NotFoundError('Export not found');
+      }
+
+      const file = await storage.open(exportFileKey(job));
+      if (!file) {
+        throw new NotFoundError('Export file not found');
+      }
+
+      return sendExport(reply, job.format, job.filename, file);
+    }
+  );
+}
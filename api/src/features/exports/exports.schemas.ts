@@ -0,0 +1,80 @@
+import { Type, type Static, type TSchema } from '@sinclair/typebox';
+import { ListExportQueryStringSchema } from '../list/list.export.schemas.js';
+import {
+  CampaignListExportQueryStringSchema,
+  CampaignSinCompraExportQueryStringSchema,
+} from '../campaigns/campaign.schemas.js';
+import { ExportFormatSchema } from '../../core/schemas/common.schemas.js';
+
+/**
+ * TypeBox schemas for the background export jobs
+ */
+
+const ExportJobKindSchema = Type.Union(
+  [Type.Literal('list'), Type.Literal('festival-list'), Type.Literal('festival-sin-compra')],
+  {
+    description: 'list: GET /list/export; festival-list: GET /campaigns/:campaign/list/export; festival-sin-compra: '
+      + 'GET /campaigns/:campaign/sin-compra/export (any campaign: the editionId of the query decides it)',
+  }
+);
+
+export type ExportJobKind = Static<typeof ExportJobKindSchema>;
+
+const ExportJobStatusSchema = Type.Union([
+  Type.Literal('queued'),
+  Type.Literal('running'),
+  Type.Literal('completed'),
+  Type.Literal('failed'),
+  Type.Literal('expired'),
+]);
+
+/**
+ * Query of each kind of job: the query string of its export endpoint (same
+ * params, same validation)
+ */
+export const EXPORT_QUERY_SCHEMAS = {
+  'list': ListExportQueryStringSchema,
+  'festival-list': CampaignListExportQueryStringSchema,
+  'festival-sin-compra': CampaignSinCompraExportQueryStringSchema,
+} satisfies Record<ExportJobKind, TSchema>;
+
+/**
+ * Create export job body schema. The query is validated against the schema
+ * of its kind by the route (see EXPORT_QUERY_SCHEMAS).
+ */
+export const CreateExportJobBodySchema = Type.Object({
+  kind: ExportJobKindSchema,
+  query: Type.Object({}, {
+    additionalProperties: true,
+    description: 'Query string of the export endpoint, e.g. { "groupBy": "regional", "startDate": "2026-03-01", ..., "format": "csv" }',
+  }),
+});
+
+/**
+ * Validated export request
+ */
+export type CreateExportJobBody = {
+  [K in ExportJobKind]: { kind: K; query: Static<(typeof EXPORT_QUERY_SCHEMAS)[K]> };
+}[ExportJobKind];
+
+/**
+ * Export job response schema
+ */
+export const ExportJobSchema = Type.Object({
+  id: Type.String(),
+  kind: ExportJobKindSchema,
+  format: ExportFormatSchema,
+  filename: Type.String({ description: 'Download filename, without extension' }),
+  status: ExportJobStatusSchema,
+  progress: Type.Integer({ minimum: 0, maximum: 100 }),
+  sizeBytes: Type.Union([Type.Number(), Type.Null()], { description: 'Bytes written so far (file size once completed)' }),
+  error: Type.Union([Type.String(), Type.Null()]),
+  createdAt: Type.String(),
+  startedAt: Type.Union([Type.String(), Type.Null()]),
+  completedAt: Type.Union([Type.String(), Type.Null()]),
+  expiresAt: Type.Union([Type.String(), Type.Null()], { description: 'The file is deleted after this date' }),
+});
+
+export const ExportJobParamsSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
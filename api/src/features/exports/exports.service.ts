@@ -0,0 +1,307 @@
+import { and, asc, desc, eq, inArray, lt, lte } from 'drizzle-orm';
+import { db } from '../../core/db/postgres/client.js';
+import { exportJobs, users, type ExportJob } from '../../core/db/postgres/schema.js';
+import { RateLimitError } from '../../core/errors/app-error.js';
+import { resolveUserDataScope } from '../../core/middleware/data-scope.js';
+import { parseDynamicFilters, querystringParams } from '../../core/utils/filter-parser.js';
+import { sanitizeFilename } from '../../core/utils/export-filename.js';
+import { parseCustomMetricKeys } from '../../core/metrics/custom-metric.js';
+import { parseListFilters } from '../list/list.filters.js';
+import { campaignScopeFilters } from '../campaigns/campaign.filters.js';
+import { campaignEditionsService } from '../campaigns/campaign.editions.service.js';
+import { campaignListExportName, sinCompraExportName } from '../campaigns/campaign.export.builder.js';
+import { CustomMetricsService } from '../custom-metrics/custom-metrics.service.js';
+import { EXPORT_QUERY_SCHEMAS, type CreateExportJobBody } from './exports.schemas.js';
+
+/**
+ * Session user fields needed to validate an export
+ */
+export interface ExportJobUser {
+  id: string;
+  dynaRole?: string | null | undefined;
+}
+
+/**
+ * Owner of a job, as needed to build its file
+ */
+export interface ExportOwner {
+  id: string;
+  isActive: boolean;
+  dynaRole: string | null;
+}
+
+/**
+ * Export job as returned by the API (the query and the worker lease are not exposed)
+ */
+export type ExportJobResponse = Pick<
+  ExportJob,
+  'id' | 'kind' | 'format' | 'filename' | 'status' | 'progress' | 'sizeBytes' | 'error'
+  | 'createdAt' | 'startedAt' | 'completedAt' | 'expiresAt'
+>;
+
+/**
+ * Jobs returned by the download history
+ */
+const EXPORT_HISTORY_LIMIT = 20;
+
+/**
+ * Queued or running jobs a user may have at once
+ */
+export const MAX_PENDING_EXPORTS = 3;
+
+/**
+ * Export jobs service - Exports queued by the users (`export_job`) and the
+ * claim/record operations of the worker (see exports.worker.ts)
+ */
+export class ExportsService {
+  private customMetricsService = new CustomMetricsService();
+
+  /**
+   * Latest jobs of the user (download history), newest first
+   */
+  async list(user: ExportJobUser): Promise<ExportJobResponse[]> {
+    const rows = await db
+      .select()
+      .from(exportJobs)
+      .where(eq(exportJobs.ownerId, user.id))
+      .orderBy(desc(exportJobs.createdAt))
+      .limit(EXPORT_HISTORY_LIMIT);
+
+    return rows.map(toResponse);
+  }
+
+  /**
+   * A job owned by the user
+   *
+   * @returns The job, or null if it does not exist or belongs to someone else
+   */
+  async get(user: ExportJobUser, id: string): Promise<ExportJobResponse | null> {
+    const [row] = await db
+      .select()
+      .from(exportJobs)
+      .where(and(eq(exportJobs.id, id), eq(exportJobs.ownerId, user.id)))
+      .limit(1);
+
+    return row ? toResponse(row) : null;
+  }
+
+  /**
+   * Queue an export. The query is validated like the export endpoint would
+   * (data scope, custom metrics), so a job only fails for runtime reasons.
+   *
+   * @throws ValidationError if the query is invalid
+   * @throws ForbiddenError if the filters override the user's data scope
+   * @throws NotFoundError if a campaign export refers to an unknown or draft edition
+   * @throws RateLimitError if the user already has MAX_PENDING_EXPORTS pending jobs
+   */
+  async create(user: ExportJobUser, data: CreateExportJobBody): Promise<ExportJobResponse> {
+    const filename = await this.validateExport(user, data);
+
+    const pending = await db
+      .select({ count: db.$count(exportJobs.id) })
+      .from(exportJobs)
+      .where(and(eq(exportJobs.ownerId, user.id), inArray(exportJobs.status, ['queued', 'running'])));
+
+    if (Number(pending[0]?.count ?? 0) >= MAX_PENDING_EXPORTS) {
+      throw new RateLimitError(`At most ${MAX_PENDING_EXPORTS} exports can be in progress at once`);
+    }
+
+    const [created] = await db
+      .insert(exportJobs)
+      .values({
+        ownerId: user.id,
+        kind: data.kind,
+        format: data.kind === 'festival-sin-compra' ? 'xlsx' : data.query.format ?? 'xlsx',
+        query: data.query as Record<string, unknown>,
+        filename,
+      })
+      .returning();
+
+    if (!created) {
+      throw new Error('Failed to create export job');
+    }
+
+    return toResponse(created);
+  }
+
+  /**
+   * Claim the oldest queued jobs for this instance
+   *
+   * Rows locked by another replica's claim are skipped; a claimed job is
+   * running and leased until `now + leaseMs` (renewed by recordProgress).
+   */
+  async claimQueued(instanceId: string, now: Date, leaseMs: number, limit: number): Promise<ExportJob[]> {
+    const queued = db
+      .select({ id: exportJobs.id })
+      .from(exportJobs)
+      .where(eq(exportJobs.status, 'queued'))
+      .orderBy(asc(exportJobs.createdAt))
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return db
+      .update(exportJobs)
+      .set({
+        status: 'running',
+        startedAt: now,
+        lockedUntil: new Date(now.getTime() + leaseMs),
+        lockedBy: instanceId,
+        updatedAt: now,
+      })
+      .where(inArray(exportJobs.id, queued))
+      .returning();
+  }
+
+  /**
+   * Owner of a job (null if the user no longer exists)
+   */
+  async getOwner(ownerId: string): Promise<ExportOwner | null> {
+    const [owner] = await db
+      .select({ id: users.id, isActive: users.isActive, dynaRole: users.dynaRole })
+      .from(users)
+      .where(eq(users.id, ownerId))
+      .limit(1);
+
+    return owner ?? null;
+  }
+
+  /**
+   * Record the progress of a running job and renew its lease
+   */
+  async recordProgress(
+    job: ExportJob,
+    instanceId: string,
+    progress: number,
+    sizeBytes: number | null,
+    now: Date,
+    leaseMs: number
+  ): Promise<void> {
+    await db
+      .update(exportJobs)
+      .set({
+        progress,
+        sizeBytes,
+        lockedUntil: new Date(now.getTime() + leaseMs),
+        updatedAt: now,
+      })
+      .where(leasedBy(job.id, instanceId));
+  }
+
+  /**
+   * Record a finished file, downloadable until `expiresAt`. Releases the lease.
+   */
+  async recordCompleted(job: ExportJob, instanceId: string, sizeBytes: number, now: Date, expiresAt: Date): Promise<void> {
+    await db
+      .update(exportJobs)
+      .set({
+        status: 'completed',
+        progress: 100,
+        sizeBytes,
+        completedAt: now,
+        expiresAt,
+        lockedUntil: null,
+        lockedBy: null,
+        updatedAt: now,
+      })
+      .where(leasedBy(job.id, instanceId));
+  }
+
+  /**
+   * Record a failed job (not retried: the user queues it again). Releases the lease.
+   */
+  async recordFailure(job: ExportJob, instanceId: string, error: string, now: Date): Promise<void> {
+    await db
+      .update(exportJobs)
+      .set({
+        status: 'failed',
+        error,
+        completedAt: now,
+        lockedUntil: null,
+        lockedBy: null,
+        updatedAt: now,
+      })
+      .where(leasedBy(job.id, instanceId));
+  }
+
+  /**
+   * Fail the running jobs whose lease expired (their replica stopped mid-job)
+   *
+   * @returns The interrupted jobs (their partial files are to be removed)
+   */
+  async failInterrupted(now: Date): Promise<ExportJob[]> {
+    return db
+      .update(exportJobs)
+      .set({
+        status: 'failed',
+        error: 'Export interrupted',
+        completedAt: now,
+        lockedUntil: null,
+        lockedBy: null,
+        updatedAt: now,
+      })
+      .where(and(eq(exportJobs.status, 'running'), lt(exportJobs.lockedUntil, now)))
+      .returning();
+  }
+
+  /**
+   * Mark the completed jobs past their expiry as expired
+   *
+   * @returns The expired jobs (their files are to be removed)
+   */
+  async expireCompleted(now: Date): Promise<ExportJob[]> {
+    return db
+      .update(exportJobs)
+      .set({ status: 'expired', updatedAt: now })
+      .where(and(eq(exportJobs.status, 'completed'), lte(exportJobs.expiresAt, now)))
+      .returning();
+  }
+
+  /**
+   * Validate the export query the way its endpoint does
+   *
+   * @returns The download filename (without extension)
+   */
+  private async validateExport(user: ExportJobUser, data: CreateExportJobBody): Promise<string> {
+    const scope = await resolveUserDataScope(
+      user,
+      parseDynamicFilters(data.query as Record<string, unknown>, querystringParams(EXPORT_QUERY_SCHEMAS[data.kind]))
+    );
+
+    if (data.kind === 'list') {
+      const { groupBy } = parseListFilters(data.query as Record<string, unknown>);
+      await this.customMetricsService.resolveForQuery(user, parseCustomMetricKeys(data.query.metrics));
+      return sanitizeFilename(data.query.filename) || `export-${groupBy}`;
+    }
+
+    // The edition must be published; roles scoped outside its channels have no campaign data
+    const { campaign, edition } = await campaignEditionsService.resolveWithCampaign(data.query.editionId);
+    campaignScopeFilters(scope, campaign, edition);
+    return data.kind === 'festival-list'
+      ? campaignListExportName(data.query, campaign)
+      : sinCompraExportName(data.query, campaign);
+  }
+}
+
+/**
+ * The job while this instance still holds its lease
+ */
+function leasedBy(id: string, instanceId: string) {
+  return and(eq(exportJobs.id, id), eq(exportJobs.lockedBy, instanceId));
+}
+
+function toResponse(row: ExportJob): ExportJobResponse {
+  return {
+    id: row.id,
+    kind: row.kind,
+    format: row.format,
+    filename: row.filename,
+    status: row.status,
+    progress: row.progress,
+    sizeBytes: row.sizeBytes,
+    error: row.error,
+    createdAt: row.createdAt,
+    startedAt: row.startedAt,
+    completedAt: row.completedAt,
+    expiresAt: row.expiresAt,
+  };
+}
@@ -0,0 +1,128 @@
+import type { ExportJob } from '../../core/db/postgres/schema.js';
+import type { ExportFileStorage } from '../../core/export/export-storage.js';
+import { LeaseRunner } from '../../core/jobs/lease-runner.js';
+import { logger } from '../../core/logger/logger.js';
+import type { ExportOwner, ExportsService } from './exports.service.js';
+
+/**
+ * How long a claimed job stays locked to this instance without a heartbeat
+ * (ms). A running job whose lease expired is marked failed.
+ */
+export const EXPORT_LEASE_MS = 2 * 60 * 1000;
+
+/**
+ * Interval of the progress updates of a running job, which also renew its lease (ms)
+ */
+export const EXPORT_HEARTBEAT_MS = 5000;
+
+/**
+ * Jobs claimed per tick
+ */
+export const EXPORT_BATCH_SIZE = 2;
+
+/**
+ * Progress once the export query has returned (the xlsx workbook is built,
+ * a CSV / Parquet file has its first row); `sizeBytes` grows from there
+ */
+const PROGRESS_QUERIED = 50;
+
+/**
+ * Storage key of a job's file
+ */
+export function exportFileKey(job: Pick<ExportJob, 'id' | 'format'>): string {
+  return `${job.id}.${job.format}`;
+}
+
+/**
+ * Worker of the export jobs
+ *
+ * Its runner claims the queued jobs (see ExportsService.claimQueued) and
+ * builds them one by one into the file storage, reporting progress while the
+ * file is written. Each tick first fails jobs interrupted on another replica
+ * and deletes the files of expired jobs.
+ */
+export class ExportWorker {
+  readonly runner: LeaseRunner<ExportJob>;
+
+  constructor(
+    private service: Pick<
+      ExportsService,
+      'claimQueued' | 'getOwner' | 'recordProgress' | 'recordCompleted' | 'recordFailure' | 'failInterrupted' | 'expireCompleted'
+    >,
+    private builder: { build(job: ExportJob, owner: ExportOwner): Promise<Buffer | AsyncIterable<string | Buffer>> },
+    private storage: Pick<ExportFileStorage, 'save' | 'remove'>,
+    intervalMs: number,
+    private retentionMs: number,
+    instanceId?: string
+  ) {
+    this.runner = new LeaseRunner({
+      name: 'Export worker',
+      errorType: 'export_worker_error',
+      intervalMs,
+      leaseMs: EXPORT_LEASE_MS,
+      batchSize: EXPORT_BATCH_SIZE,
+      claimDue: (...args) => this.service.claimQueued(...args),
+      handle: async (job, instanceId) => (await this.run(job, instanceId) ? 1 : 0),
+      beforeClaim: (now) => this.cleanUp(now),
+    }, instanceId);
+  }
+
+  /**
+   * Remove the files of interrupted and expired jobs
+   */
+  private async cleanUp(now: Date): Promise<void> {
+    try {
+      const jobs = [...await this.service.failInterrupted(now), ...await this.service.expireCompleted(now)];
+      for (const job of jobs) {
+        await this.storage.remove(exportFileKey(job));
+      }
+    } catch (error) {
+      logger.error({ type: 'export_worker_error', err: error }, 'Failed to clean up export jobs');
+    }
+  }
+
+  private async run(job: ExportJob, instanceId: string): Promise<boolean> {
+    let progress = 0;
+    let sizeBytes: number | null = null;
+    let reported = Promise.resolve();
+    const heartbeat = setInterval(() => {
+      reported = reported
+        .then(() => this.service.recordProgress(job, instanceId, progress, sizeBytes, new Date(), EXPORT_LEASE_MS))
+        .catch((error: unknown) => {
+          logger.error({ type: 'export_worker_error', err: error, jobId: job.id }, 'Failed to record export progress');
+        });
+    }, EXPORT_HEARTBEAT_MS);
+
+    try {
+      const owner = await this.service.getOwner(job.ownerId);
+      if (!owner?.isActive) {
+        throw new Error('Owner account is inactive');
+      }
+
+      const body = await this.builder.build(job, owner);
+      progress = PROGRESS_QUERIED;
+      const size = await this.storage.save(exportFileKey(job), body, (bytes) => {
+        sizeBytes = bytes;
+      });
+
+      clearInterval(heartbeat);
+      await reported;
+      const completedAt = new Date();
+      await this.service.recordCompleted(job, instanceId, size, completedAt, new Date(completedAt.getTime() + this.retentionMs));
+      return true;
+    } catch (error) {
+      clearInterval(heartbeat);
+      await reported;
+      logger.error({ type: 'export_job_error', err: error, jobId: job.id, kind: job.kind }, 'Failed to build export');
+
+      try {
+        await this.storage.remove(exportFileKey(job));
+        await this.service.recordFailure(job, instanceId, error instanceof Error ? error.message : String(error), new Date());
+      } catch (recordError) {
+        // The lease expires and the job is marked interrupted by the next tick
+        logger.error({ type: 'export_worker_error', err: recordError, jobId: job.id }, 'Failed to record export failure');
+      }
+      return false;
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import type { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
+import type { DatabaseClient } from '../../core/db/clickhouse/client.js';
+import { AnalyticsQueryBuilder } from '../../core/db/clickhouse/query/analytics-query-builder.js';
+import { queryCacheFor } from '../../core/cache/query-cache.js';
+import { InsightsService } from './insights.service.js';
+import {
+  DEFAULT_MOVERS_LIMIT,
+  DEFAULT_TRAILING_DAYS,
+  DEFAULT_VARIANCE_LIMIT,
+  DEFAULT_Z_THRESHOLD,
+  MoversQueryStringSchema,
+  MoversResponseSchema,
+  VarianceQueryStringSchema,
+  VarianceResponseSchema,
+} from './insights.schemas.js';
+import { ValidationError } from '../../core/errors/app-error.js';
+import { parseDynamicFilters, querystringParams } from '../../core/utils/filter-parser.js';
+import { resolveComparisonPeriod, buildComparisonFilters } from '../../core/utils/comparison-period.js';
+import { authenticate } from '../../core/middleware/authenticate.js';
+import { resolveDataScope } from '../../core/middleware/data-scope.js';
+
+// Params of each insights querystring (trailingDays, itemLevel...), never filters
+const MOVERS_PARAMS = querystringParams(MoversQueryStringSchema);
+const VARIANCE_PARAMS = querystringParams(VarianceQueryStringSchema);
+
+/**
+ * Register the insights routes: what explains the change in sales (movers,
+ * price-volume-mix) and which days stand out, for any dimension and filter set
+ */
+export function insightsRoutes(
+  fastify: FastifyInstance,
+  dbClient: DatabaseClient
+): void {
+  const server = fastify.withTypeProvider<TypeBoxTypeProvider>();
+
+  // Instantiate service with DI, bound per request to the user's data scope
+  const analyticsBuilder = new AnalyticsQueryBuilder(dbClient.getClient(), [], queryCacheFor(fastify, 'insights'));
+  const serviceFor = (request: FastifyRequest): InsightsService =>
+    new InsightsService(analyticsBuilder.withScope(request.dataScope ?? [], request.queryCacheStats));
+
+  /**
+   * GET /insights/movers
+   * Top gainers and decliners of sales_total against the comparison period,
+   * and the days whose sales are outliers for their group
+   *
+   * Query params:
+   * - startDate / endDate: period (required)
+   * - groupBy: dimension (required)
+   * - limit: movers per ranking and maximum outliers (default 10)
+   * - compareMode / compareStartDate / compareEndDate: comparison period (default: same range a year earlier)
+   * - trailingDays: baseline window of the outliers, ending at endDate (default 90)
+   * - zThreshold: minimum |robust z-score| of an outlier (default 3.5)
+   * - Any other params: Dynamic filters (comma-separated for multiple values)
+   *
+   * Examples:
+   * - /insights/movers?startDate=2026-09-01&endDate=2026-09-30&groupBy=seller_id
+   * - /insights/movers?startDate=2026-09-01&endDate=2026-09-30&groupBy=ProveedorComercial&IdRegional=0019&zThreshold=3
+   */
+  server.get(
+    '/insights/movers',
+    {
+      preHandler: [authenticate, resolveDataScope],
+      schema: {
+        description: 'Top gainers and decliners by absolute and relative change in sales_total against the comparison period, with their contribution to the headline change, plus daily sales outliers (robust z-score over a trailing window).',
+        tags: ['insights'],
+        querystring: MoversQueryStringSchema,
+        response: {
+          200: MoversResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const query = request.query;
+      if (query.startDate > query.endDate) {
+        throw new ValidationError('startDate must not be after endDate');
+      }
+
+      const dynamicFilters = parseDynamicFilters(query, MOVERS_PARAMS);
+      const comparison = resolveComparisonPeriod(query);
+      const comparisonFilters = buildComparisonFilters(comparison, dynamicFilters);
+      const zThreshold = query.zThreshold ?? DEFAULT_Z_THRESHOLD;
+
+      const { trailingStartDate, ...data } = await serviceFor(request).getMovers({
+        filters: dynamicFilters,
+        startDate: query.startDate,
+        endDate: query.endDate,
+        groupBy: query.groupBy,
+        limit: query.limit ?? DEFAULT_MOVERS_LIMIT,
+        ...(comparisonFilters && { comparisonFilters }),
+        trailingDays: query.trailingDays ?? DEFAULT_TRAILING_DAYS,
+        zThreshold,
+      });
+
+      return reply.code(200).send({
+        data,
+        meta: {
+          groupBy: query.groupBy,
+          ...(comparison && { comparison }),
+          trailingStartDate,
+          zThreshold,
+        },
+      });
+    }
+  );
+
+  /**
+   * GET /insights/price-volume-mix
+   * Decomposition of the change in invoiced sales and gross margin against
+   * the comparison period into price, volume, mix and new/lost item effects
+   *
+   * Query params:
+   * - startDate / endDate: period (required)
+   * - groupBy: dimension (required)
+   * - itemLevel: product_id (default) | Marca | Categoria
+   * - limit: groups returned, largest sales change first (default 20)
+   * - compareMode / compareStartDate / compareEndDate: comparison period (default: same range a year earlier)
+   * - Any other params: Dynamic filters (comma-separated for multiple values)
+   *
+   * Examples:
+   * - /insights/price-volume-mix?startDate=2026-01-01&endDate=2026-09-30&groupBy=IdRegional
+   * - /insights/price-volume-mix?startDate=2026-09-01&endDate=2026-09-30&groupBy=seller_id&itemLevel=Marca&compareMode=previous_month
+   */
+  server.get(
+    '/insights/price-volume-mix',
+    {
+      preHandler: [authenticate, resolveDataScope],
+      schema: {
+        description: 'Price-volume-mix analysis: the change in invoiced sales and gross margin against the comparison period split into price, volume, mix and new/lost item effects at a product level, per groupBy value. Requires a quantity column in transactions.',
+        tags: ['insights'],
+        querystring: VarianceQueryStringSchema,
+        response: {
+          200: VarianceResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const query = request.query;
+      if (query.startDate > query.endDate) {
+        throw new ValidationError('startDate must not be after endDate');
+      }
+
+      const dynamicFilters = parseDynamicFilters(query, VARIANCE_PARAMS);
+      const comparison = resolveComparisonPeriod(query);
+      const comparisonFilters = buildComparisonFilters(comparison, dynamicFilters);
+      const itemLevel = query.itemLevel ?? 'product_id';
+
+      const { quantityColumn, total, ...data } = await serviceFor(request).getPriceVolumeMix({
+        filters: dynamicFilters,
+        startDate: query.startDate,
+        endDate: query.endDate,
+        groupBy: query.groupBy,
+        itemLevel,
+        limit: query.limit ?? DEFAULT_VARIANCE_LIMIT,
+        ...(comparisonFilters && { comparisonFilters }),
+      });
+
+      return reply.code(200).send({
+        data,
+        meta: {
+          groupBy: query.groupBy,
+          itemLevel,
+          quantityColumn,
+          total,
+          ...(comparison && { comparison }),
+        },
+      });
+    }
+  );
+}
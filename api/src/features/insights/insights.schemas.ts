@@ -0,0 +1,212 @@
+import { Type, type Static } from '@sinclair/typebox';
+import { DateStringSchema } from '../../core/schemas/common.schemas.js';
+import { ALLOWED_DIMENSIONS } from '../../core/config/dimensions.config.js';
+import { ComparisonModeSchema, ComparisonPeriodSchema } from '../../core/utils/comparison-period.js';
+import { GroupByDimensionSchema } from '../list/list.schemas.js';
+
+/**
+ * TypeBox schemas and types for the insights endpoints (top movers, daily
+ * sales anomalies and price-volume-mix variance)
+ */
+
+/**
+ * Dimensions movers can be grouped by: the list dimensions except the time
+ * buckets (a month has no year-over-year "mover")
+ */
+export const INSIGHT_DIMENSIONS = ALLOWED_DIMENSIONS.filter(
+  (dim) => dim !== 'month' && dim !== 'quarter' && dim !== 'year'
+);
+
+export const InsightGroupBySchema = Type.Union(
+  INSIGHT_DIMENSIONS.map((dim) => Type.Literal(dim)),
+  { description: 'Dimension the movers and anomalies are computed per' }
+);
+
+/**
+ * Defaults of the movers query
+ */
+export const DEFAULT_MOVERS_LIMIT = 10;
+export const DEFAULT_TRAILING_DAYS = 90;
+export const DEFAULT_Z_THRESHOLD = 3.5;
+
+/**
+ * Days with sales a group needs in the trailing window before its days can
+ * be flagged (fewer make the median and MAD meaningless)
+ */
+export const MIN_OUTLIER_DAYS = 7;
+
+export const MoversQueryStringSchema = Type.Object(
+  {
+    startDate: DateStringSchema,
+    endDate: DateStringSchema,
+    groupBy: InsightGroupBySchema,
+    limit: Type.Optional(Type.Integer({
+      minimum: 1,
+      maximum: 50,
+      default: DEFAULT_MOVERS_LIMIT,
+      description: 'Movers per ranking and maximum outliers',
+    })),
+    compareMode: Type.Optional(ComparisonModeSchema),
+    compareStartDate: Type.Optional(DateStringSchema),
+    compareEndDate: Type.Optional(DateStringSchema),
+    trailingDays: Type.Optional(Type.Integer({
+      minimum: 14,
+      maximum: 365,
+      default: DEFAULT_TRAILING_DAYS,
+      description: 'Days up to endDate the daily baseline of each group is computed over',
+    })),
+    zThreshold: Type.Optional(Type.Number({
+      minimum: 1,
+      maximum: 10,
+      default: DEFAULT_Z_THRESHOLD,
+      description: 'Minimum |robust z-score| of an outlier day',
+    })),
+  },
+  { additionalProperties: true }
+);
+
+/**
+ * One group's year-over-year change in sales_total (facturado + comprometido)
+ * - change_pct: relative change (null without last-year sales)
+ * - contribution_pp: points of the headline sales_total_vs_last_year the
+ *   group accounts for (they add up to the headline over all groups)
+ * - share_of_change: % of the net change (null when it is 0)
+ */
+export const MoverSchema = Type.Object({
+  id: Type.String(),
+  name: Type.String(),
+  sales_total: Type.Number(),
+  sales_total_last_year: Type.Number(),
+  change: Type.Number(),
+  change_pct: Type.Union([Type.Number(), Type.Null()]),
+  contribution_pp: Type.Union([Type.Number(), Type.Null()]),
+  share_of_change: Type.Union([Type.Number(), Type.Null()]),
+});
+
+export type Mover = Static<typeof MoverSchema>;
+
+const MoverRankingsSchema = Type.Object({
+  absolute: Type.Array(MoverSchema, { description: 'By change, largest move first' }),
+  relative: Type.Array(MoverSchema, { description: 'By change_pct, largest move first (groups with comparison sales only)' }),
+});
+
+/**
+ * Day whose sales stand out from the group's usual daily sales
+ */
+export const SalesOutlierSchema = Type.Object({
+  id: Type.String(),
+  name: Type.String(),
+  date: Type.String(),
+  sales: Type.Number(),
+  median_sales: Type.Number(),
+  z_score: Type.Number(),
+  direction: Type.Union([Type.Literal('spike'), Type.Literal('drop')]),
+});
+
+export type SalesOutlier = Static<typeof SalesOutlierSchema>;
+
+export const MoversSchema = Type.Object({
+  totals: Type.Object({
+    sales_total: Type.Number(),
+    sales_total_last_year: Type.Number(),
+    change: Type.Number(),
+    sales_total_vs_last_year: Type.Union([Type.Number(), Type.Null()]),
+  }),
+  gainers: MoverRankingsSchema,
+  decliners: MoverRankingsSchema,
+  outliers: Type.Array(SalesOutlierSchema),
+});
+
+export type Movers = Static<typeof MoversSchema>;
+
+export const MoversResponseSchema = Type.Object({
+  data: MoversSchema,
+  meta: Type.Object({
+    groupBy: Type.String(),
+    comparison: Type.Optional(ComparisonPeriodSchema),
+    trailingStartDate: Type.String({ description: 'First day of the outliers baseline window' }),
+    zThreshold: Type.Number(),
+  }),
+});
+
+/**
+ * Defaults of the price-volume-mix query
+ */
+export const DEFAULT_VARIANCE_LIMIT = 20;
+
+export const PvmItemLevelSchema = Type.Union(
+  [Type.Literal('product_id'), Type.Literal('Marca'), Type.Literal('Categoria')],
+  { description: 'Product level the prices and the mix are compared at (default product_id)' }
+);
+
+export const VarianceQueryStringSchema = Type.Object(
+  {
+    startDate: DateStringSchema,
+    endDate: DateStringSchema,
+    groupBy: GroupByDimensionSchema,
+    itemLevel: Type.Optional(PvmItemLevelSchema),
+    limit: Type.Optional(Type.Integer({
+      minimum: 1,
+      maximum: 100,
+      default: DEFAULT_VARIANCE_LIMIT,
+      description: 'Groups returned, largest sales change first (totals cover every group)',
+    })),
+    compareMode: Type.Optional(ComparisonModeSchema),
+    compareStartDate: Type.Optional(DateStringSchema),
+    compareEndDate: Type.Optional(DateStringSchema),
+  },
+  { additionalProperties: true }
+);
+
+/**
+ * Change of a value (invoiced sales or gross margin) against the comparison
+ * period, split into effects that add up to `change`:
+ * - price_effect: unit price (margin) changes of the continuing items, at current quantities
+ * - volume_effect: change in total quantity of the continuing items, at the comparison average price
+ * - mix_effect: shift of the quantity between continuing items of different prices
+ * - new_items_effect / lost_items_effect: items without comparison / current quantity
+ */
+export const VarianceBreakdownSchema = Type.Object({
+  current: Type.Number(),
+  previous: Type.Number(),
+  change: Type.Number(),
+  price_effect: Type.Number(),
+  volume_effect: Type.Number(),
+  mix_effect: Type.Number(),
+  new_items_effect: Type.Number(),
+  lost_items_effect: Type.Number(),
+});
+
+export type VarianceBreakdown = Static<typeof VarianceBreakdownSchema>;
+
+const VarianceEffectsSchema = Type.Object({
+  sales: VarianceBreakdownSchema,
+  gross_margin: VarianceBreakdownSchema,
+  new_items: Type.Integer({ description: 'Items sold in the period but not in the comparison period' }),
+  lost_items: Type.Integer({ description: 'Items sold in the comparison period but not in the period' }),
+});
+
+export const VarianceGroupSchema = Type.Composite([
+  Type.Object({ id: Type.String(), name: Type.String() }),
+  VarianceEffectsSchema,
+]);
+
+export type VarianceGroup = Static<typeof VarianceGroupSchema>;
+
+export const VarianceSchema = Type.Object({
+  totals: VarianceEffectsSchema,
+  groups: Type.Array(VarianceGroupSchema),
+});
+
+export type Variance = Static<typeof VarianceSchema>;
+
+export const VarianceResponseSchema = Type.Object({
+  data: VarianceSchema,
+  meta: Type.Object({
+    groupBy: Type.String(),
+    itemLevel: PvmItemLevelSchema,
+    quantityColumn: Type.String({ description: 'transactions column the quantities are read from' }),
+    total: Type.Integer({ description: 'Groups with sales in either period' }),
+    comparison: Type.Optional(ComparisonPeriodSchema),
+  }),
+});
@@ -0,0 +1,273 @@
+import type { IAnalyticsQueryBuilder, FilterCondition } from '../../core/db/clickhouse/query/interfaces.js';
+import type { PriceVolumeMixRow } from '../../core/db/clickhouse/query/types.js';
+import { metricRegistry } from '../../core/config/metrics.config.js';
+import { QUANTITY_COLUMNS } from '../../core/config/price-volume-mix.config.js';
+import { ValidationError } from '../../core/errors/app-error.js';
+import { combineFilters } from '../../core/utils/filter-parser.js';
+import { addDays } from '../../core/utils/dates.js';
+import {
+  MIN_OUTLIER_DAYS,
+  type Mover,
+  type Movers,
+  type SalesOutlier,
+  type Variance,
+  type VarianceBreakdown,
+  type VarianceGroup,
+} from './insights.schemas.js';
+
+const num = (value: unknown): number => Number(value ?? 0) || 0;
+
+/**
+ * Split the change of one value of a group into price, volume, mix and
+ * new/lost item effects. With Q the quantities and P the unit values of the
+ * continuing items (0: comparison period, 1: current) and P̄0 = ΣR0 / ΣQ0:
+ * volume = (ΣQ1 − ΣQ0) · P̄0, mix = ΣQ1·P0 − ΣQ1 · P̄0, price = ΣQ1·P1 − ΣQ1·P0.
+ */
+function breakdown(values: {
+  current: number;
+  previous: number;
+  continuing: number;
+  continuingPrevious: number;
+  atPreviousUnitValue: number;
+  quantity: number;
+  quantityPrevious: number;
+  newItems: number;
+  lostItems: number;
+}): VarianceBreakdown {
+  const averagePrevious = values.quantityPrevious > 0 ? values.continuingPrevious / values.quantityPrevious : 0;
+  return {
+    current: values.current,
+    previous: values.previous,
+    change: values.current - values.previous,
+    price_effect: values.continuing - values.atPreviousUnitValue,
+    volume_effect: (values.quantity - values.quantityPrevious) * averagePrevious,
+    mix_effect: values.atPreviousUnitValue - values.quantity * averagePrevious,
+    new_items_effect: values.newItems,
+    lost_items_effect: values.lostItems,
+  };
+}
+
+/** Sales and gross margin breakdowns of one price-volume-mix row */
+function toVarianceGroup(row: PriceVolumeMixRow): VarianceGroup {
+  const quantity = num(row.continuing_quantity);
+  const quantityPrevious = num(row.continuing_quantity_previous);
+  return {
+    id: row.id,
+    name: row.name,
+    sales: breakdown({
+      current: num(row.sales),
+      previous: num(row.sales_previous),
+      continuing: num(row.continuing_sales),
+      continuingPrevious: num(row.continuing_sales_previous),
+      atPreviousUnitValue: num(row.sales_at_previous_price),
+      quantity,
+      quantityPrevious,
+      newItems: num(row.new_sales),
+      lostItems: num(row.lost_sales),
+    }),
+    gross_margin: breakdown({
+      current: num(row.gross_margin),
+      previous: num(row.gross_margin_previous),
+      continuing: num(row.continuing_margin),
+      continuingPrevious: num(row.continuing_margin_previous),
+      atPreviousUnitValue: num(row.margin_at_previous_unit_margin),
+      quantity,
+      quantityPrevious,
+      newItems: num(row.new_margin),
+      lostItems: num(row.lost_margin),
+    }),
+    new_items: num(row.new_items),
+    lost_items: num(row.lost_items),
+  };
+}
+
+/** Field-wise sum of breakdowns */
+function sumBreakdowns(items: VarianceBreakdown[]): VarianceBreakdown {
+  const total: VarianceBreakdown = {
+    current: 0,
+    previous: 0,
+    change: 0,
+    price_effect: 0,
+    volume_effect: 0,
+    mix_effect: 0,
+    new_items_effect: 0,
+    lost_items_effect: 0,
+  };
+  for (const item of items) {
+    for (const key of Object.keys(total) as Array<keyof VarianceBreakdown>) {
+      total[key] += item[key];
+    }
+  }
+  return total;
+}
+
+/**
+ * Service for the insights endpoints: which groups drive the year-over-year
+ * change in sales_total, and which days broke with a group's usual sales
+ *
+ * Uses dependency injection for testability and loose coupling
+ */
+export class InsightsService {
+  constructor(private analyticsBuilder: IAnalyticsQueryBuilder) {}
+
+  /**
+   * Top movers and daily sales outliers of a period
+   *
+   * Movers rank every group (including the ones that sold nothing in one of
+   * the periods) by the change of sales_total against the comparison period;
+   * each group's contribution_pp adds up, over all groups, to the headline
+   * sales_total_vs_last_year.
+   *
+   * Outliers flag the days of the period whose sales are at least zThreshold
+   * robust z-scores (median / MAD) away from the group's daily sales over the
+   * trailingDays ending at endDate.
+   *
+   * @param params.filters - Dynamic filters (without the period)
+   * @param params.comparisonFilters - Explicit comparison period (default: same range -1 year)
+   */
+  async getMovers(params: {
+    filters: FilterCondition[];
+    startDate: string;
+    endDate: string;
+    groupBy: string;
+    limit: number;
+    comparisonFilters?: FilterCondition[];
+    trailingDays: number;
+    zThreshold: number;
+  }): Promise<Movers & { trailingStartDate: string }> {
+    const { filters, startDate, endDate, groupBy, limit, trailingDays, zThreshold } = params;
+    const trailingStartDate = addDays(endDate, 1 - trailingDays);
+
+    const [rows, outliers] = await Promise.all([
+      this.analyticsBuilder.buildGroupedMultiTableYoYQuery({
+        metrics: metricRegistry.getBaseMetrics(),
+        currentPeriodFilters: combineFilters(filters, [
+          { field: 'date', operator: 'gte', value: startDate },
+          { field: 'date', operator: 'lte', value: endDate },
+        ]),
+        ...(params.comparisonFilters && { comparisonFilters: params.comparisonFilters }),
+        groupBy,
+        orderBy: 'sales_total',
+        includeAllGroups: true,
+        includePreviousGroups: true,
+      }),
+      this.analyticsBuilder.buildDailyOutliersQuery({
+        filters: combineFilters(filters, [
+          { field: 'date', operator: 'gte', value: trailingStartDate },
+          { field: 'date', operator: 'lte', value: endDate },
+        ]),
+        groupBy,
+        reportFrom: startDate > trailingStartDate ? startDate : trailingStartDate,
+        threshold: zThreshold,
+        minDays: MIN_OUTLIER_DAYS,
+        limit,
+      }),
+    ]);
+
+    const groups = rows.map((row) => ({
+      id: String(row['id'] ?? ''),
+      name: String(row['name'] ?? ''),
+      current: num(row['sales_total']),
+      previous: num(row['sales_total_last_year']),
+    }));
+    const totalCurrent = groups.reduce((sum, g) => sum + g.current, 0);
+    const totalPrevious = groups.reduce((sum, g) => sum + g.previous, 0);
+    const totalChange = totalCurrent - totalPrevious;
+
+    const movers = groups.map(({ id, name, current, previous }): Mover => {
+      const change = current - previous;
+      return {
+        id,
+        name,
+        sales_total: current,
+        sales_total_last_year: previous,
+        change,
+        change_pct: previous > 0 ? (change / previous) * 100 : null,
+        contribution_pp: totalPrevious > 0 ? (change / totalPrevious) * 100 : null,
+        share_of_change: totalChange !== 0 ? (change / totalChange) * 100 : null,
+      };
+    });
+
+    // Largest moves first in the direction of `sign`
+    const top = (items: Mover[], key: 'change' | 'change_pct', sign: 1 | -1): Mover[] =>
+      items
+        .filter((m) => (m[key] ?? 0) * sign > 0)
+        .sort((a, b) => ((b[key] ?? 0) - (a[key] ?? 0)) * sign)
+        .slice(0, limit);
+    const withBase = movers.filter((m) => m.change_pct !== null);
+
+    return {
+      totals: {
+        sales_total: totalCurrent,
+        sales_total_last_year: totalPrevious,
+        change: totalChange,
+        sales_total_vs_last_year: totalPrevious > 0 ? (totalChange / totalPrevious) * 100 : null,
+      },
+      gainers: { absolute: top(movers, 'change', 1), relative: top(withBase, 'change_pct', 1) },
+      decliners: { absolute: top(movers, 'change', -1), relative: top(withBase, 'change_pct', -1) },
+      outliers: outliers.map((outlier): SalesOutlier => ({
+        ...outlier,
+        sales: num(outlier.sales),
+        median_sales: num(outlier.median_sales),
+        z_score: num(outlier.z_score),
+        direction: num(outlier.z_score) > 0 ? 'spike' : 'drop',
+      })),
+      trailingStartDate,
+    };
+  }
+
+  /**
+   * Price-volume-mix decomposition of the change in invoiced sales and gross
+   * margin against the comparison period, per groupBy value
+   *
+   * Within each group, items (itemLevel) sold in both periods split their
+   * change into price, volume and mix effects; items sold in one period only
+   * count as new or lost. The effects of a group add up to its change, and
+   * the totals are the sum of every group (also those past `limit`).
+   *
+   * @param params.filters - Dynamic filters (without the period)
+   * @param params.comparisonFilters - Explicit comparison period (default: same range -1 year)
+   * @throws ValidationError when transactions has no quantity column
+   */
+  async getPriceVolumeMix(params: {
+    filters: FilterCondition[];
+    startDate: string;
+    endDate: string;
+    groupBy: string;
+    itemLevel: string;
+    limit: number;
+    comparisonFilters?: FilterCondition[];
+  }): Promise<Variance & { quantityColumn: string; total: number }> {
+    const result = await this.analyticsBuilder.buildPriceVolumeMixQuery({
+      currentPeriodFilters: combineFilters(params.filters, [
+        { field: 'date', operator: 'gte', value: params.startDate },
+        { field: 'date', operator: 'lte', value: params.endDate },
+      ]),
+      ...(params.comparisonFilters && { comparisonFilters: params.comparisonFilters }),
+      groupBy: params.groupBy,
+      itemLevel: params.itemLevel,
+      quantityColumns: QUANTITY_COLUMNS,
+    });
+    if (!result) {
+      throw new ValidationError(
+        `Price-volume-mix needs a quantity column in transactions (one of: ${QUANTITY_COLUMNS.join(', ')})`
+      );
+    }
+
+    const groups = result.rows
+      .map(toVarianceGroup)
+      .sort((a, b) => Math.abs(b.sales.change) - Math.abs(a.sales.change));
+
+    return {
+      totals: {
+        sales: sumBreakdowns(groups.map((g) => g.sales)),
+        gross_margin: sumBreakdowns(groups.map((g) => g.gross_margin)),
+        new_items: groups.reduce((sum, g) => sum + g.new_items, 0),
+        lost_items: groups.reduce((sum, g) => sum + g.lost_items, 0),
+      },
+      groups: groups.slice(0, params.limit),
+      quantityColumn: result.quantityColumn,
+      total: groups.length,
+    };
+  }
+}
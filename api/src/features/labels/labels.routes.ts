@@ -1,13 +1,20 @@
-import type { FastifyInstance } from 'fastify';
+import type { FastifyInstance, FastifyRequest } from 'fastify';
 import type { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
 import { LabelsService } from './labels.service.js';
 import { AnalyticsQueryBuilder } from '../../core/db/clickhouse/query/analytics-query-builder.js';
+import { queryCacheFor } from '../../core/cache/query-cache.js';
 import type { DatabaseClient } from '../../core/db/clickhouse/client.js';
 import {
   LabelsQuerySchema,
   LabelsDataSchema,
 } from './labels.schemas.js';
 import { SuccessResponseSchema } from '../../core/schemas/common.schemas.js';
+import { authenticate } from '../../core/middleware/authenticate.js';
+import { resolveDataScope } from '../../core/middleware/data-scope.js';
+import { parseDynamicFilters, querystringParams } from '../../core/utils/filter-parser.js';
+
+// Params of the labels querystring (column, source, offset...), never filters
+const LABELS_PARAMS = querystringParams(LabelsQuerySchema);
 
 /**
  * Register labels routes
@@ -19,28 +26,35 @@ export function labelsRoutes(
   // Use TypeBox type provider for type-safe schemas
   const server = fastify.withTypeProvider<TypeBoxTypeProvider>();
 
-  // Instantiate service with DI
-  const analyticsBuilder = new AnalyticsQueryBuilder(dbClient.getClient());
-  const service = new LabelsService(analyticsBuilder);
+  // Instantiate service with DI, bound per request to the user's data scope
+  const analyticsBuilder = new AnalyticsQueryBuilder(dbClient.getClient(), [], queryCacheFor(fastify, 'labels'));
+  const serviceFor = (request: FastifyRequest): LabelsService =>
+    new LabelsService(analyticsBuilder.withScope(request.dataScope ?? [], request.queryCacheStats));
 
   /**
    * GET /labels
-   * Get distinct values from a specified column
+   * Get distinct values from a specified column, with rows and sales
    *
    * Query params:
    * - column: Column name to get distinct values from (required)
    * - startDate: ISO date string (optional)
    * - endDate: ISO date string (optional)
+   * - source: Table to read from (optional, default transactions)
+   * - search: Ranked search on id and name (optional)
+   * - orderBy: name | rows | sales (optional, default name)
+   * - Any other param: dynamic filter (filters on `column` are ignored)
    *
    * Examples:
-   * - /labels?column=brand
-   * - /labels?column=category&startDate=2024-01-01&endDate=2024-12-31
+   * - /labels?column=Marca
+   * - /labels?column=IdRegional&startDate=2024-01-01&endDate=2024-12-31&Marca=ACME&orderBy=sales
+   * - /labels?column=customer_id&search=bogo&source=cartera
    */
   server.get(
     '/labels',
     {
+      preHandler: [authenticate, resolveDataScope],
       schema: {
-        description: 'Get distinct values from a column, sorted alphabetically A-Z',
+        description: 'Distinct values of a column with their rows and sales under the other active filters, sorted A-Z or by weight',
         tags: ['labels'],
         querystring: LabelsQuerySchema,
         response: {
@@ -49,10 +63,9 @@ export function labelsRoutes(
       },
     },
     async (request, reply) => {
-      const labels = await service.getLabels(request.query);
+      const filters = parseDynamicFilters(request.query as Record<string, unknown>, LABELS_PARAMS);
+      const labels = await serviceFor(request).getLabels(request.query, filters);
 
-      // labels = {data: string[]}
-      // We want to send {data: string[]} to match SuccessResponseSchema(LabelsDataSchema)
       return reply.code(200).send({
         data: labels.data,
       });
@@ -1,8 +1,14 @@
 import { Type, type Static } from '@sinclair/typebox';
 
+/**
+ * Tables the values can be read from (all of them have sales_price)
+ */
+export const LABEL_SOURCES = ['transactions', 'budget', 'pedidos_retenidos', 'cartera'] as const;
+
 /**
  * Labels Query Parameters Schema
- * Accepts column name (required) and optional date range filters + pagination
+ * Accepts column name (required), optional date range, source table, search,
+ * order and pagination, plus dynamic filters (like /balance)
  */
 export const LabelsQuerySchema = Type.Object({
   column: Type.String({
@@ -23,6 +29,25 @@ export const LabelsQuerySchema = Type.Object({
       examples: ['2024-12-31'],
     })
   ),
+  source: Type.Optional(
+    Type.Union(LABEL_SOURCES.map((table) => Type.Literal(table)), {
+      default: 'transactions',
+      description: 'Table the values (and their rows / sales) are read from',
+    })
+  ),
+  search: Type.Optional(
+    Type.String({
+      maxLength: 100,
+      description: 'Case-insensitive search on id and name, ranked exact > prefix > word prefix > substring > fuzzy (4+ characters)',
+      examples: ['bogo'],
+    })
+  ),
+  orderBy: Type.Optional(
+    Type.Union([Type.Literal('name'), Type.Literal('rows'), Type.Literal('sales')], {
+      default: 'name',
+      description: 'name: A-Z; rows / sales: heaviest first (after the search rank)',
+    })
+  ),
   limit: Type.Optional(
     Type.Integer({
       minimum: 1,
@@ -40,6 +65,9 @@ export const LabelsQuerySchema = Type.Object({
       examples: [0, 100, 200],
     })
   ),
+}, {
+  additionalProperties: true,
+  description: 'Accepts dynamic filters (e.g. ?IdRegional=01,02). Filters on the column itself are ignored, so the values reflect every other active filter.',
 });
 
 export type LabelsQueryParams = Static<typeof LabelsQuerySchema>;
@@ -48,13 +76,19 @@ export type LabelsQueryParams = Static<typeof LabelsQuerySchema>;
  * Labels Data Schema (just the array)
  * Used for wrapping in SuccessResponseSchema
  */
-export const LabelsDataSchema = Type.Array(Type.String(), {
-  description: 'Array of unique column values sorted A-Z',
-});
+export const LabelsDataSchema = Type.Array(
+  Type.Object({
+    id: Type.String(),
+    name: Type.String({ description: 'Display name (the id when the source table has no name column)' }),
+    rows: Type.Integer({ description: 'Source rows with this value under the filters' }),
+    sales: Type.Number({ description: 'sum(sales_price) of those rows' }),
+  }),
+  { description: 'Distinct non-empty values of the column' }
+);
 
 /**
  * Labels Response Schema
- * Returns array of distinct values sorted alphabetically
+ * Returns the distinct values with their weight under the filters
  */
 export const LabelsResponseSchema = Type.Object({
   data: LabelsDataSchema,
@@ -1,9 +1,11 @@
 import type { IAnalyticsQueryBuilder, FilterCondition } from '../../core/db/clickhouse/query/interfaces.js';
+import { getFieldPair } from '../../core/config/dimension-fields.config.js';
 import type { LabelsQueryParams, LabelsResponse } from './labels.schemas.js';
 
 /**
  * Service for labels endpoint business logic
- * Returns distinct values from a specified column, sorted alphabetically
+ * Returns the distinct values of a column with their weight (rows, sales)
+ * under the other active filters
  *
  * Uses dependency injection for testability and loose coupling
  */
@@ -11,20 +13,24 @@ export class LabelsService {
   constructor(private analyticsBuilder: IAnalyticsQueryBuilder) {}
 
   /**
-   * Get distinct values for a column from transactions table
-   * Results are filtered by optional date range and sorted A-Z
+   * Get distinct values for a column from the source table (transactions by
+   * default), filtered by the optional date range and the dynamic filters
    *
-   * @param params - Query parameters with column name and optional date filters
-   * @returns Array of unique string values sorted alphabetically
+   * Filters on the column itself (id or name) are dropped: a value picker
+   * lists every value still reachable under the *other* filters.
+   *
+   * @param params - Query parameters with column name, date range, search, order and pagination
+   * @param filters - Dynamic filters of the request
+   * @returns Values with id, name, rows and sales
    */
-  async getLabels(params: LabelsQueryParams): Promise<LabelsResponse> {
-    const { column, startDate, endDate, limit = 100, offset = 0 } = params;
+  async getLabels(params: LabelsQueryParams, filters: FilterCondition[] = []): Promise<LabelsResponse> {
+    const { column, startDate, endDate, source = 'transactions', search, orderBy = 'name', limit = 100, offset = 0 } = params;
+    const { idField, nameField } = getFieldPair(column);
 
-    // Build filters for date range if provided
-    const filters: FilterCondition[] = [];
+    const crossFilters = filters.filter((f) => f.field !== idField && f.field !== nameField);
 
     if (startDate) {
-      filters.push({
+      crossFilters.push({
         field: 'date',
         operator: 'gte',
         value: startDate,
@@ -32,7 +38,7 @@ export class LabelsService {
     }
 
     if (endDate) {
-      filters.push({
+      crossFilters.push({
         field: 'date',
         operator: 'lte',
         value: endDate,
@@ -41,9 +47,11 @@ export class LabelsService {
 
     // Execute query to get distinct values with pagination
     const results = await this.analyticsBuilder.buildDistinctValuesQuery({
-      table: 'transactions',
+      table: source,
       column,
-      filters,
+      filters: crossFilters,
+      search,
+      orderBy,
       limit,
       offset,
     });
@@ -0,0 +1,197 @@
+import type { ListService } from './list.service.js';
+import type { ListExportQueryString } from './list.export.schemas.js';
+import type { GroupByDimension } from './list.schemas.js';
+import { parseListFilters } from './list.filters.js';
+import {
+  mapListItemToExportRow,
+  calculateExportTotals,
+  usesFacturadoOnly,
+  type ExportRow,
+} from './list.export.transform.js';
+import { buildListExportWorkbook, buildExportColumns } from './list.export.workbook.js';
+import type { ResolvedCustomMetric } from '../../core/metrics/custom-metric.js';
+import {
+  encodeTabular,
+  prefetchRows,
+  type DataExportFormat,
+  type TabularColumn,
+} from '../../core/export/tabular-export.js';
+
+/**
+ * Row of a CSV/Parquet export: the mapped row and its outer dimension ids
+ */
+interface DataExportRow {
+  parentIds: string[];
+  row: ExportRow;
+}
+
+/**
+ * Service params of an export query (filters, ordering, sales variant)
+ */
+function exportParamsFor(
+  parsed: ReturnType<typeof parseListFilters>,
+  query: ListExportQueryString,
+  customMetrics: readonly ResolvedCustomMetric[]
+) {
+  return {
+    ...(parsed.orderBy && { orderBy: parsed.orderBy }),
+    ...(parsed.orderDirection && { orderDirection: parsed.orderDirection }),
+    filters: parsed.filters,
+    ...(parsed.comparisonFilters && { comparisonFilters: parsed.comparisonFilters }),
+    facturadoOnly: usesFacturadoOnly(query.preset),
+    customMetrics,
+  };
+}
+
+/**
+ * Header of the (first) dimension column: the label sent by the page
+ */
+function dimensionLabelFor(query: ListExportQueryString, groupBy: GroupByDimension): string {
+  return query.dimensionLabel || groupBy;
+}
+
+/**
+ * Optional display-name overrides (raw name -> label)
+ */
+function parseNameOverrides(raw: string | undefined): Record<string, string> | undefined {
+  if (!raw) return undefined;
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object') {
+      return parsed as Record<string, string>;
+    }
+  } catch {
+    // ignore malformed overrides — fall back to raw names
+  }
+  return undefined;
+}
+
+/**
+ * Build the Excel export of a list query: the full (unpaginated) dataset,
+ * mapped and styled like the on-screen table.
+ *
+ * Shared by GET /list/export and the scheduled report subscriptions.
+ *
+ * @param service - List service bound to the caller's data scope
+ * @param customMetrics - Resolved custom metrics of query.metrics
+ * @returns The xlsx file and the first groupBy dimension (default filename)
+ * @throws ExportTooLargeError when the export exceeds EXPORT_ROW_HARD_CAP rows
+ */
+export async function buildListExport(
+  service: ListService,
+  query: ListExportQueryString,
+  customMetrics: readonly ResolvedCustomMetric[]
+): Promise<{ buffer: Buffer; groupBy: GroupByDimension }> {
+  const parsed = parseListFilters(query as Record<string, unknown>);
+  const exportParams = exportParamsFor(parsed, query, customMetrics);
+  // Multi-dimension groupBy: every level, each parent followed by its children
+  const levelItems = parsed.dimensions.length > 1
+    ? await service.getBalanceTreeForExport({ ...exportParams, dimensions: parsed.dimensions })
+    : (await service.getBalanceListForExport({ ...exportParams, groupBy: parsed.groupBy }))
+      .map((item) => ({ depth: 0, item }));
+
+  const nameOverrides = parseNameOverrides(query.nameOverrides);
+  const customFields = customMetrics.map((metric) => metric.name);
+  const rows = levelItems.map(({ depth, item }) => ({
+    ...mapListItemToExportRow(item, query.preset, nameOverrides, customFields),
+    ...(depth > 0 && { level: depth }),
+  }));
+  const totalsLabel = query.totalsLabel || 'TOTAL:';
+  // Child rows are subtotals of their parent: only the first dimension adds up
+  const totals = calculateExportTotals(rows.filter((row) => !row.level), totalsLabel);
+
+  const currentYear = query.currentYear ?? new Date().getFullYear();
+  const previousYear = query.previousYear ?? currentYear - 1;
+
+  const buffer = await buildListExportWorkbook({
+    rows,
+    totals,
+    hideBudgetColumns: query.hideBudgetColumns === true,
+    hideRetainedColumn: query.hideRetainedColumn === true,
+    dimensionLabel: dimensionLabelFor(query, parsed.groupBy),
+    billingLabel: query.billingLabel || 'Ventas VS Presupuesto',
+    totalsLabel,
+    currentYear,
+    previousYear,
+    ...(query.comparisonLabel && { comparisonLabel: query.comparisonLabel }),
+    ...(parsed.comparison && { comparison: parsed.comparison }),
+    customColumns: customMetrics.map((metric) => ({
+      field: metric.name,
+      label: metric.label,
+      format: metric.format,
+    })),
+    ...(query.reportTitle && { reportTitle: query.reportTitle }),
+    ...(query.periodLabel && { periodLabel: query.periodLabel }),
+    ...(query.generatedLabel && { generatedLabel: query.generatedLabel }),
+  });
+
+  return { buffer, groupBy: parsed.groupBy };
+}
+
+/**
+ * Stream the CSV or Parquet export of a list query: every row, without the
+ * workbook's row cap, mapped like the Excel rows (same columns, same
+ * nameOverrides; no TOTAL row). Memory stays flat: rows are read from
+ * ClickHouse only as the file is sent.
+ *
+ * A multi-dimension groupBy exports the combinations of its deepest level,
+ * with one leading id column per outer dimension.
+ *
+ * @param service - List service bound to the caller's data scope
+ * @param customMetrics - Resolved custom metrics of query.metrics
+ * @returns The encoded file chunks (the query has already returned its first
+ *   row) and the first groupBy dimension (default filename)
+ */
+export async function streamListExport(
+  service: ListService,
+  query: ListExportQueryString,
+  customMetrics: readonly ResolvedCustomMetric[],
+  format: DataExportFormat
+): Promise<{ body: AsyncIterable<string | Buffer>; groupBy: GroupByDimension }> {
+  const parsed = parseListFilters(query as Record<string, unknown>);
+  const records = await prefetchRows(service.streamBalanceListForExport({
+    ...exportParamsFor(parsed, query, customMetrics),
+    dimensions: parsed.dimensions,
+  }));
+
+  const nameOverrides = parseNameOverrides(query.nameOverrides);
+  const customFields = customMetrics.map((metric) => metric.name);
+  const rows = (async function* (): AsyncGenerator<DataExportRow> {
+    for await (const { parentIds, item } of records) {
+      yield { parentIds, row: mapListItemToExportRow(item, query.preset, nameOverrides, customFields) };
+    }
+  })();
+
+  const currentYear = query.currentYear ?? new Date().getFullYear();
+  const nested = parsed.dimensions.length > 1;
+  const columns: Array<TabularColumn<DataExportRow>> = [
+    ...parsed.dimensions.slice(0, -1).map((dimension, index): TabularColumn<DataExportRow> => ({
+      name: dimension,
+      header: dimension,
+      type: 'string',
+      value: ({ parentIds }) => parentIds[index] ?? null,
+    })),
+    { name: 'id', header: 'ID', type: 'string', value: ({ row }) => row.id },
+    ...buildExportColumns({
+      hideBudgetColumns: query.hideBudgetColumns === true,
+      hideRetainedColumn: query.hideRetainedColumn === true,
+      // The label sent by the page names the first dimension
+      dimensionLabel: nested ? parsed.dimensions[parsed.dimensions.length - 1]! : dimensionLabelFor(query, parsed.groupBy),
+      currentYear,
+      previousYear: query.previousYear ?? currentYear - 1,
+      ...(query.comparisonLabel && { comparisonLabel: query.comparisonLabel }),
+      customColumns: customMetrics.map((metric) => ({
+        field: metric.name,
+        label: metric.label,
+        format: metric.format,
+      })),
+    }).map((column): TabularColumn<DataExportRow> => ({
+      name: column.id === 'dimension' ? 'name' : column.id,
+      header: column.header,
+      type: column.format === 'text' ? 'string' : 'double',
+      value: ({ row }) => column.value(row),
+    })),
+  ];
+
+  return { body: encodeTabular(format, columns, rows), groupBy: parsed.groupBy };
+}
@@ -1,97 +1,58 @@
-import type { FastifyInstance } from 'fastify';
+import type { FastifyInstance, FastifyRequest } from 'fastify';
 import type { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
 import { ListService, ExportTooLargeError } from './list.service.js';
 import { AnalyticsQueryBuilder } from '../../core/db/clickhouse/query/analytics-query-builder.js';
+import { queryCacheFor } from '../../core/cache/query-cache.js';
 import type { DatabaseClient } from '../../core/db/clickhouse/client.js';
-import type { GroupByDimension } from './list.schemas.js';
 import { ListExportQueryStringSchema } from './list.export.schemas.js';
-import { parseListFilters } from './list.filters.js';
-import { mapListItemToExportRow, calculateExportTotals, usesFacturadoOnly } from './list.export.transform.js';
-import { buildListExportWorkbook } from './list.export.workbook.js';
+import { buildListExport, streamListExport } from './list.export.builder.js';
 import { sanitizeFilename } from '../../core/utils/export-filename.js';
-
-const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
-
+import { authenticate } from '../../core/middleware/authenticate.js';
+import { resolveDataScope } from '../../core/middleware/data-scope.js';
+import { CustomMetricsService } from '../custom-metrics/custom-metrics.service.js';
+import { parseCustomMetricKeys } from '../../core/metrics/custom-metric.js';
+import { sendExport } from '../../core/export/tabular-export.js';
 
 /**
- * Register the list Excel export route.
- * GET /list/export -> streams a styled .xlsx of the full filtered dataset.
+ * Register the list export route.
+ * GET /list/export -> a styled .xlsx of the full filtered dataset (row-capped),
+ * or a CSV / Parquet file streamed from ClickHouse without a row cap.
  */
 export function listExportRoutes(fastify: FastifyInstance, dbClient: DatabaseClient): void {
   const server = fastify.withTypeProvider<TypeBoxTypeProvider>();
 
-  const analyticsBuilder = new AnalyticsQueryBuilder(dbClient.getClient());
-  const service = new ListService(analyticsBuilder);
+  const analyticsBuilder = new AnalyticsQueryBuilder(dbClient.getClient(), [], queryCacheFor(fastify, 'list-export'));
+  const serviceFor = (request: FastifyRequest): ListService =>
+    new ListService(analyticsBuilder.withScope(request.dataScope ?? [], request.queryCacheStats));
+  const customMetricsService = new CustomMetricsService();
 
   server.get(
     '/list/export',
     {
+      preHandler: [authenticate, resolveDataScope],
       schema: {
-        description: 'Export the full (unpaginated) grouped list as a styled Excel file.',
+        description: 'Export the full (unpaginated) grouped list as a styled Excel file (up to 20,000 rows) or as a CSV / Parquet file streamed without a row cap.',
         tags: ['list'],
         querystring: ListExportQueryStringSchema,
-        // NOTE: no response schema — the handler sends a raw xlsx Buffer.
+        // NOTE: no response schema — the handler sends a raw file.
       },
     },
     async (request, reply) => {
       const query = request.query;
-      const parsed = parseListFilters(query as Record<string, unknown>);
-
-      try {
-        const items = await service.getBalanceListForExport({
-          groupBy: parsed.groupBy as GroupByDimension,
-          ...(parsed.orderBy && { orderBy: parsed.orderBy }),
-          ...(parsed.orderDirection && { orderDirection: parsed.orderDirection }),
-          filters: parsed.filters,
-          facturadoOnly: usesFacturadoOnly(query.preset),
-        });
-
-        // Optional display-name overrides (raw name -> label)
-        let nameOverrides: Record<string, string> | undefined;
-        if (query.nameOverrides) {
-          try {
-            const parsedOverrides = JSON.parse(query.nameOverrides);
-            if (parsedOverrides && typeof parsedOverrides === 'object') {
-              nameOverrides = parsedOverrides as Record<string, string>;
-            }
-          } catch {
-            // ignore malformed overrides — fall back to raw names
-          }
-        }
+      const format = query.format ?? 'xlsx';
+      const customMetrics = await customMetricsService.resolveForQuery(
+        request.user,
+        parseCustomMetricKeys(query.metrics)
+      );
 
-        const rows = items.map((item) => mapListItemToExportRow(item, query.preset, nameOverrides));
-        const totalsLabel = query.totalsLabel || 'TOTAL:';
-        const totals = calculateExportTotals(rows, totalsLabel);
-
-        const currentYear = query.currentYear ?? new Date().getFullYear();
-        const previousYear = query.previousYear ?? currentYear - 1;
-
-        const buffer = await buildListExportWorkbook({
-          rows,
-          totals,
-          hideBudgetColumns: query.hideBudgetColumns === true,
-          hideRetainedColumn: query.hideRetainedColumn === true,
-          dimensionLabel: query.dimensionLabel || parsed.groupBy,
-          billingLabel: query.billingLabel || 'Ventas VS Presupuesto',
-          totalsLabel,
-          currentYear,
-          previousYear,
-          ...(query.reportTitle && { reportTitle: query.reportTitle }),
-          ...(query.periodLabel && { periodLabel: query.periodLabel }),
-          ...(query.generatedLabel && { generatedLabel: query.generatedLabel }),
-        });
-
-        const baseName = sanitizeFilename(query.filename) || `export-${parsed.groupBy}`;
-        const asciiName = baseName.replace(/[^\x20-\x7e]+/g, '_');
-        const encodedName = encodeURIComponent(`${baseName}.xlsx`);
+      if (format !== 'xlsx') {
+        const { body, groupBy } = await streamListExport(serviceFor(request), query, customMetrics, format);
+        return sendExport(reply, format, sanitizeFilename(query.filename) || `export-${groupBy}`, body);
+      }
 
-        return reply
-          .header('Content-Type', XLSX_MIME)
-          .header(
-            'Content-Disposition',
-            `attachment; filename="${asciiName}.xlsx"; filename*=UTF-8''${encodedName}`
-          )
-          .send(buffer);
+      try {
+        const { buffer, groupBy } = await buildListExport(serviceFor(request), query, customMetrics);
+        return sendExport(reply, format, sanitizeFilename(query.filename) || `export-${groupBy}`, buffer);
       } catch (error) {
         if (error instanceof ExportTooLargeError) {
           return reply.code(400).send({ error: 'EXPORT_TOO_LARGE', message: error.message });
@@ -1,19 +1,22 @@
 import { Type, type Static } from '@sinclair/typebox';
 import { BalanceQueryStringSchema } from '../balance/balance.schemas.js';
-import { GroupByDimensionSchema, OrderDirectionSchema } from './list.schemas.js';
+import { GroupByPathSchema, OrderDirectionSchema } from './list.schemas.js';
+import { ExportFormatSchema } from '../../core/schemas/common.schemas.js';
 
 /**
- * Query parameters for the Excel export endpoint.
+ * Query parameters for the export endpoint.
  *
  * Mirrors the list query (groupBy + dynamic filters + ordering) but drops
- * pagination and adds presentation params the frontend already computes for
+ * pagination (a multi-dimension groupBy exports every level, outlined) and adds presentation params the frontend already computes for
  * the on-screen table, so the exported file matches the screen exactly.
+ * Projections are not exported.
  */
 export const ListExportQueryStringSchema = Type.Composite(
   [
-    BalanceQueryStringSchema,
+    Type.Omit(BalanceQueryStringSchema, ['projection']),
     Type.Object({
-      groupBy: GroupByDimensionSchema,
+      groupBy: GroupByPathSchema,
+      format: Type.Optional(ExportFormatSchema),
       orderBy: Type.Optional(Type.String({ description: 'Field to order by. Default: "sales_total"' })),
       orderDirection: Type.Optional(OrderDirectionSchema),
       preset: Type.Optional(Type.String({ description: 'Date-range preset; decides facturado-only vs facturado+comprometido sales' })),
@@ -27,13 +30,14 @@ export const ListExportQueryStringSchema = Type.Composite(
       billingLabel: Type.Optional(Type.String({ description: 'Grouped header label for the billing/sales+budget group' })),
       currentYear: Type.Optional(Type.Integer({ description: 'Current period year (for column headers)' })),
       previousYear: Type.Optional(Type.Integer({ description: 'Previous period year (for column headers)' })),
+      comparisonLabel: Type.Optional(Type.String({ description: 'Header label for the comparison columns (overrides previousYear)' })),
       nameOverrides: Type.Optional(Type.String({ description: 'JSON object mapping raw dimension names to display names' })),
       filename: Type.Optional(Type.String({ description: 'Base filename (without extension) for the download' })),
     }),
   ],
   {
     additionalProperties: true,
-    description: 'Query parameters for the list Excel export. Accepts dynamic filters beyond defined properties.',
+    description: 'Query parameters for the list export. Accepts dynamic filters beyond defined properties.',
   }
 );
 
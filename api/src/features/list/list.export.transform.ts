@@ -12,6 +12,10 @@ export interface ExportRow {
   budget: { amount: number; compliance: number };
   margin: { current: number; previous: number; variation: number; budget: number };
   retained: { amount: number; compliance: number };
+  /** Requested custom metrics by response field (custom_<key>) */
+  custom: Record<string, number | null>;
+  /** Depth in a multi-dimension export (0/absent = first dimension) */
+  level?: number;
 }
 
 /**
@@ -37,11 +41,13 @@ function str(item: ListItemResponse, key: string): string {
 /**
  * Port of `mapApiToRegionalData` + nameOverrides remap (AnalyticsPage.tsx:141-177).
  * Picks `sales` vs `sales_total` based on the preset, exactly like `getSalesMetric`.
+ * `customFields` are the custom_<key> fields of the requested custom metrics.
  */
 export function mapListItemToExportRow(
   item: ListItemResponse,
   preset: string | undefined,
-  nameOverrides?: Record<string, string>
+  nameOverrides?: Record<string, string>,
+  customFields: readonly string[] = []
 ): ExportRow {
   const facturadoOnly = usesFacturadoOnly(preset);
   const salesCurrent = facturadoOnly ? num(item, 'sales') : num(item, 'sales_total');
@@ -73,6 +79,12 @@ export function mapListItemToExportRow(
       amount: num(item, 'cartera'),
       compliance: num(item, 'cartera_compliance_pct'),
     },
+    custom: Object.fromEntries(
+      customFields.map((field) => {
+        const value = (item as unknown as Record<string, unknown>)[field];
+        return [field, typeof value === 'number' ? value : null];
+      })
+    ),
   };
 }
 
@@ -80,6 +92,8 @@ export function mapListItemToExportRow(
  * Port of `calculateTotals` (AnalyticsPage.tsx:20-94), formula-for-formula.
  * SUM for amounts, sales-weighted AVERAGE for margins, recomputed ratios for
  * compliance — so the TOTAL row matches what a user would reconstruct in Excel.
+ * Custom metrics are left blank: an arbitrary formula (e.g. a ratio) cannot be
+ * totaled from its row values.
  */
 export function calculateExportTotals(rows: ExportRow[], totalsLabel: string): ExportRow {
   const totals = rows.reduce(
@@ -128,5 +142,6 @@ export function calculateExportTotals(rows: ExportRow[], totalsLabel: string): E
     budget: { amount: totals.budgetAmount, compliance: budgetCompliance },
     margin: { current: marginCurrent, previous: marginPrevious, variation: marginVariation, budget: marginBudget },
     retained: { amount: totals.retainedAmount, compliance: retainedCompliance },
+    custom: {},
   };
 }
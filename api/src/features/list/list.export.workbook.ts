@@ -1,5 +1,6 @@
 import ExcelJS from 'exceljs';
 import type { ExportRow } from './list.export.transform.js';
+import type { ComparisonPeriod } from '../../core/utils/comparison-period.js';
 import {
   toArgb,
   variationColor,
@@ -19,17 +20,39 @@ export interface BuildWorkbookInput {
   totalsLabel: string;
   currentYear: number;
   previousYear: number;
+  /** Header label for the comparison columns (e.g. "Periodo anterior"); defaults to previousYear. */
+  comparisonLabel?: string;
+  /** Comparison window when it is not the default same-period-last-year. */
+  comparison?: ComparisonPeriod;
   /** Report title shown at the top (e.g. the page title). */
   reportTitle?: string;
   /** Human-readable reporting period (concrete dates, e.g. "1 de enero – 30 de junio de 2026"). */
   periodLabel?: string;
   /** Date the export was generated (shown next to the period). */
   generatedLabel?: string;
+  /** Requested custom metrics, appended as the last columns. */
+  customColumns?: ExportCustomColumn[];
 }
 
-type ColFormat = 'text' | 'currency' | 'percent' | 'pp';
+export interface ExportCustomColumn {
+  /** Response field (custom_<key>), key of ExportRow.custom */
+  field: string;
+  label: string;
+  format: 'currency' | 'percent' | 'number';
+}
+
+/**
+ * Inputs that decide the export columns (shared by the workbook and the
+ * CSV/Parquet exports)
+ */
+export type ExportColumnsInput = Pick<
+  BuildWorkbookInput,
+  'hideBudgetColumns' | 'hideRetainedColumn' | 'dimensionLabel' | 'currentYear' | 'previousYear' | 'comparisonLabel' | 'customColumns'
+>;
+
+type ColFormat = 'text' | 'currency' | 'percent' | 'pp' | 'number';
 
-interface ExcelColumn {
+export interface ExcelColumn {
   id: string;
   header: string;
   group: 'billing' | 'margin' | null;
@@ -44,6 +67,7 @@ const NUM_FMT: Record<ColFormat, string | undefined> = {
   currency: '"$"#,##0',
   percent: '#,##0.00"%"',
   pp: '+#,##0.00"pp";-#,##0.00"pp"',
+  number: '#,##0.00',
 };
 
 // Palette (ARGB). Dark slate header, zebra body, emphasized total — matches the app tone.
@@ -63,8 +87,9 @@ const GROUP_MARGIN_LABEL = 'MARGEN VS PRESUPUESTO';
  * Build the ordered Excel column list for the given variant.
  * Every multi-value on-screen cell is split into its own column.
  */
-function buildColumns(input: BuildWorkbookInput): ExcelColumn[] {
-  const { hideBudgetColumns, hideRetainedColumn, dimensionLabel, currentYear, previousYear } = input;
+export function buildExportColumns(input: ExportColumnsInput): ExcelColumn[] {
+  const { hideBudgetColumns, hideRetainedColumn, dimensionLabel, currentYear } = input;
+  const previousYear = input.comparisonLabel ?? input.previousYear;
   const finite = (v: number): number | null => (Number.isFinite(v) ? v : null);
 
   const cols: ExcelColumn[] = [
@@ -126,6 +151,16 @@ function buildColumns(input: BuildWorkbookInput): ExcelColumn[] {
     },
   ];
 
+  for (const custom of input.customColumns ?? []) {
+    cols.push({
+      id: custom.field, header: custom.label, group: null, format: custom.format, width: 16,
+      value: (r) => {
+        const value = r.custom[custom.field];
+        return value === undefined || value === null ? null : finite(value);
+      },
+    });
+  }
+
   const budgetIds = new Set(['budgetAmount', 'budgetCompliance', 'marginBudget', 'marginDelta']);
   const retainedIds = new Set(['retainedAmount', 'retainedCompliance']);
 
@@ -137,7 +172,7 @@ function buildColumns(input: BuildWorkbookInput): ExcelColumn[] {
 }
 
 export async function buildListExportWorkbook(input: BuildWorkbookInput): Promise<Buffer> {
-  const columns = buildColumns(input);
+  const columns = buildExportColumns(input);
   const lastCol = columns.length;
   // Groups (2-row header) only exist when budget columns are shown.
   const hasGroups = !input.hideBudgetColumns;
@@ -153,6 +188,10 @@ export async function buildListExportWorkbook(input: BuildWorkbookInput): Promis
   const ws = wb.addWorksheet('Export', {
     views: [{ state: 'frozen', xSplit: 1, ySplit: labelRow }],
   });
+  // Multi-dimension exports: child rows are outlined under their parent (summary above)
+  if (input.rows.some((row) => row.level)) {
+    ws.properties.outlineProperties = { summaryBelow: false, summaryRight: false };
+  }
 
   // Column-level width + default numFmt/alignment. Applying style at the column
   // level (instead of per-cell) is dramatically faster for large exports.
@@ -188,7 +227,10 @@ export async function buildListExportWorkbook(input: BuildWorkbookInput): Promis
 
     const noteRow = ws.getRow(3);
     ws.mergeCells(3, 1, 3, lastCol);
-    noteRow.getCell(1).value = `Las columnas de ${input.previousYear} corresponden al mismo periodo del año anterior.`;
+    const comparisonLabel = input.comparisonLabel ?? input.previousYear;
+    noteRow.getCell(1).value = input.comparison && input.comparison.mode !== 'previous_year'
+      ? `Las columnas de ${comparisonLabel} corresponden al periodo del ${input.comparison.startDate} al ${input.comparison.endDate}.`
+      : `Las columnas de ${comparisonLabel} corresponden al mismo periodo del año anterior.`;
     noteRow.getCell(1).font = { name: FONT, italic: true, size: 10, color: { argb: MUTED_TEXT } };
     noteRow.getCell(1).alignment = { horizontal: 'left', vertical: 'middle' };
     noteRow.height = 16;
@@ -265,6 +307,10 @@ export async function buildListExportWorkbook(input: BuildWorkbookInput): Promis
         cell.fill = zebraFill;
       }
     });
+    if (row.level) {
+      excelRow.outlineLevel = row.level;
+      excelRow.getCell(1).alignment = { horizontal: 'left', indent: row.level * 2 };
+    }
     if (!isTotal) dataIndex += 1;
   };
 
@@ -2,25 +2,41 @@ import type { FilterCondition } from '../../core/db/clickhouse/query/interfaces.
 import { sanitizeDateString, sanitizeFieldName } from '../../core/utils/sanitization.js';
 import { parseQueryParamsToFilters } from '../balance/balance.schemas.js';
 import { parseDynamicFilters, combineFilters } from '../../core/utils/filter-parser.js';
+import { parseGroupByDimensions, type GroupByDimension } from './list.schemas.js';
+import {
+  resolveComparisonPeriod,
+  buildComparisonFilters,
+  type ComparisonMode,
+  type ComparisonPeriod,
+} from '../../core/utils/comparison-period.js';
 
 /**
  * Shared query-param parsing for the list endpoints.
  *
  * Extracts the groupBy/date/order sanitization plus dynamic-filter combining
+ * and the comparison window
  * used by both `/list` (paginated) and `/list/export` (full dataset). This is
  * pagination-agnostic: `page`/`limit` are handled by each route separately.
  */
 export interface ParsedListQuery {
-  groupBy: string;
+  /** First (outermost) groupBy dimension */
+  groupBy: GroupByDimension;
+  /** All groupBy dimensions, outermost first (more than one for hierarchical lists) */
+  dimensions: GroupByDimension[];
   startDate?: string;
   endDate?: string;
   orderBy?: string;
   orderDirection?: 'asc' | 'desc';
   filters: FilterCondition[];
+  /** Resolved comparison window (absent for open date ranges) */
+  comparison?: ComparisonPeriod;
+  /** Explicit comparison filters; absent for the default year shift */
+  comparisonFilters?: FilterCondition[];
 }
 
 export function parseListFilters(query: Record<string, unknown>): ParsedListQuery {
-  const groupBy = sanitizeFieldName(String(query['groupBy']));
+  const dimensions = parseGroupByDimensions(String(query['groupBy']));
+  const groupBy = dimensions[0]!;
   const startDate = query['startDate'] ? sanitizeDateString(String(query['startDate'])) : undefined;
   const endDate = query['endDate'] ? sanitizeDateString(String(query['endDate'])) : undefined;
   const orderBy = query['orderBy'] ? sanitizeFieldName(String(query['orderBy'])) : undefined;
@@ -37,12 +53,27 @@ export function parseListFilters(query: Record<string, unknown>): ParsedListQuer
 
   const filters = combineFilters(dynamicFilters, dateFilters);
 
+  // Comparison window from compareStartDate/compareEndDate or compareMode
+  const compareStartDate = query['compareStartDate'] ? sanitizeDateString(String(query['compareStartDate'])) : undefined;
+  const compareEndDate = query['compareEndDate'] ? sanitizeDateString(String(query['compareEndDate'])) : undefined;
+  const comparison = resolveComparisonPeriod({
+    ...(startDate && { startDate }),
+    ...(endDate && { endDate }),
+    ...(compareStartDate && { compareStartDate }),
+    ...(compareEndDate && { compareEndDate }),
+    ...(query['compareMode'] ? { compareMode: query['compareMode'] as ComparisonMode } : {}),
+  });
+  const comparisonFilters = buildComparisonFilters(comparison, dynamicFilters);
+
   return {
     groupBy,
+    dimensions,
     ...(startDate && { startDate }),
     ...(endDate && { endDate }),
     ...(orderBy && { orderBy }),
     ...(orderDirection && { orderDirection }),
     filters,
+    ...(comparison && { comparison }),
+    ...(comparisonFilters && { comparisonFilters }),
   };
 }
@@ -1,16 +1,24 @@
-import type { FastifyInstance } from 'fastify';
+import type { FastifyInstance, FastifyRequest } from 'fastify';
 import type { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
 import { ListService } from './list.service.js';
 import { AnalyticsQueryBuilder } from '../../core/db/clickhouse/query/analytics-query-builder.js';
+import { queryCacheFor } from '../../core/cache/query-cache.js';
 import type { DatabaseClient } from '../../core/db/clickhouse/client.js';
 import type { ListQueryParams } from './list.schemas.js';
 import {
   ListQueryStringSchema,
-  ListResponseSchema,
+  buildListResponseSchema,
+  parseGroupByDimensions,
 } from './list.schemas.js';
 import { sanitizeDateString, sanitizeFieldName } from '../../core/utils/sanitization.js';
 import { parseQueryParamsToFilters } from '../balance/balance.schemas.js';
 import { parseDynamicFilters, combineFilters } from '../../core/utils/filter-parser.js';
+import { authenticate } from '../../core/middleware/authenticate.js';
+import { resolveDataScope } from '../../core/middleware/data-scope.js';
+import { CustomMetricsService } from '../custom-metrics/custom-metrics.service.js';
+import { parseCustomMetricKeys } from '../../core/metrics/custom-metric.js';
+import { resolveComparisonPeriod, buildComparisonFilters } from '../../core/utils/comparison-period.js';
+import { resolveProjectionWindow } from '../../core/utils/projection.js';
 
 /**
  * Register list routes
@@ -22,47 +30,64 @@ export function listRoutes(
   // Use TypeBox type provider for type-safe schemas
   const server = fastify.withTypeProvider<TypeBoxTypeProvider>();
 
-  // Instantiate service with DI
-  const analyticsBuilder = new AnalyticsQueryBuilder(dbClient.getClient());
-  const service = new ListService(analyticsBuilder);
+  // Instantiate service with DI, bound per request to the user's data scope
+  const analyticsBuilder = new AnalyticsQueryBuilder(dbClient.getClient(), [], queryCacheFor(fastify, 'list'));
+  const serviceFor = (request: FastifyRequest): ListService =>
+    new ListService(analyticsBuilder.withScope(request.dataScope ?? [], request.queryCacheStats));
+  const customMetricsService = new CustomMetricsService();
 
   /**
    * GET /list
    * Get list of balance sheets grouped by dimension
    *
    * Query params:
-   * - groupBy: Dimension to group by (seller_id, IdRegional, month, quarter, year) - REQUIRED
+   * - groupBy: Dimension to group by (seller_id, IdRegional, month, quarter, year) - REQUIRED.
+   *   Up to 3 comma-separated dimensions return a hierarchy (outermost first)
+   * - childLimit: Child rows per parent of a hierarchy (optional, default 10, max 100)
    * - startDate: ISO date string (optional)
    * - endDate: ISO date string (optional)
    * - page: Page number (optional, default 1)
    * - limit: Items per page (optional, default 50, min 20, max 100)
+   * - compareMode: previous_year (default) | previous_period | two_years_ago | previous_month (optional)
+   * - compareStartDate / compareEndDate: explicit comparison window (optional, overrides compareMode)
+   * - metrics: Custom metric keys (optional, comma-separated), returned as custom_<key>
+   * - projection: linear | seasonal | smoothing (optional, requires startDate and endDate);
+   *   adds projected_close, projected_gap and required_daily_sales
    * - Any other params: Dynamic filters (comma-separated for multiple values)
    *
    * Examples:
    * - /list?groupBy=seller_id&country=españa
    * - /list?groupBy=IdRegional&seller_id=S001,S002&page=2
    * - /list?groupBy=month&startDate=2025-01-01&country=españa,portugal
+   * - /list?groupBy=IdRegional,seller_id&childLimit=5
    *
-   * Response: Array of items, each with same structure as /balance endpoint
+   * Response: Array of items, each with same structure as /balance endpoint;
+   * meta.comparison is the resolved comparison window, meta.projection the
+   * projection model and close date. Hierarchical lists
+   * nest the next dimension's rows in `children` (with `childCount`), paginate
+   * the first dimension and limit each parent to childLimit children
    */
   server.get(
     '/list',
     {
+      preHandler: [authenticate, resolveDataScope],
       schema: {
         description: 'Get list of balance sheets grouped by dimension. Supports dynamic filters and pagination.',
         tags: ['list'],
         querystring: ListQueryStringSchema,
         response: {
-          200: ListResponseSchema,
+          200: buildListResponseSchema(),
         },
       },
     },
     async (request, reply) => {
       const query = request.query;
+      // Ordered groupBy dimensions, validated against the allowlist
+      const dimensions = parseGroupByDimensions(query.groupBy);
 
       // Sanitize and parse query params
       const params: ListQueryParams = {
-        groupBy: sanitizeFieldName(query.groupBy) as ListQueryParams['groupBy'],
+        groupBy: dimensions[0]!,
         ...(query.startDate && { startDate: sanitizeDateString(query.startDate) }),
         ...(query.endDate && { endDate: sanitizeDateString(query.endDate) }),
         ...(query.page && { page: query.page }),
@@ -80,6 +105,10 @@ export function listRoutes(
       // Combine all filters
       const allFilters = combineFilters(dynamicFilters, dateFilters);
 
+      // Comparison window for the *_ly metrics (default: same range a year earlier)
+      const comparison = resolveComparisonPeriod({ ...query, ...params });
+      const comparisonFilters = buildComparisonFilters(comparison, dynamicFilters);
+
       // Closed periods (facturadoOnly) exclude comprometido from budget-relative metrics
       const facturadoOnly = (query as Record<string, unknown>)['facturadoOnly'] === true
         || (query as Record<string, unknown>)['facturadoOnly'] === 'true';
@@ -89,13 +118,42 @@ export function listRoutes(
         ? ((query as Record<string, unknown>)['search'] as string)
         : undefined;
 
-      // Get list with combined filters
-      const listResponse = await service.getBalanceList({
+      // User-defined metrics requested with metrics=<key>,<key>
+      const customMetrics = await customMetricsService.resolveForQuery(
+        request.user,
+        parseCustomMetricKeys(query.metrics)
+      );
+
+      // End-of-period projection (requires a closed date range)
+      const projection = query.projection && {
+        method: query.projection,
+        periodEnd: resolveProjectionWindow(params.startDate, params.endDate).periodEnd,
+      };
+
+      // Get list with combined filters (nested by the remaining dimensions, if any)
+      const listParams = {
         ...params,
         filters: allFilters,
+        ...(comparisonFilters && { comparisonFilters }),
         facturadoOnly,
+        customMetrics,
         ...(search && { search }),
-      });
+        ...(projection && { projection: projection.method }),
+      };
+      const listResponse = dimensions.length > 1
+        ? await serviceFor(request).getBalanceTree({
+          ...listParams,
+          dimensions,
+          ...(query.childLimit && { childLimit: query.childLimit }),
+        })
+        : await serviceFor(request).getBalanceList(listParams);
+
+      if (comparison) {
+        listResponse.meta.comparison = comparison;
+      }
+      if (projection) {
+        listResponse.meta.projection = projection;
+      }
 
       return reply.code(200).send(listResponse as any);
     }
@@ -1,6 +1,9 @@
-import { Type, type Static } from '@sinclair/typebox';
-import { BalanceQueryStringSchema, BalanceSheetResponseSchema, type BalanceQueryParams } from '../balance/balance.schemas.js';
+import { Type, type Static, type TSchema } from '@sinclair/typebox';
+import { BalanceQueryStringSchema, buildBalanceSheetResponseSchema, type BalanceQueryParams } from '../balance/balance.schemas.js';
+import { ComparisonPeriodSchema } from '../../core/utils/comparison-period.js';
+import { ProjectionMetadataSchema } from '../../core/utils/projection.js';
 import { ALLOWED_DIMENSIONS, type GroupByDimension } from '../../core/config/dimensions.config.js';
+import { ValidationError } from '../../core/errors/app-error.js';
 
 /**
  * TypeBox schemas and types for list endpoint
@@ -20,6 +23,50 @@ export const GroupByDimensionSchema = Type.Union(
 
 export type { GroupByDimension };
 
+/**
+ * Maximum number of nested dimensions in a hierarchical (pivot) list
+ */
+export const MAX_GROUP_BY_DEPTH = 3;
+
+/**
+ * Default number of child rows returned per parent in a hierarchical list
+ */
+export const DEFAULT_CHILD_LIMIT = 10;
+
+/**
+ * Ordered groupBy dimensions: a single dimension, or a comma-separated
+ * hierarchy of up to MAX_GROUP_BY_DEPTH dimensions (e.g. "IdRegional,seller_id")
+ */
+export const GroupByPathSchema = Type.String({
+  pattern: '^[A-Za-z_]+(,[A-Za-z_]+){0,2}$',
+  description: `Dimension to group by, or up to ${MAX_GROUP_BY_DEPTH} comma-separated dimensions (outermost first)`,
+});
+
+/**
+ * Parse an ordered groupBy path into its dimensions
+ *
+ * @throws ValidationError for unknown or repeated dimensions, or more than MAX_GROUP_BY_DEPTH
+ */
+export function parseGroupByDimensions(groupBy: string): GroupByDimension[] {
+  const dimensions = groupBy.split(',').map((dim) => dim.trim());
+
+  if (dimensions.length > MAX_GROUP_BY_DEPTH) {
+    throw new ValidationError(`groupBy accepts at most ${MAX_GROUP_BY_DEPTH} dimensions`);
+  }
+
+  for (const dim of dimensions) {
+    if (!(ALLOWED_DIMENSIONS as readonly string[]).includes(dim)) {
+      throw new ValidationError(`Invalid groupBy dimension: ${dim}`);
+    }
+  }
+
+  if (new Set(dimensions).size !== dimensions.length) {
+    throw new ValidationError('groupBy dimensions must not repeat');
+  }
+
+  return dimensions as GroupByDimension[];
+}
+
 /**
  * Order direction schema
  */
@@ -41,7 +88,8 @@ export const ListQueryStringSchema = Type.Composite(
   [
     BalanceQueryStringSchema,
     Type.Object({
-      groupBy: GroupByDimensionSchema,
+      groupBy: GroupByPathSchema,
+      childLimit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: DEFAULT_CHILD_LIMIT, description: 'Child rows per parent for multi-dimension groupBy (max 100)' })),
       page: Type.Optional(Type.Integer({ minimum: 1, default: 1, description: 'Page number (1-indexed)' })),
       limit: Type.Optional(Type.Integer({ minimum: 20, maximum: 100, default: 50, description: 'Items per page (min 20, max 100)' })),
       orderBy: Type.Optional(Type.String({ description: 'Field to order by (metric alias or "name"). Default: "sales"' })),
@@ -58,32 +106,78 @@ export const ListQueryStringSchema = Type.Composite(
 export type ListQueryString = Static<typeof ListQueryStringSchema>;
 
 /**
- * List item response schema
- * Contains dimension id, name, and all balance metrics
+ * Dimension id/name of a list item
  */
-export const ListItemResponseSchema = Type.Composite([
-  Type.Object({
-    id: Type.String({ description: 'ID of the groupBy dimension' }),
-    name: Type.String({ description: 'Name/label of the groupBy dimension' }),
-  }),
-  BalanceSheetResponseSchema,
-], {
-  $id: 'ListItemResponse',
-  additionalProperties: Type.Union([Type.Number(), Type.String()]),
+const ListItemIdentitySchema = Type.Object({
+  id: Type.String({ description: 'ID of the groupBy dimension' }),
+  name: Type.String({ description: 'Name/label of the groupBy dimension' }),
 });
 
-export type ListItemResponse = Static<typeof ListItemResponseSchema>;
+const ListItemExtraFieldSchema = Type.Union([Type.Number(), Type.String(), Type.Null()]);
+
+/**
+ * List item response schema
+ * Contains dimension id, name, and all balance metrics of the active catalog
+ */
+export function buildListItemResponseSchema() {
+  return Type.Composite([
+    ListItemIdentitySchema,
+    buildBalanceSheetResponseSchema(),
+  ], {
+    $id: 'ListItemResponse',
+    additionalProperties: ListItemExtraFieldSchema,
+  });
+}
+
+export type ListItemResponse = Static<ReturnType<typeof buildListItemResponseSchema>>;
+
+/**
+ * Hierarchical list item: a ListItemResponse plus the first child rows of the
+ * next dimension (ordered and limited within this parent)
+ */
+export type ListTreeItemResponse = ListItemResponse & {
+  childCount?: number;
+  children?: ListTreeItemResponse[];
+};
+
+/**
+ * List item schema nested `depth` levels deep (depth 1 = a plain list item)
+ */
+function buildListTreeItemResponseSchema(depth: number): TSchema {
+  if (depth <= 1) {
+    return buildListItemResponseSchema();
+  }
+
+  return Type.Composite([
+    ListItemIdentitySchema,
+    buildBalanceSheetResponseSchema(),
+    Type.Object({
+      childCount: Type.Optional(Type.Number({ description: 'Total child rows of this item at the next dimension' })),
+      children: Type.Optional(Type.Array(buildListTreeItemResponseSchema(depth - 1), {
+        description: 'First child rows at the next dimension (see meta.childLimit)',
+      })),
+    }),
+  ], {
+    additionalProperties: ListItemExtraFieldSchema,
+  });
+}
 
 /**
  * List metadata schema
  */
 export const ListMetadataSchema = Type.Object({
   groupBy: GroupByDimensionSchema,
+  dimensions: Type.Optional(Type.Array(GroupByDimensionSchema, {
+    description: 'Ordered dimensions of a hierarchical list (groupBy is the first one)',
+  })),
+  childLimit: Type.Optional(Type.Number({ description: 'Maximum child rows returned per parent' })),
   total: Type.Number({ description: 'Total number of items across all pages' }),
   count: Type.Number({ description: 'Number of items in current page' }),
   page: Type.Number({ description: 'Current page number' }),
   limit: Type.Number({ description: 'Items per page' }),
   totalPages: Type.Number({ description: 'Total number of pages' }),
+  comparison: Type.Optional(ComparisonPeriodSchema),
+  projection: Type.Optional(ProjectionMetadataSchema),
 }, {
   $id: 'ListMetadata',
 });
@@ -93,14 +187,18 @@ export type ListMetadata = Static<typeof ListMetadataSchema>;
 /**
  * List response schema
  */
-export const ListResponseSchema = Type.Object({
-  data: Type.Array(ListItemResponseSchema),
-  meta: ListMetadataSchema,
-}, {
-  $id: 'ListResponse',
-});
+export function buildListResponseSchema() {
+  return Type.Object({
+    data: Type.Array(buildListTreeItemResponseSchema(MAX_GROUP_BY_DEPTH)),
+    meta: ListMetadataSchema,
+  }, {
+    $id: 'ListResponse',
+  });
+}
 
-export type ListResponse = Static<typeof ListResponseSchema>;
+export type ListResponse = Omit<Static<ReturnType<typeof buildListResponseSchema>>, 'data'> & {
+  data: ListTreeItemResponse[];
+};
 
 /**
  * Query parameters interface for list endpoint
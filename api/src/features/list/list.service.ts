@@ -1,16 +1,23 @@
 import type { IAnalyticsQueryBuilder, FilterCondition } from '../../core/db/clickhouse/query/interfaces.js';
-import type {
-  ListQueryParams,
-  ListResponse,
-  ListItemResponse,
+import type { GroupedRowCondition } from '../../core/db/clickhouse/query/types.js';
+import {
+  DEFAULT_CHILD_LIMIT,
+  type GroupByDimension,
+  type ListQueryParams,
+  type ListResponse,
+  type ListItemResponse,
+  type ListTreeItemResponse,
 } from './list.schemas.js';
 import { parseQueryParamsToFilters } from '../balance/balance.schemas.js';
-import { BALANCE_METRICS } from '../../core/config/metrics.config.js';
+import { metricRegistry } from '../../core/config/metrics.config.js';
 import { buildDynamicResponse } from '../../core/utils/response-builder.js';
+import type { CompiledCustomMetric } from '../../core/metrics/custom-metric.js';
+import type { ProjectionMethod } from '../../core/utils/projection.js';
 
 /**
  * Hard cap on the number of rows an Excel export may contain.
- * Bounds query cost, memory and file size for the export endpoint.
+ * Bounds query cost, memory and file size of the styled workbook (the CSV and
+ * Parquet exports are streamed without a cap).
  */
 export const EXPORT_ROW_HARD_CAP = 20_000;
 
@@ -27,12 +34,55 @@ export class ExportTooLargeError extends Error {
   }
 }
 
+type QueryRow = Record<string, number | string>;
+
+/**
+ * Display value of an empty dimension id or name
+ */
+function orSinDeterminar(value: string): string {
+  return value.trim() === '' ? 'Sin Determinar' : value;
+}
+
+/**
+ * Row of a streamed (uncapped) list export
+ */
+export interface ListExportRecord {
+  /** Ids of the outer dimensions of a multi-dimension groupBy, outermost first */
+  parentIds: string[];
+  item: ListItemResponse;
+}
+
+const PATH_SEPARATOR = '\u0000';
+
+/**
+ * Dimension ids of a row of a hierarchical level, outermost first
+ * (the `_parent_<n>` ancestors followed by the row's own id)
+ */
+function rowPath(row: QueryRow, depth: number): string[] {
+  return [
+    ...Array.from({ length: depth }, (_, index) => String(row[`_parent_${index}`] ?? '')),
+    String(row['id'] ?? ''),
+  ];
+}
+
+/**
+ * Params of a hierarchical list: groupBy is replaced by the ordered dimensions
+ */
+type ListTreeQueryParams = Omit<ListQueryParams, 'groupBy'> & {
+  dimensions: GroupByDimension[];
+  filters?: FilterCondition[];
+  comparisonFilters?: FilterCondition[];
+  facturadoOnly?: boolean;
+  customMetrics?: readonly CompiledCustomMetric[];
+  projection?: ProjectionMethod;
+};
+
 /**
  * Service for list endpoint business logic
  * Returns array of items (grouped by dimension) with same structure as balance
  *
  * Uses the same dynamic response builder as balance endpoint
- * To add new metrics: Just add them to BALANCE_METRICS in metrics.config.ts
+ * To add new metrics: publish them in the metric catalog (metrics.config.ts)
  *
  * Uses dependency injection for testability and loose coupling
  */
@@ -44,9 +94,19 @@ export class ListService {
    * Each item has the same structure as the balance endpoint
    *
    * Accepts filters directly or via params for backward compatibility
+   * Requested custom metrics are added as custom_<key> fields (and may be used as orderBy)
+   * comparisonFilters replaces the default year-shifted comparison window
+   * projection adds the projection fields of each item (also valid as orderBy)
    */
   async getBalanceList(
-    params: ListQueryParams & { filters?: FilterCondition[]; facturadoOnly?: boolean; search?: string }
+    params: ListQueryParams & {
+      filters?: FilterCondition[];
+      comparisonFilters?: FilterCondition[];
+      facturadoOnly?: boolean;
+      search?: string;
+      customMetrics?: readonly CompiledCustomMetric[];
+      projection?: ProjectionMethod;
+    }
   ): Promise<ListResponse> {
     // Support both filter formats: direct filters or params to parse
     const filters = params.filters ?? parseQueryParamsToFilters(params);
@@ -58,6 +118,8 @@ export class ListService {
       orderDirection = 'desc',
       facturadoOnly = false,
       search,
+      customMetrics = [],
+      projection,
     } = params;
 
     // Calculate offset for pagination
@@ -65,15 +127,18 @@ export class ListService {
 
     // Execute single query with pagination and total count via window function
     const results = await this.analyticsBuilder.buildGroupedMultiTableYoYQuery({
-      metrics: BALANCE_METRICS,
+      metrics: metricRegistry.getBaseMetrics(),
       currentPeriodFilters: filters,
+      ...(params.comparisonFilters && { comparisonFilters: params.comparisonFilters }),
       groupBy,
       limit,
       offset,
       orderBy,
       orderDirection,
       facturadoOnly,
+      customMetrics,
       ...(search && { search }),
+      ...(projection && { projection }),
     });
 
     // Extract total count from first row (window function returns same value in all rows)
@@ -82,7 +147,9 @@ export class ListService {
       : results.length;
 
     // Build array of responses using shared utility
-    const items: ListItemResponse[] = results.map((result) => this.toListItemResponse(result));
+    const items: ListItemResponse[] = results.map((result) =>
+      this.toListItemResponse(result, customMetrics, projection !== undefined)
+    );
 
     // Calculate total pages
     const totalPages = Math.ceil(total / limit);
@@ -108,7 +175,12 @@ export class ListService {
    * (mapped to 400 by the route) before any mapping/workbook work happens.
    */
   async getBalanceListForExport(
-    params: ListQueryParams & { filters?: FilterCondition[]; facturadoOnly?: boolean }
+    params: ListQueryParams & {
+      filters?: FilterCondition[];
+      comparisonFilters?: FilterCondition[];
+      facturadoOnly?: boolean;
+      customMetrics?: readonly CompiledCustomMetric[];
+    }
   ): Promise<ListItemResponse[]> {
     const filters = params.filters ?? parseQueryParamsToFilters(params);
     const {
@@ -116,34 +188,289 @@ export class ListService {
       orderBy = 'sales_total',
       orderDirection = 'desc',
       facturadoOnly = false,
+      customMetrics = [],
     } = params;
 
     const results = await this.analyticsBuilder.buildGroupedMultiTableYoYQuery({
-      metrics: BALANCE_METRICS,
+      metrics: metricRegistry.getBaseMetrics(),
       currentPeriodFilters: filters,
+      ...(params.comparisonFilters && { comparisonFilters: params.comparisonFilters }),
       groupBy,
       limit: EXPORT_ROW_HARD_CAP + 1,
       orderBy,
       orderDirection,
       facturadoOnly,
+      customMetrics,
     });
 
     if (results.length > EXPORT_ROW_HARD_CAP) {
       throw new ExportTooLargeError(results.length);
     }
 
-    return results.map((result) => this.toListItemResponse(result));
+    return results.map((result) => this.toListItemResponse(result, customMetrics));
+  }
+
+  /**
+   * Grouped list rows, at most `limit`, optionally only the ones whose
+   * response field meets a condition (e.g. the members of a dimension over
+   * an alert threshold), most extreme first.
+   *
+   * The condition runs in ClickHouse, so only the matching rows are read,
+   * whatever the cardinality of the dimension.
+   */
+  async getBalanceListMatching(params: {
+    groupBy: GroupByDimension;
+    filters: FilterCondition[];
+    condition?: GroupedRowCondition;
+    limit: number;
+    facturadoOnly?: boolean;
+  }): Promise<ListItemResponse[]> {
+    const results = await this.analyticsBuilder.buildGroupedMultiTableYoYQuery({
+      metrics: metricRegistry.getBaseMetrics(),
+      currentPeriodFilters: params.filters,
+      groupBy: params.groupBy,
+      limit: params.limit,
+      facturadoOnly: params.facturadoOnly ?? false,
+      ...(params.condition && { having: params.condition }),
+    });
+
+    return results.map((result) => this.toListItemResponse(result, []));
+  }
+
+  /**
+   * Stream the FULL grouped list for the CSV/Parquet exports, without a row cap.
+   *
+   * Rows are mapped as ClickHouse sends them (see
+   * streamGroupedMultiTableYoYQuery). A multi-dimension groupBy streams its
+   * deepest level only: one row per combination of dimension values, with the
+   * ids of the outer dimensions (subtotals are left to the consumer).
+   */
+  async *streamBalanceListForExport(params: ListTreeQueryParams): AsyncGenerator<ListExportRecord> {
+    const filters = params.filters ?? parseQueryParamsToFilters(params);
+    const {
+      dimensions,
+      orderBy = 'sales_total',
+      orderDirection = 'desc',
+      facturadoOnly = false,
+      customMetrics = [],
+    } = params;
+    const depth = dimensions.length - 1;
+    if (depth < 0) {
+      throw new Error('streamBalanceListForExport requires at least one dimension');
+    }
+
+    const rows = this.analyticsBuilder.streamGroupedMultiTableYoYQuery({
+      metrics: metricRegistry.getBaseMetrics(),
+      currentPeriodFilters: filters,
+      ...(params.comparisonFilters && { comparisonFilters: params.comparisonFilters }),
+      groupBy: dimensions[depth]!,
+      orderBy,
+      orderDirection,
+      facturadoOnly,
+      customMetrics,
+      ...(depth > 0 && { parentGroupBy: dimensions.slice(0, depth) }),
+    });
+
+    for await (const row of rows) {
+      yield {
+        parentIds: rowPath(row, depth).slice(0, -1).map(orSinDeterminar),
+        item: this.toListItemResponse(row, customMetrics),
+      };
+    }
+  }
+
+  /**
+   * Get a hierarchical list grouped by up to MAX_GROUP_BY_DEPTH dimensions.
+   *
+   * The first dimension is paginated, searched and ordered like getBalanceList.
+   * Each deeper level is one more grouped query that also groups by its
+   * ancestor dimensions, so every level carries its own YoY, budget and
+   * calculated metrics (the subtotals of its parent). Child levels are limited
+   * to the parents shown and to the first childLimit rows of each parent, in
+   * the same order; childCount reports how many child rows a parent has.
+   */
+  async getBalanceTree(
+    params: ListTreeQueryParams & { search?: string; childLimit?: number }
+  ): Promise<ListResponse> {
+    const filters = params.filters ?? parseQueryParamsToFilters(params);
+    const {
+      dimensions,
+      page = 1,
+      limit = 50,
+      orderBy = 'sales_total',
+      orderDirection = 'desc',
+      facturadoOnly = false,
+      search,
+      customMetrics = [],
+      childLimit = DEFAULT_CHILD_LIMIT,
+      projection,
+    } = params;
+    const [groupBy] = dimensions;
+    if (!groupBy) {
+      throw new Error('getBalanceTree requires at least one dimension');
+    }
+
+    const offset = (page - 1) * limit;
+    const queryLevel = (depth: number, levelFilters: FilterCondition[], comparisonFilters?: FilterCondition[]) =>
+      this.analyticsBuilder.buildGroupedMultiTableYoYQuery({
+        metrics: metricRegistry.getBaseMetrics(),
+        currentPeriodFilters: levelFilters,
+        ...(comparisonFilters && { comparisonFilters }),
+        groupBy: dimensions[depth]!,
+        orderBy,
+        orderDirection,
+        facturadoOnly,
+        customMetrics,
+        ...(projection && { projection }),
+        ...(depth === 0
+          ? { limit, offset, ...(search && { search }) }
+          : { parentGroupBy: dimensions.slice(0, depth), limitPerParent: childLimit }),
+      });
+
+    const roots = await queryLevel(0, filters, params.comparisonFilters);
+    const levels: QueryRow[][] = [roots];
+
+    for (let depth = 1; depth < dimensions.length; depth++) {
+      const parents = levels[depth - 1]!;
+      if (parents.length === 0) break;
+
+      // Restrict the level to the ancestors shown (each ancestor dimension to its ids)
+      const parentPaths = parents.map((row) => rowPath(row, depth - 1));
+      const parentFilters: FilterCondition[] = dimensions.slice(0, depth).map((field, index) => ({
+        field,
+        operator: 'in',
+        value: [...new Set(parentPaths.map((path) => path[index]!))],
+      }));
+
+      levels.push(await queryLevel(
+        depth,
+        [...filters, ...parentFilters],
+        params.comparisonFilters && [...params.comparisonFilters, ...parentFilters]
+      ));
+    }
+
+    const total = roots.length > 0 && '_total_count' in roots[0]!
+      ? Number(roots[0]['_total_count'])
+      : roots.length;
+    const items = this.assembleTree(levels, customMetrics, projection !== undefined);
+
+    return {
+      data: items,
+      meta: {
+        groupBy,
+        dimensions,
+        childLimit,
+        total,
+        count: items.length,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get the FULL hierarchical list for Excel export, flattened depth-first
+   * (each parent followed by its children) with the depth of every row.
+   *
+   * Each level is queried in full; the EXPORT_ROW_HARD_CAP applies to the rows
+   * of all levels together.
+   */
+  async getBalanceTreeForExport(
+    params: ListTreeQueryParams
+  ): Promise<Array<{ depth: number; item: ListItemResponse }>> {
+    const filters = params.filters ?? parseQueryParamsToFilters(params);
+    const {
+      dimensions,
+      orderBy = 'sales_total',
+      orderDirection = 'desc',
+      facturadoOnly = false,
+      customMetrics = [],
+    } = params;
+
+    const levels: QueryRow[][] = [];
+    let rowCount = 0;
+    for (let depth = 0; depth < dimensions.length; depth++) {
+      const rows = await this.analyticsBuilder.buildGroupedMultiTableYoYQuery({
+        metrics: metricRegistry.getBaseMetrics(),
+        currentPeriodFilters: filters,
+        ...(params.comparisonFilters && { comparisonFilters: params.comparisonFilters }),
+        groupBy: dimensions[depth]!,
+        limit: EXPORT_ROW_HARD_CAP + 1 - rowCount,
+        orderBy,
+        orderDirection,
+        facturadoOnly,
+        customMetrics,
+        ...(depth > 0 && { parentGroupBy: dimensions.slice(0, depth) }),
+      });
+
+      rowCount += rows.length;
+      if (rowCount > EXPORT_ROW_HARD_CAP) {
+        throw new ExportTooLargeError(rowCount);
+      }
+      levels.push(rows);
+    }
+
+    const flattened: Array<{ depth: number; item: ListItemResponse }> = [];
+    const visit = (items: ListTreeItemResponse[], depth: number): void => {
+      for (const { children, childCount: _childCount, ...item } of items) {
+        flattened.push({ depth, item: item as ListItemResponse });
+        if (children) visit(children, depth + 1);
+      }
+    };
+    visit(this.assembleTree(levels, customMetrics), 0);
+
+    return flattened;
+  }
+
+  /**
+   * Nest the rows of each level under their parent row (matched by the
+   * ancestor ids), keeping the query order within each parent.
+   */
+  private assembleTree(
+    levels: QueryRow[][],
+    customMetrics: readonly CompiledCustomMetric[],
+    projected = false
+  ): ListTreeItemResponse[] {
+    // Rows of each level by the path of their parent
+    const rowsByParent = levels.map((rows, depth) => {
+      const byParent = new Map<string, QueryRow[]>();
+      for (const row of rows) {
+        const key = rowPath(row, depth).slice(0, -1).join(PATH_SEPARATOR);
+        byParent.set(key, [...(byParent.get(key) ?? []), row]);
+      }
+      return byParent;
+    });
+
+    const build = (rows: QueryRow[], depth: number): ListTreeItemResponse[] =>
+      rows.map((row) => {
+        const item: ListTreeItemResponse = this.toListItemResponse(row, customMetrics, projected);
+        const childLevel = rowsByParent[depth + 1];
+        if (childLevel) {
+          const childRows = childLevel.get(rowPath(row, depth).join(PATH_SEPARATOR)) ?? [];
+          item.children = build(childRows, depth + 1);
+          // _total_count of a child level counts the rows of each parent
+          item.childCount = childRows.length > 0 && '_total_count' in childRows[0]!
+            ? Number(childRows[0]['_total_count'])
+            : childRows.length;
+        }
+        return item;
+      });
+
+    return build(levels[0] ?? [], 0);
   }
 
   /**
    * Map a raw grouped query row into a ListItemResponse.
    * Shared by the paginated list and the export path.
    */
-  private toListItemResponse(result: Record<string, number | string>): ListItemResponse {
-    const rawId = result['id']?.toString() ?? '';
-    const id = rawId.trim() === '' ? 'Sin Determinar' : rawId;
-    const rawName = result['name']?.toString() ?? '';
-    const name = rawName.trim() === '' ? 'Sin Determinar' : rawName;
+  private toListItemResponse(
+    result: Record<string, number | string>,
+    customMetrics: readonly CompiledCustomMetric[],
+    projected = false
+  ): ListItemResponse {
+    const id = orSinDeterminar(result['id']?.toString() ?? '');
+    const name = orSinDeterminar(result['name']?.toString() ?? '');
     const numericResult: Record<string, number> = {};
 
     // Filter out non-numeric values and internal fields for buildDynamicResponse
@@ -156,7 +483,7 @@ export class ListService {
     return {
       id,
       name,
-      ...buildDynamicResponse(numericResult),
+      ...buildDynamicResponse(numericResult, customMetrics, projected),
     } as unknown as ListItemResponse;
   }
 }
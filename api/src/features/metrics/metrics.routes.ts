@@ -0,0 +1,68 @@
+import type { FastifyInstance } from 'fastify';
+import { MetricsService } from './metrics.service.js';
+import {
+  MetricCatalogSchema,
+  PublishMetricCatalogBodySchema,
+  type PublishMetricCatalogBody,
+} from './metrics.schemas.js';
+import { metricRegistry } from '../../core/config/metrics.config.js';
+import { authenticate } from '../../core/middleware/authenticate.js';
+import { requireSuperadmin } from '../../core/middleware/authorize.js';
+
+/**
+ * Metric catalog routes
+ *
+ * GET /metrics/catalog only requires authentication (the web app renders
+ * metric columns from it)
+ * PUT /metrics/catalog requires superadmin role
+ */
+export async function metricsRoutes(fastify: FastifyInstance) {
+  const service = new MetricsService();
+
+  // Active catalog
+  fastify.get(
+    '/metrics/catalog',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Active metric catalog: base metrics, calculated metrics and their display metadata',
+        tags: ['Metrics'],
+        response: {
+          200: MetricCatalogSchema,
+        },
+      },
+    },
+    async (_request, reply) => {
+      return reply.send(metricRegistry.getCatalog());
+    }
+  );
+
+  // Publish a new catalog version (superadmin)
+  fastify.put(
+    '/metrics/catalog',
+    {
+      preHandler: [authenticate, requireSuperadmin],
+      schema: {
+        description: 'Publish the complete metric catalog as a new version. Formulas, dependencies and cycles are validated before it is stored.',
+        tags: ['Metrics'],
+        body: PublishMetricCatalogBodySchema,
+        response: {
+          200: MetricCatalogSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const catalog = await service.publishCatalog(
+        request.body as PublishMetricCatalogBody,
+        request.user?.id ?? null
+      );
+
+      request.log.info(
+        { type: 'metric_catalog_published', version: catalog.version, userId: request.user?.id },
+        'Metric catalog published'
+      );
+
+      return reply.send(catalog);
+    }
+  );
+}
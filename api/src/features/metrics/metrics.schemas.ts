@@ -0,0 +1,77 @@
+import { Type, type Static } from '@sinclair/typebox';
+
+/**
+ * TypeBox schemas for the metric catalog (see metrics.config.ts for the
+ * meaning of each field)
+ */
+
+const MetricFormatSchema = Type.Union(
+  [Type.Literal('currency'), Type.Literal('percent'), Type.Literal('number')],
+  { description: 'How the web app formats the value' }
+);
+
+const HeatmapThresholdsSchema = Type.Object({
+  excellent: Type.Number(),
+  good: Type.Number(),
+  neutral: Type.Number(),
+  warning: Type.Optional(Type.Number()),
+}, {
+  description: 'Heatmap color thresholds (value >= threshold), descending',
+});
+
+/**
+ * Base metric: aggregation of a table field
+ */
+export const BaseMetricDefinitionSchema = Type.Object({
+  table: Type.String({ description: 'Source table without TABLE_PREFIX, e.g. transactions' }),
+  field: Type.String({ description: 'Aggregated column' }),
+  aggregation: Type.Union([
+    Type.Literal('sum'),
+    Type.Literal('avg'),
+    Type.Literal('count'),
+    Type.Literal('min'),
+    Type.Literal('max'),
+    Type.Literal('uniqExact'),
+  ]),
+  alias: Type.String({ description: 'Response field (also adds <alias>_last_year and <alias>_vs_last_year)' }),
+  label: Type.String({ minLength: 1 }),
+  format: MetricFormatSchema,
+  heatmap: Type.Optional(HeatmapThresholdsSchema),
+});
+
+/**
+ * Calculated metric: formula over other metrics
+ */
+export const CalculatedMetricDefinitionSchema = Type.Object({
+  name: Type.String({ description: 'Response field' }),
+  description: Type.String(),
+  dependencies: Type.Array(Type.String(), { description: 'Metrics referenced by the formula' }),
+  formula: Type.String({ description: 'ClickHouse expression with {alias} placeholders' }),
+  facturadoSensitive: Type.Optional(Type.Boolean({ description: 'Drop the orders term for closed periods' })),
+  nullable: Type.Optional(Type.Boolean({ description: 'The formula may return NULL' })),
+  label: Type.String({ minLength: 1 }),
+  format: MetricFormatSchema,
+  heatmap: Type.Optional(HeatmapThresholdsSchema),
+});
+
+/**
+ * Active metric catalog (GET /metrics/catalog)
+ */
+export const MetricCatalogSchema = Type.Object({
+  version: Type.Integer({ description: 'Published version, 0 = built-in catalog' }),
+  publishedAt: Type.Union([Type.String(), Type.Null()]),
+  baseMetrics: Type.Array(BaseMetricDefinitionSchema),
+  calculatedMetrics: Type.Array(CalculatedMetricDefinitionSchema),
+});
+
+/**
+ * Publish body (PUT /metrics/catalog): the complete catalog, which becomes a
+ * new version
+ */
+export const PublishMetricCatalogBodySchema = Type.Object({
+  note: Type.Optional(Type.String({ description: 'What changed in this version' })),
+  baseMetrics: Type.Array(BaseMetricDefinitionSchema, { minItems: 1 }),
+  calculatedMetrics: Type.Array(CalculatedMetricDefinitionSchema),
+});
+
+export type PublishMetricCatalogBody = Static<typeof PublishMetricCatalogBodySchema>;
@@ -0,0 +1,222 @@
+import type { FastifyInstance } from 'fastify';
+import { eq, asc, desc } from 'drizzle-orm';
+import { db } from '../../core/db/postgres/client.js';
+import { metricCatalogs, metricDefinitions } from '../../core/db/postgres/schema.js';
+import { metricRegistry } from '../../core/config/metrics.config.js';
+import type { BaseMetricDefinition, CalculatedMetricDefinition } from '../../core/config/metrics.config.js';
+import { validateMetricCatalog, type MetricCatalog, type MetricRegistry } from '../../core/metrics/metric-registry.js';
+import { logger } from '../../core/logger/logger.js';
+import type { PublishMetricCatalogBody } from './metrics.schemas.js';
+
+/**
+ * How often each instance checks for a newer published catalog (ms)
+ */
+export const CATALOG_CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Metrics service - Versioned metric catalog in Postgres
+ * (`metric_catalog`, `metric_definition`)
+ */
+export class MetricsService {
+  /**
+   * Version of the latest published catalog (0 when none was published)
+   */
+  async getLatestVersion(): Promise<number> {
+    const [latest] = await db
+      .select({ version: metricCatalogs.version })
+      .from(metricCatalogs)
+      .orderBy(desc(metricCatalogs.version))
+      .limit(1);
+
+    return latest?.version ?? 0;
+  }
+
+  /**
+   * Latest published catalog
+   * @returns The catalog, or null when no version was published (built-in catalog)
+   */
+  async getLatestCatalog(): Promise<MetricCatalog | null> {
+    const [latest] = await db
+      .select()
+      .from(metricCatalogs)
+      .orderBy(desc(metricCatalogs.version))
+      .limit(1);
+
+    if (!latest) {
+      return null;
+    }
+
+    const rows = await db
+      .select()
+      .from(metricDefinitions)
+      .where(eq(metricDefinitions.version, latest.version))
+      .orderBy(asc(metricDefinitions.position));
+
+    return {
+      version: latest.version,
+      publishedAt: latest.createdAt.toISOString(),
+      baseMetrics: rows
+        .filter((r) => r.kind === 'base')
+        .map((r) => r.definition as BaseMetricDefinition),
+      calculatedMetrics: rows
+        .filter((r) => r.kind === 'calculated')
+        .map((r) => r.definition as CalculatedMetricDefinition),
+    };
+  }
+
+  /**
+   * Publish a complete catalog as a new version and activate it
+   *
+   * @param data - Base and calculated metric definitions
+   * @param publishedBy - ID of the publishing user
+   * @throws ValidationError if the catalog is invalid (nothing is stored)
+   */
+  async publishCatalog(data: PublishMetricCatalogBody, publishedBy: string | null): Promise<MetricCatalog> {
+    const { note, baseMetrics, calculatedMetrics } = data;
+    validateMetricCatalog({ baseMetrics, calculatedMetrics });
+
+    const published = await db.transaction(async (tx) => {
+      const [latest] = await tx
+        .select({ version: metricCatalogs.version })
+        .from(metricCatalogs)
+        .orderBy(desc(metricCatalogs.version))
+        .limit(1);
+
+      const [created] = await tx
+        .insert(metricCatalogs)
+        .values({ version: (latest?.version ?? 0) + 1, note: note ?? null, publishedBy })
+        .returning();
+
+      if (!created) {
+        throw new Error('Failed to publish metric catalog');
+      }
+
+      await tx.insert(metricDefinitions).values([
+        ...baseMetrics.map((definition, position) => ({
+          version: created.version,
+          kind: 'base' as const,
+          name: definition.alias,
+          position,
+          definition,
+        })),
+        ...calculatedMetrics.map((definition, position) => ({
+          version: created.version,
+          kind: 'calculated' as const,
+          name: definition.name,
+          position,
+          definition,
+        })),
+      ]);
+
+      return created;
+    });
+
+    const catalog: MetricCatalog = {
+      version: published.version,
+      publishedAt: published.createdAt.toISOString(),
+      baseMetrics,
+      calculatedMetrics,
+    };
+    metricRegistry.replace(catalog);
+
+    return catalog;
+  }
+}
+
+/**
+ * Activate the latest published catalog (server startup)
+ *
+ * Keeps the built-in catalog when nothing was published.
+ *
+ * @returns Active catalog version
+ * @throws ValidationError if the stored catalog is invalid (e.g. edited by hand)
+ */
+export async function loadMetricCatalog(service = new MetricsService()): Promise<number> {
+  const catalog = await service.getLatestCatalog();
+  if (catalog) {
+    metricRegistry.replace(catalog);
+  }
+  return metricRegistry.getVersion();
+}
+
+/**
+ * Keeps the active catalog of this instance in line with Postgres
+ *
+ * A publish only replaces the registry of the instance that handled it; every
+ * `intervalMs` the others compare the latest published version with their own
+ * and reload the catalog when it changed. Until then they keep serving the
+ * previous version, at most one interval.
+ */
+export class MetricCatalogWatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<boolean> | null = null;
+
+  constructor(
+    private service: Pick<MetricsService, 'getLatestVersion' | 'getLatestCatalog'>,
+    private intervalMs = CATALOG_CHECK_INTERVAL_MS,
+    private registry: MetricRegistry = metricRegistry
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      void this.check();
+    }, this.intervalMs);
+    // Never keep the process alive just for the watcher
+    this.timer.unref();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.running;
+  }
+
+  /**
+   * Reload the catalog if a different version was published
+   * (skipped while the previous check runs)
+   *
+   * @returns Whether the active catalog changed
+   */
+  async check(): Promise<boolean> {
+    if (this.running) return false;
+
+    this.running = this.reload().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  private async reload(): Promise<boolean> {
+    const active = this.registry.getVersion();
+    try {
+      if (await this.service.getLatestVersion() === active) {
+        return false;
+      }
+      const catalog = await this.service.getLatestCatalog();
+      if (!catalog || catalog.version === active) {
+        return false;
+      }
+      this.registry.replace(catalog);
+    } catch (error) {
+      // The current catalog stays active; the next check retries
+      logger.error({ type: 'metric_catalog_reload_error', err: error }, 'Failed to reload metric catalog');
+      return false;
+    }
+
+    logger.info({ type: 'metric_catalog_reloaded', from: active, version: this.registry.getVersion() }, 'Metric catalog reloaded');
+    return true;
+  }
+}
+
+/**
+ * Start the catalog watcher with the server and stop it on close
+ */
+export function registerMetricCatalogWatcher(fastify: FastifyInstance, watcher: MetricCatalogWatcher): void {
+  watcher.start();
+  fastify.addHook('onClose', async () => {
+    await watcher.stop();
+  });
+}
@@ -6,6 +6,8 @@ interface Qube6BaseParams {
   groupBy: string;
   currentFilters: FilterCondition[];
   previousFilters: FilterCondition[];
+  /** Mandatory data-scope conditions (role policy), applied to both periods. */
+  scopeFilters: FilterCondition[];
 }
 
 interface Qube6QueryParams extends Qube6BaseParams {
@@ -22,7 +24,7 @@ function buildQube6CTEs(params: Qube6BaseParams): {
   sanitizedGroupBy: string;
   table: string;
 } {
-  const { groupBy, currentFilters, previousFilters } = params;
+  const { groupBy, currentFilters, previousFilters, scopeFilters } = params;
 
   const sanitizedGroupBy = sanitizeFieldName(groupBy);
   if (!ALLOWED_DIMENSIONS.includes(sanitizedGroupBy as typeof ALLOWED_DIMENSIONS[number])) {
@@ -32,8 +34,8 @@ function buildQube6CTEs(params: Qube6BaseParams): {
   const filterBuilder = new FilterBuilder();
   const queryParams: Record<string, string | string[]> = {};
 
-  const currentWhere = filterBuilder.buildWhereClause(currentFilters, queryParams, 'cur');
-  const previousWhere = filterBuilder.buildWhereClause(previousFilters, queryParams, 'prev');
+  const currentWhere = filterBuilder.buildWhereClause([...currentFilters, ...scopeFilters], queryParams, 'cur');
+  const previousWhere = filterBuilder.buildWhereClause([...previousFilters, ...scopeFilters], queryParams, 'prev');
 
   const tablePrefix = process.env['TABLE_PREFIX'] ?? '';
   const table = `${tablePrefix}transactions`;
@@ -3,6 +3,7 @@ import type { FastifyInstance } from 'fastify';
 import type { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
 import type { DatabaseClient } from '../../core/db/clickhouse/client.js';
 import { Qube6Service } from './qube6.service.js';
+import { queryCacheFor } from '../../core/cache/query-cache.js';
 import {
   Qube6QueryStringSchema,
   Qube6ResponseSchema,
@@ -12,17 +13,20 @@ import {
 import { SuccessResponseSchema } from '../../core/schemas/common.schemas.js';
 import { parseDynamicFilters, combineFilters } from '../../core/utils/filter-parser.js';
 import { sanitizeFieldName, sanitizeDateString } from '../../core/utils/sanitization.js';
+import { authenticate } from '../../core/middleware/authenticate.js';
+import { resolveDataScope } from '../../core/middleware/data-scope.js';
 
 export function qube6Routes(
   fastify: FastifyInstance,
   dbClient: DatabaseClient
 ): void {
   const server = fastify.withTypeProvider<TypeBoxTypeProvider>();
-  const service = new Qube6Service(dbClient.getClient());
+  const service = new Qube6Service(dbClient.getClient(), queryCacheFor(fastify, 'qube6'));
 
   server.get(
     '/qube6',
     {
+      preHandler: [authenticate, resolveDataScope],
       schema: {
         description: 'Segment analysis (Value, Sales, Profit, Quality). With id: single entity. Without id: distribution aggregation.',
         tags: ['qube6'],
@@ -52,6 +56,8 @@ export function qube6Routes(
           groupBy,
           id: query.id,
           filters: allFilters,
+          scopeFilters: request.dataScope ?? [],
+          cacheStats: request.queryCacheStats,
         });
         return reply.code(200).send({ data: result });
       }
@@ -59,6 +65,8 @@ export function qube6Routes(
       const result = await service.getDistribution({
         groupBy,
         filters: allFilters,
+        scopeFilters: request.dataScope ?? [],
+        cacheStats: request.queryCacheStats,
       });
       return reply.code(200).send({ data: result });
     }
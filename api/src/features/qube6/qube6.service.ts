@@ -1,6 +1,7 @@
 import type { ClickHouseClient } from '@clickhouse/client';
 import type { FilterCondition } from '../../core/db/clickhouse/query/filter-builder.js';
 import { FilterBuilder } from '../../core/db/clickhouse/query/filter-builder.js';
+import { runCachedQuery, type QueryCacheBinding, type QueryCacheStats } from '../../core/cache/query-cache.js';
 import { buildQube6Query, buildQube6DistributionQuery } from './qube6.query.js';
 import type { Qube6Response, Qube6DistributionResponse, SegmentDistributionItem } from './qube6.schemas.js';
 
@@ -8,11 +9,19 @@ interface Qube6AnalysisParams {
   groupBy: string;
   id: string;
   filters: FilterCondition[];
+  /** Mandatory data-scope conditions resolved for the requesting user. */
+  scopeFilters: FilterCondition[];
+  /** Request counters updated on query cache hits/misses. */
+  cacheStats?: QueryCacheStats | undefined;
 }
 
 interface Qube6DistributionParams {
   groupBy: string;
   filters: FilterCondition[];
+  /** Mandatory data-scope conditions resolved for the requesting user. */
+  scopeFilters: FilterCondition[];
+  /** Request counters updated on query cache hits/misses. */
+  cacheStats?: QueryCacheStats | undefined;
 }
 
 const ANALYSIS_TYPES = ['value', 'sales', 'profit', 'quality'] as const;
@@ -20,11 +29,14 @@ const ANALYSIS_TYPES = ['value', 'sales', 'profit', 'quality'] as const;
 export class Qube6Service {
   private filterBuilder: FilterBuilder;
 
-  constructor(private client: ClickHouseClient) {
+  constructor(
+    private client: ClickHouseClient,
+    private cache?: QueryCacheBinding
+  ) {
     this.filterBuilder = new FilterBuilder();
   }
 
-  async getAnalysis({ groupBy, id, filters }: Qube6AnalysisParams): Promise<Qube6Response> {
+  async getAnalysis({ groupBy, id, filters, scopeFilters, cacheStats }: Qube6AnalysisParams): Promise<Qube6Response> {
     const previousFilters = this.filterBuilder.shiftDateFilters(filters, -1);
 
     const { query, queryParams } = buildQube6Query({
@@ -32,15 +44,15 @@ export class Qube6Service {
       id,
       currentFilters: filters,
       previousFilters,
+      scopeFilters,
     });
 
-    const result = await this.client.query({
-      query,
-      query_params: queryParams,
-      format: 'JSONEachRow',
-    });
-
-    const rows = await result.json() as Record<string, unknown>[];
+    const rows = await runCachedQuery<Record<string, unknown>>(
+      this.client,
+      { kind: 'qube6', query, queryParams },
+      this.cache,
+      cacheStats
+    );
 
     if (rows.length === 0) {
       throw new Error(`No data found for ${groupBy} = ${id}`);
@@ -49,22 +61,22 @@ export class Qube6Service {
     return transformResult(rows[0]!);
   }
 
-  async getDistribution({ groupBy, filters }: Qube6DistributionParams): Promise<Qube6DistributionResponse> {
+  async getDistribution({ groupBy, filters, scopeFilters, cacheStats }: Qube6DistributionParams): Promise<Qube6DistributionResponse> {
     const previousFilters = this.filterBuilder.shiftDateFilters(filters, -1);
 
     const { query, queryParams } = buildQube6DistributionQuery({
       groupBy,
       currentFilters: filters,
       previousFilters,
+      scopeFilters,
     });
 
-    const result = await this.client.query({
-      query,
-      query_params: queryParams,
-      format: 'JSONEachRow',
-    });
-
-    const rows = await result.json() as Record<string, unknown>[];
+    const rows = await runCachedQuery<Record<string, unknown>>(
+      this.client,
+      { kind: 'qube6-distribution', query, queryParams },
+      this.cache,
+      cacheStats
+    );
 
     return transformDistributionResult(rows);
   }
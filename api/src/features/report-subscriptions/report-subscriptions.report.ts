@@ -0,0 +1,177 @@
+import type { AnalyticsQueryBuilder } from '../../core/db/clickhouse/query/analytics-query-builder.js';
+import type { ReportSubscription } from '../../core/db/postgres/schema.js';
+import type { EmailMessage } from '../../core/email/email-transport.js';
+import { escapeHtml } from '../../core/email/email-html.js';
+import { resolveUserDataScope } from '../../core/middleware/data-scope.js';
+import { parseDynamicFilters } from '../../core/utils/filter-parser.js';
+import { DATE_PRESET_LABELS, resolveDatePreset } from '../../core/utils/date-presets.js';
+import { formatDate } from '../../core/utils/dates.js';
+import { sanitizeFilename } from '../../core/utils/export-filename.js';
+import { parseCustomMetricKeys } from '../../core/metrics/custom-metric.js';
+import { BalanceService } from '../balance/balance.service.js';
+import type { BalanceSheetResponse } from '../balance/balance.schemas.js';
+import { ListService } from '../list/list.service.js';
+import { parseListFilters } from '../list/list.filters.js';
+import { buildListExport } from '../list/list.export.builder.js';
+import { usesFacturadoOnly } from '../list/list.export.transform.js';
+import type { ListExportQueryString } from '../list/list.export.schemas.js';
+import type { CustomMetricsService } from '../custom-metrics/custom-metrics.service.js';
+import type { ReportOwner } from './report-subscriptions.service.js';
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * Headline KPI of the report email
+ */
+interface ReportKpi {
+  label: string;
+  value: string;
+}
+
+const currency = new Intl.NumberFormat('es-CO', { maximumFractionDigits: 0 });
+const percent = new Intl.NumberFormat('es-CO', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+function formatCurrency(value: unknown): string {
+  return typeof value === 'number' ? `$ ${currency.format(value)}` : 'N/A';
+}
+
+function formatPercent(value: unknown, withSign = false): string {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return 'N/A';
+  return `${withSign && value > 0 ? '+' : ''}${percent.format(value)}%`;
+}
+
+/**
+ * Headline KPIs of the balance, picking facturado vs facturado + comprometido
+ * sales like the dashboard (getSalesMetric in the web app)
+ */
+export function buildReportKpis(balance: BalanceSheetResponse, facturadoOnly: boolean): ReportKpi[] {
+  const values = balance as Record<string, unknown>;
+  return [
+    {
+      label: facturadoOnly ? 'Ventas (facturado)' : 'Ventas (facturado + comprometido)',
+      value: formatCurrency(values[facturadoOnly ? 'sales' : 'sales_total']),
+    },
+    {
+      label: 'Crecimiento vs año anterior',
+      value: formatPercent(values[facturadoOnly ? 'sales_vs_last_year' : 'sales_total_vs_last_year'], true),
+    },
+    { label: 'Presupuesto', value: formatCurrency(values['budget']) },
+    { label: 'Cumplimiento de presupuesto', value: formatPercent(values['budget_achievement_pct']) },
+    { label: 'Margen bruto', value: formatPercent(values['gross_margin_pct']) },
+  ];
+}
+
+/**
+ * Builds the email of a subscription run: the list export of its view (with
+ * the dates of its preset resolved at `now`) attached, the headline KPIs of
+ * the same filters in the body and an unsubscribe link.
+ *
+ * Queries run with the owner's current data scope, as if the owner had
+ * requested the export.
+ */
+export class ReportSubscriptionReportBuilder {
+  /**
+   * @param analyticsBuilder - Unscoped builder (scoped per owner on each run)
+   * @param publicUrl - Public base URL of the API (unsubscribe links)
+   */
+  constructor(
+    private analyticsBuilder: AnalyticsQueryBuilder,
+    private customMetricsService: CustomMetricsService,
+    private publicUrl: string
+  ) {}
+
+  /**
+   * @throws ForbiddenError if the owner's role is gone or no longer allows the view filters
+   * @throws ExportTooLargeError if the export exceeds EXPORT_ROW_HARD_CAP rows
+   */
+  async build(subscription: ReportSubscription, owner: ReportOwner, now: Date): Promise<EmailMessage> {
+    const { view } = subscription;
+    const scope = await resolveUserDataScope(owner, parseDynamicFilters(view.filters ?? {}));
+    const scoped = this.analyticsBuilder.withScope(scope);
+
+    const { startDate, endDate } = resolveDatePreset(view.preset, now);
+    const periodLabel = `${DATE_PRESET_LABELS[view.preset]}: ${startDate} – ${endDate}`;
+    const query = {
+      ...view.filters,
+      groupBy: view.groupBy,
+      startDate,
+      endDate,
+      preset: view.preset,
+      ...(view.orderBy && { orderBy: view.orderBy }),
+      ...(view.orderDirection && { orderDirection: view.orderDirection }),
+      ...(view.metrics && { metrics: view.metrics }),
+      reportTitle: subscription.name,
+      periodLabel,
+      generatedLabel: formatDate(now),
+    } as ListExportQueryString;
+
+    const customMetrics = await this.customMetricsService.resolveForQuery(owner, parseCustomMetricKeys(view.metrics));
+    const { buffer } = await buildListExport(new ListService(scoped), query, customMetrics);
+
+    const parsed = parseListFilters(query as Record<string, unknown>);
+    const facturadoOnly = usesFacturadoOnly(view.preset);
+    const balance = await new BalanceService(scoped).getBalanceSheet({
+      filters: parsed.filters,
+      ...(parsed.comparisonFilters && { comparisonFilters: parsed.comparisonFilters }),
+      facturadoOnly,
+    });
+
+    const unsubscribeUrl = `${this.publicUrl}/api/report-subscriptions/unsubscribe?token=${encodeURIComponent(subscription.unsubscribeToken)}`;
+
+    return {
+      to: owner.email,
+      subject: `${subscription.name} — ${periodLabel}`,
+      html: getReportEmailTemplate(subscription.name, periodLabel, buildReportKpis(balance, facturadoOnly), unsubscribeUrl),
+      attachments: [{
+        filename: `${sanitizeFilename(subscription.name) || 'reporte'}.xlsx`,
+        content: buffer,
+        contentType: XLSX_MIME,
+      }],
+      headers: { 'List-Unsubscribe': `<${unsubscribeUrl}>` },
+    };
+  }
+}
+
+/**
+ * HTML email of a report: KPI table and unsubscribe link (same look as the
+ * OTP email)
+ */
+function getReportEmailTemplate(name: string, periodLabel: string, kpis: ReportKpi[], unsubscribeUrl: string): string {
+  const rows = kpis
+    .map((kpi) => `
+            <tr>
+              <td style="padding: 10px 0; color: #6b7280; border-bottom: 1px solid #e5e7eb;">${escapeHtml(kpi.label)}</td>
+              <td style="padding: 10px 0; text-align: right; font-weight: bold; color: #1f2937; border-bottom: 1px solid #e5e7eb;">${escapeHtml(kpi.value)}</td>
+            </tr>`)
+    .join('');
+
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      </head>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background: #333; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+          <h1 style="color: white; margin: 0; font-size: 28px;">DynaInfo</h1>
+        </div>
+
+        <div style="background: #f9fafb; padding: 40px 30px; border-radius: 0 0 10px 10px; border: 1px solid #e5e7eb; border-top: none;">
+          <h2 style="color: #1f2937; margin-top: 0;">${escapeHtml(name)}</h2>
+          <p style="color: #6b7280; font-size: 16px;">${escapeHtml(periodLabel)}</p>
+
+          <table style="width: 100%; border-collapse: collapse; margin: 30px 0;">${rows}
+          </table>
+
+          <p style="color: #6b7280; font-size: 14px;">El detalle completo está en el archivo Excel adjunto.</p>
+
+          <p style="color: #9ca3af; font-size: 13px; margin-top: 40px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+            Recibes este correo porque te suscribiste a este reporte.
+            <a href="${escapeHtml(unsubscribeUrl)}" style="color: #9ca3af;">Cancelar suscripción</a>
+          </p>
+        </div>
+      </body>
+    </html>
+  `;
+}
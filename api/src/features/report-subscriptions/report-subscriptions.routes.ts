@@ -0,0 +1,208 @@
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { ReportSubscriptionsService, type ReportSubscriptionUser } from './report-subscriptions.service.js';
+import {
+  ReportSubscriptionSchema,
+  CreateReportSubscriptionBodySchema,
+  UpdateReportSubscriptionBodySchema,
+  ReportSubscriptionParamsSchema,
+  ReportDeliverySchema,
+  UnsubscribeQuerySchema,
+  type CreateReportSubscriptionBody,
+  type UpdateReportSubscriptionBody,
+} from './report-subscriptions.schemas.js';
+import { authenticate } from '../../core/middleware/authenticate.js';
+import { NotFoundError, UnauthorizedError } from '../../core/errors/app-error.js';
+
+/**
+ * Report subscription routes
+ *
+ * Any authenticated user subscribes to saved list views (groupBy, filters,
+ * date preset) and receives them by email on a schedule; only the owner sees
+ * or edits a subscription. The unsubscribe link of the emails needs no session.
+ */
+export function reportSubscriptionsRoutes(fastify: FastifyInstance): void {
+  const service = new ReportSubscriptionsService();
+
+  const sessionUser = (request: FastifyRequest): ReportSubscriptionUser => {
+    if (!request.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+    return request.user;
+  };
+
+  // List own subscriptions
+  fastify.get(
+    '/report-subscriptions',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'List your report subscriptions',
+        tags: ['Report subscriptions'],
+        response: {
+          200: Type.Object({
+            data: Type.Array(ReportSubscriptionSchema),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const data = await service.list(sessionUser(request));
+      return reply.send({ data });
+    }
+  );
+
+  // Create subscription
+  fastify.post(
+    '/report-subscriptions',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Subscribe to a list view. The Excel export and headline KPIs are emailed to you daily, weekly or monthly.',
+        tags: ['Report subscriptions'],
+        body: CreateReportSubscriptionBodySchema,
+        response: {
+          201: ReportSubscriptionSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const subscription = await service.create(sessionUser(request), request.body as CreateReportSubscriptionBody);
+      return reply.status(201).send(subscription);
+    }
+  );
+
+  // Update own subscription
+  fastify.patch(
+    '/report-subscriptions/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Update, pause or resume one of your report subscriptions',
+        tags: ['Report subscriptions'],
+        params: ReportSubscriptionParamsSchema,
+        body: UpdateReportSubscriptionBodySchema,
+        response: {
+          200: ReportSubscriptionSchema,
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const subscription = await service.update(sessionUser(request), id, request.body as UpdateReportSubscriptionBody);
+
+      if (!subscription) {
+        throw new NotFoundError('Report subscription not found');
+      }
+
+      return reply.send(subscription);
+    }
+  );
+
+  // Delete own subscription
+  fastify.delete(
+    '/report-subscriptions/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Delete one of your report subscriptions',
+        tags: ['Report subscriptions'],
+        params: ReportSubscriptionParamsSchema,
+        response: {
+          200: Type.Object({
+            success: Type.Boolean(),
+            message: Type.String(),
+          }),
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const deleted = await service.delete(sessionUser(request), id);
+
+      if (!deleted) {
+        throw new NotFoundError('Report subscription not found');
+      }
+
+      return reply.send({
+        success: true,
+        message: 'Report subscription deleted successfully',
+      });
+    }
+  );
+
+  // Delivery history of own subscription
+  fastify.get(
+    '/report-subscriptions/:id/deliveries',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Latest delivery attempts of one of your report subscriptions, newest first',
+        tags: ['Report subscriptions'],
+        params: ReportSubscriptionParamsSchema,
+        response: {
+          200: Type.Object({
+            data: Type.Array(ReportDeliverySchema),
+          }),
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const data = await service.listDeliveries(sessionUser(request), id);
+
+      if (!data) {
+        throw new NotFoundError('Report subscription not found');
+      }
+
+      return reply.send({ data });
+    }
+  );
+
+  // Unsubscribe link of the report emails (no session: the token is the secret)
+  fastify.get(
+    '/report-subscriptions/unsubscribe',
+    {
+      schema: {
+        description: 'Pause a report subscription from the link of its emails',
+        tags: ['Report subscriptions'],
+        querystring: UnsubscribeQuerySchema,
+      },
+    },
+    async (request, reply) => {
+      const { token } = request.query as { token: string };
+      const name = await service.unsubscribe(token);
+
+      if (name === null) {
+        throw new NotFoundError('Report subscription not found');
+      }
+
+      return reply
+        .type('text/html; charset=utf-8')
+        .send(getUnsubscribedPage());
+    }
+  );
+}
+
+/**
+ * Confirmation page of the unsubscribe link
+ */
+function getUnsubscribedPage(): string {
+  return `<!DOCTYPE html>
+<html>
+  <head><meta charset="utf-8"><title>DynaInfo</title></head>
+  <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #333; max-width: 600px; margin: 40px auto; text-align: center;">
+    <h1>Suscripción cancelada</h1>
+    <p>Ya no recibirás este reporte por correo. Puedes reactivarlo desde la configuración de DynaInfo.</p>
+  </body>
+</html>`;
+}
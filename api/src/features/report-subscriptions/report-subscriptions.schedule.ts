@@ -0,0 +1,65 @@
+import { DAY_MS } from '../../core/utils/dates.js';
+
+/**
+ * Delivery schedule of report subscriptions (all times UTC)
+ *
+ * - daily: every day at `hour`
+ * - weekly: Mondays at `hour`
+ * - monthly: the 1st of the month at `hour`
+ *
+ * A failed delivery is retried after RETRY_DELAYS_MS; after
+ * MAX_DELIVERY_ATTEMPTS it is given up and the next scheduled run applies.
+ */
+
+export type ReportFrequency = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Delivery hour when none is given (11:00 UTC = 6:00 in Colombia)
+ */
+export const DEFAULT_DELIVERY_HOUR = 11;
+
+/**
+ * Attempts per delivery (the scheduled run plus its retries)
+ */
+export const MAX_DELIVERY_ATTEMPTS = 3;
+
+/**
+ * Wait before each retry (index 0: after the first failure)
+ */
+export const RETRY_DELAYS_MS = [5 * 60 * 1000, 30 * 60 * 1000] as const;
+
+/**
+ * First scheduled delivery strictly after a date
+ */
+export function nextRunAt(frequency: ReportFrequency, hour: number, after: Date): Date {
+  const year = after.getUTCFullYear();
+  const month = after.getUTCMonth();
+
+  if (frequency === 'monthly') {
+    const candidate = new Date(Date.UTC(year, month, 1, hour));
+    return candidate > after ? candidate : new Date(Date.UTC(year, month + 1, 1, hour));
+  }
+
+  let candidate = new Date(Date.UTC(year, month, after.getUTCDate(), hour));
+  if (frequency === 'weekly') {
+    // Days until Monday (getUTCDay: 0 = Sunday, 1 = Monday)
+    candidate = new Date(candidate.getTime() + ((8 - candidate.getUTCDay()) % 7) * DAY_MS);
+  }
+  if (candidate <= after) {
+    candidate = new Date(candidate.getTime() + (frequency === 'weekly' ? 7 : 1) * DAY_MS);
+  }
+  return candidate;
+}
+
+/**
+ * When to retry a delivery after its n-th failed attempt
+ *
+ * @returns The retry date, or null once MAX_DELIVERY_ATTEMPTS have failed
+ */
+export function retryAt(failedAttempts: number, now: Date): Date | null {
+  if (failedAttempts >= MAX_DELIVERY_ATTEMPTS) {
+    return null;
+  }
+  const delay = RETRY_DELAYS_MS[Math.min(failedAttempts, RETRY_DELAYS_MS.length) - 1]!;
+  return new Date(now.getTime() + delay);
+}
@@ -0,0 +1,92 @@
+import type { ReportSubscription } from '../../core/db/postgres/schema.js';
+import type { EmailMessage, EmailTransport } from '../../core/email/email-transport.js';
+import { ForbiddenError } from '../../core/errors/app-error.js';
+import { LeaseRunner } from '../../core/jobs/lease-runner.js';
+import { logger } from '../../core/logger/logger.js';
+import type { ReportOwner, ReportSubscriptionsService } from './report-subscriptions.service.js';
+
+/**
+ * How long a claimed subscription stays locked to this instance (ms). Bounds
+ * how late a report is when a replica dies mid-delivery.
+ */
+export const DELIVERY_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * Subscriptions claimed per tick
+ */
+export const DELIVERY_BATCH_SIZE = 10;
+
+/**
+ * Scheduler of report subscriptions
+ *
+ * Its runner claims the due subscriptions (see
+ * ReportSubscriptionsService.claimDue) and delivers them one by one. Failures
+ * are recorded and retried by the service; an inactive owner, or one whose
+ * role no longer allows the view, pauses the subscription.
+ */
+export class ReportScheduler {
+  readonly runner: LeaseRunner<ReportSubscription>;
+
+  constructor(
+    private service: Pick<ReportSubscriptionsService, 'claimDue' | 'getOwner' | 'recordSent' | 'recordFailure'>,
+    private reports: { build(subscription: ReportSubscription, owner: ReportOwner, now: Date): Promise<EmailMessage> },
+    private transport: EmailTransport,
+    intervalMs: number,
+    instanceId?: string
+  ) {
+    this.runner = new LeaseRunner({
+      name: 'Report scheduler',
+      errorType: 'report_scheduler_error',
+      intervalMs,
+      leaseMs: DELIVERY_LEASE_MS,
+      batchSize: DELIVERY_BATCH_SIZE,
+      claimDue: (...args) => this.service.claimDue(...args),
+      handle: async (subscription, instanceId, now) => (await this.deliver(subscription, instanceId, now) ? 1 : 0),
+    }, instanceId);
+  }
+
+  private async deliver(subscription: ReportSubscription, instanceId: string, now: Date): Promise<boolean> {
+    try {
+      const owner = await this.service.getOwner(subscription.ownerId);
+      if (!owner?.isActive) {
+        await this.service.recordFailure(subscription, instanceId, 'Owner account is inactive', now, { pause: true });
+        return false;
+      }
+
+      const message = await this.reports.build(subscription, owner, now);
+      await this.transport.send(message);
+    } catch (error) {
+      await this.recordFailure(subscription, instanceId, error, now);
+      return false;
+    }
+
+    // The report is out: failing to record it is not a delivery failure
+    // (retrying would send it twice)
+    try {
+      await this.service.recordSent(subscription, instanceId, now);
+    } catch (error) {
+      logger.error({ type: 'report_scheduler_error', err: error, subscriptionId: subscription.id }, 'Failed to record sent report');
+    }
+    return true;
+  }
+
+  private async recordFailure(subscription: ReportSubscription, instanceId: string, error: unknown, now: Date): Promise<void> {
+    const reason = error instanceof Error ? error.message : String(error);
+    logger.error({
+      type: 'report_delivery_error',
+      err: error,
+      subscriptionId: subscription.id,
+      attempt: subscription.failureCount + 1,
+    }, 'Failed to deliver report');
+
+    try {
+      // Retrying cannot fix a view outside the owner's data scope
+      await this.service.recordFailure(subscription, instanceId, reason, now, {
+        pause: error instanceof ForbiddenError,
+      });
+    } catch (recordError) {
+      // The lease expires and the delivery is retried by the next claim
+      logger.error({ type: 'report_scheduler_error', err: recordError, subscriptionId: subscription.id }, 'Failed to record report delivery failure');
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { Type, type Static } from '@sinclair/typebox';
+import { GroupByPathSchema, OrderDirectionSchema } from '../list/list.schemas.js';
+import { DatePresetSchema } from '../../core/utils/date-presets.js';
+
+/**
+ * TypeBox schemas for scheduled report subscriptions
+ */
+
+const FrequencySchema = Type.Union(
+  [Type.Literal('daily'), Type.Literal('weekly'), Type.Literal('monthly')],
+  { description: 'daily, weekly (Mondays) or monthly (on the 1st)' }
+);
+
+const HourSchema = Type.Integer({ minimum: 0, maximum: 23, description: 'Delivery hour (UTC). Default: 11 (6:00 in Colombia)' });
+
+/**
+ * Saved list view: what /list/export would be asked for, with the dates
+ * resolved from the preset on every run
+ */
+export const ReportSubscriptionViewSchema = Type.Object({
+  groupBy: GroupByPathSchema,
+  preset: DatePresetSchema,
+  filters: Type.Optional(Type.Record(
+    Type.String({ pattern: '^[A-Za-z_][A-Za-z0-9_]*$' }),
+    Type.String({ minLength: 1 }),
+    { description: 'Dimension filters, as in the list query (comma-separated values)' }
+  )),
+  orderBy: Type.Optional(Type.String({ pattern: '^[A-Za-z_][A-Za-z0-9_]*$' })),
+  orderDirection: Type.Optional(OrderDirectionSchema),
+  metrics: Type.Optional(Type.String({ description: 'Comma-separated custom metric keys' })),
+}, { additionalProperties: false });
+
+export type ReportSubscriptionView = Static<typeof ReportSubscriptionViewSchema>;
+
+/**
+ * Report subscription response schema
+ */
+export const ReportSubscriptionSchema = Type.Object({
+  id: Type.String(),
+  name: Type.String(),
+  view: ReportSubscriptionViewSchema,
+  frequency: FrequencySchema,
+  hour: HourSchema,
+  active: Type.Boolean(),
+  nextRunAt: Type.String(),
+  lastSentAt: Type.Union([Type.String(), Type.Null()]),
+  lastError: Type.Union([Type.String(), Type.Null()], { description: 'Error of the last failed attempt' }),
+  failureCount: Type.Integer({ description: 'Failed attempts of the pending delivery' }),
+  createdAt: Type.String(),
+  updatedAt: Type.String(),
+});
+
+/**
+ * Create report subscription body schema
+ */
+export const CreateReportSubscriptionBodySchema = Type.Object({
+  name: Type.String({ minLength: 1, maxLength: 100, description: 'Report title (email subject and sheet title)' }),
+  view: ReportSubscriptionViewSchema,
+  frequency: FrequencySchema,
+  hour: Type.Optional(HourSchema),
+});
+
+export type CreateReportSubscriptionBody = Static<typeof CreateReportSubscriptionBodySchema>;
+
+/**
+ * Update report subscription body schema
+ */
+export const UpdateReportSubscriptionBodySchema = Type.Object({
+  name: Type.Optional(Type.String({ minLength: 1, maxLength: 100 })),
+  view: Type.Optional(ReportSubscriptionViewSchema),
+  frequency: Type.Optional(FrequencySchema),
+  hour: Type.Optional(HourSchema),
+  active: Type.Optional(Type.Boolean({ description: 'Pause or resume the deliveries' })),
+});
+
+export type UpdateReportSubscriptionBody = Static<typeof UpdateReportSubscriptionBodySchema>;
+
+export const ReportSubscriptionParamsSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+/**
+ * Delivery attempt response schema
+ */
+export const ReportDeliverySchema = Type.Object({
+  id: Type.String(),
+  status: Type.Union([Type.Literal('sent'), Type.Literal('failed')]),
+  attempt: Type.Integer(),
+  error: Type.Union([Type.String(), Type.Null()]),
+  createdAt: Type.String(),
+});
+
+export const UnsubscribeQuerySchema = Type.Object({
+  token: Type.String({ minLength: 1 }),
+});
@@ -0,0 +1,359 @@
+import { randomBytes } from 'crypto';
+import { and, asc, desc, eq, inArray, isNull, lt, lte, or } from 'drizzle-orm';
+import { db } from '../../core/db/postgres/client.js';
+import {
+  reportDeliveries,
+  reportSubscriptions,
+  users,
+  type ReportDelivery,
+  type ReportSubscription,
+} from '../../core/db/postgres/schema.js';
+import { ValidationError } from '../../core/errors/app-error.js';
+import { resolveUserDataScope } from '../../core/middleware/data-scope.js';
+import { isReservedParam, parseDynamicFilters } from '../../core/utils/filter-parser.js';
+import { parseCustomMetricKeys } from '../../core/metrics/custom-metric.js';
+import { parseGroupByDimensions } from '../list/list.schemas.js';
+import { CustomMetricsService } from '../custom-metrics/custom-metrics.service.js';
+import { DEFAULT_DELIVERY_HOUR, nextRunAt, retryAt } from './report-subscriptions.schedule.js';
+import type {
+  CreateReportSubscriptionBody,
+  ReportSubscriptionView,
+  UpdateReportSubscriptionBody,
+} from './report-subscriptions.schemas.js';
+
+/**
+ * Session user fields needed to validate a subscription's view
+ */
+export interface ReportSubscriptionUser {
+  id: string;
+  dynaRole?: string | null | undefined;
+}
+
+/**
+ * Owner of a subscription, as needed to build and deliver its report
+ */
+export interface ReportOwner {
+  id: string;
+  email: string;
+  isActive: boolean;
+  dynaRole: string | null;
+}
+
+/**
+ * Report subscription as returned by the API (the unsubscribe token and the
+ * scheduler lease are not exposed)
+ */
+export interface ReportSubscriptionResponse {
+  id: string;
+  name: string;
+  view: ReportSubscriptionView;
+  frequency: ReportSubscription['frequency'];
+  hour: number;
+  active: boolean;
+  nextRunAt: Date;
+  lastSentAt: Date | null;
+  lastError: string | null;
+  failureCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ReportDeliveryResponse = Pick<ReportDelivery, 'id' | 'status' | 'attempt' | 'error' | 'createdAt'>;
+
+/**
+ * Delivery attempts returned by the history endpoint
+ */
+const DELIVERY_HISTORY_LIMIT = 50;
+
+/**
+ * Report subscriptions service - Saved list views emailed to their owner on a
+ * schedule (`report_subscription`), and the claim/record operations of the
+ * scheduler (see report-subscriptions.scheduler.ts)
+ */
+export class ReportSubscriptionsService {
+  private customMetricsService = new CustomMetricsService();
+
+  /**
+   * Own subscriptions, ordered by name
+   */
+  async list(user: ReportSubscriptionUser): Promise<ReportSubscriptionResponse[]> {
+    const rows = await db
+      .select()
+      .from(reportSubscriptions)
+      .where(eq(reportSubscriptions.ownerId, user.id))
+      .orderBy(asc(reportSubscriptions.name));
+
+    return rows.map(toResponse);
+  }
+
+  /**
+   * Subscribe the user to a view
+   *
+   * @throws ValidationError if the view is invalid
+   * @throws ForbiddenError if the view filters override the user's data scope
+   */
+  async create(user: ReportSubscriptionUser, data: CreateReportSubscriptionBody): Promise<ReportSubscriptionResponse> {
+    await this.validateView(user, data.view);
+    const hour = data.hour ?? DEFAULT_DELIVERY_HOUR;
+
+    const [created] = await db
+      .insert(reportSubscriptions)
+      .values({
+        ownerId: user.id,
+        name: data.name,
+        view: data.view,
+        frequency: data.frequency,
+        hour,
+        unsubscribeToken: randomBytes(24).toString('base64url'),
+        nextRunAt: nextRunAt(data.frequency, hour, new Date()),
+      })
+      .returning();
+
+    if (!created) {
+      throw new Error('Failed to create report subscription');
+    }
+
+    return toResponse(created);
+  }
+
+  /**
+   * Update a subscription owned by the user. A new schedule, or resuming a
+   * paused subscription, restarts it from the next scheduled run.
+   *
+   * @returns The subscription, or null if it does not exist or belongs to someone else
+   * @throws ValidationError if the new view is invalid
+   */
+  async update(
+    user: ReportSubscriptionUser,
+    id: string,
+    data: UpdateReportSubscriptionBody
+  ): Promise<ReportSubscriptionResponse | null> {
+    const [current] = await db
+      .select()
+      .from(reportSubscriptions)
+      .where(and(eq(reportSubscriptions.id, id), eq(reportSubscriptions.ownerId, user.id)))
+      .limit(1);
+
+    if (!current) return null;
+
+    if (data.view !== undefined) {
+      await this.validateView(user, data.view);
+    }
+
+    const frequency = data.frequency ?? current.frequency;
+    const hour = data.hour ?? current.hour;
+    const reschedule = frequency !== current.frequency
+      || hour !== current.hour
+      || (data.active === true && !current.active);
+
+    const [updated] = await db
+      .update(reportSubscriptions)
+      .set({
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.view !== undefined && { view: data.view }),
+        ...(data.active !== undefined && { active: data.active }),
+        frequency,
+        hour,
+        ...(reschedule && { nextRunAt: nextRunAt(frequency, hour, new Date()), failureCount: 0 }),
+        updatedAt: new Date(),
+      })
+      .where(eq(reportSubscriptions.id, id))
+      .returning();
+
+    return updated ? toResponse(updated) : null;
+  }
+
+  /**
+   * Delete a subscription owned by the user (and its delivery history)
+   */
+  async delete(user: ReportSubscriptionUser, id: string): Promise<boolean> {
+    const result = await db
+      .delete(reportSubscriptions)
+      .where(and(eq(reportSubscriptions.id, id), eq(reportSubscriptions.ownerId, user.id)))
+      .returning();
+    return result.length > 0;
+  }
+
+  /**
+   * Latest delivery attempts of a subscription owned by the user, newest first
+   *
+   * @returns The attempts, or null if the subscription does not exist or belongs to someone else
+   */
+  async listDeliveries(user: ReportSubscriptionUser, id: string): Promise<ReportDeliveryResponse[] | null> {
+    const [subscription] = await db
+      .select({ id: reportSubscriptions.id })
+      .from(reportSubscriptions)
+      .where(and(eq(reportSubscriptions.id, id), eq(reportSubscriptions.ownerId, user.id)))
+      .limit(1);
+
+    if (!subscription) return null;
+
+    return db
+      .select({
+        id: reportDeliveries.id,
+        status: reportDeliveries.status,
+        attempt: reportDeliveries.attempt,
+        error: reportDeliveries.error,
+        createdAt: reportDeliveries.createdAt,
+      })
+      .from(reportDeliveries)
+      .where(eq(reportDeliveries.subscriptionId, id))
+      .orderBy(desc(reportDeliveries.createdAt))
+      .limit(DELIVERY_HISTORY_LIMIT);
+  }
+
+  /**
+   * Pause the subscription of an unsubscribe link
+   *
+   * @returns The subscription name, or null for an unknown token
+   */
+  async unsubscribe(token: string): Promise<string | null> {
+    const [updated] = await db
+      .update(reportSubscriptions)
+      .set({ active: false, updatedAt: new Date() })
+      .where(eq(reportSubscriptions.unsubscribeToken, token))
+      .returning({ name: reportSubscriptions.name });
+
+    return updated?.name ?? null;
+  }
+
+  /**
+   * Claim the due subscriptions for this instance
+   *
+   * Rows locked by another replica's claim are skipped, and a claimed row is
+   * leased until `now + leaseMs`: no other replica picks it up meanwhile.
+   */
+  async claimDue(instanceId: string, now: Date, leaseMs: number, limit: number): Promise<ReportSubscription[]> {
+    const due = db
+      .select({ id: reportSubscriptions.id })
+      .from(reportSubscriptions)
+      .where(and(
+        eq(reportSubscriptions.active, true),
+        lte(reportSubscriptions.nextRunAt, now),
+        or(isNull(reportSubscriptions.lockedUntil), lt(reportSubscriptions.lockedUntil, now))
+      ))
+      .orderBy(asc(reportSubscriptions.nextRunAt))
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return db
+      .update(reportSubscriptions)
+      .set({ lockedUntil: new Date(now.getTime() + leaseMs), lockedBy: instanceId })
+      .where(inArray(reportSubscriptions.id, due))
+      .returning();
+  }
+
+  /**
+   * Owner of a subscription (null if the user no longer exists)
+   */
+  async getOwner(ownerId: string): Promise<ReportOwner | null> {
+    const [owner] = await db
+      .select({ id: users.id, email: users.email, isActive: users.isActive, dynaRole: users.dynaRole })
+      .from(users)
+      .where(eq(users.id, ownerId))
+      .limit(1);
+
+    return owner ?? null;
+  }
+
+  /**
+   * Record a sent report: schedule the next run and release the lease, then
+   * log the delivery. The schedule goes first: once it has moved, a failure
+   * to log cannot get the report sent again.
+   */
+  async recordSent(subscription: ReportSubscription, instanceId: string, now: Date): Promise<void> {
+    await db
+      .update(reportSubscriptions)
+      .set({
+        nextRunAt: nextRunAt(subscription.frequency, subscription.hour, now),
+        lastSentAt: now,
+        lastError: null,
+        failureCount: 0,
+        lockedUntil: null,
+        lockedBy: null,
+      })
+      .where(leasedBy(subscription.id, instanceId));
+
+    await db.insert(reportDeliveries).values({
+      subscriptionId: subscription.id,
+      status: 'sent',
+      attempt: subscription.failureCount + 1,
+    });
+  }
+
+  /**
+   * Record a failed attempt: retry later, or give up until the next scheduled
+   * run after MAX_DELIVERY_ATTEMPTS. Releases the lease.
+   *
+   * @param options.pause - Deactivate the subscription instead of retrying
+   */
+  async recordFailure(
+    subscription: ReportSubscription,
+    instanceId: string,
+    error: string,
+    now: Date,
+    options: { pause?: boolean } = {}
+  ): Promise<void> {
+    const attempt = subscription.failureCount + 1;
+    const retry = options.pause ? null : retryAt(attempt, now);
+
+    await db.insert(reportDeliveries).values({
+      subscriptionId: subscription.id,
+      status: 'failed',
+      attempt,
+      error,
+    });
+
+    await db
+      .update(reportSubscriptions)
+      .set({
+        nextRunAt: retry ?? nextRunAt(subscription.frequency, subscription.hour, now),
+        lastError: error,
+        failureCount: retry ? attempt : 0,
+        ...(options.pause && { active: false }),
+        lockedUntil: null,
+        lockedBy: null,
+      })
+      .where(leasedBy(subscription.id, instanceId));
+  }
+
+  /**
+   * A view must be a valid list query within the user's data scope
+   */
+  private async validateView(user: ReportSubscriptionUser, view: ReportSubscriptionView): Promise<void> {
+    parseGroupByDimensions(view.groupBy);
+
+    const reserved = Object.keys(view.filters ?? {}).filter(isReservedParam);
+    if (reserved.length > 0) {
+      throw new ValidationError(`Not a filter: ${reserved.join(', ')}`);
+    }
+
+    await resolveUserDataScope(user, parseDynamicFilters(view.filters ?? {}));
+    await this.customMetricsService.resolveForQuery(user, parseCustomMetricKeys(view.metrics));
+  }
+}
+
+/**
+ * The subscription while this instance still holds its lease (a replica whose
+ * lease expired must not overwrite the newer claim)
+ */
+function leasedBy(id: string, instanceId: string) {
+  return and(eq(reportSubscriptions.id, id), eq(reportSubscriptions.lockedBy, instanceId));
+}
+
+function toResponse(row: ReportSubscription): ReportSubscriptionResponse {
+  return {
+    id: row.id,
+    name: row.name,
+    view: row.view,
+    frequency: row.frequency,
+    hour: row.hour,
+    active: row.active,
+    nextRunAt: row.nextRunAt,
+    lastSentAt: row.lastSentAt,
+    lastError: row.lastError,
+    failureCount: row.failureCount,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
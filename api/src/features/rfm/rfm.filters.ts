@@ -0,0 +1,97 @@
+import type { FilterCondition } from '../../core/db/clickhouse/query/filter-builder.js';
+import { sanitizeDateString } from '../../core/utils/sanitization.js';
+import { parseDynamicFilters, querystringParams } from '../../core/utils/filter-parser.js';
+import { ValidationError } from '../../core/errors/app-error.js';
+import type { RfmThresholds } from './rfm.query.js';
+import {
+  DEFAULT_FREQUENCY_THRESHOLDS,
+  DEFAULT_RECENCY_THRESHOLDS,
+  RfmCustomersQueryStringSchema,
+  RfmQueryStringSchema,
+  type RfmGroupBy,
+  type RfmMeta,
+  type RfmQueryString,
+  type RfmScoring,
+} from './rfm.schemas.js';
+
+// Params of the RFM querystrings (scoring, thresholds, segment...), never filters
+const RFM_PARAMS = querystringParams(RfmQueryStringSchema, RfmCustomersQueryStringSchema);
+
+/**
+ * Shared query-param parsing for the RFM endpoints (distribution and
+ * customer list)
+ */
+export interface ParsedRfmQuery {
+  startDate: string;
+  endDate: string;
+  groupBy?: RfmGroupBy | undefined;
+  scoring: RfmScoring;
+  thresholds: RfmThresholds | null;
+  /** Dynamic filters (the date bounds are part of the RFM query) */
+  filters: FilterCondition[];
+  meta: RfmMeta;
+}
+
+/**
+ * Cut points of a thresholds param ("30,90,180,365")
+ *
+ * @throws ValidationError unless strictly ascending
+ */
+function parseThresholds(name: string, value: string): number[] {
+  const cuts = value.split(',').map(Number);
+  if (cuts.some((cut, i) => i > 0 && cut <= cuts[i - 1]!)) {
+    throw new ValidationError(`${name} must be strictly ascending`);
+  }
+  return cuts;
+}
+
+/**
+ * @throws ValidationError for an inverted range, a groupId without groupBy,
+ *         thresholds with quintile scoring, threshold scoring without
+ *         monetaryThresholds, or cut points that are not ascending
+ */
+export function parseRfmQuery(query: RfmQueryString & { groupId?: string }): ParsedRfmQuery {
+  const startDate = sanitizeDateString(query.startDate);
+  const endDate = sanitizeDateString(query.endDate);
+  if (startDate > endDate) {
+    throw new ValidationError('startDate must not be after endDate');
+  }
+  if (query.groupId !== undefined && !query.groupBy) {
+    throw new ValidationError('groupId requires groupBy');
+  }
+
+  const scoring = query.scoring ?? 'quintile';
+  let thresholds: RfmThresholds | null = null;
+  if (scoring === 'threshold') {
+    if (!query.monetaryThresholds) {
+      throw new ValidationError('scoring=threshold requires monetaryThresholds');
+    }
+    thresholds = {
+      recency: query.recencyThresholds
+        ? parseThresholds('recencyThresholds', query.recencyThresholds)
+        : DEFAULT_RECENCY_THRESHOLDS,
+      frequency: query.frequencyThresholds
+        ? parseThresholds('frequencyThresholds', query.frequencyThresholds)
+        : DEFAULT_FREQUENCY_THRESHOLDS,
+      monetary: parseThresholds('monetaryThresholds', query.monetaryThresholds),
+    };
+  } else if (query.recencyThresholds ?? query.frequencyThresholds ?? query.monetaryThresholds) {
+    throw new ValidationError('Thresholds require scoring=threshold');
+  }
+
+  return {
+    startDate,
+    endDate,
+    groupBy: query.groupBy,
+    scoring,
+    thresholds,
+    filters: parseDynamicFilters(query as Record<string, unknown>, RFM_PARAMS),
+    meta: {
+      startDate,
+      endDate,
+      scoring,
+      thresholds,
+      groupBy: query.groupBy ?? null,
+    },
+  };
+}
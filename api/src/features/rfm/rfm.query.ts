@@ -0,0 +1,301 @@
+import { getFieldPair } from '../../core/config/dimension-fields.config.js';
+import { FilterBuilder, type FilterCondition } from '../../core/db/clickhouse/query/filter-builder.js';
+import { sanitizeFieldName } from '../../core/utils/sanitization.js';
+import type { RfmGroupBy, RfmScoring, RfmSegment } from './rfm.schemas.js';
+
+/**
+ * Fixed cut points of the threshold scoring (four ascending values each)
+ * - recency: max days since the last purchase for scores 5, 4, 3 and 2
+ * - frequency / monetary: min orders / sales for scores 2, 3, 4 and 5
+ */
+export interface RfmThresholds {
+  recency: number[];
+  frequency: number[];
+  monetary: number[];
+}
+
+export interface RfmBaseParams {
+  startDate: string;
+  endDate: string;
+  groupBy?: RfmGroupBy | undefined;
+  scoring: RfmScoring;
+  /** Required for threshold scoring */
+  thresholds: RfmThresholds | null;
+  filters: FilterCondition[];
+  /** Mandatory data-scope conditions (role policy) */
+  scopeFilters: FilterCondition[];
+}
+
+export interface RfmCustomersQueryParams extends RfmBaseParams {
+  segment?: RfmSegment | undefined;
+  groupId?: string | undefined;
+  search?: string | undefined;
+  orderBy: 'monetary' | 'frequency' | 'recency_days' | 'score' | 'customer_name';
+  orderDirection: 'asc' | 'desc';
+  limit?: number | undefined;
+  offset?: number | undefined;
+}
+
+/**
+ * Score (1-5) of a dimension by rank among the customers: ties share a
+ * score, so a dominant value (e.g. a single order) lands in one quintile
+ */
+function quintile(orderBy: string): string {
+  return `toUInt8(1 + intDiv((rank() OVER (ORDER BY ${orderBy}) - 1) * 5, count() OVER ()))`;
+}
+
+/**
+ * Score (1-5) of a dimension against four ascending cut points
+ */
+function threshold(field: string, param: string, descending: boolean): string {
+  const cuts = [1, 2, 3, 4].map((i) => `{${param}${i}:Float64}`);
+  const branches = descending
+    // recency: lower is better
+    ? cuts.map((cut, i) => `${field} <= ${cut}, ${5 - i}`)
+    : cuts.reverse().map((cut, i) => `${field} >= ${cut}, ${5 - i}`);
+  return `toUInt8(multiIf(${branches.join(', ')}, 1))`;
+}
+
+/**
+ * Named segment from the R score and the FM score (mean of F and M, halves
+ * rounded up). Order matters: the first matching branch wins.
+ */
+const SEGMENT_SQL = `multiIf(
+            r_score = 5 AND fm_score >= 4, 'champions',
+            r_score = 5 AND fm_score = 1, 'new_customers',
+            r_score >= 4 AND fm_score >= 2 AND fm_score <= 3, 'potential_loyalists',
+            r_score = 4 AND fm_score = 1, 'promising',
+            r_score >= 3 AND fm_score >= 4, 'loyal',
+            r_score = 3 AND fm_score = 3, 'need_attention',
+            r_score = 3, 'about_to_sleep',
+            fm_score = 5, 'cant_lose',
+            fm_score >= 3, 'at_risk',
+            'hibernating'
+          )`;
+
+/**
+ * Shared CTEs: one row per customer with its RFM metrics, scores and
+ * segment (and its main group: the groupBy value it bought the most in).
+ */
+function buildScoredCTEs(params: RfmBaseParams): {
+  ctes: string;
+  queryParams: Record<string, string | string[]>;
+  grouped: boolean;
+} {
+  const { startDate, endDate, groupBy, scoring, thresholds, filters, scopeFilters } = params;
+
+  const filterBuilder = new FilterBuilder();
+  const queryParams: Record<string, string | string[]> = { start: startDate, end: endDate };
+  const where = filterBuilder.buildWhereClause([...filters, ...scopeFilters], queryParams, 'f');
+  const periodWhere = `WHERE date >= {start:Date} AND date <= {end:Date} AND cid != ''${where ? ` AND ${where.replace(/^WHERE /, '')}` : ''}`;
+
+  const tablePrefix = process.env['TABLE_PREFIX'] ?? '';
+  const table = `${tablePrefix}transactions`;
+
+  let scores: string;
+  if (scoring === 'threshold') {
+    if (!thresholds) {
+      throw new Error('Threshold scoring requires thresholds');
+    }
+    thresholds.recency.forEach((value, i) => { queryParams[`r${i + 1}`] = String(value); });
+    thresholds.frequency.forEach((value, i) => { queryParams[`f${i + 1}`] = String(value); });
+    thresholds.monetary.forEach((value, i) => { queryParams[`m${i + 1}`] = String(value); });
+    scores = `
+          ${threshold('recency_days', 'r', true)} AS r_score,
+          ${threshold('frequency', 'f', false)} AS f_score,
+          ${threshold('monetary', 'm', false)} AS m_score`;
+  } else {
+    scores = `
+          ${quintile('recency_days DESC')} AS r_score,
+          ${quintile('frequency ASC')} AS f_score,
+          ${quintile('monetary ASC')} AS m_score`;
+  }
+
+  let groupCTE = '';
+  if (groupBy) {
+    const groupField = sanitizeFieldName(groupBy);
+    const nameField = sanitizeFieldName(getFieldPair(groupField).nameField);
+    groupCTE = `
+      customer_groups AS (
+        SELECT
+          cid,
+          argMax(group_id, group_sales) AS group_id,
+          argMax(group_name, group_sales) AS group_name
+        FROM (
+          SELECT
+            trimBoth(customer_id) AS cid,
+            trimBoth(toString(${groupField})) AS group_id,
+            any(trimBoth(toString(${nameField}))) AS group_name,
+            sum(sales_price) AS group_sales
+          FROM ${table}
+          ${periodWhere}
+          GROUP BY cid, group_id
+        )
+        GROUP BY cid
+      ),
+`;
+  }
+
+  const ctes = `
+    WITH
+${groupCTE}
+      customer_metrics AS (
+        SELECT
+          trimBoth(customer_id) AS cid,
+          any(trimBoth(customer_name)) AS customer_name,
+          max(date) AS last_purchase,
+          dateDiff('day', last_purchase, {end:Date}) AS recency_days,
+          uniqExact(Pedido) AS frequency,
+          sum(sales_price) AS monetary,
+          sum(sales_price) - sum(cost_price) AS gross_margin
+        FROM ${table}
+        ${periodWhere}
+        GROUP BY cid
+      ),
+
+      ranked AS (
+        SELECT
+          m.*,${groupBy ? `
+          g.group_id AS group_id,
+          g.group_name AS group_name,` : ''}
+          ${scores.trim()}
+        FROM customer_metrics AS m${groupBy ? `
+        LEFT JOIN customer_groups AS g ON g.cid = m.cid` : ''}
+      ),
+
+      scored AS (
+        SELECT
+          *,
+          toUInt8(intDiv(f_score + m_score + 1, 2)) AS fm_score,
+          ${SEGMENT_SQL} AS segment
+        FROM ranked
+      )
+  `;
+
+  return { ctes, queryParams, grouped: Boolean(groupBy) };
+}
+
+/**
+ * Customers, sales and average RFM metrics per segment (per group and
+ * segment with a groupBy)
+ */
+export function buildRfmDistributionQuery(params: RfmBaseParams): {
+  query: string;
+  queryParams: Record<string, string | string[]>;
+} {
+  const { ctes, queryParams, grouped } = buildScoredCTEs(params);
+
+  const query = `
+    ${ctes}
+
+    SELECT
+      ${grouped ? 'group_id, any(group_name) AS group_name,' : ''}
+      segment,
+      count() AS customers,
+      sum(monetary) AS sales,
+      sum(gross_margin) AS gross_margin,
+      avg(recency_days) AS avg_recency_days,
+      avg(frequency) AS avg_frequency,
+      avg(monetary) AS avg_monetary
+    FROM scored
+    GROUP BY ${grouped ? 'group_id, ' : ''}segment
+  `;
+
+  return { query, queryParams };
+}
+
+/**
+ * WHERE conditions of the customer list
+ */
+function customerConditions(
+  params: Pick<RfmCustomersQueryParams, 'segment' | 'groupId' | 'search'>,
+  queryParams: Record<string, string | string[]>,
+  grouped: boolean
+): string {
+  const conditions: string[] = [];
+
+  if (params.segment) {
+    queryParams['segment'] = params.segment;
+    conditions.push('segment = {segment:String}');
+  }
+  if (params.groupId !== undefined && grouped) {
+    queryParams['group_id'] = params.groupId;
+    conditions.push('group_id = {group_id:String}');
+  }
+  const search = params.search?.trim();
+  if (search) {
+    queryParams['search'] = search;
+    conditions.push('(positionCaseInsensitiveUTF8(cid, {search:String}) > 0 OR positionCaseInsensitiveUTF8(customer_name, {search:String}) > 0)');
+  }
+
+  return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+}
+
+const ORDER_BY_SQL: Record<RfmCustomersQueryParams['orderBy'], (direction: string) => string> = {
+  monetary: (dir) => `monetary ${dir}`,
+  frequency: (dir) => `frequency ${dir}`,
+  recency_days: (dir) => `recency_days ${dir}`,
+  score: (dir) => `r_score ${dir}, f_score ${dir}, m_score ${dir}`,
+  customer_name: (dir) => `customer_name ${dir}`,
+};
+
+/**
+ * Customers with their RFM metrics, scores and segment
+ */
+export function buildRfmCustomersQuery(params: RfmCustomersQueryParams): {
+  query: string;
+  queryParams: Record<string, string | string[]>;
+} {
+  const { ctes, queryParams, grouped } = buildScoredCTEs(params);
+  const where = customerConditions(params, queryParams, grouped);
+
+  const pagination = [
+    params.limit !== undefined ? `LIMIT ${params.limit}` : '',
+    params.offset ? `OFFSET ${params.offset}` : '',
+  ].filter(Boolean).join(' ');
+
+  const query = `
+    ${ctes}
+
+    SELECT
+      cid AS customer_id,
+      customer_name,
+      ${grouped ? 'group_id, group_name' : 'NULL AS group_id, NULL AS group_name'},
+      toString(toDate(last_purchase)) AS last_purchase,
+      recency_days,
+      frequency,
+      monetary,
+      r_score,
+      f_score,
+      m_score,
+      concat(toString(r_score), toString(f_score), toString(m_score)) AS score,
+      segment
+    FROM scored
+    ${where}
+    ORDER BY ${ORDER_BY_SQL[params.orderBy](params.orderDirection === 'asc' ? 'ASC' : 'DESC')}, customer_id ASC
+    ${pagination}
+  `;
+
+  return { query, queryParams };
+}
+
+/**
+ * Number of customers listed by buildRfmCustomersQuery (without pagination)
+ */
+export function buildRfmCustomersCountQuery(params: RfmCustomersQueryParams): {
+  query: string;
+  queryParams: Record<string, string | string[]>;
+} {
+  const { ctes, queryParams, grouped } = buildScoredCTEs(params);
+  const where = customerConditions(params, queryParams, grouped);
+
+  const query = `
+    ${ctes}
+
+    SELECT count() AS total
+    FROM scored
+    ${where}
+  `;
+
+  return { query, queryParams };
+}
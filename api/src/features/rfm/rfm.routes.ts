@@ -0,0 +1,108 @@
+import type { FastifyInstance } from 'fastify';
+import type { TypeBoxTypeProvider } from '@fastify/type-provider-typebox';
+import type { DatabaseClient } from '../../core/db/clickhouse/client.js';
+import { queryCacheFor } from '../../core/cache/query-cache.js';
+import { RfmService } from './rfm.service.js';
+import { parseRfmQuery } from './rfm.filters.js';
+import {
+  RfmQueryStringSchema,
+  RfmDistributionResponseSchema,
+  RfmCustomersQueryStringSchema,
+  RfmCustomersResponseSchema,
+} from './rfm.schemas.js';
+import { authenticate } from '../../core/middleware/authenticate.js';
+import { resolveDataScope } from '../../core/middleware/data-scope.js';
+
+/**
+ * Register the RFM segmentation routes.
+ *
+ * Customers are scored 1-5 on recency, frequency and monetary value over the
+ * period (by quintile or fixed thresholds) and named after their scores
+ * (champions, loyal, at risk, hibernating...). Dynamic filters and the data
+ * scope restrict the transactions the scores are computed from.
+ */
+export function rfmRoutes(
+  fastify: FastifyInstance,
+  dbClient: DatabaseClient
+): void {
+  const server = fastify.withTypeProvider<TypeBoxTypeProvider>();
+  const service = new RfmService(dbClient.getClient(), queryCacheFor(fastify, 'rfm'));
+
+  /**
+   * GET /rfm
+   * Customers, sales and average R/F/M per segment, overall and per groupBy value
+   *
+   * Examples:
+   * - /rfm?startDate=2025-01-01&endDate=2025-12-31
+   * - /rfm?startDate=2025-01-01&endDate=2025-12-31&groupBy=seller_id&IdRegional=CENTRO
+   * - /rfm?startDate=2025-01-01&endDate=2025-12-31&scoring=threshold&monetaryThresholds=1000000,5000000,20000000,50000000
+   */
+  server.get(
+    '/rfm',
+    {
+      preHandler: [authenticate, resolveDataScope],
+      schema: {
+        description: 'RFM segment distribution: customers, sales and average recency/frequency/monetary per segment, overall and per groupBy value (IdRegional or seller_id).',
+        tags: ['rfm'],
+        querystring: RfmQueryStringSchema,
+        response: {
+          200: RfmDistributionResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { meta, ...parsed } = parseRfmQuery(request.query);
+
+      const data = await service.getDistribution({
+        ...parsed,
+        scopeFilters: request.dataScope ?? [],
+        cacheStats: request.queryCacheStats,
+      });
+
+      return reply.code(200).send({ data, meta });
+    }
+  );
+
+  /**
+   * GET /rfm/customers
+   * Per-customer RFM metrics, scores and segment, paginated
+   */
+  server.get(
+    '/rfm/customers',
+    {
+      preHandler: [authenticate, resolveDataScope],
+      schema: {
+        description: 'Customers with their RFM metrics, scores and segment. Filter by segment and groupBy + groupId to drill into the distribution.',
+        tags: ['rfm'],
+        querystring: RfmCustomersQueryStringSchema,
+        response: {
+          200: RfmCustomersResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const query = request.query;
+      const { meta, ...parsed } = parseRfmQuery(query);
+      const page = query.page ?? 1;
+      const limit = query.limit ?? 50;
+
+      const { rows, total } = await service.getCustomers({
+        ...parsed,
+        segment: query.segment,
+        groupId: query.groupId,
+        search: query.search,
+        orderBy: query.orderBy ?? 'monetary',
+        orderDirection: query.orderDirection ?? 'desc',
+        limit,
+        offset: (page - 1) * limit,
+        scopeFilters: request.dataScope ?? [],
+        cacheStats: request.queryCacheStats,
+      });
+
+      return reply.code(200).send({
+        data: rows,
+        meta: { ...meta, total, page, limit, totalPages: Math.ceil(total / limit) },
+      });
+    }
+  );
+}
@@ -0,0 +1,211 @@
+import { Type, type Static } from '@sinclair/typebox';
+import { DateStringSchema } from '../../core/schemas/common.schemas.js';
+import { OrderDirectionSchema } from '../list/list.schemas.js';
+
+/**
+ * TypeBox schemas and types for the RFM (recency, frequency, monetary)
+ * customer segmentation endpoints
+ */
+
+/**
+ * Named RFM segments, from the R score and the FM score (mean of the F and
+ * M scores, halves rounded up):
+ * - R 5: champions (FM 4-5), potential_loyalists (FM 2-3), new_customers (FM 1)
+ * - R 4: loyal (FM 4-5), potential_loyalists (FM 2-3), promising (FM 1)
+ * - R 3: loyal (FM 4-5), need_attention (FM 3), about_to_sleep (FM 1-2)
+ * - R 1-2: cant_lose (FM 5), at_risk (FM 3-4), hibernating (FM 1-2)
+ */
+export const RFM_SEGMENTS = [
+  'champions',
+  'loyal',
+  'potential_loyalists',
+  'new_customers',
+  'promising',
+  'need_attention',
+  'about_to_sleep',
+  'at_risk',
+  'cant_lose',
+  'hibernating',
+] as const;
+
+export type RfmSegment = (typeof RFM_SEGMENTS)[number];
+
+export const RfmSegmentSchema = Type.Union([
+  Type.Literal('champions'),
+  Type.Literal('loyal'),
+  Type.Literal('potential_loyalists'),
+  Type.Literal('new_customers'),
+  Type.Literal('promising'),
+  Type.Literal('need_attention'),
+  Type.Literal('about_to_sleep'),
+  Type.Literal('at_risk'),
+  Type.Literal('cant_lose'),
+  Type.Literal('hibernating'),
+]);
+
+/**
+ * Scoring of each dimension (1-5)
+ * - quintile: rank of the customer among the period's customers (ties share a score)
+ * - threshold: fixed cut points (recencyThresholds, frequencyThresholds, monetaryThresholds)
+ */
+export const RfmScoringSchema = Type.Union([Type.Literal('quintile'), Type.Literal('threshold')], {
+  default: 'quintile',
+  description: 'quintile (rank among the customers) or threshold (fixed cut points)',
+});
+
+export type RfmScoring = Static<typeof RfmScoringSchema>;
+
+/**
+ * Dimensions the RFM distribution can be grouped by (a customer counts in
+ * the group where it bought the most)
+ */
+export const RfmGroupBySchema = Type.Union([Type.Literal('IdRegional'), Type.Literal('seller_id')], {
+  description: 'Break the distribution down by regional or seller (the customer\'s main one in the period)',
+});
+
+export type RfmGroupBy = Static<typeof RfmGroupBySchema>;
+
+/**
+ * Default cut points of the threshold scoring (monetary has no default: it
+ * depends on the channel's ticket size)
+ */
+export const DEFAULT_RECENCY_THRESHOLDS = [30, 90, 180, 365];
+export const DEFAULT_FREQUENCY_THRESHOLDS = [2, 3, 5, 10];
+
+/** Four ascending cut points, comma separated (e.g. "30,90,180,365") */
+const ThresholdsSchema = (description: string) => Type.String({
+  pattern: '^\\d+(\\.\\d+)?(,\\d+(\\.\\d+)?){3}$',
+  description,
+});
+
+/**
+ * Parameters shared by the distribution and the customer list
+ * (accepts dynamic filters, like /qube6)
+ */
+const RfmBaseProperties = {
+  startDate: DateStringSchema,
+  endDate: DateStringSchema,
+  groupBy: Type.Optional(RfmGroupBySchema),
+  scoring: Type.Optional(RfmScoringSchema),
+  recencyThresholds: Type.Optional(ThresholdsSchema(
+    `threshold scoring: days since the last purchase for scores 5,4,3,2 (older scores 1). Default ${DEFAULT_RECENCY_THRESHOLDS.join(',')}`
+  )),
+  frequencyThresholds: Type.Optional(ThresholdsSchema(
+    `threshold scoring: minimum orders for scores 2,3,4,5. Default ${DEFAULT_FREQUENCY_THRESHOLDS.join(',')}`
+  )),
+  monetaryThresholds: Type.Optional(ThresholdsSchema(
+    'threshold scoring: minimum sales for scores 2,3,4,5 (required with scoring=threshold)'
+  )),
+};
+
+export const RfmQueryStringSchema = Type.Object(RfmBaseProperties, {
+  additionalProperties: true,
+  description: 'RFM segment distribution. Accepts dynamic filters beyond defined params.',
+});
+
+export type RfmQueryString = Static<typeof RfmQueryStringSchema>;
+
+export const RfmCustomersQueryStringSchema = Type.Object(
+  {
+    ...RfmBaseProperties,
+    segment: Type.Optional(RfmSegmentSchema),
+    groupId: Type.Optional(Type.String({ description: 'Only customers of this groupBy value (requires groupBy)' })),
+    search: Type.Optional(Type.String({ maxLength: 100, description: 'Case-insensitive substring search on the customer id/name' })),
+    orderBy: Type.Optional(Type.Union([
+      Type.Literal('monetary'),
+      Type.Literal('frequency'),
+      Type.Literal('recency_days'),
+      Type.Literal('score'),
+      Type.Literal('customer_name'),
+    ], { default: 'monetary', description: 'Sort field (default monetary)' })),
+    orderDirection: Type.Optional(OrderDirectionSchema),
+    page: Type.Optional(Type.Integer({ minimum: 1, default: 1, description: 'Page number (1-indexed)' })),
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 200, default: 50, description: 'Customers per page (max 200)' })),
+  },
+  {
+    additionalProperties: true,
+    description: 'Per-customer RFM scores. Accepts dynamic filters beyond defined params.',
+  }
+);
+
+export type RfmCustomersQueryString = Static<typeof RfmCustomersQueryStringSchema>;
+
+/**
+ * Customers of one segment and their totals
+ */
+const RfmSegmentItemSchema = Type.Object({
+  segment: RfmSegmentSchema,
+  count: Type.Number({ description: 'Number of customers in this segment' }),
+  sales: Type.Number({ description: 'Total sales of the customers in this segment' }),
+  gross_margin: Type.Number({ description: 'Total gross margin of the customers in this segment' }),
+  avg_recency_days: Type.Number(),
+  avg_frequency: Type.Number(),
+  avg_monetary: Type.Number(),
+});
+
+export type RfmSegmentItem = Static<typeof RfmSegmentItemSchema>;
+
+const RfmMetaSchema = Type.Object({
+  startDate: Type.String(),
+  endDate: Type.String(),
+  scoring: RfmScoringSchema,
+  /** Cut points in use (threshold scoring only) */
+  thresholds: Type.Union([
+    Type.Object({
+      recency: Type.Array(Type.Number()),
+      frequency: Type.Array(Type.Number()),
+      monetary: Type.Array(Type.Number()),
+    }),
+    Type.Null(),
+  ]),
+  groupBy: Type.Union([RfmGroupBySchema, Type.Null()]),
+});
+
+export type RfmMeta = Static<typeof RfmMetaSchema>;
+
+export const RfmDistributionResponseSchema = Type.Object({
+  data: Type.Object({
+    segments: Type.Array(RfmSegmentItemSchema, { description: 'Segments with customers, in RFM_SEGMENTS order' }),
+    groups: Type.Array(Type.Object({
+      id: Type.String(),
+      name: Type.String(),
+      segments: Type.Array(RfmSegmentItemSchema),
+    }), { description: 'Per groupBy value, largest first (empty without groupBy)' }),
+  }),
+  meta: RfmMetaSchema,
+});
+
+export type RfmDistributionResponse = Static<typeof RfmDistributionResponseSchema>;
+
+export const RfmCustomerSchema = Type.Object({
+  customer_id: Type.String(),
+  customer_name: Type.String(),
+  group_id: Type.Union([Type.String(), Type.Null()]),
+  group_name: Type.Union([Type.String(), Type.Null()]),
+  last_purchase: Type.String(),
+  recency_days: Type.Integer({ description: 'Days from the last purchase to endDate' }),
+  frequency: Type.Integer({ description: 'Distinct orders (Pedido) in the period' }),
+  monetary: Type.Number({ description: 'Sales in the period' }),
+  r_score: Type.Integer({ minimum: 1, maximum: 5 }),
+  f_score: Type.Integer({ minimum: 1, maximum: 5 }),
+  m_score: Type.Integer({ minimum: 1, maximum: 5 }),
+  score: Type.String({ description: 'R, F and M scores, e.g. "545"' }),
+  segment: RfmSegmentSchema,
+});
+
+export type RfmCustomer = Static<typeof RfmCustomerSchema>;
+
+export const RfmCustomersResponseSchema = Type.Object({
+  data: Type.Array(RfmCustomerSchema),
+  meta: Type.Composite([
+    RfmMetaSchema,
+    Type.Object({
+      total: Type.Integer(),
+      page: Type.Integer(),
+      limit: Type.Integer(),
+      totalPages: Type.Integer(),
+    }),
+  ]),
+});
+
+export type RfmCustomersResponse = Static<typeof RfmCustomersResponseSchema>;
@@ -0,0 +1,162 @@
+import type { ClickHouseClient } from '@clickhouse/client';
+import { runCachedQuery, type QueryCacheBinding, type QueryCacheStats } from '../../core/cache/query-cache.js';
+import {
+  buildRfmDistributionQuery,
+  buildRfmCustomersQuery,
+  buildRfmCustomersCountQuery,
+  type RfmBaseParams,
+  type RfmCustomersQueryParams,
+} from './rfm.query.js';
+import { RFM_SEGMENTS, type RfmCustomer, type RfmSegment, type RfmSegmentItem } from './rfm.schemas.js';
+
+interface RfmParams extends RfmBaseParams {
+  /** Request counters updated on query cache hits/misses. */
+  cacheStats?: QueryCacheStats | undefined;
+}
+
+type RfmCustomersParams = RfmParams & Omit<RfmCustomersQueryParams, keyof RfmBaseParams>;
+
+export interface RfmDistribution {
+  segments: RfmSegmentItem[];
+  groups: Array<{ id: string; name: string; segments: RfmSegmentItem[] }>;
+}
+
+type DistributionRow = {
+  group_id?: string;
+  group_name?: string;
+  segment: RfmSegment;
+  customers: number | string;
+  sales: number | string;
+  gross_margin: number | string;
+  avg_recency_days: number | string;
+  avg_frequency: number | string;
+  avg_monetary: number | string;
+};
+
+type CustomerRow = Omit<RfmCustomer, 'recency_days' | 'frequency' | 'monetary' | 'r_score' | 'f_score' | 'm_score'> & {
+  recency_days: number | string;
+  frequency: number | string;
+  monetary: number | string;
+  r_score: number | string;
+  f_score: number | string;
+  m_score: number | string;
+};
+
+/**
+ * RFM segmentation: customers scored 1-5 on recency (days since the last
+ * purchase), frequency (distinct orders) and monetary value (sales) over the
+ * period, and named after their R and FM scores (see RFM_SEGMENTS).
+ */
+export class RfmService {
+  constructor(
+    private client: ClickHouseClient,
+    private cache?: QueryCacheBinding
+  ) {}
+
+  /**
+   * Customers and sales per segment, overall and per groupBy value
+   */
+  async getDistribution({ cacheStats, ...params }: RfmParams): Promise<RfmDistribution> {
+    const run = (groupBy: RfmBaseParams['groupBy']) => {
+      const { query, queryParams } = buildRfmDistributionQuery({ ...params, groupBy });
+      return runCachedQuery<DistributionRow>(
+        this.client,
+        { kind: 'rfm-distribution', query, queryParams },
+        this.cache,
+        cacheStats
+      );
+    };
+
+    const [totalRows, groupRows] = await Promise.all([
+      run(undefined),
+      params.groupBy ? run(params.groupBy) : Promise.resolve([]),
+    ]);
+
+    const groups = new Map<string, { id: string; name: string; rows: DistributionRow[] }>();
+    for (const row of groupRows) {
+      const id = row.group_id ?? '';
+      let group = groups.get(id);
+      if (!group) {
+        group = { id, name: row.group_name?.length ? row.group_name : id, rows: [] };
+        groups.set(id, group);
+      }
+      group.rows.push(row);
+    }
+
+    return {
+      segments: toSegments(totalRows),
+      groups: [...groups.values()]
+        .map(({ id, name, rows }) => ({ id, name, segments: toSegments(rows) }))
+        .sort((a, b) => totalSales(b.segments) - totalSales(a.segments) || a.id.localeCompare(b.id)),
+    };
+  }
+
+  /**
+   * A page of scored customers and the total number of matching customers
+   */
+  async getCustomers({ cacheStats, ...params }: RfmCustomersParams): Promise<{ rows: RfmCustomer[]; total: number }> {
+    const list = buildRfmCustomersQuery(params);
+    const count = buildRfmCustomersCountQuery(params);
+
+    const [rows, totals] = await Promise.all([
+      runCachedQuery<CustomerRow>(
+        this.client,
+        { kind: 'rfm-customers', ...list },
+        this.cache,
+        cacheStats
+      ),
+      runCachedQuery<{ total: number | string }>(
+        this.client,
+        { kind: 'rfm-customers-count', ...count },
+        this.cache,
+        cacheStats
+      ),
+    ]);
+
+    return { rows: rows.map(toCustomer), total: Number(totals[0]?.total ?? 0) };
+  }
+}
+
+/**
+ * Segments with customers, in RFM_SEGMENTS order
+ */
+function toSegments(rows: DistributionRow[]): RfmSegmentItem[] {
+  const bySegment = new Map(rows.map((row) => [row.segment, row]));
+  const items: RfmSegmentItem[] = [];
+  for (const segment of RFM_SEGMENTS) {
+    const row = bySegment.get(segment);
+    if (!row) continue;
+    items.push({
+      segment,
+      count: Number(row.customers),
+      sales: Number(row.sales),
+      gross_margin: Number(row.gross_margin),
+      avg_recency_days: Number(row.avg_recency_days),
+      avg_frequency: Number(row.avg_frequency),
+      avg_monetary: Number(row.avg_monetary),
+    });
+  }
+  return items;
+}
+
+function totalSales(items: RfmSegmentItem[]): number {
+  return items.reduce((sum, item) => sum + item.sales, 0);
+}
+
+function toCustomer(row: CustomerRow): RfmCustomer {
+  return {
+    customer_id: row.customer_id,
+    customer_name: row.customer_name || row.customer_id,
+    group_id: row.group_id ?? null,
+    group_name: row.group_name ?? null,
+    last_purchase: row.last_purchase,
+    recency_days: Number(row.recency_days),
+    frequency: Number(row.frequency),
+    monetary: Number(row.monetary),
+    r_score: Number(row.r_score),
+    f_score: Number(row.f_score),
+    m_score: Number(row.m_score),
+    score: row.score,
+    segment: row.segment,
+  };
+}
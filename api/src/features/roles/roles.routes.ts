@@ -0,0 +1,199 @@
+import type { FastifyInstance } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { RolesService } from './roles.service.js';
+import {
+  RoleSchema,
+  CreateRoleBodySchema,
+  UpdateRoleBodySchema,
+  RoleParamsSchema,
+  MeAccessSchema,
+  type CreateRoleBody,
+  type UpdateRoleBody,
+} from './roles.schemas.js';
+import { roleAccessService } from '../../core/auth/role-access.service.js';
+import { authenticate } from '../../core/middleware/authenticate.js';
+import { requireSuperadmin } from '../../core/middleware/authorize.js';
+import { NotFoundError } from '../../core/errors/app-error.js';
+
+/**
+ * Role access administration routes
+ *
+ * A role maps a Dyna profile role (users.dynaRole) to the frontend routes it
+ * may open and the mandatory row filters applied to its analytics queries.
+ *
+ * /roles routes require superadmin role
+ * /me/access only requires authentication
+ */
+export async function rolesRoutes(fastify: FastifyInstance) {
+  const service = new RolesService();
+
+  // List roles (superadmin)
+  fastify.get(
+    '/roles',
+    {
+      preHandler: [authenticate, requireSuperadmin],
+      schema: {
+        description: 'List roles with their allowed paths and data filters',
+        tags: ['Roles'],
+        response: {
+          200: Type.Object({
+            data: Type.Array(RoleSchema),
+          }),
+        },
+      },
+    },
+    async (_request, reply) => {
+      const data = await service.listRoles();
+      return reply.send({ data });
+    }
+  );
+
+  // Get role by ID (superadmin)
+  fastify.get(
+    '/roles/:id',
+    {
+      preHandler: [authenticate, requireSuperadmin],
+      schema: {
+        description: 'Get role by ID',
+        tags: ['Roles'],
+        params: RoleParamsSchema,
+        response: {
+          200: RoleSchema,
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const role = await service.getRoleById(id);
+
+      if (!role) {
+        throw new NotFoundError('Role not found');
+      }
+
+      return reply.send(role);
+    }
+  );
+
+  // Create role (superadmin)
+  fastify.post(
+    '/roles',
+    {
+      preHandler: [authenticate, requireSuperadmin],
+      schema: {
+        description: 'Create role',
+        tags: ['Roles'],
+        body: CreateRoleBodySchema,
+        response: {
+          201: RoleSchema,
+          400: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const body = request.body as CreateRoleBody;
+
+      // Check if role already exists
+      const existing = await service.getRoleByKey(body.key);
+      if (existing) {
+        return reply.status(400).send({ error: 'Role with this key already exists' });
+      }
+
+      const role = await service.createRole(body);
+      return reply.status(201).send(role);
+    }
+  );
+
+  // Update role (superadmin)
+  fastify.patch(
+    '/roles/:id',
+    {
+      preHandler: [authenticate, requireSuperadmin],
+      schema: {
+        description: 'Update role (paths/dataFilters replace the current ones)',
+        tags: ['Roles'],
+        params: RoleParamsSchema,
+        body: UpdateRoleBodySchema,
+        response: {
+          200: RoleSchema,
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const role = await service.updateRole(id, request.body as UpdateRoleBody);
+
+      if (!role) {
+        throw new NotFoundError('Role not found');
+      }
+
+      return reply.send(role);
+    }
+  );
+
+  // Delete role (superadmin)
+  fastify.delete(
+    '/roles/:id',
+    {
+      preHandler: [authenticate, requireSuperadmin],
+      schema: {
+        description: 'Delete role (users with this Dyna role lose access)',
+        tags: ['Roles'],
+        params: RoleParamsSchema,
+        response: {
+          200: Type.Object({
+            success: Type.Boolean(),
+            message: Type.String(),
+          }),
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const deleted = await service.deleteRole(id);
+
+      if (!deleted) {
+        throw new NotFoundError('Role not found');
+      }
+
+      return reply.send({
+        success: true,
+        message: 'Role deleted successfully',
+      });
+    }
+  );
+
+  // Access of the session user (any authenticated user)
+  fastify.get(
+    '/me/access',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Allowed routes and data filters of the session user',
+        tags: ['Roles'],
+        response: {
+          200: MeAccessSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const dynaRole = request.user?.dynaRole ?? null;
+      const access = await roleAccessService.getRoleAccess(dynaRole);
+
+      // Unknown roles get no route and no data (analytics endpoints answer 403)
+      return reply.send(
+        access ?? { role: dynaRole, label: null, fullAccess: false, paths: [], dataFilters: {} }
+      );
+    }
+  );
+}
@@ -0,0 +1,69 @@
+import { Type, type Static } from '@sinclair/typebox';
+
+/**
+ * Mandatory row filters: field → allowed values
+ * @example { "channel": ["DISTRIBUCION"] }
+ */
+const DataFiltersSchema = Type.Record(
+  Type.String(),
+  Type.Array(Type.String({ minLength: 1 }), { minItems: 1 }),
+  { description: 'Mandatory row filters applied to every analytics query (field → allowed values)' }
+);
+
+const PathsSchema = Type.Array(Type.String({ pattern: '^/' }), {
+  description: 'Frontend routes the role may open (ignored with fullAccess)',
+});
+
+/**
+ * Role response schema
+ */
+export const RoleSchema = Type.Object({
+  id: Type.String(),
+  key: Type.String({ description: 'Dyna profile role (users.dynaRole)' }),
+  label: Type.Union([Type.String(), Type.Null()]),
+  fullAccess: Type.Boolean(),
+  paths: Type.Array(Type.String()),
+  dataFilters: Type.Record(Type.String(), Type.Array(Type.String())),
+  createdAt: Type.String(),
+  updatedAt: Type.String(),
+});
+
+/**
+ * Create role body schema
+ */
+export const CreateRoleBodySchema = Type.Object({
+  key: Type.String({ pattern: '^[A-Za-z0-9_]+$', description: 'Dyna profile role, e.g. MANAGER_DISTRIBUTION' }),
+  label: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+  fullAccess: Type.Optional(Type.Boolean()),
+  paths: Type.Optional(PathsSchema),
+  dataFilters: Type.Optional(DataFiltersSchema),
+});
+
+export type CreateRoleBody = Static<typeof CreateRoleBodySchema>;
+
+/**
+ * Update role body schema (paths/dataFilters replace the current ones)
+ */
+export const UpdateRoleBodySchema = Type.Object({
+  label: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+  fullAccess: Type.Optional(Type.Boolean()),
+  paths: Type.Optional(PathsSchema),
+  dataFilters: Type.Optional(DataFiltersSchema),
+});
+
+export type UpdateRoleBody = Static<typeof UpdateRoleBodySchema>;
+
+export const RoleParamsSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+/**
+ * Access of the session user (GET /me/access)
+ */
+export const MeAccessSchema = Type.Object({
+  role: Type.Union([Type.String(), Type.Null()]),
+  label: Type.Union([Type.String(), Type.Null()]),
+  fullAccess: Type.Boolean(),
+  paths: Type.Array(Type.String()),
+  dataFilters: Type.Record(Type.String(), Type.Array(Type.String())),
+});
@@ -0,0 +1,166 @@
+import { eq, asc, inArray } from 'drizzle-orm';
+import { db } from '../../core/db/postgres/client.js';
+import { roles, rolePaths, roleDataFilters, type Role } from '../../core/db/postgres/schema.js';
+import { roleAccessService, groupDataFilters } from '../../core/auth/role-access.service.js';
+import { isValidFieldName } from '../../core/db/clickhouse/query/filter-builder.js';
+import { ValidationError } from '../../core/errors/app-error.js';
+import type { CreateRoleBody, UpdateRoleBody } from './roles.schemas.js';
+
+/**
+ * Role with its allowed paths and data filters
+ */
+export interface RoleWithRules extends Role {
+  paths: string[];
+  dataFilters: Record<string, string[]>;
+}
+
+/**
+ * Roles service - Administration of role access rules
+ */
+export class RolesService {
+  /**
+   * List all roles with their rules, ordered by key
+   */
+  async listRoles(): Promise<RoleWithRules[]> {
+    const roleRows = await db.select().from(roles).orderBy(asc(roles.key));
+    return this.attachRules(roleRows);
+  }
+
+  /**
+   * Get role by ID
+   */
+  async getRoleById(id: string): Promise<RoleWithRules | null> {
+    const [role] = await db.select().from(roles).where(eq(roles.id, id)).limit(1);
+    if (!role) return null;
+
+    const [withRules] = await this.attachRules([role]);
+    return withRules ?? null;
+  }
+
+  /**
+   * Get role by key (Dyna profile role)
+   */
+  async getRoleByKey(key: string): Promise<Role | null> {
+    const [role] = await db.select().from(roles).where(eq(roles.key, key)).limit(1);
+    return role ?? null;
+  }
+
+  /**
+   * Create role with its paths and data filters
+   */
+  async createRole(data: CreateRoleBody): Promise<RoleWithRules> {
+    validateDataFilters(data.dataFilters);
+
+    const id = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(roles)
+        .values({
+          key: data.key,
+          label: data.label ?? null,
+          fullAccess: data.fullAccess ?? false,
+        })
+        .returning();
+
+      if (!created) {
+        throw new Error('Failed to create role');
+      }
+
+      await this.insertRules(tx, created.id, data.paths ?? [], data.dataFilters ?? {});
+      return created.id;
+    });
+
+    roleAccessService.clearCache();
+    return (await this.getRoleById(id))!;
+  }
+
+  /**
+   * Update role. Provided paths/dataFilters replace the current ones.
+   */
+  async updateRole(id: string, data: UpdateRoleBody): Promise<RoleWithRules | null> {
+    validateDataFilters(data.dataFilters);
+
+    const updated = await db.transaction(async (tx) => {
+      const [role] = await tx
+        .update(roles)
+        .set({
+          ...(data.label !== undefined && { label: data.label }),
+          ...(data.fullAccess !== undefined && { fullAccess: data.fullAccess }),
+          updatedAt: new Date(),
+        })
+        .where(eq(roles.id, id))
+        .returning();
+
+      if (!role) return null;
+
+      if (data.paths) {
+        await tx.delete(rolePaths).where(eq(rolePaths.roleId, id));
+        await this.insertRules(tx, id, data.paths, {});
+      }
+      if (data.dataFilters) {
+        await tx.delete(roleDataFilters).where(eq(roleDataFilters.roleId, id));
+        await this.insertRules(tx, id, [], data.dataFilters);
+      }
+      return role;
+    });
+
+    if (!updated) return null;
+
+    roleAccessService.clearCache();
+    return this.getRoleById(id);
+  }
+
+  /**
+   * Delete role (its paths and filters cascade). Users keeping this dynaRole
+   * lose all access.
+   */
+  async deleteRole(id: string): Promise<boolean> {
+    const result = await db.delete(roles).where(eq(roles.id, id)).returning();
+    roleAccessService.clearCache();
+    return result.length > 0;
+  }
+
+  private async insertRules(
+    tx: Pick<typeof db, 'insert'>,
+    roleId: string,
+    paths: string[],
+    dataFilters: Record<string, string[]>
+  ): Promise<void> {
+    const uniquePaths = [...new Set(paths)];
+    if (uniquePaths.length > 0) {
+      await tx.insert(rolePaths).values(uniquePaths.map((path) => ({ roleId, path })));
+    }
+
+    const filterRows = Object.entries(dataFilters).flatMap(([field, values]) =>
+      [...new Set(values)].map((value) => ({ roleId, field, value }))
+    );
+    if (filterRows.length > 0) {
+      await tx.insert(roleDataFilters).values(filterRows);
+    }
+  }
+
+  private async attachRules(roleRows: Role[]): Promise<RoleWithRules[]> {
+    if (roleRows.length === 0) return [];
+
+    const ids = roleRows.map((r) => r.id);
+    const [pathRows, filterRows] = await Promise.all([
+      db.select().from(rolePaths).where(inArray(rolePaths.roleId, ids)),
+      db.select().from(roleDataFilters).where(inArray(roleDataFilters.roleId, ids)),
+    ]);
+
+    return roleRows.map((role) => ({
+      ...role,
+      paths: pathRows.filter((p) => p.roleId === role.id).map((p) => p.path),
+      dataFilters: groupDataFilters(filterRows.filter((f) => f.roleId === role.id)),
+    }));
+  }
+}
+
+/**
+ * Data filters must reference filterable ClickHouse columns
+ */
+function validateDataFilters(dataFilters: Record<string, string[]> | undefined): void {
+  const invalid = Object.keys(dataFilters ?? {}).filter((field) => !isValidFieldName(field));
+  if (invalid.length > 0) {
+    throw new ValidationError(`Invalid data filter field: ${invalid.join(', ')}`);
+  }
+}
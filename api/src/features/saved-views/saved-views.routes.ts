@@ -0,0 +1,170 @@
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { SavedViewsService, type SavedViewUser } from './saved-views.service.js';
+import {
+  SavedViewSchema,
+  CreateSavedViewBodySchema,
+  UpdateSavedViewBodySchema,
+  SavedViewParamsSchema,
+  SavedViewsQuerySchema,
+  type CreateSavedViewBody,
+  type UpdateSavedViewBody,
+} from './saved-views.schemas.js';
+import { authenticate } from '../../core/middleware/authenticate.js';
+import { NotFoundError, UnauthorizedError } from '../../core/errors/app-error.js';
+
+/**
+ * Saved view routes
+ *
+ * Any authenticated user saves the state of an analytics page under a name;
+ * views shared with the team or made public are listed and opened by the
+ * other users, but only the owner edits them. The data of a view is always
+ * queried with the scope of whoever opens it.
+ */
+export function savedViewsRoutes(fastify: FastifyInstance): void {
+  const service = new SavedViewsService();
+
+  const sessionUser = (request: FastifyRequest): SavedViewUser => {
+    if (!request.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+    return request.user;
+  };
+
+  // List visible views
+  fastify.get(
+    '/saved-views',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'List your saved views and those shared with you (your team\'s and the public ones)',
+        tags: ['Saved views'],
+        querystring: SavedViewsQuerySchema,
+        response: {
+          200: Type.Object({
+            data: Type.Array(SavedViewSchema),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { route } = request.query as { route?: string };
+      const data = await service.listVisible(sessionUser(request), route);
+      return reply.send({ data });
+    }
+  );
+
+  // Get a visible view (shared links)
+  fastify.get(
+    '/saved-views/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Get a saved view visible to you',
+        tags: ['Saved views'],
+        params: SavedViewParamsSchema,
+        response: {
+          200: SavedViewSchema,
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const view = await service.getVisible(sessionUser(request), id);
+
+      if (!view) {
+        throw new NotFoundError('Saved view not found');
+      }
+
+      return reply.send(view);
+    }
+  );
+
+  // Create view
+  fastify.post(
+    '/saved-views',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Save the state of an analytics page (date range, filters, sort, nested dimensions)',
+        tags: ['Saved views'],
+        body: CreateSavedViewBodySchema,
+        response: {
+          201: SavedViewSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const view = await service.create(sessionUser(request), request.body as CreateSavedViewBody);
+      return reply.status(201).send(view);
+    }
+  );
+
+  // Update own view
+  fastify.patch(
+    '/saved-views/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Rename, share or overwrite one of your saved views',
+        tags: ['Saved views'],
+        params: SavedViewParamsSchema,
+        body: UpdateSavedViewBodySchema,
+        response: {
+          200: SavedViewSchema,
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const view = await service.update(sessionUser(request), id, request.body as UpdateSavedViewBody);
+
+      if (!view) {
+        throw new NotFoundError('Saved view not found');
+      }
+
+      return reply.send(view);
+    }
+  );
+
+  // Delete own view
+  fastify.delete(
+    '/saved-views/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Delete one of your saved views',
+        tags: ['Saved views'],
+        params: SavedViewParamsSchema,
+        response: {
+          200: Type.Object({
+            success: Type.Boolean(),
+            message: Type.String(),
+          }),
+          404: Type.Object({
+            error: Type.String(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params as { id: string };
+      const deleted = await service.delete(sessionUser(request), id);
+
+      if (!deleted) {
+        throw new NotFoundError('Saved view not found');
+      }
+
+      return reply.send({
+        success: true,
+        message: 'Saved view deleted successfully',
+      });
+    }
+  );
+}
@@ -0,0 +1,104 @@
+import { Type, type Static } from '@sinclair/typebox';
+import { DateStringSchema } from '../../core/schemas/common.schemas.js';
+import { ComparisonModeSchema } from '../../core/utils/comparison-period.js';
+import { DatePresetSchema } from '../../core/utils/date-presets.js';
+
+/**
+ * TypeBox schemas for saved views of the web analytics pages
+ */
+
+const VisibilitySchema = Type.Union(
+  [Type.Literal('private'), Type.Literal('team'), Type.Literal('public')],
+  { description: 'private (owner only), team (users with the owner\'s Dyna role) or public (every user)' }
+);
+
+const FieldNameSchema = Type.String({ pattern: '^[A-Za-z_][A-Za-z0-9_]*$' });
+
+/**
+ * Page state of a view, as serialized in the web app URL. Dates are fixed for
+ * a custom range; a named preset is resolved when the view is opened.
+ */
+export const SavedViewStateSchema = Type.Object({
+  preset: Type.Optional(Type.Union([
+    ...DatePresetSchema.anyOf,
+    Type.Literal('custom'),
+    Type.Integer({ minimum: 2000, maximum: 2100, description: 'Whole year' }),
+  ], { description: 'Date range preset of the web app, a year or "custom" (startDate/endDate)' })),
+  startDate: Type.Optional(DateStringSchema),
+  endDate: Type.Optional(DateStringSchema),
+  compareMode: Type.Optional(Type.Union([...ComparisonModeSchema.anyOf, Type.Literal('custom')], {
+    description: 'Comparison period, or "custom" (compareStartDate/compareEndDate)',
+  })),
+  compareStartDate: Type.Optional(DateStringSchema),
+  compareEndDate: Type.Optional(DateStringSchema),
+  filters: Type.Optional(Type.Record(
+    FieldNameSchema,
+    Type.Array(Type.Object({
+      id: Type.String({ minLength: 1 }),
+      name: Type.String(),
+    }, { additionalProperties: false }), { maxItems: 100 }),
+    { description: 'Selected values by dimension (names are kept for display)' }
+  )),
+  groupBy: Type.Optional(Type.Array(FieldNameSchema, {
+    maxItems: 2,
+    description: 'Dimensions nested under the page grouping, outermost first',
+  })),
+  search: Type.Optional(Type.String({ maxLength: 200 })),
+  sortKey: Type.Optional(Type.String({ pattern: '^[A-Za-z_][A-Za-z0-9_]*$', description: 'Sorted table column' })),
+  sortDirection: Type.Optional(Type.Union([Type.Literal('asc'), Type.Literal('desc')])),
+  page: Type.Optional(Type.Integer({ minimum: 1 })),
+}, { additionalProperties: false });
+
+export type SavedViewState = Static<typeof SavedViewStateSchema>;
+
+const RouteSchema = Type.String({
+  pattern: '^/[A-Za-z0-9/_-]*$',
+  maxLength: 200,
+  description: 'Web app route of the page, without query string (e.g. /distribucion/clientes)',
+});
+
+/**
+ * Saved view response schema
+ */
+export const SavedViewSchema = Type.Object({
+  id: Type.String(),
+  name: Type.String(),
+  visibility: VisibilitySchema,
+  route: Type.String(),
+  state: SavedViewStateSchema,
+  owned: Type.Boolean({ description: 'Created by the session user (only the owner can edit it)' }),
+  createdAt: Type.String(),
+  updatedAt: Type.String(),
+});
+
+/**
+ * Create saved view body schema
+ */
+export const CreateSavedViewBodySchema = Type.Object({
+  name: Type.String({ minLength: 1, maxLength: 100 }),
+  visibility: Type.Optional(VisibilitySchema),
+  route: RouteSchema,
+  state: SavedViewStateSchema,
+});
+
+export type CreateSavedViewBody = Static<typeof CreateSavedViewBodySchema>;
+
+/**
+ * Update saved view body schema
+ */
+export const UpdateSavedViewBodySchema = Type.Object({
+  name: Type.Optional(Type.String({ minLength: 1, maxLength: 100 })),
+  visibility: Type.Optional(VisibilitySchema),
+  route: Type.Optional(RouteSchema),
+  state: Type.Optional(SavedViewStateSchema),
+});
+
+export type UpdateSavedViewBody = Static<typeof UpdateSavedViewBodySchema>;
+
+export const SavedViewParamsSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+export const SavedViewsQuerySchema = Type.Object({
+  route: Type.Optional(Type.String({ maxLength: 200, description: 'Only the views of this page' })),
+});
@@ -0,0 +1,163 @@
+import { and, asc, eq, or, type SQL } from 'drizzle-orm';
+import { db } from '../../core/db/postgres/client.js';
+import { savedViews, type SavedView } from '../../core/db/postgres/schema.js';
+import { ValidationError } from '../../core/errors/app-error.js';
+import { validateSavedViewState } from './saved-views.state.js';
+import type { CreateSavedViewBody, SavedViewState, UpdateSavedViewBody } from './saved-views.schemas.js';
+
+/**
+ * Session user fields that decide which saved views are visible
+ */
+export interface SavedViewUser {
+  id: string;
+  /** Team: views shared with this Dyna role are visible */
+  dynaRole?: string | null | undefined;
+}
+
+/**
+ * Saved view as returned by the API
+ */
+export interface SavedViewResponse {
+  id: string;
+  name: string;
+  visibility: SavedView['visibility'];
+  route: string;
+  state: SavedViewState;
+  owned: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Saved views service - Named states of the web analytics pages
+ * (`saved_view`), private, shared with the owner's team (Dyna role) or public
+ */
+export class SavedViewsService {
+  /**
+   * Own views and those shared with the user, ordered by name
+   *
+   * @param route - Only the views of this page
+   */
+  async listVisible(user: SavedViewUser, route?: string): Promise<SavedViewResponse[]> {
+    const rows = await db
+      .select()
+      .from(savedViews)
+      .where(route === undefined ? visibleTo(user) : and(visibleTo(user), eq(savedViews.route, route)))
+      .orderBy(asc(savedViews.name));
+
+    return rows.map((row) => toResponse(row, user));
+  }
+
+  /**
+   * A view visible to the user (the target of a shared link)
+   */
+  async getVisible(user: SavedViewUser, id: string): Promise<SavedViewResponse | null> {
+    const [row] = await db
+      .select()
+      .from(savedViews)
+      .where(and(eq(savedViews.id, id), visibleTo(user)))
+      .limit(1);
+
+    return row ? toResponse(row, user) : null;
+  }
+
+  /**
+   * Save a view owned by the user
+   *
+   * @throws ValidationError if the state is inconsistent or a team view is
+   *   saved by a user without a Dyna role
+   */
+  async create(user: SavedViewUser, data: CreateSavedViewBody): Promise<SavedViewResponse> {
+    validateSavedViewState(data.state);
+    const visibility = data.visibility ?? 'private';
+
+    const [created] = await db
+      .insert(savedViews)
+      .values({
+        ownerId: user.id,
+        name: data.name,
+        visibility,
+        sharedWithRole: visibility === 'team' ? sharedRole(user) : null,
+        route: data.route,
+        state: data.state,
+      })
+      .returning();
+
+    if (!created) {
+      throw new Error('Failed to create saved view');
+    }
+
+    return toResponse(created, user);
+  }
+
+  /**
+   * Update a view owned by the user
+   *
+   * @returns The view, or null if it does not exist or belongs to someone else
+   * @throws ValidationError if the new state is inconsistent
+   */
+  async update(user: SavedViewUser, id: string, data: UpdateSavedViewBody): Promise<SavedViewResponse | null> {
+    if (data.state !== undefined) {
+      validateSavedViewState(data.state);
+    }
+
+    const [updated] = await db
+      .update(savedViews)
+      .set({
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.route !== undefined && { route: data.route }),
+        ...(data.state !== undefined && { state: data.state }),
+        ...(data.visibility !== undefined && {
+          visibility: data.visibility,
+          sharedWithRole: data.visibility === 'team' ? sharedRole(user) : null,
+        }),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(savedViews.id, id), eq(savedViews.ownerId, user.id)))
+      .returning();
+
+    return updated ? toResponse(updated, user) : null;
+  }
+
+  /**
+   * Delete a view owned by the user
+   */
+  async delete(user: SavedViewUser, id: string): Promise<boolean> {
+    const result = await db
+      .delete(savedViews)
+      .where(and(eq(savedViews.id, id), eq(savedViews.ownerId, user.id)))
+      .returning();
+    return result.length > 0;
+  }
+}
+
+function visibleTo(user: SavedViewUser): SQL | undefined {
+  return or(
+    eq(savedViews.ownerId, user.id),
+    eq(savedViews.visibility, 'public'),
+    ...(user.dynaRole ? [eq(savedViews.sharedWithRole, user.dynaRole)] : [])
+  );
+}
+
+/**
+ * Team views target the owner's team, so they need a Dyna role
+ */
+function sharedRole(user: SavedViewUser): string {
+  if (!user.dynaRole) {
+    throw new ValidationError('Only users with a Dyna role can share views with their team');
+  }
+  return user.dynaRole;
+}
+
+function toResponse(row: SavedView, user: SavedViewUser): SavedViewResponse {
+  return {
+    id: row.id,
+    name: row.name,
+    visibility: row.visibility,
+    route: row.route,
+    state: row.state,
+    owned: row.ownerId === user.id,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
@@ -0,0 +1,38 @@
+import { ValidationError } from '../../core/errors/app-error.js';
+import { isReservedParam } from '../../core/utils/filter-parser.js';
+import { parseGroupByDimensions } from '../list/list.schemas.js';
+import type { SavedViewState } from './saved-views.schemas.js';
+
+/**
+ * The state is replayed by the web app as is, so reject what it could not
+ * restore: half-set custom ranges, reserved filter names and unknown or
+ * repeated nested dimensions
+ *
+ * @throws ValidationError
+ */
+export function validateSavedViewState(state: SavedViewState): void {
+  if (state.preset === 'custom') {
+    assertRange(state.startDate, state.endDate, 'A custom date range needs startDate and endDate');
+  }
+  if (state.compareMode === 'custom') {
+    assertRange(state.compareStartDate, state.compareEndDate, 'A custom comparison needs compareStartDate and compareEndDate');
+  }
+
+  const reserved = Object.keys(state.filters ?? {}).filter(isReservedParam);
+  if (reserved.length > 0) {
+    throw new ValidationError(`Not a filter: ${reserved.join(', ')}`);
+  }
+
+  if (state.groupBy && state.groupBy.length > 0) {
+    parseGroupByDimensions(state.groupBy.join(','));
+  }
+}
+
+function assertRange(start: string | undefined, end: string | undefined, message: string): void {
+  if (!start || !end) {
+    throw new ValidationError(message);
+  }
+  if (start > end) {
+    throw new ValidationError(`The range starts after it ends (${start} > ${end})`);
+  }
+}
@@ -4,6 +4,17 @@ import { UsersService, type ListUsersParams } from './users.service.js';
 import { authenticate } from '../../core/middleware/authenticate.js';
 import { requireAdmin, requireSuperadmin } from '../../core/middleware/authorize.js';
 import { NotFoundError } from '../../core/errors/app-error.js';
+import { validateEntitlements, type UserEntitlements } from '../../core/config/entitlements.config.js';
+
+/**
+ * Per-user data entitlements: allowed values per dimension, intersected with
+ * every analytics query of the user. A missing field means no restriction.
+ */
+const EntitlementsSchema = Type.Object({
+  IdRegional: Type.Optional(Type.Array(Type.String({ minLength: 1 }), { minItems: 1 })),
+  seller_id: Type.Optional(Type.Array(Type.String({ minLength: 1 }), { minItems: 1 })),
+  ProveedorComercial: Type.Optional(Type.Array(Type.String({ minLength: 1 }), { minItems: 1 })),
+});
 
 /**
  * User management routes
@@ -11,6 +22,8 @@ import { NotFoundError } from '../../core/errors/app-error.js';
  * All routes require authentication
  * Create/Update/Delete require admin role
  * Hard delete requires superadmin role
+ *
+ * GET/PATCH /users/:id also read/replace the user's data entitlements
  */
 export async function usersRoutes(fastify: FastifyInstance) {
   const service = new UsersService();
@@ -69,7 +82,7 @@ export async function usersRoutes(fastify: FastifyInstance) {
     {
       preHandler: [authenticate, requireAdmin],
       schema: {
-        description: 'Get user by ID',
+        description: 'Get user by ID (with data entitlements)',
         tags: ['Users'],
         params: Type.Object({
           id: Type.String({ format: 'uuid' }),
@@ -84,6 +97,7 @@ export async function usersRoutes(fastify: FastifyInstance) {
             emailVerified: Type.Boolean(),
             createdAt: Type.String(),
             updatedAt: Type.String(),
+            entitlements: EntitlementsSchema,
           }),
           404: Type.Object({
             error: Type.String(),
@@ -99,7 +113,8 @@ export async function usersRoutes(fastify: FastifyInstance) {
         throw new NotFoundError('User not found');
       }
 
-      return reply.send(user);
+      const entitlements = await service.getUserEntitlements(id);
+      return reply.send({ ...user, entitlements });
     }
   );
 
@@ -163,7 +178,7 @@ export async function usersRoutes(fastify: FastifyInstance) {
     {
       preHandler: [authenticate, requireAdmin],
       schema: {
-        description: 'Update user',
+        description: 'Update user (entitlements, when provided, replace the current ones)',
         tags: ['Users'],
         params: Type.Object({
           id: Type.String({ format: 'uuid' }),
@@ -176,6 +191,7 @@ export async function usersRoutes(fastify: FastifyInstance) {
             Type.Literal('user'),
           ])),
           isActive: Type.Optional(Type.Boolean()),
+          entitlements: Type.Optional(EntitlementsSchema),
         }),
         response: {
           200: Type.Object({
@@ -187,6 +203,7 @@ export async function usersRoutes(fastify: FastifyInstance) {
             emailVerified: Type.Boolean(),
             createdAt: Type.String(),
             updatedAt: Type.String(),
+            entitlements: EntitlementsSchema,
           }),
           404: Type.Object({
             error: Type.String(),
@@ -196,19 +213,28 @@ export async function usersRoutes(fastify: FastifyInstance) {
     },
     async (request, reply) => {
       const { id } = request.params as { id: string };
-      const body = request.body as {
+      const { entitlements, ...body } = request.body as {
         name?: string;
         role?: 'user' | 'admin' | 'superadmin';
         isActive?: boolean;
+        entitlements?: UserEntitlements;
       };
 
+      if (entitlements) {
+        validateEntitlements(entitlements);
+      }
+
       const user = await service.updateUser(id, body);
 
       if (!user) {
         throw new NotFoundError('User not found');
       }
 
-      return reply.send(user);
+      const updatedEntitlements = entitlements
+        ? await service.setUserEntitlements(id, entitlements)
+        : await service.getUserEntitlements(id);
+
+      return reply.send({ ...user, entitlements: updatedEntitlements });
     }
   );
 
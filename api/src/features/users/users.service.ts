@@ -1,6 +1,9 @@
 import { eq, ilike, or, and, desc } from 'drizzle-orm';
 import { db } from '../../core/db/postgres/client.js';
-import { users, type User, type NewUser } from '../../core/db/postgres/schema.js';
+import { users, userDataEntitlements, type User, type NewUser } from '../../core/db/postgres/schema.js';
+import { userEntitlementService } from '../../core/auth/user-entitlement.service.js';
+import type { UserEntitlements } from '../../core/config/entitlements.config.js';
+import { groupDataFilters } from '../../core/auth/role-access.service.js';
 
 export interface ListUsersParams {
   page?: number;
@@ -135,6 +138,37 @@ export class UsersService {
     return updated || null;
   }
 
+  /**
+   * Get the data entitlements of a user (allowed values per dimension)
+   */
+  async getUserEntitlements(id: string): Promise<UserEntitlements> {
+    const rows = await db
+      .select({ field: userDataEntitlements.field, value: userDataEntitlements.value })
+      .from(userDataEntitlements)
+      .where(eq(userDataEntitlements.userId, id));
+
+    return groupDataFilters(rows) as UserEntitlements;
+  }
+
+  /**
+   * Replace the data entitlements of a user (an empty object removes them all)
+   */
+  async setUserEntitlements(id: string, entitlements: UserEntitlements): Promise<UserEntitlements> {
+    const rows = Object.entries(entitlements).flatMap(([field, values]) =>
+      [...new Set(values ?? [])].map((value) => ({ userId: id, field, value }))
+    );
+
+    await db.transaction(async (tx) => {
+      await tx.delete(userDataEntitlements).where(eq(userDataEntitlements.userId, id));
+      if (rows.length > 0) {
+        await tx.insert(userDataEntitlements).values(rows);
+      }
+    });
+
+    userEntitlementService.clearCache(id);
+    return this.getUserEntitlements(id);
+  }
+
   /**
    * Delete user (soft delete - set isActive to false)
    */
@@ -156,3 +190,4 @@ export class UsersService {
     return result.length > 0;
   }
 }
+
@@ -7,6 +7,7 @@ import rateLimit from '@fastify/rate-limit';
 import swagger from '@fastify/swagger';
 import swaggerUi from '@fastify/swagger-ui';
 import fs from 'fs';
+import { timingSafeEqual } from 'crypto';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { DatabaseClient, type ClickHouseConfig } from './core/db/clickhouse/client.js';
@@ -15,10 +16,43 @@ import { listRoutes } from './features/list/list.routes.js';
 import { listExportRoutes } from './features/list/list.export.routes.js';
 import { labelsRoutes } from './features/labels/labels.routes.js';
 import { qube6Routes } from './features/qube6/qube6.routes.js';
-import { festivalRoutes } from './features/festival/festival.routes.js';
+import { campaignRoutes } from './features/campaigns/campaign.routes.js';
+import { campaignEditionsRoutes } from './features/campaigns/campaign.editions.routes.js';
+import { campaignDefinitionsRoutes } from './features/campaigns/campaign.definitions.routes.js';
+import { loadCampaigns } from './features/campaigns/campaign.definitions.service.js';
+import { customersRoutes } from './features/customers/customers.routes.js';
+import { rfmRoutes } from './features/rfm/rfm.routes.js';
+import { insightsRoutes } from './features/insights/insights.routes.js';
 import { authRoutes } from './features/auth/auth.routes.js';
 import { usersRoutes } from './features/users/users.routes.js';
+import { rolesRoutes } from './features/roles/roles.routes.js';
+import { adminRoutes } from './features/admin/admin.routes.js';
+import { metricsRoutes } from './features/metrics/metrics.routes.js';
+import { loadMetricCatalog, MetricCatalogWatcher, MetricsService, registerMetricCatalogWatcher } from './features/metrics/metrics.service.js';
+import { customMetricsRoutes } from './features/custom-metrics/custom-metrics.routes.js';
+import { CustomMetricsService } from './features/custom-metrics/custom-metrics.service.js';
+import { reportSubscriptionsRoutes } from './features/report-subscriptions/report-subscriptions.routes.js';
+import { ReportSubscriptionsService } from './features/report-subscriptions/report-subscriptions.service.js';
+import { ReportSubscriptionReportBuilder } from './features/report-subscriptions/report-subscriptions.report.js';
+import { ReportScheduler } from './features/report-subscriptions/report-subscriptions.scheduler.js';
+import { alertsRoutes } from './features/alerts/alerts.routes.js';
+import { AlertsService } from './features/alerts/alerts.service.js';
+import { AlertEvaluator } from './features/alerts/alerts.evaluator.js';
+import { AlertScheduler } from './features/alerts/alerts.scheduler.js';
+import { savedViewsRoutes } from './features/saved-views/saved-views.routes.js';
+import { exportsRoutes } from './features/exports/exports.routes.js';
+import { ExportsService } from './features/exports/exports.service.js';
+import { ExportJobBuilder } from './features/exports/exports.builder.js';
+import { ExportWorker } from './features/exports/exports.worker.js';
+import { ExportFileStorage } from './core/export/export-storage.js';
+import { AnalyticsQueryBuilder } from './core/db/clickhouse/query/analytics-query-builder.js';
+import { createEmailTransport } from './core/email/email-transport.js';
+import { createQueryCache, queryCacheFor, registerQueryCacheHooks } from './core/cache/query-cache.js';
 import { getEnvConfig } from './core/config/env.js';
+import { queryMonitor } from './core/observability/query-monitor.js';
+import { registerRequestContext } from './core/observability/request-context.js';
+import { registerLeaseRunner } from './core/jobs/lease-runner.js';
+import { UnauthorizedError } from './core/errors/app-error.js';
 import { setupErrorHandler } from './core/errors/error-handler.js';
 import {
   HealthCheckResponseSchema,
@@ -115,6 +149,7 @@ async function buildServer() {
       ? (config.ORIGIN_URL || false)
       : true,
     credentials: true,
+    exposedHeaders: ['X-Cache', 'X-Cache-Hits', 'X-Cache-Misses'],
   });
 
   // Register rate limiting
@@ -154,9 +189,20 @@ async function buildServer() {
       tags: [
         { name: 'Authentication', description: 'Email OTP authentication endpoints' },
         { name: 'Users', description: 'User management endpoints' },
+        { name: 'Roles', description: 'Role access administration endpoints' },
+        { name: 'Admin', description: 'Operational administration endpoints' },
+        { name: 'Metrics', description: 'Metric catalog endpoints' },
+        { name: 'Custom metrics', description: 'User-defined metrics, private or shared with the team' },
+        { name: 'Report subscriptions', description: 'Saved list views emailed on a schedule' },
+        { name: 'Alerts', description: 'KPI threshold alerts and their inbox' },
+        { name: 'Saved views', description: 'Saved states of the analytics pages, private or shared' },
         { name: 'balance', description: 'Balance sheet endpoints' },
         { name: 'list', description: 'List endpoints' },
         { name: 'labels', description: 'Column values endpoints' },
+        { name: 'customers', description: 'Customer lifecycle (new, retained, reactivated, at risk, churned)' },
+        { name: 'rfm', description: 'RFM (recency, frequency, monetary) customer segmentation' },
+        { name: 'insights', description: 'Top movers and daily sales anomalies' },
+        { name: 'campaigns', description: 'Commercial campaign dashboards (Festival Virtual…) and their editions' },
         { name: 'health', description: 'Health check endpoints' },
       ],
     },
@@ -189,6 +235,17 @@ async function buildServer() {
   // Decorate Fastify instance with database client
   fastify.decorate('db', dbClient);
 
+  // Query observability: request id of each query, slow-query log, metrics
+  registerRequestContext(fastify);
+  queryMonitor.configure({ slowThresholdMs: config.QUERY_SLOW_MS, slowLogSize: config.QUERY_SLOW_LOG_SIZE });
+
+  // Query result cache (X-Cache headers, invalidated on new data loads)
+  const queryCache = createQueryCache(config, dbClient.getClient());
+  if (queryCache) {
+    fastify.decorate('queryCache', queryCache);
+  }
+  registerQueryCacheHooks(fastify);
+
   // Setup global error handler
   setupErrorHandler(fastify);
 
@@ -251,6 +308,31 @@ async function buildServer() {
     }
   );
 
+  // Prometheus metrics (bearer METRICS_TOKEN when set)
+  fastify.get(
+    '/metrics',
+    {
+      schema: {
+        description: 'ClickHouse query metrics in the Prometheus text format',
+        tags: ['health'],
+        // NOTE: no response schema — the handler sends plain text.
+      },
+    },
+    async (request, reply) => {
+      if (config.METRICS_TOKEN) {
+        const expected = Buffer.from(`Bearer ${config.METRICS_TOKEN}`);
+        const received = Buffer.from(request.headers.authorization ?? '');
+        if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+          throw new UnauthorizedError('Invalid metrics token');
+        }
+      }
+
+      return reply
+        .type('text/plain; version=0.0.4; charset=utf-8')
+        .send(queryMonitor.renderPrometheus());
+    }
+  );
+
   // API info endpoint
   fastify.get(
     '/',
@@ -278,6 +360,19 @@ async function buildServer() {
     }
   );
 
+  // Metric catalog must be active before the response schemas are generated
+  const metricCatalogVersion = await loadMetricCatalog();
+  fastify.log.info(`Metric catalog: version ${metricCatalogVersion}`);
+  // Catalogs published through another replica
+  registerMetricCatalogWatcher(fastify, new MetricCatalogWatcher(new MetricsService()));
+
+  // Stored campaign definitions are checked before serving them
+  const campaignCount = await loadCampaigns();
+  fastify.log.info(`Campaigns: ${campaignCount} loaded`);
+
+  // Files of the background export jobs
+  const exportStorage = new ExportFileStorage(config.EXPORT_STORAGE_DIR);
+
   // Register feature routes
   await fastify.register(authRoutes);
   await fastify.register(
@@ -287,16 +382,78 @@ async function buildServer() {
       listExportRoutes(instance, dbClient);
       labelsRoutes(instance, dbClient);
       qube6Routes(instance, dbClient);
-      festivalRoutes(instance, dbClient);
+      campaignRoutes(instance, dbClient);
+      campaignDefinitionsRoutes(instance);
+      campaignEditionsRoutes(instance);
+      customersRoutes(instance, dbClient);
+      rfmRoutes(instance, dbClient);
+      insightsRoutes(instance, dbClient);
       await usersRoutes(instance);
+      await rolesRoutes(instance);
+      await adminRoutes(instance);
+      await metricsRoutes(instance);
+      await customMetricsRoutes(instance);
+      reportSubscriptionsRoutes(instance);
+      alertsRoutes(instance);
+      savedViewsRoutes(instance);
+      exportsRoutes(instance, exportStorage);
     },
     { prefix: '/api' }
   );
 
+  const emailTransport = createEmailTransport(config);
+
+  // Scheduled report emails (one delivery per subscription across replicas)
+  if (config.REPORT_SCHEDULER_ENABLED) {
+    const reportBuilder = new ReportSubscriptionReportBuilder(
+      new AnalyticsQueryBuilder(dbClient.getClient(), [], queryCacheFor(fastify, 'list-export')),
+      new CustomMetricsService(),
+      config.PUBLIC_API_URL ?? `http://${config.HOST}:${config.PORT}`
+    );
+    registerLeaseRunner(fastify, new ReportScheduler(
+      new ReportSubscriptionsService(),
+      reportBuilder,
+      emailTransport,
+      config.REPORT_SCHEDULER_INTERVAL_MS
+    ).runner);
+  }
+
+  // KPI alert evaluations (one per rule across replicas)
+  if (config.ALERT_SCHEDULER_ENABLED) {
+    registerLeaseRunner(fastify, new AlertScheduler(
+      new AlertsService(),
+      new AlertEvaluator(new AnalyticsQueryBuilder(dbClient.getClient(), [], queryCacheFor(fastify, 'balance'))),
+      emailTransport,
+      config.ALERT_SCHEDULER_INTERVAL_MS,
+      config.ORIGIN_URL
+    ).runner);
+  }
+
+  // Background export jobs, on their own ClickHouse client: export queries
+  // get a longer time limit than the HTTP endpoints
+  let exportClient: DatabaseClient | undefined;
+  if (config.EXPORT_WORKER_ENABLED) {
+    exportClient = DatabaseClient.create({
+      ...clickhouseConfig,
+      request_timeout: (config.EXPORT_QUERY_TIMEOUT_S + 30) * 1000,
+      max_execution_time: config.EXPORT_QUERY_TIMEOUT_S,
+      max_open_connections: 2,
+    });
+    registerLeaseRunner(fastify, new ExportWorker(
+      new ExportsService(),
+      new ExportJobBuilder(new AnalyticsQueryBuilder(exportClient.getClient()), new CustomMetricsService()),
+      exportStorage,
+      config.EXPORT_WORKER_INTERVAL_MS,
+      config.EXPORT_RETENTION_HOURS * 60 * 60 * 1000
+    ).runner);
+  }
+
   // Graceful shutdown
   const shutdown = async (signal: string) => {
     await fastify.close();
     await dbClient.close();
+    await exportClient?.close();
+    await queryCache?.close();
     if (signal === 'SIGUSR2') process.kill(process.pid, 'SIGUSR2');
     else process.exit(0);
   };
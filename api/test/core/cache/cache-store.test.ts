@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MemoryLruStore, RedisCacheStore } from '../../../src/core/cache/cache-store.js';
+
+describe('MemoryLruStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return stored values', async () => {
+    const store = new MemoryLruStore(10);
+    await store.set('a', '1', 1000);
+
+    expect(await store.get('a')).toBe('1');
+    expect(await store.get('b')).toBeNull();
+  });
+
+  it('should expire entries after their TTL', async () => {
+    const store = new MemoryLruStore(10);
+    await store.set('a', '1', 1000);
+
+    vi.advanceTimersByTime(1001);
+
+    expect(await store.get('a')).toBeNull();
+    expect(await store.size()).toBe(0);
+  });
+
+  it('should evict the least recently used entry when full', async () => {
+    const store = new MemoryLruStore(2);
+    await store.set('a', '1', 1000);
+    await store.set('b', '2', 1000);
+
+    // Touch "a" so "b" becomes the least recently used
+    await store.get('a');
+    await store.set('c', '3', 1000);
+
+    expect(await store.get('a')).toBe('1');
+    expect(await store.get('b')).toBeNull();
+    expect(await store.get('c')).toBe('3');
+  });
+
+  it('should clear all entries and return the count', async () => {
+    const store = new MemoryLruStore(10);
+    await store.set('a', '1', 1000);
+    await store.set('b', '2', 1000);
+
+    expect(await store.clear()).toBe(2);
+    expect(await store.size()).toBe(0);
+  });
+});
+
+describe('RedisCacheStore', () => {
+  const command = vi.fn();
+  const store = new RedisCacheStore({ command }, 'test:');
+
+  beforeEach(() => {
+    command.mockReset();
+  });
+
+  it('should namespace keys and set a PX expiry', async () => {
+    command.mockResolvedValue('OK');
+
+    await store.set('key', 'value', 60000);
+
+    expect(command).toHaveBeenCalledWith(['SET', 'test:key', 'value', 'PX', '60000']);
+  });
+
+  it('should return null for missing keys', async () => {
+    command.mockResolvedValue(null);
+
+    expect(await store.get('key')).toBeNull();
+    expect(command).toHaveBeenCalledWith(['GET', 'test:key']);
+  });
+
+  it('should delete namespaced keys across SCAN pages', async () => {
+    command
+      .mockResolvedValueOnce(['7', ['test:a', 'test:b']])
+      .mockResolvedValueOnce(2)
+      .mockResolvedValueOnce(['0', ['test:c']])
+      .mockResolvedValueOnce(1);
+
+    const removed = await store.clear();
+
+    expect(removed).toBe(3);
+    expect(command).toHaveBeenNthCalledWith(1, ['SCAN', '0', 'MATCH', 'test:*', 'COUNT', '500']);
+    expect(command).toHaveBeenNthCalledWith(2, ['DEL', 'test:a', 'test:b']);
+    expect(command).toHaveBeenNthCalledWith(3, ['SCAN', '7', 'MATCH', 'test:*', 'COUNT', '500']);
+  });
+});
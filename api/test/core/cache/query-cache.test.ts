@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ClickHouseClient } from '@clickhouse/client';
+import {
+  QueryCache,
+  DataFreshnessProbe,
+  buildCacheKey,
+  normalizeSql,
+  runCachedQuery,
+} from '../../../src/core/cache/query-cache.js';
+import { MemoryLruStore } from '../../../src/core/cache/cache-store.js';
+import { metricRegistry } from '../../../src/core/config/metrics.config.js';
+
+/**
+ * Probe whose version is set by the test
+ */
+function createProbe(initial = 'v1') {
+  const probe = { version: initial, getVersion: vi.fn() };
+  probe.getVersion.mockImplementation(async () => probe.version);
+  return probe;
+}
+
+describe('buildCacheKey', () => {
+  it('should ignore whitespace differences in the SQL', () => {
+    const a = buildCacheKey('v1', 'SELECT a\n  FROM t', { p: '1' });
+    const b = buildCacheKey('v1', '  SELECT a FROM t ', { p: '1' });
+
+    expect(a).toBe(b);
+    expect(normalizeSql('SELECT a\n\t FROM t')).toBe('SELECT a FROM t');
+  });
+
+  it('should ignore parameter order', () => {
+    const a = buildCacheKey('v1', 'SELECT 1', { a: '1', b: ['x', 'y'] });
+    const b = buildCacheKey('v1', 'SELECT 1', { b: ['x', 'y'], a: '1' });
+
+    expect(a).toBe(b);
+  });
+
+  it('should differ by parameters and data version', () => {
+    const base = buildCacheKey('v1', 'SELECT 1', { a: '1' });
+
+    expect(buildCacheKey('v1', 'SELECT 1', { a: '2' })).not.toBe(base);
+    expect(buildCacheKey('v2', 'SELECT 1', { a: '1' })).not.toBe(base);
+  });
+});
+
+describe('QueryCache', () => {
+  let store: MemoryLruStore;
+  let probe: ReturnType<typeof createProbe>;
+  let cache: QueryCache;
+
+  beforeEach(() => {
+    store = new MemoryLruStore(100);
+    probe = createProbe();
+    cache = new QueryCache(store, probe as unknown as DataFreshnessProbe);
+  });
+
+  it('should load on miss and serve the cached result on hit', async () => {
+    const loader = vi.fn().mockResolvedValue([{ sales: 100 }]);
+    const stats = { hits: 0, misses: 0 };
+
+    const first = await cache.getOrLoad('SELECT 1', {}, 1000, loader, stats);
+    const second = await cache.getOrLoad('SELECT  1', {}, 1000, loader, stats);
+
+    expect(first).toEqual([{ sales: 100 }]);
+    expect(second).toEqual([{ sales: 100 }]);
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(stats).toEqual({ hits: 1, misses: 1 });
+  });
+
+  it('should clear the store when the data version changes', async () => {
+    const loader = vi.fn().mockResolvedValueOnce(['old']).mockResolvedValueOnce(['new']);
+
+    await cache.getOrLoad('SELECT 1', {}, 1000, loader);
+    probe.version = 'v2';
+    const result = await cache.getOrLoad('SELECT 1', {}, 1000, loader);
+
+    expect(result).toEqual(['new']);
+    expect(loader).toHaveBeenCalledTimes(2);
+
+    const info = await cache.inspect();
+    expect(info.dataVersion).toBe('v2');
+    expect(info.entries).toBe(1);
+    expect(info.lastInvalidatedAt).not.toBeNull();
+  });
+
+  it('should not serve results cached under another metric catalog version', async () => {
+    const builtIn = metricRegistry.getCatalog();
+    const loader = vi.fn().mockResolvedValueOnce(['v0']).mockResolvedValueOnce(['v3']);
+
+    try {
+      await cache.getOrLoad('SELECT 1', {}, 1000, loader);
+      metricRegistry.replace({ ...builtIn, version: 3 });
+      const result = await cache.getOrLoad('SELECT 1', {}, 1000, loader);
+
+      expect(result).toEqual(['v3']);
+      expect(loader).toHaveBeenCalledTimes(2);
+    } finally {
+      metricRegistry.replace(builtIn);
+    }
+  });
+
+  it('should bypass the cache when the probe fails', async () => {
+    probe.getVersion.mockRejectedValue(new Error('ClickHouse down'));
+    const loader = vi.fn().mockResolvedValue(['rows']);
+
+    const result = await cache.getOrLoad('SELECT 1', {}, 1000, loader);
+
+    expect(result).toEqual(['rows']);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not fail the request when storing the result fails', async () => {
+    vi.spyOn(store, 'set').mockRejectedValue(new Error('Redis down'));
+    const loader = vi.fn().mockResolvedValue(['rows']);
+
+    await expect(cache.getOrLoad('SELECT 1', {}, 1000, loader)).resolves.toEqual(['rows']);
+  });
+
+  it('should report counters and purge entries', async () => {
+    const loader = vi.fn().mockResolvedValue([]);
+    await cache.getOrLoad('SELECT 1', {}, 1000, loader);
+    await cache.getOrLoad('SELECT 1', {}, 1000, loader);
+    await cache.getOrLoad('SELECT 2', {}, 1000, loader);
+
+    const info = await cache.inspect();
+    expect(info).toMatchObject({ backend: 'memory', entries: 2, hits: 1, misses: 2 });
+
+    expect(await cache.purge()).toBe(2);
+    expect((await cache.inspect()).entries).toBe(0);
+  });
+});
+
+describe('DataFreshnessProbe', () => {
+  it('should build the version from the last part modification and probe once per interval', async () => {
+    const json = vi.fn().mockResolvedValue([{ last_load: '2026-01-01 03:00:00', parts: 42 }]);
+    const query = vi.fn().mockResolvedValue({ json });
+    const probe = new DataFreshnessProbe({ query } as unknown as ClickHouseClient, 'dyna_', 60000);
+
+    const [a, b] = await Promise.all([probe.getVersion(), probe.getVersion()]);
+    const c = await probe.getVersion();
+
+    expect(a).toBe('2026-01-01 03:00:00#42');
+    expect(b).toBe(a);
+    expect(c).toBe(a);
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(query.mock.calls[0]![0].query_params).toEqual({ prefix: 'dyna_' });
+  });
+});
+
+describe('runCachedQuery', () => {
+  it('should query ClickHouse directly without a cache binding', async () => {
+    const json = vi.fn().mockResolvedValue([{ value: 'A' }]);
+    const query = vi.fn().mockResolvedValue({ json });
+
+    const rows = await runCachedQuery(
+      { query } as unknown as ClickHouseClient,
+      { kind: 'test', query: 'SELECT 1', queryParams: { a: '1' } }
+    );
+
+    expect(rows).toEqual([{ value: 'A' }]);
+    expect(query).toHaveBeenCalledWith({
+      query: 'SELECT 1',
+      query_params: { a: '1' },
+      query_id: expect.any(String),
+      format: 'JSONEachRow',
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FESTIVAL_CAMPAIGN,
+  validateCampaignDefinition,
+  type CampaignDefinition,
+} from '../../../src/core/config/campaigns.config.js';
+import { ValidationError } from '../../../src/core/errors/app-error.js';
+
+/** Error details of an invalid definition ([] when valid) */
+function problems(campaign: CampaignDefinition): string[] {
+  try {
+    validateCampaignDefinition(campaign);
+    return [];
+  } catch (error) {
+    expect(error).toBeInstanceOf(ValidationError);
+    return (error as ValidationError).details as string[];
+  }
+}
+
+describe('campaigns.config', () => {
+  describe('validateCampaignDefinition', () => {
+    it('should accept the built-in festival definition', () => {
+      expect(problems(FESTIVAL_CAMPAIGN)).toEqual([]);
+    });
+
+    it('should require the metrics the cards read', () => {
+      const metrics = FESTIVAL_CAMPAIGN.metrics.filter((m) => m.alias !== 'rappel');
+
+      expect(problems({ ...FESTIVAL_CAMPAIGN, metrics })).toEqual(['metrics: missing rappel']);
+      // The budget alias is added from the budget source
+      expect(problems({
+        ...FESTIVAL_CAMPAIGN,
+        metrics: [...FESTIVAL_CAMPAIGN.metrics, { table: 'transactions', field: 'x', aggregation: 'sum', alias: 'budget' }],
+      })).toEqual(['metrics: "budget" is reserved for the budget source']);
+    });
+
+    it('should reject names that cannot be used in a query', () => {
+      expect(problems({ ...FESTIVAL_CAMPAIGN, dateFields: { transactions: 'order_date; DROP TABLE x' } }))
+        .toContainEqual('dateFields column: invalid identifier "order_date; DROP TABLE x"');
+      expect(problems({ ...FESTIVAL_CAMPAIGN, key: 'Festival Virtual' }))
+        .toContainEqual('invalid key "Festival Virtual" (lowercase letters, digits and dashes)');
+    });
+
+    it('should only read tables and rules it defines', () => {
+      expect(problems({ ...FESTIVAL_CAMPAIGN, universe: { ...FESTIVAL_CAMPAIGN.universe, rule: 'regionals' } }))
+        .toEqual(['universe: unknown rule "regionals"']);
+      expect(problems({
+        ...FESTIVAL_CAMPAIGN,
+        scopedDrillFields: { Marca: { cartera: 'Marca' } },
+      })).toEqual(['scoped drill dimension "Marca": table "cartera" is not a sales, budget or universe table']);
+    });
+
+    it('should check the groupings and the page dimensions', () => {
+      expect(problems({ ...FESTIVAL_CAMPAIGN, defaultGroupBy: 'brand_group' }))
+        .toEqual(['defaultGroupBy: must be a column, not a virtual grouping']);
+      expect(problems({
+        ...FESTIVAL_CAMPAIGN,
+        dimensions: [{ key: 'seller_id', label: 'Vendedores', rowLabel: 'Vendedor', drillTo: 'Linea' }],
+      })).toEqual(['dimension "seller_id": drills into unknown dimension "Linea"']);
+    });
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { validateEntitlements, ENTITLEMENT_FIELDS } from '../../../src/core/config/entitlements.config.js';
+
+describe('entitlements.config', () => {
+  describe('validateEntitlements', () => {
+    it('should accept the regional, seller and provider dimensions', () => {
+      expect(ENTITLEMENT_FIELDS).toEqual(['IdRegional', 'seller_id', 'ProveedorComercial']);
+      expect(() => validateEntitlements({
+        IdRegional: ['R01'],
+        seller_id: ['S01'],
+        ProveedorComercial: ['P1'],
+      })).not.toThrow();
+    });
+
+    it('should accept an empty object (no restriction)', () => {
+      expect(() => validateEntitlements({})).not.toThrow();
+    });
+
+    it('should reject other dimensions', () => {
+      expect(() => validateEntitlements({ channel: ['CADENAS'], seller_id: ['S01'] }))
+        .toThrow('Invalid entitlement field: channel');
+    });
+  });
+});
@@ -91,6 +91,7 @@ describe('AnalyticsQueryBuilder', () => {
       expect(mockClient.query).toHaveBeenCalledWith({
         query: expect.stringContaining('WITH'),
         query_params: expect.any(Object),
+        query_id: expect.any(String),
         format: 'JSONEachRow',
       });
     });
@@ -386,6 +387,44 @@ describe('AnalyticsQueryBuilder', () => {
     });
   });
 
+  describe('streamGroupedMultiTableYoYQuery', () => {
+    it('should stream the grouped query rows as ClickHouse sends them', async () => {
+      const discover = vi.mocked(mockClient.query).getMockImplementation()!;
+      const rows = [
+        { id: 'S1', name: 'Seller 1', sales: 10000 },
+        { id: 'S2', name: 'Seller 2', sales: 8000 },
+      ];
+      vi.mocked(mockClient.query).mockImplementation((config: any) =>
+        config.query.includes('system.columns')
+          ? discover(config)
+          : Promise.resolve({
+              stream: () => (async function* () {
+                yield rows.slice(0, 1).map((row) => ({ json: () => row }));
+                yield rows.slice(1).map((row) => ({ json: () => row }));
+              })(),
+            } as any)
+      );
+
+      const streamed = [];
+      for await (const row of builder.streamGroupedMultiTableYoYQuery({
+        metrics: [{ table: 'transactions', field: 'sales_price', aggregation: 'sum', alias: 'sales' }],
+        currentPeriodFilters: [],
+        groupBy: 'seller_id',
+        orderBy: 'sales',
+      })) {
+        streamed.push(row);
+      }
+
+      expect(streamed).toEqual(rows);
+      const callArgs = vi.mocked(mockClient.query).mock.calls.at(-1)![0];
+      expect(callArgs.format).toBe('JSONEachRow');
+      expect(callArgs.query).toContain('GROUP BY');
+      // Uncapped: no pagination nor total count
+      expect(callArgs.query).not.toContain('LIMIT');
+      expect(callArgs.query).not.toContain('_total_count');
+    });
+  });
+
   describe('buildGroupedMultiTableYoYQuery', () => {
     it('should execute query with pagination parameters', async () => {
       const mockResultSet = {
@@ -556,6 +595,52 @@ describe('AnalyticsQueryBuilder', () => {
       expect(callArgs.query).toContain('GROUP BY 1');
     });
 
+    it('should group hierarchical levels by the parent dimensions and limit rows per parent', async () => {
+      // Fresh builder so the table prefix set in beforeEach applies
+      const client = createMockClient();
+      const prefixedBuilder = new AnalyticsQueryBuilder(client);
+      const metrics: MetricConfig[] = [
+        {
+          table: 'transactions',
+          field: 'sales_price',
+          aggregation: 'sum',
+          alias: 'sales',
+        },
+      ];
+
+      await prefixedBuilder.buildGroupedMultiTableYoYQuery({
+        metrics,
+        currentPeriodFilters: [],
+        groupBy: 'seller_id',
+        parentGroupBy: ['IdRegional'],
+        limitPerParent: 5,
+      });
+
+      const query = vi.mocked(client.query).mock.calls
+        .map(([config]) => (config as { query: string }).query)
+        .find((sql) => sql.includes('WITH'))!;
+
+      expect(query).toContain('trimBoth(IdRegional) AS IdRegional, trimBoth(seller_id) AS seller_id');
+      expect(query).toContain('GROUP BY 1, 2');
+      expect(query).toContain('AS _parent_0');
+      expect(query).toContain(
+        'LEFT JOIN transactions_previous ON transactions_current.IdRegional = transactions_previous.IdRegional AND transactions_current.seller_id = transactions_previous.seller_id'
+      );
+      expect(query).toMatch(/count\(\) OVER \(PARTITION BY COALESCE\(transactions_current\.IdRegional, transactions_previous\.IdRegional\)\) AS _total_count/);
+      expect(query).toContain('LIMIT 5 BY _parent_0');
+    });
+
+    it('should reject parent dimensions outside the allowlist', async () => {
+      await expect(
+        builder.buildGroupedMultiTableYoYQuery({
+          metrics: [{ table: 'transactions', field: 'sales_price', aggregation: 'sum', alias: 'sales' }],
+          currentPeriodFilters: [],
+          groupBy: 'seller_id',
+          parentGroupBy: ['DROP TABLE'],
+        })
+      ).rejects.toThrow('Invalid field name');
+    });
+
     it('should use LEFT JOIN strategy from transactions_current', async () => {
       const mockResultSet = {
         json: vi.fn().mockResolvedValue([]),
@@ -760,5 +845,455 @@ describe('AnalyticsQueryBuilder', () => {
       expect(callArgs.query).toContain('ORDER BY sales ASC');
       expect(callArgs.query).not.toContain('ORDER BY sales asc');
     });
+
+    it('should drive the spine from the comparison period too with includePreviousGroups', async () => {
+      const client = createMockClient();
+      const metrics: MetricConfig[] = [
+        { table: 'transactions', field: 'sales_price', aggregation: 'sum', alias: 'sales' },
+      ];
+
+      await new AnalyticsQueryBuilder(client).buildGroupedMultiTableYoYQuery({
+        metrics,
+        currentPeriodFilters: [],
+        groupBy: 'seller_id',
+        includeAllGroups: true,
+        includePreviousGroups: true,
+      });
+
+      const { query } = vi.mocked(client.query).mock.calls
+        .map(([config]) => config as { query: string })
+        .find((config) => config.query.includes('all_ids AS ('))!;
+      expect(query).toContain('SELECT seller_id FROM transactions_current');
+      expect(query).toContain('SELECT seller_id FROM transactions_previous');
+    });
+
+    it('should keep only the rows that meet a having condition, most extreme first', async () => {
+      const client = createMockClient();
+      const metrics: MetricConfig[] = [
+        { table: 'transactions', field: 'sales_price', aggregation: 'sum', alias: 'sales' },
+      ];
+
+      await new AnalyticsQueryBuilder(client).buildGroupedMultiTableYoYQuery({
+        metrics,
+        currentPeriodFilters: [],
+        groupBy: 'customer_id',
+        limit: 500,
+        having: { field: 'sales_vs_last_year', operator: 'lt', value: -10 },
+      });
+
+      const { query, query_params } = vi.mocked(client.query).mock.calls
+        .map(([config]) => config as { query: string; query_params: Record<string, unknown> })
+        .find((config) => config.query.includes('having_value'))!;
+      expect(query).toContain('WHERE sales_vs_last_year < {having_value:Float64}');
+      expect(query).toMatch(/ORDER BY sales_vs_last_year ASC\s+LIMIT 500\s*$/);
+      expect(query).not.toContain('_total_count');
+      expect(query_params).toHaveProperty('having_value', '-10');
+    });
+
+    it('should compare missing base metrics as 0 and reject other having fields', async () => {
+      const client = createMockClient();
+      const metrics: MetricConfig[] = [
+        { table: 'transactions', field: 'sales_price', aggregation: 'sum', alias: 'sales' },
+      ];
+      const builder = new AnalyticsQueryBuilder(client);
+
+      await builder.buildGroupedMultiTableYoYQuery({
+        metrics,
+        currentPeriodFilters: [],
+        groupBy: 'customer_id',
+        having: { field: 'sales_last_year', operator: 'gte', value: 1000 },
+      });
+
+      const { query } = vi.mocked(client.query).mock.calls
+        .map(([config]) => config as { query: string })
+        .find((config) => config.query.includes('having_value'))!;
+      expect(query).toContain('WHERE ifNull(sales_ly, 0) >= {having_value:Float64}');
+      expect(query).toContain('ORDER BY ifNull(sales_ly, 0) DESC');
+
+      await expect(builder.buildGroupedMultiTableYoYQuery({
+        metrics,
+        currentPeriodFilters: [],
+        groupBy: 'customer_id',
+        having: { field: 'sales; DROP TABLE x', operator: 'gt', value: 0 },
+      })).rejects.toThrow('Invalid having field');
+    });
+  });
+
+  describe('buildTimeSeriesQuery', () => {
+    const seriesQuery = (client: ClickHouseClient): { query: string; query_params: Record<string, unknown> } =>
+      vi.mocked(client.query).mock.calls
+        .map(([config]) => config as { query: string; query_params: Record<string, unknown> })
+        .find((config) => config.query.includes('WITH'))!;
+
+    it('should apply dimension filters to budget and spread it over the days with sales', async () => {
+      // Fresh builder so the table prefix set in beforeEach applies
+      const client = createMockClient();
+      await new AnalyticsQueryBuilder(client).buildTimeSeriesQuery({
+        filters: [
+          { field: 'date', operator: 'gte', value: '2026-03-01' },
+          { field: 'date', operator: 'lte', value: '2026-03-31' },
+          { field: 'IdRegional', operator: 'eq', value: 'RTL' },
+        ],
+        granularity: 'day',
+      });
+
+      const { query, query_params } = seriesQuery(client);
+      expect(query).toContain('FROM dyna_budget');
+      expect(query).toContain('IdRegional = {series_budget_IdRegional_2:String}');
+      expect(query).toContain('/ nullIf(max(d.Dias_habiles), 0) AS budget');
+      expect(query).toContain('FROM numbers(');
+      expect(query).toContain('s.sales AS sales');
+      expect(query).toContain('s.budget AS budget');
+      expect(query_params).toHaveProperty('series_start', '2026-03-01');
+    });
+
+    it('should compute rolling windows over a lookback and trim it from the result', async () => {
+      const client = createMockClient();
+      await new AnalyticsQueryBuilder(client).buildTimeSeriesQuery({
+        filters: [
+          { field: 'date', operator: 'gte', value: '2026-03-10' },
+          { field: 'date', operator: 'lte', value: '2026-03-31' },
+        ],
+        granularity: 'day',
+        metrics: ['sales'],
+        transform: 'rolling_7d',
+        lastYear: 'same_weekday',
+      });
+
+      const { query, query_params } = seriesQuery(client);
+      expect(query_params).toHaveProperty('series_start', '2026-03-04');
+      expect(query_params).toHaveProperty('series_transactions_last_year_date_0', '2025-03-05');
+      expect(query).toContain('addDays(toDate(date), 364)');
+      expect(query).toContain('sum(sales) OVER (ORDER BY period ROWS BETWEEN 6 PRECEDING AND CURRENT ROW) AS sales');
+      expect(query).toContain('s.sales_last_year AS sales_last_year');
+      expect(query).toContain('WHERE s.period >= toString(toDate({series_from:String}))');
+    });
+
+    it('should inline calculated metrics and group by period start', async () => {
+      const client = createMockClient();
+      await new AnalyticsQueryBuilder(client).buildTimeSeriesQuery({
+        filters: [],
+        granularity: 'quarter',
+        metrics: ['budget_achievement_pct'],
+      });
+
+      const { query } = seriesQuery(client);
+      expect(query).toContain('toString(toStartOfQuarter(toDate(date))) AS period');
+      expect(query).toMatch(/s\.sales/);
+      expect(query).toMatch(/s\.budget/);
+      expect(query).toContain('AS budget_achievement_pct');
+    });
+
+    it('should reject unknown metrics and unsupported transforms', async () => {
+      await expect(builder.buildTimeSeriesQuery({ filters: [], granularity: 'day', metrics: ['nope'] }))
+        .rejects.toThrow('Unknown metric: nope');
+      await expect(builder.buildTimeSeriesQuery({ filters: [], granularity: 'week', transform: 'mtd' }))
+        .rejects.toThrow('requires granularity day');
+      await expect(builder.buildTimeSeriesQuery({ filters: [], granularity: 'day', transform: 'mtd' }))
+        .rejects.toThrow('requires startDate and endDate');
+    });
+  });
+
+  describe('buildDailyOutliersQuery', () => {
+    it('should score the days of the report range against the scoped baseline window', async () => {
+      const client = createMockClient();
+
+      await new AnalyticsQueryBuilder(client)
+        .withScope([{ field: 'IdRegional', operator: 'eq', value: '0019' }])
+        .buildDailyOutliersQuery({
+          filters: [
+            { field: 'date', operator: 'gte', value: '2026-07-03' },
+            { field: 'date', operator: 'lte', value: '2026-09-30' },
+          ],
+          groupBy: 'seller_id',
+          reportFrom: '2026-09-01',
+          threshold: 3.5,
+          minDays: 7,
+          limit: 10,
+        });
+
+      const { query, query_params } = vi.mocked(client.query).mock.calls
+        .map(([config]) => config as { query: string; query_params: Record<string, unknown> })
+        .find((config) => config.query.includes('medianExact'))!;
+      expect(query).toContain('FROM dyna_transactions');
+      expect(query).toContain('IdRegional');
+      expect(query).toContain('0.6745 * (d.sales - m.median_sales) / v.mad AS z_score');
+      expect(query_params).toMatchObject({
+        outliers_from: '2026-09-01',
+        outliers_threshold: '3.5',
+        outliers_min_days: '7',
+        outliers_limit: '10',
+      });
+    });
+
+    it('should return no outliers when transactions lack a filtered column', async () => {
+      const client = createMockClient();
+
+      const result = await new AnalyticsQueryBuilder(client).buildDailyOutliersQuery({
+        filters: [{ field: 'brand', operator: 'eq', value: 'VERA' }],
+        groupBy: 'seller_id',
+        reportFrom: '2026-09-01',
+        threshold: 3.5,
+        minDays: 7,
+        limit: 10,
+      });
+
+      expect(result).toEqual([]);
+      expect(vi.mocked(client.query)).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('buildPriceVolumeMixQuery', () => {
+    const columns = (names: string[]) => names.map((column_name) => ({ table_name: 'dyna_transactions', column_name }));
+
+    it('should aggregate both periods per group and item with the discovered quantity column', async () => {
+      const client = createMockClient();
+      vi.mocked(client.query).mockImplementation((config: any) => Promise.resolve({
+        json: vi.fn().mockResolvedValue(
+          config.query?.includes('system.columns')
+            ? columns(['date', 'sales_price', 'gross_margin', 'Cantidad', 'seller_id', 'seller_name', 'Marca'])
+            : []
+        ),
+      }) as any);
+
+      const result = await new AnalyticsQueryBuilder(client).buildPriceVolumeMixQuery({
+        currentPeriodFilters: [
+          { field: 'date', operator: 'gte', value: '2026-09-01' },
+          { field: 'date', operator: 'lte', value: '2026-09-30' },
+        ],
+        groupBy: 'seller_id',
+        itemLevel: 'Marca',
+        quantityColumns: ['quantity', 'Cantidad'],
+      });
+
+      expect(result).toEqual({ quantityColumn: 'Cantidad', rows: [] });
+      const { query, query_params } = vi.mocked(client.query).mock.calls
+        .map(([config]) => config as { query: string; query_params: Record<string, unknown> })
+        .find((config) => config.query.includes('sales_at_previous_price'))!;
+      expect(query).toContain('toFloat64(Cantidad) AS q1');
+      expect(query).toContain('toFloat64(Cantidad) AS q0');
+      expect(query).toContain('trimBoth(toString(Marca)) AS item');
+      expect(query).toContain('GROUP BY id, item');
+      // Comparison period: the same range a year earlier
+      expect(Object.values(query_params)).toEqual(expect.arrayContaining(['2025-09-01', '2025-09-30']));
+    });
+
+    it('should return null without a quantity column', async () => {
+      const client = createMockClient();
+
+      const result = await new AnalyticsQueryBuilder(client).buildPriceVolumeMixQuery({
+        currentPeriodFilters: [],
+        groupBy: 'seller_id',
+        itemLevel: 'product_id',
+        quantityColumns: ['quantity'],
+      });
+
+      expect(result).toBeNull();
+      expect(vi.mocked(client.query)).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('projection', () => {
+    const metrics: MetricConfig[] = [
+      { table: 'transactions', field: 'sales_price', aggregation: 'sum', alias: 'sales' },
+      { table: 'budget', field: 'sales_price', aggregation: 'sum', alias: 'budget_full' },
+      { table: 'pedidos_retenidos', field: 'sales_price', aggregation: 'sum', alias: 'orders' },
+    ];
+    const march: FilterCondition[] = [
+      { field: 'date', operator: 'gte', value: '2026-03-01' },
+      { field: 'date', operator: 'lte', value: '2026-03-15' },
+    ];
+    const analyticsQuery = (client: ClickHouseClient): { query: string; query_params: Record<string, unknown> } =>
+      vi.mocked(client.query).mock.calls
+        .map(([config]) => config as { query: string; query_params: Record<string, unknown> })
+        .find((config) => config.query.includes('WITH'))!;
+
+    it('should project the run-rate by business days to the end of the month', async () => {
+      const client = createMockClient();
+      await new AnalyticsQueryBuilder(client).buildMultiTableYoYQuery({
+        metrics,
+        currentPeriodFilters: march,
+        projection: 'linear',
+      });
+
+      const { query, query_params } = analyticsQuery(client);
+      expect(query).toContain('projection_calendar AS (');
+      expect(query).toContain('FROM dyna_fnc_dias_ppto');
+      expect(query).toContain('CROSS JOIN projection_calendar');
+      expect(query).toContain('projection_calendar.business_days / projection_calendar.elapsed_days, NULL) AS projected_close');
+      expect(query).toContain('AS projected_gap');
+      expect(query).toContain('AS required_daily_sales');
+      expect(query_params).toHaveProperty('projection_start', '2026-03-01');
+      expect(query_params).toHaveProperty('projection_period_end', '2026-03-31');
+    });
+
+    it('should key seasonal history on the grouped dimension', async () => {
+      const client = createMockClient();
+      await new AnalyticsQueryBuilder(client).buildGroupedMultiTableYoYQuery({
+        metrics,
+        currentPeriodFilters: march,
+        groupBy: 'seller_id',
+        projection: 'seasonal',
+      });
+
+      const { query, query_params } = analyticsQuery(client);
+      expect(query).toContain('projection_last_year AS (');
+      expect(query).toContain('trimBoth(seller_id) AS seller_id');
+      expect(query).toMatch(/LEFT JOIN projection_last_year ON \w+\.seller_id = projection_last_year\.seller_id/);
+      expect(query_params).toHaveProperty('projection_ly_end', '2025-03-15');
+    });
+
+    it('should smooth the daily sales of the range', async () => {
+      const client = createMockClient();
+      await new AnalyticsQueryBuilder(client).buildMultiTableYoYQuery({
+        metrics,
+        currentPeriodFilters: march,
+        projection: 'smoothing',
+      });
+
+      const { query } = analyticsQuery(client);
+      expect(query).toContain('projection_smoothing AS (');
+      expect(query).toContain('pow(1 - 0.3, n - i)');
+      expect(query).toContain('CROSS JOIN projection_smoothing');
+    });
+
+    it('should require a closed range and a monthly or longer series', async () => {
+      await expect(builder.buildMultiTableYoYQuery({ metrics, currentPeriodFilters: [], projection: 'linear' }))
+        .rejects.toThrow('projection requires startDate and endDate');
+      await expect(builder.buildTimeSeriesQuery({ filters: march, granularity: 'day', projection: 'linear' }))
+        .rejects.toThrow('projection requires granularity month, quarter or year');
+    });
+  });
+
+  describe('withScope', () => {
+    const metrics: MetricConfig[] = [
+      {
+        table: 'transactions',
+        field: 'sales_price',
+        aggregation: 'sum',
+        alias: 'sales',
+      },
+    ];
+    const scope: FilterCondition[] = [{ field: 'IdRegional', operator: 'eq', value: 'RTL' }];
+
+    it('should append the scope to both periods of every query', async () => {
+      await builder.withScope(scope).buildMultiTableYoYQuery({
+        metrics,
+        currentPeriodFilters: [{ field: 'date', operator: 'gte', value: '2025-01-01' }],
+      });
+
+      const callArgs = vi.mocked(mockClient.query).mock.calls[1]![0];
+      expect(callArgs.query_params).toHaveProperty('current_transactions_IdRegional_1', 'RTL');
+      expect(callArgs.query_params).toHaveProperty('previous_transactions_IdRegional_1', 'RTL');
+    });
+
+    it('should append the scope to explicit comparison filters', async () => {
+      await builder.withScope(scope).buildGroupedMultiTableYoYQuery({
+        metrics,
+        currentPeriodFilters: [],
+        comparisonFilters: [],
+        groupBy: 'seller_id',
+      });
+
+      const callArgs = vi.mocked(mockClient.query).mock.calls[1]![0];
+      expect(callArgs.query_params).toHaveProperty('current_transactions_IdRegional_0', 'RTL');
+      expect(callArgs.query_params).toHaveProperty('previous_transactions_IdRegional_0', 'RTL');
+    });
+
+    it('should apply the scope to distinct values', async () => {
+      await builder.withScope(scope).buildDistinctValuesQuery({
+        table: 'transactions',
+        column: 'seller_id',
+        filters: [],
+      });
+
+      const callArgs = vi.mocked(mockClient.query).mock.calls.at(-1)![0];
+      expect(callArgs.query).toContain('IdRegional = {filter_IdRegional_0:String}');
+      expect(callArgs.query_params).toHaveProperty('filter_IdRegional_0', 'RTL');
+    });
+
+    it('should leave the original builder unscoped', async () => {
+      builder.withScope(scope);
+
+      await builder.buildDistinctValuesQuery({
+        table: 'transactions',
+        column: 'seller_id',
+        filters: [],
+      });
+
+      const callArgs = vi.mocked(mockClient.query).mock.calls.at(-1)![0];
+      expect(callArgs.query).not.toContain('IdRegional');
+    });
+  });
+
+  describe('buildDistinctValuesQuery', () => {
+    const lastCall = () => vi.mocked(mockClient.query).mock.calls.at(-1)![0];
+
+    it('should return id/name pairs with rows and sales under the filters', async () => {
+      vi.mocked(mockClient.query).mockImplementation((config: any) => Promise.resolve({
+        json: vi.fn().mockResolvedValue(config.query?.includes('system.columns')
+          ? [
+            { table_name: 'dyna_transactions', column_name: 'date' },
+            { table_name: 'dyna_transactions', column_name: 'sales_price' },
+            { table_name: 'dyna_transactions', column_name: 'IdRegional' },
+            { table_name: 'dyna_transactions', column_name: 'Regional' },
+            { table_name: 'dyna_transactions', column_name: 'Marca' },
+          ]
+          : [{ id: '01', name: 'Bogotá', row_count: '12', sales: '3400.5' }]),
+      }) as any);
+
+      const result = await builder.buildDistinctValuesQuery({
+        table: 'transactions',
+        column: 'IdRegional',
+        filters: [{ field: 'Marca', operator: 'eq', value: 'ACME' }],
+        orderBy: 'sales',
+        limit: 50,
+      });
+
+      expect(result).toEqual([{ id: '01', name: 'Bogotá', rows: 12, sales: 3400.5 }]);
+      const callArgs = lastCall();
+      expect(callArgs.query).toContain('any(trimBoth(Regional)) AS name');
+      expect(callArgs.query).toContain('Marca = {filter_Marca_0:String}');
+      expect(callArgs.query).toContain('ORDER BY sales DESC, name ASC');
+      expect(callArgs.query).toContain('LIMIT 50');
+      expect(callArgs.query_params).toHaveProperty('filter_Marca_0', 'ACME');
+    });
+
+    it('should use the id as name when the table has no name column', async () => {
+      await builder.buildDistinctValuesQuery({ table: 'budget', column: 'IdRegional', filters: [] });
+
+      const callArgs = lastCall();
+      expect(callArgs.query).toContain('FROM dyna_budget');
+      expect(callArgs.query).toContain('any(trimBoth(IdRegional)) AS name');
+      expect(callArgs.query).toContain('ORDER BY name ASC');
+    });
+
+    it('should rank the search matches before the order', async () => {
+      await builder.buildDistinctValuesQuery({ table: 'transactions', column: 'seller_id', filters: [], search: ' Gómez ', orderBy: 'rows' });
+
+      const callArgs = lastCall();
+      expect(callArgs.query_params).toMatchObject({ search: 'gómez', search_word: ' gómez' });
+      expect(callArgs.query).toContain('startsWith(lowerUTF8(trimBoth(seller_id)), {search:String})');
+      expect(callArgs.query).toContain('ngramSearchUTF8(');
+      expect(callArgs.query).toContain('ORDER BY match_rank ASC, row_count DESC, name ASC');
+    });
+
+    it('should not fuzzy match short search terms', async () => {
+      await builder.buildDistinctValuesQuery({ table: 'transactions', column: 'seller_id', filters: [], search: 'go' });
+
+      expect(lastCall().query).not.toContain('ngramSearchUTF8(');
+    });
+
+    it('should return no values when the table lacks the column or a filter column', async () => {
+      await expect(builder.buildDistinctValuesQuery({ table: 'budget', column: 'seller_id', filters: [] }))
+        .resolves.toEqual([]);
+      await expect(builder.buildDistinctValuesQuery({
+        table: 'budget',
+        column: 'IdRegional',
+        filters: [{ field: 'seller_id', operator: 'eq', value: '7' }],
+      })).resolves.toEqual([]);
+
+      expect(vi.mocked(mockClient.query).mock.calls.every(([config]) => config.query.includes('system.columns'))).toBe(true);
+    });
   });
 });
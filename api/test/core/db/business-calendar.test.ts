@@ -0,0 +1,34 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ClickHouseClient } from '@clickhouse/client';
+import { BusinessCalendar } from '../../../src/core/db/clickhouse/query/business-calendar.js';
+
+describe('BusinessCalendar', () => {
+  beforeEach(() => {
+    process.env['TABLE_PREFIX'] = 'dyna_';
+  });
+
+  it('should read the days with sales and the planned business days of the months', async () => {
+    const query = vi.fn().mockResolvedValue({
+      json: vi.fn().mockResolvedValue([{ days: ['2026-03-02', '2026-03-03'], planned_days: '24' }]),
+    });
+    const calendar = new BusinessCalendar({ query } as unknown as ClickHouseClient);
+
+    const result = await calendar.getBusinessDays({ startDate: '2026-03-01', endDate: '2026-03-31' });
+
+    expect(result).toEqual({ days: ['2026-03-02', '2026-03-03'], plannedDays: 24 });
+    expect(query).toHaveBeenCalledTimes(1);
+    const { query: sql, query_params } = query.mock.calls[0]![0] as { query: string; query_params: Record<string, unknown> };
+    expect(sql).toContain('FROM dyna_transactions');
+    expect(sql).toContain('FROM dyna_fnc_dias_ppto');
+    expect(sql).toContain('arraySort(groupUniqArray(toString(toDate(date))))');
+    expect(query_params).toEqual({ business_start: '2026-03-01', business_end: '2026-03-31' });
+  });
+
+  it('should default to no days without rows', async () => {
+    const query = vi.fn().mockResolvedValue({ json: vi.fn().mockResolvedValue([]) });
+    const calendar = new BusinessCalendar({ query } as unknown as ClickHouseClient);
+
+    expect(await calendar.getBusinessDays({ startDate: '2026-03-01', endDate: '2026-03-31' }))
+      .toEqual({ days: [], plannedDays: 0 });
+  });
+});
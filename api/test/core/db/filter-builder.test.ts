@@ -382,6 +382,22 @@ describe('FilterBuilder', () => {
       }).toThrow('Invalid field name format');
     });
 
+    it('should return the conditions unjoined for queries with conditions of their own', () => {
+      const filters: FilterCondition[] = [
+        { field: 'channel', operator: 'eq', value: 'DISTRIBUCION' },
+        { field: 'amount', operator: 'gt', value: '0' },
+      ];
+      const queryParams: Record<string, string | string[]> = {};
+      const columnMap = new Map<string, Set<string>>([
+        ['dyna_transactions', new Set(['channel'])],
+      ]);
+
+      const conditions = builder.buildConditionsForTable(filters, queryParams, 'f', 'dyna_transactions', columnMap);
+
+      expect(conditions).toEqual(['channel = {f_channel_0:String}']);
+      expect(builder.buildConditionsForTable([], queryParams, 'f', 'dyna_transactions', columnMap)).toEqual([]);
+    });
+
     it('should handle table not in column map', () => {
       const filters: FilterCondition[] = [
         { field: 'date', operator: 'eq', value: '2025-01-01' },
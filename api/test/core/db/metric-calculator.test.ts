@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { MetricCalculator } from '../../../src/core/db/clickhouse/query/metric-calculator.js';
 import { CALCULATED_METRICS } from '../../../src/core/config/metrics.config.js';
 import type { MetricConfig } from '../../../src/core/db/clickhouse/query/types.js';
+import { compileCustomMetric } from '../../../src/core/metrics/custom-metric.js';
 
 describe('MetricCalculator', () => {
   let calculator: MetricCalculator;
@@ -269,5 +270,23 @@ describe('MetricCalculator', () => {
         expect(found).toBeDefined();
       }
     });
+
+    it('should add custom metrics whose dependencies are available', () => {
+      const selects: string[] = [];
+      const metricsByTable = new Map<string, MetricConfig[]>([
+        ['transactions', [{ table: 'transactions', field: 'sales_price', aggregation: 'sum', alias: 'sales' }]],
+      ]);
+
+      calculator.addCalculatedMetrics(selects, metricsByTable, undefined, false, [
+        compileCustomMetric('sales_growth', 'safeDiv({sales} - {sales_last_year}, {sales_last_year}) * 100'),
+        compileCustomMetric('budget_gap', '{budget} - {sales}'),
+      ]);
+
+      expect(selects).toContain(
+        'if(transactions_previous.sales_ly != 0, (transactions_current.sales - transactions_previous.sales_ly) / transactions_previous.sales_ly, 0) * 100 AS custom_sales_growth'
+      );
+      // budget is not in the query
+      expect(selects.find((s) => s.includes('AS custom_budget_gap'))).toBeUndefined();
+    });
   });
 });
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Fastify from 'fastify';
+import type { ClickHouseClient } from '@clickhouse/client';
+import { queryRows, streamRows } from '../../../src/core/db/clickhouse/observed-query.js';
+import { queryMonitor } from '../../../src/core/observability/query-monitor.js';
+import { registerRequestContext } from '../../../src/core/observability/request-context.js';
+
+const SUMMARY = { 'x-clickhouse-summary': JSON.stringify({ read_rows: '1200', read_bytes: '48000' }) };
+
+function mockClient(resultSet: Record<string, unknown>) {
+  const query = vi.fn().mockResolvedValue({ response_headers: SUMMARY, ...resultSet });
+  return { client: { query } as unknown as ClickHouseClient, query };
+}
+
+describe('observed queries', () => {
+  beforeEach(() => {
+    queryMonitor.reset();
+    queryMonitor.configure({ slowThresholdMs: 0, slowLogSize: 10 });
+  });
+
+  describe('queryRows', () => {
+    it('should run the query with a query id and record it', async () => {
+      const { client, query } = mockClient({ json: vi.fn().mockResolvedValue([{ a: 1 }, { a: 2 }]) });
+
+      const rows = await queryRows(client, { kind: 'yoy', query: 'SELECT a', queryParams: { p: '1' } });
+
+      expect(rows).toEqual([{ a: 1 }, { a: 2 }]);
+      const request = query.mock.calls[0]![0];
+      expect(request).toEqual({
+        query: 'SELECT a',
+        query_params: { p: '1' },
+        query_id: expect.any(String),
+        format: 'JSONEachRow',
+      });
+
+      const [recorded] = queryMonitor.slowQueries();
+      expect(recorded).toMatchObject({
+        queryId: request.query_id,
+        kind: 'yoy',
+        requestId: null,
+        readRows: 1200,
+        readBytes: 48000,
+        resultRows: 2,
+        error: null,
+        sql: 'SELECT a',
+      });
+    });
+
+    it('should pass the ClickHouse settings', async () => {
+      const { client, query } = mockClient({ json: vi.fn().mockResolvedValue([]) });
+
+      await queryRows(client, { kind: 'distinct-values', query: 'SELECT 1', queryParams: {}, clickhouseSettings: { max_threads: 2 } });
+
+      expect(query.mock.calls[0]![0].clickhouse_settings).toEqual({ max_threads: 2 });
+    });
+
+    it('should record failures and rethrow', async () => {
+      const query = vi.fn().mockRejectedValue(new Error('Timeout exceeded'));
+
+      await expect(
+        queryRows({ query } as unknown as ClickHouseClient, { kind: 'yoy', query: 'SELECT 1', queryParams: {} })
+      ).rejects.toThrow('Timeout exceeded');
+
+      expect(queryMonitor.slowQueries()[0]).toMatchObject({ error: 'Timeout exceeded', resultRows: null, readRows: null });
+      expect(queryMonitor.stats()[0]).toMatchObject({ kind: 'yoy', count: 1, errors: 1 });
+    });
+
+    it('should tolerate a missing or invalid summary header', async () => {
+      const json = vi.fn().mockResolvedValue([]);
+      const query = vi.fn()
+        .mockResolvedValueOnce({ json })
+        .mockResolvedValueOnce({ json, response_headers: { 'x-clickhouse-summary': 'not json' } });
+      const client = { query } as unknown as ClickHouseClient;
+
+      await queryRows(client, { kind: 'a', query: 'SELECT 1', queryParams: {} });
+      await queryRows(client, { kind: 'b', query: 'SELECT 1', queryParams: {} });
+
+      for (const recorded of queryMonitor.slowQueries()) {
+        expect(recorded).toMatchObject({ readRows: null, readBytes: null, resultRows: 0 });
+      }
+    });
+
+    it('should record the id of the request that ran the query', async () => {
+      const { client } = mockClient({ json: vi.fn().mockResolvedValue([]) });
+      const app = Fastify({ logger: false, genReqId: () => 'req-42' });
+      registerRequestContext(app);
+      app.get('/data', async () => {
+        await queryRows(client, { kind: 'yoy', query: 'SELECT 1', queryParams: {} });
+        return { ok: true };
+      });
+
+      await app.inject({ method: 'GET', url: '/data' });
+
+      expect(queryMonitor.slowQueries()[0]!.requestId).toBe('req-42');
+    });
+  });
+
+  describe('streamRows', () => {
+    function streamOf(...batches: Array<Array<Record<string, unknown>>>) {
+      return vi.fn().mockReturnValue((async function* () {
+        for (const batch of batches) yield batch.map((row) => ({ json: () => row }));
+      })());
+    }
+
+    it('should yield every row and record the query when the stream ends', async () => {
+      const { client } = mockClient({ stream: streamOf([{ a: 1 }, { a: 2 }], [{ a: 3 }]) });
+
+      const rows = [];
+      for await (const row of streamRows(client, { kind: 'grouped-yoy-stream', query: 'SELECT a', queryParams: {} })) {
+        rows.push(row);
+      }
+
+      expect(rows).toEqual([{ a: 1 }, { a: 2 }, { a: 3 }]);
+      expect(queryMonitor.slowQueries()).toHaveLength(1);
+      expect(queryMonitor.slowQueries()[0]).toMatchObject({ kind: 'grouped-yoy-stream', resultRows: 3, readRows: 1200 });
+    });
+
+    it('should record the rows read by a consumer that stops early', async () => {
+      const { client } = mockClient({ stream: streamOf([{ a: 1 }, { a: 2 }], [{ a: 3 }]) });
+
+      for await (const row of streamRows(client, { kind: 'grouped-yoy-stream', query: 'SELECT a', queryParams: {} })) {
+        if (row) break;
+      }
+
+      expect(queryMonitor.slowQueries()[0]).toMatchObject({ resultRows: 1, error: null });
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Resend } from 'resend';
+import {
+  MemoryEmailTransport,
+  ResendEmailTransport,
+  createEmailTransport,
+  type EmailMessage,
+} from '../../../src/core/email/email-transport.js';
+
+const message: EmailMessage = {
+  to: 'user@example.com',
+  subject: 'Ventas por regional',
+  html: '<p>Reporte</p>',
+  attachments: [{ filename: 'ventas.xlsx', content: Buffer.from('xlsx'), contentType: 'application/octet-stream' }],
+  headers: { 'List-Unsubscribe': '<https://api.example.com/unsubscribe>' },
+};
+
+function resendClient(response: { data: unknown; error: unknown }) {
+  const send = vi.fn().mockResolvedValue(response);
+  return { client: { emails: { send } } as unknown as Resend, send };
+}
+
+describe('Email transport', () => {
+  describe('ResendEmailTransport', () => {
+    it('should send the message with attachments and headers', async () => {
+      const { client, send } = resendClient({ data: { id: 'email-1' }, error: null });
+
+      await new ResendEmailTransport(client, 'DynaInfo <no-reply@example.com>').send(message);
+
+      expect(send).toHaveBeenCalledWith({
+        from: 'DynaInfo <no-reply@example.com>',
+        to: 'user@example.com',
+        subject: 'Ventas por regional',
+        html: '<p>Reporte</p>',
+        attachments: [{ filename: 'ventas.xlsx', content: message.attachments![0]!.content, contentType: 'application/octet-stream' }],
+        headers: { 'List-Unsubscribe': '<https://api.example.com/unsubscribe>' },
+      });
+    });
+
+    it('should throw on API errors returned in the response', async () => {
+      const { client } = resendClient({ data: null, error: { message: 'Invalid from address', name: 'validation_error' } });
+
+      await expect(new ResendEmailTransport(client, 'x@example.com').send(message))
+        .rejects.toThrow('Resend error: Invalid from address');
+    });
+  });
+
+  describe('MemoryEmailTransport', () => {
+    it('should keep the messages in the outbox', async () => {
+      const transport = new MemoryEmailTransport();
+
+      await transport.send(message);
+
+      expect(transport.outbox).toEqual([message]);
+    });
+  });
+
+  describe('createEmailTransport', () => {
+    it('should pick the transport from the environment', () => {
+      vi.stubEnv('RESEND_API_KEY', 're_test');
+
+      expect(createEmailTransport({ EMAIL_TRANSPORT: 'memory', EMAIL_FROM: 'x@example.com' }).name).toBe('memory');
+      expect(createEmailTransport({ EMAIL_TRANSPORT: 'resend', EMAIL_FROM: 'x@example.com' }).name).toBe('resend');
+
+      vi.unstubAllEnvs();
+    });
+  });
+});
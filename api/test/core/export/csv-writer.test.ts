@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { encodeCsv, type CsvValue } from '../../../src/core/export/csv-writer.js';
+
+async function* rowsOf(rows: CsvValue[][]) {
+  yield* rows;
+}
+
+async function encode(header: string[], rows: CsvValue[][]): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of encodeCsv(header, rowsOf(rows))) chunks.push(chunk);
+  return chunks;
+}
+
+describe('encodeCsv', () => {
+  it('should write a BOM, the header and CRLF-terminated rows', async () => {
+    const csv = (await encode(['Nombre', 'Ventas'], [['Norte', 1500.5], ['Sur', 0]])).join('');
+
+    expect(csv).toBe('﻿Nombre,Ventas\r\nNorte,1500.5\r\nSur,0\r\n');
+  });
+
+  it('should quote values with separators, quotes or line breaks', async () => {
+    const csv = (await encode(['a'], [['Pérez, Juan'], ['Dice "hola"'], ['dos\nlíneas']])).join('');
+
+    expect(csv.split('\r\n').slice(1, 4)).toEqual(['"Pérez, Juan"', '"Dice ""hola"""', '"dos\nlíneas"']);
+  });
+
+  it('should write null and non-finite numbers as empty cells', async () => {
+    const csv = (await encode(['a', 'b', 'c'], [[null, Infinity, Number.NaN]])).join('');
+
+    expect(csv.split('\r\n')[1]).toBe(',,');
+  });
+
+  it('should neutralize text cells a spreadsheet would read as formulas', async () => {
+    const csv = (await encode(['a', 'b'], [['=HYPERLINK("x")', -5]])).join('');
+
+    expect(csv.split('\r\n')[1]).toBe('"\'=HYPERLINK(""x"")",-5');
+  });
+
+  it('should emit the rows in chunks', async () => {
+    const rows = Array.from({ length: 1200 }, (_, index): CsvValue[] => [index]);
+    const chunks = await encode(['n'], rows);
+
+    expect(chunks).toHaveLength(3);
+    expect(chunks.join('').split('\r\n')).toHaveLength(1202);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ExportFileStorage } from '../../../src/core/export/export-storage.js';
+
+async function readAll(stream: AsyncIterable<Buffer>): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+describe('ExportFileStorage', () => {
+  let dir: string;
+  let storage: ExportFileStorage;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'export-storage-'));
+    storage = new ExportFileStorage(join(dir, 'exports'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should save a buffer and read it back', async () => {
+    const size = await storage.save('job-1.xlsx', Buffer.from('workbook'));
+
+    expect(size).toBe(8);
+    const file = await storage.open('job-1.xlsx');
+    expect(file).not.toBeNull();
+    await expect(readAll(file!)).resolves.toBe('workbook');
+  });
+
+  it('should stream chunks to disk and report the bytes written', async () => {
+    const progress: number[] = [];
+    async function* body() {
+      yield 'a,b\r\n';
+      yield Buffer.from('1,2\r\n');
+    }
+
+    const size = await storage.save('job-2.csv', body(), (bytes) => progress.push(bytes));
+
+    expect(size).toBe(10);
+    expect(progress).toEqual([5, 10]);
+    await expect(readAll((await storage.open('job-2.csv'))!)).resolves.toBe('a,b\r\n1,2\r\n');
+  });
+
+  it('should not leave a file behind when the body fails', async () => {
+    async function* body() {
+      yield 'a,b\r\n';
+      throw new Error('ClickHouse timeout');
+    }
+
+    await expect(storage.save('job-3.csv', body())).rejects.toThrow('ClickHouse timeout');
+
+    await expect(storage.open('job-3.csv')).resolves.toBeNull();
+    await expect(readdir(join(dir, 'exports'))).resolves.toEqual([]);
+  });
+
+  it('should remove files and ignore missing ones', async () => {
+    await storage.save('job-4.parquet', Buffer.from('PAR1'));
+
+    await storage.remove('job-4.parquet');
+    await storage.remove('job-4.parquet');
+
+    await expect(storage.open('job-4.parquet')).resolves.toBeNull();
+  });
+
+  it('should reject keys outside the storage directory', async () => {
+    await expect(storage.open('../secrets.txt')).rejects.toThrow('Invalid export file key');
+    await expect(storage.save('a/b.csv', Buffer.from(''))).rejects.toThrow('Invalid export file key');
+  });
+});
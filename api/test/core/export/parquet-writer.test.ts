@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { parquetMetadata, parquetReadObjects } from 'hyparquet';
+import { encodeParquet, type ParquetColumn, type ParquetValue } from '../../../src/core/export/parquet-writer.js';
+
+const COLUMNS: ParquetColumn[] = [
+  { name: 'name', type: 'string' },
+  { name: 'sales', type: 'double' },
+];
+
+async function* rowsOf(rows: ParquetValue[][]) {
+  yield* rows;
+}
+
+async function encode(rows: ParquetValue[][], rowGroupSize?: number): Promise<Buffer[]> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of encodeParquet(COLUMNS, rowsOf(rows), rowGroupSize)) chunks.push(chunk);
+  return chunks;
+}
+
+function arrayBufferOf(chunks: Buffer[]): ArrayBuffer {
+  const file = Buffer.concat(chunks);
+  return file.buffer.slice(file.byteOffset, file.byteOffset + file.length) as ArrayBuffer;
+}
+
+// Read back with an independent reader
+async function read(chunks: Buffer[]) {
+  return parquetReadObjects({ file: arrayBufferOf(chunks) });
+}
+
+describe('encodeParquet', () => {
+  it('should frame the file with the magic number', async () => {
+    const file = Buffer.concat(await encode([['Norte', 1500.5]]));
+
+    expect(file.subarray(0, 4).toString('ascii')).toBe('PAR1');
+    expect(file.subarray(-4).toString('ascii')).toBe('PAR1');
+  });
+
+  it('should declare optional UTF-8 string and double columns', async () => {
+    const metadata = parquetMetadata(arrayBufferOf(await encode([['Norte', 1500.5]])));
+
+    expect(metadata.schema.slice(1)).toEqual([
+      expect.objectContaining({ name: 'name', type: 'BYTE_ARRAY', converted_type: 'UTF8', repetition_type: 'OPTIONAL' }),
+      expect.objectContaining({ name: 'sales', type: 'DOUBLE', repetition_type: 'OPTIONAL' }),
+    ]);
+  });
+
+  it('should read back the values, nulls and UTF-8 strings', async () => {
+    const rows = await read(await encode([
+      ['Ñuñoa Distribución', 1500.5],
+      [null, -2],
+      ['Café ☕ 北京', null],
+      ['', 0],
+    ]));
+
+    expect(rows).toEqual([
+      { name: 'Ñuñoa Distribución', sales: 1500.5 },
+      { name: null, sales: -2 },
+      { name: 'Café ☕ 北京', sales: null },
+      { name: '', sales: 0 },
+    ]);
+  });
+
+  it('should emit one chunk per row group', async () => {
+    const rows = Array.from({ length: 25 }, (_, index): ParquetValue[] => [`r${index}`, index]);
+    const chunks = await encode(rows, 10);
+
+    // Magic, three row groups, footer
+    expect(chunks).toHaveLength(5);
+    const metadata = parquetMetadata(arrayBufferOf(chunks));
+    expect(metadata.row_groups.map((group) => Number(group.num_rows))).toEqual([10, 10, 5]);
+    expect(await read(chunks)).toEqual(rows.map(([name, sales]) => ({ name, sales })));
+  });
+
+  it('should write non-finite doubles as nulls', async () => {
+    const rows = await read(await encode([['a', Infinity], ['b', NaN]]));
+
+    expect(rows).toEqual([{ name: 'a', sales: null }, { name: 'b', sales: null }]);
+  });
+
+  it('should write a valid file without rows', async () => {
+    const chunks = await encode([]);
+
+    expect(chunks).toHaveLength(2);
+    expect(Number(parquetMetadata(arrayBufferOf(chunks)).num_rows)).toBe(0);
+    expect(await read(chunks)).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { encodeTabular, prefetchRows, type TabularColumn } from '../../../src/core/export/tabular-export.js';
+
+interface Row {
+  name: string;
+  sales: number;
+}
+
+const COLUMNS: Array<TabularColumn<Row>> = [
+  { name: 'name', header: 'Nombre', type: 'string', value: (row) => row.name },
+  { name: 'sales', header: 'Ventas', type: 'double', value: (row) => row.sales },
+];
+
+async function* rowsOf(rows: Row[]) {
+  yield* rows;
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe('tabular export', () => {
+  describe('encodeTabular', () => {
+    it('should write the CSV headers and the column values', async () => {
+      const csv = (await collect(encodeTabular('csv', COLUMNS, rowsOf([{ name: 'Norte', sales: 10 }])))).join('');
+
+      expect(csv).toBe('﻿Nombre,Ventas\r\nNorte,10\r\n');
+    });
+
+    it('should name the Parquet columns by their name', async () => {
+      const file = Buffer.concat((await collect(encodeTabular('parquet', COLUMNS, rowsOf([])))).map((chunk) => Buffer.from(chunk)));
+
+      expect(file.includes(Buffer.from('Nombre'))).toBe(false);
+      expect(file.includes(Buffer.from('sales'))).toBe(true);
+    });
+  });
+
+  describe('prefetchRows', () => {
+    it('should read the first row before returning', async () => {
+      const read: string[] = [];
+      const source = (async function* () {
+        read.push('a');
+        yield 'a';
+        read.push('b');
+        yield 'b';
+      })();
+
+      const rows = await prefetchRows(source);
+      expect(read).toEqual(['a']);
+      expect(await collect(rows)).toEqual(['a', 'b']);
+    });
+
+    it('should surface query errors before the download starts', async () => {
+      const source = (async function* () {
+        throw new Error('Invalid orderBy field');
+      })();
+
+      await expect(prefetchRows(source)).rejects.toThrow('Invalid orderBy field');
+    });
+
+    it('should close the source when the download is aborted', async () => {
+      let closed = false;
+      const source = (async function* () {
+        try {
+          yield 1;
+          yield 2;
+        } finally {
+          closed = true;
+        }
+      })();
+
+      for await (const row of await prefetchRows(source)) {
+        if (row === 1) break;
+      }
+      expect(closed).toBe(true);
+    });
+  });
+});
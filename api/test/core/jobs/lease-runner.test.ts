@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LeaseRunner } from '../../../src/core/jobs/lease-runner.js';
+
+const now = new Date('2026-03-23T11:00:00.000Z');
+
+const claimDue = vi.fn();
+const handle = vi.fn();
+const beforeClaim = vi.fn();
+
+describe('LeaseRunner', () => {
+  let runner: LeaseRunner<string>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    runner = new LeaseRunner({
+      name: 'Test runner',
+      errorType: 'test_runner_error',
+      intervalMs: 60_000,
+      leaseMs: 1000,
+      batchSize: 5,
+      claimDue,
+      handle,
+      beforeClaim,
+    }, 'instance-1');
+    claimDue.mockResolvedValue(['a', 'b']);
+    handle.mockResolvedValue(1);
+    beforeClaim.mockResolvedValue(undefined);
+  });
+
+  it('should claim for this instance and sum the handler results', async () => {
+    handle.mockResolvedValueOnce(2);
+
+    await expect(runner.tick(now)).resolves.toBe(3);
+
+    expect(beforeClaim).toHaveBeenCalledWith(now);
+    expect(claimDue).toHaveBeenCalledWith('instance-1', now, 1000, 5);
+    expect(handle).toHaveBeenCalledWith('a', 'instance-1', now);
+    expect(handle).toHaveBeenCalledWith('b', 'instance-1', now);
+  });
+
+  it('should continue with the next item when a handler throws', async () => {
+    handle.mockRejectedValueOnce(new Error('Connection terminated'));
+
+    await expect(runner.tick(now)).resolves.toBe(1);
+    expect(handle).toHaveBeenCalledTimes(2);
+  });
+
+  it('should handle nothing when the claim fails', async () => {
+    claimDue.mockRejectedValue(new Error('Connection refused'));
+
+    await expect(runner.tick(now)).resolves.toBe(0);
+    expect(handle).not.toHaveBeenCalled();
+  });
+
+  it('should skip a tick while the previous one runs', async () => {
+    let release: (value: string[]) => void = () => {};
+    claimDue.mockReturnValue(new Promise((resolve) => { release = resolve; }));
+
+    const first = runner.tick(now);
+    await expect(runner.tick(now)).resolves.toBe(0);
+    release(['a']);
+
+    await expect(first).resolves.toBe(1);
+    expect(claimDue).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for the tick in progress when stopped', async () => {
+    let release: (value: string[]) => void = () => {};
+    claimDue.mockReturnValue(new Promise((resolve) => { release = resolve; }));
+
+    runner.start();
+    const tick = runner.tick(now);
+    const stopped = runner.stop();
+    release(['a']);
+
+    await stopped;
+    await expect(tick).resolves.toBe(1);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compileCustomMetric,
+  parseCustomMetricKeys,
+  MAX_CUSTOM_METRICS_PER_QUERY,
+} from '../../../src/core/metrics/custom-metric.js';
+
+describe('compileCustomMetric', () => {
+  it('should compile formulas over base metrics and their last year values', () => {
+    const metric = compileCustomMetric('cartera_ratio', 'safeDiv({cartera}, {sales_last_year}) * 100');
+
+    expect(metric.name).toBe('custom_cartera_ratio');
+    expect(metric.dependencies).toEqual(['cartera', 'sales_last_year']);
+    expect(metric.nullable).toBe(false);
+  });
+
+  it('should infer nullability', () => {
+    expect(compileCustomMetric('growth', 'if({sales_last_year} > 0, {sales} / {sales_last_year}, NULL)').nullable).toBe(true);
+  });
+
+  it('should reject references to anything but base metrics', () => {
+    expect(() => compileCustomMetric('x', '{budget_achievement_pct} * 2')).toThrow(
+      'Unknown metric {budget_achievement_pct}, use a base metric or its _last_year value at column 1'
+    );
+    expect(() => compileCustomMetric('x', '{custom_growth} + 1')).toThrow('Unknown metric {custom_growth}');
+  });
+
+  it('should reject conditions and invalid keys', () => {
+    expect(() => compileCustomMetric('x', '{sales} > {budget}')).toThrow(
+      'Formula must return a number, got a condition'
+    );
+    expect(() => compileCustomMetric('Bad-Key', '{sales}')).toThrow('Invalid custom metric key "Bad-Key"');
+  });
+});
+
+describe('parseCustomMetricKeys', () => {
+  it('should split, trim and dedupe keys', () => {
+    expect(parseCustomMetricKeys('growth, cartera_ratio,growth,')).toEqual(['growth', 'cartera_ratio']);
+    expect(parseCustomMetricKeys(['growth', 'margin'])).toEqual(['growth', 'margin']);
+    expect(parseCustomMetricKeys(undefined)).toEqual([]);
+  });
+
+  it('should reject invalid keys and too many metrics', () => {
+    expect(() => parseCustomMetricKeys('growth;drop')).toThrow('Invalid custom metric key "growth;drop"');
+
+    const keys = Array.from({ length: MAX_CUSTOM_METRICS_PER_QUERY + 1 }, (_, i) => `m${i}`).join(',');
+    expect(() => parseCustomMetricKeys(keys)).toThrow(`At most ${MAX_CUSTOM_METRICS_PER_QUERY} custom metrics per query`);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { parseFormula, collectReferences } from '../../../../src/core/metrics/formula/parser.js';
+import { tokenize } from '../../../../src/core/metrics/formula/lexer.js';
+import { FormulaError } from '../../../../src/core/metrics/formula/ast.js';
+import { ValidationError } from '../../../../src/core/errors/app-error.js';
+
+/**
+ * Error thrown while parsing a formula
+ */
+function parseError(formula: string): FormulaError {
+  try {
+    parseFormula(formula);
+  } catch (error) {
+    expect(error).toBeInstanceOf(FormulaError);
+    return error as FormulaError;
+  }
+  throw new Error(`Expected "${formula}" to be rejected`);
+}
+
+describe('tokenize', () => {
+  it('should split numbers, placeholders, identifiers and operators', () => {
+    const tokens = tokenize('if({budget} <> 0, {sales} / 2.5, NULL)');
+
+    expect(tokens.map((t) => [t.type, t.value])).toEqual([
+      ['identifier', 'if'],
+      ['lparen', '('],
+      ['placeholder', 'budget'],
+      ['operator', '<>'],
+      ['number', '0'],
+      ['comma', ','],
+      ['placeholder', 'sales'],
+      ['operator', '/'],
+      ['number', '2.5'],
+      ['comma', ','],
+      ['identifier', 'NULL'],
+      ['rparen', ')'],
+      ['eof', ''],
+    ]);
+    expect(tokens[2]).toMatchObject({ position: 3, length: 8 });
+  });
+
+  it('should reject characters outside the language', () => {
+    expect(() => tokenize("{sales} + 'x'")).toThrow('Unexpected character "\'" at column 11');
+    expect(() => tokenize('{sales} /* x */')).toThrow('Comments are not allowed at column 9');
+    expect(() => tokenize('{sales-1}')).toThrow('Invalid placeholder at column 1');
+    expect(() => tokenize('12abc')).toThrow('Invalid number "12" at column 1');
+  });
+});
+
+describe('parseFormula', () => {
+  it('should respect operator precedence and associativity', () => {
+    const node = parseFormula('{a} - {b} - {c} * 2');
+
+    expect(node).toMatchObject({
+      kind: 'binary',
+      operator: '-',
+      left: { kind: 'binary', operator: '-', left: { name: 'a' }, right: { name: 'b' } },
+      right: { kind: 'binary', operator: '*', left: { name: 'c' }, right: { value: '2' } },
+    });
+  });
+
+  it('should parse conditions with AND, OR and NOT', () => {
+    const node = parseFormula('if(NOT {a} > 0 OR {b} = 1 AND {c} != 2, 1, 0)');
+
+    expect(node).toMatchObject({
+      kind: 'call',
+      name: 'if',
+      args: [
+        {
+          operator: 'OR',
+          left: { kind: 'unary', operator: 'NOT', operand: { operator: '>' } },
+          right: { operator: 'AND', left: { operator: '=' }, right: { operator: '!=' } },
+        },
+        { value: '1' },
+        { value: '0' },
+      ],
+    });
+  });
+
+  it('should normalize function names and <>', () => {
+    expect(parseFormula('NULLIF({a}, 0)')).toMatchObject({ kind: 'call', name: 'nullIf' });
+    expect(parseFormula('{a} <> 0')).toMatchObject({ operator: '!=' });
+  });
+
+  it('should record the source span of each node', () => {
+    const node = parseFormula('1 + round({sales}, 2)');
+
+    expect(node).toMatchObject({ position: 0, length: 21 });
+    expect(node).toMatchObject({ right: { kind: 'call', position: 4, length: 17 } });
+  });
+
+  it('should point at the offending token', () => {
+    expect(parseError('sleep(3) + {sales}').message).toBe('Unknown function "sleep" at column 1');
+    expect(parseError('{sales} + ').message).toBe('Unexpected end of formula at column 11');
+    expect(parseError('{sales} {budget}').message).toBe('Unexpected "{budget}" at column 9');
+    expect(parseError('if({a} > 0, 1, 0').message).toBe(
+      'Expected "," or ")" in if() but found end of formula (opened at column 3) at column 17'
+    );
+    expect(parseError('{a} < {b} < {c}').message).toBe(
+      'Unexpected "<": comparisons cannot be chained at column 11'
+    );
+    expect(parseError('round').message).toBe('Expected "(" after round at column 6');
+    expect(parseError('').message).toBe('Formula is empty at column 1');
+  });
+
+  it('should underline the offending token in the excerpt', () => {
+    const error = parseError('{sales} + sleep(3)');
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.column).toBe(11);
+    expect(error.excerpt).toBe('{sales} + sleep(3)\n          ^^^^^');
+  });
+});
+
+describe('collectReferences', () => {
+  it('should return every placeholder once', () => {
+    const references = collectReferences(parseFormula('if({budget} != 0, ({sales} + {orders}) / {budget}, 0)'));
+
+    expect([...references]).toEqual(['budget', 'sales', 'orders']);
+  });
+});
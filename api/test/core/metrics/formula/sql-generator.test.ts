@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { parseFormula } from '../../../../src/core/metrics/formula/parser.js';
+import { generateSql } from '../../../../src/core/metrics/formula/sql-generator.js';
+import { CALCULATED_METRICS } from '../../../../src/core/config/metrics.config.js';
+
+/**
+ * Resolve placeholders like MetricCalculator does for the transactions CTEs
+ */
+function toSql(formula: string, resolve = (name: string) => `cte.${name}`): string {
+  return generateSql(parseFormula(formula), resolve);
+}
+
+function builtInFormula(name: string): string {
+  const metric = CALCULATED_METRICS.find((m) => m.name === name);
+  if (!metric) throw new Error(`Unknown metric ${name}`);
+  return metric.formula;
+}
+
+describe('generateSql', () => {
+  it('should generate sales_vs_budget', () => {
+    expect(toSql(builtInFormula('sales_vs_budget'))).toBe(
+      'if(cte.budget != 0, (cte.sales + cte.orders - cte.budget) / cte.budget * 100, 0)'
+    );
+  });
+
+  it('should generate gross_margin_pct_vs_last_year', () => {
+    expect(toSql(builtInFormula('gross_margin_pct_vs_last_year'), (name) => name)).toBe(
+      'gross_margin_pct - gross_margin_pct_last_year'
+    );
+  });
+
+  it('should generate the NULL branch of growth metrics', () => {
+    expect(toSql(builtInFormula('sales_total_vs_last_year'))).toBe(
+      'if(cte.sales_total_last_year > 0, (cte.sales_total - cte.sales_total_last_year) / cte.sales_total_last_year * 100, NULL)'
+    );
+  });
+
+  it('should generate every built-in formula', () => {
+    for (const metric of CALCULATED_METRICS) {
+      const sql = toSql(metric.formula);
+
+      expect(sql).not.toMatch(/[{}]/);
+      for (const dependency of metric.dependencies) {
+        expect(sql).toContain(`cte.${dependency}`);
+      }
+    }
+  });
+
+  it('should keep parentheses only where precedence needs them', () => {
+    expect(toSql('({a} + {b}) * {c}')).toBe('(cte.a + cte.b) * cte.c');
+    expect(toSql('{a} + ({b} * {c})')).toBe('cte.a + cte.b * cte.c');
+    expect(toSql('{a} - ({b} - {c})')).toBe('cte.a - (cte.b - cte.c)');
+    expect(toSql('{a} / ({b} / {c})')).toBe('cte.a / (cte.b / cte.c)');
+    expect(toSql('-({a} + {b})')).toBe('-(cte.a + cte.b)');
+    expect(toSql('- -{a}')).toBe('-(-cte.a)');
+    expect(toSql('1 - -{a}')).toBe('1 - -cte.a');
+  });
+
+  it('should generate conditions', () => {
+    expect(toSql('if(NOT ({a} > 0 OR {b} <> 0) AND isNotNull({c}), 1, 0)')).toBe(
+      'if(NOT (cte.a > 0 OR cte.b != 0) AND isNotNull(cte.c), 1, 0)'
+    );
+  });
+
+  it('should expand safeDiv into a guarded division', () => {
+    expect(toSql('safeDiv({a} - {b}, {b}) * 100')).toBe('if(cte.b != 0, (cte.a - cte.b) / cte.b, 0) * 100');
+    expect(toSql('safeDiv({a}, {b}, NULL)')).toBe('if(cte.b != 0, cte.a / cte.b, NULL)');
+  });
+
+  it('should substitute placeholders with the resolved SQL', () => {
+    // MetricCalculator drops the orders term for closed periods
+    const sql = toSql(builtInFormula('budget_achievement_pct'), (name) => (name === 'orders' ? '0' : `cte.${name}`));
+
+    expect(sql).toBe('if(cte.budget != 0, (cte.sales + 0) / cte.budget * 100, 0)');
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { parseFormula } from '../../../../src/core/metrics/formula/parser.js';
+import { typeCheck, type ReferenceTypes } from '../../../../src/core/metrics/formula/type-checker.js';
+
+const references: ReferenceTypes = new Map([
+  ['sales', { nullable: false }],
+  ['budget', { nullable: false }],
+  ['growth', { nullable: true }],
+]);
+
+function check(formula: string) {
+  return typeCheck(parseFormula(formula), formula, references);
+}
+
+describe('typeCheck', () => {
+  it('should type arithmetic as number and comparisons as condition', () => {
+    expect(check('({sales} - {budget}) / {budget} * 100')).toEqual({ type: 'number', nullable: false });
+    expect(check('{sales} >= {budget}')).toEqual({ type: 'boolean', nullable: false });
+    expect(check('{sales} > 0 AND NOT {budget} = 0')).toEqual({ type: 'boolean', nullable: false });
+  });
+
+  it('should infer nullability', () => {
+    expect(check('if({budget} > 0, {sales}, NULL)')).toEqual({ type: 'number', nullable: true });
+    expect(check('nullIf({sales}, 0)')).toEqual({ type: 'number', nullable: true });
+    expect(check('{growth} * 2')).toEqual({ type: 'number', nullable: true });
+    expect(check('ifNull({growth}, 0)')).toEqual({ type: 'number', nullable: false });
+    expect(check('if(isNull({growth}), 0, 1)')).toEqual({ type: 'number', nullable: false });
+    expect(check('safeDiv({sales}, {budget})')).toEqual({ type: 'number', nullable: false });
+  });
+
+  it('should reject mismatched operand types', () => {
+    expect(() => check('if({sales}, 1, 0)')).toThrow(
+      'Argument 1 of if() must be a condition, got a number at column 4'
+    );
+    expect(() => check('({sales} > 0) + 1')).toThrow('Left side of "+" must be a number, got a condition at column 2');
+    expect(() => check('{sales} AND {budget}')).toThrow('Left side of AND must be a condition, got a number at column 1');
+  });
+
+  it('should reject wrong argument counts and non-literal precision', () => {
+    expect(() => check('if({sales} > 0, 1)')).toThrow('if() takes 3 arguments, got 2 at column 1');
+    expect(() => check('abs()')).toThrow('abs() takes 1 argument, got 0 at column 1');
+    expect(() => check('greatest({sales})')).toThrow('greatest() takes at least 2 arguments, got 1 at column 1');
+    expect(() => check('round({sales}, {budget})')).toThrow('Argument 2 of round() must be an integer at column 16');
+  });
+
+  it('should reject NULL comparisons and arithmetic', () => {
+    expect(() => check('if({growth} = NULL, 0, 1)')).toThrow(
+      'Comparing with NULL is always NULL, use isNull() or isNotNull() at column 15'
+    );
+    expect(() => check('{sales} + NULL')).toThrow('NULL in "+" always yields NULL at column 11');
+  });
+
+  it('should reject undeclared references', () => {
+    expect(() => check('{sales} - {costs}')).toThrow('{costs} is not a declared dependency at column 11');
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import { MetricRegistry, validateMetricCatalog } from '../../../src/core/metrics/metric-registry.js';
+import {
+  BALANCE_METRICS,
+  CALCULATED_METRICS,
+  type BaseMetricDefinition,
+  type CalculatedMetricDefinition,
+} from '../../../src/core/config/metrics.config.js';
+import { ValidationError } from '../../../src/core/errors/app-error.js';
+
+const sales: BaseMetricDefinition = {
+  table: 'transactions',
+  field: 'sales_price',
+  aggregation: 'sum',
+  alias: 'sales',
+  label: 'Facturado',
+  format: 'currency',
+};
+
+const budget: BaseMetricDefinition = {
+  table: 'budget',
+  field: 'sales_price',
+  aggregation: 'sum',
+  alias: 'budget',
+  label: 'Presupuesto',
+  format: 'currency',
+};
+
+function calculated(overrides: Partial<CalculatedMetricDefinition>): CalculatedMetricDefinition {
+  return {
+    name: 'compliance',
+    description: 'Budget compliance %',
+    dependencies: ['sales', 'budget'],
+    formula: 'if({budget} != 0, ({sales} / {budget}) * 100, 0)',
+    label: 'Cumplimiento',
+    format: 'percent',
+    ...overrides,
+  };
+}
+
+/**
+ * Validation error messages of a catalog (empty if valid)
+ */
+function errorsOf(calculatedMetrics: CalculatedMetricDefinition[], baseMetrics = [sales, budget]): string[] {
+  try {
+    validateMetricCatalog({ baseMetrics, calculatedMetrics });
+    return [];
+  } catch (error) {
+    expect(error).toBeInstanceOf(ValidationError);
+    return (error as ValidationError).details as string[];
+  }
+}
+
+describe('validateMetricCatalog', () => {
+  it('should accept the built-in catalog', () => {
+    expect(() => validateMetricCatalog({
+      baseMetrics: BALANCE_METRICS,
+      calculatedMetrics: CALCULATED_METRICS,
+    })).not.toThrow();
+  });
+
+  it('should accept dependencies on last year values and other calculated metrics', () => {
+    expect(errorsOf([
+      calculated({}),
+      calculated({
+        name: 'sales_growth',
+        dependencies: ['sales', 'sales_last_year'],
+        formula: 'if({sales_last_year} > 0, (({sales} - {sales_last_year}) / {sales_last_year}) * 100, NULL)',
+        nullable: true,
+      }),
+      calculated({ name: 'compliance_rounded', dependencies: ['compliance'], formula: 'round({compliance}, 1)' }),
+    ])).toEqual([]);
+  });
+
+  it('should reject unknown dependencies', () => {
+    expect(errorsOf([
+      calculated({ dependencies: ['sales', 'costs'], formula: '{sales} - {costs}' }),
+    ])).toContain('Calculated metric "compliance": unknown dependency "costs"');
+  });
+
+  it('should reject placeholders that are not declared dependencies', () => {
+    const errors = errorsOf([calculated({ dependencies: ['sales'], formula: '{sales} / {budget}' })]);
+
+    expect(errors).toContain('Calculated metric "compliance": {budget} is not a declared dependency at column 11');
+  });
+
+  it('should reject dependency cycles', () => {
+    const errors = errorsOf([
+      calculated({ name: 'a', dependencies: ['b'], formula: '{b} + 1' }),
+      calculated({ name: 'b', dependencies: ['a'], formula: '{a} + 1' }),
+    ]);
+
+    expect(errors).toContain('Dependency cycle: a -> b -> a');
+  });
+
+  it('should reject functions outside the allowlist and SQL injection', () => {
+    expect(errorsOf([
+      calculated({ dependencies: ['sales'], formula: 'sleep(3) + {sales}' }),
+    ])).toContain('Calculated metric "compliance": Unknown function "sleep" at column 1');
+
+    expect(errorsOf([
+      calculated({ dependencies: ['sales'], formula: "{sales}; DROP TABLE users" }),
+    ])).toContain('Calculated metric "compliance": Unexpected character ";" at column 8');
+
+    expect(errorsOf([
+      calculated({ dependencies: ['sales'], formula: '{sales} -- comment' }),
+    ])).toContain('Calculated metric "compliance": Comments are not allowed at column 9');
+  });
+
+  it('should reject unused dependencies', () => {
+    expect(errorsOf([
+      calculated({ dependencies: ['sales', 'budget'], formula: 'round({sales})' }),
+    ])).toContain('Calculated metric "compliance": Dependency "budget" is not used in the formula');
+  });
+
+  it('should require nullable when the formula may return NULL', () => {
+    const growth = calculated({
+      name: 'sales_growth',
+      dependencies: ['sales', 'sales_last_year'],
+      formula: 'if({sales_last_year} > 0, ({sales} - {sales_last_year}) / {sales_last_year} * 100, NULL)',
+    });
+
+    expect(errorsOf([growth])).toContain('Calculated metric "sales_growth": Formula may return NULL, set nullable: true');
+
+    // NULL propagates through dependencies on nullable metrics
+    expect(errorsOf([
+      { ...growth, nullable: true },
+      calculated({ name: 'sales_growth_rounded', dependencies: ['sales_growth'], formula: 'round({sales_growth}, 1)' }),
+    ])).toEqual(['Calculated metric "sales_growth_rounded": Formula may return NULL, set nullable: true']);
+  });
+
+  it('should reject duplicate response fields', () => {
+    const errors = errorsOf([calculated({ name: 'sales_last_year', dependencies: ['sales'], formula: '{sales}' })]);
+
+    expect(errors).toContain('Calculated metric "sales_last_year": duplicate response field');
+  });
+
+  it('should reject invalid base metrics', () => {
+    const errors = errorsOf([], [
+      { ...sales, field: 'sales_price); DROP TABLE x' },
+      { ...budget, aggregation: 'median' as BaseMetricDefinition['aggregation'] },
+    ]);
+
+    expect(errors).toContain('Base metric "sales": invalid field "sales_price); DROP TABLE x"');
+    expect(errors).toContain('Base metric "budget": invalid aggregation "median"');
+  });
+
+  it('should reject heatmap thresholds out of order', () => {
+    const errors = errorsOf([
+      calculated({ heatmap: { excellent: 90, good: 99, neutral: 95 } }),
+    ]);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain('heatmap thresholds');
+  });
+});
+
+describe('MetricRegistry', () => {
+  const builtIn = {
+    version: 0,
+    publishedAt: null,
+    baseMetrics: [sales, budget],
+    calculatedMetrics: [calculated({})],
+  };
+
+  it('should expose the active catalog', () => {
+    const registry = new MetricRegistry(builtIn);
+
+    expect(registry.getVersion()).toBe(0);
+    expect(registry.getBaseMetrics().map((m) => m.alias)).toEqual(['sales', 'budget']);
+    expect(registry.getCalculatedMetrics().map((m) => m.name)).toEqual(['compliance']);
+    expect(registry.getFormula('compliance')).toMatchObject({ kind: 'call', name: 'if' });
+  });
+
+  it('should activate a valid catalog', () => {
+    const registry = new MetricRegistry(builtIn);
+
+    registry.replace({ ...builtIn, version: 2, publishedAt: '2026-01-01T00:00:00.000Z', calculatedMetrics: [] });
+
+    expect(registry.getVersion()).toBe(2);
+    expect(registry.getCalculatedMetrics()).toEqual([]);
+  });
+
+  it('should keep the current catalog when the new one is invalid', () => {
+    const registry = new MetricRegistry(builtIn);
+
+    expect(() => registry.replace({
+      ...builtIn,
+      version: 2,
+      calculatedMetrics: [calculated({ dependencies: ['missing'], formula: '{missing}' })],
+    })).toThrow(ValidationError);
+
+    expect(registry.getVersion()).toBe(0);
+  });
+});
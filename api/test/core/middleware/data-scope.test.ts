@@ -0,0 +1,282 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import type { RoleAccess } from '../../../src/core/auth/role-access.service.js';
+
+const ROLE_ACCESS: Record<string, RoleAccess> = {
+  MANAGER_DISTRIBUTION: {
+    role: 'MANAGER_DISTRIBUTION',
+    label: 'Distribución',
+    fullAccess: false,
+    paths: ['/distribucion/regionales'],
+    dataFilters: { channel: ['DISTRIBUCION'] },
+  },
+};
+
+vi.mock('../../../src/core/auth/role-access.service.js', () => ({
+  roleAccessService: {
+    getRoleAccess: vi.fn(async (dynaRole: string | null | undefined) => {
+      if (!dynaRole) return { role: null, label: null, fullAccess: true, paths: [], dataFilters: {} };
+      return ROLE_ACCESS[dynaRole] ?? null;
+    }),
+  },
+}));
+
+let mockEntitlements: Record<string, string[]> = {};
+
+vi.mock('../../../src/core/auth/user-entitlement.service.js', () => ({
+  userEntitlementService: {
+    getEntitlements: vi.fn(async () => mockEntitlements),
+  },
+}));
+
+import {
+  getScopeFilters,
+  assertScopeNotOverridden,
+  resolveDataScope,
+  resolveUserDataScope,
+} from '../../../src/core/middleware/data-scope.js';
+import type { FilterCondition } from '../../../src/core/db/clickhouse/query/filter-builder.js';
+
+const DISTRIBUTION_SCOPE: FilterCondition[] = [
+  { field: 'channel', operator: 'eq', value: 'DISTRIBUCION' },
+];
+
+describe('Data Scope Middleware', () => {
+  describe('getScopeFilters', () => {
+    it('should return no conditions for full access', () => {
+      expect(getScopeFilters({})).toEqual([]);
+    });
+
+    it('should use eq for a single value', () => {
+      expect(getScopeFilters({ channel: ['DISTRIBUCION'] })).toEqual(DISTRIBUTION_SCOPE);
+      expect(getScopeFilters({ IdRegional: ['RTL'] })).toEqual([
+        { field: 'IdRegional', operator: 'eq', value: 'RTL' },
+      ]);
+    });
+
+    it('should use in for several values', () => {
+      expect(getScopeFilters({ channel: ['CADENAS', 'EXPORTACIONES'] })).toEqual([
+        { field: 'channel', operator: 'in', value: ['CADENAS', 'EXPORTACIONES'] },
+      ]);
+    });
+
+    it('should skip fields without values', () => {
+      expect(getScopeFilters({ IdRegional: undefined, seller_id: ['S01'] })).toEqual([
+        { field: 'seller_id', operator: 'eq', value: 'S01' },
+      ]);
+    });
+
+    it('should build one condition per field', () => {
+      expect(getScopeFilters({ channel: ['DISTRIBUCION'], IdRegional: ['R01'] })).toEqual([
+        { field: 'channel', operator: 'eq', value: 'DISTRIBUCION' },
+        { field: 'IdRegional', operator: 'eq', value: 'R01' },
+      ]);
+    });
+  });
+
+  describe('assertScopeNotOverridden', () => {
+    it('should accept filters on other fields', () => {
+      expect(() => assertScopeNotOverridden(
+        [{ field: 'seller_id', operator: 'in', value: ['S001', 'S002'] }],
+        DISTRIBUTION_SCOPE
+      )).not.toThrow();
+    });
+
+    it('should accept a filter that repeats the scope value', () => {
+      expect(() => assertScopeNotOverridden(
+        [{ field: 'channel', operator: 'eq', value: 'DISTRIBUCION' }],
+        DISTRIBUTION_SCOPE
+      )).not.toThrow();
+    });
+
+    it('should reject a different value on the scoped field', () => {
+      expect(() => assertScopeNotOverridden(
+        [{ field: 'channel', operator: 'eq', value: 'CADENAS' }],
+        DISTRIBUTION_SCOPE
+      )).toThrow("Filter on 'channel' is not allowed for your role");
+    });
+
+    it('should reject a list that widens the scope', () => {
+      expect(() => assertScopeNotOverridden(
+        [{ field: 'channel', operator: 'in', value: ['DISTRIBUCION', 'CADENAS'] }],
+        DISTRIBUTION_SCOPE
+      )).toThrow("Filter on 'channel' is not allowed for your role");
+    });
+
+    it('should reject other operators on the scoped field', () => {
+      expect(() => assertScopeNotOverridden(
+        [{ field: 'channel', operator: 'neq', value: 'CADENAS' }],
+        DISTRIBUTION_SCOPE
+      )).toThrow("Filter on 'channel' is not allowed for your role");
+    });
+
+    it('should accept anything when there is no scope', () => {
+      expect(() => assertScopeNotOverridden(
+        [{ field: 'channel', operator: 'eq', value: 'CADENAS' }],
+        []
+      )).not.toThrow();
+    });
+  });
+
+  describe('resolveDataScope', () => {
+    let mockRequest: Partial<FastifyRequest>;
+    const mockReply = {} as FastifyReply;
+
+    beforeEach(() => {
+      mockRequest = {
+        user: undefined,
+        query: {},
+        routeOptions: { schema: undefined } as unknown as FastifyRequest['routeOptions'],
+      };
+      mockEntitlements = {};
+    });
+
+    it('should require an authenticated user', async () => {
+      await expect(
+        resolveDataScope(mockRequest as FastifyRequest, mockReply)
+      ).rejects.toThrow('Authentication required');
+    });
+
+    it('should attach no scope for users without a Dyna role', async () => {
+      mockRequest.user = {
+        id: 'user-1',
+        email: 'otp@test.com',
+        emailVerified: true,
+        dynaRole: null,
+      };
+
+      await resolveDataScope(mockRequest as FastifyRequest, mockReply);
+
+      expect(mockRequest.dataScope).toEqual([]);
+    });
+
+    it('should deny roles without persisted access', async () => {
+      mockRequest.user = {
+        id: 'user-1',
+        email: 'x@test.com',
+        emailVerified: true,
+        dynaRole: 'UNKNOWN_ROLE',
+      };
+
+      await expect(
+        resolveDataScope(mockRequest as FastifyRequest, mockReply)
+      ).rejects.toThrow('Access denied');
+    });
+
+    it('should attach the scope of the user role', async () => {
+      mockRequest.user = {
+        id: 'user-1',
+        email: 'dist@test.com',
+        emailVerified: true,
+        dynaRole: 'MANAGER_DISTRIBUTION',
+      };
+
+      await resolveDataScope(mockRequest as FastifyRequest, mockReply);
+
+      expect(mockRequest.dataScope).toEqual(DISTRIBUTION_SCOPE);
+    });
+
+    it('should reject query params that override the scope', async () => {
+      mockRequest.user = {
+        id: 'user-1',
+        email: 'dist@test.com',
+        emailVerified: true,
+        dynaRole: 'MANAGER_DISTRIBUTION',
+      };
+      mockRequest.query = { 'channel[neq][]': ['DISTRIBUCION'] };
+
+      await expect(
+        resolveDataScope(mockRequest as FastifyRequest, mockReply)
+      ).rejects.toThrow("Filter on 'channel' is not allowed for your role");
+      expect(mockRequest.dataScope).toBeUndefined();
+    });
+
+    it('should append the user entitlements to the role scope', async () => {
+      mockRequest.user = {
+        id: 'user-1',
+        email: 'dist@test.com',
+        emailVerified: true,
+        dynaRole: 'MANAGER_DISTRIBUTION',
+      };
+      mockEntitlements = { seller_id: ['S01', 'S02'] };
+
+      await resolveDataScope(mockRequest as FastifyRequest, mockReply);
+
+      expect(mockRequest.dataScope).toEqual([
+        ...DISTRIBUTION_SCOPE,
+        { field: 'seller_id', operator: 'in', value: ['S01', 'S02'] },
+      ]);
+    });
+
+    it('should not reject user filters on entitled fields (they are intersected)', async () => {
+      mockRequest.user = {
+        id: 'user-1',
+        email: 'otp@test.com',
+        emailVerified: true,
+        dynaRole: null,
+      };
+      mockEntitlements = { IdRegional: ['R01'] };
+      mockRequest.query = { 'IdRegional[neq][]': ['R02'] };
+
+      await resolveDataScope(mockRequest as FastifyRequest, mockReply);
+
+      expect(mockRequest.dataScope).toEqual([
+        { field: 'IdRegional', operator: 'eq', value: 'R01' },
+      ]);
+    });
+
+    it('should ignore reserved params', async () => {
+      mockRequest.user = {
+        id: 'user-1',
+        email: 'dist@test.com',
+        emailVerified: true,
+        dynaRole: 'MANAGER_DISTRIBUTION',
+      };
+      mockRequest.query = { startDate: '2025-01-01', groupBy: 'channel' };
+
+      await resolveDataScope(mockRequest as FastifyRequest, mockReply);
+
+      expect(mockRequest.dataScope).toEqual(DISTRIBUTION_SCOPE);
+    });
+
+    it('should ignore the params of the route querystring schema', async () => {
+      mockRequest.user = {
+        id: 'user-1',
+        email: 'dist@test.com',
+        emailVerified: true,
+        dynaRole: 'MANAGER_DISTRIBUTION',
+      };
+      mockRequest.routeOptions = {
+        schema: { querystring: Type.Object({ channel: Type.Optional(Type.String()) }) },
+      } as unknown as FastifyRequest['routeOptions'];
+      mockRequest.query = { channel: 'CADENAS' };
+
+      await resolveDataScope(mockRequest as FastifyRequest, mockReply);
+
+      expect(mockRequest.dataScope).toEqual(DISTRIBUTION_SCOPE);
+    });
+  });
+
+  describe('resolveUserDataScope', () => {
+    beforeEach(() => {
+      mockEntitlements = {};
+    });
+
+    it('should resolve the scope of a user outside a request', async () => {
+      mockEntitlements = { seller_id: ['S01'] };
+
+      await expect(resolveUserDataScope({ id: 'user-1', dynaRole: 'MANAGER_DISTRIBUTION' })).resolves.toEqual([
+        ...DISTRIBUTION_SCOPE,
+        { field: 'seller_id', operator: 'eq', value: 'S01' },
+      ]);
+    });
+
+    it('should check the given filters against the role scope', async () => {
+      await expect(resolveUserDataScope(
+        { id: 'user-1', dynaRole: 'MANAGER_DISTRIBUTION' },
+        [{ field: 'channel', operator: 'eq', value: 'CADENAS' }]
+      )).rejects.toThrow("Filter on 'channel' is not allowed for your role");
+    });
+  });
+});
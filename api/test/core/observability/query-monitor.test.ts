@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { QueryMonitor, type QueryRecord } from '../../../src/core/observability/query-monitor.js';
+
+function query(overrides: Partial<QueryRecord> = {}): QueryRecord {
+  return {
+    queryId: 'q-1',
+    kind: 'grouped-yoy',
+    requestId: 'req-1',
+    startedAt: '2026-10-19T12:00:00.000Z',
+    elapsedMs: 120,
+    readRows: 1000,
+    readBytes: 64000,
+    resultRows: 10,
+    error: null,
+    sql: 'SELECT 1',
+    ...overrides,
+  };
+}
+
+describe('QueryMonitor', () => {
+  let monitor: QueryMonitor;
+
+  beforeEach(() => {
+    monitor = new QueryMonitor(1000, 3);
+  });
+
+  it('should keep only slow queries, newest first', () => {
+    monitor.record(query({ queryId: 'fast', elapsedMs: 999 }));
+    monitor.record(query({ queryId: 'slow-1', elapsedMs: 1000 }));
+    monitor.record(query({ queryId: 'slow-2', elapsedMs: 4000 }));
+
+    expect(monitor.slowQueries().map((q) => q.queryId)).toEqual(['slow-2', 'slow-1']);
+  });
+
+  it('should drop the oldest slow query when the buffer is full', () => {
+    for (let i = 1; i <= 5; i++) {
+      monitor.record(query({ queryId: `slow-${i}`, elapsedMs: 2000 }));
+    }
+
+    expect(monitor.slowQueries().map((q) => q.queryId)).toEqual(['slow-5', 'slow-4', 'slow-3']);
+  });
+
+  it('should collapse whitespace and truncate the SQL', () => {
+    monitor.record(query({ elapsedMs: 2000, sql: `SELECT\n    a,\n    b\nFROM t ${'x'.repeat(3000)}` }));
+
+    const [recorded] = monitor.slowQueries();
+    expect(recorded!.sql.startsWith('SELECT a, b FROM t x')).toBe(true);
+    expect(recorded!.sql).toHaveLength(2001);
+    expect(recorded!.sql.endsWith('…')).toBe(true);
+  });
+
+  it('should aggregate stats per kind, by total time', () => {
+    monitor.record(query({ kind: 'yoy', elapsedMs: 100 }));
+    monitor.record(query({ kind: 'grouped-yoy', elapsedMs: 300, readRows: 10, readBytes: 20 }));
+    monitor.record(query({ kind: 'grouped-yoy', elapsedMs: 1500, readRows: null, readBytes: null, resultRows: null, error: 'Timeout' }));
+
+    expect(monitor.stats()).toEqual([
+      { kind: 'grouped-yoy', count: 2, errors: 1, slow: 1, totalMs: 1800, maxMs: 1500, readRows: 10, readBytes: 20 },
+      { kind: 'yoy', count: 1, errors: 0, slow: 0, totalMs: 100, maxMs: 100, readRows: 1000, readBytes: 64000 },
+    ]);
+  });
+
+  it('should render Prometheus counters and a cumulative histogram', () => {
+    monitor.record(query({ elapsedMs: 40 }));
+    monitor.record(query({ elapsedMs: 700 }));
+    monitor.record(query({ elapsedMs: 90_000, error: 'Timeout', readRows: null, readBytes: null }));
+
+    const text = monitor.renderPrometheus();
+
+    expect(text).toContain('# TYPE clickhouse_queries_total counter');
+    expect(text).toContain('clickhouse_queries_total{kind="grouped-yoy",status="ok"} 2');
+    expect(text).toContain('clickhouse_queries_total{kind="grouped-yoy",status="error"} 1');
+    expect(text).toContain('# TYPE clickhouse_query_duration_seconds histogram');
+    expect(text).toContain('clickhouse_query_duration_seconds_bucket{kind="grouped-yoy",le="0.05"} 1');
+    expect(text).toContain('clickhouse_query_duration_seconds_bucket{kind="grouped-yoy",le="0.5"} 1');
+    expect(text).toContain('clickhouse_query_duration_seconds_bucket{kind="grouped-yoy",le="1"} 2');
+    expect(text).toContain('clickhouse_query_duration_seconds_bucket{kind="grouped-yoy",le="60"} 2');
+    expect(text).toContain('clickhouse_query_duration_seconds_bucket{kind="grouped-yoy",le="+Inf"} 3');
+    expect(text).toContain('clickhouse_query_duration_seconds_sum{kind="grouped-yoy"} 90.74');
+    expect(text).toContain('clickhouse_query_duration_seconds_count{kind="grouped-yoy"} 3');
+    expect(text).toContain('clickhouse_query_read_rows_total{kind="grouped-yoy"} 2000');
+    expect(text).toContain('clickhouse_slow_queries_total{kind="grouped-yoy"} 1');
+    expect(text.endsWith('\n')).toBe(true);
+  });
+
+  it('should escape label values', () => {
+    monitor.record(query({ kind: 'a"b\\c' }));
+
+    expect(monitor.renderPrometheus()).toContain('clickhouse_queries_total{kind="a\\"b\\\\c",status="ok"} 1');
+  });
+
+  it('should apply a new configuration and reset', () => {
+    monitor.record(query({ elapsedMs: 500 }));
+    monitor.configure({ slowThresholdMs: 200, slowLogSize: 10 });
+    monitor.record(query({ elapsedMs: 500 }));
+
+    expect(monitor.slowQueryThresholdMs).toBe(200);
+    expect(monitor.slowQueries()).toHaveLength(1);
+
+    monitor.reset();
+    expect(monitor.slowQueries()).toEqual([]);
+    expect(monitor.stats()).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  comparisonWindow,
+  resolveComparisonPeriod,
+  buildComparisonFilters,
+} from '../../../src/core/utils/comparison-period.js';
+import { ValidationError } from '../../../src/core/errors/app-error.js';
+
+describe('comparison-period', () => {
+  describe('comparisonWindow', () => {
+    it('should shift one year back for previous_year', () => {
+      expect(comparisonWindow('previous_year', '2026-01-01', '2026-06-30')).toEqual({
+        startDate: '2025-01-01',
+        endDate: '2025-06-30',
+      });
+    });
+
+    it('should shift two years back for two_years_ago', () => {
+      expect(comparisonWindow('two_years_ago', '2026-03-01', '2026-03-31')).toEqual({
+        startDate: '2024-03-01',
+        endDate: '2024-03-31',
+      });
+    });
+
+    it('should use a window of the same length ending the day before for previous_period', () => {
+      expect(comparisonWindow('previous_period', '2026-03-01', '2026-03-10')).toEqual({
+        startDate: '2026-02-19',
+        endDate: '2026-02-28',
+      });
+    });
+
+    it('should map a full month to the full previous month', () => {
+      expect(comparisonWindow('previous_month', '2026-04-01', '2026-04-30')).toEqual({
+        startDate: '2026-03-01',
+        endDate: '2026-03-31',
+      });
+      expect(comparisonWindow('previous_month', '2026-03-01', '2026-03-31')).toEqual({
+        startDate: '2026-02-01',
+        endDate: '2026-02-28',
+      });
+    });
+
+    it('should clamp month-to-date ranges to the previous month length', () => {
+      expect(comparisonWindow('previous_month', '2026-01-01', '2026-01-15')).toEqual({
+        startDate: '2025-12-01',
+        endDate: '2025-12-15',
+      });
+      expect(comparisonWindow('previous_month', '2026-03-01', '2026-03-30')).toEqual({
+        startDate: '2026-02-01',
+        endDate: '2026-02-28',
+      });
+    });
+  });
+
+  describe('resolveComparisonPeriod', () => {
+    it('should default to previous_year for a complete range', () => {
+      expect(resolveComparisonPeriod({ startDate: '2026-01-01', endDate: '2026-01-31' })).toEqual({
+        mode: 'previous_year',
+        startDate: '2025-01-01',
+        endDate: '2025-01-31',
+      });
+    });
+
+    it('should prefer explicit compare dates over compareMode', () => {
+      expect(resolveComparisonPeriod({
+        startDate: '2026-01-01',
+        endDate: '2026-01-31',
+        compareStartDate: '2025-11-01',
+        compareEndDate: '2025-11-30',
+        compareMode: 'previous_month',
+      })).toEqual({ mode: 'custom', startDate: '2025-11-01', endDate: '2025-11-30' });
+    });
+
+    it('should return undefined for open ranges without an explicit window', () => {
+      expect(resolveComparisonPeriod({ startDate: '2026-01-01' })).toBeUndefined();
+      expect(resolveComparisonPeriod({})).toBeUndefined();
+    });
+
+    it('should reject a half-open comparison window', () => {
+      expect(() => resolveComparisonPeriod({ compareStartDate: '2025-01-01' })).toThrow(ValidationError);
+    });
+
+    it('should reject an inverted comparison window', () => {
+      expect(() => resolveComparisonPeriod({ compareStartDate: '2025-02-01', compareEndDate: '2025-01-01' }))
+        .toThrow(ValidationError);
+    });
+
+    it('should reject named modes without a complete range', () => {
+      expect(() => resolveComparisonPeriod({ startDate: '2026-01-01', compareMode: 'previous_period' }))
+        .toThrow(ValidationError);
+    });
+  });
+
+  describe('buildComparisonFilters', () => {
+    const dynamicFilters = [{ field: 'seller_id', operator: 'eq' as const, value: 'S001' }];
+
+    it('should leave previous_year to the query builder', () => {
+      const period = { mode: 'previous_year' as const, startDate: '2025-01-01', endDate: '2025-01-31' };
+      expect(buildComparisonFilters(period, dynamicFilters)).toBeUndefined();
+      expect(buildComparisonFilters(undefined, dynamicFilters)).toBeUndefined();
+    });
+
+    it('should combine the comparison window with the dynamic filters', () => {
+      const period = { mode: 'previous_period' as const, startDate: '2025-12-01', endDate: '2025-12-31' };
+      expect(buildComparisonFilters(period, dynamicFilters)).toEqual([
+        { field: 'date', operator: 'gte', value: '2025-12-01' },
+        { field: 'date', operator: 'lte', value: '2025-12-31' },
+        { field: 'seller_id', operator: 'eq', value: 'S001' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { resolveDatePreset } from '../../../src/core/utils/date-presets.js';
+
+describe('date-presets', () => {
+  describe('resolveDatePreset', () => {
+    const today = new Date('2026-03-15T10:00:00.000Z');
+
+    it('should resolve month presets', () => {
+      expect(resolveDatePreset('today', today)).toEqual({ startDate: '2026-03-15', endDate: '2026-03-15' });
+      expect(resolveDatePreset('current-month', today)).toEqual({ startDate: '2026-03-01', endDate: '2026-03-15' });
+      expect(resolveDatePreset('previous-month', today)).toEqual({ startDate: '2026-02-01', endDate: '2026-02-28' });
+    });
+
+    it('should accumulate the year up to the previous closed month', () => {
+      expect(resolveDatePreset('accumulated', today)).toEqual({ startDate: '2026-01-01', endDate: '2026-02-28' });
+    });
+
+    it('should resolve rolling windows ending today', () => {
+      expect(resolveDatePreset('last-30-days', today)).toEqual({ startDate: '2026-02-14', endDate: '2026-03-15' });
+      expect(resolveDatePreset('last-6-months', today)).toEqual({ startDate: '2025-09-15', endDate: '2026-03-15' });
+      expect(resolveDatePreset('last-12-months', today)).toEqual({ startDate: '2025-03-15', endDate: '2026-03-15' });
+    });
+
+    it('should resolve against the Bogota day', () => {
+      // 23:30 in Bogota on March 31st is already April 1st in UTC
+      const lastEvening = new Date('2026-04-01T04:30:00.000Z');
+
+      expect(resolveDatePreset('today', lastEvening)).toEqual({ startDate: '2026-03-31', endDate: '2026-03-31' });
+      expect(resolveDatePreset('current-month', lastEvening)).toEqual({ startDate: '2026-03-01', endDate: '2026-03-31' });
+      expect(resolveDatePreset('previous-month', lastEvening)).toEqual({ startDate: '2026-02-01', endDate: '2026-02-28' });
+    });
+
+    it('should cross year boundaries', () => {
+      expect(resolveDatePreset('previous-month', new Date('2026-01-10T12:00:00.000Z')))
+        .toEqual({ startDate: '2025-12-01', endDate: '2025-12-31' });
+    });
+
+    it('should keep the year until midnight in Bogota', () => {
+      // 23:30 in Bogota on December 31st
+      const newYearsEve = new Date('2027-01-01T04:30:00.000Z');
+
+      expect(resolveDatePreset('current-month', newYearsEve)).toEqual({ startDate: '2026-12-01', endDate: '2026-12-31' });
+      expect(resolveDatePreset('accumulated', newYearsEve)).toEqual({ startDate: '2026-01-01', endDate: '2026-11-30' });
+    });
+  });
+});
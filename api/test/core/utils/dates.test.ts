@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addDays,
+  bogotaToday,
+  endOfMonth,
+  epochDay,
+  lastDayOfMonth,
+  shiftYears,
+  utcDate,
+} from '../../../src/core/utils/dates.js';
+
+describe('dates', () => {
+  it('should shift days across month, year and leap-day boundaries', () => {
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+    expect(addDays('2025-12-31', 1)).toBe('2026-01-01');
+    expect(epochDay('2026-03-31') - epochDay('2026-03-01')).toBe(30);
+  });
+
+  it('should roll Feb 29 over to Mar 1 when shifting years', () => {
+    expect(shiftYears('2024-02-29', -1)).toBe('2023-03-01');
+    expect(shiftYears('2025-06-15', 1)).toBe('2026-06-15');
+  });
+
+  it('should resolve month ends and overflowing calendar days', () => {
+    expect(lastDayOfMonth(2024, 1)).toBe(29);
+    expect(lastDayOfMonth(2026, -1)).toBe(31);
+    expect(endOfMonth('2026-04-10')).toBe('2026-04-30');
+    expect(utcDate(2026, 0, 0)).toBe('2025-12-31');
+  });
+
+  it('should resolve the Bogota day of an instant', () => {
+    expect(bogotaToday(new Date('2026-04-01T04:30:00.000Z'))).toBe('2026-03-31');
+    expect(bogotaToday(new Date('2026-04-01T05:00:00.000Z'))).toBe('2026-04-01');
+  });
+});
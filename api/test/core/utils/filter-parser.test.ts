@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { parseDynamicFilters, combineFilters } from '../../../src/core/utils/filter-parser.js';
+import { Type } from '@sinclair/typebox';
+import { parseDynamicFilters, combineFilters, querystringParams } from '../../../src/core/utils/filter-parser.js';
 import type { FilterCondition } from '../../../src/core/db/query/interfaces.js';
 
 describe('filter-parser', () => {
@@ -258,6 +259,35 @@ describe('filter-parser', () => {
       expect(filters).toHaveLength(1);
       expect(filters[0].field).toBe('field2');
     });
+
+    it('should skip the params of the route querystring schema', () => {
+      const query = { segment: 'champions', align: 'calendar_day', channel: 'DISTRIBUCION' };
+
+      const filters = parseDynamicFilters(query, new Set(['segment', 'align']));
+
+      expect(filters).toEqual([{ field: 'channel', operator: 'eq', value: 'DISTRIBUCION' }]);
+    });
+
+    it('should keep route params of other routes as filters', () => {
+      const filters = parseDynamicFilters({ segment: 'champions' });
+
+      expect(filters).toEqual([{ field: 'segment', operator: 'eq', value: 'champions' }]);
+    });
+  });
+
+  describe('querystringParams', () => {
+    it('should collect the properties of every schema', () => {
+      const params = querystringParams(
+        Type.Object({ startDate: Type.String(), scoring: Type.Optional(Type.String()) }),
+        Type.Object({ segment: Type.String() }, { additionalProperties: true })
+      );
+
+      expect([...params]).toEqual(['startDate', 'scoring', 'segment']);
+    });
+
+    it('should ignore routes without a querystring schema', () => {
+      expect(querystringParams(undefined).size).toBe(0);
+    });
   });
 
   describe('combineFilters', () => {
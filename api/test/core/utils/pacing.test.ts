@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPacing,
+  closedWindowDays,
+  parsePacingComparisons,
+  assertPacingPeriod,
+  type PacingWindowSales,
+} from '../../../src/core/utils/pacing.js';
+import { ValidationError } from '../../../src/core/errors/app-error.js';
+
+const window = (
+  key: string,
+  startDate: string,
+  endDate: string,
+  daily: Record<string, number>,
+  businessDays?: { days: string[]; plannedDays: number }
+): PacingWindowSales => ({
+  key,
+  startDate,
+  endDate,
+  daily: new Map(Object.entries(daily)),
+  ...(businessDays && { businessDays }),
+});
+
+describe('pacing', () => {
+  describe('closedWindowDays', () => {
+    it('should count closed days and the running day within the window', () => {
+      expect(closedWindowDays('2026-03-01', '2026-03-31', '2026-03-10')).toEqual({ closed: 9, currentDay: 10, total: 31 });
+      expect(closedWindowDays('2026-03-01', '2026-03-31', '2026-02-27')).toEqual({ closed: 0, currentDay: 0, total: 31 });
+      expect(closedWindowDays('2026-03-01', '2026-03-31', '2026-04-05')).toEqual({ closed: 31, currentDay: 31, total: 31 });
+    });
+  });
+
+  describe('parsePacingComparisons', () => {
+    it('should default to last month and last year, dropping duplicates', () => {
+      expect(parsePacingComparisons(undefined)).toEqual(['previous_month', 'previous_year']);
+      expect(parsePacingComparisons('previous_year,previous_year')).toEqual(['previous_year']);
+    });
+  });
+
+  describe('assertPacingPeriod', () => {
+    it('should reject inverted and over-long periods', () => {
+      expect(() => assertPacingPeriod('2026-03-31', '2026-03-01')).toThrow(ValidationError);
+      expect(() => assertPacingPeriod('2025-01-01', '2026-03-01')).toThrow(ValidationError);
+      expect(() => assertPacingPeriod('2025-03-01', '2026-02-28')).not.toThrow();
+    });
+  });
+
+  describe('buildPacing', () => {
+    it('should align calendar days and compare the closed days only', () => {
+      const { rows, periods, meta } = buildPacing({
+        align: 'calendar_day',
+        current: window('current', '2026-03-01', '2026-03-04', { '2026-03-01': 10, '2026-03-02': 20, '2026-03-03': 5 }),
+        comparisons: [window('previous_month', '2026-02-01', '2026-02-03', { '2026-02-01': 15, '2026-02-02': 10, '2026-02-03': 30 })],
+        today: '2026-03-03',
+      });
+
+      expect(meta).toEqual({ align: 'calendar_day', today: '2026-03-03', closedDays: 2, currentDay: 3, totalDays: 4 });
+      expect(rows).toEqual([
+        { day: 1, date: '2026-03-01', current: 10, previous_month: 15 },
+        { day: 2, date: '2026-03-02', current: 30, previous_month: 25 },
+        { day: 3, date: '2026-03-03', current: 35, previous_month: 55 },
+        { day: 4, date: '2026-03-04', current: null, previous_month: null },
+      ]);
+      expect(periods).toEqual([
+        { key: 'current', startDate: '2026-03-01', endDate: '2026-03-04', days: 4, salesToDate: 30, growthToDate: null },
+        { key: 'previous_month', startDate: '2026-02-01', endDate: '2026-02-03', days: 3, salesToDate: 25, growthToDate: 20 },
+      ]);
+    });
+
+    it('should align business days and keep the planned days of the months', () => {
+      const { rows, periods, meta } = buildPacing({
+        align: 'business_day',
+        current: window(
+          'current', '2026-03-01', '2026-03-31',
+          { '2026-03-02': 100, '2026-03-03': 50 },
+          { days: ['2026-03-02', '2026-03-03'], plannedDays: 4 }
+        ),
+        comparisons: [window(
+          'previous_year', '2025-03-01', '2025-03-31',
+          { '2025-03-03': 80, '2025-03-04': 40, '2025-03-05': 60 },
+          { days: ['2025-03-03', '2025-03-04', '2025-03-05'], plannedDays: 3 }
+        )],
+        today: '2026-03-03',
+      });
+
+      expect(meta).toMatchObject({ closedDays: 1, currentDay: 2, totalDays: 4 });
+      expect(rows.map((row) => [row.date, row['current'], row['previous_year']])).toEqual([
+        ['2026-03-02', 100, 80],
+        ['2026-03-03', 150, 120],
+        [null, null, 180],
+        [null, null, null],
+      ]);
+      expect(periods[1]).toMatchObject({ days: 3, salesToDate: 80, growthToDate: 25 });
+    });
+
+    it('should leave the growth null before the first closed day or on a 0 base', () => {
+      const { periods, meta } = buildPacing({
+        align: 'calendar_day',
+        current: window('current', '2026-03-01', '2026-03-31', { '2026-03-01': 10 }),
+        comparisons: [window('previous_month', '2026-02-01', '2026-02-28', {})],
+        today: '2026-03-01',
+      });
+
+      expect(meta.closedDays).toBe(0);
+      expect(periods[1]!.growthToDate).toBeNull();
+    });
+  });
+});
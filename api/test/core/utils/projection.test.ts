@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { resolveProjectionWindow } from '../../../src/core/utils/projection.js';
+import { endOfMonth } from '../../../src/core/utils/dates.js';
+import { ValidationError } from '../../../src/core/errors/app-error.js';
+
+describe('projection', () => {
+  describe('endOfMonth', () => {
+    it('should return the last day of the month', () => {
+      expect(endOfMonth('2026-03-15')).toBe('2026-03-31');
+      expect(endOfMonth('2024-02-01')).toBe('2024-02-29');
+    });
+  });
+
+  describe('resolveProjectionWindow', () => {
+    it('should project to the end of the month of endDate by default', () => {
+      expect(resolveProjectionWindow('2026-03-01', '2026-03-15')).toEqual({
+        startDate: '2026-03-01',
+        endDate: '2026-03-15',
+        periodEnd: '2026-03-31',
+        lastYear: { startDate: '2025-03-01', endDate: '2025-03-15', periodEnd: '2025-03-31' },
+      });
+    });
+
+    it('should map the close to last year\'s month end', () => {
+      expect(resolveProjectionWindow('2024-01-01', '2024-02-10', '2024-02-29').lastYear.periodEnd).toBe('2023-02-28');
+    });
+
+    it('should reject an open range', () => {
+      expect(() => resolveProjectionWindow('2026-03-01', undefined)).toThrow(ValidationError);
+      expect(() => resolveProjectionWindow(undefined, '2026-03-15')).toThrow(ValidationError);
+    });
+  });
+});
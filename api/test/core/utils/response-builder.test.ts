@@ -4,6 +4,7 @@ import {
   buildDynamicResponseArray,
 } from '../../../src/core/utils/response-builder.js';
 import { generateMockQueryResult } from '../../helpers/test-data-builder.js';
+import { compileCustomMetric } from '../../../src/core/metrics/custom-metric.js';
 
 describe('response-builder', () => {
   describe('buildDynamicResponse', () => {
@@ -90,6 +91,33 @@ describe('response-builder', () => {
     });
   });
 
+  describe('custom metrics', () => {
+    it('should add the requested custom metrics with their defaults', () => {
+      const queryResult = { ...generateMockQueryResult(), custom_gap: 1500 };
+
+      const response = buildDynamicResponse(queryResult, [
+        compileCustomMetric('gap', '{sales} - {budget}'),
+        compileCustomMetric('ratio', 'if({budget} > 0, {sales} / {budget}, NULL)'),
+        compileCustomMetric('missing', '{orders} * 2'),
+      ]);
+
+      expect(response['custom_gap']).toBe(1500);
+      expect(response['custom_ratio']).toBeNull();
+      expect(response['custom_missing']).toBe(0);
+    });
+
+    it('should add the projection fields only when projected', () => {
+      const queryResult = { ...generateMockQueryResult(), projected_close: 12000, projected_gap: -500 };
+
+      expect(buildDynamicResponse(queryResult)).not.toHaveProperty('projected_close');
+
+      const response = buildDynamicResponse(queryResult, [], true);
+      expect(response['projected_close']).toBe(12000);
+      expect(response['projected_gap']).toBe(-500);
+      expect(response['required_daily_sales']).toBeNull();
+    });
+  });
+
   describe('buildDynamicResponseArray', () => {
     it('should convert array of query results to response array', () => {
       const queryResults = [
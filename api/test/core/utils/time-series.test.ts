@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  seriesTransformWindow,
+  seriesLookbackStart,
+  lastYearDate,
+  parseSeriesMetrics,
+  MAX_SERIES_METRICS,
+} from '../../../src/core/utils/time-series.js';
+import { ValidationError } from '../../../src/core/errors/app-error.js';
+
+describe('time-series', () => {
+  describe('seriesTransformWindow', () => {
+    it('should return rolling and cumulative windows', () => {
+      expect(seriesTransformWindow('rolling_30d', 'day')).toEqual({ kind: 'rolling', periods: 30 });
+      expect(seriesTransformWindow('rolling_12m', 'month')).toEqual({ kind: 'rolling', periods: 12 });
+      expect(seriesTransformWindow('ytd', 'quarter')).toEqual({ kind: 'cumulative', resetEvery: 'year' });
+    });
+
+    it('should reject transforms not defined for the granularity', () => {
+      expect(() => seriesTransformWindow('mtd', 'month')).toThrow(ValidationError);
+      expect(() => seriesTransformWindow('rolling_7d', 'week')).toThrow(ValidationError);
+    });
+  });
+
+  describe('seriesLookbackStart', () => {
+    it('should start cumulative transforms at the start of the month or year', () => {
+      expect(seriesLookbackStart('mtd', '2026-03-15')).toBe('2026-03-01');
+      expect(seriesLookbackStart('ytd', '2026-03-15')).toBe('2026-01-01');
+    });
+
+    it('should look back the window length minus the current period', () => {
+      expect(seriesLookbackStart('rolling_7d', '2026-03-03')).toBe('2026-02-25');
+      expect(seriesLookbackStart('rolling_3m', '2026-02-01')).toBe('2025-12-01');
+    });
+  });
+
+  describe('lastYearDate', () => {
+    it('should keep the weekday for same_weekday', () => {
+      expect(lastYearDate('same_weekday', '2026-03-10')).toBe('2025-03-11');
+    });
+
+    it('should keep the calendar date for same_date', () => {
+      expect(lastYearDate('same_date', '2026-03-10')).toBe('2025-03-10');
+    });
+  });
+
+  describe('parseSeriesMetrics', () => {
+    it('should default to sales and budget', () => {
+      expect(parseSeriesMetrics(undefined)).toEqual(['sales', 'budget']);
+    });
+
+    it('should split and deduplicate', () => {
+      expect(parseSeriesMetrics('sales, orders,sales')).toEqual(['sales', 'orders']);
+    });
+
+    it('should reject too many metrics', () => {
+      const metrics = Array.from({ length: MAX_SERIES_METRICS + 1 }, (_, i) => `m${i}`).join(',');
+      expect(() => parseSeriesMetrics(metrics)).toThrow(ValidationError);
+    });
+  });
+});
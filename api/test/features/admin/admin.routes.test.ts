@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Fastify from 'fastify';
+import { adminRoutes } from '../../../src/features/admin/admin.routes.js';
+import { setupErrorHandler } from '../../../src/core/errors/error-handler.js';
+import { QUERY_CACHE_TTLS } from '../../../src/core/config/query-cache.config.js';
+import type { QueryCache } from '../../../src/core/cache/query-cache.js';
+import { queryMonitor } from '../../../src/core/observability/query-monitor.js';
+
+const mockInspect = vi.fn();
+const mockPurge = vi.fn();
+
+// Mock middleware - allow all by default
+vi.mock('../../../src/core/middleware/authenticate.js', () => ({
+  authenticate: vi.fn(async (request: { user?: unknown }) => {
+    request.user = { id: 'user-1', email: 'test@test.com', emailVerified: true };
+  }),
+}));
+
+vi.mock('../../../src/core/middleware/authorize.js', () => ({
+  requireAdmin: vi.fn(async () => {}),
+  requireSuperadmin: vi.fn(async () => {}),
+}));
+
+async function buildApp(withCache: boolean) {
+  const app = Fastify({ logger: false });
+  setupErrorHandler(app);
+  if (withCache) {
+    app.decorate('queryCache', { inspect: mockInspect, purge: mockPurge } as unknown as QueryCache);
+  }
+  await adminRoutes(app);
+  await app.ready();
+  return app;
+}
+
+describe('Admin Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('GET /admin/cache', () => {
+    it('should return the cache status and TTLs', async () => {
+      mockInspect.mockResolvedValue({
+        backend: 'memory',
+        entries: 3,
+        hits: 10,
+        misses: 4,
+        dataVersion: '2026-01-01 03:00:00#42',
+        lastInvalidatedAt: null,
+      });
+      const app = await buildApp(true);
+
+      const response = await app.inject({ method: 'GET', url: '/admin/cache' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({
+        enabled: true,
+        backend: 'memory',
+        entries: 3,
+        hits: 10,
+        misses: 4,
+        dataVersion: '2026-01-01 03:00:00#42',
+        lastInvalidatedAt: null,
+        ttls: QUERY_CACHE_TTLS,
+      });
+    });
+
+    it('should report a disabled cache', async () => {
+      const app = await buildApp(false);
+
+      const response = await app.inject({ method: 'GET', url: '/admin/cache' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ enabled: false, ttls: QUERY_CACHE_TTLS });
+    });
+  });
+
+  describe('DELETE /admin/cache', () => {
+    it('should purge the cache', async () => {
+      mockPurge.mockResolvedValue(5);
+      const app = await buildApp(true);
+
+      const response = await app.inject({ method: 'DELETE', url: '/admin/cache' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ removed: 5 });
+      expect(mockPurge).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return 0 when the cache is disabled', async () => {
+      const app = await buildApp(false);
+
+      const response = await app.inject({ method: 'DELETE', url: '/admin/cache' });
+
+      expect(response.json()).toEqual({ removed: 0 });
+    });
+  });
+
+  describe('GET /admin/queries', () => {
+    beforeEach(() => {
+      queryMonitor.reset();
+      queryMonitor.configure({ slowThresholdMs: 1000, slowLogSize: 10 });
+    });
+
+    it('should return the slow queries and the totals per kind', async () => {
+      const base = {
+        requestId: 'req-1',
+        startedAt: '2026-10-19T12:00:00.000Z',
+        readRows: 500,
+        readBytes: 2000,
+        resultRows: 5,
+        error: null,
+        sql: 'SELECT 1',
+      };
+      queryMonitor.record({ ...base, queryId: 'q-1', kind: 'yoy', elapsedMs: 200 });
+      queryMonitor.record({ ...base, queryId: 'q-2', kind: 'grouped-yoy', elapsedMs: 2500 });
+      const app = await buildApp(false);
+
+      const response = await app.inject({ method: 'GET', url: '/admin/queries' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({
+        slowThresholdMs: 1000,
+        slow: [{ ...base, queryId: 'q-2', kind: 'grouped-yoy', elapsedMs: 2500 }],
+        kinds: [
+          { kind: 'grouped-yoy', count: 1, errors: 0, slow: 1, totalMs: 2500, maxMs: 2500, readRows: 500, readBytes: 2000 },
+          { kind: 'yoy', count: 1, errors: 0, slow: 0, totalMs: 200, maxMs: 200, readRows: 500, readBytes: 2000 },
+        ],
+      });
+    });
+  });
+});
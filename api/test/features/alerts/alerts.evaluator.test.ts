@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  ALERT_TARGET_LIMIT,
+  AlertEvaluator,
+  diffBreaches,
+  isBreached,
+  pendingNotifications,
+  type AlertTarget,
+} from '../../../src/features/alerts/alerts.evaluator.js';
+import type { AnalyticsQueryBuilder } from '../../../src/core/db/clickhouse/query/analytics-query-builder.js';
+import type { AlertEvent } from '../../../src/core/db/postgres/schema.js';
+
+const REGIONAL_SCOPE = [{ field: 'IdRegional', operator: 'eq' as const, value: '01' }];
+
+const mockResolveUserDataScope = vi.fn();
+
+vi.mock('../../../src/core/middleware/data-scope.js', () => ({
+  resolveUserDataScope: (...args: unknown[]) => mockResolveUserDataScope(...args),
+}));
+
+const mockBuildMultiTableYoYQuery = vi.fn();
+const mockBuildGroupedMultiTableYoYQuery = vi.fn();
+const mockWithScope = vi.fn();
+
+const analyticsBuilder = {
+  withScope: mockWithScope,
+} as unknown as AnalyticsQueryBuilder;
+
+const owner = { id: 'user-1', dynaRole: 'MANAGER_REGIONAL' };
+
+// Wednesday
+const now = new Date('2026-03-18T12:00:00.000Z');
+
+describe('alerts.evaluator', () => {
+  describe('isBreached', () => {
+    it('should compare the value with the threshold', () => {
+      expect(isBreached(85, 'lt', 90)).toBe(true);
+      expect(isBreached(90, 'lt', 90)).toBe(false);
+      expect(isBreached(90, 'lte', 90)).toBe(true);
+      expect(isBreached(-0.5, 'lt', 0)).toBe(true);
+      expect(isBreached(12, 'gt', 10)).toBe(true);
+      expect(isBreached(10, 'gte', 10)).toBe(true);
+    });
+
+    it('should never breach without a value', () => {
+      expect(isBreached(null, 'lt', 90)).toBe(false);
+      expect(isBreached(Number.NaN, 'gt', 0)).toBe(false);
+    });
+  });
+
+  describe('diffBreaches', () => {
+    const target = (id: string, value: number): AlertTarget => ({ id, name: `Regional ${id}`, value });
+
+    it('should notify only targets that start breaching', () => {
+      const targets = [target('01', 80), target('02', 85), target('03', 95)];
+
+      const { triggered, resolved } = diffBreaches(['01'], { targets, breached: [targets[0]!, targets[1]!] });
+
+      expect(triggered).toEqual([target('02', 85)]);
+      expect(resolved).toEqual([]);
+    });
+
+    it('should resolve targets that recovered or disappeared', () => {
+      const targets = [target('01', 95)];
+
+      const { triggered, resolved } = diffBreaches(['01', '02'], { targets, breached: [] });
+
+      expect(triggered).toEqual([]);
+      expect(resolved).toEqual([target('01', 95), { id: '02', name: null, value: null }]);
+    });
+  });
+
+  describe('pendingNotifications', () => {
+    const event = (id: string, dimensionId: string | null) => ({ id, dimensionId, status: 'triggered' }) as AlertEvent;
+
+    it('should keep the unemailed events of targets still in breach', () => {
+      const breached = [{ id: '01', name: 'Antioquia', value: 80 }];
+
+      expect(pendingNotifications([event('e1', '01'), event('e2', '02')], { breached }))
+        .toEqual([event('e1', '01')]);
+    });
+
+    it('should notify a target once, by its latest event', () => {
+      const breached = [{ id: '01', name: 'Antioquia', value: 80 }];
+
+      expect(pendingNotifications([event('e1', '01'), event('e2', '01')], { breached }))
+        .toEqual([event('e2', '01')]);
+    });
+
+    it('should match rules without dimension by the whole scope', () => {
+      expect(pendingNotifications([event('e1', null)], { breached: [{ id: '', name: null, value: 80 }] }))
+        .toEqual([event('e1', null)]);
+      expect(pendingNotifications([event('e1', null)], { breached: [] })).toEqual([]);
+    });
+  });
+
+  describe('AlertEvaluator', () => {
+    let evaluator: AlertEvaluator;
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      mockResolveUserDataScope.mockResolvedValue(REGIONAL_SCOPE);
+      mockWithScope.mockReturnValue({
+        buildMultiTableYoYQuery: mockBuildMultiTableYoYQuery,
+        buildGroupedMultiTableYoYQuery: mockBuildGroupedMultiTableYoYQuery,
+      });
+      evaluator = new AlertEvaluator(analyticsBuilder);
+    });
+
+    const rule = {
+      metric: 'budget_achievement_pct',
+      dimension: null,
+      filters: { channel: 'DISTRIBUCION' },
+      preset: 'current-month' as const,
+      comparator: 'lt' as const,
+      threshold: 90,
+      breached: [] as string[],
+    };
+
+    it('should evaluate the whole scope over the preset dates', async () => {
+      mockBuildMultiTableYoYQuery.mockResolvedValue({ budget_achievement_pct: 87.5 });
+
+      const evaluation = await evaluator.evaluate(rule, owner, now);
+
+      expect(evaluation).toEqual({
+        startDate: '2026-03-01',
+        endDate: '2026-03-18',
+        targets: [{ id: '', name: null, value: 87.5 }],
+        breached: [{ id: '', name: null, value: 87.5 }],
+      });
+      expect(mockResolveUserDataScope).toHaveBeenCalledWith(owner, [{ field: 'channel', operator: 'eq', value: 'DISTRIBUCION' }]);
+      expect(mockWithScope).toHaveBeenCalledWith(REGIONAL_SCOPE);
+      expect(mockBuildMultiTableYoYQuery).toHaveBeenCalledWith(expect.objectContaining({
+        currentPeriodFilters: [
+          { field: 'date', operator: 'gte', value: '2026-03-01' },
+          { field: 'date', operator: 'lte', value: '2026-03-18' },
+          { field: 'channel', operator: 'eq', value: 'DISTRIBUCION' },
+        ],
+        facturadoOnly: false,
+      }));
+    });
+
+    it('should read only the breaching members of the rule dimension', async () => {
+      mockBuildGroupedMultiTableYoYQuery.mockResolvedValue([
+        { id: '01', name: 'Antioquia', gross_margin_pct_vs_last_year: -1.2 },
+      ]);
+
+      const evaluation = await evaluator.evaluate(
+        { ...rule, metric: 'gross_margin_pct_vs_last_year', dimension: 'IdRegional', threshold: 0, preset: 'previous-month' },
+        owner,
+        now
+      );
+
+      expect(evaluation.breached).toEqual([{ id: '01', name: 'Antioquia', value: -1.2 }]);
+      expect(evaluation.targets).toHaveLength(1);
+      expect(mockBuildGroupedMultiTableYoYQuery).toHaveBeenCalledTimes(1);
+      expect(mockBuildGroupedMultiTableYoYQuery).toHaveBeenCalledWith(expect.objectContaining({
+        groupBy: 'IdRegional',
+        facturadoOnly: true,
+        having: { field: 'gross_margin_pct_vs_last_year', operator: 'lt', value: 0 },
+        limit: ALERT_TARGET_LIMIT,
+      }));
+    });
+
+    it('should re-read the members in breach at the previous evaluation', async () => {
+      mockBuildGroupedMultiTableYoYQuery
+        .mockResolvedValueOnce([{ id: '01', name: 'Antioquia', gross_margin_pct_vs_last_year: -1.2 }])
+        .mockResolvedValueOnce([{ id: '02', name: 'Caribe', gross_margin_pct_vs_last_year: 0.4 }]);
+
+      const evaluation = await evaluator.evaluate(
+        {
+          ...rule,
+          metric: 'gross_margin_pct_vs_last_year',
+          dimension: 'IdRegional',
+          threshold: 0,
+          breached: ['01', '02', '03'],
+        },
+        owner,
+        now
+      );
+
+      expect(mockBuildGroupedMultiTableYoYQuery).toHaveBeenLastCalledWith(expect.objectContaining({
+        currentPeriodFilters: expect.arrayContaining([
+          { field: 'IdRegional', operator: 'in', value: ['02', '03'], trim: true },
+        ]),
+        limit: 2,
+      }));
+      expect(mockBuildGroupedMultiTableYoYQuery.mock.lastCall![0]).not.toHaveProperty('having');
+      expect(evaluation.targets.map((target) => target.id)).toEqual(['01', '02']);
+      expect(diffBreaches(['01', '02', '03'], evaluation).resolved).toEqual([
+        { id: '02', name: 'Caribe', value: 0.4 },
+        { id: '03', name: null, value: null },
+      ]);
+    });
+
+    it('should reject metrics outside the catalog', async () => {
+      await expect(evaluator.evaluate({ ...rule, metric: 'unknown_metric' }, owner, now))
+        .rejects.toThrow('Unknown metric: unknown_metric');
+      expect(mockBuildMultiTableYoYQuery).not.toHaveBeenCalled();
+    });
+  });
+});
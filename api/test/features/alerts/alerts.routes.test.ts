@@ -0,0 +1,249 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Fastify from 'fastify';
+import { alertsRoutes } from '../../../src/features/alerts/alerts.routes.js';
+import { setupErrorHandler } from '../../../src/core/errors/error-handler.js';
+import { ValidationError } from '../../../src/core/errors/app-error.js';
+
+const mockListRules = vi.fn();
+const mockCreateRule = vi.fn();
+const mockUpdateRule = vi.fn();
+const mockSnoozeRule = vi.fn();
+const mockDeleteRule = vi.fn();
+const mockListRuleEvents = vi.fn();
+const mockListEvents = vi.fn();
+const mockMarkRead = vi.fn();
+const mockMarkAllRead = vi.fn();
+
+vi.mock('../../../src/features/alerts/alerts.service.js', () => {
+  return {
+    AlertsService: class {
+      listRules = mockListRules;
+      createRule = mockCreateRule;
+      updateRule = mockUpdateRule;
+      snoozeRule = mockSnoozeRule;
+      deleteRule = mockDeleteRule;
+      listRuleEvents = mockListRuleEvents;
+      listEvents = mockListEvents;
+      markRead = mockMarkRead;
+      markAllRead = mockMarkAllRead;
+    },
+  };
+});
+
+vi.mock('../../../src/core/middleware/authenticate.js', () => ({
+  authenticate: vi.fn(async (request: { user?: unknown }) => {
+    request.user = { id: 'user-1', email: 'test@test.com', emailVerified: true, dynaRole: 'MANAGER_DISTRIBUTION' };
+  }),
+}));
+
+const ruleId = '3b1e6f7a-2c4d-4e8f-9a0b-1c2d3e4f5a6b';
+const eventId = '7c8d9e0f-1a2b-4c3d-8e4f-5a6b7c8d9e0f';
+
+const rule = {
+  id: ruleId,
+  name: 'Cumplimiento por regional',
+  metric: 'budget_achievement_pct',
+  dimension: 'IdRegional',
+  filters: {},
+  preset: 'current-month',
+  comparator: 'lt',
+  threshold: 90,
+  frequency: 'daily',
+  hour: 11,
+  active: true,
+  snoozedUntil: null,
+  breachedCount: 0,
+  nextRunAt: '2026-03-19T11:00:00.000Z',
+  lastEvaluatedAt: null,
+  lastError: null,
+  createdAt: '2026-03-18T12:00:00.000Z',
+  updatedAt: '2026-03-18T12:00:00.000Z',
+};
+
+const event = {
+  id: eventId,
+  ruleId,
+  status: 'triggered',
+  ruleName: rule.name,
+  metric: rule.metric,
+  comparator: 'lt',
+  threshold: 90,
+  value: 84.2,
+  dimension: 'IdRegional',
+  dimensionId: '01',
+  dimensionName: 'Antioquia',
+  startDate: '2026-03-01',
+  endDate: '2026-03-18',
+  emailedAt: '2026-03-18T11:00:02.000Z',
+  readAt: null,
+  createdAt: '2026-03-18T11:00:00.000Z',
+};
+
+describe('Alerts Routes', () => {
+  let app: Awaited<ReturnType<typeof Fastify>>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    app = Fastify({ logger: false });
+    setupErrorHandler(app);
+    alertsRoutes(app);
+    await app.ready();
+  });
+
+  describe('GET /alerts/rules', () => {
+    it('should list the rules of the session user', async () => {
+      mockListRules.mockResolvedValue([rule]);
+
+      const response = await app.inject({ method: 'GET', url: '/alerts/rules' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ data: [rule] });
+      expect(mockListRules).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }));
+    });
+  });
+
+  describe('POST /alerts/rules', () => {
+    const body = {
+      name: rule.name,
+      metric: rule.metric,
+      dimension: 'IdRegional',
+      preset: 'current-month',
+      comparator: 'lt',
+      threshold: 90,
+      frequency: 'daily',
+    };
+
+    it('should create the rule for the session user', async () => {
+      mockCreateRule.mockResolvedValue(rule);
+
+      const response = await app.inject({ method: 'POST', url: '/alerts/rules', payload: body });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json()).toEqual(rule);
+      expect(mockCreateRule).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1', dynaRole: 'MANAGER_DISTRIBUTION' }), body);
+    });
+
+    it('should return 400 for unknown metrics', async () => {
+      mockCreateRule.mockRejectedValue(new ValidationError('Unknown metric: foo'));
+
+      const response = await app.inject({ method: 'POST', url: '/alerts/rules', payload: { ...body, metric: 'foo' } });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().detail).toContain('Unknown metric: foo');
+    });
+  });
+
+  describe('PATCH /alerts/rules/:id', () => {
+    it('should update an owned rule', async () => {
+      mockUpdateRule.mockResolvedValue({ ...rule, threshold: 95 });
+
+      const response = await app.inject({ method: 'PATCH', url: `/alerts/rules/${ruleId}`, payload: { threshold: 95 } });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().threshold).toBe(95);
+      expect(mockUpdateRule).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }), ruleId, { threshold: 95 });
+    });
+
+    it('should return 404 for rules of other users', async () => {
+      mockUpdateRule.mockResolvedValue(null);
+
+      const response = await app.inject({ method: 'PATCH', url: `/alerts/rules/${ruleId}`, payload: { active: false } });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /alerts/rules/:id/snooze', () => {
+    it('should snooze an owned rule until the date', async () => {
+      mockSnoozeRule.mockResolvedValue({ ...rule, snoozedUntil: '2026-03-25T00:00:00.000Z' });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/alerts/rules/${ruleId}/snooze`,
+        payload: { until: '2026-03-25T00:00:00.000Z' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockSnoozeRule).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }), ruleId, new Date('2026-03-25T00:00:00.000Z'));
+    });
+
+    it('should unsnooze with null', async () => {
+      mockSnoozeRule.mockResolvedValue(rule);
+
+      await app.inject({ method: 'POST', url: `/alerts/rules/${ruleId}/snooze`, payload: { until: null } });
+
+      expect(mockSnoozeRule).toHaveBeenCalledWith(expect.anything(), ruleId, null);
+    });
+  });
+
+  describe('DELETE /alerts/rules/:id', () => {
+    it('should return 404 when nothing was deleted', async () => {
+      mockDeleteRule.mockResolvedValue(false);
+
+      const response = await app.inject({ method: 'DELETE', url: `/alerts/rules/${ruleId}` });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('GET /alerts/rules/:id/events', () => {
+    it('should return the history of an owned rule', async () => {
+      mockListRuleEvents.mockResolvedValue([event]);
+
+      const response = await app.inject({ method: 'GET', url: `/alerts/rules/${ruleId}/events` });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ data: [event] });
+    });
+
+    it('should return 404 for rules of other users', async () => {
+      mockListRuleEvents.mockResolvedValue(null);
+
+      const response = await app.inject({ method: 'GET', url: `/alerts/rules/${ruleId}/events` });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('GET /alerts/events', () => {
+    it('should return the inbox with the unread count', async () => {
+      mockListEvents.mockResolvedValue({ data: [event], unreadCount: 1 });
+
+      const response = await app.inject({ method: 'GET', url: '/alerts/events?unread=true' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ data: [event], unreadCount: 1 });
+      expect(mockListEvents).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }), expect.objectContaining({ unread: true }));
+    });
+  });
+
+  describe('POST /alerts/events/:id/read', () => {
+    it('should mark an own event as read', async () => {
+      mockMarkRead.mockResolvedValue(true);
+
+      const response = await app.inject({ method: 'POST', url: `/alerts/events/${eventId}/read` });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockMarkRead).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }), eventId);
+    });
+
+    it('should return 404 for events of other users', async () => {
+      mockMarkRead.mockResolvedValue(false);
+
+      const response = await app.inject({ method: 'POST', url: `/alerts/events/${eventId}/read` });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /alerts/events/read', () => {
+    it('should mark every event as read', async () => {
+      mockMarkAllRead.mockResolvedValue(3);
+
+      const response = await app.inject({ method: 'POST', url: '/alerts/events/read' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ updated: 3 });
+    });
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { nextEvaluationAt } from '../../../src/features/alerts/alerts.schedule.js';
+
+describe('alerts.schedule', () => {
+  describe('nextEvaluationAt', () => {
+    // Wednesday
+    const now = new Date('2026-03-18T12:30:00.000Z');
+
+    it('should evaluate hourly rules at the start of the next hour', () => {
+      expect(nextEvaluationAt('hourly', 11, now)).toEqual(new Date('2026-03-18T13:00:00.000Z'));
+      expect(nextEvaluationAt('hourly', 11, new Date('2026-03-18T13:00:00.000Z'))).toEqual(new Date('2026-03-18T14:00:00.000Z'));
+    });
+
+    it('should evaluate daily and weekly rules at their hour', () => {
+      expect(nextEvaluationAt('daily', 11, now)).toEqual(new Date('2026-03-19T11:00:00.000Z'));
+      expect(nextEvaluationAt('weekly', 11, now)).toEqual(new Date('2026-03-23T11:00:00.000Z'));
+    });
+  });
+});
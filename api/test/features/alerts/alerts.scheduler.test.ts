@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AlertScheduler } from '../../../src/features/alerts/alerts.scheduler.js';
+import { MemoryEmailTransport } from '../../../src/core/email/email-transport.js';
+import type { AlertEvent, AlertRule } from '../../../src/core/db/postgres/schema.js';
+import { ForbiddenError } from '../../../src/core/errors/app-error.js';
+
+const service = {
+  claimDue: vi.fn(),
+  getOwner: vi.fn(),
+  recordEvaluation: vi.fn(),
+  recordFailure: vi.fn(),
+  markEmailed: vi.fn(),
+};
+const evaluator = { evaluate: vi.fn() };
+
+const now = new Date('2026-03-18T11:00:00.000Z');
+
+const rule = {
+  id: 'rule-1',
+  ownerId: 'user-1',
+  name: 'Cumplimiento por regional',
+  metric: 'budget_achievement_pct',
+  dimension: 'IdRegional',
+  filters: {},
+  preset: 'current-month',
+  comparator: 'lt',
+  threshold: 90,
+  frequency: 'daily',
+  hour: 11,
+  active: true,
+  snoozedUntil: null,
+  breached: [],
+  nextRunAt: now,
+  lastEvaluatedAt: null,
+  lastError: null,
+  lockedUntil: null,
+  lockedBy: 'instance-1',
+  createdAt: now,
+  updatedAt: now,
+} as AlertRule;
+
+const owner = { id: 'user-1', email: 'gerente@example.com', isActive: true, dynaRole: 'MANAGER_REGIONAL' };
+
+const evaluation = {
+  startDate: '2026-03-01',
+  endDate: '2026-03-18',
+  targets: [{ id: '01', name: 'Antioquia', value: 84.2 }],
+  breached: [{ id: '01', name: 'Antioquia', value: 84.2 }],
+};
+
+const event = {
+  id: 'event-1',
+  ruleId: rule.id,
+  ownerId: rule.ownerId,
+  status: 'triggered',
+  ruleName: rule.name,
+  metric: rule.metric,
+  comparator: rule.comparator,
+  threshold: rule.threshold,
+  value: 84.2,
+  dimension: 'IdRegional',
+  dimensionId: '01',
+  dimensionName: 'Antioquia',
+  startDate: '2026-03-01',
+  endDate: '2026-03-18',
+  emailedAt: null,
+  readAt: null,
+  createdAt: now,
+} as AlertEvent;
+
+describe('AlertScheduler', () => {
+  let transport: MemoryEmailTransport;
+  let scheduler: AlertScheduler;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    transport = new MemoryEmailTransport();
+    scheduler = new AlertScheduler(service, evaluator, transport, 60_000, 'https://dynainfo.example.com', 'instance-1');
+    service.claimDue.mockResolvedValue([rule]);
+    service.getOwner.mockResolvedValue(owner);
+    evaluator.evaluate.mockResolvedValue(evaluation);
+    service.recordEvaluation.mockResolvedValue([event]);
+  });
+
+  it('should evaluate the claimed rules and email new breaches', async () => {
+    await expect(scheduler.runner.tick(now)).resolves.toBe(1);
+
+    expect(evaluator.evaluate).toHaveBeenCalledWith(rule, owner, now);
+    expect(service.recordEvaluation).toHaveBeenCalledWith(rule, 'instance-1', evaluation, now);
+    expect(transport.outbox).toHaveLength(1);
+    expect(transport.outbox[0]).toMatchObject({ to: 'gerente@example.com', subject: 'Alerta: Cumplimiento por regional (1)' });
+    expect(transport.outbox[0]!.html).toContain('Antioquia');
+    expect(transport.outbox[0]!.html).toContain('https://dynainfo.example.com');
+    expect(service.markEmailed).toHaveBeenCalledWith(['event-1'], now);
+  });
+
+  it('should not email breaches that were already notified', async () => {
+    service.recordEvaluation.mockResolvedValue([]);
+
+    await expect(scheduler.runner.tick(now)).resolves.toBe(0);
+
+    expect(transport.outbox).toEqual([]);
+    expect(service.markEmailed).not.toHaveBeenCalled();
+  });
+
+  it('should keep the events when the email fails', async () => {
+    vi.spyOn(transport, 'send').mockRejectedValue(new Error('Resend error: rate limited'));
+
+    await expect(scheduler.runner.tick(now)).resolves.toBe(1);
+
+    expect(service.markEmailed).not.toHaveBeenCalled();
+    expect(service.recordFailure).not.toHaveBeenCalled();
+  });
+
+  it('should record failed evaluations', async () => {
+    evaluator.evaluate.mockRejectedValue(new Error('ClickHouse timeout'));
+
+    await expect(scheduler.runner.tick(now)).resolves.toBe(0);
+
+    expect(service.recordFailure).toHaveBeenCalledWith(rule, 'instance-1', 'ClickHouse timeout', now, { pause: false });
+    expect(service.recordEvaluation).not.toHaveBeenCalled();
+  });
+
+  it('should pause rules of inactive owners or outside their data scope', async () => {
+    service.getOwner.mockResolvedValueOnce({ ...owner, isActive: false });
+    await scheduler.runner.tick(now);
+    expect(service.recordFailure).toHaveBeenLastCalledWith(rule, 'instance-1', 'Owner account is inactive', now, { pause: true });
+
+    evaluator.evaluate.mockRejectedValue(new ForbiddenError('Access denied'));
+    await scheduler.runner.tick(now);
+    expect(service.recordFailure).toHaveBeenLastCalledWith(rule, 'instance-1', 'Access denied', now, { pause: true });
+  });
+});
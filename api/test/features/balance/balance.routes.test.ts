@@ -4,15 +4,22 @@ import { generateMockQueryResult, generateExpectedResponse } from '../../helpers
 
 // Mock ALL dependencies BEFORE importing anything
 const mockGetBalanceSheet = vi.fn();
+const mockGetPacing = vi.fn();
 const mockAnalyticsBuilder = {
   buildMultiTableYoYQuery: vi.fn(),
   buildGroupedMultiTableYoYQuery: vi.fn(),
 };
+const mockWithScope = vi.fn();
+
+// Session user attached by the (mocked) authenticate middleware
+let mockDynaRole: string | null = null;
 
 vi.mock('../../../src/features/balance/balance.service.js', () => ({
   BalanceService: vi.fn(function() {
     // @ts-expect-error - mocking constructor
     this.getBalanceSheet = mockGetBalanceSheet;
+    // @ts-expect-error - mocking constructor
+    this.getPacing = mockGetPacing;
   }),
 }));
 
@@ -22,6 +29,50 @@ vi.mock('../../../src/core/db/clickhouse/query/analytics-query-builder.js', () =
     this.buildMultiTableYoYQuery = mockAnalyticsBuilder.buildMultiTableYoYQuery;
     // @ts-expect-error - mocking constructor
     this.buildGroupedMultiTableYoYQuery = mockAnalyticsBuilder.buildGroupedMultiTableYoYQuery;
+    // @ts-expect-error - mocking constructor
+    this.withScope = mockWithScope.mockReturnThis();
+  }),
+}));
+
+vi.mock('../../../src/core/middleware/authenticate.js', () => ({
+  authenticate: vi.fn(async (request: { user?: unknown }) => {
+    request.user = { id: 'user-1', email: 'test@test.com', emailVerified: true, dynaRole: mockDynaRole };
+  }),
+}));
+
+// Persisted role access (only the distribution role is defined)
+vi.mock('../../../src/core/auth/role-access.service.js', () => ({
+  roleAccessService: {
+    getRoleAccess: vi.fn(async (dynaRole: string | null) => {
+      if (!dynaRole) return { role: null, label: null, fullAccess: true, paths: [], dataFilters: {} };
+      if (dynaRole !== 'MANAGER_DISTRIBUTION') return null;
+      return {
+        role: dynaRole,
+        label: 'Distribución',
+        fullAccess: false,
+        paths: [],
+        dataFilters: { channel: ['DISTRIBUCION'] },
+      };
+    }),
+  },
+}));
+
+// Per-user entitlements (a regional manager for user-1 when set)
+let mockEntitlements: Record<string, string[]> = {};
+
+vi.mock('../../../src/core/auth/user-entitlement.service.js', () => ({
+  userEntitlementService: {
+    getEntitlements: vi.fn(async () => mockEntitlements),
+  },
+}));
+
+// Custom metrics requested with metrics=<key>
+const mockResolveForQuery = vi.fn(async (_user: unknown, _keys: string[]): Promise<unknown[]> => []);
+
+vi.mock('../../../src/features/custom-metrics/custom-metrics.service.js', () => ({
+  CustomMetricsService: vi.fn(function() {
+    // @ts-expect-error - mocking constructor
+    this.resolveForQuery = mockResolveForQuery;
   }),
 }));
 
@@ -48,6 +99,8 @@ describe('Balance Routes', () => {
     app.setSerializerCompiler(() => (data) => JSON.stringify(data));
 
     mockDbClient = createMockDbClient();
+    mockDynaRole = null;
+    mockEntitlements = {};
 
     vi.clearAllMocks();
 
@@ -88,6 +141,7 @@ describe('Balance Routes', () => {
       expect(response.statusCode).toBe(200);
       expect(response.json()).toEqual({
         data: expectedResponse,
+        meta: { comparison: { mode: 'previous_year', startDate: '2024-12-01', endDate: '2024-12-31' } },
       });
     });
 
@@ -218,4 +272,242 @@ describe('Balance Routes', () => {
       });
     });
   });
+
+  describe('data scope', () => {
+    it('should not scope users with full access', async () => {
+      mockGetBalanceSheet.mockResolvedValue({});
+
+      const response = await app.inject({ method: 'GET', url: '/balance' });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockWithScope).toHaveBeenCalledWith([], undefined);
+    });
+
+    it('should bind the query builder to the role channel', async () => {
+      mockDynaRole = 'MANAGER_DISTRIBUTION';
+      mockGetBalanceSheet.mockResolvedValue({});
+
+      const response = await app.inject({ method: 'GET', url: '/balance?startDate=2025-01-01' });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockWithScope).toHaveBeenCalledWith([
+        { field: 'channel', operator: 'eq', value: 'DISTRIBUCION' },
+      ], undefined);
+    });
+
+    it('should accept a filter that stays inside the scope', async () => {
+      mockDynaRole = 'MANAGER_DISTRIBUTION';
+      mockGetBalanceSheet.mockResolvedValue({});
+
+      const response = await app.inject({ method: 'GET', url: '/balance?channel=DISTRIBUCION' });
+
+      expect(response.statusCode).toBe(200);
+    });
+
+    it('should return 403 when a param tries to override the scope', async () => {
+      mockDynaRole = 'MANAGER_DISTRIBUTION';
+
+      const response = await app.inject({ method: 'GET', url: '/balance?channel=CADENAS' });
+
+      expect(response.statusCode).toBe(403);
+      expect(mockGetBalanceSheet).not.toHaveBeenCalled();
+    });
+
+    it('should add the user entitlements to the role scope', async () => {
+      mockDynaRole = 'MANAGER_DISTRIBUTION';
+      mockEntitlements = { IdRegional: ['R01'] };
+      mockGetBalanceSheet.mockResolvedValue({});
+
+      const response = await app.inject({ method: 'GET', url: '/balance' });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockWithScope).toHaveBeenCalledWith([
+        { field: 'channel', operator: 'eq', value: 'DISTRIBUCION' },
+        { field: 'IdRegional', operator: 'eq', value: 'R01' },
+      ], undefined);
+    });
+
+    it('should intersect user filters with the entitlements instead of rejecting them', async () => {
+      mockEntitlements = { IdRegional: ['R01'] };
+      mockGetBalanceSheet.mockResolvedValue({});
+
+      const response = await app.inject({ method: 'GET', url: '/balance?IdRegional=R02' });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockWithScope).toHaveBeenCalledWith([
+        { field: 'IdRegional', operator: 'eq', value: 'R01' },
+      ], undefined);
+    });
+
+    it('should return 403 for unknown roles', async () => {
+      mockDynaRole = 'SOMETHING_ELSE';
+
+      const response = await app.inject({ method: 'GET', url: '/balance' });
+
+      expect(response.statusCode).toBe(403);
+      expect(mockGetBalanceSheet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('custom metrics', () => {
+    it('should resolve metrics= for the session user instead of filtering on it', async () => {
+      const resolved = [{ name: 'custom_growth', key: 'growth', label: 'Growth', format: 'percent' }];
+      mockResolveForQuery.mockResolvedValueOnce(resolved);
+      mockGetBalanceSheet.mockResolvedValue({ custom_growth: 12.5 });
+
+      const response = await app.inject({ method: 'GET', url: '/balance?metrics=growth,growth&seller_id=S001' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ data: { custom_growth: 12.5 } });
+      expect(mockResolveForQuery).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }), ['growth']);
+      expect(mockGetBalanceSheet).toHaveBeenCalledWith({
+        filters: [{ field: 'seller_id', operator: 'eq', value: 'S001' }],
+        facturadoOnly: false,
+        customMetrics: resolved,
+      });
+    });
+
+    it('should return 400 for invalid metric keys', async () => {
+      const response = await app.inject({ method: 'GET', url: '/balance?metrics=Drop-Table' });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockGetBalanceSheet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('comparison period', () => {
+    it('should compare against an explicit window and report it in meta', async () => {
+      mockGetBalanceSheet.mockResolvedValue({});
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/balance?startDate=2026-01-01&endDate=2026-01-31&compareStartDate=2025-10-01&compareEndDate=2025-10-31&seller_id=S001',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().meta).toEqual({ comparison: { mode: 'custom', startDate: '2025-10-01', endDate: '2025-10-31' } });
+      expect(mockGetBalanceSheet).toHaveBeenCalledWith(expect.objectContaining({
+        comparisonFilters: [
+          { field: 'date', operator: 'gte', value: '2025-10-01' },
+          { field: 'date', operator: 'lte', value: '2025-10-31' },
+          { field: 'seller_id', operator: 'eq', value: 'S001' },
+        ],
+      }));
+    });
+
+    it('should resolve named modes against the current range', async () => {
+      mockGetBalanceSheet.mockResolvedValue({});
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/balance?startDate=2026-03-01&endDate=2026-03-31&compareMode=previous_month',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().meta.comparison).toEqual({ mode: 'previous_month', startDate: '2026-02-01', endDate: '2026-02-28' });
+      expect(mockGetBalanceSheet).toHaveBeenCalledWith(expect.objectContaining({
+        comparisonFilters: [
+          { field: 'date', operator: 'gte', value: '2026-02-01' },
+          { field: 'date', operator: 'lte', value: '2026-02-28' },
+        ],
+      }));
+    });
+
+    it('should keep the default year shift without comparisonFilters', async () => {
+      mockGetBalanceSheet.mockResolvedValue({});
+
+      await app.inject({ method: 'GET', url: '/balance?startDate=2026-03-01&endDate=2026-03-31' });
+
+      expect(mockGetBalanceSheet.mock.calls[0]![0]).not.toHaveProperty('comparisonFilters');
+    });
+
+    it('should return 400 for a half-open comparison window', async () => {
+      const response = await app.inject({ method: 'GET', url: '/balance?compareStartDate=2025-10-01' });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockGetBalanceSheet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('projection', () => {
+    it('should pass the projection model and report the close in meta', async () => {
+      mockGetBalanceSheet.mockResolvedValue({ projected_close: 1000 });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/balance?startDate=2026-03-01&endDate=2026-03-15&projection=seasonal',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().meta.projection).toEqual({ method: 'seasonal', periodEnd: '2026-03-31' });
+      expect(mockGetBalanceSheet).toHaveBeenCalledWith(expect.objectContaining({ projection: 'seasonal' }));
+    });
+
+    it('should return 400 for a projection without a closed range', async () => {
+      const response = await app.inject({ method: 'GET', url: '/balance?startDate=2026-03-01&projection=linear' });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockGetBalanceSheet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /balance/pacing', () => {
+    const pacing = {
+      rows: [{ day: 1, date: '2026-03-02', current: 100, previous_month: 80 }],
+      periods: [],
+      meta: { align: 'business_day', today: '2026-03-03', closedDays: 1, currentDay: 2, totalDays: 22 },
+    };
+
+    it('should compare against last month and last year by business day by default', async () => {
+      mockGetPacing.mockResolvedValue(pacing);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/balance/pacing?startDate=2026-03-01&endDate=2026-03-31&seller_id=S001',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ data: { days: pacing.rows, periods: [] }, meta: pacing.meta });
+      expect(mockGetPacing).toHaveBeenCalledWith(expect.objectContaining({
+        filters: [{ field: 'seller_id', operator: 'eq', value: 'S001' }],
+        current: { startDate: '2026-03-01', endDate: '2026-03-31' },
+        comparisons: [
+          { key: 'previous_month', startDate: '2026-02-01', endDate: '2026-02-28' },
+          { key: 'previous_year', startDate: '2025-03-01', endDate: '2025-03-31' },
+        ],
+        align: 'business_day',
+        today: expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/),
+      }));
+    });
+
+    it('should add an explicit comparison window as custom', async () => {
+      mockGetPacing.mockResolvedValue(pacing);
+
+      await app.inject({
+        method: 'GET',
+        url: '/balance/pacing?startDate=2026-03-01&endDate=2026-03-31&compare=two_years_ago&compareStartDate=2025-11-01&compareEndDate=2025-11-30&align=calendar_day',
+      });
+
+      expect(mockGetPacing).toHaveBeenCalledWith(expect.objectContaining({
+        filters: [],
+        comparisons: [
+          { key: 'two_years_ago', startDate: '2024-03-01', endDate: '2024-03-31' },
+          { key: 'custom', startDate: '2025-11-01', endDate: '2025-11-30' },
+        ],
+        align: 'calendar_day',
+      }));
+    });
+
+    it('should return 400 for inverted periods and half-open comparison windows', async () => {
+      const inverted = await app.inject({ method: 'GET', url: '/balance/pacing?startDate=2026-03-31&endDate=2026-03-01' });
+      const halfOpen = await app.inject({
+        method: 'GET',
+        url: '/balance/pacing?startDate=2026-03-01&endDate=2026-03-31&compareEndDate=2025-11-30',
+      });
+
+      expect(inverted.statusCode).toBe(400);
+      expect(halfOpen.statusCode).toBe(400);
+      expect(mockGetPacing).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -305,4 +305,75 @@ describe('BalanceService', () => {
       });
     });
   });
+
+  describe('getPacing', () => {
+    it('should read each window by day and its business days, then align them', async () => {
+      const buildTimeSeriesQuery = vi.fn(async (config: { filters: FilterCondition[] }) =>
+        config.filters.some((f) => f.value === '2026-03-01')
+          ? [{ period: '2026-03-02', sales: 100 }, { period: '2026-03-03', sales: 50 }]
+          : [{ period: '2026-02-02', sales: 80 }]
+      );
+      const getBusinessDays = vi.fn(async (range: { startDate: string }) =>
+        range.startDate === '2026-03-01'
+          ? { days: ['2026-03-02', '2026-03-03'], plannedDays: 21 }
+          : { days: ['2026-02-02', '2026-02-03'], plannedDays: 20 }
+      );
+      const pacingService = new BalanceService({
+        ...createMockAnalyticsBuilder(),
+        buildTimeSeriesQuery,
+      } as unknown as IAnalyticsQueryBuilder, { getBusinessDays });
+
+      const result = await pacingService.getPacing({
+        filters: [{ field: 'seller_id', operator: 'eq', value: 'S001' }],
+        current: { startDate: '2026-03-01', endDate: '2026-03-31' },
+        comparisons: [{ key: 'previous_month', startDate: '2026-02-01', endDate: '2026-02-28' }],
+        align: 'business_day',
+        today: '2026-03-04',
+      });
+
+      expect(buildTimeSeriesQuery).toHaveBeenCalledWith({
+        filters: [
+          { field: 'date', operator: 'gte', value: '2026-03-01' },
+          { field: 'date', operator: 'lte', value: '2026-03-31' },
+          { field: 'seller_id', operator: 'eq', value: 'S001' },
+        ],
+        granularity: 'day',
+        metrics: ['sales'],
+      });
+      expect(result.meta).toMatchObject({ closedDays: 2, currentDay: 3, totalDays: 21 });
+      expect(result.rows[1]).toEqual({ day: 2, date: '2026-03-03', current: 150, previous_month: 80 });
+      expect(result.periods[1]).toMatchObject({ key: 'previous_month', salesToDate: 80, growthToDate: 87.5 });
+    });
+
+    it('should not read the business days for calendar alignment', async () => {
+      const getBusinessDays = vi.fn();
+      const pacingService = new BalanceService({
+        ...createMockAnalyticsBuilder(),
+        buildTimeSeriesQuery: vi.fn(async () => []),
+      } as unknown as IAnalyticsQueryBuilder, { getBusinessDays });
+
+      const result = await pacingService.getPacing({
+        filters: [],
+        current: { startDate: '2026-03-01', endDate: '2026-03-31' },
+        comparisons: [],
+        align: 'calendar_day',
+        today: '2026-03-04',
+      });
+
+      expect(getBusinessDays).not.toHaveBeenCalled();
+      expect(result.rows).toHaveLength(31);
+    });
+
+    it('should require the business calendar for business-day alignment', async () => {
+      const pacingService = new BalanceService(createMockAnalyticsBuilder() as unknown as IAnalyticsQueryBuilder);
+
+      await expect(pacingService.getPacing({
+        filters: [],
+        current: { startDate: '2026-03-01', endDate: '2026-03-31' },
+        comparisons: [],
+        align: 'business_day',
+        today: '2026-03-04',
+      })).rejects.toThrow('requires a business calendar');
+    });
+  });
 });
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  CampaignDefinitionsService,
+  parseCampaignDefinition,
+} from '../../../src/features/campaigns/campaign.definitions.service.js';
+import { FESTIVAL_CAMPAIGN } from '../../../src/core/config/campaigns.config.js';
+import { NotFoundError, ValidationError } from '../../../src/core/errors/app-error.js';
+
+const mockSelect = vi.fn();
+const mockInsert = vi.fn();
+
+vi.mock('../../../src/core/db/postgres/client.js', () => {
+  return {
+    db: {
+      select: () => mockSelect(),
+      insert: () => mockInsert(),
+    },
+  };
+});
+
+vi.mock('../../../src/core/logger/logger.js', () => ({
+  logger: { error: vi.fn(), info: vi.fn() },
+}));
+
+const { key: _key, ...festival } = FESTIVAL_CAMPAIGN;
+
+/** A definition missing a required metric */
+const broken = { ...festival, metrics: festival.metrics.filter((m) => m.alias !== 'rappel') };
+
+/** select().from().orderBy() resolving the stored campaigns */
+function mockCampaigns(rows: Array<{ key: string; definition: unknown }>) {
+  mockSelect.mockReturnValue({
+    from: vi.fn().mockReturnValue({ orderBy: vi.fn().mockResolvedValue(rows) }),
+  });
+}
+
+describe('CampaignDefinitionsService', () => {
+  let service: CampaignDefinitionsService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new CampaignDefinitionsService();
+  });
+
+  describe('parseCampaignDefinition', () => {
+    it('should check the shape, then the names and references', () => {
+      expect(parseCampaignDefinition('festival', festival)).toEqual(FESTIVAL_CAMPAIGN);
+      expect(() => parseCampaignDefinition('festival', { ...festival, metrics: 'sales' }))
+        .toThrow(/Invalid campaign "festival": \/metrics/);
+      expect(() => parseCampaignDefinition('festival', broken))
+        .toThrow('Invalid campaign "festival": metrics: missing rappel');
+    });
+  });
+
+  describe('load', () => {
+    it('should fail on an invalid stored definition', async () => {
+      mockCampaigns([{ key: 'festival', definition: festival }, { key: 'black-friday', definition: broken }]);
+
+      await expect(service.load()).rejects.toThrow(ValidationError);
+    });
+
+    it('should cache the loaded campaigns', async () => {
+      mockCampaigns([{ key: 'festival', definition: festival }]);
+
+      await expect(service.load()).resolves.toBe(1);
+      await expect(service.resolve('festival')).resolves.toEqual(FESTIVAL_CAMPAIGN);
+      expect(mockSelect).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('list', () => {
+    it('should leave out invalid definitions on reload', async () => {
+      mockCampaigns([{ key: 'black-friday', definition: broken }, { key: 'festival', definition: festival }]);
+
+      const campaigns = await service.list();
+
+      expect(campaigns.map((c) => c.key)).toEqual(['festival']);
+      await expect(service.resolve('black-friday')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('save', () => {
+    it('should store a valid definition and clear the cache', async () => {
+      mockCampaigns([]);
+      const onConflictDoUpdate = vi.fn().mockResolvedValue([]);
+      const values = vi.fn().mockReturnValue({ onConflictDoUpdate });
+      mockInsert.mockReturnValue({ values });
+
+      await service.list();
+      await expect(service.save('festival', festival)).resolves.toEqual(FESTIVAL_CAMPAIGN);
+      await service.list();
+
+      expect(values).toHaveBeenCalledWith({ key: 'festival', definition: festival });
+      expect(mockSelect).toHaveBeenCalledTimes(2);
+    });
+
+    it('should store nothing for an invalid definition', async () => {
+      await expect(service.save('festival', broken)).rejects.toThrow(ValidationError);
+      expect(mockInsert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Fastify from 'fastify';
+import { campaignEditionsRoutes } from '../../../src/features/campaigns/campaign.editions.routes.js';
+import { setupErrorHandler } from '../../../src/core/errors/error-handler.js';
+import { NotFoundError, ValidationError } from '../../../src/core/errors/app-error.js';
+
+// Mock service
+const mockListPublished = vi.fn();
+const mockListAll = vi.fn();
+const mockGetById = vi.fn();
+const mockCreate = vi.fn();
+const mockUpdate = vi.fn();
+const mockDelete = vi.fn();
+
+vi.mock('../../../src/features/campaigns/campaign.editions.service.js', () => ({
+  campaignEditionsService: {
+    listPublished: (campaign: string) => mockListPublished(campaign),
+    listAll: (campaign?: string) => mockListAll(campaign),
+    getById: (id: string) => mockGetById(id),
+    create: (data: unknown) => mockCreate(data),
+    update: (id: string, data: unknown) => mockUpdate(id, data),
+    delete: (id: string) => mockDelete(id),
+  },
+}));
+
+// Mock middleware - allow all by default
+vi.mock('../../../src/core/middleware/authenticate.js', () => ({
+  authenticate: vi.fn(async (request: { user?: unknown }) => {
+    request.user = { id: 'user-1', email: 'test@test.com', emailVerified: true, role: 'admin' };
+  }),
+}));
+
+vi.mock('../../../src/core/middleware/authorize.js', () => ({
+  requireAdmin: vi.fn(async () => {}),
+  requireSuperadmin: vi.fn(async () => {}),
+}));
+
+vi.mock('../../../src/core/middleware/data-scope.js', () => ({
+  resolveDataScope: vi.fn(async () => {}),
+}));
+
+const EDITION_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+const edition = {
+  id: EDITION_ID,
+  campaign: 'festival',
+  name: 'Festival Virtual 2',
+  startDate: '2026-08-12',
+  endDate: '2026-08-16',
+  compareEdition: null,
+  budgetPeriodo: '202608',
+  rules: { exclusiveBrands: ['VERA', 'FORTE'], universeRegionals: ['0001'] },
+  channels: ['DISTRIBUCION'],
+  status: 'active',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('Campaign Editions Routes', () => {
+  let app: Awaited<ReturnType<typeof Fastify>>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    app = Fastify({ logger: false });
+    setupErrorHandler(app);
+    campaignEditionsRoutes(app);
+    await app.ready();
+  });
+
+  describe('GET /campaigns/:campaign/editions', () => {
+    it('should return the published editions', async () => {
+      mockListPublished.mockResolvedValue([edition]);
+
+      const response = await app.inject({ method: 'GET', url: '/campaigns/festival/editions' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ data: [edition] });
+      expect(mockListPublished).toHaveBeenCalledWith('festival');
+      expect(mockListAll).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown campaign', async () => {
+      mockListPublished.mockRejectedValue(new NotFoundError('Campaign not found'));
+
+      const response = await app.inject({ method: 'GET', url: '/campaigns/black-friday/editions' });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should serve the festival editions under the deprecated /festival alias', async () => {
+      mockListPublished.mockResolvedValue([edition]);
+
+      const response = await app.inject({ method: 'GET', url: '/festival/editions' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ data: [edition] });
+      expect(mockListPublished).toHaveBeenCalledWith('festival');
+    });
+  });
+
+  describe('GET /admin/campaign-editions', () => {
+    it('should list the editions of the requested campaign', async () => {
+      mockListAll.mockResolvedValue([edition]);
+
+      const response = await app.inject({ method: 'GET', url: '/admin/campaign-editions?campaign=festival' });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockListAll).toHaveBeenCalledWith('festival');
+    });
+
+    it('should return 400 for an unknown campaign', async () => {
+      mockListAll.mockRejectedValue(new ValidationError('Unknown campaign: black-friday'));
+
+      const response = await app.inject({ method: 'GET', url: '/admin/campaign-editions?campaign=black-friday' });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('POST /admin/campaign-editions', () => {
+    it('should create an edition', async () => {
+      mockCreate.mockResolvedValue({ ...edition, status: 'draft' });
+      const payload = {
+        campaign: 'festival',
+        name: 'Festival Virtual 2',
+        startDate: '2026-08-12',
+        endDate: '2026-08-16',
+        rules: { exclusiveBrands: ['VERA', 'FORTE'], universeRegionals: ['0001'] },
+      };
+
+      const response = await app.inject({ method: 'POST', url: '/admin/campaign-editions', payload });
+
+      expect(response.statusCode).toBe(201);
+      expect(mockCreate).toHaveBeenCalledWith(payload);
+    });
+
+    it('should return 400 for an invalid budget periodo', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/admin/campaign-editions',
+        payload: {
+          campaign: 'festival', name: 'FV', startDate: '2026-08-12', endDate: '2026-08-16', budgetPeriodo: '202613',
+          rules: { exclusiveBrands: ['VERA'], universeRegionals: ['0001'] },
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /admin/campaign-editions/:id', () => {
+    it('should return 404 for an unknown edition', async () => {
+      mockUpdate.mockResolvedValue(null);
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/admin/campaign-editions/${EDITION_ID}`,
+        payload: { status: 'closed' },
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(mockUpdate).toHaveBeenCalledWith(EDITION_ID, { status: 'closed' });
+    });
+  });
+
+  describe('DELETE /admin/campaign-editions/:id', () => {
+    it('should delete an edition', async () => {
+      mockDelete.mockResolvedValue(true);
+
+      const response = await app.inject({ method: 'DELETE', url: `/admin/campaign-editions/${EDITION_ID}` });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ success: true, message: 'Campaign edition deleted successfully' });
+    });
+  });
+});
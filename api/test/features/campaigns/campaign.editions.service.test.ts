@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CampaignEditionsService } from '../../../src/features/campaigns/campaign.editions.service.js';
+import { NotFoundError, ValidationError } from '../../../src/core/errors/app-error.js';
+import { FESTIVAL_CAMPAIGN } from '../../../src/core/config/campaigns.config.js';
+
+const mockSelect = vi.fn();
+const mockInsert = vi.fn();
+const mockUpdate = vi.fn();
+
+vi.mock('../../../src/core/db/postgres/client.js', () => {
+  return {
+    db: {
+      select: () => mockSelect(),
+      insert: () => mockInsert(),
+      update: () => mockUpdate(),
+    },
+  };
+});
+
+const settings = {
+  campaign: 'festival',
+  budgetPeriodo: '202603',
+  rules: { exclusiveBrands: ['VERA', 'FORTE'], universeRegionals: ['0001', '0019'] },
+  channels: ['DISTRIBUCION'],
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-01'),
+};
+
+const fv1 = {
+  ...settings,
+  id: 'ed-1',
+  name: 'Festival Virtual 1',
+  startDate: '2026-03-11',
+  endDate: '2026-03-16',
+  compareEditionId: null,
+  status: 'closed',
+};
+
+const fv2 = {
+  ...settings,
+  id: 'ed-2',
+  name: 'Festival Virtual 2',
+  startDate: '2026-08-12',
+  endDate: '2026-08-16',
+  compareEditionId: 'ed-1',
+  budgetPeriodo: '202608',
+  status: 'active',
+};
+
+const fv3 = { ...fv2, id: 'ed-3', name: 'Festival Virtual 3', startDate: '2027-03-10', endDate: '2027-03-15', status: 'draft' };
+
+/** select().from().orderBy() resolving the editions, oldest first */
+function mockEditions(rows: unknown[]) {
+  mockSelect.mockReturnValue({
+    from: vi.fn().mockReturnValue({ orderBy: vi.fn().mockResolvedValue(rows) }),
+  });
+}
+
+describe('CampaignEditionsService', () => {
+  let service: CampaignEditionsService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new CampaignEditionsService({
+      get: async (key: string) => (key === FESTIVAL_CAMPAIGN.key ? FESTIVAL_CAMPAIGN : undefined),
+    });
+  });
+
+  describe('listPublished', () => {
+    it('should leave out drafts, list newest first and resolve the comparison edition', async () => {
+      mockEditions([fv1, fv2, fv3, { ...fv2, id: 'ed-9', campaign: 'black-friday' }]);
+
+      const result = await service.listPublished('festival');
+
+      expect(result.map((e) => e.id)).toEqual(['ed-2', 'ed-1']);
+      expect(result[0]!.compareEdition).toEqual({
+        id: 'ed-1',
+        name: 'Festival Virtual 1',
+        startDate: '2026-03-11',
+        endDate: '2026-03-16',
+        budgetPeriodo: '202603',
+      });
+      expect(result[1]!.compareEdition).toBeNull();
+    });
+
+    it('should reject an unknown campaign', async () => {
+      mockEditions([fv1]);
+
+      await expect(service.listPublished('black-friday')).rejects.toThrow(NotFoundError);
+      await expect(service.listAll('black-friday')).rejects.toThrow('Unknown campaign: black-friday');
+    });
+
+    it('should cache the editions until a write clears them', async () => {
+      mockEditions([fv1, fv2]);
+
+      await service.listPublished('festival');
+      await service.resolve('ed-2');
+      expect(mockSelect).toHaveBeenCalledTimes(1);
+
+      service.clearCache();
+      await service.listPublished('festival');
+      expect(mockSelect).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('resolve', () => {
+    it('should reject unknown, draft and other campaigns\' editions', async () => {
+      mockEditions([fv1, fv2, fv3]);
+
+      await expect(service.resolve('ed-9')).rejects.toThrow(NotFoundError);
+      await expect(service.resolve('ed-3')).rejects.toThrow(NotFoundError);
+      await expect(service.resolve('ed-1', 'black-friday')).rejects.toThrow(NotFoundError);
+      await expect(service.resolve('ed-1', 'festival')).resolves.toMatchObject({ name: 'Festival Virtual 1' });
+    });
+
+    it('should resolve the campaign definition of an edition', async () => {
+      mockEditions([fv1, { ...fv2, campaign: 'retired' }]);
+
+      await expect(service.resolveWithCampaign('ed-1')).resolves.toMatchObject({ campaign: { key: 'festival' } });
+      await expect(service.resolveWithCampaign('ed-2')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('create', () => {
+    it('should default the budget periodo, channels and status', async () => {
+      mockEditions([fv1]);
+      const values = vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([{ ...fv3, id: 'ed-4' }]) });
+      mockInsert.mockReturnValue({ values });
+
+      await service.create({
+        campaign: 'festival',
+        name: 'Festival Virtual 3',
+        startDate: '2027-03-10',
+        endDate: '2027-03-15',
+        compareEditionId: 'ed-1',
+        rules: { exclusiveBrands: ['VERA'], universeRegionals: ['0001'] },
+      });
+
+      expect(values).toHaveBeenCalledWith(expect.objectContaining({
+        campaign: 'festival',
+        compareEditionId: 'ed-1',
+        budgetPeriodo: '202703',
+        channels: ['DISTRIBUCION'],
+        status: 'draft',
+      }));
+    });
+
+    it('should reject an inverted window or an unknown comparison edition', async () => {
+      mockEditions([fv1]);
+      const base = { campaign: 'festival', name: 'FV', rules: { exclusiveBrands: ['VERA'], universeRegionals: ['0001'] } };
+
+      await expect(service.create({ ...base, startDate: '2027-03-15', endDate: '2027-03-10' }))
+        .rejects.toThrow(ValidationError);
+      await expect(service.create({ ...base, startDate: '2027-03-10', endDate: '2027-03-15', compareEditionId: 'ed-9' }))
+        .rejects.toThrow('Comparison edition not found');
+      expect(mockInsert).not.toHaveBeenCalled();
+    });
+
+    it('should reject rules the campaign does not define, or leaves unset', async () => {
+      mockEditions([fv1]);
+      const base = { campaign: 'festival', name: 'FV', startDate: '2027-03-10', endDate: '2027-03-15' };
+
+      await expect(service.create({ ...base, rules: { exclusiveBrands: ['VERA'], universeRegionals: ['0001'], packs: ['X'] } }))
+        .rejects.toThrow('Unknown Festival Virtual rules: packs');
+      await expect(service.create({ ...base, rules: { exclusiveBrands: ['VERA'] } }))
+        .rejects.toThrow('Missing Festival Virtual rules: universeRegionals');
+      await expect(service.create({ ...base, campaign: 'black-friday', rules: {} }))
+        .rejects.toThrow('Unknown campaign: black-friday');
+      expect(mockInsert).not.toHaveBeenCalled();
+    });
+
+    it('should reject comparing against another campaign\'s edition', async () => {
+      mockEditions([{ ...fv1, campaign: 'black-friday' }]);
+
+      await expect(service.create({
+        campaign: 'festival',
+        name: 'FV',
+        startDate: '2027-03-10',
+        endDate: '2027-03-15',
+        compareEditionId: 'ed-1',
+        rules: { exclusiveBrands: ['VERA'], universeRegionals: ['0001'] },
+      })).rejects.toThrow('Comparison edition belongs to another campaign');
+    });
+  });
+
+  describe('update', () => {
+    it('should reject comparing an edition against itself', async () => {
+      mockEditions([fv1, fv2]);
+
+      await expect(service.update('ed-2', { compareEditionId: 'ed-2' }))
+        .rejects.toThrow('An edition cannot be compared against itself');
+    });
+
+    it('should replace only the rules given', async () => {
+      mockEditions([fv1, fv2]);
+      const set = vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue([]) });
+      mockUpdate.mockReturnValue({ set });
+
+      await service.update('ed-2', { rules: { exclusiveBrands: ['VERA'] } });
+
+      expect(set).toHaveBeenCalledWith(expect.objectContaining({
+        rules: { exclusiveBrands: ['VERA'], universeRegionals: ['0001', '0019'] },
+      }));
+      await expect(service.update('ed-2', { rules: { packs: ['X'] } })).rejects.toThrow(ValidationError);
+    });
+
+    it('should return null for an unknown edition', async () => {
+      mockEditions([fv1]);
+
+      await expect(service.update('ed-9', { name: 'Otro' })).resolves.toBeNull();
+    });
+  });
+});
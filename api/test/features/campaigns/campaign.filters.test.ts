@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { buildWindows, editionWindow, campaignScopeFilters } from '../../../src/features/campaigns/campaign.filters.js';
+import { ForbiddenError } from '../../../src/core/errors/app-error.js';
+import { FESTIVAL_CAMPAIGN, type CampaignDefinition } from '../../../src/core/config/campaigns.config.js';
+
+const edition = {
+  startDate: '2026-08-12',
+  endDate: '2026-08-16',
+  compareEdition: {
+    id: 'ed-1',
+    name: 'Festival Virtual 1',
+    startDate: '2026-03-11',
+    endDate: '2026-03-16',
+    budgetPeriodo: '202603',
+  },
+  budgetPeriodo: '202608',
+  rules: { exclusiveBrands: ['VERA', 'FORTE'], universeRegionals: ['0001', '0019'] },
+  channels: ['DISTRIBUCION'],
+};
+
+describe('Campaign filters', () => {
+  describe('buildWindows', () => {
+    it('should build both windows from the edition and its comparison edition', () => {
+      const windows = buildWindows({ editionId: 'ed-2' }, FESTIVAL_CAMPAIGN, edition);
+
+      expect(windows.currentFilters).toEqual(expect.arrayContaining([
+        { field: 'channel', operator: 'eq', value: 'DISTRIBUCION', table: 'transactions' },
+        { field: 'order_date', operator: 'gte', value: '2026-08-12', table: 'transactions' },
+        { field: 'date', operator: 'lte', value: '2026-08-16', table: 'pedidos_retenidos' },
+        { field: 'periodo', operator: 'eq', value: '202608', table: 'ppto_festival' },
+      ]));
+      expect(windows.comparisonFilters).toEqual(expect.arrayContaining([
+        { field: 'order_date', operator: 'gte', value: '2026-03-11', table: 'transactions' },
+        { field: 'periodo', operator: 'eq', value: '202603', table: 'ppto_festival' },
+      ]));
+      expect(windows.universeFilters).toContainEqual(
+        { field: 'IdRegional', operator: 'in', value: ['0001', '0019'], table: 'clientes' }
+      );
+      // editionId is reserved, never a filter
+      expect(windows.currentFilters.some((f) => f.field === 'editionId')).toBe(false);
+    });
+
+    it('should leave out the comparison window without a comparison edition', () => {
+      const windows = buildWindows({}, FESTIVAL_CAMPAIGN, { ...edition, compareEdition: null });
+
+      expect(windows.comparisonFilters).toBeUndefined();
+      expect(editionWindow({ ...edition, compareEdition: null })).toEqual({ startDate: '2026-08-12', endDate: '2026-08-16' });
+    });
+
+    it('should expand the brand bucket with the edition\'s exclusive brands', () => {
+      const { currentFilters } = buildWindows({ brand_group: 'aliadas' }, FESTIVAL_CAMPAIGN, { ...edition, rules: { ...edition.rules, exclusiveBrands: ['VERA'] } });
+
+      expect(currentFilters).toContainEqual({ field: 'ProveedorComercial', operator: 'neq', value: 'VERA', table: 'transactions' });
+      expect(currentFilters).toContainEqual({ field: 'proveedorComercial', operator: 'neq', value: 'VERA', table: 'pedidos_retenidos' });
+      expect(currentFilters.some((f) => f.value === 'FORTE')).toBe(false);
+    });
+
+    it('should filter several channels with IN', () => {
+      const { currentFilters } = buildWindows({}, FESTIVAL_CAMPAIGN, { ...edition, channels: ['DISTRIBUCION', 'CADENAS'] });
+
+      expect(currentFilters).toContainEqual(
+        { field: 'channel', operator: 'in', value: ['DISTRIBUCION', 'CADENAS'], table: 'pedidos_retenidos' }
+      );
+    });
+  });
+
+  describe('buildWindows of other campaigns', () => {
+    const weekCampaign: CampaignDefinition = {
+      key: 'semana-proveedor',
+      name: 'Semana del Proveedor',
+      dateFields: { transactions: 'date' },
+      metrics: FESTIVAL_CAMPAIGN.metrics,
+      budget: null,
+      rules: { regionals: { label: 'Regionales' } },
+      universe: { table: 'clientes', regionalField: 'IdRegional', rule: 'regionals', snapshotField: 'updated_at', conditions: [] },
+      virtualGroups: {
+        pack_group: {
+          kind: 'conditions',
+          buckets: [{ id: 'pack', name: 'Packs', conditions: [{ field: 'Linea', operator: 'eq', value: 'PACK', table: 'transactions' }] }],
+        },
+      },
+      scopedDrillFields: {},
+      defaultGroupBy: 'seller_id',
+      dimensions: [{ key: 'pack_group', label: 'Packs', rowLabel: 'Pack' }],
+    };
+
+    it('should use the campaign\'s date fields, budget and virtual groupings', () => {
+      const { currentFilters } = buildWindows({ pack_group: 'pack' }, weekCampaign, edition);
+
+      expect(currentFilters).toContainEqual({ field: 'date', operator: 'gte', value: '2026-08-12', table: 'transactions' });
+      expect(currentFilters).toContainEqual({ field: 'Linea', operator: 'eq', value: 'PACK', table: 'transactions' });
+      // No budget source, no pedidos table
+      expect(currentFilters.some((f) => f.field === 'periodo' || f.table === 'pedidos_retenidos')).toBe(false);
+    });
+
+    it('should read the universe from the campaign\'s own rule', () => {
+      const { universeFilters } = buildWindows({}, weekCampaign, { ...edition, rules: { regionals: ['0004'] } });
+
+      expect(universeFilters).toContainEqual(
+        { field: 'IdRegional', operator: 'in', value: ['0004'], table: 'clientes' }
+      );
+    });
+  });
+
+  describe('campaignScopeFilters', () => {
+    it('should reject roles scoped to none of the edition\'s channels', () => {
+      expect(() => campaignScopeFilters([{ field: 'channel', operator: 'eq', value: 'CADENAS' }], FESTIVAL_CAMPAIGN, edition))
+        .toThrow(ForbiddenError);
+      expect(campaignScopeFilters([{ field: 'channel', operator: 'eq', value: 'DISTRIBUCION' }], FESTIVAL_CAMPAIGN, edition))
+        .toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Fastify from 'fastify';
+import { customMetricsRoutes } from '../../../src/features/custom-metrics/custom-metrics.routes.js';
+import { setupErrorHandler } from '../../../src/core/errors/error-handler.js';
+import { ValidationError } from '../../../src/core/errors/app-error.js';
+
+const mockListVisible = vi.fn();
+const mockCreate = vi.fn();
+const mockUpdate = vi.fn();
+const mockDelete = vi.fn();
+
+vi.mock('../../../src/features/custom-metrics/custom-metrics.service.js', () => {
+  return {
+    CustomMetricsService: class {
+      listVisible = mockListVisible;
+      create = mockCreate;
+      update = mockUpdate;
+      delete = mockDelete;
+    },
+  };
+});
+
+vi.mock('../../../src/core/middleware/authenticate.js', () => ({
+  authenticate: vi.fn(async (request: { user?: unknown }) => {
+    request.user = { id: 'user-1', email: 'test@test.com', emailVerified: true, dynaRole: 'MANAGER_DISTRIBUTION' };
+  }),
+}));
+
+const metricId = '6a1f2a0e-93a4-4c2b-9a43-1b2a6f0a5c11';
+
+const metric = {
+  id: metricId,
+  key: 'growth',
+  field: 'custom_growth',
+  label: 'Crecimiento',
+  description: null,
+  formula: 'safeDiv({sales} - {sales_last_year}, {sales_last_year}) * 100',
+  format: 'percent',
+  shared: true,
+  owned: true,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('Custom Metrics Routes', () => {
+  let app: Awaited<ReturnType<typeof Fastify>>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    app = Fastify({ logger: false });
+    setupErrorHandler(app);
+    await customMetricsRoutes(app);
+    await app.ready();
+  });
+
+  describe('GET /custom-metrics', () => {
+    it('should list the metrics visible to the session user', async () => {
+      mockListVisible.mockResolvedValue([metric]);
+
+      const response = await app.inject({ method: 'GET', url: '/custom-metrics' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ data: [metric] });
+      expect(mockListVisible).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1', dynaRole: 'MANAGER_DISTRIBUTION' }));
+    });
+  });
+
+  describe('POST /custom-metrics', () => {
+    const body = { key: 'growth', label: 'Crecimiento', formula: metric.formula, format: 'percent', shared: true };
+
+    it('should create the metric for the session user', async () => {
+      mockCreate.mockResolvedValue(metric);
+
+      const response = await app.inject({ method: 'POST', url: '/custom-metrics', payload: body });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json()).toEqual(metric);
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }), body);
+    });
+
+    it('should return 400 when the formula is invalid', async () => {
+      mockCreate.mockRejectedValue(new ValidationError('Unknown metric {foo}, use a base metric or its _last_year value at column 1'));
+
+      const response = await app.inject({ method: 'POST', url: '/custom-metrics', payload: { ...body, formula: '{foo}' } });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().detail).toContain('Unknown metric {foo}');
+    });
+
+    it('should reject keys that are not snake_case', async () => {
+      const response = await app.inject({ method: 'POST', url: '/custom-metrics', payload: { ...body, key: 'Growth %' } });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /custom-metrics/:id', () => {
+    it('should update an owned metric', async () => {
+      mockUpdate.mockResolvedValue({ ...metric, shared: false });
+
+      const response = await app.inject({ method: 'PATCH', url: `/custom-metrics/${metricId}`, payload: { shared: false } });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().shared).toBe(false);
+      expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }), metricId, { shared: false });
+    });
+
+    it('should return 404 for metrics of other users', async () => {
+      mockUpdate.mockResolvedValue(null);
+
+      const response = await app.inject({ method: 'PATCH', url: `/custom-metrics/${metricId}`, payload: { label: 'x' } });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /custom-metrics/:id', () => {
+    it('should delete an owned metric', async () => {
+      mockDelete.mockResolvedValue(true);
+
+      const response = await app.inject({ method: 'DELETE', url: `/custom-metrics/${metricId}` });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().success).toBe(true);
+    });
+
+    it('should return 404 when nothing was deleted', async () => {
+      mockDelete.mockResolvedValue(false);
+
+      const response = await app.inject({ method: 'DELETE', url: `/custom-metrics/${metricId}` });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ClickHouseClient } from '@clickhouse/client';
+import { CustomerLifecycleService } from '../../../src/features/customers/customers.service.js';
+import { lifecycleWindows, buildLifecycleCustomersQuery } from '../../../src/features/customers/customers.query.js';
+import { parseLifecycleQuery } from '../../../src/features/customers/customers.filters.js';
+import { ValidationError } from '../../../src/core/errors/app-error.js';
+
+const COLUMNS = ['date', 'customer_id', 'customer_name', 'sales_price', 'channel', 'IdRegional', 'Regional'];
+
+/** Answers column discovery with COLUMNS; `query` records the lifecycle queries only */
+function mockClient(rowsFor: (sql: string) => unknown[]) {
+  const query = vi.fn().mockImplementation((config: { query: string }) =>
+    Promise.resolve({ response_headers: {}, json: vi.fn().mockResolvedValue(rowsFor(config.query)) })
+  );
+  const client = {
+    query: (config: { query: string }) => config.query.includes('system.columns')
+      ? Promise.resolve({
+        response_headers: {},
+        json: vi.fn().mockResolvedValue(COLUMNS.map((column_name) => ({ table_name: 'dyna_transactions', column_name }))),
+      })
+      : query(config),
+  };
+  return { client: client as unknown as ClickHouseClient, query };
+}
+
+const columnMap = new Map([['dyna_transactions', new Set(COLUMNS)]]);
+
+const windows = lifecycleWindows('2025-04-01', '2025-06-30', { startDate: '2024-12-31', endDate: '2025-03-31' }, 90);
+
+describe('customer lifecycle', () => {
+  beforeEach(() => {
+    process.env['TABLE_PREFIX'] = 'dyna_';
+  });
+
+  describe('lifecycleWindows', () => {
+    it('should derive the churn boundaries from churnDays', () => {
+      expect(windows).toEqual({
+        startDate: '2025-04-01',
+        endDate: '2025-06-30',
+        previousStartDate: '2024-12-31',
+        previousEndDate: '2025-03-31',
+        reactivatedBefore: '2025-01-01',
+        lapsingFrom: '2025-04-01',
+        churnedFrom: '2024-12-31',
+      });
+    });
+  });
+
+  describe('parseLifecycleQuery', () => {
+    it('should compare against the previous period by default and keep the dynamic filters', () => {
+      const parsed = parseLifecycleQuery({
+        startDate: '2025-04-01',
+        endDate: '2025-06-30',
+        groupBy: 'IdRegional',
+        churnDays: 60,
+        channel: 'DISTRIBUCION',
+      } as never);
+
+      expect(parsed.meta).toEqual({
+        startDate: '2025-04-01',
+        endDate: '2025-06-30',
+        comparison: { mode: 'previous_period', startDate: '2024-12-31', endDate: '2025-03-31' },
+        churnDays: 60,
+        declinePct: 30,
+        groupBy: 'IdRegional',
+      });
+      expect(parsed.filters).toEqual([{ field: 'channel', operator: 'eq', value: 'DISTRIBUCION' }]);
+    });
+
+    it('should reject a comparison window that does not end before the period', () => {
+      expect(() => parseLifecycleQuery({
+        startDate: '2025-04-01',
+        endDate: '2025-06-30',
+        compareStartDate: '2025-03-01',
+        compareEndDate: '2025-04-15',
+      })).toThrow(ValidationError);
+    });
+
+    it('should reject a groupId without groupBy', () => {
+      expect(() => parseLifecycleQuery({ startDate: '2025-04-01', endDate: '2025-06-30', groupId: '01' }))
+        .toThrow('groupId requires groupBy');
+    });
+  });
+
+  describe('buildLifecycleCustomersQuery', () => {
+    it('should filter by status, group and search and bind every value as a parameter', () => {
+      const { query, queryParams } = buildLifecycleCustomersQuery({
+        groupBy: 'IdRegional',
+        windows,
+        declinePct: 25,
+        filters: [{ field: 'channel', operator: 'eq', value: 'DISTRIBUCION' }],
+        scopeFilters: [{ field: 'IdRegional', operator: 'eq', value: 'RTL' }],
+        columnMap,
+        status: 'churned',
+        groupId: '01',
+        search: 'gómez',
+        orderBy: 'days_since_last',
+        orderDirection: 'asc',
+        limit: 50,
+        offset: 100,
+      });
+
+      expect(query).toContain('FROM dyna_transactions');
+      expect(query).toContain('any(trimBoth(toString(Regional))) AS group_name');
+      expect(query).toContain('status = {status:String}');
+      expect(query).toContain('group_id = {group_id:String}');
+      expect(query).toContain('ORDER BY days_since_last ASC, customer_id ASC');
+      expect(query).toContain('LIMIT 50 OFFSET 100');
+      expect(queryParams).toMatchObject({
+        status: 'churned',
+        group_id: '01',
+        search: 'gómez',
+        decline_factor: '0.75',
+        churned_from: '2024-12-31',
+        f_channel_0: 'DISTRIBUCION',
+        f_IdRegional_1: 'RTL',
+      });
+    });
+
+    it('should drop filters on columns the transactions table does not have', () => {
+      const { query, queryParams } = buildLifecycleCustomersQuery({
+        windows,
+        declinePct: 30,
+        filters: [
+          { field: 'budget_owner', operator: 'eq', value: 'X' },
+          { field: 'channel', operator: 'eq', value: 'DISTRIBUCION' },
+        ],
+        scopeFilters: [],
+        columnMap,
+        orderBy: 'sales',
+        orderDirection: 'desc',
+      });
+
+      expect(query).toContain(`WHERE date <= {end:Date} AND cid != '' AND channel = {f_channel_0:String}`);
+      expect(query).not.toContain('budget_owner');
+      expect(queryParams).not.toHaveProperty('f_budget_owner_0');
+    });
+
+    it('should reject an invalid filter field or groupBy as a ValidationError', () => {
+      const base = { windows, declinePct: 30, scopeFilters: [], columnMap, orderBy: 'sales' as const, orderDirection: 'desc' as const };
+
+      expect(() => buildLifecycleCustomersQuery({ ...base, filters: [{ field: 'channel;--', operator: 'eq', value: 'X' }] }))
+        .toThrow(ValidationError);
+      expect(() => buildLifecycleCustomersQuery({ ...base, groupBy: 'not_a_dimension', filters: [] }))
+        .toThrow(ValidationError);
+    });
+  });
+
+  describe('CustomerLifecycleService', () => {
+    it('should fold the status rows into totals and groups, largest group first', async () => {
+      const { client, query } = mockClient((sql) => sql.includes('group_id IN')
+        ? [
+          { group_id: '02', group_name: 'Medellín', status: 'new', customers: '1', sales: '10', previous_sales: '0' },
+          { group_id: '01', group_name: 'Bogotá', status: 'retained', customers: '4', sales: '500', previous_sales: '450' },
+          { group_id: '01', group_name: 'Bogotá', status: 'churned', customers: '2', sales: '0', previous_sales: '80' },
+        ]
+        : [
+          { status: 'retained', customers: '4', sales: '500', previous_sales: '450' },
+          { status: 'churned', customers: '2', sales: '0', previous_sales: '80' },
+          { status: 'new', customers: '1', sales: '10', previous_sales: '0' },
+        ]);
+      const service = new CustomerLifecycleService(client);
+
+      const result = await service.getSummary({ groupBy: 'IdRegional', windows, declinePct: 30, filters: [], scopeFilters: [] });
+
+      expect(query).toHaveBeenCalledTimes(2);
+      expect(result.totals.retained).toEqual({ customers: 4, sales: 500, previous_sales: 450 });
+      expect(result.totals.reactivated).toEqual({ customers: 0, sales: 0, previous_sales: 0 });
+      expect(result.groups.map((g) => g.id)).toEqual(['01', '02']);
+      expect(result.groups[0]).toMatchObject({ name: 'Bogotá', classes: { churned: { customers: 2, previous_sales: 80 } } });
+    });
+
+    it('should skip the grouped query without groupBy', async () => {
+      const { client, query } = mockClient(() => []);
+      const service = new CustomerLifecycleService(client);
+
+      const result = await service.getSummary({ windows, declinePct: 30, filters: [], scopeFilters: [] });
+
+      expect(query).toHaveBeenCalledTimes(1);
+      expect(result.groups).toEqual([]);
+      expect(result.totals.new.customers).toBe(0);
+    });
+
+    it('should return a page of customers with the total', async () => {
+      const { client } = mockClient((sql) => sql.includes('count() AS total')
+        ? [{ total: '51' }]
+        : [{
+          customer_id: 'C1', customer_name: '', status: 'at_risk', group_id: null, group_name: null,
+          first_purchase: '2023-02-01', last_purchase: '2025-05-02', days_since_last: '59',
+          sales: '120.5', previous_sales: '300', sales_change: '-179.5',
+        }]);
+      const service = new CustomerLifecycleService(client);
+
+      const result = await service.getCustomers({
+        windows, declinePct: 30, filters: [], scopeFilters: [], orderBy: 'sales', orderDirection: 'desc', limit: 50,
+      });
+
+      expect(result.total).toBe(51);
+      expect(result.rows).toEqual([{
+        customer_id: 'C1',
+        customer_name: 'C1',
+        status: 'at_risk',
+        group_id: null,
+        group_name: null,
+        first_purchase: '2023-02-01',
+        last_purchase: '2025-05-02',
+        days_since_last: 59,
+        sales: 120.5,
+        previous_sales: 300,
+        sales_change: -179.5,
+      }]);
+    });
+  });
+});
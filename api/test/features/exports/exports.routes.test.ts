@@ -0,0 +1,232 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Readable } from 'node:stream';
+import Fastify from 'fastify';
+import { exportsRoutes } from '../../../src/features/exports/exports.routes.js';
+import type { ExportFileStorage } from '../../../src/core/export/export-storage.js';
+import { setupErrorHandler } from '../../../src/core/errors/error-handler.js';
+import { ForbiddenError, RateLimitError } from '../../../src/core/errors/app-error.js';
+
+const mockList = vi.fn();
+const mockGet = vi.fn();
+const mockCreate = vi.fn();
+
+vi.mock('../../../src/features/exports/exports.service.js', () => {
+  return {
+    ExportsService: class {
+      list = mockList;
+      get = mockGet;
+      create = mockCreate;
+    },
+  };
+});
+
+vi.mock('../../../src/core/middleware/authenticate.js', () => ({
+  authenticate: vi.fn(async (request: { user?: unknown }) => {
+    request.user = { id: 'user-1', email: 'test@test.com', emailVerified: true, dynaRole: 'MANAGER_DISTRIBUTION' };
+  }),
+}));
+
+const storage = { open: vi.fn() };
+
+const jobId = '0d6f1c1e-4b6a-4f3e-8c1d-2a9e7b5c3d10';
+const editionId = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+const job = {
+  id: jobId,
+  kind: 'list',
+  format: 'csv',
+  filename: 'Ventas por regional',
+  status: 'completed',
+  progress: 100,
+  sizeBytes: 2048,
+  error: null,
+  createdAt: new Date('2026-03-23T11:00:00.000Z'),
+  startedAt: new Date('2026-03-23T11:00:05.000Z'),
+  completedAt: new Date('2026-03-23T11:01:00.000Z'),
+  expiresAt: new Date('2999-01-01T00:00:00.000Z'),
+};
+
+const jobJson = {
+  ...job,
+  createdAt: '2026-03-23T11:00:00.000Z',
+  startedAt: '2026-03-23T11:00:05.000Z',
+  completedAt: '2026-03-23T11:01:00.000Z',
+  expiresAt: '2999-01-01T00:00:00.000Z',
+};
+
+describe('Exports Routes', () => {
+  let app: Awaited<ReturnType<typeof Fastify>>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    app = Fastify({ logger: false });
+    setupErrorHandler(app);
+    exportsRoutes(app, storage as unknown as ExportFileStorage);
+    await app.ready();
+  });
+
+  describe('GET /exports', () => {
+    it('should list the jobs of the session user', async () => {
+      mockList.mockResolvedValue([job]);
+
+      const response = await app.inject({ method: 'GET', url: '/exports' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ data: [jobJson] });
+      expect(mockList).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }));
+    });
+  });
+
+  describe('POST /exports', () => {
+    it('should queue a list export with the query of the export endpoint', async () => {
+      mockCreate.mockResolvedValue({ ...job, status: 'queued', progress: 0, completedAt: null, expiresAt: null });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/exports',
+        payload: {
+          kind: 'list',
+          query: { groupBy: 'regional', startDate: '2026-03-01', endDate: '2026-03-22', format: 'csv', hideBudgetColumns: 'true', brand: 'ACME' },
+        },
+      });
+
+      expect(response.statusCode).toBe(202);
+      expect(response.json()).toMatchObject({ id: jobId, status: 'queued' });
+      // Query string values are coerced and defaulted like the GET endpoint's
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }), {
+        kind: 'list',
+        query: {
+          groupBy: 'regional',
+          startDate: '2026-03-01',
+          endDate: '2026-03-22',
+          format: 'csv',
+          hideBudgetColumns: true,
+          orderDirection: 'desc',
+          brand: 'ACME',
+        },
+      });
+    });
+
+    it('should queue a festival export', async () => {
+      mockCreate.mockResolvedValue({ ...job, kind: 'festival-sin-compra', format: 'xlsx', status: 'queued' });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/exports',
+        payload: { kind: 'festival-sin-compra', query: { editionId, IdRegional: '0019' } },
+      });
+
+      expect(response.statusCode).toBe(202);
+      expect(mockCreate).toHaveBeenCalledWith(expect.anything(), {
+        kind: 'festival-sin-compra',
+        query: { editionId, IdRegional: '0019' },
+      });
+    });
+
+    it('should return 400 for a query its endpoint would reject', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/exports',
+        payload: { kind: 'festival-list', query: { startDate: '2026-03-01' } },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an unknown kind', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/exports',
+        payload: { kind: 'qube6', query: { startDate: '2026-03-01', endDate: '2026-03-15' } },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 403 when the filters override the data scope', async () => {
+      mockCreate.mockRejectedValue(new ForbiddenError('Access denied'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/exports',
+        payload: { kind: 'list', query: { groupBy: 'regional', channel: 'RETAIL' } },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should return 429 when too many exports are pending', async () => {
+      mockCreate.mockRejectedValue(new RateLimitError('At most 3 exports can be in progress at once'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/exports',
+        payload: { kind: 'list', query: { groupBy: 'regional' } },
+      });
+
+      expect(response.statusCode).toBe(429);
+    });
+  });
+
+  describe('GET /exports/:id', () => {
+    it('should return the progress of an own job', async () => {
+      mockGet.mockResolvedValue({ ...job, status: 'running', progress: 50, completedAt: null, expiresAt: null });
+
+      const response = await app.inject({ method: 'GET', url: `/exports/${jobId}` });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ status: 'running', progress: 50, sizeBytes: 2048 });
+      expect(mockGet).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }), jobId);
+    });
+
+    it('should return 404 for a job of someone else', async () => {
+      mockGet.mockResolvedValue(null);
+
+      const response = await app.inject({ method: 'GET', url: `/exports/${jobId}` });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('GET /exports/:id/download', () => {
+    it('should send the stored file under the job filename', async () => {
+      mockGet.mockResolvedValue(job);
+      storage.open.mockResolvedValue(Readable.from([Buffer.from('a,b\r\n1,2\r\n')]));
+
+      const response = await app.inject({ method: 'GET', url: `/exports/${jobId}/download` });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toBe('text/csv; charset=utf-8');
+      expect(response.headers['content-disposition']).toContain('filename="Ventas por regional.csv"');
+      expect(response.body).toBe('a,b\r\n1,2\r\n');
+      expect(storage.open).toHaveBeenCalledWith(`${jobId}.csv`);
+    });
+
+    it('should return 404 while the job is running', async () => {
+      mockGet.mockResolvedValue({ ...job, status: 'running', expiresAt: null });
+
+      const response = await app.inject({ method: 'GET', url: `/exports/${jobId}/download` });
+
+      expect(response.statusCode).toBe(404);
+      expect(storage.open).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 once the file has expired', async () => {
+      mockGet.mockResolvedValue({ ...job, expiresAt: new Date('2026-03-24T11:01:00.000Z') });
+
+      const response = await app.inject({ method: 'GET', url: `/exports/${jobId}/download` });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should return 404 when the file is missing from the storage', async () => {
+      mockGet.mockResolvedValue(job);
+      storage.open.mockResolvedValue(null);
+
+      const response = await app.inject({ method: 'GET', url: `/exports/${jobId}/download` });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+});
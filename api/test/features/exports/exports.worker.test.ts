@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  ExportWorker,
+  EXPORT_HEARTBEAT_MS,
+  EXPORT_LEASE_MS,
+} from '../../../src/features/exports/exports.worker.js';
+import type { ExportJob } from '../../../src/core/db/postgres/schema.js';
+import { ForbiddenError } from '../../../src/core/errors/app-error.js';
+
+const service = {
+  claimQueued: vi.fn(),
+  getOwner: vi.fn(),
+  recordProgress: vi.fn(),
+  recordCompleted: vi.fn(),
+  recordFailure: vi.fn(),
+  failInterrupted: vi.fn(),
+  expireCompleted: vi.fn(),
+};
+const builder = { build: vi.fn() };
+const storage = { save: vi.fn(), remove: vi.fn() };
+
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const now = new Date('2026-03-23T11:00:00.000Z');
+
+const job = {
+  id: '0d6f1c1e-4b6a-4f3e-8c1d-2a9e7b5c3d10',
+  ownerId: 'user-1',
+  kind: 'list',
+  format: 'csv',
+  query: { groupBy: 'regional', startDate: '2026-03-01', endDate: '2026-03-22' },
+  filename: 'export-regional',
+  status: 'running',
+  progress: 0,
+  sizeBytes: null,
+  error: null,
+  startedAt: now,
+  completedAt: null,
+  expiresAt: null,
+  lockedUntil: new Date(now.getTime() + EXPORT_LEASE_MS),
+  lockedBy: 'instance-1',
+  createdAt: now,
+  updatedAt: now,
+} as ExportJob;
+
+const owner = { id: 'user-1', isActive: true, dynaRole: 'MANAGER_DISTRIBUTION' };
+
+describe('ExportWorker', () => {
+  let worker: ExportWorker;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    worker = new ExportWorker(service, builder, storage, 5000, RETENTION_MS, 'instance-1');
+    service.claimQueued.mockResolvedValue([job]);
+    service.getOwner.mockResolvedValue(owner);
+    service.failInterrupted.mockResolvedValue([]);
+    service.expireCompleted.mockResolvedValue([]);
+    builder.build.mockResolvedValue(Buffer.from('csv'));
+    storage.save.mockResolvedValue(2048);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should build the claimed jobs into the storage', async () => {
+    await expect(worker.runner.tick(now)).resolves.toBe(1);
+
+    expect(service.claimQueued).toHaveBeenCalledWith('instance-1', now, EXPORT_LEASE_MS, expect.any(Number));
+    expect(builder.build).toHaveBeenCalledWith(job, owner);
+    expect(storage.save).toHaveBeenCalledWith(`${job.id}.csv`, Buffer.from('csv'), expect.any(Function));
+    expect(service.recordCompleted).toHaveBeenCalledWith(job, 'instance-1', 2048, expect.any(Date), expect.any(Date));
+
+    const [, , , completedAt, expiresAt] = service.recordCompleted.mock.calls[0] as [unknown, unknown, unknown, Date, Date];
+    expect(expiresAt.getTime() - completedAt.getTime()).toBe(RETENTION_MS);
+    expect(service.recordFailure).not.toHaveBeenCalled();
+  });
+
+  it('should record failed jobs and continue with the next one', async () => {
+    const second = { ...job, id: '5b1e2c3d-7f8a-4b9c-8d0e-1f2a3b4c5d6e' };
+    service.claimQueued.mockResolvedValue([job, second]);
+    builder.build
+      .mockRejectedValueOnce(new ForbiddenError('Access denied'))
+      .mockResolvedValueOnce(Buffer.from('csv'));
+
+    await expect(worker.runner.tick(now)).resolves.toBe(1);
+
+    expect(service.recordFailure).toHaveBeenCalledWith(job, 'instance-1', 'Access denied', expect.any(Date));
+    expect(storage.remove).toHaveBeenCalledWith(`${job.id}.csv`);
+    expect(service.recordCompleted).toHaveBeenCalledWith(second, 'instance-1', 2048, expect.any(Date), expect.any(Date));
+  });
+
+  it('should fail the jobs of inactive owners without building them', async () => {
+    service.getOwner.mockResolvedValue({ ...owner, isActive: false });
+
+    await expect(worker.runner.tick(now)).resolves.toBe(0);
+
+    expect(builder.build).not.toHaveBeenCalled();
+    expect(service.recordFailure).toHaveBeenCalledWith(job, 'instance-1', 'Owner account is inactive', expect.any(Date));
+  });
+
+  it('should record storage errors as failures', async () => {
+    storage.save.mockRejectedValue(new Error('ENOSPC: no space left on device'));
+
+    await expect(worker.runner.tick(now)).resolves.toBe(0);
+
+    expect(service.recordFailure).toHaveBeenCalledWith(job, 'instance-1', 'ENOSPC: no space left on device', expect.any(Date));
+    expect(service.recordCompleted).not.toHaveBeenCalled();
+  });
+
+  it('should report progress and renew the lease while the job runs', async () => {
+    vi.useFakeTimers();
+    let finishWrite: (size: number) => void = () => undefined;
+    storage.save.mockImplementation((_key: string, _body: unknown, onBytes: (bytes: number) => void) => {
+      onBytes(1024);
+      return new Promise<number>((resolve) => {
+        finishWrite = resolve;
+      });
+    });
+
+    const tick = worker.runner.tick(now);
+    await vi.advanceTimersByTimeAsync(EXPORT_HEARTBEAT_MS);
+
+    expect(service.recordProgress).toHaveBeenCalledWith(job, 'instance-1', 50, 1024, expect.any(Date), EXPORT_LEASE_MS);
+
+    finishWrite(4096);
+    await expect(tick).resolves.toBe(1);
+    expect(service.recordCompleted).toHaveBeenCalledWith(job, 'instance-1', 4096, expect.any(Date), expect.any(Date));
+  });
+
+  it('should remove the files of interrupted and expired jobs', async () => {
+    service.failInterrupted.mockResolvedValue([{ ...job, format: 'parquet' }]);
+    service.expireCompleted.mockResolvedValue([{ ...job, id: 'job-2', format: 'xlsx' }]);
+    service.claimQueued.mockResolvedValue([]);
+
+    await worker.runner.tick(now);
+
+    expect(service.failInterrupted).toHaveBeenCalledWith(now);
+    expect(service.expireCompleted).toHaveBeenCalledWith(now);
+    expect(storage.remove).toHaveBeenCalledWith(`${job.id}.parquet`);
+    expect(storage.remove).toHaveBeenCalledWith('job-2.xlsx');
+  });
+
+  it('should not claim jobs when the claim fails', async () => {
+    service.claimQueued.mockRejectedValue(new Error('connection refused'));
+
+    await expect(worker.runner.tick(now)).resolves.toBe(0);
+
+    expect(builder.build).not.toHaveBeenCalled();
+  });
+
+  it('should skip a tick while the previous one is running', async () => {
+    let finishBuild: (body: Buffer) => void = () => undefined;
+    builder.build.mockReturnValue(new Promise<Buffer>((resolve) => {
+      finishBuild = resolve;
+    }));
+
+    const first = worker.runner.tick(now);
+    await expect(worker.runner.tick(now)).resolves.toBe(0);
+
+    finishBuild(Buffer.from('csv'));
+    await expect(first).resolves.toBe(1);
+    expect(service.claimQueued).toHaveBeenCalledTimes(1);
+  });
+});
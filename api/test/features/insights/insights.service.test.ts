@@ -0,0 +1,179 @@
+import { describe, it, expect, vi } from 'vitest';
+import { InsightsService } from '../../../src/features/insights/insights.service.js';
+import type { IAnalyticsQueryBuilder } from '../../../src/core/db/clickhouse/query/interfaces.js';
+import type { PriceVolumeMixRow } from '../../../src/core/db/clickhouse/query/types.js';
+import { ValidationError } from '../../../src/core/errors/app-error.js';
+
+function createService(
+  rows: Array<Record<string, number | string>>,
+  outliers: Array<Record<string, number | string>> = []
+) {
+  const buildGroupedMultiTableYoYQuery = vi.fn(async () => rows);
+  const buildDailyOutliersQuery = vi.fn(async () => outliers);
+  const service = new InsightsService({
+    buildMultiTableYoYQuery: vi.fn(),
+    buildGroupedMultiTableYoYQuery,
+    buildDailyOutliersQuery,
+  } as unknown as IAnalyticsQueryBuilder);
+  return { service, buildGroupedMultiTableYoYQuery, buildDailyOutliersQuery };
+}
+
+const params = {
+  filters: [{ field: 'IdRegional', operator: 'eq' as const, value: '0019' }],
+  startDate: '2026-09-01',
+  endDate: '2026-09-30',
+  groupBy: 'seller_id',
+  limit: 2,
+  trailingDays: 90,
+  zThreshold: 3.5,
+};
+
+describe('InsightsService', () => {
+  describe('getMovers', () => {
+    it('should rank the movers and explain the headline change', async () => {
+      const { service, buildGroupedMultiTableYoYQuery } = createService([
+        { id: 'S1', name: 'Ana', sales_total: 150, sales_total_last_year: 100 },
+        { id: 'S2', name: 'Luis', sales_total: 90, sales_total_last_year: 200 },
+        { id: 'S3', name: 'Eva', sales_total: 60, sales_total_last_year: 0 },
+        { id: 'S4', name: 'Juan', sales_total: 0, sales_total_last_year: 100 },
+      ]);
+
+      const result = await service.getMovers(params);
+
+      expect(buildGroupedMultiTableYoYQuery).toHaveBeenCalledWith(expect.objectContaining({
+        groupBy: 'seller_id',
+        includeAllGroups: true,
+        includePreviousGroups: true,
+      }));
+      expect(result.totals).toEqual({
+        sales_total: 300,
+        sales_total_last_year: 400,
+        change: -100,
+        sales_total_vs_last_year: -25,
+      });
+      expect(result.gainers.absolute.map((m) => m.id)).toEqual(['S3', 'S1']);
+      expect(result.decliners.absolute.map((m) => m.id)).toEqual(['S2', 'S4']);
+      // S3 had no comparison sales: no relative change
+      expect(result.gainers.relative.map((m) => m.id)).toEqual(['S1']);
+      expect(result.decliners.relative.map((m) => m.id)).toEqual(['S4', 'S2']);
+
+      const all = [...result.gainers.absolute, ...result.decliners.absolute];
+      expect(all.reduce((sum, m) => sum + (m.contribution_pp ?? 0), 0)).toBeCloseTo(-25);
+      expect(result.decliners.absolute[0]).toMatchObject({
+        change: -110,
+        change_pct: expect.closeTo(-55),
+        share_of_change: expect.closeTo(110),
+      });
+    });
+
+    it('should score the outliers over the trailing window ending at endDate', async () => {
+      const { service, buildDailyOutliersQuery } = createService([], [
+        { id: 'S1', name: 'Ana', date: '2026-09-14', sales: '900', median_sales: '100', z_score: 12.4 },
+        { id: 'S2', name: 'Luis', date: '2026-09-20', sales: '0', median_sales: '80', z_score: -4.1 },
+      ]);
+
+      const result = await service.getMovers({ ...params, trailingDays: 30 });
+
+      expect(buildDailyOutliersQuery).toHaveBeenCalledWith({
+        filters: [
+          { field: 'date', operator: 'gte', value: '2026-09-01' },
+          { field: 'date', operator: 'lte', value: '2026-09-30' },
+          { field: 'IdRegional', operator: 'eq', value: '0019' },
+        ],
+        groupBy: 'seller_id',
+        reportFrom: '2026-09-01',
+        threshold: 3.5,
+        minDays: 7,
+        limit: 2,
+      });
+      expect(result.trailingStartDate).toBe('2026-09-01');
+      expect(result.outliers.map((o) => [o.sales, o.direction])).toEqual([[900, 'spike'], [0, 'drop']]);
+      expect(result.totals.sales_total_vs_last_year).toBeNull();
+    });
+  });
+
+  describe('getPriceVolumeMix', () => {
+    // S1: item A 10u × 10 → 15u × 12, item B 20u × 5 → 10u × 5, item C new (30), item D lost (40)
+    const seller: PriceVolumeMixRow = {
+      id: 'S1',
+      name: 'Ana',
+      sales: 260,
+      sales_previous: 240,
+      gross_margin: 50,
+      gross_margin_previous: 40,
+      continuing_sales: 230,
+      continuing_sales_previous: 200,
+      continuing_margin: 45,
+      continuing_margin_previous: 40,
+      continuing_quantity: 25,
+      continuing_quantity_previous: 30,
+      sales_at_previous_price: 200,
+      margin_at_previous_unit_margin: 40,
+      new_sales: 30,
+      new_margin: 5,
+      lost_sales: -40,
+      lost_margin: 0,
+      new_items: 1,
+      lost_items: 1,
+    };
+    const pvmParams = {
+      filters: [],
+      startDate: '2026-09-01',
+      endDate: '2026-09-30',
+      groupBy: 'seller_id',
+      itemLevel: 'product_id',
+      limit: 1,
+    };
+
+    function createPvmService(result: { quantityColumn: string; rows: PriceVolumeMixRow[] } | null) {
+      const buildPriceVolumeMixQuery = vi.fn(async () => result);
+      const service = new InsightsService({
+        buildMultiTableYoYQuery: vi.fn(),
+        buildGroupedMultiTableYoYQuery: vi.fn(),
+        buildPriceVolumeMixQuery,
+      } as unknown as IAnalyticsQueryBuilder);
+      return { service, buildPriceVolumeMixQuery };
+    }
+
+    it('should split each change into effects that add up to it', async () => {
+      const { service, buildPriceVolumeMixQuery } = createPvmService({
+        quantityColumn: 'quantity',
+        rows: [
+          { ...seller, id: 'S2', sales: 100, sales_previous: 100, new_sales: 0, lost_sales: 0 },
+          seller,
+        ],
+      });
+
+      const result = await service.getPriceVolumeMix(pvmParams);
+
+      expect(buildPriceVolumeMixQuery).toHaveBeenCalledWith(expect.objectContaining({
+        groupBy: 'seller_id',
+        itemLevel: 'product_id',
+        quantityColumns: expect.arrayContaining(['quantity']),
+      }));
+      expect(result.total).toBe(2);
+      expect(result.groups.map((g) => g.id)).toEqual(['S1']);
+
+      const { sales, gross_margin: margin } = result.groups[0]!;
+      expect(sales.change).toBe(20);
+      expect(sales.price_effect).toBeCloseTo(30);
+      expect(sales.volume_effect).toBeCloseTo(-33.33);
+      expect(sales.mix_effect).toBeCloseTo(33.33);
+      expect(sales.new_items_effect).toBe(30);
+      expect(sales.lost_items_effect).toBe(-40);
+      for (const values of [sales, margin]) {
+        const effects = values.price_effect + values.volume_effect + values.mix_effect
+          + values.new_items_effect + values.lost_items_effect;
+        expect(effects).toBeCloseTo(values.change);
+      }
+      expect(result.totals.sales.current).toBe(360);
+      expect(result.totals.new_items).toBe(2);
+    });
+
+    it('should reject the analysis without a quantity column', async () => {
+      const { service } = createPvmService(null);
+
+      await expect(service.getPriceVolumeMix(pvmParams)).rejects.toThrow(ValidationError);
+    });
+  });
+});
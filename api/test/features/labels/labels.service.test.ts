@@ -25,8 +25,11 @@ describe('LabelsService', () => {
   });
 
   describe('getLabels', () => {
-    it('should return distinct values sorted A-Z', async () => {
-      const mockValues = ['Apple', 'Banana', 'Cherry'];
+    it('should return the distinct values with their rows and sales', async () => {
+      const mockValues = [
+        { id: 'Apple', name: 'Apple', rows: 3, sales: 120 },
+        { id: 'Banana', name: 'Banana', rows: 1, sales: 40 },
+      ];
       mockBuildDistinctValuesQuery.mockResolvedValue(mockValues);
 
       const params: LabelsQueryParams = {
@@ -43,6 +46,8 @@ describe('LabelsService', () => {
         table: 'transactions',
         column: 'brand',
         filters: [],
+        search: undefined,
+        orderBy: 'name',
         limit: 100,
         offset: 0,
       });
@@ -69,10 +74,12 @@ describe('LabelsService', () => {
         filters: [
           {
             field: 'date',
-            operator: '>=',
+            operator: 'gte',
             value: '2024-01-01',
           },
         ],
+        search: undefined,
+        orderBy: 'name',
         limit: 100,
         offset: 0,
       });
@@ -99,10 +106,12 @@ describe('LabelsService', () => {
         filters: [
           {
             field: 'date',
-            operator: '<=',
+            operator: 'lte',
             value: '2024-12-31',
           },
         ],
+        search: undefined,
+        orderBy: 'name',
         limit: 100,
         offset: 0,
       });
@@ -130,15 +139,17 @@ describe('LabelsService', () => {
         filters: [
           {
             field: 'date',
-            operator: '>=',
+            operator: 'gte',
             value: '2024-01-01',
           },
           {
             field: 'date',
-            operator: '<=',
+            operator: 'lte',
             value: '2024-12-31',
           },
         ],
+        search: undefined,
+        orderBy: 'name',
         limit: 100,
         offset: 0,
       });
@@ -179,10 +190,12 @@ describe('LabelsService', () => {
         filters: [
           {
             field: 'date',
-            operator: '>=',
+            operator: 'gte',
             value: '2024-06-01',
           },
         ],
+        search: undefined,
+        orderBy: 'name',
         limit: 100,
         offset: 0,
       });
@@ -207,6 +220,8 @@ describe('LabelsService', () => {
         table: 'transactions',
         column: 'brand',
         filters: [],
+        search: undefined,
+        orderBy: 'name',
         limit: 50,
         offset: 0,
       });
@@ -231,6 +246,8 @@ describe('LabelsService', () => {
         table: 'transactions',
         column: 'brand',
         filters: [],
+        search: undefined,
+        orderBy: 'name',
         limit: 100,
         offset: 100,
       });
@@ -260,18 +277,51 @@ describe('LabelsService', () => {
         filters: [
           {
             field: 'date',
-            operator: '>=',
+            operator: 'gte',
             value: '2024-01-01',
           },
           {
             field: 'date',
-            operator: '<=',
+            operator: 'lte',
             value: '2024-12-31',
           },
         ],
+        search: undefined,
+        orderBy: 'name',
         limit: 25,
         offset: 50,
       });
     });
+
+    it('should pass the source table, search and order', async () => {
+      mockBuildDistinctValuesQuery.mockResolvedValue([]);
+
+      await service.getLabels({ column: 'customer_id', source: 'cartera', search: 'bogo', orderBy: 'sales' });
+
+      expect(mockBuildDistinctValuesQuery).toHaveBeenCalledWith(expect.objectContaining({
+        table: 'cartera',
+        column: 'customer_id',
+        search: 'bogo',
+        orderBy: 'sales',
+      }));
+    });
+
+    it('should apply the dynamic filters except those on the column itself', async () => {
+      mockBuildDistinctValuesQuery.mockResolvedValue([]);
+      const filters: FilterCondition[] = [
+        { field: 'IdRegional', operator: 'in', value: ['01', '02'] },
+        { field: 'Regional', operator: 'eq', value: 'Bogotá' },
+        { field: 'Marca', operator: 'eq', value: 'ACME' },
+      ];
+
+      await service.getLabels({ column: 'IdRegional', startDate: '2024-01-01' }, filters);
+
+      expect(mockBuildDistinctValuesQuery).toHaveBeenCalledWith(expect.objectContaining({
+        filters: [
+          { field: 'Marca', operator: 'eq', value: 'ACME' },
+          { field: 'date', operator: 'gte', value: '2024-01-01' },
+        ],
+      }));
+    });
   });
 });
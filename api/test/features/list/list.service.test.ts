@@ -12,6 +12,7 @@ describe('ListService', () => {
     mockBuilder = {
       buildMultiTableYoYQuery: vi.fn(),
       buildGroupedMultiTableYoYQuery: vi.fn(),
+      streamGroupedMultiTableYoYQuery: vi.fn(),
     } as IAnalyticsQueryBuilder;
 
     service = new ListService(mockBuilder);
@@ -138,6 +139,25 @@ describe('ListService', () => {
       );
     });
 
+    it('should pass an explicit comparison window to analytics builder', async () => {
+      vi.mocked(mockBuilder.buildGroupedMultiTableYoYQuery).mockResolvedValue([]);
+      const comparisonFilters: FilterCondition[] = [
+        { field: 'date', operator: 'gte', value: '2025-11-01' },
+        { field: 'date', operator: 'lte', value: '2025-11-30' },
+      ];
+
+      await service.getBalanceList({
+        groupBy: 'IdRegional',
+        startDate: '2025-12-01',
+        endDate: '2025-12-31',
+        comparisonFilters,
+      });
+
+      expect(mockBuilder.buildGroupedMultiTableYoYQuery).toHaveBeenCalledWith(
+        expect.objectContaining({ comparisonFilters })
+      );
+    });
+
     it('should handle empty results array', async () => {
       vi.mocked(mockBuilder.buildGroupedMultiTableYoYQuery).mockResolvedValue([]);
 
@@ -434,4 +454,128 @@ describe('ListService', () => {
       });
     });
   });
+
+  describe('getBalanceTree', () => {
+    it('should nest child rows under their parents with per-parent counts', async () => {
+      vi.mocked(mockBuilder.buildGroupedMultiTableYoYQuery)
+        .mockResolvedValueOnce([
+          { id: 'R1', name: 'Region 1', _total_count: 2, ...generateMockQueryResult() },
+          { id: 'R2', name: 'Region 2', _total_count: 2, ...generateMockQueryResult() },
+        ])
+        .mockResolvedValueOnce([
+          { _parent_0: 'R2', id: 'S3', name: 'Seller 3', _total_count: 1, ...generateMockQueryResult() },
+          { _parent_0: 'R1', id: 'S1', name: 'Seller 1', _total_count: 7, ...generateMockQueryResult() },
+          { _parent_0: 'R1', id: 'S2', name: 'Seller 2', _total_count: 7, ...generateMockQueryResult() },
+        ]);
+
+      const result = await service.getBalanceTree({
+        dimensions: ['IdRegional', 'seller_id'],
+        filters: [{ field: 'country', operator: 'eq', value: 'ES' }],
+        childLimit: 2,
+      });
+
+      expect(result.meta).toMatchObject({ groupBy: 'IdRegional', dimensions: ['IdRegional', 'seller_id'], childLimit: 2, total: 2 });
+      expect(result.data.map((item) => item.id)).toEqual(['R1', 'R2']);
+      expect(result.data[0]!.children!.map((item) => item.id)).toEqual(['S1', 'S2']);
+      expect(result.data[0]!.childCount).toBe(7);
+      expect(result.data[1]!.children!.map((item) => item.id)).toEqual(['S3']);
+      expect(result.data[1]!.children![0]).not.toHaveProperty('_parent_0');
+
+      expect(mockBuilder.buildGroupedMultiTableYoYQuery).toHaveBeenNthCalledWith(2, expect.objectContaining({
+        groupBy: 'seller_id',
+        parentGroupBy: ['IdRegional'],
+        limitPerParent: 2,
+        currentPeriodFilters: [
+          { field: 'country', operator: 'eq', value: 'ES' },
+          { field: 'IdRegional', operator: 'in', value: ['R1', 'R2'] },
+        ],
+      }));
+    });
+
+    it('should paginate and search only the first dimension', async () => {
+      vi.mocked(mockBuilder.buildGroupedMultiTableYoYQuery).mockResolvedValue([]);
+
+      const result = await service.getBalanceTree({
+        dimensions: ['IdRegional', 'seller_id'],
+        filters: [],
+        page: 2,
+        limit: 20,
+        search: 'nor',
+      });
+
+      // No parents on the page: the child level is not queried
+      expect(mockBuilder.buildGroupedMultiTableYoYQuery).toHaveBeenCalledTimes(1);
+      expect(mockBuilder.buildGroupedMultiTableYoYQuery).toHaveBeenCalledWith(
+        expect.objectContaining({ groupBy: 'IdRegional', limit: 20, offset: 20, search: 'nor' })
+      );
+      expect(result.data).toEqual([]);
+    });
+  });
+
+  describe('getBalanceTreeForExport', () => {
+    it('should flatten every level depth-first', async () => {
+      vi.mocked(mockBuilder.buildGroupedMultiTableYoYQuery)
+        .mockResolvedValueOnce([
+          { id: 'R1', name: 'Region 1', ...generateMockQueryResult() },
+          { id: 'R2', name: 'Region 2', ...generateMockQueryResult() },
+        ])
+        .mockResolvedValueOnce([
+          { _parent_0: 'R2', id: 'S2', name: 'Seller 2', ...generateMockQueryResult() },
+          { _parent_0: 'R1', id: 'S1', name: 'Seller 1', ...generateMockQueryResult() },
+        ]);
+
+      const rows = await service.getBalanceTreeForExport({ dimensions: ['IdRegional', 'seller_id'], filters: [] });
+
+      expect(rows.map(({ depth, item }) => [depth, item.id])).toEqual([
+        [0, 'R1'], [1, 'S1'], [0, 'R2'], [1, 'S2'],
+      ]);
+    });
+  });
+
+  describe('streamBalanceListForExport', () => {
+    async function* rowsOf(rows: Array<Record<string, number | string>>) {
+      yield* rows;
+    }
+
+    it('should stream the uncapped list with "Sin Determinar" for empty names', async () => {
+      vi.mocked(mockBuilder.streamGroupedMultiTableYoYQuery).mockReturnValue(rowsOf([
+        { id: 'R1', name: 'Region 1', ...generateMockQueryResult() },
+        { id: '', name: ' ', ...generateMockQueryResult() },
+      ]));
+
+      const records = [];
+      for await (const record of service.streamBalanceListForExport({ dimensions: ['IdRegional'], filters: [] })) {
+        records.push(record);
+      }
+
+      expect(records.map(({ parentIds, item }) => [parentIds, item.id, item.name])).toEqual([
+        [[], 'R1', 'Region 1'],
+        [[], 'Sin Determinar', 'Sin Determinar'],
+      ]);
+      const config = vi.mocked(mockBuilder.streamGroupedMultiTableYoYQuery).mock.calls[0]![0];
+      expect(config.groupBy).toBe('IdRegional');
+      expect(config.limit).toBeUndefined();
+      expect(config.parentGroupBy).toBeUndefined();
+    });
+
+    it('should stream the deepest level of a multi-dimension groupBy with the outer ids', async () => {
+      vi.mocked(mockBuilder.streamGroupedMultiTableYoYQuery).mockReturnValue(rowsOf([
+        { _parent_0: 'R1', id: 'S1', name: 'Seller 1', ...generateMockQueryResult() },
+        { _parent_0: '', id: 'S2', name: 'Seller 2', ...generateMockQueryResult() },
+      ]));
+
+      const records = [];
+      for await (const record of service.streamBalanceListForExport({ dimensions: ['IdRegional', 'seller_id'], filters: [] })) {
+        records.push(record);
+      }
+
+      expect(records.map(({ parentIds, item }) => [parentIds, item.id])).toEqual([
+        [['R1'], 'S1'],
+        [['Sin Determinar'], 'S2'],
+      ]);
+      const config = vi.mocked(mockBuilder.streamGroupedMultiTableYoYQuery).mock.calls[0]![0];
+      expect(config.groupBy).toBe('seller_id');
+      expect(config.parentGroupBy).toEqual(['IdRegional']);
+    });
+  });
 });
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Fastify from 'fastify';
+import { metricsRoutes } from '../../../src/features/metrics/metrics.routes.js';
+import { setupErrorHandler } from '../../../src/core/errors/error-handler.js';
+import { ValidationError } from '../../../src/core/errors/app-error.js';
+import { BALANCE_METRICS, CALCULATED_METRICS } from '../../../src/core/config/metrics.config.js';
+
+const mockPublishCatalog = vi.fn();
+
+vi.mock('../../../src/features/metrics/metrics.service.js', () => {
+  return {
+    MetricsService: class {
+      publishCatalog = mockPublishCatalog;
+    },
+  };
+});
+
+// Mock middleware - allow all by default
+vi.mock('../../../src/core/middleware/authenticate.js', () => ({
+  authenticate: vi.fn(async (request: { user?: unknown }) => {
+    request.user = { id: 'user-1', email: 'test@test.com', emailVerified: true };
+  }),
+}));
+
+vi.mock('../../../src/core/middleware/authorize.js', () => ({
+  requireAdmin: vi.fn(async () => {}),
+  requireSuperadmin: vi.fn(async () => {}),
+}));
+
+const publishBody = {
+  note: 'Add rappel %',
+  baseMetrics: [
+    { table: 'transactions', field: 'sales_price', aggregation: 'sum', alias: 'sales', label: 'Facturado', format: 'currency' },
+  ],
+  calculatedMetrics: [],
+};
+
+describe('Metrics Routes', () => {
+  let app: Awaited<ReturnType<typeof Fastify>>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    app = Fastify({ logger: false });
+    setupErrorHandler(app);
+    await metricsRoutes(app);
+    await app.ready();
+  });
+
+  describe('GET /metrics/catalog', () => {
+    it('should return the built-in catalog until a version is published', async () => {
+      const response = await app.inject({ method: 'GET', url: '/metrics/catalog' });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      expect(body.version).toBe(0);
+      expect(body.publishedAt).toBeNull();
+      expect(body.baseMetrics.map((m: { alias: string }) => m.alias)).toEqual(BALANCE_METRICS.map((m) => m.alias));
+      expect(body.calculatedMetrics).toHaveLength(CALCULATED_METRICS.length);
+      expect(body.calculatedMetrics[1]).toMatchObject({
+        name: 'budget_achievement_pct',
+        format: 'percent',
+        heatmap: { excellent: 105, good: 99, neutral: 95, warning: 80 },
+      });
+    });
+  });
+
+  describe('PUT /metrics/catalog', () => {
+    it('should publish the catalog as the session user', async () => {
+      const published = { version: 2, publishedAt: '2026-01-01T00:00:00.000Z', ...publishBody };
+      mockPublishCatalog.mockResolvedValue(published);
+
+      const response = await app.inject({ method: 'PUT', url: '/metrics/catalog', payload: publishBody });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ version: 2, baseMetrics: publishBody.baseMetrics });
+      expect(mockPublishCatalog).toHaveBeenCalledWith(publishBody, 'user-1');
+    });
+
+    it('should return 400 for an invalid catalog', async () => {
+      mockPublishCatalog.mockRejectedValue(
+        new ValidationError('Invalid metric catalog: Dependency cycle: a -> b -> a', ['Dependency cycle: a -> b -> a'])
+      );
+
+      const response = await app.inject({ method: 'PUT', url: '/metrics/catalog', payload: publishBody });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should reject unknown aggregations', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/metrics/catalog',
+        payload: { ...publishBody, baseMetrics: [{ ...publishBody.baseMetrics[0], aggregation: 'median' }] },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockPublishCatalog).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MetricCatalogWatcher } from '../../../src/features/metrics/metrics.service.js';
+import { MetricRegistry, type MetricCatalog } from '../../../src/core/metrics/metric-registry.js';
+import { BALANCE_METRICS, CALCULATED_METRICS } from '../../../src/core/config/metrics.config.js';
+
+vi.mock('../../../src/core/db/postgres/client.js', () => ({ db: {} }));
+
+const builtIn: MetricCatalog = {
+  version: 0,
+  publishedAt: null,
+  baseMetrics: BALANCE_METRICS,
+  calculatedMetrics: CALCULATED_METRICS,
+};
+
+const published: MetricCatalog = {
+  ...builtIn,
+  version: 4,
+  publishedAt: '2026-10-01T00:00:00.000Z',
+  calculatedMetrics: [],
+};
+
+describe('MetricCatalogWatcher', () => {
+  const getLatestVersion = vi.fn();
+  const getLatestCatalog = vi.fn();
+  let registry: MetricRegistry;
+  let watcher: MetricCatalogWatcher;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    registry = new MetricRegistry(builtIn);
+    watcher = new MetricCatalogWatcher({ getLatestVersion, getLatestCatalog }, 60000, registry);
+  });
+
+  it('should reload the catalog published by another instance', async () => {
+    getLatestVersion.mockResolvedValue(4);
+    getLatestCatalog.mockResolvedValue(published);
+
+    await expect(watcher.check()).resolves.toBe(true);
+
+    expect(registry.getVersion()).toBe(4);
+    expect(registry.getCalculatedMetrics()).toEqual([]);
+  });
+
+  it('should only read the version while it is unchanged', async () => {
+    getLatestVersion.mockResolvedValue(0);
+
+    await expect(watcher.check()).resolves.toBe(false);
+
+    expect(getLatestCatalog).not.toHaveBeenCalled();
+    expect(registry.getVersion()).toBe(0);
+  });
+
+  it('should keep the active catalog when the reload fails', async () => {
+    getLatestVersion.mockResolvedValue(5);
+    getLatestCatalog.mockResolvedValue({
+      ...published,
+      version: 5,
+      calculatedMetrics: [{ ...CALCULATED_METRICS[0], formula: '{unknown_metric} * 2' }],
+    });
+
+    await expect(watcher.check()).resolves.toBe(false);
+
+    expect(registry.getVersion()).toBe(0);
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Fastify from 'fastify';
+import { reportSubscriptionsRoutes } from '../../../src/features/report-subscriptions/report-subscriptions.routes.js';
+import { setupErrorHandler } from '../../../src/core/errors/error-handler.js';
+import { ValidationError } from '../../../src/core/errors/app-error.js';
+
+const mockList = vi.fn();
+const mockCreate = vi.fn();
+const mockUpdate = vi.fn();
+const mockDelete = vi.fn();
+const mockListDeliveries = vi.fn();
+const mockUnsubscribe = vi.fn();
+
+vi.mock('../../../src/features/report-subscriptions/report-subscriptions.service.js', () => {
+  return {
+    ReportSubscriptionsService: class {
+      list = mockList;
+      create = mockCreate;
+      update = mockUpdate;
+      delete = mockDelete;
+      listDeliveries = mockListDeliveries;
+      unsubscribe = mockUnsubscribe;
+    },
+  };
+});
+
+vi.mock('../../../src/core/middleware/authenticate.js', () => ({
+  authenticate: vi.fn(async (request: { user?: unknown }) => {
+    request.user = { id: 'user-1', email: 'test@test.com', emailVerified: true, dynaRole: 'MANAGER_DISTRIBUTION' };
+  }),
+}));
+
+const subscriptionId = '0d6f1c1e-4b6a-4f3e-8c1d-2a9e7b5c3d10';
+
+const subscription = {
+  id: subscriptionId,
+  name: 'Ventas por regional',
+  view: { groupBy: 'regional', preset: 'current-month', filters: { brand: 'ACME' }, orderDirection: 'desc' },
+  frequency: 'weekly',
+  hour: 11,
+  active: true,
+  nextRunAt: '2026-03-23T11:00:00.000Z',
+  lastSentAt: null,
+  lastError: null,
+  failureCount: 0,
+  createdAt: '2026-03-18T12:00:00.000Z',
+  updatedAt: '2026-03-18T12:00:00.000Z',
+};
+
+describe('Report Subscriptions Routes', () => {
+  let app: Awaited<ReturnType<typeof Fastify>>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    app = Fastify({ logger: false });
+    setupErrorHandler(app);
+    reportSubscriptionsRoutes(app);
+    await app.ready();
+  });
+
+  describe('GET /report-subscriptions', () => {
+    it('should list the subscriptions of the session user', async () => {
+      mockList.mockResolvedValue([subscription]);
+
+      const response = await app.inject({ method: 'GET', url: '/report-subscriptions' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ data: [subscription] });
+      expect(mockList).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }));
+    });
+  });
+
+  describe('POST /report-subscriptions', () => {
+    const body = { name: subscription.name, view: subscription.view, frequency: 'weekly' };
+
+    it('should subscribe the session user to the view', async () => {
+      mockCreate.mockResolvedValue(subscription);
+
+      const response = await app.inject({ method: 'POST', url: '/report-subscriptions', payload: body });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json()).toEqual(subscription);
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1', dynaRole: 'MANAGER_DISTRIBUTION' }), body);
+    });
+
+    it('should return 400 when the view is invalid', async () => {
+      mockCreate.mockRejectedValue(new ValidationError('Not a filter: startDate'));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/report-subscriptions',
+        payload: { ...body, view: { ...body.view, filters: { startDate: '2026-01-01' } } },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().detail).toContain('Not a filter: startDate');
+    });
+
+    it('should not save fixed dates in the view', async () => {
+      mockCreate.mockResolvedValue(subscription);
+
+      await app.inject({
+        method: 'POST',
+        url: '/report-subscriptions',
+        payload: { ...body, view: { ...body.view, startDate: '2026-01-01' } },
+      });
+
+      expect(mockCreate).toHaveBeenCalledWith(expect.anything(), body);
+    });
+  });
+
+  describe('PATCH /report-subscriptions/:id', () => {
+    it('should pause an owned subscription', async () => {
+      mockUpdate.mockResolvedValue({ ...subscription, active: false });
+
+      const response = await app.inject({ method: 'PATCH', url: `/report-subscriptions/${subscriptionId}`, payload: { active: false } });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().active).toBe(false);
+      expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }), subscriptionId, { active: false });
+    });
+
+    it('should return 404 for subscriptions of other users', async () => {
+      mockUpdate.mockResolvedValue(null);
+
+      const response = await app.inject({ method: 'PATCH', url: `/report-subscriptions/${subscriptionId}`, payload: { hour: 8 } });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /report-subscriptions/:id', () => {
+    it('should delete an owned subscription', async () => {
+      mockDelete.mockResolvedValue(true);
+
+      const response = await app.inject({ method: 'DELETE', url: `/report-subscriptions/${subscriptionId}` });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().success).toBe(true);
+    });
+
+    it('should return 404 when nothing was deleted', async () => {
+      mockDelete.mockResolvedValue(false);
+
+      const response = await app.inject({ method: 'DELETE', url: `/report-subscriptions/${subscriptionId}` });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('GET /report-subscriptions/:id/deliveries', () => {
+    it('should return the delivery history', async () => {
+      const delivery = { id: 'd-1', status: 'failed', attempt: 1, error: 'Resend error: timeout', createdAt: '2026-03-23T11:00:05.000Z' };
+      mockListDeliveries.mockResolvedValue([delivery]);
+
+      const response = await app.inject({ method: 'GET', url: `/report-subscriptions/${subscriptionId}/deliveries` });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ data: [delivery] });
+    });
+
+    it('should return 404 for subscriptions of other users', async () => {
+      mockListDeliveries.mockResolvedValue(null);
+
+      const response = await app.inject({ method: 'GET', url: `/report-subscriptions/${subscriptionId}/deliveries` });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('GET /report-subscriptions/unsubscribe', () => {
+    it('should pause the subscription of the token', async () => {
+      mockUnsubscribe.mockResolvedValue(subscription.name);
+
+      const response = await app.inject({ method: 'GET', url: '/report-subscriptions/unsubscribe?token=abc' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toContain('text/html');
+      expect(response.body).toContain('Suscripción cancelada');
+      expect(mockUnsubscribe).toHaveBeenCalledWith('abc');
+    });
+
+    it('should return 404 for unknown tokens', async () => {
+      mockUnsubscribe.mockResolvedValue(null);
+
+      const response = await app.inject({ method: 'GET', url: '/report-subscriptions/unsubscribe?token=unknown' });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+});
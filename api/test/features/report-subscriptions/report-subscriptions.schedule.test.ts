@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import {
+  nextRunAt,
+  retryAt,
+  MAX_DELIVERY_ATTEMPTS,
+  RETRY_DELAYS_MS,
+} from '../../../src/features/report-subscriptions/report-subscriptions.schedule.js';
+
+describe('report-subscriptions.schedule', () => {
+  // Wednesday
+  const now = new Date('2026-03-18T12:30:00.000Z');
+
+  describe('nextRunAt', () => {
+    it('should deliver daily at the hour, tomorrow once it has passed', () => {
+      expect(nextRunAt('daily', 15, now)).toEqual(new Date('2026-03-18T15:00:00.000Z'));
+      expect(nextRunAt('daily', 11, now)).toEqual(new Date('2026-03-19T11:00:00.000Z'));
+    });
+
+    it('should deliver weekly on Mondays', () => {
+      expect(nextRunAt('weekly', 11, now)).toEqual(new Date('2026-03-23T11:00:00.000Z'));
+      expect(nextRunAt('weekly', 11, new Date('2026-03-23T11:00:00.000Z'))).toEqual(new Date('2026-03-30T11:00:00.000Z'));
+      expect(nextRunAt('weekly', 11, new Date('2026-03-23T10:00:00.000Z'))).toEqual(new Date('2026-03-23T11:00:00.000Z'));
+    });
+
+    it('should deliver monthly on the 1st', () => {
+      expect(nextRunAt('monthly', 11, now)).toEqual(new Date('2026-04-01T11:00:00.000Z'));
+      expect(nextRunAt('monthly', 11, new Date('2026-12-01T11:00:00.000Z'))).toEqual(new Date('2027-01-01T11:00:00.000Z'));
+    });
+  });
+
+  describe('retryAt', () => {
+    it('should back off after each failed attempt', () => {
+      expect(retryAt(1, now)).toEqual(new Date(now.getTime() + RETRY_DELAYS_MS[0]));
+      expect(retryAt(2, now)).toEqual(new Date(now.getTime() + RETRY_DELAYS_MS[1]));
+    });
+
+    it('should give up after the last attempt', () => {
+      expect(retryAt(MAX_DELIVERY_ATTEMPTS, now)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ReportScheduler } from '../../../src/features/report-subscriptions/report-subscriptions.scheduler.js';
+import { MemoryEmailTransport, type EmailMessage } from '../../../src/core/email/email-transport.js';
+import type { ReportSubscription } from '../../../src/core/db/postgres/schema.js';
+import { ForbiddenError } from '../../../src/core/errors/app-error.js';
+
+const service = {
+  claimDue: vi.fn(),
+  getOwner: vi.fn(),
+  recordSent: vi.fn(),
+  recordFailure: vi.fn(),
+};
+const reports = { build: vi.fn() };
+
+const now = new Date('2026-03-23T11:00:00.000Z');
+
+const subscription = {
+  id: 'sub-1',
+  ownerId: 'user-1',
+  name: 'Ventas por regional',
+  view: { groupBy: 'regional', preset: 'current-month' },
+  frequency: 'weekly',
+  hour: 11,
+  active: true,
+  unsubscribeToken: 'token',
+  nextRunAt: now,
+  lastSentAt: null,
+  lastError: null,
+  failureCount: 0,
+  lockedUntil: null,
+  lockedBy: 'instance-1',
+  createdAt: now,
+  updatedAt: now,
+} as ReportSubscription;
+
+const owner = { id: 'user-1', email: 'user@example.com', isActive: true, dynaRole: 'MANAGER_DISTRIBUTION' };
+
+const message: EmailMessage = { to: owner.email, subject: subscription.name, html: '<p>Reporte</p>' };
+
+describe('ReportScheduler', () => {
+  let transport: MemoryEmailTransport;
+  let scheduler: ReportScheduler;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    transport = new MemoryEmailTransport();
+    scheduler = new ReportScheduler(service, reports, transport, 60_000, 'instance-1');
+    service.claimDue.mockResolvedValue([subscription]);
+    service.getOwner.mockResolvedValue(owner);
+    reports.build.mockResolvedValue(message);
+  });
+
+  it('should deliver the claimed subscriptions', async () => {
+    await expect(scheduler.runner.tick(now)).resolves.toBe(1);
+
+    expect(service.claimDue).toHaveBeenCalledWith('instance-1', now, expect.any(Number), expect.any(Number));
+    expect(reports.build).toHaveBeenCalledWith(subscription, owner, now);
+    expect(transport.outbox).toEqual([message]);
+    expect(service.recordSent).toHaveBeenCalledWith(subscription, 'instance-1', now);
+    expect(service.recordFailure).not.toHaveBeenCalled();
+  });
+
+  it('should record failed deliveries and continue with the next subscription', async () => {
+    service.claimDue.mockResolvedValue([subscription, { ...subscription, id: 'sub-2' }]);
+    reports.build
+      .mockRejectedValueOnce(new Error('ClickHouse timeout'))
+      .mockResolvedValueOnce(message);
+
+    await expect(scheduler.runner.tick(now)).resolves.toBe(1);
+
+    expect(service.recordFailure).toHaveBeenCalledWith(subscription, 'instance-1', 'ClickHouse timeout', now, { pause: false });
+    expect(service.recordSent).toHaveBeenCalledWith(expect.objectContaining({ id: 'sub-2' }), 'instance-1', now);
+  });
+
+  it('should record transport errors as failures', async () => {
+    vi.spyOn(transport, 'send').mockRejectedValue(new Error('Resend error: rate limited'));
+
+    await expect(scheduler.runner.tick(now)).resolves.toBe(0);
+
+    expect(service.recordFailure).toHaveBeenCalledWith(subscription, 'instance-1', 'Resend error: rate limited', now, { pause: false });
+    expect(service.recordSent).not.toHaveBeenCalled();
+  });
+
+  it('should not retry a sent report whose delivery could not be recorded', async () => {
+    service.recordSent.mockRejectedValue(new Error('Connection terminated'));
+
+    await expect(scheduler.runner.tick(now)).resolves.toBe(1);
+
+    expect(transport.outbox).toEqual([message]);
+    expect(service.recordFailure).not.toHaveBeenCalled();
+  });
+
+  it('should pause subscriptions of inactive owners', async () => {
+    service.getOwner.mockResolvedValue({ ...owner, isActive: false });
+
+    await expect(scheduler.runner.tick(now)).resolves.toBe(0);
+
+    expect(reports.build).not.toHaveBeenCalled();
+    expect(service.recordFailure).toHaveBeenCalledWith(subscription, 'instance-1', 'Owner account is inactive', now, { pause: true });
+  });
+
+  it('should pause subscriptions whose view the owner can no longer see', async () => {
+    reports.build.mockRejectedValue(new ForbiddenError("Filter on 'channel' is not allowed for your role"));
+
+    await expect(scheduler.runner.tick(now)).resolves.toBe(0);
+
+    expect(service.recordFailure).toHaveBeenCalledWith(
+      subscription, 'instance-1', "Filter on 'channel' is not allowed for your role", now, { pause: true }
+    );
+  });
+
+  it('should skip a tick while the previous one runs', async () => {
+    let release: (value: ReportSubscription[]) => void = () => {};
+    service.claimDue.mockReturnValue(new Promise((resolve) => { release = resolve; }));
+
+    const first = scheduler.runner.tick(now);
+    await expect(scheduler.runner.tick(now)).resolves.toBe(0);
+    release([subscription]);
+
+    await expect(first).resolves.toBe(1);
+    expect(service.claimDue).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ClickHouseClient } from '@clickhouse/client';
+import { RfmService } from '../../../src/features/rfm/rfm.service.js';
+import { buildRfmDistributionQuery, buildRfmCustomersQuery } from '../../../src/features/rfm/rfm.query.js';
+import { parseRfmQuery } from '../../../src/features/rfm/rfm.filters.js';
+import { ValidationError } from '../../../src/core/errors/app-error.js';
+
+function mockClient(rowsFor: (sql: string) => unknown[]) {
+  const query = vi.fn().mockImplementation((config: { query: string }) =>
+    Promise.resolve({ response_headers: {}, json: vi.fn().mockResolvedValue(rowsFor(config.query)) })
+  );
+  return { client: { query } as unknown as ClickHouseClient, query };
+}
+
+const period = { startDate: '2025-01-01', endDate: '2025-12-31' };
+
+describe('RFM segmentation', () => {
+  beforeEach(() => {
+    process.env['TABLE_PREFIX'] = 'dyna_';
+  });
+
+  describe('parseRfmQuery', () => {
+    it('should score by quintile by default and keep the dynamic filters', () => {
+      const parsed = parseRfmQuery({ ...period, groupBy: 'seller_id', IdRegional: 'CENTRO' } as never);
+
+      expect(parsed.scoring).toBe('quintile');
+      expect(parsed.thresholds).toBeNull();
+      expect(parsed.meta).toEqual({ ...period, scoring: 'quintile', thresholds: null, groupBy: 'seller_id' });
+      expect(parsed.filters).toEqual([{ field: 'IdRegional', operator: 'eq', value: 'CENTRO' }]);
+    });
+
+    it('should fill in the default recency and frequency cut points for threshold scoring', () => {
+      const parsed = parseRfmQuery({ ...period, scoring: 'threshold', monetaryThresholds: '100,500,1000,5000' });
+
+      expect(parsed.thresholds).toEqual({
+        recency: [30, 90, 180, 365],
+        frequency: [2, 3, 5, 10],
+        monetary: [100, 500, 1000, 5000],
+      });
+    });
+
+    it('should reject threshold scoring without monetary cut points', () => {
+      expect(() => parseRfmQuery({ ...period, scoring: 'threshold' }))
+        .toThrow('scoring=threshold requires monetaryThresholds');
+    });
+
+    it('should reject cut points that are not ascending', () => {
+      expect(() => parseRfmQuery({ ...period, scoring: 'threshold', monetaryThresholds: '100,500,500,5000' }))
+        .toThrow(ValidationError);
+    });
+
+    it('should reject thresholds with quintile scoring', () => {
+      expect(() => parseRfmQuery({ ...period, recencyThresholds: '10,20,30,40' }))
+        .toThrow('Thresholds require scoring=threshold');
+    });
+  });
+
+  describe('buildRfmDistributionQuery', () => {
+    it('should rank customers by quintile and assign each one to its main group', () => {
+      const { query, queryParams } = buildRfmDistributionQuery({
+        ...period,
+        groupBy: 'IdRegional',
+        scoring: 'quintile',
+        thresholds: null,
+        filters: [],
+        scopeFilters: [{ field: 'IdRegional', operator: 'eq', value: 'RTL' }],
+      });
+
+      expect(query).toContain('FROM dyna_transactions');
+      expect(query).toContain('uniqExact(Pedido) AS frequency');
+      expect(query).toContain('rank() OVER (ORDER BY recency_days DESC)');
+      expect(query).toContain('argMax(group_id, group_sales) AS group_id');
+      expect(query).toContain('GROUP BY group_id, segment');
+      expect(queryParams).toMatchObject({ start: '2025-01-01', end: '2025-12-31', f_IdRegional_0: 'RTL' });
+    });
+
+    it('should bind the cut points of threshold scoring', () => {
+      const { query, queryParams } = buildRfmDistributionQuery({
+        ...period,
+        scoring: 'threshold',
+        thresholds: { recency: [30, 90, 180, 365], frequency: [2, 3, 5, 10], monetary: [100, 500, 1000, 5000] },
+        filters: [],
+        scopeFilters: [],
+      });
+
+      expect(query).toContain('multiIf(recency_days <= {r1:Float64}, 5, recency_days <= {r2:Float64}, 4');
+      expect(query).toContain('multiIf(monetary >= {m4:Float64}, 5, monetary >= {m3:Float64}, 4');
+      expect(query).not.toContain('rank()');
+      expect(queryParams).toMatchObject({ r1: '30', r4: '365', f1: '2', m4: '5000' });
+    });
+  });
+
+  describe('buildRfmCustomersQuery', () => {
+    it('should filter by segment, group and search and sort by score', () => {
+      const { query, queryParams } = buildRfmCustomersQuery({
+        ...period,
+        groupBy: 'seller_id',
+        scoring: 'quintile',
+        thresholds: null,
+        filters: [],
+        scopeFilters: [],
+        segment: 'at_risk',
+        groupId: 'V01',
+        search: 'gómez',
+        orderBy: 'score',
+        orderDirection: 'desc',
+        limit: 50,
+        offset: 50,
+      });
+
+      expect(query).toContain('WHERE segment = {segment:String} AND group_id = {group_id:String}');
+      expect(query).toContain('ORDER BY r_score DESC, f_score DESC, m_score DESC, customer_id ASC');
+      expect(query).toContain('LIMIT 50 OFFSET 50');
+      expect(queryParams).toMatchObject({ segment: 'at_risk', group_id: 'V01', search: 'gómez' });
+    });
+  });
+
+  describe('RfmService', () => {
+    it('should order the segments and sort the groups by sales', async () => {
+      const row = (segment: string, customers: string, sales: string, group?: [string, string]) => ({
+        ...(group && { group_id: group[0], group_name: group[1] }),
+        segment, customers, sales, gross_margin: '0', avg_recency_days: '10', avg_frequency: '2', avg_monetary: '5',
+      });
+      const { client, query } = mockClient((sql) => sql.includes('GROUP BY group_id, segment')
+        ? [
+          row('champions', '1', '50', ['V02', 'Ana']),
+          row('hibernating', '3', '30', ['V01', 'Luis']),
+          row('champions', '2', '400', ['V01', 'Luis']),
+        ]
+        : [row('hibernating', '3', '30'), row('champions', '3', '450')]);
+      const service = new RfmService(client);
+
+      const result = await service.getDistribution({
+        ...period, groupBy: 'seller_id', scoring: 'quintile', thresholds: null, filters: [], scopeFilters: [],
+      });
+
+      expect(query).toHaveBeenCalledTimes(2);
+      expect(result.segments.map((s) => s.segment)).toEqual(['champions', 'hibernating']);
+      expect(result.segments[0]).toEqual({
+        segment: 'champions', count: 3, sales: 450, gross_margin: 0, avg_recency_days: 10, avg_frequency: 2, avg_monetary: 5,
+      });
+      expect(result.groups.map((g) => g.id)).toEqual(['V01', 'V02']);
+      expect(result.groups[0]!.segments.map((s) => s.segment)).toEqual(['champions', 'hibernating']);
+    });
+
+    it('should return a page of scored customers with the total', async () => {
+      const { client } = mockClient((sql) => sql.includes('count() AS total')
+        ? [{ total: '7' }]
+        : [{
+          customer_id: 'C1', customer_name: 'Tienda Uno', group_id: null, group_name: null, last_purchase: '2025-12-20',
+          recency_days: '11', frequency: '14', monetary: '9800', r_score: '5', f_score: '5', m_score: '4',
+          score: '554', segment: 'champions',
+        }]);
+      const service = new RfmService(client);
+
+      const result = await service.getCustomers({
+        ...period, scoring: 'quintile', thresholds: null, filters: [], scopeFilters: [],
+        orderBy: 'monetary', orderDirection: 'desc', limit: 50,
+      });
+
+      expect(result.total).toBe(7);
+      expect(result.rows[0]).toMatchObject({ recency_days: 11, frequency: 14, monetary: 9800, r_score: 5, m_score: 4, score: '554' });
+    });
+  });
+});
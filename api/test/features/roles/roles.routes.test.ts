@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Fastify from 'fastify';
+import { rolesRoutes } from '../../../src/features/roles/roles.routes.js';
+import { setupErrorHandler } from '../../../src/core/errors/error-handler.js';
+
+// Mock service
+const mockListRoles = vi.fn();
+const mockGetRoleById = vi.fn();
+const mockGetRoleByKey = vi.fn();
+const mockCreateRole = vi.fn();
+const mockUpdateRole = vi.fn();
+const mockDeleteRole = vi.fn();
+const mockGetRoleAccess = vi.fn();
+
+// Session user attached by the (mocked) authenticate middleware
+let mockDynaRole: string | null = null;
+
+vi.mock('../../../src/features/roles/roles.service.js', () => {
+  return {
+    RolesService: class {
+      listRoles = mockListRoles;
+      getRoleById = mockGetRoleById;
+      getRoleByKey = mockGetRoleByKey;
+      createRole = mockCreateRole;
+      updateRole = mockUpdateRole;
+      deleteRole = mockDeleteRole;
+    },
+  };
+});
+
+vi.mock('../../../src/core/auth/role-access.service.js', () => ({
+  roleAccessService: {
+    getRoleAccess: (dynaRole: string | null) => mockGetRoleAccess(dynaRole),
+  },
+}));
+
+// Mock middleware - allow all by default
+vi.mock('../../../src/core/middleware/authenticate.js', () => ({
+  authenticate: vi.fn(async (request: { user?: unknown }) => {
+    request.user = { id: 'user-1', email: 'test@test.com', emailVerified: true, dynaRole: mockDynaRole };
+  }),
+}));
+
+vi.mock('../../../src/core/middleware/authorize.js', () => ({
+  requireAdmin: vi.fn(async () => {}),
+  requireSuperadmin: vi.fn(async () => {}),
+}));
+
+const ROLE_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+const mockRole = {
+  id: ROLE_ID,
+  key: 'MANAGER_DISTRIBUTION',
+  label: 'Distribución',
+  fullAccess: false,
+  paths: ['/distribucion/regionales'],
+  dataFilters: { channel: ['DISTRIBUCION'] },
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+};
+
+describe('Roles Routes', () => {
+  let app: Awaited<ReturnType<typeof Fastify>>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockDynaRole = null;
+    app = Fastify({ logger: false });
+    setupErrorHandler(app);
+    await rolesRoutes(app);
+    await app.ready();
+  });
+
+  describe('GET /roles', () => {
+    it('should return all roles', async () => {
+      mockListRoles.mockResolvedValue([mockRole]);
+
+      const response = await app.inject({ method: 'GET', url: '/roles' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ data: [mockRole] });
+    });
+  });
+
+  describe('GET /roles/:id', () => {
+    it('should return role when found', async () => {
+      mockGetRoleById.mockResolvedValue(mockRole);
+
+      const response = await app.inject({ method: 'GET', url: `/roles/${ROLE_ID}` });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual(mockRole);
+      expect(mockGetRoleById).toHaveBeenCalledWith(ROLE_ID);
+    });
+
+    it('should return 404 when role not found', async () => {
+      mockGetRoleById.mockResolvedValue(null);
+
+      const response = await app.inject({ method: 'GET', url: `/roles/${ROLE_ID}` });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /roles', () => {
+    it('should create role', async () => {
+      mockGetRoleByKey.mockResolvedValue(null);
+      mockCreateRole.mockResolvedValue(mockRole);
+
+      const body = {
+        key: 'MANAGER_DISTRIBUTION',
+        label: 'Distribución',
+        paths: ['/distribucion/regionales'],
+        dataFilters: { channel: ['DISTRIBUCION'] },
+      };
+
+      const response = await app.inject({ method: 'POST', url: '/roles', payload: body });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json()).toEqual(mockRole);
+      expect(mockCreateRole).toHaveBeenCalledWith(body);
+    });
+
+    it('should return 400 when key already exists', async () => {
+      mockGetRoleByKey.mockResolvedValue(mockRole);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/roles',
+        payload: { key: 'MANAGER_DISTRIBUTION' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toEqual({ error: 'Role with this key already exists' });
+      expect(mockCreateRole).not.toHaveBeenCalled();
+    });
+
+    it('should validate key format', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/roles',
+        payload: { key: 'not a role' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockCreateRole).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /roles/:id', () => {
+    it('should update role', async () => {
+      const updated = { ...mockRole, dataFilters: { channel: ['CADENAS'] } };
+      mockUpdateRole.mockResolvedValue(updated);
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/roles/${ROLE_ID}`,
+        payload: { dataFilters: { channel: ['CADENAS'] } },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual(updated);
+      expect(mockUpdateRole).toHaveBeenCalledWith(ROLE_ID, { dataFilters: { channel: ['CADENAS'] } });
+    });
+
+    it('should return 404 when role not found', async () => {
+      mockUpdateRole.mockResolvedValue(null);
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/roles/${ROLE_ID}`,
+        payload: { label: 'X' },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /roles/:id', () => {
+    it('should delete role', async () => {
+      mockDeleteRole.mockResolvedValue(true);
+
+      const response = await app.inject({ method: 'DELETE', url: `/roles/${ROLE_ID}` });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ success: true, message: 'Role deleted successfully' });
+    });
+
+    it('should return 404 when role not found', async () => {
+      mockDeleteRole.mockResolvedValue(false);
+
+      const response = await app.inject({ method: 'DELETE', url: `/roles/${ROLE_ID}` });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('GET /me/access', () => {
+    it('should return the access of the session role', async () => {
+      mockDynaRole = 'MANAGER_DISTRIBUTION';
+      const access = {
+        role: 'MANAGER_DISTRIBUTION',
+        label: 'Distribución',
+        fullAccess: false,
+        paths: ['/distribucion/regionales'],
+        dataFilters: { channel: ['DISTRIBUCION'] },
+      };
+      mockGetRoleAccess.mockResolvedValue(access);
+
+      const response = await app.inject({ method: 'GET', url: '/me/access' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual(access);
+      expect(mockGetRoleAccess).toHaveBeenCalledWith('MANAGER_DISTRIBUTION');
+    });
+
+    it('should return no access for unknown roles', async () => {
+      mockDynaRole = 'SOMETHING_ELSE';
+      mockGetRoleAccess.mockResolvedValue(null);
+
+      const response = await app.inject({ method: 'GET', url: '/me/access' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({
+        role: 'SOMETHING_ELSE',
+        label: null,
+        fullAccess: false,
+        paths: [],
+        dataFilters: {},
+      });
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RolesService } from '../../../src/features/roles/roles.service.js';
+
+// Mock functions defined outside
+const mockSelect = vi.fn();
+const mockDelete = vi.fn();
+const mockTransaction = vi.fn();
+const mockClearCache = vi.fn();
+
+vi.mock('../../../src/core/db/postgres/client.js', () => {
+  return {
+    db: {
+      select: () => mockSelect(),
+      delete: () => mockDelete(),
+      transaction: (fn: unknown) => mockTransaction(fn),
+    },
+  };
+});
+
+vi.mock('../../../src/core/auth/role-access.service.js', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../../src/core/auth/role-access.service.js')>();
+  return {
+    groupDataFilters: original.groupDataFilters,
+    roleAccessService: { clearCache: () => mockClearCache() },
+  };
+});
+
+const role = {
+  id: 'role-1',
+  key: 'MANAGER_DISTRIBUTION',
+  label: 'Distribución',
+  fullAccess: false,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+};
+
+describe('RolesService', () => {
+  let service: RolesService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new RolesService();
+  });
+
+  describe('listRoles', () => {
+    it('should attach paths and grouped data filters to each role', async () => {
+      mockSelect
+        .mockReturnValueOnce({
+          from: vi.fn().mockReturnValue({ orderBy: vi.fn().mockResolvedValue([role]) }),
+        })
+        .mockReturnValueOnce({
+          from: vi.fn().mockReturnValue({
+            where: vi.fn().mockResolvedValue([{ roleId: 'role-1', path: '/distribucion/marcas' }]),
+          }),
+        })
+        .mockReturnValueOnce({
+          from: vi.fn().mockReturnValue({
+            where: vi.fn().mockResolvedValue([
+              { roleId: 'role-1', field: 'channel', value: 'DISTRIBUCION' },
+              { roleId: 'role-1', field: 'IdRegional', value: 'R01' },
+              { roleId: 'role-1', field: 'IdRegional', value: 'R02' },
+            ]),
+          }),
+        });
+
+      const result = await service.listRoles();
+
+      expect(result).toEqual([
+        {
+          ...role,
+          paths: ['/distribucion/marcas'],
+          dataFilters: { channel: ['DISTRIBUCION'], IdRegional: ['R01', 'R02'] },
+        },
+      ]);
+    });
+
+    it('should not query rules when there are no roles', async () => {
+      mockSelect.mockReturnValueOnce({
+        from: vi.fn().mockReturnValue({ orderBy: vi.fn().mockResolvedValue([]) }),
+      });
+
+      const result = await service.listRoles();
+
+      expect(result).toEqual([]);
+      expect(mockSelect).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getRoleById', () => {
+    it('should return null when role not found', async () => {
+      mockSelect.mockReturnValueOnce({
+        from: vi.fn().mockReturnValue({
+          where: vi.fn().mockReturnValue({ limit: vi.fn().mockResolvedValue([]) }),
+        }),
+      });
+
+      const result = await service.getRoleById('missing');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('createRole', () => {
+    it('should reject data filters on invalid fields', async () => {
+      await expect(
+        service.createRole({ key: 'BAD', dataFilters: { 'channel; DROP': ['X'] } })
+      ).rejects.toThrow('Invalid data filter field: channel; DROP');
+      expect(mockTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateRole', () => {
+    it('should return null and keep the cache when role not found', async () => {
+      mockTransaction.mockResolvedValue(null);
+
+      const result = await service.updateRole('missing', { label: 'X' });
+
+      expect(result).toBeNull();
+      expect(mockClearCache).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteRole', () => {
+    it('should delete role and clear the access cache', async () => {
+      mockDelete.mockReturnValue({
+        where: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([role]) }),
+      });
+
+      const result = await service.deleteRole('role-1');
+
+      expect(result).toBe(true);
+      expect(mockClearCache).toHaveBeenCalled();
+    });
+
+    it('should return false when role not found', async () => {
+      mockDelete.mockReturnValue({
+        where: vi.fn().mockReturnValue({ returning: vi.fn().mockResolvedValue([]) }),
+      });
+
+      const result = await service.deleteRole('missing');
+
+      expect(result).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Fastify from 'fastify';
+import { savedViewsRoutes } from '../../../src/features/saved-views/saved-views.routes.js';
+import { setupErrorHandler } from '../../../src/core/errors/error-handler.js';
+import { ValidationError } from '../../../src/core/errors/app-error.js';
+
+const mockListVisible = vi.fn();
+const mockGetVisible = vi.fn();
+const mockCreate = vi.fn();
+const mockUpdate = vi.fn();
+const mockDelete = vi.fn();
+
+vi.mock('../../../src/features/saved-views/saved-views.service.js', () => {
+  return {
+    SavedViewsService: class {
+      listVisible = mockListVisible;
+      getVisible = mockGetVisible;
+      create = mockCreate;
+      update = mockUpdate;
+      delete = mockDelete;
+    },
+  };
+});
+
+vi.mock('../../../src/core/middleware/authenticate.js', () => ({
+  authenticate: vi.fn(async (request: { user?: unknown }) => {
+    request.user = { id: 'user-1', email: 'test@test.com', emailVerified: true, dynaRole: 'MANAGER_DISTRIBUTION' };
+  }),
+}));
+
+const viewId = '3c6f8a52-2d1b-4f7e-8a9c-5b0d1e2f3a4b';
+
+const state = {
+  preset: 'current-month',
+  filters: { Marca: [{ id: '01', name: 'Dyna' }] },
+  groupBy: ['seller_id'],
+  sortKey: 'budget',
+  sortDirection: 'asc',
+};
+
+const view = {
+  id: viewId,
+  name: 'Clientes Dyna del mes',
+  visibility: 'team',
+  route: '/distribucion/clientes',
+  state,
+  owned: true,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('Saved Views Routes', () => {
+  let app: Awaited<ReturnType<typeof Fastify>>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    app = Fastify({ logger: false });
+    setupErrorHandler(app);
+    savedViewsRoutes(app);
+    await app.ready();
+  });
+
+  describe('GET /saved-views', () => {
+    it('should list the views visible to the session user', async () => {
+      mockListVisible.mockResolvedValue([view]);
+
+      const response = await app.inject({ method: 'GET', url: '/saved-views' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ data: [view] });
+      expect(mockListVisible).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1', dynaRole: 'MANAGER_DISTRIBUTION' }), undefined);
+    });
+
+    it('should filter by page route', async () => {
+      mockListVisible.mockResolvedValue([]);
+
+      const response = await app.inject({ method: 'GET', url: '/saved-views?route=/distribucion/clientes' });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockListVisible).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }), '/distribucion/clientes');
+    });
+  });
+
+  describe('GET /saved-views/:id', () => {
+    it('should return a visible view', async () => {
+      mockGetVisible.mockResolvedValue({ ...view, owned: false });
+
+      const response = await app.inject({ method: 'GET', url: `/saved-views/${viewId}` });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().owned).toBe(false);
+    });
+
+    it('should return 404 for private views of other users', async () => {
+      mockGetVisible.mockResolvedValue(null);
+
+      const response = await app.inject({ method: 'GET', url: `/saved-views/${viewId}` });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /saved-views', () => {
+    const body = { name: view.name, visibility: 'team', route: view.route, state };
+
+    it('should save the view for the session user', async () => {
+      mockCreate.mockResolvedValue(view);
+
+      const response = await app.inject({ method: 'POST', url: '/saved-views', payload: body });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json()).toEqual(view);
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }), body);
+    });
+
+    it('should accept a year or a custom range as date preset', async () => {
+      mockCreate.mockResolvedValue(view);
+
+      const year = await app.inject({ method: 'POST', url: '/saved-views', payload: { ...body, state: { preset: 2025 } } });
+      const custom = await app.inject({
+        method: 'POST',
+        url: '/saved-views',
+        payload: { ...body, state: { preset: 'custom', startDate: '2025-03-01', endDate: '2025-03-31' } },
+      });
+
+      expect(year.statusCode).toBe(201);
+      expect(custom.statusCode).toBe(201);
+    });
+
+    it('should return 400 when the state is inconsistent', async () => {
+      mockCreate.mockRejectedValue(new ValidationError('A custom date range needs startDate and endDate'));
+
+      const response = await app.inject({ method: 'POST', url: '/saved-views', payload: { ...body, state: { preset: 'custom' } } });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().detail).toContain('custom date range');
+    });
+
+    it('should reject routes with a query string', async () => {
+      const response = await app.inject({ method: 'POST', url: '/saved-views', payload: { ...body, route: '/distribucion/clientes?preset=2025' } });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown date presets', async () => {
+      const response = await app.inject({ method: 'POST', url: '/saved-views', payload: { ...body, state: { preset: 'next-year' } } });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /saved-views/:id', () => {
+    it('should update an owned view', async () => {
+      mockUpdate.mockResolvedValue({ ...view, visibility: 'private' });
+
+      const response = await app.inject({ method: 'PATCH', url: `/saved-views/${viewId}`, payload: { visibility: 'private' } });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().visibility).toBe('private');
+      expect(mockUpdate).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }), viewId, { visibility: 'private' });
+    });
+
+    it('should return 404 for views of other users', async () => {
+      mockUpdate.mockResolvedValue(null);
+
+      const response = await app.inject({ method: 'PATCH', url: `/saved-views/${viewId}`, payload: { name: 'x' } });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /saved-views/:id', () => {
+    it('should delete an owned view', async () => {
+      mockDelete.mockResolvedValue(true);
+
+      const response = await app.inject({ method: 'DELETE', url: `/saved-views/${viewId}` });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().success).toBe(true);
+    });
+
+    it('should return 404 when nothing was deleted', async () => {
+      mockDelete.mockResolvedValue(false);
+
+      const response = await app.inject({ method: 'DELETE', url: `/saved-views/${viewId}` });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { validateSavedViewState } from '../../../src/features/saved-views/saved-views.state.js';
+import { ValidationError } from '../../../src/core/errors/app-error.js';
+
+describe('validateSavedViewState', () => {
+  it('should accept a complete view state', () => {
+    expect(() => validateSavedViewState({
+      preset: 'custom',
+      startDate: '2025-01-01',
+      endDate: '2025-03-31',
+      compareMode: 'previous_period',
+      filters: { Marca: [{ id: '01', name: 'Dyna' }] },
+      groupBy: ['seller_id', 'Marca'],
+      search: 'exito',
+      sortKey: 'sales',
+      sortDirection: 'desc',
+      page: 2,
+    })).not.toThrow();
+  });
+
+  it('should require both dates of a custom range', () => {
+    expect(() => validateSavedViewState({ preset: 'custom', startDate: '2025-01-01' })).toThrow(ValidationError);
+    expect(() => validateSavedViewState({ compareMode: 'custom', compareEndDate: '2024-01-31' })).toThrow(ValidationError);
+  });
+
+  it('should reject ranges that end before they start', () => {
+    expect(() => validateSavedViewState({ preset: 'custom', startDate: '2025-03-01', endDate: '2025-01-01' }))
+      .toThrow('starts after it ends');
+  });
+
+  it('should reject reserved parameters as filters', () => {
+    expect(() => validateSavedViewState({ filters: { startDate: [{ id: '2025-01-01', name: '' }] } }))
+      .toThrow('Not a filter: startDate');
+  });
+
+  it('should reject unknown or repeated nested dimensions', () => {
+    expect(() => validateSavedViewState({ groupBy: ['not_a_dimension'] })).toThrow(ValidationError);
+    expect(() => validateSavedViewState({ groupBy: ['seller_id', 'seller_id'] })).toThrow('must not repeat');
+  });
+});
@@ -11,6 +11,8 @@ const mockCreateUser = vi.fn();
 const mockUpdateUser = vi.fn();
 const mockDeleteUser = vi.fn();
 const mockPermanentlyDeleteUser = vi.fn();
+const mockGetUserEntitlements = vi.fn();
+const mockSetUserEntitlements = vi.fn();
 
 vi.mock('../../../src/features/users/users.service.js', () => {
   return {
@@ -22,6 +24,8 @@ vi.mock('../../../src/features/users/users.service.js', () => {
       updateUser = mockUpdateUser;
       deleteUser = mockDeleteUser;
       permanentlyDeleteUser = mockPermanentlyDeleteUser;
+      getUserEntitlements = mockGetUserEntitlements;
+      setUserEntitlements = mockSetUserEntitlements;
     },
   };
 });
@@ -119,6 +123,7 @@ describe('Users Routes', () => {
       };
 
       mockGetUserById.mockResolvedValue(mockUser);
+      mockGetUserEntitlements.mockResolvedValue({ IdRegional: ['R01'] });
 
       const response = await app.inject({
         method: 'GET',
@@ -126,7 +131,8 @@ describe('Users Routes', () => {
       });
 
       expect(response.statusCode).toBe(200);
-      expect(response.json()).toEqual(mockUser);
+      expect(response.json()).toEqual({ ...mockUser, entitlements: { IdRegional: ['R01'] } });
+      expect(mockGetUserEntitlements).toHaveBeenCalledWith(userId);
     });
 
     it.skip('should return 404 when user not found', async () => {
@@ -222,6 +228,7 @@ describe('Users Routes', () => {
       };
 
       mockUpdateUser.mockResolvedValue(updatedUser);
+      mockGetUserEntitlements.mockResolvedValue({});
 
       const response = await app.inject({
         method: 'PATCH',
@@ -230,8 +237,50 @@ describe('Users Routes', () => {
       });
 
       expect(response.statusCode).toBe(200);
-      expect(response.json()).toEqual(updatedUser);
+      expect(response.json()).toEqual({ ...updatedUser, entitlements: {} });
       expect(mockUpdateUser).toHaveBeenCalledWith(userId, updateData);
+      expect(mockSetUserEntitlements).not.toHaveBeenCalled();
+    });
+
+    it('should replace entitlements when provided', async () => {
+      const userId = '550e8400-e29b-41d4-a716-446655440000';
+      const entitlements = { seller_id: ['S01'], ProveedorComercial: ['P1', 'P2'] };
+
+      const updatedUser = {
+        id: userId,
+        email: 'test@example.com',
+        name: 'Seller',
+        role: 'user',
+        isActive: true,
+        emailVerified: true,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-02T00:00:00.000Z',
+      };
+
+      mockUpdateUser.mockResolvedValue(updatedUser);
+      mockSetUserEntitlements.mockResolvedValue(entitlements);
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/users/${userId}`,
+        payload: { entitlements },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ ...updatedUser, entitlements });
+      expect(mockUpdateUser).toHaveBeenCalledWith(userId, {});
+      expect(mockSetUserEntitlements).toHaveBeenCalledWith(userId, entitlements);
+    });
+
+    it('should reject entitlements on other dimensions', async () => {
+      const response = await app.inject({
+        method: 'PATCH',
+        url: '/users/550e8400-e29b-41d4-a716-446655440000',
+        payload: { entitlements: { channel: ['CADENAS'] } },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockUpdateUser).not.toHaveBeenCalled();
     });
 
     it.skip('should return 404 when user not found', async () => {
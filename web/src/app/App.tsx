@@ -5,7 +5,7 @@ import { Toaster } from 'sonner';
 import { LoginPage } from '@/features/auth/pages/LoginPage';
 import { CodeVerifyPage } from '@/features/auth/pages/CodeVerifyPage';
 import { DashboardPage } from '@/features/dashboard/pages/DashboardPage';
-import { FestivalVirtualPage } from '@/features/festival/pages/FestivalVirtualPage';
+import { CampaignPage } from '@/features/campaigns/pages/CampaignPage';
 import { MaintenancePage } from '@/features/dashboard/pages/MaintenancePage';
 import { EjemploPage } from '@/features/dashboard/pages/EjemploPage';
 import { DistributionPage } from '@/features/distribution/pages/DistributionPage';
@@ -26,6 +26,7 @@ import { ClientesPage } from '@/features/clientes/pages/ClientesPage';
 import { GmroiPage } from '@/features/gmroi/pages/GmroiPage';
 import { VeraPage } from '@/features/vera/pages/VeraPage';
 import { SettingsPage } from '@/features/settings/pages/SettingsPage';
+import { DescargasPage } from '@/features/descargas/pages/DescargasPage';
 import { AppLayout } from '@/core/layouts/AppLayout';
 import { RouteGuard } from '@/core/router/RouteGuard';
 import { AuthProvider } from '@/core/router/AuthProvider';
@@ -73,15 +74,16 @@ function App() {
               }
             />
             <Route
-              path="/festival-virtual"
+              path="/campaigns/:key"
               element={
                 <RouteGuard requireAuth={true}>
                   <AppLayout>
-                    <FestivalVirtualPage />
+                    <CampaignPage />
                   </AppLayout>
                 </RouteGuard>
               }
             />
+            <Route path="/festival-virtual" element={<Navigate to="/campaigns/festival" replace />} />
             <Route
               path="/canales/distribucion"
               element={
@@ -282,6 +284,16 @@ function App() {
                 </RouteGuard>
               }
             />
+            <Route
+              path="/descargas"
+              element={
+                <RouteGuard requireAuth={true}>
+                  <AppLayout>
+                    <DescargasPage />
+                  </AppLayout>
+                </RouteGuard>
+              }
+            />
             <Route path="/" element={<Navigate to="/dashboard" replace />} />
           </Routes>
         </AuthProvider>
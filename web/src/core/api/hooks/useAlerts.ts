@@ -0,0 +1,46 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '../client';
+import { useAuthStore } from '@/core/store/authStore';
+import type { AlertInboxResponse } from '../types';
+
+const ALERT_INBOX_KEY = 'alert-inbox';
+
+/**
+ * Alerts inbox of the session user: latest notifications of their KPI alert
+ * rules and the unread count. Polled, since rules are evaluated server-side.
+ */
+export function useAlertInbox() {
+  const userId = useAuthStore((s) => s.user?.id);
+
+  return useQuery({
+    queryKey: [ALERT_INBOX_KEY, userId],
+    queryFn: () => apiClient<AlertInboxResponse>('/api/alerts/events?limit=20'),
+    enabled: !!userId,
+    staleTime: 1000 * 60, // 1 minute
+    refetchInterval: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+/**
+ * Mark one or every alert of the inbox as read
+ */
+export function useAlertInboxMutations() {
+  const queryClient = useQueryClient();
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: [ALERT_INBOX_KEY] });
+  };
+
+  const markRead = useMutation({
+    mutationFn: (id: string) =>
+      apiClient<{ success: boolean }>(`/api/alerts/events/${id}/read`, { method: 'POST', body: JSON.stringify({}) }),
+    onSuccess,
+  });
+
+  const markAllRead = useMutation({
+    mutationFn: () =>
+      apiClient<{ updated: number }>('/api/alerts/events/read', { method: 'POST', body: JSON.stringify({}) }),
+    onSuccess,
+  });
+
+  return { markRead, markAllRead };
+}
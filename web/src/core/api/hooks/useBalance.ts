@@ -2,14 +2,15 @@ import { useQuery } from '@tanstack/react-query';
 import { format } from 'date-fns';
 import { apiClient } from '../client';
 import { usesFacturadoOnly, type SalesMetricPreset } from '@/core/utils/salesMetric';
-import { useAuthStore } from '@/core/store/authStore';
-import { getRoleDataFilter } from '@/core/config/access';
-import type { BalanceSheetResponse, BalanceQueryParams } from '../types';
+import { appendComparisonParams } from '@/core/utils/comparisonPeriod';
+import type { BalanceSheetResponse, BalanceQueryParams, ComparisonParams, ProjectionMethod } from '../types';
 
 async function fetchBalance(
   params: BalanceQueryParams,
   facturadoOnly: boolean,
-  filters?: Record<string, any>
+  filters?: Record<string, any>,
+  comparison?: ComparisonParams,
+  projection?: ProjectionMethod
 ): Promise<BalanceSheetResponse> {
   const queryParams = new URLSearchParams();
 
@@ -26,6 +27,14 @@ async function fetchBalance(
     queryParams.append('facturadoOnly', 'true');
   }
 
+  // Comparison period for the *_last_year values (default: previous year)
+  appendComparisonParams(queryParams, comparison);
+
+  // End-of-month projection (projected_close, projected_gap, required_daily_sales)
+  if (projection) {
+    queryParams.append('projection', projection);
+  }
+
   // Add additional filters
   if (filters) {
     Object.entries(filters).forEach(([key, value]) => {
@@ -46,7 +55,9 @@ export function useBalance(
   startDate: Date,
   endDate: Date,
   preset: SalesMetricPreset,
-  filters?: Record<string, any>
+  filters?: Record<string, any>,
+  comparison?: ComparisonParams,
+  projection?: ProjectionMethod
 ) {
   const params: BalanceQueryParams = {
     startDate: format(startDate, 'yyyy-MM-dd'),
@@ -54,14 +65,9 @@ export function useBalance(
   };
   const facturadoOnly = usesFacturadoOnly(preset);
 
-  // Channel roles get their data filtered by channel automatically
-  const dynaRole = useAuthStore((s) => s.user?.dynaRole);
-  const roleFilter = getRoleDataFilter(dynaRole);
-  const mergedFilters = roleFilter ? { ...filters, ...roleFilter } : filters;
-
   return useQuery({
-    queryKey: ['balance', params.startDate, params.endDate, facturadoOnly, mergedFilters],
-    queryFn: () => fetchBalance(params, facturadoOnly, mergedFilters),
+    queryKey: ['balance', params.startDate, params.endDate, facturadoOnly, filters, comparison, projection],
+    queryFn: () => fetchBalance(params, facturadoOnly, filters, comparison, projection),
     staleTime: 1000 * 60 * 5, // 5 minutes
     refetchOnWindowFocus: false,
   });
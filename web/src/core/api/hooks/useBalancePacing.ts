@@ -0,0 +1,44 @@
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { apiClient } from '../client';
+import type { BalancePacingResponse, ComparisonParams, PacingAlignment } from '../types';
+
+async function fetchBalancePacing(
+  startDate: string,
+  endDate: string,
+  compare: NonNullable<ComparisonParams['compareMode']>[],
+  align: PacingAlignment,
+  filters?: Record<string, string>
+): Promise<BalancePacingResponse> {
+  const queryParams = new URLSearchParams({ startDate, endDate, compare: compare.join(','), align });
+
+  if (filters) {
+    Object.entries(filters).forEach(([key, value]) => queryParams.append(key, value));
+  }
+
+  return apiClient<BalancePacingResponse>(`/api/balance/pacing?${queryParams.toString()}`);
+}
+
+/**
+ * Cumulative sales per day index of a period against its comparison periods
+ * (see /balance/pacing). Disabled while `enabled` is false.
+ */
+export function useBalancePacing(
+  startDate: Date,
+  endDate: Date,
+  compare: NonNullable<ComparisonParams['compareMode']>[],
+  filters?: Record<string, string>,
+  align: PacingAlignment = 'business_day',
+  enabled = true
+) {
+  const start = format(startDate, 'yyyy-MM-dd');
+  const end = format(endDate, 'yyyy-MM-dd');
+
+  return useQuery({
+    queryKey: ['balance-pacing', start, end, compare, align, filters],
+    queryFn: () => fetchBalancePacing(start, end, compare, align, filters),
+    enabled,
+    staleTime: 1000 * 60 * 5,
+    refetchOnWindowFocus: false,
+  });
+}
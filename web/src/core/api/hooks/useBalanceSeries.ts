@@ -1,18 +1,21 @@
 import { useQuery } from '@tanstack/react-query';
 import { format } from 'date-fns';
 import { apiClient } from '../client';
-import { useAuthStore } from '@/core/store/authStore';
-import { getRoleDataFilter } from '@/core/config/access';
-import type { BalanceSeriesResponse } from '../types';
+import type { BalanceSeriesOptions, BalanceSeriesResponse, SeriesGranularity } from '../types';
 
 async function fetchBalanceSeries(
   startDate: string,
   endDate: string,
-  granularity: 'day' | 'month',
-  filters?: Record<string, string>
+  granularity: SeriesGranularity,
+  filters?: Record<string, string>,
+  options?: BalanceSeriesOptions
 ): Promise<BalanceSeriesResponse> {
   const queryParams = new URLSearchParams({ startDate, endDate, granularity });
 
+  if (options?.metrics?.length) queryParams.append('metrics', options.metrics.join(','));
+  if (options?.transform) queryParams.append('transform', options.transform);
+  if (options?.lastYear) queryParams.append('lastYear', options.lastYear);
+
   if (filters) {
     Object.entries(filters).forEach(([key, value]) => queryParams.append(key, value));
   }
@@ -20,23 +23,23 @@ async function fetchBalanceSeries(
   return apiClient<BalanceSeriesResponse>(`/api/balance/series?${queryParams.toString()}`);
 }
 
+/**
+ * Metrics per period. `options` picks the metrics, a cumulative / rolling
+ * transform and the aligned last-year series (see /balance/series).
+ */
 export function useBalanceSeries(
   startDate: Date,
   endDate: Date,
-  granularity: 'day' | 'month',
-  filters?: Record<string, string>
+  granularity: SeriesGranularity,
+  filters?: Record<string, string>,
+  options?: BalanceSeriesOptions
 ) {
   const start = format(startDate, 'yyyy-MM-dd');
   const end = format(endDate, 'yyyy-MM-dd');
 
-  // Channel roles get their series filtered by channel automatically
-  const dynaRole = useAuthStore((s) => s.user?.dynaRole);
-  const roleFilter = getRoleDataFilter(dynaRole);
-  const mergedFilters = roleFilter ? { ...filters, ...roleFilter } : filters;
-
   return useQuery({
-    queryKey: ['balance-series', start, end, granularity, mergedFilters],
-    queryFn: () => fetchBalanceSeries(start, end, granularity, mergedFilters),
+    queryKey: ['balance-series', start, end, granularity, filters, options],
+    queryFn: () => fetchBalanceSeries(start, end, granularity, filters, options),
     staleTime: 1000 * 60 * 5,
     refetchOnWindowFocus: false,
   });
@@ -0,0 +1,58 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '../client';
+import { useAuthStore } from '@/core/store/authStore';
+import type {
+  CustomMetric,
+  CustomMetricsResponse,
+  CreateCustomMetricRequest,
+  UpdateCustomMetricRequest,
+} from '../types';
+
+const CUSTOM_METRICS_KEY = 'custom-metrics';
+
+/**
+ * Custom metrics visible to the session user: their own and those shared with
+ * their team (Dyna role)
+ */
+export function useCustomMetrics() {
+  const userId = useAuthStore((s) => s.user?.id);
+
+  return useQuery({
+    queryKey: [CUSTOM_METRICS_KEY, userId],
+    queryFn: () => apiClient<CustomMetricsResponse>('/api/custom-metrics'),
+    enabled: !!userId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Create, update and delete the session user's custom metrics.
+ * Edits refetch the metric list and the list rows that may include them.
+ */
+export function useCustomMetricMutations() {
+  const queryClient = useQueryClient();
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: [CUSTOM_METRICS_KEY] });
+    queryClient.invalidateQueries({ queryKey: ['list'] });
+  };
+
+  const create = useMutation({
+    mutationFn: (body: CreateCustomMetricRequest) =>
+      apiClient<CustomMetric>('/api/custom-metrics', { method: 'POST', body: JSON.stringify(body) }),
+    onSuccess,
+  });
+
+  const update = useMutation({
+    mutationFn: ({ id, body }: { id: string; body: UpdateCustomMetricRequest }) =>
+      apiClient<CustomMetric>(`/api/custom-metrics/${id}`, { method: 'PATCH', body: JSON.stringify(body) }),
+    onSuccess,
+  });
+
+  const remove = useMutation({
+    mutationFn: (id: string) => apiClient<{ success: boolean }>(`/api/custom-metrics/${id}`, { method: 'DELETE' }),
+    onSuccess,
+  });
+
+  return { create, update, remove };
+}
@@ -1,32 +1,75 @@
 import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { apiClient } from '../client';
 import { useDateRange } from '@/core/hooks/useDateRange';
-import { useList, type GroupByDimension } from './useList';
+import type { GroupByDimension } from './useList';
+import type { LabelValue, LabelsResponse } from '../types';
 
 export interface DimensionValue {
   id: string;
   name: string;
 }
 
+/** Options listed by the value picker */
+const VALUE_LIMIT = 100;
+
+/**
+ * Whether a value passes the context filters set on its own dimension
+ * (`dim=a,b` or `dim[neq][]=a`). The labels endpoint ignores filters on the
+ * dimension it lists, but a page context (e.g. the brands providers) must
+ * still bound its options.
+ */
+function inContext(dimension: string, contextFilters: Record<string, unknown> | undefined, id: string): boolean {
+  for (const [key, value] of Object.entries(contextFilters ?? {})) {
+    const ids = (Array.isArray(value) ? value : [value]).map(String);
+    if (key === dimension && !ids.includes(id)) return false;
+    if (key.startsWith(`${dimension}[neq]`) && ids.includes(id)) return false;
+  }
+  return true;
+}
+
 /**
- * Distinct values (id + name) of a dimension for the faceted filter multiselect.
- * Reuses the grouped list endpoint: it returns { id, name } per value, already
- * scoped by the context filters (e.g. channel) and searchable server-side, and
- * ordered by sales so the most relevant values come first.
+ * Distinct values (id + name, with their rows and sales) of a dimension for
+ * the faceted filter multiselect. Read from /api/labels under the date range,
+ * the context filters (e.g. channel) and the other applied filters, so only
+ * reachable values are listed; searched server-side (best matches first) and
+ * ordered by sales.
  *
  * Mount this hook only while the value picker is open (fetches on mount).
+ *
+ * @param otherFilters - Applied filters of the other dimensions (dimension → ids)
  */
 export function useDimensionValues(
   dimension: GroupByDimension,
   contextFilters: Record<string, any> | undefined,
-  search: string
+  search: string,
+  otherFilters: Record<string, string[]> = {}
 ) {
-  const { startDate, endDate, preset } = useDateRange();
+  const { startDate, endDate } = useDateRange();
+  const start = startDate && format(startDate, 'yyyy-MM-dd');
+  const end = endDate && format(endDate, 'yyyy-MM-dd');
+  const trimmedSearch = search.trim();
 
-  const query = useList(dimension, startDate, endDate, preset, contextFilters, 1, 100, search);
+  const query = useQuery({
+    queryKey: ['dimension-values', dimension, start, end, contextFilters, otherFilters, trimmedSearch],
+    queryFn: () => {
+      const params = new URLSearchParams({ column: dimension, orderBy: 'sales', limit: String(VALUE_LIMIT) });
+      if (start) params.append('startDate', start);
+      if (end) params.append('endDate', end);
+      if (trimmedSearch) params.append('search', trimmedSearch);
+      for (const [key, value] of Object.entries({ ...contextFilters, ...otherFilters })) {
+        (Array.isArray(value) ? value : [value]).forEach((v) => params.append(key, String(v)));
+      }
+      return apiClient<LabelsResponse>(`/api/labels?${params.toString()}`);
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
 
-  const values: DimensionValue[] = useMemo(
-    () => (query.data?.data ?? []).map((r) => ({ id: r.id, name: r.name })),
-    [query.data]
+  const values: LabelValue[] = useMemo(
+    () => (query.data?.data ?? []).filter((v) => inContext(dimension, contextFilters, v.id)),
+    [query.data, dimension, contextFilters]
   );
 
   return { values, isLoading: query.isLoading };
@@ -0,0 +1,41 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '../client';
+import { useAuthStore } from '@/core/store/authStore';
+import { isExportPending } from '@/core/utils/exportJobs';
+import type { ExportJob, ExportJobsResponse, CreateExportJobRequest } from '../types';
+
+const EXPORT_JOBS_KEY = 'export-jobs';
+
+/** Polling interval while an export is queued or running */
+const PENDING_POLL_MS = 3000;
+
+/**
+ * Latest background exports of the session user (download history). Polled
+ * while one of them is queued or running.
+ */
+export function useExportJobs() {
+  const userId = useAuthStore((s) => s.user?.id);
+
+  return useQuery({
+    queryKey: [EXPORT_JOBS_KEY, userId],
+    queryFn: () => apiClient<ExportJobsResponse>('/api/exports'),
+    enabled: !!userId,
+    staleTime: 1000 * 60, // 1 minute
+    refetchInterval: (query) => (query.state.data?.data.some(isExportPending) ? PENDING_POLL_MS : false),
+  });
+}
+
+/**
+ * Queue an export to be built in the background
+ */
+export function useCreateExportJob() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (body: CreateExportJobRequest) =>
+      apiClient<ExportJob>('/api/exports', { method: 'POST', body: JSON.stringify(body) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [EXPORT_JOBS_KEY] });
+    },
+  });
+}
@@ -1,9 +1,9 @@
 import { useQuery } from '@tanstack/react-query';
 import { format } from 'date-fns';
 import { apiClient } from '../client';
+import { appendComparisonParams } from '@/core/utils/comparisonPeriod';
+import type { ComparisonParams, ComparisonPeriod } from '../types';
 import { getSalesOrderByField, usesFacturadoOnly, type SalesMetricPreset } from '@/core/utils/salesMetric';
-import { useAuthStore } from '@/core/store/authStore';
-import { getRoleDataFilter } from '@/core/config/access';
 
 export type GroupByDimension = 'seller_id' | 'IdRegional' | 'customer_id' | 'customer_name' | 'customer_country' | 'product_id' | 'ProveedorComercial' | 'Marca' | 'SegmentacionCliente' | 'SegmentacionProducto' | 'CentroOperaciones' | 'customer_city' | 'customer_department' | 'ClasifRiesgo' | 'Categoria' | 'SubCategoria' | 'FamiliaProducto' | 'Linea' | 'month' | 'quarter' | 'year';
 
@@ -39,17 +39,34 @@ export interface ListItemResponse {
   gross_margin_pct_last_year: number;
   gross_margin_pct_vs_last_year: number;
   cartera_compliance_pct: number;
+  /** Requested custom metrics (custom_<key>) */
+  [customField: `custom_${string}`]: number | null;
+  /** Hierarchical lists: first child rows at the next dimension */
+  children?: ListItemResponse[];
+  /** Hierarchical lists: total child rows at the next dimension */
+  childCount?: number;
+}
+
+/** Nested dimensions under groupBy (outermost first, at most 2) and children per parent */
+export interface ListHierarchy {
+  dimensions: GroupByDimension[];
+  childLimit: number;
 }
 
 export interface ListResponse {
   data: ListItemResponse[];
   meta: {
     groupBy: string;
+    /** Hierarchical lists: all dimensions, outermost first */
+    dimensions?: string[];
+    childLimit?: number;
     total: number;
     count: number;
     page: number;
     limit: number;
     totalPages: number;
+    /** Window behind the *_last_year values (absent for open date ranges) */
+    comparison?: ComparisonPeriod;
   };
 }
 
@@ -61,13 +78,22 @@ interface ListQueryParams {
   limit?: number;
   orderBy?: string;
   orderDirection?: 'asc' | 'desc';
+  metrics?: string[];
+  comparison?: ComparisonParams;
+  hierarchy?: ListHierarchy;
   [key: string]: any;
 }
 
 async function fetchList(params: ListQueryParams): Promise<ListResponse> {
   const queryParams = new URLSearchParams();
 
-  queryParams.append('groupBy', params.groupBy);
+  // Nested dimensions go after groupBy in the same param (e.g. "IdRegional,seller_id")
+  if (params.hierarchy?.dimensions.length) {
+    queryParams.append('groupBy', [params.groupBy, ...params.hierarchy.dimensions].join(','));
+    queryParams.append('childLimit', params.hierarchy.childLimit.toString());
+  } else {
+    queryParams.append('groupBy', params.groupBy);
+  }
 
   if (params.startDate) {
     queryParams.append('startDate', params.startDate);
@@ -98,9 +124,17 @@ async function fetchList(params: ListQueryParams): Promise<ListResponse> {
     queryParams.append('search', String(params.search));
   }
 
+  // Custom metrics added as custom_<key> fields
+  if (params.metrics?.length) {
+    queryParams.append('metrics', params.metrics.join(','));
+  }
+
+  // Comparison period for the *_last_year values (default: previous year)
+  appendComparisonParams(queryParams, params.comparison);
+
   // Add dynamic filters
   for (const [key, value] of Object.entries(params)) {
-    if (!['groupBy', 'startDate', 'endDate', 'page', 'limit', 'orderBy', 'orderDirection', 'facturadoOnly', 'search'].includes(key)) {
+    if (!['groupBy', 'startDate', 'endDate', 'page', 'limit', 'orderBy', 'orderDirection', 'facturadoOnly', 'search', 'metrics', 'comparison', 'hierarchy'].includes(key)) {
       if (Array.isArray(value)) {
         // For arrays, append each value separately
         value.forEach(v => queryParams.append(key, String(v)));
@@ -122,12 +156,11 @@ export function useList(
   filters?: Record<string, any>,
   page: number = 1,
   limit: number = 50,
-  search?: string
+  search?: string,
+  customMetricKeys: string[] = [],
+  comparison?: ComparisonParams,
+  hierarchy?: ListHierarchy
 ) {
-  // Channel roles get their data filtered by channel automatically
-  const dynaRole = useAuthStore((s) => s.user?.dynaRole);
-  const roleFilter = getRoleDataFilter(dynaRole);
-  const mergedFilters = roleFilter ? { ...filters, ...roleFilter } : filters;
   const trimmedSearch = search?.trim() || undefined;
 
   const params: ListQueryParams = {
@@ -140,11 +173,14 @@ export function useList(
     orderDirection: 'desc',
     facturadoOnly: usesFacturadoOnly(preset),
     ...(trimmedSearch && { search: trimmedSearch }),
-    ...mergedFilters,
+    ...filters,
+    ...(customMetricKeys.length > 0 && { metrics: customMetricKeys }),
+    ...(comparison && { comparison }),
+    ...(hierarchy && hierarchy.dimensions.length > 0 && { hierarchy }),
   };
 
   return useQuery({
-    queryKey: ['list', params.groupBy, params.startDate, params.endDate, page, limit, mergedFilters, preset, trimmedSearch],
+    queryKey: ['list', params.groupBy, params.startDate, params.endDate, page, limit, filters, preset, trimmedSearch, customMetricKeys, comparison, params.hierarchy],
     queryFn: () => fetchList(params),
     staleTime: 1000 * 60 * 5, // 5 minutes
     refetchOnWindowFocus: false,
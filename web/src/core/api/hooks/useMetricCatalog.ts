@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiClient } from '../client';
+import { useAuthStore } from '@/core/store/authStore';
+import type { MetricCatalogResponse } from '../types';
+
+/**
+ * Metric catalog published by the API: labels, formats and heatmap thresholds
+ * of every metric the balance/list responses include. A republished catalog
+ * is picked up on the next refetch.
+ */
+export function useMetricCatalog() {
+  const userId = useAuthStore((s) => s.user?.id);
+
+  return useQuery({
+    queryKey: ['metric-catalog', userId],
+    queryFn: () => apiClient<MetricCatalogResponse>('/api/metrics/catalog'),
+    enabled: !!userId,
+    staleTime: 1000 * 60 * 30, // 30 minutes
+    refetchOnWindowFocus: false,
+  });
+}
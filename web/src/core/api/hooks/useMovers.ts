@@ -0,0 +1,47 @@
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { apiClient } from '../client';
+import { appendComparisonParams } from '@/core/utils/comparisonPeriod';
+import type { ComparisonParams, MoversResponse } from '../types';
+
+async function fetchMovers(
+  startDate: string,
+  endDate: string,
+  groupBy: string,
+  limit: number,
+  filters?: Record<string, string>,
+  comparison?: ComparisonParams
+): Promise<MoversResponse> {
+  const queryParams = new URLSearchParams({ startDate, endDate, groupBy, limit: String(limit) });
+
+  appendComparisonParams(queryParams, comparison);
+
+  if (filters) {
+    Object.entries(filters).forEach(([key, value]) => queryParams.append(key, value));
+  }
+
+  return apiClient<MoversResponse>(`/api/insights/movers?${queryParams.toString()}`);
+}
+
+/**
+ * Top gainers and decliners of sales_total per groupBy value against the
+ * comparison period, and the days whose sales are outliers (see /insights/movers)
+ */
+export function useMovers(
+  startDate: Date,
+  endDate: Date,
+  groupBy: string,
+  limit = 5,
+  filters?: Record<string, string>,
+  comparison?: ComparisonParams
+) {
+  const start = format(startDate, 'yyyy-MM-dd');
+  const end = format(endDate, 'yyyy-MM-dd');
+
+  return useQuery({
+    queryKey: ['insights-movers', start, end, groupBy, limit, filters, comparison],
+    queryFn: () => fetchMovers(start, end, groupBy, limit, filters, comparison),
+    staleTime: 1000 * 60 * 5,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiClient } from '../client';
+import { useAuthStore } from '@/core/store/authStore';
+import type { MyAccessResponse } from '../types';
+
+/**
+ * Allowed routes and channel label of the session user, resolved by the API
+ * from the persisted role policies. `data` stays undefined while loading
+ * (treated as no access).
+ */
+export function useMyAccess() {
+  const userId = useAuthStore((s) => s.user?.id);
+
+  return useQuery({
+    queryKey: ['me-access', userId],
+    queryFn: () => apiClient<MyAccessResponse>('/api/me/access'),
+    enabled: !!userId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+}
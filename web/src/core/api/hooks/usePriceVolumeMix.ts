@@ -0,0 +1,49 @@
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { apiClient, APIError } from '../client';
+import { appendComparisonParams } from '@/core/utils/comparisonPeriod';
+import type { ComparisonParams, PriceVolumeMixResponse, PvmItemLevel } from '../types';
+
+async function fetchPriceVolumeMix(
+  startDate: string,
+  endDate: string,
+  groupBy: string,
+  itemLevel: PvmItemLevel,
+  filters?: Record<string, string>,
+  comparison?: ComparisonParams
+): Promise<PriceVolumeMixResponse> {
+  const queryParams = new URLSearchParams({ startDate, endDate, groupBy, itemLevel });
+
+  appendComparisonParams(queryParams, comparison);
+
+  if (filters) {
+    Object.entries(filters).forEach(([key, value]) => queryParams.append(key, value));
+  }
+
+  return apiClient<PriceVolumeMixResponse>(`/api/insights/price-volume-mix?${queryParams.toString()}`);
+}
+
+/**
+ * Price, volume, mix and new/lost item effects of the change in sales and
+ * gross margin against the comparison period (see /insights/price-volume-mix).
+ * A 400 (no quantity column in the data) is not retried.
+ */
+export function usePriceVolumeMix(
+  startDate: Date,
+  endDate: Date,
+  groupBy: string,
+  itemLevel: PvmItemLevel = 'product_id',
+  filters?: Record<string, string>,
+  comparison?: ComparisonParams
+) {
+  const start = format(startDate, 'yyyy-MM-dd');
+  const end = format(endDate, 'yyyy-MM-dd');
+
+  return useQuery({
+    queryKey: ['insights-price-volume-mix', start, end, groupBy, itemLevel, filters, comparison],
+    queryFn: () => fetchPriceVolumeMix(start, end, groupBy, itemLevel, filters, comparison),
+    retry: (failureCount, error) => !(error instanceof APIError && error.status === 400) && failureCount < 3,
+    staleTime: 1000 * 60 * 5,
+    refetchOnWindowFocus: false,
+  });
+}
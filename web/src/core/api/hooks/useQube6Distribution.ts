@@ -1,8 +1,6 @@
 import { useQuery } from '@tanstack/react-query';
 import { format } from 'date-fns';
 import { apiClient } from '../client';
-import { useAuthStore } from '@/core/store/authStore';
-import { getRoleDataFilter } from '@/core/config/access';
 import type { Qube6DistributionResponse } from '../types';
 
 async function fetchQube6Distribution(
@@ -33,14 +31,9 @@ export function useQube6Distribution(
   const start = format(startDate, 'yyyy-MM-dd');
   const end = format(endDate, 'yyyy-MM-dd');
 
-  // Channel roles get their data filtered by channel automatically
-  const dynaRole = useAuthStore((s) => s.user?.dynaRole);
-  const roleFilter = getRoleDataFilter(dynaRole);
-  const mergedFilters = roleFilter ? { ...filters, ...roleFilter } : filters;
-
   return useQuery({
-    queryKey: ['qube6-distribution', groupBy, start, end, mergedFilters],
-    queryFn: () => fetchQube6Distribution(groupBy, start, end, mergedFilters),
+    queryKey: ['qube6-distribution', groupBy, start, end, filters],
+    queryFn: () => fetchQube6Distribution(groupBy, start, end, filters),
     staleTime: 1000 * 60 * 5,
     refetchOnWindowFocus: false,
   });
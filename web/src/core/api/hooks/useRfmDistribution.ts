@@ -0,0 +1,43 @@
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { apiClient } from '../client';
+import type { RfmDistributionResponse } from '../types';
+
+async function fetchRfmDistribution(
+  startDate: string,
+  endDate: string,
+  filters?: Record<string, unknown>,
+): Promise<RfmDistributionResponse> {
+  const params = new URLSearchParams({ startDate, endDate });
+  if (filters) {
+    Object.entries(filters).forEach(([key, value]) => {
+      if (Array.isArray(value)) {
+        value.forEach((v) => params.append(key, String(v)));
+      } else if (value !== undefined && value !== null) {
+        params.append(key, String(value));
+      }
+    });
+  }
+  return apiClient<RfmDistributionResponse>(`/api/rfm?${params.toString()}`);
+}
+
+/**
+ * Customers per RFM segment (quintile scoring) in the period
+ */
+export function useRfmDistribution(
+  startDate: Date,
+  endDate: Date,
+  filters?: Record<string, unknown>,
+  enabled = true,
+) {
+  const start = format(startDate, 'yyyy-MM-dd');
+  const end = format(endDate, 'yyyy-MM-dd');
+
+  return useQuery({
+    queryKey: ['rfm-distribution', start, end, filters],
+    queryFn: () => fetchRfmDistribution(start, end, filters),
+    staleTime: 1000 * 60 * 5,
+    refetchOnWindowFocus: false,
+    enabled,
+  });
+}
@@ -0,0 +1,56 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '../client';
+import { useAuthStore } from '@/core/store/authStore';
+import type {
+  SavedView,
+  SavedViewsResponse,
+  CreateSavedViewRequest,
+  UpdateSavedViewRequest,
+} from '../types';
+
+const SAVED_VIEWS_KEY = 'saved-views';
+
+/**
+ * Saved views visible to the session user: their own, their team's and the
+ * public ones (every page; the sidebar menu and the page menus share it)
+ */
+export function useSavedViews() {
+  const userId = useAuthStore((s) => s.user?.id);
+
+  return useQuery({
+    queryKey: [SAVED_VIEWS_KEY, userId],
+    queryFn: () => apiClient<SavedViewsResponse>('/api/saved-views'),
+    enabled: !!userId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Create, update and delete the session user's saved views
+ */
+export function useSavedViewMutations() {
+  const queryClient = useQueryClient();
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: [SAVED_VIEWS_KEY] });
+  };
+
+  const create = useMutation({
+    mutationFn: (body: CreateSavedViewRequest) =>
+      apiClient<SavedView>('/api/saved-views', { method: 'POST', body: JSON.stringify(body) }),
+    onSuccess,
+  });
+
+  const update = useMutation({
+    mutationFn: ({ id, body }: { id: string; body: UpdateSavedViewRequest }) =>
+      apiClient<SavedView>(`/api/saved-views/${id}`, { method: 'PATCH', body: JSON.stringify(body) }),
+    onSuccess,
+  });
+
+  const remove = useMutation({
+    mutationFn: (id: string) => apiClient<{ success: boolean }>(`/api/saved-views/${id}`, { method: 'DELETE' }),
+    onSuccess,
+  });
+
+  return { create, update, remove };
+}
@@ -28,10 +28,28 @@ export interface BalanceSheetData {
   order_fulfillment_pct: number;
   cartera: number;
   cartera_compliance_pct: number;
+  /** Only present when a projection is requested */
+  projected_close?: number | null;
+  projected_gap?: number | null;
+  required_daily_sales?: number | null;
 }
 
 export interface BalanceSheetResponse {
   data: BalanceSheetData;
+  meta?: {
+    /** Window behind the *_last_year values (absent for open date ranges) */
+    comparison?: ComparisonPeriod;
+    projection?: ProjectionMetadata;
+  };
+}
+
+/** End-of-period projection model (linear run-rate, seasonal or exponential smoothing) */
+export type ProjectionMethod = 'linear' | 'seasonal' | 'smoothing';
+
+/** Projection echoed by the API: model and the close date projected to */
+export interface ProjectionMetadata {
+  method: ProjectionMethod;
+  periodEnd: string;
 }
 
 export interface BalanceQueryParams {
@@ -39,14 +57,91 @@ export interface BalanceQueryParams {
   endDate?: string;
 }
 
+/** Comparison window resolved by the API (compareMode or compareStartDate/compareEndDate) */
+export interface ComparisonPeriod {
+  mode: 'previous_year' | 'previous_period' | 'two_years_ago' | 'previous_month' | 'custom';
+  startDate: string;
+  endDate: string;
+}
+
+/** Comparison query params for /balance, /list and /list/export */
+export interface ComparisonParams {
+  compareMode?: Exclude<ComparisonPeriod['mode'], 'custom'>;
+  compareStartDate?: string;
+  compareEndDate?: string;
+}
+
+/** File format of /list/export and /campaigns/:key/list/export (xlsx is row-capped) */
+export type ExportFormat = 'xlsx' | 'csv' | 'parquet';
+
+export type SeriesGranularity = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+/** Cumulative (mtd, ytd) or rolling-window transform of /balance/series values */
+export type SeriesTransform = 'mtd' | 'ytd' | 'rolling_7d' | 'rolling_30d' | 'rolling_90d' | 'rolling_3m' | 'rolling_12m';
+
+export type LastYearAlignment = 'same_date' | 'same_weekday';
+
+/** Optional /balance/series params (the API defaults to sales and budget) */
+export interface BalanceSeriesOptions {
+  metrics?: string[];
+  transform?: SeriesTransform;
+  lastYear?: LastYearAlignment;
+}
+
+/** One period of /balance/series: sales, budget and any other requested metric */
 export interface BalanceSeriesItem {
   period: string;
   sales: number;
   budget: number;
+  [metric: string]: number | string | null;
 }
 
 export interface BalanceSeriesResponse {
   data: BalanceSeriesItem[];
+  meta?: {
+    granularity: SeriesGranularity;
+    metrics: string[];
+    transform?: SeriesTransform;
+    lastYear?: LastYearAlignment;
+  };
+}
+
+/** Day alignment of /balance/pacing curves */
+export type PacingAlignment = 'business_day' | 'calendar_day';
+
+/**
+ * One day index of /balance/pacing: the period's date at that index and the
+ * cumulative sales of each window by key (current, previous_month…), null
+ * past the window or past today
+ */
+export interface BalancePacingDay {
+  day: number;
+  date: string | null;
+  [window: string]: number | string | null;
+}
+
+/** One window of /balance/pacing with its growth to date over closed days */
+export interface BalancePacingPeriod {
+  key: string;
+  startDate: string;
+  endDate: string;
+  days: number;
+  salesToDate: number;
+  growthToDate: number | null;
+}
+
+export interface BalancePacingResponse {
+  data: {
+    days: BalancePacingDay[];
+    periods: BalancePacingPeriod[];
+  };
+  meta: {
+    align: PacingAlignment;
+    today: string;
+    closedDays: number;
+    currentDay: number;
+    totalDays: number;
+  };
 }
 
 // Auth API types
@@ -102,6 +197,236 @@ export interface GetSessionResponse {
   };
 }
 
+/** Access of the session user (GET /api/me/access) */
+export interface MyAccessResponse {
+  /** Dyna profile role, null for users without one */
+  role: string | null;
+  /** Channel label (chip next to page titles), null for full access */
+  label: string | null;
+  fullAccess: boolean;
+  /** Allowed routes (empty with fullAccess) */
+  paths: string[];
+  /** Mandatory row filters the API applies to every data request */
+  dataFilters: Record<string, string[]>;
+}
+
+/** Heatmap color thresholds of a metric (value >= threshold), descending */
+export interface MetricHeatmapThresholds {
+  excellent: number;
+  good: number;
+  neutral: number;
+  warning?: number;
+}
+
+/** Display metadata shared by every catalog metric */
+interface MetricDisplay {
+  label: string;
+  format: 'currency' | 'percent' | 'number';
+  heatmap?: MetricHeatmapThresholds;
+}
+
+/**
+ * Base metric of the catalog. Responses include `<alias>`,
+ * `<alias>_last_year` and `<alias>_vs_last_year`.
+ */
+export interface BaseMetricDefinition extends MetricDisplay {
+  table: string;
+  field: string;
+  aggregation: string;
+  alias: string;
+}
+
+/** Calculated metric of the catalog (response field `name`) */
+export interface CalculatedMetricDefinition extends MetricDisplay {
+  name: string;
+  description: string;
+  dependencies: string[];
+  formula: string;
+  facturadoSensitive?: boolean;
+  /** null means N/A (e.g. growth over a zero base) */
+  nullable?: boolean;
+}
+
+/** Active metric catalog (GET /api/metrics/catalog) */
+export interface MetricCatalogResponse {
+  /** Published version, 0 = built-in catalog */
+  version: number;
+  publishedAt: string | null;
+  baseMetrics: BaseMetricDefinition[];
+  calculatedMetrics: CalculatedMetricDefinition[];
+}
+
+/**
+ * User-defined metric (GET /api/custom-metrics). Requested in list/export
+ * with metrics=<key>, returned as the `field` (custom_<key>) of each row.
+ */
+export interface CustomMetric {
+  id: string;
+  key: string;
+  field: string;
+  label: string;
+  description: string | null;
+  /** Formula over base metrics and their _last_year values */
+  formula: string;
+  format: 'currency' | 'percent' | 'number';
+  /** Visible to the users of the owner's Dyna role */
+  shared: boolean;
+  /** Created by the session user (only the owner can edit it) */
+  owned: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CustomMetricsResponse {
+  data: CustomMetric[];
+}
+
+export interface CreateCustomMetricRequest {
+  key: string;
+  label: string;
+  description?: string | null;
+  formula: string;
+  format?: CustomMetric['format'];
+  shared?: boolean;
+}
+
+export type UpdateCustomMetricRequest = Partial<Omit<CreateCustomMetricRequest, 'key'>>;
+
+/**
+ * Notification of a KPI alert rule (GET /api/alerts/events): a target (a
+ * member of the rule dimension, or the whole scope) started breaching the
+ * rule threshold, or recovered
+ */
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  status: 'triggered' | 'resolved';
+  ruleName: string;
+  /** Field of the balance response (e.g. budget_achievement_pct) */
+  metric: string;
+  comparator: 'lt' | 'lte' | 'gt' | 'gte';
+  threshold: number;
+  value: number | null;
+  dimension: string | null;
+  dimensionId: string | null;
+  dimensionName: string | null;
+  startDate: string;
+  endDate: string;
+  emailedAt: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface AlertInboxResponse {
+  data: AlertEvent[];
+  unreadCount: number;
+}
+
+/**
+ * State of an analytics page, as serialized in its URL (see core/utils/viewState.ts)
+ * and stored by saved views
+ */
+export interface SavedViewState {
+  /** Date range preset, a whole year, or 'custom' (startDate/endDate) */
+  preset?: string | number;
+  startDate?: string;
+  endDate?: string;
+  compareMode?: 'previous_year' | 'previous_period' | 'two_years_ago' | 'previous_month' | 'custom';
+  compareStartDate?: string;
+  compareEndDate?: string;
+  /** Faceted filter values by dimension (names kept for the chips) */
+  filters?: Record<string, Array<{ id: string; name: string }>>;
+  /** Dimensions nested under the page grouping, outermost first */
+  groupBy?: string[];
+  search?: string;
+  sortKey?: string;
+  sortDirection?: 'asc' | 'desc';
+  page?: number;
+}
+
+/**
+ * Saved view of an analytics page: private, shared with the owner's team
+ * (Dyna role) or public
+ */
+export interface SavedView {
+  id: string;
+  name: string;
+  visibility: 'private' | 'team' | 'public';
+  /** Web app route of the page */
+  route: string;
+  state: SavedViewState;
+  /** Created by the session user (only the owner can edit it) */
+  owned: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedViewsResponse {
+  data: SavedView[];
+}
+
+export interface CreateSavedViewRequest {
+  name: string;
+  visibility?: SavedView['visibility'];
+  route: string;
+  state: SavedViewState;
+}
+
+export type UpdateSavedViewRequest = Partial<CreateSavedViewRequest>;
+
+/** Export endpoint run by an export job */
+export type ExportJobKind = 'list' | 'festival-list' | 'festival-sin-compra';
+
+/**
+ * Export built in the background; the file is downloadable until `expiresAt`
+ */
+export interface ExportJob {
+  id: string;
+  kind: ExportJobKind;
+  format: ExportFormat;
+  /** Download filename, without extension */
+  filename: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'expired';
+  /** 0-100 */
+  progress: number;
+  /** Bytes written so far (file size once completed) */
+  sizeBytes: number | null;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  expiresAt: string | null;
+}
+
+export interface ExportJobsResponse {
+  data: ExportJob[];
+}
+
+export interface CreateExportJobRequest {
+  kind: ExportJobKind;
+  /** Query string of the export endpoint (repeated params as arrays) */
+  query: Record<string, string | string[]>;
+}
+
+/** Table the /api/labels values are read from */
+export type LabelsSource = 'transactions' | 'budget' | 'pedidos_retenidos' | 'cartera';
+
+/**
+ * Distinct value of a column with its weight under the other active filters
+ */
+export interface LabelValue {
+  id: string;
+  name: string;
+  /** Source rows with this value */
+  rows: number;
+  /** sum(sales_price) of those rows */
+  sales: number;
+}
+
+export interface LabelsResponse {
+  data: LabelValue[];
+}
+
 export interface ApiError {
   message: string;
 }
@@ -118,3 +443,125 @@ export interface SegmentDistributionItem {
 export interface Qube6DistributionResponse {
   data: Record<AnalysisType, SegmentDistributionItem[]>;
 }
+
+/** Named RFM segment of a customer (see /api/rfm) */
+export type RfmSegment =
+  | 'champions'
+  | 'loyal'
+  | 'potential_loyalists'
+  | 'new_customers'
+  | 'promising'
+  | 'need_attention'
+  | 'about_to_sleep'
+  | 'at_risk'
+  | 'cant_lose'
+  | 'hibernating';
+
+/** Customers of an RFM segment and their totals */
+export interface RfmSegmentItem {
+  segment: RfmSegment;
+  count: number;
+  sales: number;
+  gross_margin: number;
+  avg_recency_days: number;
+  avg_frequency: number;
+  avg_monetary: number;
+}
+
+export interface RfmDistributionResponse {
+  data: {
+    segments: RfmSegmentItem[];
+    /** Per groupBy value (IdRegional or seller_id), largest first */
+    groups: Array<{ id: string; name: string; segments: RfmSegmentItem[] }>;
+  };
+  meta: {
+    startDate: string;
+    endDate: string;
+    scoring: 'quintile' | 'threshold';
+    thresholds: { recency: number[]; frequency: number[]; monetary: number[] } | null;
+    groupBy: 'IdRegional' | 'seller_id' | null;
+  };
+}
+
+/**
+ * Year-over-year change of sales_total of one group (see /api/insights/movers).
+ * contribution_pp: points of the headline growth the group accounts for
+ */
+export interface Mover {
+  id: string;
+  name: string;
+  sales_total: number;
+  sales_total_last_year: number;
+  change: number;
+  change_pct: number | null;
+  contribution_pp: number | null;
+  share_of_change: number | null;
+}
+
+/** Day whose sales are a robust z-score outlier for its group */
+export interface SalesOutlier {
+  id: string;
+  name: string;
+  date: string;
+  sales: number;
+  median_sales: number;
+  z_score: number;
+  direction: 'spike' | 'drop';
+}
+
+export interface MoversResponse {
+  data: {
+    totals: {
+      sales_total: number;
+      sales_total_last_year: number;
+      change: number;
+      sales_total_vs_last_year: number | null;
+    };
+    gainers: { absolute: Mover[]; relative: Mover[] };
+    decliners: { absolute: Mover[]; relative: Mover[] };
+    outliers: SalesOutlier[];
+  };
+  meta: {
+    groupBy: string;
+    comparison?: ComparisonPeriod;
+    trailingStartDate: string;
+    zThreshold: number;
+  };
+}
+
+/** Product level of /api/insights/price-volume-mix */
+export type PvmItemLevel = 'product_id' | 'Marca' | 'Categoria';
+
+/** Change of sales or gross margin split into effects that add up to `change` */
+export interface VarianceBreakdown {
+  current: number;
+  previous: number;
+  change: number;
+  price_effect: number;
+  volume_effect: number;
+  mix_effect: number;
+  new_items_effect: number;
+  lost_items_effect: number;
+}
+
+export interface VarianceEffects {
+  sales: VarianceBreakdown;
+  gross_margin: VarianceBreakdown;
+  new_items: number;
+  lost_items: number;
+}
+
+export interface PriceVolumeMixResponse {
+  data: {
+    totals: VarianceEffects;
+    /** Largest sales change first */
+    groups: Array<VarianceEffects & { id: string; name: string }>;
+  };
+  meta: {
+    groupBy: string;
+    itemLevel: PvmItemLevel;
+    quantityColumn: string;
+    total: number;
+    comparison?: ComparisonPeriod;
+  };
+}
@@ -0,0 +1,119 @@
+import { useMemo } from 'react';
+import { Popover, PopoverTrigger, PopoverContent, Button, Spinner } from '@heroui/react';
+import { BellIcon } from '@heroicons/react/24/outline';
+import { useAlertInbox, useAlertInboxMutations } from '@/core/api/hooks/useAlerts';
+import { useMetricCatalog } from '@/core/api/hooks/useMetricCatalog';
+import { formatCurrency, formatPercentage } from '@/core/utils/formatters';
+import type { AlertEvent, MetricCatalogResponse } from '@/core/api/types';
+
+type MetricFormat = 'currency' | 'percent' | 'number';
+
+const COMPARATOR_SYMBOLS: Record<AlertEvent['comparator'], string> = {
+  lt: '<',
+  lte: '≤',
+  gt: '>',
+  gte: '≥',
+};
+
+/** Label and format of a balance response field (see api alerts.notification.ts) */
+function describeMetric(catalog: MetricCatalogResponse | undefined, metric: string): { label: string; format: MetricFormat } {
+  const calculated = catalog?.calculatedMetrics.find((m) => m.name === metric);
+  if (calculated) return { label: calculated.label, format: calculated.format };
+
+  for (const base of catalog?.baseMetrics ?? []) {
+    if (metric === base.alias) return { label: base.label, format: base.format };
+    if (metric === `${base.alias}_last_year`) return { label: `${base.label} año anterior`, format: base.format };
+    if (metric === `${base.alias}_vs_last_year`) return { label: `${base.label} vs año anterior`, format: 'percent' };
+  }
+  return { label: metric, format: 'number' };
+}
+
+function formatValue(value: number | null, format: MetricFormat): string {
+  if (value === null) return 'N/A';
+  if (format === 'currency') return `$ ${formatCurrency(value)}`;
+  if (format === 'percent') return `${formatPercentage(value)}%`;
+  return formatPercentage(value);
+}
+
+const dateFormatter = new Intl.DateTimeFormat('es-CO', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Bell with the unread count of the user's KPI alerts and a popover inbox.
+ * Opening an alert marks it as read.
+ */
+export function AlertsInbox() {
+  const { data, isLoading } = useAlertInbox();
+  const { data: catalog } = useMetricCatalog();
+  const { markRead, markAllRead } = useAlertInboxMutations();
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const items = useMemo(() => (data?.data ?? []).map((event) => {
+    const { label, format } = describeMetric(catalog, event.metric);
+    return {
+      event,
+      condition: `${label} ${COMPARATOR_SYMBOLS[event.comparator]} ${formatValue(event.threshold, format)}`,
+      value: formatValue(event.value, format),
+    };
+  }), [data, catalog]);
+
+  return (
+    <Popover placement="top-start">
+      <PopoverTrigger>
+        <Button isIconOnly size="sm" variant="light" aria-label={`Alertas (${unreadCount} sin leer)`} className="relative">
+          <BellIcon className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute top-0.5 right-0.5 min-w-4 h-4 px-1 rounded-full bg-danger text-white text-[9px] font-semibold leading-4 text-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent>
+        <div className="w-80 py-1">
+          <div className="flex items-center justify-between px-2 py-1">
+            <span className="text-[10px] font-semibold uppercase text-default-400">Alertas</span>
+            {unreadCount > 0 && (
+              <button
+                className="text-xs text-primary hover:underline cursor-pointer"
+                onClick={() => markAllRead.mutate()}
+                disabled={markAllRead.isPending}
+              >
+                Marcar todas como leídas
+              </button>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            {isLoading ? (
+              <div className="flex justify-center py-6"><Spinner size="sm" /></div>
+            ) : items.length === 0 ? (
+              <div className="text-center text-xs text-default-400 py-4">No tienes alertas</div>
+            ) : (
+              items.map(({ event, condition, value }) => (
+                <button
+                  key={event.id}
+                  className={`w-full text-left flex gap-2 px-2 py-2 rounded-md hover:bg-default-100 cursor-pointer ${event.readAt ? 'opacity-60' : ''}`}
+                  onClick={() => { if (!event.readAt) markRead.mutate(event.id); }}
+                >
+                  <span
+                    className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${event.status === 'triggered' ? 'bg-danger' : 'bg-success'}`}
+                  />
+                  <span className="flex flex-col gap-0.5 min-w-0">
+                    <span className="text-sm font-semibold truncate">{event.ruleName}</span>
+                    <span className="text-xs text-default-600">
+                      {event.dimensionName ? `${event.dimensionName}: ` : ''}
+                      <span className={event.status === 'triggered' ? 'text-danger font-semibold' : 'text-success font-semibold'}>{value}</span>
+                      {event.status === 'resolved' && ' · Recuperada'}
+                    </span>
+                    <span className="text-[10px] text-default-400">
+                      {condition} · {dateFormatter.format(new Date(event.createdAt))}
+                    </span>
+                  </span>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { useExportJobs } from '@/core/api/hooks/useExports';
+import { downloadExportJob, isExportPending } from '@/core/utils/exportJobs';
+import type { ExportJob } from '@/core/api/types';
+
+/**
+ * Toasts when a background export of the session user finishes (with a
+ * download action) or fails. Renders nothing; mounted once by the layout so
+ * the jobs are polled on every page.
+ */
+export function ExportJobsNotifier() {
+  const { data } = useExportJobs();
+  // Status of each job at the previous poll (jobs pending on the first load included)
+  const previousStatus = useRef<Map<string, ExportJob['status']> | null>(null);
+
+  useEffect(() => {
+    if (!data) return;
+
+    const previous = previousStatus.current;
+    if (previous) {
+      for (const job of data.data) {
+        const before = previous.get(job.id);
+        if (!before || !isExportPending({ status: before }) || isExportPending(job)) continue;
+
+        if (job.status === 'completed') {
+          toast.success(`Exportación lista: ${job.filename}`, {
+            action: {
+              label: 'Descargar',
+              onClick: () => {
+                downloadExportJob(job).catch((error: Error) => toast.error(error.message));
+              },
+            },
+          });
+        } else if (job.status === 'failed') {
+          toast.error(`No se pudo generar ${job.filename}`, { description: job.error ?? undefined });
+        }
+      }
+    }
+
+    previousStatus.current = new Map(data.data.map((job) => [job.id, job.status]));
+  }, [data]);
+
+  return null;
+}
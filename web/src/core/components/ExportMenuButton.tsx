@@ -0,0 +1,66 @@
+import { Button, Dropdown, DropdownTrigger, DropdownMenu, DropdownItem, DropdownSection } from '@heroui/react';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import type { ExportFormat } from '@/core/api/types';
+
+interface ExportMenuButtonProps {
+  isExporting: boolean;
+  disabled?: boolean | undefined;
+  onExport: (format: ExportFormat) => void;
+  /** Queue the export in the background (adds a "En segundo plano" section). */
+  onQueue?: ((format: ExportFormat) => void) | undefined;
+}
+
+const FORMATS: Array<{ key: ExportFormat; label: string; description: string }> = [
+  { key: 'xlsx', label: 'Excel', description: 'Con formato y totales, hasta 20.000 filas' },
+  { key: 'csv', label: 'CSV', description: 'Todas las filas, sin formato' },
+  { key: 'parquet', label: 'Parquet', description: 'Todas las filas, para herramientas de análisis' },
+];
+
+/** Menu keys of the background exports, e.g. "queue:csv" */
+const QUEUE_PREFIX = 'queue:';
+
+/** Export button with a menu of file formats. */
+export function ExportMenuButton({ isExporting, disabled, onExport, onQueue }: ExportMenuButtonProps) {
+  const handleAction = (key: string) => {
+    if (key.startsWith(QUEUE_PREFIX)) {
+      onQueue?.(key.slice(QUEUE_PREFIX.length) as ExportFormat);
+    } else {
+      onExport(key as ExportFormat);
+    }
+  };
+
+  return (
+    <Dropdown placement="bottom-end">
+      <DropdownTrigger>
+        <Button
+          size="sm"
+          variant="flat"
+          color="primary"
+          startContent={!isExporting && <ArrowDownTrayIcon className="h-4 w-4" />}
+          isLoading={isExporting}
+          isDisabled={disabled}
+        >
+          Exportar
+        </Button>
+      </DropdownTrigger>
+      <DropdownMenu aria-label="Formato de exportación" onAction={(key) => handleAction(String(key))}>
+        <DropdownSection title={onQueue ? 'Descargar ahora' : undefined} showDivider={!!onQueue}>
+          {FORMATS.map((item) => (
+            <DropdownItem key={item.key} description={item.description}>
+              {item.label}
+            </DropdownItem>
+          ))}
+        </DropdownSection>
+        {onQueue ? (
+          <DropdownSection title="En segundo plano">
+            {FORMATS.map((item) => (
+              <DropdownItem key={`${QUEUE_PREFIX}${item.key}`} description="Para exportaciones grandes; se guarda en Descargas">
+                {item.label}
+              </DropdownItem>
+            ))}
+          </DropdownSection>
+        ) : null}
+      </DropdownMenu>
+    </Dropdown>
+  );
+}
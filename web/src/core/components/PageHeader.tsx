@@ -10,10 +10,12 @@ interface PageHeaderProps {
   chip?: string;
   /** Optional breadcrumbs rendered above the title. */
   breadcrumbs?: React.ReactNode;
+  /** Optional controls shown before the date filter (e.g. saved views). */
+  actions?: React.ReactNode;
 }
 
-export function PageHeader({ title, showDateFilter = true, chip, breadcrumbs }: PageHeaderProps) {
-  const { preset, formattedRange, endDate } = useDateRange();
+export function PageHeader({ title, showDateFilter = true, chip, breadcrumbs, actions }: PageHeaderProps) {
+  const { preset, formattedRange, endDate, comparisonLabels } = useDateRange();
   const currentYear = endDate.getFullYear();
 
   const getPresetLabel = (preset: number | string): string => {
@@ -41,12 +43,17 @@ export function PageHeader({ title, showDateFilter = true, chip, breadcrumbs }:
             )}
           </div>
           <p className="text-sm text-zinc-500 mt-1">
-            {periodLabel || `Año ${currentYear}`} · {formattedRange}
+            {periodLabel || `Año ${currentYear}`} · {formattedRange}{showDateFilter && ` · vs ${comparisonLabels.title}`}
           </p>
         </div>
-        {showDateFilter && (
-          <div className="w-full sm:w-64">
-            <DateRangeFilter />
+        {(actions || showDateFilter) && (
+          <div className="flex items-center gap-2 w-full sm:w-auto">
+            {actions}
+            {showDateFilter && (
+              <div className="flex-1 sm:flex-none sm:w-64">
+                <DateRangeFilter />
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -1,21 +1,34 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
-import { Pagination, Input } from '@heroui/react';
+import { Pagination, Input, Select, SelectItem } from '@heroui/react';
 import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { parseISO } from 'date-fns';
 import { useDateRange } from '@/core/hooks/useDateRange';
+import { formatDateRangeLabel } from '@/core/utils/formatDateRangeLabel';
 import { useAnalyticsData } from './hooks/useAnalyticsData';
-import { RegionalTable, type RegionalData } from '@/features/distribution/components/RegionalTable';
+import { RegionalTable, type RegionalData, type SortKey, type SortState } from '@/features/distribution/components/RegionalTable';
+import { DEFAULT_SORT } from '@/features/distribution/components/RegionalTable/hooks/useSort';
 import {
   getColumnsWithoutBudget,
   getColumnsWithDynamicLabel,
   getColumnGroupsWithoutBudget,
   getColumnGroups,
+  getCustomMetricColumns,
 } from '@/features/distribution/components/RegionalTable/config/columns';
 import type { ColumnDefinition, ColumnGroup } from '@/features/distribution/components/RegionalTable/config/types';
 import { getSalesMetric, type SalesMetricPreset } from '@/core/utils/salesMetric';
-import type { BalanceSheetData } from '@/core/api/types';
-import type { GroupByDimension, ListItemResponse } from '@/core/api/hooks/useList';
+import type { BalanceSheetData, SavedViewState } from '@/core/api/types';
+import type { GroupByDimension, ListHierarchy, ListItemResponse } from '@/core/api/hooks/useList';
 import { FacetedFilterChips, FacetedFilterAddButton, type AppliedFilters } from '@/features/distribution/components/FacetedFilterBar';
 import { ExportToExcelButton } from './ExportToExcelButton';
+import { CustomMetricPicker } from './CustomMetricPicker';
+import { useCustomMetrics } from '@/core/api/hooks/useCustomMetrics';
+import { useCustomMetricsStore } from '@/core/store/customMetricsStore';
+
+/** Nested dimensions under groupBy (the API accepts 3 dimensions in total) */
+const MAX_SUB_DIMENSIONS = 2;
+/** Children loaded per parent at first, and added by each "Ver más" */
+const CHILD_PAGE_SIZE = 10;
+const MAX_CHILD_LIMIT = 100;
 
 /** Totals row from the current page's mapped rows. */
 function calculateTotals(data: RegionalData[], totalsLabel: string): RegionalData {
@@ -68,6 +81,9 @@ function buildTotalsFromBalance(balance: BalanceSheetData, preset: SalesMetricPr
   };
 }
 
+/** List state kept in the page URL and saved views (the dates live in the date range store) */
+export type ListViewState = Pick<SavedViewState, 'filters' | 'groupBy' | 'search' | 'sortKey' | 'sortDirection' | 'page'>;
+
 export interface AnalyticsListSectionProps {
   groupBy: GroupByDimension;
   filters?: Record<string, any>;
@@ -89,6 +105,12 @@ export interface AnalyticsListSectionProps {
   enableFilters?: boolean;
   /** Context (e.g. channel) that scopes the filter value options. */
   filterContext?: Record<string, any>;
+  /** Dimensions offered to nest under groupBy (expandable rows); no selector when unset. */
+  subDimensionOptions?: Array<{ key: GroupByDimension; label: string }>;
+  /** State to start from (a shared link or saved view); read on mount only. */
+  initialState?: ListViewState;
+  /** Called with the list state whenever it changes. */
+  onStateChange?: (state: ListViewState) => void;
 }
 
 /**
@@ -113,11 +135,14 @@ export function AnalyticsListSection({
   reportTitle,
   enableFilters = false,
   filterContext,
+  subDimensionOptions,
+  initialState,
+  onStateChange,
 }: AnalyticsListSectionProps) {
-  const { startDate, endDate, preset } = useDateRange();
+  const { startDate, endDate, preset, comparison, comparisonLabels } = useDateRange();
 
   // Faceted filters (dimension → selected values); merged into the base filters
-  const [applied, setApplied] = useState<AppliedFilters>({});
+  const [applied, setApplied] = useState<AppliedFilters>(() => initialState?.filters ?? {});
   const effectiveFilters = useMemo(() => {
     const merged: Record<string, any> = { ...filters };
     for (const [dim, values] of Object.entries(applied)) {
@@ -126,26 +151,74 @@ export function AnalyticsListSection({
     return merged;
   }, [filters, applied]);
 
-  const [searchInput, setSearchInput] = useState('');
-  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [searchInput, setSearchInput] = useState(() => initialState?.search ?? '');
+  const [debouncedSearch, setDebouncedSearch] = useState(searchInput);
   useEffect(() => {
     const t = setTimeout(() => setDebouncedSearch(searchInput), 300);
     return () => clearTimeout(t);
   }, [searchInput]);
 
-  const [page, setPage] = useState(1);
+  // Nested dimensions (outermost first) and children loaded per parent
+  const [subDimensions, setSubDimensions] = useState<GroupByDimension[]>(() =>
+    (initialState?.groupBy ?? [])
+      .filter((key) => subDimensionOptions?.some((o) => o.key === key))
+      .slice(0, MAX_SUB_DIMENSIONS) as GroupByDimension[]
+  );
+  const [childLimit, setChildLimit] = useState(CHILD_PAGE_SIZE);
+  useEffect(() => {
+    setChildLimit(CHILD_PAGE_SIZE);
+  }, [subDimensions]);
+  const hierarchy = useMemo<ListHierarchy | undefined>(
+    () => (subDimensions.length > 0 ? { dimensions: subDimensions, childLimit } : undefined),
+    [subDimensions, childLimit]
+  );
+
+  const [sort, setSort] = useState<SortState>(() =>
+    initialState?.sortKey
+      ? { key: initialState.sortKey as SortKey, direction: initialState.sortDirection ?? 'desc' }
+      : DEFAULT_SORT
+  );
+
+  // Back to the first page whenever the query changes (derived from the query
+  // instead of reset in an effect, so a restored page survives the first render)
+  const pageQueryKey = JSON.stringify([groupBy, startDate, endDate, preset, comparison, pageSize, debouncedSearch, effectiveFilters, subDimensions]);
+  const [pageState, setPageState] = useState(() => ({ page: initialState?.page ?? 1, queryKey: pageQueryKey }));
+  const page = pageState.queryKey === pageQueryKey ? pageState.page : 1;
+  const setPage = useCallback((next: number) => setPageState({ page: next, queryKey: pageQueryKey }), [pageQueryKey]);
+
   useEffect(() => {
-    setPage(1);
-  }, [groupBy, startDate, endDate, preset, pageSize, debouncedSearch, effectiveFilters]);
+    const isDefaultSort = sort.key === DEFAULT_SORT.key && sort.direction === DEFAULT_SORT.direction;
+    onStateChange?.({
+      filters: applied,
+      groupBy: subDimensions,
+      search: debouncedSearch,
+      ...(sort.key && !isDefaultSort && { sortKey: sort.key, sortDirection: sort.direction }),
+      page,
+    });
+  }, [onStateChange, applied, subDimensions, debouncedSearch, sort, page]);
+
+  // Selected custom metrics still visible to the user (deleted/unshared ones are dropped).
+  // As in the API, the user's own metric wins over a team metric with the same key.
+  const { data: customMetricsData } = useCustomMetrics();
+  const selectedCustomKeys = useCustomMetricsStore((s) => s.selectedKeys);
+  const customMetrics = useMemo(() => {
+    const visible = customMetricsData?.data ?? [];
+    return selectedCustomKeys.flatMap((key) => {
+      const candidates = visible.filter((m) => m.key === key);
+      const metric = candidates.find((m) => m.owned) ?? candidates[0];
+      return metric ? [metric] : [];
+    });
+  }, [customMetricsData, selectedCustomKeys]);
+  const customMetricKeys = useMemo(() => customMetrics.map((m) => m.key), [customMetrics]);
 
   const { balanceData, listData, listMeta, isLoading } = useAnalyticsData(
-    groupBy, startDate, endDate, preset, effectiveFilters, page, pageSize, debouncedSearch
+    groupBy, startDate, endDate, preset, effectiveFilters, page, pageSize, debouncedSearch, customMetricKeys, comparison, hierarchy
   );
 
   const totalPages = listMeta?.totalPages ?? 1;
 
   const mapApiToRegionalData = useCallback(
-    (item: ListItemResponse): RegionalData => {
+    function mapItem(item: ListItemResponse): RegionalData {
       const sales = getSalesMetric(item, preset);
       return {
         id: item.id,
@@ -159,9 +232,12 @@ export function AnalyticsListSection({
           budget: item.budget_gross_margin_pct,
         },
         retained: { amount: item.cartera, compliance: item.cartera_compliance_pct },
+        custom: Object.fromEntries(customMetrics.map((m) => [m.field, item[`custom_${m.key}`] ?? null])),
+        ...(item.children && { children: item.children.map(mapItem) }),
+        ...(item.childCount !== undefined && { childCount: item.childCount }),
       };
     },
-    [preset]
+    [preset, customMetrics]
   );
 
   const mappedData = useMemo(
@@ -183,7 +259,7 @@ export function AnalyticsListSection({
   );
 
   const columns = useMemo(() => {
-    if (tableColumns) return tableColumns;
+    if (tableColumns) return [...tableColumns, ...getCustomMetricColumns(customMetrics)];
     let cols = hideBudgetColumns
       ? getColumnsWithoutBudget(groupBy, hideRetainedColumn)
       : getColumnsWithDynamicLabel(groupBy);
@@ -193,8 +269,8 @@ export function AnalyticsListSection({
         col.id === 'regional' ? { ...col, header: { ...col.header, label: dimensionLabel } } : col
       );
     }
-    return cols;
-  }, [tableColumns, hideBudgetColumns, hideRetainedColumn, groupBy, dimensionLabel]);
+    return [...cols, ...getCustomMetricColumns(customMetrics)];
+  }, [tableColumns, hideBudgetColumns, hideRetainedColumn, groupBy, dimensionLabel, customMetrics]);
 
   const columnGroups = useMemo(() => {
     if (tableColumnGroups) return tableColumnGroups;
@@ -237,11 +313,43 @@ export function AnalyticsListSection({
           <div />
         )}
         <div className="flex items-center gap-2">
+          {subDimensionOptions && (
+            <Select
+              size="sm"
+              aria-label="Desglosar por"
+              placeholder="Desglosar por..."
+              selectionMode="multiple"
+              className="w-56"
+              selectedKeys={subDimensions}
+              disabledKeys={
+                subDimensions.length >= MAX_SUB_DIMENSIONS
+                  ? subDimensionOptions.map((o) => o.key).filter((key) => !subDimensions.includes(key))
+                  : []
+              }
+              onSelectionChange={(keys) => {
+                // Keep the click order: previously selected dimensions stay outermost
+                const selected = Array.from(keys) as GroupByDimension[];
+                setSubDimensions((prev) => [
+                  ...prev.filter((key) => selected.includes(key)),
+                  ...selected.filter((key) => !prev.includes(key)),
+                ].slice(0, MAX_SUB_DIMENSIONS));
+              }}
+              renderValue={() => subDimensions.map((key) =>
+                subDimensionOptions.find((o) => o.key === key)?.label ?? key
+              ).join(' › ')}
+            >
+              {subDimensionOptions.map((option) => (
+                <SelectItem key={option.key}>{option.label}</SelectItem>
+              ))}
+            </Select>
+          )}
           {enableFilters && (
             <FacetedFilterAddButton value={applied} onChange={setApplied} contextFilters={filterContext} />
           )}
+          <CustomMetricPicker />
           <ExportToExcelButton
             groupBy={groupBy}
+            subDimensions={subDimensions}
             startDate={startDate}
             endDate={endDate}
             preset={preset}
@@ -253,6 +361,9 @@ export function AnalyticsListSection({
             reportTitle={reportTitle}
             dimensionLabelOverride={dimensionLabel}
             disabled={isLoading}
+            customMetricKeys={customMetricKeys}
+            comparison={comparison}
+            comparisonLabel={comparisonLabels.label}
           />
         </div>
       </div>
@@ -269,11 +380,23 @@ export function AnalyticsListSection({
           columns={columns}
           columnGroups={columnGroups}
           onRowClick={onRowClick}
-          config={{ currency: '$', locale: 'es-CO', currentYear, previousYear: currentYear - 1 }}
+          sort={sort}
+          onSortChange={setSort}
+          {...(hierarchy && childLimit < MAX_CHILD_LIMIT && {
+            onLoadMoreChildren: () => setChildLimit((limit) => Math.min(limit + CHILD_PAGE_SIZE, MAX_CHILD_LIMIT)),
+          })}
+          config={{ currency: '$', locale: 'es-CO', currentYear, previousYear: comparisonLabels.label }}
           className="mt-3"
         />
       )}
 
+      {/* Resolved comparison window (only when it is not the default previous year) */}
+      {!isLoading && listMeta?.comparison && listMeta.comparison.mode !== 'previous_year' && (
+        <p className="mt-2 text-xs text-zinc-400">
+          Comparado con {formatDateRangeLabel(parseISO(listMeta.comparison.startDate), parseISO(listMeta.comparison.endDate))}
+        </p>
+      )}
+
       {!isLoading && totalPages > 1 && (
         <div className="mt-4 flex flex-col items-center gap-1">
           <Pagination showControls page={page} total={totalPages} onChange={setPage} size="sm" variant="light" />
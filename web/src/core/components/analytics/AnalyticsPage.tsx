@@ -5,8 +5,10 @@ import { useBalance } from '@/core/api/hooks/useBalance';
 import { StandardMetrics } from './presets/standardMetrics';
 import { PageHeader } from '@/core/components/PageHeader';
 import { AnalyticsListSection } from './AnalyticsListSection';
+import { SavedViewsMenu } from './SavedViewsMenu';
+import { useAnalyticsViewUrl } from './hooks/useAnalyticsViewUrl';
 import type { RegionalData } from '@/features/distribution/components/RegionalTable';
-import { useAuth } from '@/features/auth/hooks/useAuth';
+import { useMyAccess } from '@/core/api/hooks/useMyAccess';
 import { getRoleChannelLabel } from '@/core/config/access';
 import { buildDetailUrl } from '@/features/distribution/config/breakdownDimensions';
 import type { AnalyticsPageConfig } from './types';
@@ -14,6 +16,9 @@ import type { AnalyticsPageConfig } from './types';
 /**
  * Generic Analytics Page — page header + optional metric cards + the shared
  * analytics list section (table, search, export, pagination, totals).
+ *
+ * The date range and list state live in the URL, so every state of the page
+ * is a shareable link and can be saved as a named view.
  */
 export function AnalyticsPage({
   title,
@@ -37,10 +42,11 @@ export function AnalyticsPage({
   enableFilters = false,
   filterContext,
 }: AnalyticsPageConfig) {
-  const { startDate, endDate, preset } = useDateRange();
-  const { user } = useAuth();
+  const { startDate, endDate, preset, comparison, comparisonLabels } = useDateRange();
+  const { data: access } = useMyAccess();
   const navigate = useNavigate();
-  const channelLabel = getRoleChannelLabel(user?.dynaRole);
+  const channelLabel = getRoleChannelLabel(access);
+  const { ready, initialState, onStateChange, viewState } = useAnalyticsViewUrl();
 
   // Clickable rows: drill into the generic detail explorer, or a fixed base path
   const onRowClick = useMemo(
@@ -59,11 +65,16 @@ export function AnalyticsPage({
 
   // Balance for the top metric cards (deduped with the list section's balance query)
   const showMetrics = !hideMetrics && metricsPreset === 'standard';
-  const { data: balance, isLoading: isLoadingBalance } = useBalance(startDate, endDate, preset, filters);
+  const { data: balance, isLoading: isLoadingBalance } = useBalance(startDate, endDate, preset, filters, comparison);
 
   return (
     <div>
-      <PageHeader title={title} chip={channelLabel ? `Canal ${channelLabel}` : undefined} breadcrumbs={breadcrumbs} />
+      <PageHeader
+        title={title}
+        chip={channelLabel ? `Canal ${channelLabel}` : undefined}
+        breadcrumbs={breadcrumbs}
+        actions={<SavedViewsMenu viewState={viewState} />}
+      />
 
       {showMetrics && (
         <StandardMetrics
@@ -71,27 +82,32 @@ export function AnalyticsPage({
           endDate={endDate}
           preset={preset}
           isLoading={isLoadingBalance}
+          comparisonLabels={comparisonLabels}
         />
       )}
 
-      <AnalyticsListSection
-        groupBy={groupBy}
-        filters={filters}
-        totalsLabel={totalsLabel}
-        tableColumns={tableColumns}
-        tableColumnGroups={tableColumnGroups}
-        hideBudgetColumns={hideBudgetColumns}
-        hideRetainedColumn={hideRetainedColumn}
-        nameOverrides={nameOverrides}
-        showIdInName={showIdInName}
-        dimensionLabel={dimensionLabel}
-        pageSize={pageSize}
-        showSearch={showSearch}
-        onRowClick={onRowClick}
-        reportTitle={title}
-        enableFilters={enableFilters}
-        filterContext={filterContext}
-      />
+      {ready && (
+        <AnalyticsListSection
+          initialState={initialState}
+          onStateChange={onStateChange}
+          groupBy={groupBy}
+          filters={filters}
+          totalsLabel={totalsLabel}
+          tableColumns={tableColumns}
+          tableColumnGroups={tableColumnGroups}
+          hideBudgetColumns={hideBudgetColumns}
+          hideRetainedColumn={hideRetainedColumn}
+          nameOverrides={nameOverrides}
+          showIdInName={showIdInName}
+          dimensionLabel={dimensionLabel}
+          pageSize={pageSize}
+          showSearch={showSearch}
+          onRowClick={onRowClick}
+          reportTitle={title}
+          enableFilters={enableFilters}
+          filterContext={filterContext}
+        />
+      )}
     </div>
   );
 }
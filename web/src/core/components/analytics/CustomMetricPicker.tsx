@@ -0,0 +1,62 @@
+import { Link } from 'react-router-dom';
+import { Popover, PopoverTrigger, PopoverContent, Button, Checkbox, Spinner } from '@heroui/react';
+import { CalculatorIcon } from '@heroicons/react/24/outline';
+import { useCustomMetrics } from '@/core/api/hooks/useCustomMetrics';
+import { useCustomMetricsStore, MAX_SELECTED_CUSTOM_METRICS } from '@/core/store/customMetricsStore';
+
+/**
+ * Choose which custom metrics are added as table/export columns.
+ * The selection is persisted and shared by every analytics page.
+ */
+export function CustomMetricPicker() {
+  const { data, isLoading } = useCustomMetrics();
+  const { selectedKeys, toggleKey } = useCustomMetricsStore();
+  const metrics = data?.data ?? [];
+  const selectedCount = metrics.filter((m) => selectedKeys.includes(m.key)).length;
+
+  return (
+    <Popover placement="bottom-end">
+      <PopoverTrigger>
+        <Button size="sm" variant="flat" startContent={<CalculatorIcon className="h-4 w-4" />}>
+          Métricas{selectedCount > 0 ? ` (${selectedCount})` : ''}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent>
+        <div className="w-64 py-1">
+          <div className="px-2 py-1 text-[10px] font-semibold uppercase text-default-400">Métricas personalizadas</div>
+          <div className="max-h-64 overflow-y-auto">
+            {isLoading ? (
+              <div className="flex justify-center py-6"><Spinner size="sm" /></div>
+            ) : metrics.length === 0 ? (
+              <div className="text-center text-xs text-default-400 py-4">Aún no hay métricas personalizadas</div>
+            ) : (
+              metrics.map((metric) => {
+                const isSelected = selectedKeys.includes(metric.key);
+                return (
+                  <label
+                    key={metric.id}
+                    className="flex items-center gap-2 px-2 py-1.5 rounded-md cursor-pointer hover:bg-default-100"
+                  >
+                    <Checkbox
+                      size="sm"
+                      isSelected={isSelected}
+                      isDisabled={!isSelected && selectedKeys.length >= MAX_SELECTED_CUSTOM_METRICS}
+                      onValueChange={() => toggleKey(metric.key)}
+                    />
+                    <span className="text-sm truncate" title={metric.formula}>{metric.label}</span>
+                    {!metric.owned && <span className="ml-auto text-[10px] text-default-400">Equipo</span>}
+                  </label>
+                );
+              })
+            )}
+          </div>
+          <div className="mt-1 pt-2 px-2 border-t border-default-100">
+            <Link to="/configuracion" className="text-xs text-primary hover:underline">
+              Gestionar métricas
+            </Link>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
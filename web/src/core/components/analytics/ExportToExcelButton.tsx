@@ -1,6 +1,4 @@
 import { useState } from 'react';
-import { Button } from '@heroui/react';
-import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { toast } from 'sonner';
@@ -8,9 +6,15 @@ import { API_URL } from '@/core/config/constants';
 import type { GroupByDimension } from '@/core/api/hooks/useList';
 import { getSalesOrderByField, usesFacturadoOnly, type SalesMetricPreset } from '@/core/utils/salesMetric';
 import { getDimensionLabel } from '@/core/utils/dimensionLabels';
+import { appendComparisonParams } from '@/core/utils/comparisonPeriod';
+import { ExportMenuButton } from '@/core/components/ExportMenuButton';
+import { useQueueExport } from '@/core/hooks/useQueueExport';
+import type { ComparisonParams, ExportFormat } from '@/core/api/types';
 
 interface ExportToExcelButtonProps {
   groupBy: GroupByDimension;
+  /** Nested dimensions under groupBy, exported as outlined row groups. */
+  subDimensions?: GroupByDimension[];
   startDate: Date;
   endDate: Date;
   preset: SalesMetricPreset;
@@ -25,6 +29,11 @@ interface ExportToExcelButtonProps {
   dimensionLabelOverride?: string;
   /** Disable the button (e.g. while the page data is loading). */
   disabled?: boolean;
+  /** Custom metrics exported as extra columns (same as the table). */
+  customMetricKeys?: string[];
+  /** Comparison period (default: previous year) and its column header label. */
+  comparison?: ComparisonParams;
+  comparisonLabel?: string;
 }
 
 /** Grouped billing header label, matching getColumnGroups() in the table config. */
@@ -48,6 +57,7 @@ function buildPeriodLabel(startDate: Date, endDate: Date): string {
 
 export function ExportToExcelButton({
   groupBy,
+  subDimensions = [],
   startDate,
   endDate,
   preset,
@@ -59,57 +69,74 @@ export function ExportToExcelButton({
   reportTitle,
   dimensionLabelOverride,
   disabled,
+  customMetricKeys,
+  comparison,
+  comparisonLabel,
 }: ExportToExcelButtonProps) {
   const [isExporting, setIsExporting] = useState(false);
+  const { queueExport, isQueueing } = useQueueExport();
 
-  const handleExport = async () => {
-    setIsExporting(true);
-    try {
-      const currentYear = endDate.getFullYear();
-      const dimensionLabel = dimensionLabelOverride || getDimensionLabel(groupBy);
-      const params = new URLSearchParams();
-      params.append('groupBy', groupBy);
-      params.append('startDate', format(startDate, 'yyyy-MM-dd'));
-      params.append('endDate', format(endDate, 'yyyy-MM-dd'));
-      params.append('preset', String(preset));
-      params.append('orderBy', getSalesOrderByField(preset));
-      params.append('orderDirection', 'desc');
-      params.append('totalsLabel', totalsLabel);
-      params.append('dimensionLabel', dimensionLabel);
-      params.append('billingLabel', billingGroupLabel(preset));
-      params.append('currentYear', String(currentYear));
-      params.append('previousYear', String(currentYear - 1));
-      params.append('reportTitle', reportTitle);
-      params.append('periodLabel', buildPeriodLabel(startDate, endDate));
-      params.append('generatedLabel', fmtLongDate(new Date()));
-      if (hideBudgetColumns) params.append('hideBudgetColumns', 'true');
-      if (hideRetainedColumn) params.append('hideRetainedColumn', 'true');
-      if (nameOverrides) params.append('nameOverrides', JSON.stringify(nameOverrides));
+  /** Query string of the list export endpoint (also the query of a background export) */
+  const buildExportParams = (fileFormat: ExportFormat) => {
+    const currentYear = endDate.getFullYear();
+    const dimensionLabel = [dimensionLabelOverride || getDimensionLabel(groupBy), ...subDimensions.map(getDimensionLabel)]
+      .join(' / ');
+    const params = new URLSearchParams();
+    // CSV / Parquet: every row, streamed without the Excel row cap
+    if (fileFormat !== 'xlsx') params.append('format', fileFormat);
+    params.append('groupBy', [groupBy, ...subDimensions].join(','));
+    params.append('startDate', format(startDate, 'yyyy-MM-dd'));
+    params.append('endDate', format(endDate, 'yyyy-MM-dd'));
+    params.append('preset', String(preset));
+    params.append('orderBy', getSalesOrderByField(preset));
+    params.append('orderDirection', 'desc');
+    params.append('totalsLabel', totalsLabel);
+    params.append('dimensionLabel', dimensionLabel);
+    params.append('billingLabel', billingGroupLabel(preset));
+    params.append('currentYear', String(currentYear));
+    params.append('previousYear', String(currentYear - 1));
+    params.append('reportTitle', reportTitle);
+    params.append('periodLabel', buildPeriodLabel(startDate, endDate));
+    params.append('generatedLabel', fmtLongDate(new Date()));
+    if (hideBudgetColumns) params.append('hideBudgetColumns', 'true');
+    if (hideRetainedColumn) params.append('hideRetainedColumn', 'true');
+    if (nameOverrides) params.append('nameOverrides', JSON.stringify(nameOverrides));
+    if (customMetricKeys?.length) params.append('metrics', customMetricKeys.join(','));
+    appendComparisonParams(params, comparison);
+    if (comparison && comparisonLabel) params.append('comparisonLabel', comparisonLabel);
 
-      // Filename: dimension + date range (sanitized server-side too)
-      const filename = `${dimensionLabel}_${format(startDate, 'yyyyMMdd')}-${format(endDate, 'yyyyMMdd')}`;
-      params.append('filename', filename);
+    // Filename: dimension + date range (sanitized server-side too)
+    const filename = `${dimensionLabel}_${format(startDate, 'yyyyMMdd')}-${format(endDate, 'yyyyMMdd')}`;
+    params.append('filename', filename);
 
-      // Dynamic filters (mirrors useList's fetchList spreading)
-      if (filters) {
-        for (const [key, value] of Object.entries(filters)) {
-          if (Array.isArray(value)) {
-            value.forEach((v) => params.append(key, String(v)));
-          } else if (value !== undefined && value !== null) {
-            params.append(key, String(value));
-          }
+    // Dynamic filters (mirrors useList's fetchList spreading)
+    if (filters) {
+      for (const [key, value] of Object.entries(filters)) {
+        if (Array.isArray(value)) {
+          value.forEach((v) => params.append(key, String(v)));
+        } else if (value !== undefined && value !== null) {
+          params.append(key, String(value));
         }
       }
+    }
 
+    return { params, filename };
+  };
+
+  const handleExport = async (fileFormat: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      const { params, filename } = buildExportParams(fileFormat);
       const response = await fetch(`${API_URL}/api/list/export?${params.toString()}`, {
         credentials: 'include',
       });
 
       if (!response.ok) {
-        let message = 'No se pudo generar el archivo Excel';
+        let message = 'No se pudo generar el archivo';
         try {
           const body = await response.json();
-          if (body?.message) message = body.message;
+          // Export errors carry `message`, validation errors (e.g. a custom metric) `detail`
+          if (body?.message || body?.detail) message = body.message || body.detail;
         } catch {
           // non-JSON error body — keep default message
         }
@@ -121,7 +148,7 @@ export function ExportToExcelButton({
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `${filename}.xlsx`;
+      link.download = `${filename}.${fileFormat}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -129,23 +156,18 @@ export function ExportToExcelButton({
 
       toast.success('Exportación completada');
     } catch {
-      toast.error('No se pudo generar el archivo Excel');
+      toast.error('No se pudo generar el archivo');
     } finally {
       setIsExporting(false);
     }
   };
 
   return (
-    <Button
-      size="sm"
-      variant="flat"
-      color="primary"
-      startContent={!isExporting && <ArrowDownTrayIcon className="h-4 w-4" />}
-      isLoading={isExporting}
-      isDisabled={disabled}
-      onPress={handleExport}
-    >
-      Exportar a Excel
-    </Button>
+    <ExportMenuButton
+      isExporting={isExporting || isQueueing}
+      disabled={disabled}
+      onExport={handleExport}
+      onQueue={(fileFormat) => queueExport('list', buildExportParams(fileFormat).params)}
+    />
   );
 }
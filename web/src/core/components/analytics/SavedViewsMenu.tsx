@@ -0,0 +1,171 @@
+import { useMemo, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { Popover, PopoverTrigger, PopoverContent, Button, Input, Select, SelectItem, Spinner } from '@heroui/react';
+import { BookmarkIcon, LinkIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { useSavedViews, useSavedViewMutations } from '@/core/api/hooks/useSavedViews';
+import { useAuthStore } from '@/core/store/authStore';
+import { buildViewUrl } from '@/core/utils/viewState';
+import type { SavedView, SavedViewState } from '@/core/api/types';
+
+const VISIBILITY_LABELS: Record<SavedView['visibility'], string> = {
+  private: 'Solo yo',
+  team: 'Mi equipo',
+  public: 'Todos',
+};
+
+interface SavedViewsMenuProps {
+  /** Current state of the page (null until the page has read its URL) */
+  viewState: SavedViewState | null;
+}
+
+/**
+ * Save the current state of an analytics page as a named view, copy its link,
+ * and open or manage the views saved for the page. All views are also listed
+ * in the sidebar.
+ */
+export function SavedViewsMenu({ viewState }: SavedViewsMenuProps) {
+  const { pathname } = useLocation();
+  const { data, isLoading } = useSavedViews();
+  const { create, update, remove } = useSavedViewMutations();
+  const hasTeam = !!useAuthStore((s) => s.user?.dynaRole);
+  const [name, setName] = useState('');
+  const [visibility, setVisibility] = useState<SavedView['visibility']>('private');
+
+  const pageViews = useMemo(() => (data?.data ?? []).filter((view) => view.route === pathname), [data, pathname]);
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(window.location.href).then(
+      () => toast.success('Enlace copiado'),
+      () => toast.error('No se pudo copiar el enlace')
+    );
+  };
+
+  const handleSave = () => {
+    if (!viewState) return;
+    create.mutate({ name: name.trim(), visibility, route: pathname, state: viewState }, {
+      onSuccess: (view) => {
+        toast.success(`Vista "${view.name}" guardada`);
+        setName('');
+      },
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  return (
+    <Popover placement="bottom-end">
+      <PopoverTrigger>
+        <Button size="sm" variant="flat" startContent={<BookmarkIcon className="h-4 w-4" />}>
+          Vistas{pageViews.length > 0 ? ` (${pageViews.length})` : ''}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent>
+        <div className="w-72 py-1">
+          <Button
+            size="sm"
+            variant="light"
+            className="w-full justify-start"
+            startContent={<LinkIcon className="h-4 w-4" />}
+            onPress={handleCopyLink}
+          >
+            Copiar enlace de esta vista
+          </Button>
+
+          <div className="mt-1 pt-2 px-2 border-t border-default-100 flex flex-col gap-2">
+            <div className="text-[10px] font-semibold uppercase text-default-400">Guardar vista actual</div>
+            <Input
+              size="sm"
+              aria-label="Nombre de la vista"
+              placeholder="Nombre de la vista"
+              maxLength={100}
+              value={name}
+              onValueChange={setName}
+            />
+            <div className="flex items-center gap-2">
+              <Select
+                size="sm"
+                aria-label="Visibilidad"
+                className="flex-1"
+                selectedKeys={[visibility]}
+                disabledKeys={hasTeam ? [] : ['team']}
+                onSelectionChange={(keys) => {
+                  const key = Array.from(keys)[0] as SavedView['visibility'] | undefined;
+                  if (key) setVisibility(key);
+                }}
+              >
+                {(Object.keys(VISIBILITY_LABELS) as Array<SavedView['visibility']>).map((key) => (
+                  <SelectItem key={key}>{VISIBILITY_LABELS[key]}</SelectItem>
+                ))}
+              </Select>
+              <Button
+                size="sm"
+                color="primary"
+                isLoading={create.isPending}
+                isDisabled={!viewState || !name.trim()}
+                onPress={handleSave}
+              >
+                Guardar
+              </Button>
+            </div>
+          </div>
+
+          <div className="mt-2 pt-2 border-t border-default-100">
+            <div className="px-2 py-1 text-[10px] font-semibold uppercase text-default-400">Vistas de esta página</div>
+            <div className="max-h-64 overflow-y-auto">
+              {isLoading ? (
+                <div className="flex justify-center py-4"><Spinner size="sm" /></div>
+              ) : pageViews.length === 0 ? (
+                <div className="text-center text-xs text-default-400 py-3">Aún no hay vistas guardadas</div>
+              ) : (
+                pageViews.map((view) => (
+                  <div key={view.id} className="flex items-center gap-1 px-2 py-1 rounded-md hover:bg-default-100">
+                    <button
+                      type="button"
+                      className="min-w-0 flex-1 text-left cursor-pointer"
+                      // Full load: the page reads its URL state on mount
+                      onClick={() => window.location.assign(buildViewUrl(view.route, view.state))}
+                    >
+                      <div className="text-sm truncate">{view.name}</div>
+                      <div className="text-[10px] text-default-400">{VISIBILITY_LABELS[view.visibility]}</div>
+                    </button>
+                    {view.owned && (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="light"
+                          className="min-w-0 px-2 text-xs"
+                          isDisabled={!viewState}
+                          onPress={() => viewState && update.mutate(
+                            { id: view.id, body: { state: viewState } },
+                            {
+                              onSuccess: () => toast.success(`Vista "${view.name}" actualizada`),
+                              onError: (error) => toast.error(error.message),
+                            }
+                          )}
+                        >
+                          Actualizar
+                        </Button>
+                        <Button
+                          isIconOnly
+                          size="sm"
+                          variant="light"
+                          aria-label={`Eliminar ${view.name}`}
+                          onPress={() => remove.mutate(view.id, {
+                            onSuccess: () => toast.success(`Vista "${view.name}" eliminada`),
+                            onError: (error) => toast.error(error.message),
+                          })}
+                        >
+                          <TrashIcon className="h-4 w-4 text-danger" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,6 +1,7 @@
 import { useBalance } from '@/core/api/hooks/useBalance';
-import { useList } from '@/core/api/hooks/useList';
+import { useList, type ListHierarchy } from '@/core/api/hooks/useList';
 import type { SalesMetricPreset } from '@/core/utils/salesMetric';
+import type { ComparisonParams } from '@/core/api/types';
 import type { GroupByDimension } from '../types';
 
 /**
@@ -12,6 +13,9 @@ import type { GroupByDimension } from '../types';
  * @param endDate - End date for data range
  * @param preset - Active date range preset (controls list ordering field)
  * @param filters - Optional global filters applied to both metrics and table
+ * @param customMetricKeys - Custom metrics added as table columns (list only)
+ * @param comparison - Comparison period for the previous values (default: previous year)
+ * @param hierarchy - Nested dimensions under groupBy (list only)
  * @returns Combined data from useBalance and useList hooks
  *
  * @example
@@ -31,19 +35,22 @@ export function useAnalyticsData(
   filters?: Record<string, any>,
   page: number = 1,
   limit: number = 50,
-  search?: string
+  search?: string,
+  customMetricKeys: string[] = [],
+  comparison?: ComparisonParams,
+  hierarchy?: ListHierarchy
 ) {
   const {
     data: balanceData,
     isLoading: isLoadingBalance,
     error: balanceError,
-  } = useBalance(startDate, endDate, preset, filters);
+  } = useBalance(startDate, endDate, preset, filters, comparison);
 
   const {
     data: listData,
     isLoading: isLoadingList,
     error: listError,
-  } = useList(groupBy, startDate, endDate, preset, filters, page, limit, search);
+  } = useList(groupBy, startDate, endDate, preset, filters, page, limit, search, customMetricKeys, comparison, hierarchy);
 
   return {
     balanceData: balanceData?.data,
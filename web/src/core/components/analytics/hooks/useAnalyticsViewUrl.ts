@@ -0,0 +1,89 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { useDateRange } from '@/core/hooks/useDateRange';
+import { useDateRangeStore } from '@/core/store/dateRangeStore';
+import type { DateRangePreset } from '@/core/config/dateRangeConfig';
+import { parseViewState, viewStateToSearchParams } from '@/core/utils/viewState';
+import type { SavedViewState } from '@/core/api/types';
+import type { ListViewState } from '../AnalyticsListSection';
+
+const DATE_RANGE_KEYS = ['preset', 'startDate', 'endDate', 'compareMode', 'compareStartDate', 'compareEndDate'] as const;
+
+/**
+ * Apply the date range of a view to the (global) date range store. Missing
+ * values keep the current selection.
+ */
+function applyDateRange(state: SavedViewState): void {
+  const store = useDateRangeStore.getState();
+
+  if (state.preset === 'custom' && state.startDate && state.endDate) {
+    store.setCustomRange(parseISO(state.startDate), parseISO(state.endDate));
+  } else if (state.preset !== undefined && state.preset !== 'custom') {
+    store.setPreset(state.preset as DateRangePreset);
+  }
+
+  if (state.compareMode === 'custom' && state.compareStartDate && state.compareEndDate) {
+    store.setCustomComparison(parseISO(state.compareStartDate), parseISO(state.compareEndDate));
+  } else if (state.compareMode && state.compareMode !== 'custom') {
+    store.setCompareMode(state.compareMode);
+  }
+}
+
+/**
+ * Two-way sync between an analytics page and its URL, so that every state of
+ * the page is a shareable link (see core/utils/viewState.ts).
+ *
+ * The URL is read when the page mounts: its dates go to the date range store
+ * and the rest is the `initialState` of the list section. From then on the
+ * date range and the list state reported through `onStateChange` are written
+ * back to the URL, replacing the history entry.
+ *
+ * @returns `ready` once the URL dates are in the store (render the list after
+ *   it, so it does not query the previous dates first) and the current
+ *   `viewState` (null until the list reports its state)
+ */
+export function useAnalyticsViewUrl() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { preset, startDate, endDate, compareMode, compareStartDate, compareEndDate } = useDateRange();
+
+  const [initialState] = useState(() => parseViewState(searchParams));
+  const [listState, setListState] = useState<ListViewState | null>(null);
+
+  const dateRange = useMemo<SavedViewState>(() => ({
+    preset,
+    ...(preset === 'custom' && {
+      startDate: format(startDate, 'yyyy-MM-dd'),
+      endDate: format(endDate, 'yyyy-MM-dd'),
+    }),
+    compareMode,
+    ...(compareMode === 'custom' && compareStartDate && compareEndDate && {
+      compareStartDate: format(compareStartDate, 'yyyy-MM-dd'),
+      compareEndDate: format(compareEndDate, 'yyyy-MM-dd'),
+    }),
+  }), [preset, startDate, endDate, compareMode, compareStartDate, compareEndDate]);
+
+  useEffect(() => {
+    applyDateRange(initialState);
+  }, [initialState]);
+
+  const [ready, setReady] = useState(false);
+  if (!ready && DATE_RANGE_KEYS.every((key) => initialState[key] === undefined || initialState[key] === dateRange[key])) {
+    setReady(true);
+  }
+
+  const viewState = useMemo(
+    () => (listState ? { ...dateRange, ...listState } : null),
+    [dateRange, listState]
+  );
+
+  useEffect(() => {
+    if (!viewState) return;
+    const next = viewStateToSearchParams(viewState, searchParams);
+    if (next.toString() !== searchParams.toString()) {
+      setSearchParams(next, { replace: true });
+    }
+  }, [viewState, searchParams, setSearchParams]);
+
+  return { ready, initialState, onStateChange: setListState, viewState };
+}
@@ -3,6 +3,7 @@ import { formatCurrency, formatPercentage, formatPercentageWithSign } from '@/co
 import { getSalesMetric, type SalesMetricPreset } from '@/core/utils/salesMetric';
 import { PrimaryMetricCard } from '@/features/dashboard/components/PrimaryMetricCard';
 import { MetricCard } from '@/features/dashboard/components/MetricCard';
+import type { ComparisonLabels } from '@/core/utils/comparisonPeriod';
 import type { BalanceData } from '../types';
 
 interface StandardMetricsProps {
@@ -10,15 +11,18 @@ interface StandardMetricsProps {
   endDate: Date;
   preset: SalesMetricPreset;
   isLoading: boolean;
+  /** Labels of the comparison period (defaults to the previous year) */
+  comparisonLabels?: ComparisonLabels;
 }
 
 /**
  * Standard metrics layout used across analytics pages
  * Displays sales, growth, and budget compliance metrics in two separate blocks
  */
-export function StandardMetrics({ balanceData, endDate, preset, isLoading }: StandardMetricsProps): ReactNode {
-  const currentYear = endDate.getFullYear();
-  const previousYear = currentYear - 1;
+export function StandardMetrics({ balanceData, endDate, preset, isLoading, comparisonLabels }: StandardMetricsProps): ReactNode {
+  const previousYear = endDate.getFullYear() - 1;
+  const comparisonTitle = comparisonLabels?.title ?? `Año anterior (${previousYear})`;
+  const comparisonDescription = comparisonLabels?.vsLabel ?? 'vs año anterior';
   const salesMetric = getSalesMetric(balanceData, preset);
 
   return (
@@ -29,7 +33,7 @@ export function StandardMetrics({ balanceData, endDate, preset, isLoading }: Sta
           <PrimaryMetricCard
             label={salesMetric.label}
             mainValue={`$ ${balanceData ? formatCurrency(salesMetric.current) : '0'}`}
-            secondaryLabel={`Año anterior (${previousYear})`}
+            secondaryLabel={comparisonTitle}
             secondaryValue={`$ ${balanceData ? formatCurrency(salesMetric.lastYear) : '0'}`}
             isLoading={isLoading}
           />
@@ -47,7 +51,7 @@ export function StandardMetrics({ balanceData, endDate, preset, isLoading }: Sta
                 </span>
               )
             }
-            description="vs año anterior"
+            description={comparisonDescription}
             isLoading={isLoading}
             centered
           />
@@ -68,7 +72,7 @@ export function StandardMetrics({ balanceData, endDate, preset, isLoading }: Sta
           <PrimaryMetricCard
             label="MARGEN BRUTO"
             mainValue={`${balanceData ? formatPercentage(balanceData.gross_margin_pct) : '0'}%`}
-            secondaryLabel={`Año anterior (${previousYear})`}
+            secondaryLabel={comparisonTitle}
             secondaryValue={
               balanceData && balanceData.sales_last_year > 0
                 ? `${formatPercentage((balanceData.gross_margin_last_year / balanceData.sales_last_year) * 100)}%`
@@ -97,7 +101,7 @@ export function StandardMetrics({ balanceData, endDate, preset, isLoading }: Sta
                   })()
                 : '0%'
             }
-            description="vs año anterior"
+            description={comparisonDescription}
             isLoading={isLoading}
             centered
           />
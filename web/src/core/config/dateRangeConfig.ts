@@ -36,3 +36,25 @@ export const PRESET_LABELS: Record<string, string> = {
   'last-12-months': 'Últimos 12 meses',
   'custom': 'Rango personalizado',
 };
+
+/**
+ * Comparison period for the "año anterior" values (compareMode in the API).
+ * 'custom' sends an explicit compareStartDate/compareEndDate window.
+ */
+export type ComparisonMode =
+  | 'previous_year'    // Mismo periodo del año anterior (default)
+  | 'previous_period'  // Mismo número de días justo antes del rango
+  | 'two_years_ago'    // Mismo periodo hace dos años
+  | 'previous_month'   // Mismo rango un mes antes
+  | 'custom';          // Rango de comparación personalizado
+
+/**
+ * Human-readable labels for each comparison mode (Spanish)
+ */
+export const COMPARISON_LABELS: Record<ComparisonMode, string> = {
+  'previous_year': 'Año anterior',
+  'previous_period': 'Periodo anterior',
+  'two_years_ago': 'Hace dos años',
+  'previous_month': 'Mes anterior',
+  'custom': 'Rango personalizado',
+};
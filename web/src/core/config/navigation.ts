@@ -29,7 +29,7 @@ export const NAVIGATION_SECTIONS: MenuSection[] = [
       {
         key: 'festival-virtual',
         label: 'Festival Virtual',
-        href: '/festival-virtual',
+        href: '/campaigns/festival',
         badge: 'live',
       },
     ],
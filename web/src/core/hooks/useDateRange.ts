@@ -1,10 +1,13 @@
+import { useMemo } from 'react';
 import { useDateRangeStore } from '../store/dateRangeStore';
 import { formatDateRangeLabel } from '../utils/formatDateRangeLabel';
+import { getComparisonLabels, getComparisonParams } from '../utils/comparisonPeriod';
 
 /**
  * Hook to consume date range from store
  *
- * @returns {object} Date range state with formatted label
+ * @returns {object} Date range state with formatted label, plus the
+ * comparison period as API params and display labels
  */
 export const useDateRange = () => {
   const startDate = useDateRangeStore((state) => state.startDate);
@@ -12,9 +15,23 @@ export const useDateRange = () => {
   const preset = useDateRangeStore((state) => state.preset);
   const setPreset = useDateRangeStore((state) => state.setPreset);
   const setCustomRange = useDateRangeStore((state) => state.setCustomRange);
+  const compareMode = useDateRangeStore((state) => state.compareMode);
+  const compareStartDate = useDateRangeStore((state) => state.compareStartDate);
+  const compareEndDate = useDateRangeStore((state) => state.compareEndDate);
+  const setCompareMode = useDateRangeStore((state) => state.setCompareMode);
+  const setCustomComparison = useDateRangeStore((state) => state.setCustomComparison);
 
   const formattedRange = formatDateRangeLabel(startDate, endDate);
 
+  const comparison = useMemo(
+    () => getComparisonParams({ mode: compareMode, startDate: compareStartDate, endDate: compareEndDate }),
+    [compareMode, compareStartDate, compareEndDate]
+  );
+  const comparisonLabels = useMemo(
+    () => getComparisonLabels({ mode: compareMode, startDate: compareStartDate, endDate: compareEndDate }, endDate),
+    [compareMode, compareStartDate, compareEndDate, endDate]
+  );
+
   return {
     startDate,
     endDate,
@@ -22,5 +39,12 @@ export const useDateRange = () => {
     formattedRange,
     setPreset,
     setCustomRange,
+    compareMode,
+    compareStartDate,
+    compareEndDate,
+    comparison,
+    comparisonLabels,
+    setCompareMode,
+    setCustomComparison,
   };
 };
@@ -0,0 +1,32 @@
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { useCreateExportJob } from '../api/hooks/useExports';
+import { exportQueryFromParams } from '../utils/exportJobs';
+import type { ExportJobKind } from '../api/types';
+
+/**
+ * Hook to queue an export in the background instead of downloading it inline
+ *
+ * @returns {object} `queueExport(kind, params)` taking the query string of the
+ * export endpoint, and whether a job is being queued
+ */
+export const useQueueExport = () => {
+  const navigate = useNavigate();
+  const createJob = useCreateExportJob();
+
+  const queueExport = (kind: ExportJobKind, params: URLSearchParams) => {
+    createJob.mutate(
+      { kind, query: exportQueryFromParams(params) },
+      {
+        onSuccess: () =>
+          toast.success('Exportación en cola', {
+            description: 'Te avisaremos cuando el archivo esté listo',
+            action: { label: 'Ver descargas', onClick: () => navigate('/descargas') },
+          }),
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  return { queueExport, isQueueing: createJob.isPending };
+};
@@ -1,31 +1,24 @@
 import { type ReactNode, useMemo, useState } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { Listbox, ListboxSection, ListboxItem, User, Dropdown, DropdownTrigger, DropdownMenu, DropdownItem, Chip } from '@heroui/react';
-import { ArrowRightOnRectangleIcon, Bars3Icon, XMarkIcon, Cog6ToothIcon } from '@heroicons/react/24/outline';
+import { ArrowRightOnRectangleIcon, Bars3Icon, XMarkIcon, Cog6ToothIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
 import { canAccessPath, getRoleChannelLabel, getMenuSections } from '@/core/config/access';
 import { NavBadge } from '@/core/components/NavBadge';
+import { AlertsInbox } from '@/core/components/AlertsInbox';
+import { ExportJobsNotifier } from '@/core/components/ExportJobsNotifier';
 import { useAuth } from '@/features/auth/hooks/useAuth';
+import { useMyAccess } from '@/core/api/hooks/useMyAccess';
+import { useSavedViews } from '@/core/api/hooks/useSavedViews';
+import { buildViewUrl } from '@/core/utils/viewState';
 import { useLogout } from '@/features/auth/hooks/useLogout';
 
 interface AppLayoutProps {
   children: ReactNode;
 }
 
-// Human-readable labels for Dyna profile roles; empty/'MANAGER' and unknown values show nothing
-const DYNA_ROLE_LABELS: Record<string, string> = {
-  MANAGER_DISTRIBUTION: 'Distribución',
-  MANAGER_CADENAS: 'Cadenas',
-  MANAGER_EXPORTATION: 'Exportación',
-  MANAGER_RETAIL: 'Retail',
-};
-
-function getDynaRoleLabel(dynaRole: string | null | undefined): string | null {
-  if (!dynaRole) return null;
-  return DYNA_ROLE_LABELS[dynaRole] ?? null;
-}
-
 export function AppLayout({ children }: AppLayoutProps) {
   const { user } = useAuth();
+  const { data: access } = useMyAccess();
   const { logout } = useLogout();
   const location = useLocation();
   const navigate = useNavigate();
@@ -39,14 +32,23 @@ export function AppLayout({ children }: AppLayoutProps) {
     return [location.pathname];
   }, [location.pathname]);
 
-  const dynaRoleLabel = getDynaRoleLabel(user?.dynaRole);
+  const dynaRoleLabel = getRoleChannelLabel(access);
 
-  // Filter the sidebar by the user's role (MANAGER/empty sees all)
-  const dynaRole = user?.dynaRole;
-  const canSeeDashboard = canAccessPath(dynaRole, '/dashboard');
+  // Filter the sidebar by the user's role access (full access sees all)
+  const canSeeDashboard = canAccessPath(access, '/dashboard');
   // Channel roles see "Inicio"; MANAGER/full access keeps "Compañía General"
-  const dashboardLabel = getRoleChannelLabel(dynaRole) ? 'Inicio' : 'Compañía General';
-  const visibleSections = useMemo(() => getMenuSections(dynaRole), [dynaRole]);
+  const dashboardLabel = dynaRoleLabel ? 'Inicio' : 'Compañía General';
+  const visibleSections = useMemo(() => getMenuSections(access), [access]);
+
+  // Saved views of the pages the user can open: own ones, then shared with them
+  const { data: savedViews } = useSavedViews();
+  const viewSections = useMemo(() => {
+    const views = (savedViews?.data ?? []).filter((view) => canAccessPath(access, view.route));
+    return [
+      { title: 'Mis vistas', views: views.filter((view) => view.owned) },
+      { title: 'Vistas compartidas', views: views.filter((view) => !view.owned) },
+    ].filter((section) => section.views.length > 0);
+  }, [savedViews, access]);
 
   const handleLinkClick = () => {
     // Close sidebar on mobile when clicking a link
@@ -131,15 +133,38 @@ export function AppLayout({ children }: AppLayoutProps) {
                   ))}
                 </ListboxSection>
               ))}
+
+              {/* Vistas guardadas (enlaces con el estado de la página) */}
+              {viewSections.map((section) => (
+                <ListboxSection
+                  key={section.title}
+                  title={section.title}
+                  classNames={{
+                    heading: "text-xs font-normal text-default-400 px-2 pb-1 uppercase",
+                  }}
+                >
+                  {section.views.map((view) => (
+                    <ListboxItem
+                      key={`view:${view.id}`}
+                      href={buildViewUrl(view.route, view.state)}
+                      className="cursor-pointer"
+                      classNames={{ title: "truncate" }}
+                      onPress={handleLinkClick}
+                    >
+                      {view.name}
+                    </ListboxItem>
+                  ))}
+                </ListboxSection>
+              ))}
             </>
           </Listbox>
         </nav>
 
-        <div className="mt-auto border-t border-gray-200 p-3">
+        <div className="mt-auto border-t border-gray-200 p-3 flex items-center gap-1">
           {user && (
             <Dropdown placement="top-start">
               <DropdownTrigger>
-                <div className="cursor-pointer">
+                <div className="cursor-pointer min-w-0 flex-1">
                   <User
                     name={
                       <span className="flex flex-col items-start gap-0.5">
@@ -218,6 +243,15 @@ export function AppLayout({ children }: AppLayoutProps) {
                 >
                   Configuración
                 </DropdownItem>
+                <DropdownItem
+                  key="downloads"
+                  textValue="Descargas"
+                  className="cursor-pointer"
+                  startContent={<ArrowDownTrayIcon className="h-5 w-5" />}
+                  onPress={() => navigate('/descargas')}
+                >
+                  Descargas
+                </DropdownItem>
                 <DropdownItem
                   key="logout"
                   textValue="Cerrar Sesión"
@@ -231,6 +265,8 @@ export function AppLayout({ children }: AppLayoutProps) {
               </DropdownMenu>
             </Dropdown>
           )}
+          {user && <AlertsInbox />}
+          {user && <ExportJobsNotifier />}
         </div>
       </aside>
 
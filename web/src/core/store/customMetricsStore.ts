@@ -0,0 +1,41 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+
+/** Max custom metrics per list/export request (MAX_CUSTOM_METRICS_PER_QUERY in the API) */
+export const MAX_SELECTED_CUSTOM_METRICS = 10;
+
+interface CustomMetricsState {
+  /** Keys of the custom metrics shown as extra table/export columns */
+  selectedKeys: string[];
+}
+
+interface CustomMetricsActions {
+  setSelectedKeys: (keys: string[]) => void;
+  toggleKey: (key: string) => void;
+}
+
+type CustomMetricsStore = CustomMetricsState & CustomMetricsActions;
+
+export const useCustomMetricsStore = create<CustomMetricsStore>()(
+  persist(
+    (set) => ({
+      selectedKeys: [],
+
+      setSelectedKeys: (keys) => {
+        set({ selectedKeys: keys.slice(0, MAX_SELECTED_CUSTOM_METRICS) });
+      },
+
+      toggleKey: (key) => {
+        set((state) => ({
+          selectedKeys: state.selectedKeys.includes(key)
+            ? state.selectedKeys.filter((k) => k !== key)
+            : [...state.selectedKeys, key].slice(0, MAX_SELECTED_CUSTOM_METRICS),
+        }));
+      },
+    }),
+    {
+      name: 'custom-metrics-storage',
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
@@ -1,17 +1,24 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import type { DateRangePreset } from '../config/dateRangeConfig';
+import type { ComparisonMode, DateRangePreset } from '../config/dateRangeConfig';
 import { calculatePresetRange } from '../utils/dateRangePresets';
 
 interface DateRangeState {
   startDate: Date;
   endDate: Date;
   preset: DateRangePreset | 'custom';
+  /** Period the "año anterior" values are compared against */
+  compareMode: ComparisonMode;
+  /** Explicit comparison window, only for compareMode 'custom' */
+  compareStartDate: Date | null;
+  compareEndDate: Date | null;
 }
 
 interface DateRangeActions {
   setPreset: (preset: DateRangePreset) => void;
   setCustomRange: (start: Date, end: Date) => void;
+  setCompareMode: (mode: Exclude<ComparisonMode, 'custom'>) => void;
+  setCustomComparison: (start: Date, end: Date) => void;
 }
 
 type DateRangeStore = DateRangeState & DateRangeActions;
@@ -23,6 +30,9 @@ const initialState: DateRangeState = {
   startDate: defaultRange.start,
   endDate: defaultRange.end,
   preset: 2025,
+  compareMode: 'previous_year',
+  compareStartDate: null,
+  compareEndDate: null,
 };
 
 export const useDateRangeStore = create<DateRangeStore>()(
@@ -46,6 +56,14 @@ export const useDateRangeStore = create<DateRangeStore>()(
           preset: 'custom',
         });
       },
+
+      setCompareMode: (compareMode) => {
+        set({ compareMode, compareStartDate: null, compareEndDate: null });
+      },
+
+      setCustomComparison: (start, end) => {
+        set({ compareMode: 'custom', compareStartDate: start, compareEndDate: end });
+      },
     }),
     {
       name: 'date-range-storage',
@@ -56,6 +74,11 @@ export const useDateRangeStore = create<DateRangeStore>()(
           startDate: state.startDate.toISOString(),
           endDate: state.endDate.toISOString(),
         }),
+        compareMode: state.compareMode,
+        ...(state.compareMode === 'custom' && {
+          compareStartDate: state.compareStartDate?.toISOString(),
+          compareEndDate: state.compareEndDate?.toISOString(),
+        }),
       }),
       onRehydrateStorage: () => (state) => {
         if (!state) return;
@@ -68,6 +91,12 @@ export const useDateRangeStore = create<DateRangeStore>()(
           state.startDate = range.start;
           state.endDate = range.end;
         }
+        if (state.compareMode === 'custom' && state.compareStartDate && state.compareEndDate) {
+          state.compareStartDate = new Date(state.compareStartDate);
+          state.compareEndDate = new Date(state.compareEndDate);
+        } else if (state.compareMode === 'custom') {
+          state.compareMode = 'previous_year';
+        }
       },
     }
   )
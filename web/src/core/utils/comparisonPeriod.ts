@@ -0,0 +1,74 @@
+import { format } from 'date-fns';
+import { COMPARISON_LABELS, type ComparisonMode } from '@/core/config/dateRangeConfig';
+import type { ComparisonParams } from '@/core/api/types';
+
+export interface ComparisonSelection {
+  mode: ComparisonMode;
+  /** Only used (and required) for mode 'custom' */
+  startDate: Date | null;
+  endDate: Date | null;
+}
+
+export interface ComparisonLabels {
+  /** Short label for table values and export headers (e.g. "2025", "Mes anterior") */
+  label: string;
+  /** Label for metric cards (e.g. "Año anterior (2025)") */
+  title: string;
+  /** Variation description (e.g. "vs año anterior") */
+  vsLabel: string;
+}
+
+/**
+ * Query params for the selected comparison.
+ * Undefined for the API default (same period last year), so existing query
+ * keys and cached responses stay unchanged.
+ */
+export function getComparisonParams(selection: ComparisonSelection): ComparisonParams | undefined {
+  if (selection.mode === 'custom') {
+    if (!selection.startDate || !selection.endDate) return undefined;
+    return {
+      compareStartDate: format(selection.startDate, 'yyyy-MM-dd'),
+      compareEndDate: format(selection.endDate, 'yyyy-MM-dd'),
+    };
+  }
+  if (selection.mode === 'previous_year') return undefined;
+  return { compareMode: selection.mode };
+}
+
+/**
+ * Append comparison params to a request's query string
+ */
+export function appendComparisonParams(queryParams: URLSearchParams, comparison?: ComparisonParams): void {
+  if (comparison?.compareStartDate && comparison.compareEndDate) {
+    queryParams.append('compareStartDate', comparison.compareStartDate);
+    queryParams.append('compareEndDate', comparison.compareEndDate);
+  } else if (comparison?.compareMode) {
+    queryParams.append('compareMode', comparison.compareMode);
+  }
+}
+
+/**
+ * Labels for the comparison values, relative to the current range end date
+ */
+export function getComparisonLabels(selection: ComparisonSelection, endDate: Date): ComparisonLabels {
+  const year = endDate.getFullYear();
+
+  switch (selection.mode) {
+    case 'previous_year':
+      return { label: String(year - 1), title: `Año anterior (${year - 1})`, vsLabel: 'vs año anterior' };
+    case 'two_years_ago':
+      return { label: String(year - 2), title: `Hace dos años (${year - 2})`, vsLabel: 'vs hace dos años' };
+    case 'previous_period':
+    case 'previous_month': {
+      const label = COMPARISON_LABELS[selection.mode];
+      return { label, title: label, vsLabel: `vs ${label.toLowerCase()}` };
+    }
+    case 'custom': {
+      if (!selection.startDate || !selection.endDate) {
+        return getComparisonLabels({ ...selection, mode: 'previous_year' }, endDate);
+      }
+      const range = `${format(selection.startDate, 'dd/MM/yy')} - ${format(selection.endDate, 'dd/MM/yy')}`;
+      return { label: range, title: `Comparativa (${range})`, vsLabel: 'vs comparativa' };
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { API_URL } from '@/core/config/constants';
+import type { ExportJob } from '@/core/api/types';
+
+/** Queued or running (its file is not ready yet) */
+export function isExportPending(job: Pick<ExportJob, 'status'>): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+/**
+ * Query string of an export endpoint as the body of an export job: repeated
+ * params (multi-value filters) become arrays
+ */
+export function exportQueryFromParams(params: URLSearchParams): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+  for (const key of new Set(params.keys())) {
+    const values = params.getAll(key);
+    query[key] = values.length > 1 ? values : values[0]!;
+  }
+  return query;
+}
+
+/** Human-readable file size (e.g. "1,2 MB") */
+export function formatFileSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toLocaleString('es-CO', { maximumFractionDigits: unit === 0 ? 0 : 1 })} ${units[unit]}`;
+}
+
+/**
+ * Download the file of a completed export job (fetched with the session
+ * cookie, then saved under the job filename)
+ *
+ * @throws Error if the file is gone (expired) or cannot be fetched
+ */
+export async function downloadExportJob(job: ExportJob): Promise<void> {
+  const response = await fetch(`${API_URL}/api/exports/${job.id}/download`, {
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    throw new Error(response.status === 404 ? 'El archivo ya no está disponible' : 'No se pudo descargar el archivo');
+  }
+
+  const blob = await response.blob();
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${job.filename}.${job.format}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,140 @@
+import { PRESET_LABELS, COMPARISON_LABELS } from '@/core/config/dateRangeConfig';
+import type { SavedViewState } from '@/core/api/types';
+
+/**
+ * URL query params of an analytics page state (a shareable link):
+ *
+ * - preset, from, to: date range preset or year; from/to for 'custom' (YYYY-MM-DD)
+ * - cmp, cmpFrom, cmpTo: comparison mode; cmpFrom/cmpTo for 'custom'
+ * - f: faceted filters as JSON, {"Marca": [["01", "Dyna"]]} (id + chip label)
+ * - nest: nested dimensions, comma-separated
+ * - q, sort, dir, page: search, sorted column, direction and page
+ *
+ * Other params of the URL are left alone.
+ */
+export const VIEW_STATE_PARAMS = ['preset', 'from', 'to', 'cmp', 'cmpFrom', 'cmpTo', 'f', 'nest', 'q', 'sort', 'dir', 'page'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Write a view state into URL params (empty values are left out)
+ *
+ * @param base - Params to keep (the view params in it are replaced)
+ */
+export function viewStateToSearchParams(state: SavedViewState, base?: URLSearchParams): URLSearchParams {
+  const params = new URLSearchParams(base);
+  VIEW_STATE_PARAMS.forEach((key) => params.delete(key));
+
+  const set = (key: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  };
+
+  set('preset', state.preset);
+  if (state.preset === 'custom') {
+    set('from', state.startDate);
+    set('to', state.endDate);
+  }
+  set('cmp', state.compareMode);
+  if (state.compareMode === 'custom') {
+    set('cmpFrom', state.compareStartDate);
+    set('cmpTo', state.compareEndDate);
+  }
+
+  const filters = Object.entries(state.filters ?? {}).filter(([, values]) => values.length > 0);
+  if (filters.length > 0) {
+    params.set('f', JSON.stringify(Object.fromEntries(
+      filters.map(([dim, values]) => [dim, values.map((v) => [v.id, v.name])])
+    )));
+  }
+
+  if (state.groupBy?.length) params.set('nest', state.groupBy.join(','));
+  set('q', state.search);
+  set('sort', state.sortKey);
+  set('dir', state.sortKey ? state.sortDirection : undefined);
+  if (state.page && state.page > 1) params.set('page', String(state.page));
+
+  return params;
+}
+
+/**
+ * Read a view state from URL params. Malformed values are dropped, so a
+ * hand-edited or outdated link still opens the page.
+ */
+export function parseViewState(params: URLSearchParams): SavedViewState {
+  const state: SavedViewState = {};
+
+  const preset = params.get('preset');
+  const from = params.get('from');
+  const to = params.get('to');
+  if (preset === 'custom') {
+    if (from && to && DATE_PATTERN.test(from) && DATE_PATTERN.test(to) && from <= to) {
+      Object.assign(state, { preset, startDate: from, endDate: to });
+    }
+  } else if (preset && /^\d{4}$/.test(preset)) {
+    state.preset = Number(preset);
+  } else if (preset && preset in PRESET_LABELS) {
+    state.preset = preset;
+  }
+
+  const cmp = params.get('cmp');
+  const cmpFrom = params.get('cmpFrom');
+  const cmpTo = params.get('cmpTo');
+  if (cmp === 'custom') {
+    if (cmpFrom && cmpTo && DATE_PATTERN.test(cmpFrom) && DATE_PATTERN.test(cmpTo) && cmpFrom <= cmpTo) {
+      Object.assign(state, { compareMode: cmp, compareStartDate: cmpFrom, compareEndDate: cmpTo });
+    }
+  } else if (cmp && cmp in COMPARISON_LABELS) {
+    state.compareMode = cmp as SavedViewState['compareMode'];
+  }
+
+  const filters = parseFilters(params.get('f'));
+  if (filters) state.filters = filters;
+
+  const nest = params.get('nest')?.split(',').filter((dim) => FIELD_PATTERN.test(dim)) ?? [];
+  if (nest.length > 0) state.groupBy = nest.slice(0, 2);
+
+  const search = params.get('q');
+  if (search) state.search = search;
+
+  const sort = params.get('sort');
+  if (sort && FIELD_PATTERN.test(sort)) {
+    state.sortKey = sort;
+    state.sortDirection = params.get('dir') === 'asc' ? 'asc' : 'desc';
+  }
+
+  const page = Number(params.get('page'));
+  if (Number.isInteger(page) && page > 1) state.page = page;
+
+  return state;
+}
+
+function parseFilters(raw: string | null): SavedViewState['filters'] | undefined {
+  if (!raw) return undefined;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (typeof parsed !== 'object' || parsed === null) return undefined;
+
+    const filters: NonNullable<SavedViewState['filters']> = {};
+    for (const [dim, values] of Object.entries(parsed)) {
+      if (!FIELD_PATTERN.test(dim) || !Array.isArray(values)) continue;
+      const valid = values.flatMap((value: unknown) =>
+        Array.isArray(value) && typeof value[0] === 'string' && value[0] !== ''
+          ? [{ id: value[0], name: typeof value[1] === 'string' ? value[1] : value[0] }]
+          : []
+      );
+      if (valid.length > 0) filters[dim] = valid;
+    }
+    return Object.keys(filters).length > 0 ? filters : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Link that opens a page in the given state
+ */
+export function buildViewUrl(route: string, state: SavedViewState): string {
+  const query = viewStateToSearchParams(state).toString();
+  return query ? `${route}?${query}` : route;
+}
@@ -1,4 +1,5 @@
 import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { useApiMutation } from '@/core/hooks/useApiMutation';
 import { useAuthStore } from '@/core/store/authStore';
 import { authApi } from '@/core/api/authApi';
@@ -6,15 +7,23 @@ import { authApi } from '@/core/api/authApi';
 export function useLogout() {
   const navigate = useNavigate();
   const clearAuth = useAuthStore((state) => state.clearAuth);
+  const queryClient = useQueryClient();
+
+  // Data is scoped by the session role on the server: drop the cache so the
+  // next user never sees the previous one's data
+  const reset = () => {
+    queryClient.clear();
+    clearAuth();
+  };
 
   const { mutate: logout, isLoading } = useApiMutation({
     mutationFn: () => authApi.signOut(),
     onSuccess: () => {
-      clearAuth();
+      reset();
       navigate('/login', { replace: true });
     },
     onError: () => {
-      clearAuth();
+      reset();
       navigate('/login', { replace: true });
     },
   });
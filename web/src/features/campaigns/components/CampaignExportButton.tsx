@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { ExportMenuButton } from '@/core/components/ExportMenuButton';
+import { useQueueExport } from '@/core/hooks/useQueueExport';
+import type { ExportFormat } from '@/core/api/types';
+import { campaignApiPath } from '../hooks/useCampaignBalance';
+import { downloadExcel, appendFilterParams } from '../utils/downloadExcel';
+
+interface CampaignExportButtonProps {
+  campaignKey: string;
+  /** Filename prefix, e.g. "Festival". */
+  filePrefix: string;
+  editionId: string;
+  /** Event window, for the period label and filename. */
+  startDate: Date;
+  endDate: Date;
+  groupBy: string;
+  /** First-column header, e.g. "Proveedor". */
+  dimensionLabel: string;
+  /** Accumulated drill filters (role filters are merged automatically). */
+  filters: Record<string, unknown>;
+  /** Report title shown at the top of the file (edition + drill context). */
+  reportTitle: string;
+  disabled?: boolean;
+}
+
+const fmtLongDate = (d: Date) => format(d, "d 'de' MMMM 'de' yyyy", { locale: es });
+
+/** Download the current campaign listing as a styled Excel file, or every row as CSV / Parquet. */
+export function CampaignExportButton({
+  campaignKey,
+  filePrefix,
+  editionId,
+  startDate,
+  endDate,
+  groupBy,
+  dimensionLabel,
+  filters,
+  reportTitle,
+  disabled,
+}: CampaignExportButtonProps) {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { queueExport, isQueueing } = useQueueExport();
+
+  const buildExportParams = (fileFormat: ExportFormat) => {
+    const params = new URLSearchParams({
+      editionId,
+      groupBy,
+      dimensionLabel,
+      reportTitle,
+      periodLabel: `${fmtLongDate(startDate)} – ${fmtLongDate(endDate)}`,
+      generatedLabel: fmtLongDate(new Date()),
+    });
+
+    const filename = `${filePrefix}_${dimensionLabel}_${format(startDate, 'yyyyMMdd')}-${format(endDate, 'yyyyMMdd')}`;
+    params.append('filename', filename);
+    if (fileFormat !== 'xlsx') params.append('format', fileFormat);
+    appendFilterParams(params, filters);
+
+    return { params, filename };
+  };
+
+  const handleExport = async (fileFormat: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      const { params, filename } = buildExportParams(fileFormat);
+      await downloadExcel(`${campaignApiPath(campaignKey)}/list/export`, params, filename, fileFormat);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <ExportMenuButton
+      isExporting={isExporting || isQueueing}
+      disabled={disabled}
+      onExport={handleExport}
+      onQueue={(fileFormat) => queueExport('festival-list', buildExportParams(fileFormat).params)}
+    />
+  );
+}
@@ -14,16 +14,21 @@ import {
 import { EyeIcon, ArrowDownTrayIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
-import { useFestivalSinCompra, useMergedFilters } from '../hooks/useFestivalBalance';
+import { useQueueExport } from '@/core/hooks/useQueueExport';
+import { useCampaignSinCompra, campaignApiPath } from '../hooks/useCampaignBalance';
 import { downloadExcel, appendFilterParams } from '../utils/downloadExcel';
 
-interface FestivalSinCompraModalProps {
-  /** Event window (the comparison window is irrelevant to this listing). */
+interface CampaignSinCompraModalProps {
+  campaignKey: string;
+  /** Filename prefix, e.g. "Festival". */
+  filePrefix: string;
+  editionId: string;
+  /** Event window, for the period label and filename. */
   startDate: Date;
   endDate: Date;
   /** Accumulated drill filters (role filters are merged automatically). */
   filters: Record<string, unknown>;
-  /** Festival + drill context, shown in the modal and the export title. */
+  /** Edition + drill context, shown in the modal and the export title. */
   reportTitle: string;
 }
 
@@ -35,16 +40,23 @@ const fmtLongDate = (d: Date) => format(d, "d 'de' MMMM 'de' yyyy", { locale: es
 
 /**
  * Trigger + modal for the "Clientes sin compra" card: lists the active-year
- * customers without a festival purchase (código, nombre, vendedor), searchable
+ * customers without a purchase during the event (código, nombre, vendedor), searchable
  * and exportable to Excel. Data is fetched only when the modal opens.
  */
-export function FestivalSinCompraModal({ startDate, endDate, filters, reportTitle }: FestivalSinCompraModalProps) {
+export function CampaignSinCompraModal({
+  campaignKey,
+  filePrefix,
+  editionId,
+  startDate,
+  endDate,
+  filters,
+  reportTitle,
+}: CampaignSinCompraModalProps) {
   const { isOpen, onOpen, onOpenChange } = useDisclosure();
   const [search, setSearch] = useState('');
   const [isExporting, setIsExporting] = useState(false);
-  const mergedFilters = useMergedFilters(filters);
 
-  const { data, isLoading } = useFestivalSinCompra({ startDate, endDate }, filters, isOpen);
+  const { data, isLoading } = useCampaignSinCompra(campaignKey, editionId, filters, isOpen);
   const rows = useMemo(() => {
     const all = data?.data ?? [];
     const q = search.trim().toLowerCase();
@@ -57,21 +69,27 @@ export function FestivalSinCompraModal({ startDate, endDate, filters, reportTitl
     );
   }, [data, search]);
 
+  const { queueExport, isQueueing } = useQueueExport();
+
+  const buildExportParams = () => {
+    const params = new URLSearchParams({
+      editionId,
+      reportTitle: `${reportTitle} · Clientes sin compra`,
+      periodLabel: `${fmtLongDate(startDate)} – ${fmtLongDate(endDate)}`,
+      generatedLabel: fmtLongDate(new Date()),
+    });
+    const filename = `${filePrefix}_ClientesSinCompra_${format(startDate, 'yyyyMMdd')}-${format(endDate, 'yyyyMMdd')}`;
+    params.append('filename', filename);
+    appendFilterParams(params, filters);
+
+    return { params, filename };
+  };
+
   const handleExport = async () => {
     setIsExporting(true);
     try {
-      const params = new URLSearchParams({
-        startDate: format(startDate, 'yyyy-MM-dd'),
-        endDate: format(endDate, 'yyyy-MM-dd'),
-        reportTitle: `${reportTitle} · Clientes sin compra`,
-        periodLabel: `${fmtLongDate(startDate)} – ${fmtLongDate(endDate)}`,
-        generatedLabel: fmtLongDate(new Date()),
-      });
-      const filename = `Festival_ClientesSinCompra_${format(startDate, 'yyyyMMdd')}-${format(endDate, 'yyyyMMdd')}`;
-      params.append('filename', filename);
-      appendFilterParams(params, mergedFilters);
-
-      await downloadExcel('/api/festival/sin-compra/export', params, filename);
+      const { params, filename } = buildExportParams();
+      await downloadExcel(`${campaignApiPath(campaignKey)}/sin-compra/export`, params, filename);
     } finally {
       setIsExporting(false);
     }
@@ -99,7 +117,7 @@ export function FestivalSinCompraModal({ startDate, endDate, filters, reportTitl
               <ModalHeader className="flex flex-col gap-1">
                 Clientes sin compra
                 <span className="text-sm font-normal text-gray-500">
-                  {reportTitle} · activos con compra en {startDate.getFullYear()} sin compra en el festival
+                  {reportTitle} · activos con compra en {startDate.getFullYear()} sin compra en el evento
                 </span>
               </ModalHeader>
               <ModalBody>
@@ -164,6 +182,17 @@ export function FestivalSinCompraModal({ startDate, endDate, filters, reportTitl
                 <Button variant="light" onPress={onClose}>
                   Cerrar
                 </Button>
+                <Tooltip content="Para listados grandes; el archivo queda en Descargas" placement="top">
+                  <Button
+                    variant="bordered"
+                    className="border-1"
+                    isLoading={isQueueing}
+                    isDisabled={isLoading || (data?.data ?? []).length === 0}
+                    onPress={() => queueExport('festival-sin-compra', buildExportParams().params)}
+                  >
+                    En segundo plano
+                  </Button>
+                </Tooltip>
                 <Button
                   color="primary"
                   variant="flat"
@@ -0,0 +1,71 @@
+import { parseISO } from 'date-fns';
+import type { CampaignEdition } from '../hooks/useCampaignEditions';
+import type { Campaign } from '../hooks/useCampaigns';
+
+/**
+ * Campaign page configuration.
+ *
+ * Campaigns come from /api/campaigns and their editions from
+ * /api/campaigns/:key/editions (both managed by admins). Windows are concrete
+ * dates (no presets); campaigns filter by ORDER date (order_date).
+ */
+export interface EditionDef {
+  id: string;
+  name: string;
+  /** Event window. */
+  startDate: Date;
+  endDate: Date;
+  /** Window of the comparison edition. Absent → no comparison shown. */
+  compareStartDate?: Date;
+  compareEndDate?: Date;
+}
+
+/**
+ * Resolve the edition selected in the URL (`f`), falling back to the newest
+ * active edition and then to the newest one. Editions come newest first.
+ */
+export function getEdition(editions: CampaignEdition[], id: string | null | undefined): EditionDef | undefined {
+  const edition = editions.find((e) => e.id === id)
+    ?? editions.find((e) => e.status === 'active')
+    ?? editions[0];
+  if (!edition) return undefined;
+
+  const compare = edition.compareEdition;
+  return {
+    id: edition.id,
+    name: edition.name,
+    startDate: parseISO(edition.startDate),
+    endDate: parseISO(edition.endDate),
+    ...(compare && { compareStartDate: parseISO(compare.startDate), compareEndDate: parseISO(compare.endDate) }),
+  };
+}
+
+/**
+ * Default listing dimension: the first of the campaign's dimensions (the API
+ * rejects definitions without any).
+ */
+export function defaultGroupBy(campaign: Campaign): string {
+  return campaign.dimensions[0]?.key ?? '';
+}
+
+/** First-column (row) label of a dimension, falling back to its key. */
+export function dimensionRowLabel(campaign: Campaign, key: string): string {
+  return campaign.dimensions.find((d) => d.key === key)?.rowLabel ?? key;
+}
+
+/**
+ * Dimension a row drills into when clicked. Each campaign defines its own
+ * concept chains (e.g. in the festival, Marcas → Proveedor → Producto and
+ * Regional → Vendedor → Proveedor); undefined when the dimension is a leaf.
+ */
+export function drillTarget(campaign: Campaign, key: string): string | undefined {
+  return campaign.dimensions.find((d) => d.key === key)?.drillTo;
+}
+
+/** Export filename prefix, e.g. festival → Festival, black-friday → BlackFriday. */
+export function campaignFilePrefix(campaign: Campaign): string {
+  return campaign.key
+    .split('-')
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
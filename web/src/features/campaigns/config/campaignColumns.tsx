@@ -2,12 +2,12 @@ import type { ReactNode } from 'react';
 import type { RegionalData, TableConfig } from '@/features/distribution/components/RegionalTable';
 import type { ColumnDefinition } from '@/features/distribution/components/RegionalTable/config/types';
 import { formatCurrency, formatPercentage } from '@/core/utils/formatters';
-import type { FestivalListRow } from '../hooks/useFestivalBalance';
+import type { CampaignListRow } from '../hooks/useCampaignBalance';
 
 /**
- * Map festival listing rows onto the shared `RegionalData` shape so they render
+ * Map campaign listing rows onto the shared `RegionalData` shape so they render
  * with the same `RegionalTable` used across the app. `RegionalData` has no
- * festival fields, so numeric slots are reused; the columns below read exactly
+ * campaign fields, so numeric slots are reused; the columns below read exactly
  * these slots:
  *   sales.current   → ventas (facturado + comprometido)
  *   sales.previous  → % de ventas sobre el total del listado
@@ -16,14 +16,14 @@ import type { FestivalListRow } from '../hooks/useFestivalBalance';
  *   retained.compliance → margen total (margen + rappel) %
  *   budget.amount   → comprometido (valor de pedidos pendientes de facturar)
  *   retained.amount → pedido promedio
- *   margin.budget   → presupuesto del festival ($)
+ *   margin.budget   → presupuesto de la campaña ($)
  *   margin.previous → cumplimiento de presupuesto (%)
  *   sales.variation → numérica (clientes únicos)
  *   margin.variation → items (productos únicos)
- *   retained.variation → clientes sin compra (activos del año sin compra en el festival)
+ *   retained.variation → clientes sin compra (activos del año sin compra en el evento)
  * `% sobre total` is computed here over the sum of the current listing.
  */
-export function festivalRowsToRegionalData(rows: FestivalListRow[]): RegionalData[] {
+export function campaignRowsToRegionalData(rows: CampaignListRow[]): RegionalData[] {
   const total = rows.reduce((sum, r) => sum + r.sales_total, 0);
   return rows.map((row, index) => ({
     id: row.id || `row-${index}`, // fall back keeps React keys unique
@@ -71,11 +71,11 @@ const complianceCell = (d: RegionalData, _c: TableConfig, value: number): ReactN
   );
 
 /**
- * Festival listing columns. Flat (no groups), so every header spans both header
+ * Campaign listing columns. Flat (no groups), so every header spans both header
  * rows (rowSpan: 2) — a plain column with no group and no rowSpan would not be
  * rendered by TableHeader. Labels mirror the header cards.
  */
-export const FESTIVAL_COLUMNS: ColumnDefinition[] = [
+export const CAMPAIGN_COLUMNS: ColumnDefinition[] = [
   {
     id: 'name',
     header: { label: 'PROVEEDOR', sortable: true, align: 'left', rowSpan: 2 },
@@ -181,10 +181,10 @@ export const FESTIVAL_COLUMNS: ColumnDefinition[] = [
  * Budget columns, shown only when the current grouping/filters are
  * budget-applicable (the rows carry a non-null presupuesto).
  */
-const FESTIVAL_BUDGET_COLUMNS: ColumnDefinition[] = [
+const CAMPAIGN_BUDGET_COLUMNS: ColumnDefinition[] = [
   {
     id: 'ppto',
-    header: { label: 'PPTO FESTIVAL', sortable: true, align: 'right', rowSpan: 2 },
+    header: { label: 'PPTO CAMPAÑA', sortable: true, align: 'right', rowSpan: 2 },
     accessor: (d) => d.margin.budget,
     cellRenderer: currencyCell,
     align: 'right',
@@ -203,18 +203,18 @@ const FESTIVAL_BUDGET_COLUMNS: ColumnDefinition[] = [
 ];
 
 /**
- * Festival columns with the first column labelled for the current dimension.
+ * Campaign columns with the first column labelled for the current dimension.
  * Budget columns are inserted after VENTAS only when applicable. NUMÉRICA /
  * ITEMS are dropped when grouping by the counted entity itself (a column of
  * 1s carries no information).
  */
-export function getFestivalColumns(
+export function getCampaignColumns(
   firstColLabel: string,
   includeBudget: boolean,
   groupBy?: string
 ): ColumnDefinition[] {
-  const columns = FESTIVAL_COLUMNS.flatMap((c) =>
-    c.id === 'sales' && includeBudget ? [c, ...FESTIVAL_BUDGET_COLUMNS] : [c]
+  const columns = CAMPAIGN_COLUMNS.flatMap((c) =>
+    c.id === 'sales' && includeBudget ? [c, ...CAMPAIGN_BUDGET_COLUMNS] : [c]
   ).filter(
     (c) =>
       !((c.id === 'numerica' || c.id === 'sinCompra') && groupBy === 'customer_id') &&
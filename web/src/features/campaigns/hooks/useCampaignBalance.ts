@@ -0,0 +1,151 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiClient } from '@/core/api/client';
+
+export interface CampaignBalance {
+  sales_total: number;
+  sales_total_compare: number;
+  sales_total_growth: number | null;
+  sales_total_growth_to_date: number | null;
+  sales_total_compare_to_date: number | null;
+  to_date_days: number;
+  current_day: number;
+  event_days: number;
+  gross_margin: number;
+  gross_margin_pct: number;
+  gross_margin_pct_compare: number | null;
+  gross_margin_pct_growth: number | null;
+  rappel: number;
+  rappel_pct: number;
+  margen_rappel: number;
+  margen_rappel_pct: number;
+  margen_rappel_pct_compare: number | null;
+  margen_rappel_pct_growth: number | null;
+  margen_rappel_pct_growth_to_date: number | null;
+  margen_rappel_pct_compare_to_date: number | null;
+  comprometido: number;
+  pedidos_count: number;
+  pedido_promedio: number;
+  pedido_promedio_compare: number | null;
+  clientes_unicos: number;
+  productos_unicos: number;
+  /** Clientes activos con compra en el año del evento y sin compra durante el evento. */
+  clientes_sin_compra: number;
+  /** Null cuando los filtros activos no aplican al presupuesto. */
+  presupuesto: number | null;
+  cumplimiento_ppto: number | null;
+}
+
+export interface CampaignListRow {
+  id: string;
+  name: string;
+  sales_total: number;
+  gross_margin_pct: number;
+  rappel_pct: number;
+  margen_rappel_pct: number;
+  comprometido: number;
+  pedido_promedio: number;
+  /** Numérica: clientes únicos del grupo durante el evento. */
+  clientes_unicos: number;
+  /** Items: productos únicos del grupo durante el evento. */
+  productos_unicos: number;
+  /** Clientes activos con compra del grupo en el año y sin compra del grupo en el evento. */
+  clientes_sin_compra: number;
+  presupuesto: number | null;
+  cumplimiento_ppto: number | null;
+}
+
+interface Wrapped<T> {
+  data: T;
+}
+
+/**
+ * The edition decides the event window, the comparison window and the
+ * business rules server-side; only the drill filters travel with it.
+ */
+function buildParams(editionId: string, filters?: Record<string, unknown>): string {
+  const params = new URLSearchParams({ editionId });
+
+  if (filters) {
+    Object.entries(filters).forEach(([key, value]) => {
+      if (Array.isArray(value)) {
+        value.forEach((v) => params.append(key, String(v)));
+      } else {
+        params.append(key, String(value));
+      }
+    });
+  }
+
+  return params.toString();
+}
+
+/** "En Vivo" dashboard: keep data fresh while the page stays open on screen. */
+const LIVE_REFETCH_INTERVAL = 1000 * 60 * 2;
+
+/** Base path of a campaign's routes, e.g. /api/campaigns/festival. */
+export function campaignApiPath(key: string): string {
+  return `/api/campaigns/${encodeURIComponent(key)}`;
+}
+
+export function useCampaignBalance(key: string, editionId: string, filters?: Record<string, unknown>) {
+  return useQuery({
+    queryKey: ['campaign-balance', key, editionId, filters],
+    queryFn: () => apiClient<Wrapped<CampaignBalance>>(`${campaignApiPath(key)}?${buildParams(editionId, filters)}`),
+    staleTime: 1000 * 60 * 2,
+    refetchInterval: LIVE_REFETCH_INTERVAL,
+    refetchOnWindowFocus: false,
+  });
+}
+
+export interface CampaignSinCompraRow {
+  customer_id: string;
+  customer_name: string;
+  seller_id: string;
+  seller_name: string;
+}
+
+/**
+ * Detail of the `clientes_sin_compra` metric (fetched on demand when the
+ * modal opens). Same edition/filters contract as the balance.
+ */
+export function useCampaignSinCompra(
+  key: string,
+  editionId: string,
+  filters: Record<string, unknown> | undefined,
+  enabled: boolean
+) {
+  return useQuery({
+    queryKey: ['campaign-sin-compra', key, editionId, filters],
+    queryFn: () => apiClient<Wrapped<CampaignSinCompraRow[]>>(`${campaignApiPath(key)}/sin-compra?${buildParams(editionId, filters)}`),
+    staleTime: 1000 * 60 * 2,
+    enabled,
+  });
+}
+
+export interface CampaignDailyPoint {
+  period: string;
+  sales_total: number;
+}
+
+/** Daily sales series (facturado + comprometido) over the event window. */
+export function useCampaignDaily(key: string, editionId: string, filters?: Record<string, unknown>) {
+  return useQuery({
+    queryKey: ['campaign-daily', key, editionId, filters],
+    queryFn: () => apiClient<Wrapped<CampaignDailyPoint[]>>(`${campaignApiPath(key)}/daily?${buildParams(editionId, filters)}`),
+    staleTime: 1000 * 60 * 2,
+    refetchInterval: LIVE_REFETCH_INTERVAL,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/** Campaign listing grouped by `groupBy` (e.g. 'ProveedorComercial'). */
+export function useCampaignList(key: string, editionId: string, groupBy: string, filters?: Record<string, unknown>) {
+  const query = buildParams(editionId, filters) + `&groupBy=${encodeURIComponent(groupBy)}`;
+
+  return useQuery({
+    queryKey: ['campaign-list', key, groupBy, editionId, filters],
+    queryFn: () => apiClient<Wrapped<CampaignListRow[]>>(`${campaignApiPath(key)}/list?${query}`),
+    staleTime: 1000 * 60 * 2,
+    refetchInterval: LIVE_REFETCH_INTERVAL,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiClient } from '@/core/api/client';
+
+/** Campaign edition as returned by /api/campaigns/:key/editions (dates as yyyy-MM-dd). */
+export interface CampaignEdition {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  /** Edition the event is compared against; null → no comparison shown. */
+  compareEdition: { id: string; name: string; startDate: string; endDate: string } | null;
+  budgetPeriodo: string;
+  /** Values of the campaign's rules by rule key (e.g. exclusiveBrands). */
+  rules: Record<string, string[]>;
+  channels: string[];
+  status: 'draft' | 'active' | 'closed';
+}
+
+/** Published editions of a campaign, newest first (the page's edition selector). */
+export function useCampaignEditions(key: string) {
+  return useQuery({
+    queryKey: ['campaign-editions', key],
+    queryFn: () => apiClient<{ data: CampaignEdition[] }>(`/api/campaigns/${encodeURIComponent(key)}/editions`),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+}
@@ -0,0 +1,32 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiClient } from '@/core/api/client';
+
+/** Listing dimension of a campaign page. */
+export interface CampaignDimension {
+  /** groupBy value (a column or a virtual grouping such as brand_group). */
+  key: string;
+  /** Selector label, e.g. "Proveedores". */
+  label: string;
+  /** First-column header, e.g. "Proveedor". */
+  rowLabel: string;
+  /** Dimension a row drills into; absent → rows are not drillable. */
+  drillTo?: string;
+}
+
+/** Campaign as returned by /api/campaigns. */
+export interface Campaign {
+  key: string;
+  name: string;
+  /** Listing dimensions in selector order; the first one is the default. */
+  dimensions: CampaignDimension[];
+}
+
+/** Configured campaigns (definitions are managed by admins in the API). */
+export function useCampaigns() {
+  return useQuery({
+    queryKey: ['campaigns'],
+    queryFn: () => apiClient<{ data: Campaign[] }>('/api/campaigns'),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+}
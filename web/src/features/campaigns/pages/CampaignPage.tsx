@@ -1,7 +1,7 @@
 import { useMemo, type ReactNode } from 'react';
 import { format, eachDayOfInterval } from 'date-fns';
 import { es } from 'date-fns/locale';
-import { useSearchParams, useNavigate } from 'react-router-dom';
+import { useParams, useSearchParams, useNavigate } from 'react-router-dom';
 import { Spinner, Select, SelectItem, Breadcrumbs, BreadcrumbItem, Tooltip } from '@heroui/react';
 import { InformationCircleIcon } from '@heroicons/react/24/outline';
 import { NavBadge } from '@/core/components/NavBadge';
@@ -11,20 +11,21 @@ import { SalesBarChart } from '@/features/dashboard/components/SalesBarChart';
 import { RegionalTable, type RegionalData } from '@/features/distribution/components/RegionalTable';
 import { formatCurrency, formatPercentage, formatPercentageWithSign } from '@/core/utils/formatters';
 import {
-  FESTIVALS,
-  getFestival,
-  FESTIVAL_DIMENSIONS,
-  FESTIVAL_DIM_LABEL,
-  FESTIVAL_DRILL_TARGET,
-  FESTIVAL_DEFAULT_GROUP_BY,
-} from '../config/festival';
-import { FestivalExportButton } from '../components/FestivalExportButton';
-import { FestivalSinCompraModal } from '../components/FestivalSinCompraModal';
-import { getFestivalColumns, festivalRowsToRegionalData } from '../config/festivalColumns';
-import { useFestivalBalance, useFestivalList, useFestivalDaily } from '../hooks/useFestivalBalance';
+  getEdition,
+  defaultGroupBy,
+  dimensionRowLabel,
+  drillTarget as drillTargetOf,
+  campaignFilePrefix,
+  type EditionDef,
+} from '../config/campaign';
+import { CampaignExportButton } from '../components/CampaignExportButton';
+import { CampaignSinCompraModal } from '../components/CampaignSinCompraModal';
+import { getCampaignColumns, campaignRowsToRegionalData } from '../config/campaignColumns';
+import { useCampaignBalance, useCampaignList, useCampaignDaily } from '../hooks/useCampaignBalance';
+import { useCampaignEditions, type CampaignEdition } from '../hooks/useCampaignEditions';
+import { useCampaigns, type Campaign } from '../hooks/useCampaigns';
 
-const FESTIVAL_PATH = '/festival-virtual';
-// URL keys that are not drill filters: current dimension, breadcrumb trail, festival edition.
+// URL keys that are not drill filters: current dimension, breadcrumb trail, campaign edition.
 const RESERVED = new Set(['g', 'trail', 'f']);
 
 function formatRange(start: Date, end: Date): string {
@@ -46,18 +47,44 @@ function growth(value: number | null): ReactNode {
   );
 }
 
-export function FestivalVirtualPage() {
+/** Dashboard of any configured campaign (/campaigns/:key). */
+export function CampaignPage() {
+  const { key = '' } = useParams<{ key: string }>();
+  const [params] = useSearchParams();
+  const { data: campaignsData, isLoading: campaignsLoading } = useCampaigns();
+  const campaign = campaignsData?.data.find((c) => c.key === key);
+  const { data, isLoading } = useCampaignEditions(key);
+
+  if (campaignsLoading || (campaign && isLoading)) {
+    return <div className="flex justify-center py-10"><Spinner label="Cargando..." /></div>;
+  }
+
+  if (!campaign) {
+    return <div className="text-sm text-gray-400 py-6">Campaña no encontrada</div>;
+  }
+
+  const editions = data?.data ?? [];
+  const edition = getEdition(editions, params.get('f'));
+  if (!edition) {
+    return <div className="text-sm text-gray-400 py-6">No hay ediciones de {campaign.name} publicadas</div>;
+  }
+
+  return <CampaignDashboard campaign={campaign} edition={edition} editions={editions} />;
+}
+
+interface CampaignDashboardProps {
+  campaign: Campaign;
+  edition: EditionDef;
+  editions: CampaignEdition[];
+}
+
+function CampaignDashboard({ campaign, edition, editions }: CampaignDashboardProps) {
   const [params] = useSearchParams();
   const navigate = useNavigate();
+  const pagePath = `/campaigns/${campaign.key}`;
+  const filePrefix = campaignFilePrefix(campaign);
 
-  const festival = getFestival(params.get('f'));
-  const hasComparison = !!(festival.compareStartDate && festival.compareEndDate);
-  const range = {
-    startDate: festival.startDate,
-    endDate: festival.endDate,
-    compareStartDate: festival.compareStartDate,
-    compareEndDate: festival.compareEndDate,
-  };
+  const hasComparison = !!(edition.compareStartDate && edition.compareEndDate);
 
   // Drill state lives in the URL: dim=value pairs are the accumulated filters,
   // `g` the current listing dimension, `trail` the pipe-separated breadcrumb labels.
@@ -65,79 +92,79 @@ export function FestivalVirtualPage() {
   const drillSteps = entries.filter(([k]) => !RESERVED.has(k));
   const filters = Object.fromEntries(drillSteps);
   const trail = (params.get('trail') ?? '').split('|').filter(Boolean);
-  const groupBy = params.get('g') || FESTIVAL_DEFAULT_GROUP_BY;
+  const groupBy = params.get('g') || defaultGroupBy(campaign);
 
-  const { data, isLoading } = useFestivalBalance(range, filters);
-  const { data: listData, isLoading: listLoading } = useFestivalList(range, groupBy, filters);
-  const { data: dailyData, isLoading: dailyLoading } = useFestivalDaily(range, filters);
+  const { data, isLoading } = useCampaignBalance(campaign.key, edition.id, filters);
+  const { data: listData, isLoading: listLoading } = useCampaignList(campaign.key, edition.id, groupBy, filters);
+  const { data: dailyData, isLoading: dailyLoading } = useCampaignDaily(campaign.key, edition.id, filters);
   const b = data?.data;
   const rows = listData?.data ?? [];
 
-  // Every festival day on the axis, zero-filled where there were no sales.
+  // Every event day on the axis, zero-filled where there were no sales.
   // budget: 0 → SalesBarChart hides its budget average line.
   const dailySeries = useMemo(() => {
     const byDay = new Map((dailyData?.data ?? []).map((p) => [p.period, p.sales_total]));
-    return eachDayOfInterval({ start: festival.startDate, end: festival.endDate }).map((day) => {
+    return eachDayOfInterval({ start: edition.startDate, end: edition.endDate }).map((day) => {
       const period = format(day, 'yyyy-MM-dd');
       return { period, sales: byDay.get(period) ?? 0, budget: 0 };
     });
-  }, [dailyData, festival.startDate, festival.endDate]);
+  }, [dailyData, edition.startDate, edition.endDate]);
 
   // El evento termina al cerrar su último día; desde entonces las tarjetas
-  // pasan del "a mismo día" a las cifras completas del festival anterior.
-  const eventFinished = new Date(new Date().setHours(0, 0, 0, 0)) > festival.endDate;
-  // Referencia acumulada del festival anterior: hasta el día en curso durante
+  // pasan del "a mismo día" a las cifras completas de la edición anterior.
+  const eventFinished = new Date(new Date().setHours(0, 0, 0, 0)) > edition.endDate;
+  // Referencia acumulada de la edición anterior: hasta el día en curso durante
   // el evento; el total completo antes de empezar y al finalizar.
   const useToDateCompare = !eventFinished && !!b && b.current_day > 0;
-  const compareDayLabel = useToDateCompare ? `Festival anterior (día ${b!.current_day}):` : 'Festival anterior:';
+  const compareDayLabel = useToDateCompare ? `Edición anterior (día ${b!.current_day}):` : 'Edición anterior:';
 
-  const eventRange = formatRange(festival.startDate, festival.endDate);
-  const compareRange = hasComparison ? formatRange(festival.compareStartDate!, festival.compareEndDate!) : null;
-  const dimLabel = FESTIVAL_DIM_LABEL[groupBy] ?? groupBy;
+  const eventRange = formatRange(edition.startDate, edition.endDate);
+  const compareRange = hasComparison ? formatRange(edition.compareStartDate!, edition.compareEndDate!) : null;
+  const dimLabel = dimensionRowLabel(campaign, groupBy);
   // A row is drillable only if its target dimension is not already an applied
   // filter — otherwise product ↔ customer would cycle, overwriting the earlier
   // filter while `trail` keeps growing (breadcrumbs would desync from filters).
-  const drillTarget = FESTIVAL_DRILL_TARGET[groupBy];
+  const drillTarget = drillTargetOf(campaign, groupBy);
   const isDrillable = !!drillTarget && !(drillTarget in filters);
 
   // Hide dimensions already drilled into (present as a filter) — same as the
   // distribution detail. Keep the current grouping visible so it stays selected.
-  const availableDimensions = FESTIVAL_DIMENSIONS.filter(
+  const availableDimensions = campaign.dimensions.filter(
     (d) => d.key === groupBy || !(d.key in filters)
   );
 
-  const changeFestival = (id: string) => {
+  const changeEdition = (id: string) => {
     // Switching edition resets the drill context.
-    navigate(`${FESTIVAL_PATH}?f=${id}`);
+    navigate(`${pagePath}?f=${id}`);
   };
 
   const changeDimension = (dim: string) => {
     const p = new URLSearchParams(params);
     p.set('g', dim);
-    navigate(`${FESTIVAL_PATH}?${p.toString()}`);
+    navigate(`${pagePath}?${p.toString()}`);
   };
 
   const drillInto = (region: RegionalData) => {
     if (!isDrillable || !region.id) return;
     const p = new URLSearchParams(params);
-    // For Marcas, groupBy is `brand_group` and region.id is the bucket
-    // (exclusivas/aliadas); the server expands it into ProveedorComercial.
+    // For a virtual grouping (e.g. the festival's Marcas, `brand_group`),
+    // region.id is the bucket; the server expands it into its column.
     p.set(groupBy, region.id);
     p.set('g', drillTarget);
     p.set('trail', [...trail, region.name].join('|'));
-    navigate(`${FESTIVAL_PATH}?${p.toString()}`);
+    navigate(`${pagePath}?${p.toString()}`);
   };
 
-  /** URL for breadcrumb level `k` (keeps the first k drill steps + festival). */
+  /** URL for breadcrumb level `k` (keeps the first k drill steps + edition). */
   const urlForLevel = (k: number): string => {
     const p = new URLSearchParams();
-    p.set('f', festival.id);
+    p.set('f', edition.id);
     const steps = drillSteps.slice(0, k + 1);
     steps.forEach(([d, v]) => p.set(d, v));
     const lastDim = steps[steps.length - 1]?.[0];
-    p.set('g', (lastDim && FESTIVAL_DRILL_TARGET[lastDim]) || FESTIVAL_DEFAULT_GROUP_BY);
+    p.set('g', (lastDim && drillTargetOf(campaign, lastDim)) || defaultGroupBy(campaign));
     p.set('trail', trail.slice(0, k + 1).join('|'));
-    return `${FESTIVAL_PATH}?${p.toString()}`;
+    return `${pagePath}?${p.toString()}`;
   };
 
   return (
@@ -152,21 +179,21 @@ export function FestivalVirtualPage() {
                 className="mb-1"
                 onAction={(key) => {
                   const k = String(key);
-                  if (k === 'root') navigate(`${FESTIVAL_PATH}?f=${festival.id}`);
+                  if (k === 'root') navigate(`${pagePath}?f=${edition.id}`);
                   else navigate(urlForLevel(Number(k)));
                 }}
               >
                 {[
-                  <BreadcrumbItem key="root">{festival.name}</BreadcrumbItem>,
+                  <BreadcrumbItem key="root">{edition.name}</BreadcrumbItem>,
                   ...trail.map((label, i) => <BreadcrumbItem key={String(i)}>{label}</BreadcrumbItem>),
                 ]}
               </Breadcrumbs>
             )}
             <div className="flex items-center gap-2">
               <h1 className="text-xl sm:text-2xl font-bold text-zinc-900">
-                {trail[trail.length - 1] ?? festival.name}
+                {trail[trail.length - 1] ?? edition.name}
               </h1>
-              <NavBadge type="live" size="md" label="En Vivo Festival Virtual" />
+              <NavBadge type="live" size="md" label={`En Vivo ${campaign.name}`} />
             </div>
             <p className="text-sm text-zinc-500 mt-1">
               {eventRange}
@@ -174,20 +201,20 @@ export function FestivalVirtualPage() {
             </p>
           </div>
 
-          {/* Selector de edición del festival (arriba a la derecha) */}
+          {/* Selector de edición de la campaña (arriba a la derecha) */}
           <Select
-            aria-label="Edición del festival"
+            aria-label="Edición de la campaña"
             size="sm"
             className="w-44 shrink-0"
-            selectedKeys={[festival.id]}
+            selectedKeys={[edition.id]}
             disallowEmptySelection
             onSelectionChange={(keys) => {
               const id = Array.from(keys)[0];
-              if (id) changeFestival(String(id));
+              if (id) changeEdition(String(id));
             }}
           >
-            {FESTIVALS.map((f) => (
-              <SelectItem key={f.id}>{f.name}</SelectItem>
+            {editions.map((e) => (
+              <SelectItem key={e.id}>{e.name}</SelectItem>
             ))}
           </Select>
         </div>
@@ -211,9 +238,9 @@ export function FestivalVirtualPage() {
             value={b ? growth(eventFinished ? b.sales_total_growth : b.sales_total_growth_to_date) : <span>0%</span>}
             description={
               eventFinished
-                ? 'vs festival anterior completo'
+                ? 'vs edición anterior completa'
                 : b && b.to_date_days > 0
-                  ? `Días 1–${b.to_date_days} de ${b.event_days} vs festival anterior`
+                  ? `Días 1–${b.to_date_days} de ${b.event_days} vs edición anterior`
                   : 'Disponible al cierre del día 1'
             }
             isLoading={isLoading}
@@ -253,9 +280,9 @@ export function FestivalVirtualPage() {
             value={b ? growth(eventFinished ? b.margen_rappel_pct_growth : b.margen_rappel_pct_growth_to_date) : <span>0%</span>}
             description={
               eventFinished
-                ? 'vs festival anterior completo'
+                ? 'vs edición anterior completa'
                 : b && b.to_date_days > 0
-                  ? `Días 1–${b.to_date_days} de ${b.event_days} vs festival anterior`
+                  ? `Días 1–${b.to_date_days} de ${b.event_days} vs edición anterior`
                   : 'Disponible al cierre del día 1'
             }
             isLoading={isLoading}
@@ -296,7 +323,7 @@ export function FestivalVirtualPage() {
       </div>
 
       {/* Alcance del evento: items (productos únicos), numérica (clientes únicos)
-          y clientes sin compra (activos del año que no han comprado en el festival) */}
+          y clientes sin compra (activos del año que no han comprado en el evento) */}
       <div className="mt-8 border border-gray-200 rounded-lg p-4 sm:p-6">
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 sm:gap-8">
           <PrimaryMetricCard
@@ -320,7 +347,7 @@ export function FestivalVirtualPage() {
                 <Tooltip
                   placement="top"
                   className="max-w-72"
-                  content="Clientes activos y no bloqueados del maestro comercial (regionales de venta) que no han comprado durante el festival. El detalle muestra el vendedor asignado a cada cliente."
+                  content="Clientes activos y no bloqueados del maestro comercial (regionales de venta) que no han comprado durante el evento. El detalle muestra el vendedor asignado a cada cliente."
                 >
                   <InformationCircleIcon className="h-4 w-4 text-gray-400" />
                 </Tooltip>
@@ -329,15 +356,18 @@ export function FestivalVirtualPage() {
             value={
               <span className="inline-flex items-center gap-1.5">
                 {(b?.clientes_sin_compra ?? 0).toLocaleString('es-CO')}
-                <FestivalSinCompraModal
-                  startDate={festival.startDate}
-                  endDate={festival.endDate}
+                <CampaignSinCompraModal
+                  campaignKey={campaign.key}
+                  filePrefix={filePrefix}
+                  editionId={edition.id}
+                  startDate={edition.startDate}
+                  endDate={edition.endDate}
                   filters={filters}
-                  reportTitle={[festival.name, ...trail].join(' · ')}
+                  reportTitle={[edition.name, ...trail].join(' · ')}
                 />
               </span>
             }
-            description="Durante el festival"
+            description="Durante el evento"
             isLoading={isLoading}
             centered
           />
@@ -349,7 +379,7 @@ export function FestivalVirtualPage() {
         <SalesBarChart
           series={dailySeries}
           granularity="day"
-          title="Ventas diarias del festival (Facturado + comprometido)"
+          title="Ventas diarias del evento (Facturado + comprometido)"
           isLoading={dailyLoading}
         />
       </div>
@@ -361,13 +391,16 @@ export function FestivalVirtualPage() {
             DETALLE POR {dimLabel.toUpperCase()}
           </h2>
           <div className="flex flex-col sm:flex-row sm:items-center gap-3">
-            <FestivalExportButton
-              startDate={festival.startDate}
-              endDate={festival.endDate}
+            <CampaignExportButton
+              campaignKey={campaign.key}
+              filePrefix={filePrefix}
+              editionId={edition.id}
+              startDate={edition.startDate}
+              endDate={edition.endDate}
               groupBy={groupBy}
               dimensionLabel={dimLabel}
               filters={filters}
-              reportTitle={[festival.name, ...trail].join(' · ')}
+              reportTitle={[edition.name, ...trail].join(' · ')}
               disabled={listLoading || rows.length === 0}
             />
             <Select
@@ -395,14 +428,14 @@ export function FestivalVirtualPage() {
           <div className="text-sm text-gray-400 py-6">Sin datos para el evento</div>
         ) : (
           <RegionalTable
-            data={festivalRowsToRegionalData(rows)}
+            data={campaignRowsToRegionalData(rows)}
             config={{
               currency: '$',
               locale: 'es-CO',
-              currentYear: festival.endDate.getFullYear(),
-              previousYear: festival.compareEndDate?.getFullYear() ?? festival.endDate.getFullYear(),
+              currentYear: edition.endDate.getFullYear(),
+              previousYear: edition.compareEndDate?.getFullYear() ?? edition.endDate.getFullYear(),
             }}
-            columns={getFestivalColumns(dimLabel, rows.some((r) => r.presupuesto != null && r.presupuesto > 0), groupBy)}
+            columns={getCampaignColumns(dimLabel, rows.some((r) => r.presupuesto != null && r.presupuesto > 0), groupBy)}
             columnGroups={[]}
             {...(isDrillable ? { onRowClick: drillInto } : {})}
           />
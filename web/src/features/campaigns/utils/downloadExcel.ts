@@ -1,18 +1,25 @@
 import { toast } from 'sonner';
 import { API_URL } from '@/core/config/constants';
+import type { ExportFormat } from '@/core/api/types';
 
 /**
- * Download a festival Excel export: fetch the endpoint with credentials and
- * trigger a browser download. Toasts success/failure.
+ * Download a campaign export (Excel unless another format is given): fetch
+ * the endpoint with credentials and trigger a browser download. Toasts
+ * success/failure.
  */
-export async function downloadExcel(path: string, params: URLSearchParams, filename: string): Promise<void> {
+export async function downloadExcel(
+  path: string,
+  params: URLSearchParams,
+  filename: string,
+  fileFormat: ExportFormat = 'xlsx'
+): Promise<void> {
   try {
     const response = await fetch(`${API_URL}${path}?${params.toString()}`, {
       credentials: 'include',
     });
 
     if (!response.ok) {
-      toast.error('No se pudo generar el archivo Excel');
+      toast.error('No se pudo generar el archivo');
       return;
     }
 
@@ -20,7 +27,7 @@ export async function downloadExcel(path: string, params: URLSearchParams, filen
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `${filename}.xlsx`;
+    link.download = `${filename}.${fileFormat}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -28,7 +35,7 @@ export async function downloadExcel(path: string, params: URLSearchParams, filen
 
     toast.success('Exportación completada');
   } catch {
-    toast.error('No se pudo generar el archivo Excel');
+    toast.error('No se pudo generar el archivo');
   }
 }
 
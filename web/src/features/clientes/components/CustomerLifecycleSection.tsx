@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { Select, SelectItem, Skeleton, Tooltip } from '@heroui/react';
+import { parseISO } from 'date-fns';
+import { useDateRange } from '@/core/hooks/useDateRange';
+import type { GroupByDimension } from '@/core/api/hooks/useList';
+import { getDimensionLabel } from '@/core/utils/dimensionLabels';
+import { formatCurrency } from '@/core/utils/formatters';
+import { formatDateRangeLabel } from '@/core/utils/formatDateRangeLabel';
+import {
+  LIFECYCLE_STATUSES,
+  useCustomerLifecycle,
+  type LifecycleBreakdown,
+  type LifecycleQuery,
+  type LifecycleStatus,
+} from '../hooks/useCustomerLifecycle';
+import {
+  CHURN_DAYS_OPTIONS,
+  LIFECYCLE_COLORS,
+  LIFECYCLE_DESCRIPTIONS,
+  LIFECYCLE_GROUP_OPTIONS,
+  LIFECYCLE_LABELS,
+} from '../config/lifecycle';
+import { LifecycleCustomersModal, type LifecycleDrill } from './LifecycleCustomersModal';
+
+/** Select key of "no breakdown" */
+const NO_GROUP = 'none';
+
+/** Sorted groups shown in the table; the drill-down and export cover the rest */
+const MAX_GROUP_ROWS = 50;
+
+/**
+ * Customer lifecycle of the selected period: customers and sales per class
+ * (new, retained, reactivated, at risk, churned), optionally broken down by a
+ * dimension. Every count opens the list of its customers.
+ */
+export function CustomerLifecycleSection() {
+  const { startDate, endDate } = useDateRange();
+  const [groupBy, setGroupBy] = useState<GroupByDimension | undefined>('IdRegional');
+  const [churnDays, setChurnDays] = useState(90);
+  const [drill, setDrill] = useState<LifecycleDrill | null>(null);
+
+  // The lifecycle compares against the previous period (API default): the
+  // page's year-over-year comparison says little about a customer's decline
+  const query: LifecycleQuery = { startDate, endDate, groupBy, churnDays };
+  const { data, isLoading, isError } = useCustomerLifecycle(query);
+  const totals = data?.data.totals;
+  const groups = data?.data.groups ?? [];
+  const meta = data?.meta;
+
+  return (
+    <section className="border border-gray-200 rounded-lg p-4 sm:p-6 mb-6">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-base font-semibold text-zinc-900">Ciclo de vida de clientes</h2>
+          {meta && (
+            <p className="text-xs text-zinc-400 mt-1">
+              Comparado con {formatDateRangeLabel(parseISO(meta.comparison.startDate), parseISO(meta.comparison.endDate))}
+              {' · '}en riesgo con una caída de {meta.declinePct}% o más
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Select
+            aria-label="Días sin compra para considerar perdido"
+            size="sm"
+            className="w-40"
+            selectedKeys={[String(churnDays)]}
+            disallowEmptySelection
+            onSelectionChange={(keys) => {
+              const value = Array.from(keys)[0];
+              if (value) setChurnDays(Number(value));
+            }}
+          >
+            {CHURN_DAYS_OPTIONS.map((days) => (
+              <SelectItem key={String(days)}>{`Perdido: ${days} días`}</SelectItem>
+            ))}
+          </Select>
+          <Select
+            aria-label="Desglosar por"
+            size="sm"
+            className="w-48"
+            selectedKeys={[groupBy ?? NO_GROUP]}
+            disallowEmptySelection
+            onSelectionChange={(keys) => {
+              const value = String(Array.from(keys)[0] ?? NO_GROUP);
+              setGroupBy(value === NO_GROUP ? undefined : (value as GroupByDimension));
+            }}
+          >
+            {[
+              <SelectItem key={NO_GROUP}>Sin desglose</SelectItem>,
+              ...LIFECYCLE_GROUP_OPTIONS.map((dim) => (
+                <SelectItem key={dim}>{`Por ${getDimensionLabel(dim).toLowerCase()}`}</SelectItem>
+              )),
+            ]}
+          </Select>
+        </div>
+      </div>
+
+      {isError ? (
+        <p className="text-sm text-gray-400 py-6 text-center">No se pudo cargar el ciclo de vida de clientes</p>
+      ) : (
+        <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+          {LIFECYCLE_STATUSES.map((status) => (
+            <Tooltip key={status} content={LIFECYCLE_DESCRIPTIONS[status](churnDays, meta?.declinePct ?? 30)} placement="top">
+              <button
+                type="button"
+                className="text-left rounded-lg border border-gray-100 p-3 hover:bg-gray-50 disabled:cursor-default"
+                style={{ borderTop: `3px solid ${LIFECYCLE_COLORS[status]}` }}
+                disabled={!totals || totals[status].customers === 0}
+                onClick={() => setDrill({ status })}
+              >
+                <p className="text-xs font-semibold text-gray-600 tracking-wider mb-2">{LIFECYCLE_LABELS[status].toUpperCase()}</p>
+                {isLoading || !totals ? (
+                  <Skeleton className="h-7 w-20 rounded-lg" />
+                ) : (
+                  <>
+                    <p className="text-2xl font-semibold text-zinc-900 tabular-nums">
+                      {totals[status].customers.toLocaleString('es-CO')}
+                    </p>
+                    <p className="text-xs text-gray-500 tabular-nums mt-1">
+                      {status === 'churned'
+                        ? `$${formatCurrency(totals[status].previous_sales)} en el comparativo`
+                        : `$${formatCurrency(totals[status].sales)} en ventas`}
+                    </p>
+                  </>
+                )}
+              </button>
+            </Tooltip>
+          ))}
+        </div>
+      )}
+
+      {groupBy && !isError && groups.length > 0 && (
+        <div className="overflow-x-auto mt-6">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-xs font-semibold text-gray-600 tracking-wider border-b border-gray-200">
+                <th className="py-2 pr-4">{getDimensionLabel(groupBy)}</th>
+                {LIFECYCLE_STATUSES.map((status) => (
+                  <th key={status} className="py-2 pr-4 text-right">{LIFECYCLE_LABELS[status].toUpperCase()}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {groups.slice(0, MAX_GROUP_ROWS).map((group) => (
+                <tr key={group.id} className="border-b border-gray-100 text-[13px]">
+                  <td className="py-1.5 pr-4 font-medium text-zinc-900">{group.name}</td>
+                  {LIFECYCLE_STATUSES.map((status) => (
+                    <LifecycleCell
+                      key={status}
+                      classes={group.classes}
+                      status={status}
+                      onDrill={() => setDrill({ status, groupId: group.id, groupName: group.name })}
+                    />
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {groups.length > MAX_GROUP_ROWS && (
+            <p className="text-xs text-gray-400 mt-2">
+              Mostrando {MAX_GROUP_ROWS} de {groups.length.toLocaleString('es-CO')} grupos, los de mayores ventas.
+            </p>
+          )}
+        </div>
+      )}
+
+      <LifecycleCustomersModal query={query} drill={drill} onClose={() => setDrill(null)} />
+    </section>
+  );
+}
+
+interface LifecycleCellProps {
+  classes: LifecycleBreakdown;
+  status: LifecycleStatus;
+  onDrill: () => void;
+}
+
+/** Customers of a class in a group; opens their list when there are any */
+function LifecycleCell({ classes, status, onDrill }: LifecycleCellProps) {
+  const { customers, sales, previous_sales } = classes[status];
+  if (customers === 0) {
+    return <td className="py-1.5 pr-4 text-right text-gray-300">—</td>;
+  }
+  return (
+    <td className="py-1.5 pr-4 text-right tabular-nums">
+      <Tooltip content={`$${formatCurrency(status === 'churned' ? previous_sales : sales)}`} placement="top">
+        <button type="button" className="text-zinc-900 hover:underline" onClick={onDrill}>
+          {customers.toLocaleString('es-CO')}
+        </button>
+      </Tooltip>
+    </td>
+  );
+}
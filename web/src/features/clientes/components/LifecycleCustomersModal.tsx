@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import {
+  Modal,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Button,
+  Input,
+  Pagination,
+  Spinner,
+} from '@heroui/react';
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import { ExportMenuButton } from '@/core/components/ExportMenuButton';
+import { formatCurrency } from '@/core/utils/formatters';
+import type { ExportFormat } from '@/core/api/types';
+import { downloadExcel } from '@/features/campaigns/utils/downloadExcel';
+import {
+  buildLifecycleParams,
+  useLifecycleCustomers,
+  type LifecycleQuery,
+  type LifecycleStatus,
+} from '../hooks/useCustomerLifecycle';
+import { LIFECYCLE_LABELS } from '../config/lifecycle';
+
+const PAGE_SIZE = 50;
+
+/** The summary cell being drilled into */
+export interface LifecycleDrill {
+  status?: LifecycleStatus | undefined;
+  /** groupBy value of the row (absent for the totals row) */
+  groupId?: string | undefined;
+  groupName?: string | undefined;
+}
+
+interface LifecycleCustomersModalProps {
+  query: LifecycleQuery;
+  /** Open while set */
+  drill: LifecycleDrill | null;
+  onClose: () => void;
+}
+
+/**
+ * Drill-down of a lifecycle summary cell: the customers of the class (and
+ * group) with their purchase dates and sales, searchable, paginated and
+ * exportable.
+ */
+export function LifecycleCustomersModal({ query, drill, onClose }: LifecycleCustomersModalProps) {
+  return (
+    <Modal isOpen={drill !== null} onOpenChange={(open) => !open && onClose()} size="5xl" className="max-w-7xl">
+      <ModalContent>
+        {/* Keyed by cell so search and page start over on every drill */}
+        {drill && (
+          <LifecycleCustomersContent
+            key={`${drill.status ?? ''}|${drill.groupId ?? ''}`}
+            query={query}
+            drill={drill}
+            onClose={onClose}
+          />
+        )}
+      </ModalContent>
+    </Modal>
+  );
+}
+
+function LifecycleCustomersContent({ query, drill, onClose }: LifecycleCustomersModalProps & { drill: LifecycleDrill }) {
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const listQuery = {
+    ...query,
+    status: drill.status,
+    // The totals row spans every group
+    groupBy: drill.groupId !== undefined ? query.groupBy : undefined,
+    groupId: drill.groupId,
+    search,
+  };
+  const { data, isLoading, isFetching } = useLifecycleCustomers({ ...listQuery, page, limit: PAGE_SIZE }, true);
+  const rows = data?.data ?? [];
+  const total = data?.meta.total ?? 0;
+  const totalPages = data?.meta.totalPages ?? 0;
+
+  const title = drill.status ? `Clientes ${LIFECYCLE_LABELS[drill.status].toLowerCase()}` : 'Clientes';
+
+  const handleExport = async (fileFormat: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      const params = buildLifecycleParams(listQuery);
+      if (fileFormat !== 'xlsx') params.set('format', fileFormat);
+      const filename = [
+        'Clientes',
+        drill.status ? LIFECYCLE_LABELS[drill.status] : null,
+        drill.groupName ?? null,
+        `${format(query.startDate, 'yyyyMMdd')}-${format(query.endDate, 'yyyyMMdd')}`,
+      ].filter(Boolean).join('_');
+      params.set('filename', filename);
+      await downloadExcel('/api/customers/lifecycle/customers/export', params, filename, fileFormat);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <ModalHeader className="flex flex-col gap-1">
+        {title}
+        {drill.groupName && <span className="text-sm font-normal text-gray-500">{drill.groupName}</span>}
+      </ModalHeader>
+      <ModalBody>
+        <div className="flex items-center justify-between gap-3">
+          <Input
+            size="sm"
+            className="max-w-xs"
+            placeholder="Buscar por NIT o cliente"
+            aria-label="Buscar cliente"
+            startContent={<MagnifyingGlassIcon className="h-4 w-4 text-gray-400" />}
+            value={search}
+            onValueChange={(value) => {
+              setSearch(value);
+              setPage(1);
+            }}
+            isClearable
+          />
+          <span className="text-sm text-gray-500 shrink-0">
+            {isFetching ? <Spinner size="sm" /> : `${total.toLocaleString('es-CO')} clientes`}
+          </span>
+        </div>
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Spinner label="Cargando clientes..." />
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="text-sm text-gray-400 py-10 text-center">Sin resultados</div>
+        ) : (
+          <div className="overflow-y-auto max-h-[60vh]">
+            <table className="w-full text-left">
+              <thead className="sticky top-0 z-10 bg-white shadow-[0_1px_0_0_theme(colors.gray.200)]">
+                <tr className="text-xs font-semibold text-gray-600 tracking-wider">
+                  <th className="py-2 pr-4">NIT</th>
+                  <th className="py-2 pr-4">CLIENTE</th>
+                  {!drill.status && <th className="py-2 pr-4">ESTADO</th>}
+                  <th className="py-2 pr-4">ÚLTIMA COMPRA</th>
+                  <th className="py-2 pr-4 text-right">DÍAS SIN COMPRA</th>
+                  <th className="py-2 pr-4 text-right">VENTAS</th>
+                  <th className="py-2 pr-4 text-right">VENTAS COMP.</th>
+                  <th className="py-2 text-right">VARIACIÓN</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r) => (
+                  <tr key={`${r.customer_id}|${r.group_id ?? ''}`} className="border-b border-gray-100 text-[13px]">
+                    <td className="py-1.5 pr-4 font-mono text-gray-500">{r.customer_id}</td>
+                    <td className="py-1.5 pr-4 font-medium text-zinc-900">{r.customer_name}</td>
+                    {!drill.status && <td className="py-1.5 pr-4 text-gray-600">{LIFECYCLE_LABELS[r.status]}</td>}
+                    <td className="py-1.5 pr-4 text-gray-600">{r.last_purchase}</td>
+                    <td className="py-1.5 pr-4 text-right tabular-nums text-gray-600">{r.days_since_last}</td>
+                    <td className="py-1.5 pr-4 text-right tabular-nums">{formatCurrency(r.sales)}</td>
+                    <td className="py-1.5 pr-4 text-right tabular-nums text-gray-600">{formatCurrency(r.previous_sales)}</td>
+                    <td className={`py-1.5 text-right tabular-nums ${r.sales_change < 0 ? 'text-red-600' : 'text-gray-600'}`}>
+                      {formatCurrency(r.sales_change)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {totalPages > 1 && (
+          <div className="flex justify-center">
+            <Pagination showControls page={page} total={totalPages} onChange={setPage} size="sm" variant="light" />
+          </div>
+        )}
+      </ModalBody>
+      <ModalFooter>
+        <Button variant="light" onPress={onClose}>
+          Cerrar
+        </Button>
+        <ExportMenuButton isExporting={isExporting} disabled={isLoading || total === 0} onExport={handleExport} />
+      </ModalFooter>
+    </>
+  );
+}
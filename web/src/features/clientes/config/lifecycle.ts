@@ -0,0 +1,47 @@
+import type { GroupByDimension } from '@/core/api/hooks/useList';
+import type { LifecycleStatus } from '../hooks/useCustomerLifecycle';
+
+/**
+ * Customer lifecycle configuration (Multivariados / Clientes).
+ */
+
+export const LIFECYCLE_LABELS: Record<LifecycleStatus, string> = {
+  new: 'Nuevos',
+  retained: 'Retenidos',
+  reactivated: 'Reactivados',
+  at_risk: 'En riesgo',
+  churned: 'Perdidos',
+};
+
+/** One-line definition of each class (card tooltips). */
+export const LIFECYCLE_DESCRIPTIONS: Record<LifecycleStatus, (churnDays: number, declinePct: number) => string> = {
+  new: () => 'Primera compra dentro del período',
+  retained: (churnDays) => `Compraron en el período y en los ${churnDays} días anteriores`,
+  reactivated: (churnDays) => `Volvieron a comprar tras más de ${churnDays} días sin compra`,
+  at_risk: (churnDays, declinePct) =>
+    `Ventas ${declinePct}% o más por debajo del comparativo, o aún sin compra en el período (menos de ${churnDays} días)`,
+  churned: (churnDays) => `Superaron ${churnDays} días sin compra durante el período`,
+};
+
+/** Class accent colors, from healthy to lost. */
+export const LIFECYCLE_COLORS: Record<LifecycleStatus, string> = {
+  new: '#a5b4c8',
+  retained: '#b08d57',
+  reactivated: '#d4b483',
+  at_risk: '#e8a87c',
+  churned: '#9ca3af',
+};
+
+/** Dimensions offered to break the classes down by. */
+export const LIFECYCLE_GROUP_OPTIONS: GroupByDimension[] = [
+  'IdRegional',
+  'seller_id',
+  'SegmentacionCliente',
+  'ClasifRiesgo',
+  'customer_department',
+  'customer_city',
+  'CentroOperaciones',
+];
+
+/** Churn thresholds offered in the selector (days without a purchase). */
+export const CHURN_DAYS_OPTIONS = [30, 60, 90, 180, 365];
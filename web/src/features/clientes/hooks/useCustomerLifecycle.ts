@@ -0,0 +1,127 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { apiClient } from '@/core/api/client';
+import { appendComparisonParams } from '@/core/utils/comparisonPeriod';
+import type { GroupByDimension } from '@/core/api/hooks/useList';
+import type { ComparisonParams, ComparisonPeriod } from '@/core/api/types';
+
+/**
+ * Lifecycle class of a customer in the period (see /api/customers/lifecycle):
+ * new, retained, reactivated, at risk (declining or lapsing) or churned.
+ */
+export type LifecycleStatus = 'new' | 'retained' | 'reactivated' | 'at_risk' | 'churned';
+
+export const LIFECYCLE_STATUSES: LifecycleStatus[] = ['new', 'retained', 'reactivated', 'at_risk', 'churned'];
+
+export interface LifecycleClass {
+  customers: number;
+  /** Sales in the period */
+  sales: number;
+  /** Sales in the comparison window */
+  previous_sales: number;
+}
+
+export type LifecycleBreakdown = Record<LifecycleStatus, LifecycleClass>;
+
+export interface LifecycleMeta {
+  startDate: string;
+  endDate: string;
+  comparison: ComparisonPeriod;
+  churnDays: number;
+  declinePct: number;
+  groupBy: string | null;
+}
+
+export interface LifecycleResponse {
+  data: {
+    totals: LifecycleBreakdown;
+    /** Per groupBy value, largest first (empty without groupBy) */
+    groups: Array<{ id: string; name: string; classes: LifecycleBreakdown }>;
+  };
+  meta: LifecycleMeta;
+}
+
+export interface LifecycleCustomer {
+  customer_id: string;
+  customer_name: string;
+  status: LifecycleStatus;
+  group_id: string | null;
+  group_name: string | null;
+  first_purchase: string;
+  last_purchase: string;
+  /** Days from the last purchase to endDate */
+  days_since_last: number;
+  sales: number;
+  previous_sales: number;
+  sales_change: number;
+}
+
+export interface LifecycleCustomersResponse {
+  data: LifecycleCustomer[];
+  meta: LifecycleMeta & { total: number; page: number; limit: number; totalPages: number };
+}
+
+/** Period, thresholds and grouping shared by the summary, the list and its export */
+export interface LifecycleQuery {
+  startDate: Date;
+  endDate: Date;
+  comparison?: ComparisonParams | undefined;
+  groupBy?: GroupByDimension | undefined;
+  churnDays?: number | undefined;
+  declinePct?: number | undefined;
+}
+
+/** Drill-down into one summary cell */
+export interface LifecycleCustomersQuery extends LifecycleQuery {
+  status?: LifecycleStatus | undefined;
+  groupId?: string | undefined;
+  search?: string | undefined;
+  page: number;
+  limit: number;
+}
+
+/** Query string of the lifecycle endpoints (also used by the export) */
+export function buildLifecycleParams(query: LifecycleQuery & Partial<LifecycleCustomersQuery>): URLSearchParams {
+  const params = new URLSearchParams({
+    startDate: format(query.startDate, 'yyyy-MM-dd'),
+    endDate: format(query.endDate, 'yyyy-MM-dd'),
+  });
+  appendComparisonParams(params, query.comparison);
+  if (query.groupBy) params.set('groupBy', query.groupBy);
+  if (query.churnDays !== undefined) params.set('churnDays', String(query.churnDays));
+  if (query.declinePct !== undefined) params.set('declinePct', String(query.declinePct));
+  if (query.status) params.set('lifecycleStatus', query.status);
+  if (query.groupId !== undefined) params.set('groupId', query.groupId);
+  if (query.search?.trim()) params.set('search', query.search.trim());
+  if (query.page !== undefined) params.set('page', String(query.page));
+  if (query.limit !== undefined) params.set('limit', String(query.limit));
+  return params;
+}
+
+export function useCustomerLifecycle(query: LifecycleQuery) {
+  const params = buildLifecycleParams(query).toString();
+
+  return useQuery({
+    queryKey: ['customer-lifecycle', params],
+    queryFn: () => apiClient<LifecycleResponse>(`/api/customers/lifecycle?${params}`),
+    staleTime: 1000 * 60 * 5,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Paginated customers of a lifecycle class (fetched only while the
+ * drill-down is open)
+ */
+export function useLifecycleCustomers(query: LifecycleCustomersQuery, enabled: boolean) {
+  const params = buildLifecycleParams(query).toString();
+
+  return useQuery({
+    queryKey: ['customer-lifecycle-customers', params],
+    queryFn: () => apiClient<LifecycleCustomersResponse>(`/api/customers/lifecycle/customers?${params}`),
+    staleTime: 1000 * 60 * 5,
+    placeholderData: keepPreviousData,
+    refetchOnWindowFocus: false,
+    enabled,
+  });
+}
@@ -1,15 +1,21 @@
 import { AnalyticsPage } from '@/core/components/analytics/AnalyticsPage';
+import { CustomerLifecycleSection } from '../components/CustomerLifecycleSection';
 
 export function ClientesPage() {
   return (
-    <AnalyticsPage
-      title="Multivariados / Clientes"
-      groupBy="SegmentacionCliente"
-      totalsLabel="TOTAL CLIENTES:"
-      hideBudgetColumns={true}
-      hideRetainedColumn={true}
-      showSearch
-      enableFilters
-    />
+    <>
+      <AnalyticsPage
+        title="Multivariados / Clientes"
+        groupBy="SegmentacionCliente"
+        totalsLabel="TOTAL CLIENTES:"
+        hideBudgetColumns={true}
+        hideRetainedColumn={true}
+        showSearch
+        enableFilters
+      />
+      <div className="mt-8">
+        <CustomerLifecycleSection />
+      </div>
+    </>
   );
 }
@@ -2,11 +2,13 @@ import { useState, useEffect } from 'react';
 import { Modal, ModalContent, ModalHeader, ModalBody, ModalFooter, Button, Input } from '@heroui/react';
 import { useDateRange } from '@/core/hooks/useDateRange';
 import { AVAILABLE_DATA_RANGE } from '@/core/config/dateRangeConfig';
-import { format } from 'date-fns';
+import { format, subYears } from 'date-fns';
 
 interface CustomDateRangePickerProps {
   isOpen: boolean;
   onClose: () => void;
+  /** 'comparison' edits the comparison window instead of the reporting range */
+  target?: 'range' | 'comparison';
 }
 
 const formatDateInput = (value: string): string => {
@@ -25,20 +27,28 @@ const parseDateInput = (value: string): Date | null => {
   return date;
 };
 
-export function CustomDateRangePicker({ isOpen, onClose }: CustomDateRangePickerProps) {
-  const { startDate, endDate, preset, setCustomRange } = useDateRange();
+export function CustomDateRangePicker({ isOpen, onClose, target = 'range' }: CustomDateRangePickerProps) {
+  const {
+    startDate, endDate, preset, setCustomRange, compareStartDate, compareEndDate, setCustomComparison,
+  } = useDateRange();
+  const isComparison = target === 'comparison';
 
   const [tempStart, setTempStart] = useState('');
   const [tempEnd, setTempEnd] = useState('');
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    if (isOpen) {
+    if (!isOpen) return;
+    if (isComparison) {
+      // Start from the current comparison window, or the same range a year earlier
+      setTempStart(format(compareStartDate ?? subYears(startDate, 1), 'dd-MM-yyyy'));
+      setTempEnd(format(compareEndDate ?? subYears(endDate, 1), 'dd-MM-yyyy'));
+    } else {
       setTempStart(format(startDate, 'dd-MM-yyyy'));
       setTempEnd(format(preset === 'custom' ? endDate : new Date(), 'dd-MM-yyyy'));
-      setError(null);
     }
-  }, [isOpen, startDate, endDate, preset]);
+    setError(null);
+  }, [isOpen, isComparison, startDate, endDate, preset, compareStartDate, compareEndDate]);
 
   const handleApply = () => {
     const startDateObj = parseDateInput(tempStart);
@@ -59,7 +69,11 @@ export function CustomDateRangePicker({ isOpen, onClose }: CustomDateRangePicker
       return;
     }
 
-    setCustomRange(startDateObj, endDateObj);
+    if (isComparison) {
+      setCustomComparison(startDateObj, endDateObj);
+    } else {
+      setCustomRange(startDateObj, endDateObj);
+    }
     setError(null);
     onClose();
   };
@@ -73,7 +87,7 @@ export function CustomDateRangePicker({ isOpen, onClose }: CustomDateRangePicker
     <Modal isOpen={isOpen} onClose={handleClose}>
       <ModalContent>
         <ModalHeader>
-          <h3 className="text-lg font-semibold">Rango Personalizado</h3>
+          <h3 className="text-lg font-semibold">{isComparison ? 'Rango de Comparación' : 'Rango Personalizado'}</h3>
         </ModalHeader>
         <ModalBody>
           <div className="flex flex-col gap-4">
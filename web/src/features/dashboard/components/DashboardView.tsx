@@ -1,8 +1,9 @@
 import type { ReactNode } from 'react';
-import { subDays, startOfMonth, subMonths } from 'date-fns';
+import { subDays, startOfMonth, endOfMonth, subMonths } from 'date-fns';
 import { useDateRange } from '@/core/hooks/useDateRange';
 import { useBalance } from '@/core/api/hooks/useBalance';
 import { useBalanceSeries } from '@/core/api/hooks/useBalanceSeries';
+import { useBalancePacing } from '@/core/api/hooks/useBalancePacing';
 import { formatCurrency, formatPercentage, formatPercentageWithSign } from '@/core/utils/formatters';
 import { getSalesMetric } from '@/core/utils/salesMetric';
 import { PrimaryMetricCard } from './PrimaryMetricCard';
@@ -10,10 +11,22 @@ import { MetricCard } from './MetricCard';
 import { PageHeader } from '@/core/components/PageHeader';
 import { SegmentDistributionChart } from './SegmentDistributionChart';
 import { SalesBarChart } from './SalesBarChart';
+import { MoversPanel } from './MoversPanel';
+import { PriceVolumeMixPanel } from './PriceVolumeMixPanel';
+import type { BalanceSeriesOptions, ComparisonParams } from '@/core/api/types';
 
 // Presets shown with daily granularity in the sales trend chart
 const DAY_PRESETS = ['today', 'current-month'] as const;
 
+// Run-rate lines of the trend chart: month-to-date per day, year-to-date per month
+const RUN_RATE_OPTIONS = {
+  day: { transform: 'mtd' },
+  month: { transform: 'ytd' },
+} as const satisfies Record<'day' | 'month', BalanceSeriesOptions>;
+
+// Periods the current month is paced against, by business day
+const PACING_COMPARISONS: NonNullable<ComparisonParams['compareMode']>[] = ['previous_month', 'previous_year'];
+
 function getChartConfig(preset: ReturnType<typeof useDateRange>['preset'], endDate: Date) {
   const isDay = typeof preset === 'string' && (DAY_PRESETS as readonly string[]).includes(preset);
   const granularity: 'day' | 'month' = isDay ? 'day' : 'month';
@@ -48,22 +61,29 @@ interface DashboardViewProps {
  * an entity filter to scope every metric/chart to a single regional/seller/customer.
  */
 export function DashboardView({ title, chip, breadcrumbs, filters, segmentEntityOptions, segmentDefaultEntity, footer }: DashboardViewProps) {
-  const { startDate, endDate, preset } = useDateRange();
-  const { data, isLoading } = useBalance(startDate, endDate, preset, filters);
+  const { startDate, endDate, preset, comparison, comparisonLabels } = useDateRange();
+  const { data, isLoading } = useBalance(startDate, endDate, preset, filters, comparison);
 
   // For prorated presets (today / current month) the budget shown is partial;
   // also surface the full month budget + its compliance, which must always use
   // the WHOLE current month's sales + orders (month-to-date), not the selected
-  // range. We fetch a current-month balance for that card; for other presets we
-  // reuse the same range so react-query dedupes (no extra request).
+  // range. We fetch a current-month balance for that card (with the projected
+  // month close); for other presets we reuse the same range so react-query
+  // dedupes (no extra request).
   const isDailyPreset = typeof preset === 'string' && (DAY_PRESETS as readonly string[]).includes(preset);
   const monthStart = isDailyPreset ? startOfMonth(endDate) : startDate;
   const monthPreset = isDailyPreset ? 'current-month' : preset;
-  const { data: monthData } = useBalance(monthStart, endDate, monthPreset, filters);
+  const { data: monthData } = useBalance(
+    monthStart,
+    endDate,
+    monthPreset,
+    filters,
+    isDailyPreset ? undefined : comparison,
+    isDailyPreset ? 'linear' : undefined
+  );
   const monthBalance = monthData?.data;
 
   const balanceData = data?.data;
-  const previousYear = endDate.getFullYear() - 1;
   const salesMetric = getSalesMetric(balanceData, preset);
 
   const { granularity, chartStart, chartEnd } = getChartConfig(preset, endDate);
@@ -73,6 +93,23 @@ export function DashboardView({ title, chip, breadcrumbs, filters, segmentEntity
     granularity,
     filters
   );
+  const { data: runRateData } = useBalanceSeries(
+    chartStart,
+    chartEnd,
+    granularity,
+    filters,
+    RUN_RATE_OPTIONS[granularity]
+  );
+  // Current month: overlay last month and the same month last year, aligned
+  // by business day over the whole month
+  const { data: pacingData } = useBalancePacing(
+    startOfMonth(endDate),
+    endOfMonth(endDate),
+    PACING_COMPARISONS,
+    filters,
+    'business_day',
+    preset === 'current-month'
+  );
 
   return (
     <div>
@@ -84,7 +121,7 @@ export function DashboardView({ title, chip, breadcrumbs, filters, segmentEntity
           <PrimaryMetricCard
             label={salesMetric.label}
             mainValue={`$ ${balanceData ? formatCurrency(salesMetric.current) : '0'}`}
-            secondaryLabel={`Año anterior (${previousYear})`}
+            secondaryLabel={comparisonLabels.title}
             secondaryValue={`$ ${balanceData ? formatCurrency(salesMetric.lastYear) : '0'}`}
             isLoading={isLoading}
           />
@@ -102,7 +139,7 @@ export function DashboardView({ title, chip, breadcrumbs, filters, segmentEntity
                 </span>
               )
             }
-            description="vs año anterior"
+            description={comparisonLabels.vsLabel}
             isLoading={isLoading}
             centered
           />
@@ -127,7 +164,7 @@ export function DashboardView({ title, chip, breadcrumbs, filters, segmentEntity
                 ? `${formatPercentage((balanceData.gross_margin / balanceData.sales) * 100)}%`
                 : '0%'
             }
-            secondaryLabel={`Año anterior (${previousYear})`}
+            secondaryLabel={comparisonLabels.title}
             secondaryValue={
               balanceData && balanceData.sales_last_year > 0
                 ? `${formatPercentage((balanceData.gross_margin_last_year / balanceData.sales_last_year) * 100)}%`
@@ -156,7 +193,7 @@ export function DashboardView({ title, chip, breadcrumbs, filters, segmentEntity
                   })()
                 : '0%'
             }
-            description="vs año anterior"
+            description={comparisonLabels.vsLabel}
             isLoading={isLoading}
             centered
           />
@@ -192,7 +229,7 @@ export function DashboardView({ title, chip, breadcrumbs, filters, segmentEntity
 
       {/* Cartera */}
       <div className="mt-8 border border-gray-200 rounded-lg p-4 sm:p-6">
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-8">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-8">
           <MetricCard
             label="CARTERA"
             value={`$ ${balanceData ? formatCurrency(balanceData.cartera) : '0'}`}
@@ -208,6 +245,27 @@ export function DashboardView({ title, chip, breadcrumbs, filters, segmentEntity
               isLoading={isLoading}
             />
           )}
+
+          {isDailyPreset && (
+            <MetricCard
+              label="CIERRE PROYECTADO"
+              value={
+                monthBalance?.projected_close == null ? (
+                  <span className="text-gray-500">N/A</span>
+                ) : (
+                  <span className={(monthBalance.projected_gap ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}>
+                    $ {formatCurrency(monthBalance.projected_close)}
+                  </span>
+                )
+              }
+              description={
+                monthBalance?.required_daily_sales != null && monthBalance.required_daily_sales > 0
+                  ? `Venta diaria necesaria: $ ${formatCurrency(monthBalance.required_daily_sales)}`
+                  : 'Ritmo por días hábiles'
+              }
+              isLoading={isLoading}
+            />
+          )}
         </div>
       </div>
 
@@ -218,9 +276,23 @@ export function DashboardView({ title, chip, breadcrumbs, filters, segmentEntity
           granularity={granularity}
           title={`Tendencia de ventas — últimos 12 ${granularity === 'day' ? 'días' : 'meses'}`}
           isLoading={seriesLoading}
+          runRate={runRateData?.data}
+          pacing={preset === 'current-month' ? pacingData?.data.days : undefined}
         />
       </div>
 
+      {/* Movimientos y días atípicos */}
+      <div className="mt-8 border border-gray-200 rounded-lg p-4 sm:p-6">
+        <MoversPanel
+          filters={filters}
+          entityOptions={segmentEntityOptions}
+          defaultEntity={segmentDefaultEntity}
+        />
+      </div>
+
+      {/* Precio, volumen y mix (sin cantidades en los datos no se muestra) */}
+      <PriceVolumeMixPanel filters={filters} />
+
       {/* Análisis IA */}
       <div className="mt-8 border border-gray-200 rounded-lg p-4 sm:p-6">
         <SegmentDistributionChart
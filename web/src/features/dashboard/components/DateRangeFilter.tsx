@@ -3,8 +3,8 @@ import { Select, SelectItem, SelectSection } from '@heroui/react';
 import { CalendarIcon } from '@heroicons/react/24/outline';
 import { useDateRange } from '@/core/hooks/useDateRange';
 import { getAvailableYears } from '@/core/utils/dateRangePresets';
-import type { DateRangePreset } from '@/core/config/dateRangeConfig';
-import { PRESET_LABELS } from '@/core/config/dateRangeConfig';
+import type { ComparisonMode, DateRangePreset } from '@/core/config/dateRangeConfig';
+import { COMPARISON_LABELS, PRESET_LABELS } from '@/core/config/dateRangeConfig';
 import { CustomDateRangePicker } from './CustomDateRangePicker';
 
 interface PresetOption {
@@ -12,9 +12,12 @@ interface PresetOption {
   label: string;
 }
 
+const comparisonModes: ComparisonMode[] = ['previous_year', 'previous_period', 'previous_month', 'two_years_ago'];
+
 export function DateRangeFilter() {
-  const { preset, setPreset } = useDateRange();
+  const { preset, setPreset, compareMode, setCompareMode, comparisonLabels } = useDateRange();
   const [isCustomPickerOpen, setIsCustomPickerOpen] = useState(false);
+  const [isComparisonPickerOpen, setIsComparisonPickerOpen] = useState(false);
 
   const mainPresets: PresetOption[] = [
     { value: 'previous-month', label: PRESET_LABELS['previous-month'] },
@@ -48,11 +51,20 @@ export function DateRangeFilter() {
     }
   };
 
+  const handleComparisonChange = (value: ComparisonMode) => {
+    if (value === 'custom') {
+      setIsComparisonPickerOpen(true);
+    } else {
+      setCompareMode(value);
+    }
+  };
+
   // Memoize selectedKeys to prevent unnecessary re-renders
   const selectedKeys = useMemo(() => [preset.toString()], [preset]);
+  const selectedComparisonKeys = useMemo(() => [compareMode], [compareMode]);
 
   return (
-    <>
+    <div className="flex flex-col gap-2">
       <Select
         label="Temporalidad"
         variant="bordered"
@@ -117,10 +129,58 @@ export function DateRangeFilter() {
         </SelectSection>
       </Select>
 
+      <Select
+        label="Comparar con"
+        size="sm"
+        variant="bordered"
+        disallowEmptySelection={false}
+        selectedKeys={selectedComparisonKeys}
+        onSelectionChange={(keys) => {
+          const selected = Array.from(keys);
+          // Re-selecting the custom window reopens the picker
+          if (selected.length === 0 && compareMode === 'custom') {
+            setIsComparisonPickerOpen(true);
+            return;
+          }
+          const value = selected[0] as ComparisonMode | undefined;
+          if (value) handleComparisonChange(value);
+        }}
+        renderValue={() => comparisonLabels.title}
+        className="w-full"
+        classNames={{
+          trigger: 'cursor-pointer !border',
+        }}
+        listboxProps={{
+          itemClasses: {
+            base: 'cursor-pointer',
+          },
+        }}
+      >
+        <SelectSection showDivider>
+          {comparisonModes.map((mode) => (
+            <SelectItem key={mode} className="!cursor-pointer" style={{ cursor: 'pointer' }}>
+              {COMPARISON_LABELS[mode]}
+            </SelectItem>
+          ))}
+        </SelectSection>
+
+        <SelectSection>
+          <SelectItem key="custom" className="!cursor-pointer" style={{ cursor: 'pointer' }}>
+            Rango personalizado...
+          </SelectItem>
+        </SelectSection>
+      </Select>
+
       <CustomDateRangePicker
         isOpen={isCustomPickerOpen}
         onClose={() => setIsCustomPickerOpen(false)}
       />
-    </>
+
+      <CustomDateRangePicker
+        target="comparison"
+        isOpen={isComparisonPickerOpen}
+        onClose={() => setIsComparisonPickerOpen(false)}
+      />
+    </div>
   );
 }
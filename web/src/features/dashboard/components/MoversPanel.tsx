@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { Tabs, Tab, Skeleton } from '@heroui/react';
+import { useDateRange } from '@/core/hooks/useDateRange';
+import { useMovers } from '@/core/api/hooks/useMovers';
+import type { Mover, SalesOutlier } from '@/core/api/types';
+import { formatCurrency, formatPercentageWithSign } from '@/core/utils/formatters';
+
+const ENTITY_OPTIONS = [
+  { key: 'seller_id', label: 'Vendedores' },
+  { key: 'customer_id', label: 'Clientes' },
+  { key: 'product_id', label: 'Productos' },
+] as const;
+
+type Ranking = 'absolute' | 'relative';
+
+const MOVERS_LIMIT = 5;
+
+function MoverList({ title, movers, ranking }: { title: string; movers: Mover[]; ranking: Ranking }) {
+  return (
+    <div>
+      <div className="text-xs text-gray-500 mb-2 font-medium">{title}</div>
+      {movers.length === 0 ? (
+        <div className="text-xs text-gray-400 py-2">Sin movimientos</div>
+      ) : (
+        <ul className="space-y-1.5">
+          {movers.map((m) => (
+            <li key={m.id} className="flex items-center justify-between gap-3 text-sm">
+              <span className="truncate text-gray-700" title={m.name}>{m.name}</span>
+              <span className={`shrink-0 tabular-nums ${m.change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {ranking === 'absolute' || m.change_pct === null
+                  ? `${m.change >= 0 ? '+' : '-'}$ ${formatCurrency(Math.abs(m.change))}`
+                  : `${formatPercentageWithSign(m.change_pct)}%`}
+                {m.contribution_pp !== null && (
+                  <span className="ml-2 text-[10px] text-gray-500">{formatPercentageWithSign(m.contribution_pp)}pp</span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function OutlierList({ outliers }: { outliers: SalesOutlier[] }) {
+  return (
+    <div>
+      <div className="text-xs text-gray-500 mb-2 font-medium">Días atípicos</div>
+      {outliers.length === 0 ? (
+        <div className="text-xs text-gray-400 py-2">Sin días atípicos en el periodo</div>
+      ) : (
+        <ul className="space-y-1.5">
+          {outliers.map((o) => (
+            <li key={`${o.id}-${o.date}`} className="flex items-center justify-between gap-3 text-sm">
+              <span className="truncate text-gray-700" title={o.name}>
+                <span className="text-gray-500 tabular-nums mr-2">{o.date}</span>
+                {o.name}
+              </span>
+              <span className={`shrink-0 tabular-nums ${o.direction === 'spike' ? 'text-green-600' : 'text-red-600'}`}>
+                {o.direction === 'spike' ? '▲' : '▼'} $ {formatCurrency(o.sales)}
+                <span className="ml-2 text-[10px] text-gray-500">mediana $ {formatCurrency(o.median_sales)}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface MoversPanelProps {
+  filters?: Record<string, string>;
+  /** Restrict the entity selector to these keys. */
+  entityOptions?: string[];
+  /** Default selected entity. */
+  defaultEntity?: string;
+}
+
+/**
+ * Compact top movers panel: the groups that gained and lost the most sales
+ * against the comparison period (with the points of growth each explains)
+ * and the days whose sales broke with a group's usual sales
+ */
+export function MoversPanel({ filters, entityOptions, defaultEntity }: MoversPanelProps) {
+  const visibleEntityOptions = entityOptions
+    ? ENTITY_OPTIONS.filter((o) => entityOptions.includes(o.key))
+    : ENTITY_OPTIONS;
+
+  const [entityType, setEntityType] = useState(defaultEntity ?? visibleEntityOptions[0]?.key ?? 'seller_id');
+  const [ranking, setRanking] = useState<Ranking>('absolute');
+  const { startDate, endDate, comparison, comparisonLabels } = useDateRange();
+  const { data, isLoading } = useMovers(startDate, endDate, entityType, MOVERS_LIMIT, filters, comparison);
+  const movers = data?.data;
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-5">
+        <h3 className="text-sm font-semibold text-gray-700">Movimientos {comparisonLabels.vsLabel}</h3>
+        <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3">
+          <Tabs size="sm" selectedKey={ranking} onSelectionChange={(key) => setRanking(key as Ranking)}>
+            <Tab key="absolute" title="Absoluto" />
+            <Tab key="relative" title="Relativo" />
+          </Tabs>
+          {visibleEntityOptions.length > 1 && (
+            <Tabs
+              size="sm"
+              selectedKey={entityType}
+              onSelectionChange={(key) => setEntityType(key as string)}
+            >
+              {visibleEntityOptions.map((opt) => (
+                <Tab key={opt.key} title={opt.label} />
+              ))}
+            </Tabs>
+          )}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-24 w-full rounded-xl" />
+          <Skeleton className="h-16 w-full rounded-xl" />
+        </div>
+      ) : !movers ? (
+        <div className="text-center text-sm text-gray-400 py-8">
+          Sin datos para el periodo seleccionado
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-10">
+            <MoverList title="Suben" movers={movers.gainers[ranking]} ranking={ranking} />
+            <MoverList title="Bajan" movers={movers.decliners[ranking]} ranking={ranking} />
+          </div>
+          <OutlierList outliers={movers.outliers} />
+        </div>
+      )}
+    </div>
+  );
+}
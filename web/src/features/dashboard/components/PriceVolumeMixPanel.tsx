@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { Tabs, Tab } from '@heroui/react';
+import { useDateRange } from '@/core/hooks/useDateRange';
+import { usePriceVolumeMix } from '@/core/api/hooks/usePriceVolumeMix';
+import type { PvmItemLevel } from '@/core/api/types';
+import { formatCurrency } from '@/core/utils/formatters';
+import { VarianceWaterfallChart } from './VarianceWaterfallChart';
+
+const ITEM_LEVEL_OPTIONS: { key: PvmItemLevel; label: string }[] = [
+  { key: 'product_id', label: 'Producto' },
+  { key: 'Marca', label: 'Marca' },
+  { key: 'Categoria', label: 'Categoría' },
+];
+
+type VarianceValue = 'sales' | 'gross_margin';
+
+// The effects are computed per regional and summed
+const GROUP_BY = 'IdRegional';
+
+interface PriceVolumeMixPanelProps {
+  filters?: Record<string, string>;
+}
+
+/**
+ * Why sales (or margin) changed against the comparison period: price, volume,
+ * mix and new/lost item effects as a waterfall. Hidden when the data has no
+ * quantities to decompose.
+ */
+export function PriceVolumeMixPanel({ filters }: PriceVolumeMixPanelProps) {
+  const [itemLevel, setItemLevel] = useState<PvmItemLevel>('product_id');
+  const [value, setValue] = useState<VarianceValue>('sales');
+  const { startDate, endDate, comparison, comparisonLabels } = useDateRange();
+  const { data, isLoading, isError } = usePriceVolumeMix(startDate, endDate, GROUP_BY, itemLevel, filters, comparison);
+
+  if (isError) {
+    return null;
+  }
+
+  const totals = data?.data.totals;
+  const breakdown = totals?.[value];
+
+  return (
+    <div className="mt-8 border border-gray-200 rounded-lg p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-5">
+        <h3 className="text-sm font-semibold text-gray-700">Precio, volumen y mix {comparisonLabels.vsLabel}</h3>
+        <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3">
+          <Tabs size="sm" selectedKey={value} onSelectionChange={(key) => setValue(key as VarianceValue)}>
+            <Tab key="sales" title="Ventas" />
+            <Tab key="gross_margin" title="Margen" />
+          </Tabs>
+          <Tabs size="sm" selectedKey={itemLevel} onSelectionChange={(key) => setItemLevel(key as PvmItemLevel)}>
+            {ITEM_LEVEL_OPTIONS.map((opt) => (
+              <Tab key={opt.key} title={opt.label} />
+            ))}
+          </Tabs>
+        </div>
+      </div>
+
+      <VarianceWaterfallChart
+        breakdown={breakdown}
+        previousLabel={comparisonLabels.label.toUpperCase()}
+        currentLabel="ACTUAL"
+        isLoading={isLoading}
+      />
+
+      {totals && breakdown && (
+        <div className="flex flex-wrap gap-x-6 gap-y-1 mt-3 text-xs text-gray-600">
+          <span>
+            Variación:{' '}
+            <strong className={breakdown.change >= 0 ? 'text-green-600' : 'text-red-600'}>
+              {breakdown.change >= 0 ? '+' : '-'}$ {formatCurrency(Math.abs(breakdown.change))}
+            </strong>
+          </span>
+          <span>Ítems nuevos: {totals.new_items}</span>
+          <span>Ítems perdidos: {totals.lost_items}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import { useRef, useEffect, useCallback } from 'react';
 import * as echarts from 'echarts';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
-import type { BalanceSeriesItem } from '@/core/api/types';
+import type { BalancePacingDay, BalanceSeriesItem } from '@/core/api/types';
 import { formatCurrency } from '@/core/utils/formatters';
 
 interface SalesBarChartProps {
@@ -10,9 +10,33 @@ interface SalesBarChartProps {
   granularity: 'day' | 'month';
   title: string;
   isLoading?: boolean;
+  /**
+   * Cumulative sales and budget for the same periods (e.g. transform=mtd),
+   * drawn as run-rate lines on a secondary axis
+   */
+  runRate?: BalanceSeriesItem[];
+  /**
+   * Cumulative sales of comparison periods aligned by day index (see
+   * /balance/pacing), drawn on the run-rate axis at the date of the same
+   * day index in the current period
+   */
+  pacing?: BalancePacingDay[];
 }
 
-export function SalesBarChart({ series, granularity, title, isLoading }: SalesBarChartProps) {
+// Pacing windows drawn over the chart, in legend order
+const PACING_LINES = [
+  { key: 'previous_month', name: 'ACUMULADO MES ANTERIOR', color: '#f59e0b' },
+  { key: 'previous_year', name: 'ACUMULADO AÑO ANTERIOR', color: '#8b5cf6' },
+] as const;
+
+function formatAxisValue(val: number): string {
+  if (val >= 1_000_000_000) return `${(val / 1_000_000_000).toFixed(0)}B`;
+  if (val >= 1_000_000) return `${(val / 1_000_000).toFixed(0)}M`;
+  if (val >= 1_000) return `${(val / 1_000).toFixed(0)}K`;
+  return String(val);
+}
+
+export function SalesBarChart({ series, granularity, title, isLoading, runRate, pacing }: SalesBarChartProps) {
   const chartRef = useRef<HTMLDivElement>(null);
   const instanceRef = useRef<echarts.ECharts | null>(null);
 
@@ -61,6 +85,20 @@ export function SalesBarChart({ series, granularity, title, isLoading }: SalesBa
     const avgBudget = series.reduce((a, d) => a + d.budget, 0) / n;
     const hasBudget = avgBudget > 0;
 
+    // Run-rate values keyed by period (periods without data draw no point)
+    const runRateByPeriod = new Map((runRate ?? []).map((d) => [d.period, d]));
+    // Pacing rows keyed by the current period's date at their day index
+    const pacingByDate = new Map((pacing ?? []).filter((d) => d.date !== null).map((d) => [d.date, d]));
+    const pacingLines = PACING_LINES.filter(({ key }) => [...pacingByDate.values()].some((d) => d[key] != null));
+    const hasRunRate = runRateByPeriod.size > 0;
+    const valueAxis = {
+      type: 'value' as const,
+      nameLocation: 'middle' as const,
+      nameGap: 55,
+      nameTextStyle: { fontSize: 11, color: '#6b7280' },
+      axisLabel: { fontSize: 10, formatter: formatAxisValue },
+    };
+
     const option: echarts.EChartsOption = {
       tooltip: {
         trigger: 'axis',
@@ -90,22 +128,12 @@ export function SalesBarChart({ series, granularity, title, isLoading }: SalesBa
         data: series.map((d) => formatPeriod(d.period)),
         axisLabel: { fontSize: 11 },
       },
-      yAxis: {
-        type: 'value',
-        name: 'VENTAS',
-        nameLocation: 'middle',
-        nameGap: 55,
-        nameTextStyle: { fontSize: 11, color: '#6b7280' },
-        axisLabel: {
-          fontSize: 10,
-          formatter: (val: number) => {
-            if (val >= 1_000_000_000) return `${(val / 1_000_000_000).toFixed(0)}B`;
-            if (val >= 1_000_000) return `${(val / 1_000_000).toFixed(0)}M`;
-            if (val >= 1_000) return `${(val / 1_000).toFixed(0)}K`;
-            return String(val);
-          },
-        },
-      },
+      yAxis: hasRunRate || pacingLines.length > 0
+        ? [
+            { ...valueAxis, name: 'VENTAS' },
+            { ...valueAxis, name: 'ACUMULADO', splitLine: { show: false } },
+          ]
+        : { ...valueAxis, name: 'VENTAS' },
       series: [
         {
           name: 'VENTAS',
@@ -135,11 +163,50 @@ export function SalesBarChart({ series, granularity, title, isLoading }: SalesBa
           lineStyle: { type: 'dashed', color: '#ef4444', width: 1.5 },
           itemStyle: { color: '#ef4444' },
         },
+        ...(hasRunRate
+          ? [
+              {
+                name: 'VENTAS ACUMULADAS',
+                type: 'line' as const,
+                yAxisIndex: 1,
+                data: series.map((d) => runRateByPeriod.get(d.period)?.sales ?? null),
+                symbol: 'none',
+                lineStyle: { color: '#10b981', width: 2 },
+                itemStyle: { color: '#10b981' },
+              },
+              ...(hasBudget
+                ? [
+                    {
+                      name: 'PPTO ACUMULADO',
+                      type: 'line' as const,
+                      yAxisIndex: 1,
+                      data: series.map((d) => runRateByPeriod.get(d.period)?.budget ?? null),
+                      symbol: 'none',
+                      lineStyle: { type: 'dotted' as const, color: '#3b82f6', width: 2 },
+                      itemStyle: { color: '#3b82f6' },
+                    },
+                  ]
+                : []),
+            ]
+          : []),
+        ...pacingLines.map(({ key, name, color }) => ({
+          name,
+          type: 'line' as const,
+          yAxisIndex: 1,
+          data: series.map((d) => {
+            const value = pacingByDate.get(d.period)?.[key];
+            return typeof value === 'number' ? value : null;
+          }),
+          connectNulls: true,
+          symbol: 'none',
+          lineStyle: { type: 'dashed' as const, color, width: 2 },
+          itemStyle: { color },
+        })),
       ],
     };
 
     instance.setOption(option, true);
-  }, [series, granularity, isLoading, formatPeriod]);
+  }, [series, runRate, pacing, granularity, isLoading, formatPeriod]);
 
   return (
     <div>
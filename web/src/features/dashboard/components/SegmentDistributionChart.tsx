@@ -2,27 +2,46 @@ import { useState, useRef, useCallback, useEffect } from 'react';
 import { Select, SelectItem, Tabs, Tab, Skeleton } from '@heroui/react';
 import { useDateRange } from '@/core/hooks/useDateRange';
 import { useQube6Distribution } from '@/core/api/hooks/useQube6Distribution';
-import type { AnalysisType, SegmentDistributionItem } from '@/core/api/types';
+import { useRfmDistribution } from '@/core/api/hooks/useRfmDistribution';
+import type { AnalysisType, RfmSegment, SegmentDistributionItem } from '@/core/api/types';
 import { formatCurrency } from '@/core/utils/formatters';
 
-const ANALYSIS_OPTIONS: { key: AnalysisType; label: string }[] = [
+/** Qube6 quadrants, plus the RFM segmentation (customers only) */
+type ChartAnalysis = AnalysisType | 'rfm';
+
+const ANALYSIS_OPTIONS: { key: ChartAnalysis; label: string }[] = [
   { key: 'value', label: 'Análisis de Valor' },
   { key: 'sales', label: 'Análisis de Ventas' },
   { key: 'profit', label: 'Análisis de Margen' },
   { key: 'quality', label: 'Análisis de Calidad' },
+  { key: 'rfm', label: 'Análisis RFM' },
 ];
 
+const RFM_LABELS: Record<RfmSegment, string> = {
+  champions: 'Campeones',
+  loyal: 'Leales',
+  potential_loyalists: 'Potenciales',
+  new_customers: 'Recientes',
+  promising: 'Prometedores',
+  need_attention: 'Atención',
+  about_to_sleep: 'Adormecidos',
+  at_risk: 'En riesgo',
+  cant_lose: 'Imperdibles',
+  hibernating: 'Hibernando',
+};
+
 const ENTITY_OPTIONS = [
   { key: 'customer_id', label: 'Clientes' },
   { key: 'product_id', label: 'Productos' },
   { key: 'seller_id', label: 'Vendedores' },
 ] as const;
 
-const SEGMENT_ORDER: Record<AnalysisType, string[]> = {
+const SEGMENT_ORDER: Record<ChartAnalysis, string[]> = {
   value: ['Estrella', 'Volumen', 'Margen', 'Duda'],
   sales: ['Top', 'Promesa', 'Riesgo', 'Coste', 'Nuevo'],
   profit: ['Alta', 'Media', 'Baja'],
   quality: ['Óptima', 'De producto', 'De precio', 'Pésima'],
+  rfm: Object.values(RFM_LABELS),
 };
 
 // Soft warm palette: muted amber/sand → neutral (no reds)
@@ -47,9 +66,20 @@ const SEGMENT_COLORS: Record<string, string> = {
   'De producto': '#d4b483',
   'De precio': '#e8d5b7',
   'Pésima': '#e5e7eb',
+  // RFM
+  Campeones: '#8a6a3b',
+  Leales: '#b08d57',
+  Potenciales: '#c9a66b',
+  Recientes: '#a5b4c8',
+  Prometedores: '#c3cdda',
+  'Atención': '#d4b483',
+  Adormecidos: '#e8d5b7',
+  'En riesgo': '#f0e2cc',
+  Imperdibles: '#9ca3af',
+  Hibernando: '#e5e7eb',
 };
 
-const LIGHT_BG_COLORS = new Set(['#e5e7eb', '#e8d5b7', '#a5b4c8']);
+const LIGHT_BG_COLORS = new Set(['#e5e7eb', '#e8d5b7', '#a5b4c8', '#c3cdda', '#f0e2cc']);
 
 function getTextColor(bgColor: string): string {
   return LIGHT_BG_COLORS.has(bgColor) ? '#374151' : '#ffffff';
@@ -63,7 +93,7 @@ interface TooltipData {
   y: number;
 }
 
-function sortSegments(items: SegmentDistributionItem[], analysisType: AnalysisType): SegmentDistributionItem[] {
+function sortSegments(items: SegmentDistributionItem[], analysisType: ChartAnalysis): SegmentDistributionItem[] {
   const order = SEGMENT_ORDER[analysisType];
   const map = new Map(items.map((item) => [item.short, item]));
   const sorted: SegmentDistributionItem[] = [];
@@ -79,7 +109,7 @@ interface StackedBarProps {
   items: SegmentDistributionItem[];
   total: number;
   metric: 'count' | 'sales';
-  analysisType: AnalysisType;
+  analysisType: ChartAnalysis;
   showMarginBadge?: boolean;
 }
 
@@ -220,12 +250,27 @@ export function SegmentDistributionChart({ filters, entityOptions, defaultEntity
     ? ENTITY_OPTIONS.filter((o) => entityOptions.includes(o.key))
     : ENTITY_OPTIONS;
 
-  const [analysisType, setAnalysisType] = useState<AnalysisType>('value');
+  const [selectedAnalysis, setAnalysisType] = useState<ChartAnalysis>('value');
   const [entityType, setEntityType] = useState(defaultEntity ?? visibleEntityOptions[0]?.key ?? 'customer_id');
   const { startDate, endDate } = useDateRange();
-  const { data, isLoading } = useQube6Distribution(entityType, startDate, endDate, filters);
 
-  const items = data?.data?.[analysisType] ?? [];
+  // RFM scores customers only: other entities fall back to the value analysis
+  const isCustomers = entityType === 'customer_id';
+  const analysisType: ChartAnalysis = selectedAnalysis === 'rfm' && !isCustomers ? 'value' : selectedAnalysis;
+  const analysisOptions = isCustomers ? ANALYSIS_OPTIONS : ANALYSIS_OPTIONS.filter((opt) => opt.key !== 'rfm');
+
+  const qube6 = useQube6Distribution(entityType, startDate, endDate, filters);
+  const rfm = useRfmDistribution(startDate, endDate, filters, analysisType === 'rfm');
+  const isLoading = analysisType === 'rfm' ? rfm.isLoading : qube6.isLoading;
+
+  const items: SegmentDistributionItem[] = analysisType === 'rfm'
+    ? (rfm.data?.data.segments ?? []).map((s) => ({
+      short: RFM_LABELS[s.segment],
+      count: s.count,
+      sales: s.sales,
+      gross_margin: s.gross_margin,
+    }))
+    : qube6.data?.data?.[analysisType] ?? [];
   const totalCount = items.reduce((acc, i) => acc + i.count, 0);
   const totalSales = items.reduce((acc, i) => acc + i.sales, 0);
 
@@ -242,7 +287,7 @@ export function SegmentDistributionChart({ filters, entityOptions, defaultEntity
             aria-label="Tipo de análisis"
             selectedKeys={[analysisType]}
             onSelectionChange={(keys) => {
-              const selected = Array.from(keys)[0] as AnalysisType;
+              const selected = Array.from(keys)[0] as ChartAnalysis;
               if (selected) setAnalysisType(selected);
             }}
             className="w-full sm:w-52"
@@ -260,7 +305,7 @@ export function SegmentDistributionChart({ filters, entityOptions, defaultEntity
               },
             }}
           >
-            {ANALYSIS_OPTIONS.map((opt) => (
+            {analysisOptions.map((opt) => (
               <SelectItem key={opt.key} className="!cursor-pointer" style={{ cursor: 'pointer' }}>{opt.label}</SelectItem>
             ))}
           </Select>
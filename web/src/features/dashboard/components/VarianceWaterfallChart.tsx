@@ -0,0 +1,136 @@
+import { useRef, useEffect } from 'react';
+import * as echarts from 'echarts';
+import type { VarianceBreakdown } from '@/core/api/types';
+import { formatCurrency } from '@/core/utils/formatters';
+
+interface VarianceWaterfallChartProps {
+  breakdown?: VarianceBreakdown;
+  /** Labels of the first and last bars (e.g. "Año anterior", "Actual") */
+  previousLabel: string;
+  currentLabel: string;
+  isLoading?: boolean;
+}
+
+// Effect bars between the comparison value and the current value, in order
+const EFFECTS = [
+  { key: 'price_effect', label: 'PRECIO' },
+  { key: 'volume_effect', label: 'VOLUMEN' },
+  { key: 'mix_effect', label: 'MIX' },
+  { key: 'new_items_effect', label: 'NUEVOS' },
+  { key: 'lost_items_effect', label: 'PERDIDOS' },
+] as const satisfies ReadonlyArray<{ key: keyof VarianceBreakdown; label: string }>;
+
+const TOTAL_COLOR = '#4b5563';
+const UP_COLOR = '#10b981';
+const DOWN_COLOR = '#ef4444';
+
+function formatAxisValue(val: number): string {
+  const abs = Math.abs(val);
+  const sign = val < 0 ? '-' : '';
+  if (abs >= 1_000_000_000) return `${sign}${(abs / 1_000_000_000).toFixed(0)}B`;
+  if (abs >= 1_000_000) return `${sign}${(abs / 1_000_000).toFixed(0)}M`;
+  if (abs >= 1_000) return `${sign}${(abs / 1_000).toFixed(0)}K`;
+  return String(val);
+}
+
+/**
+ * Waterfall from the comparison value to the current value through the
+ * price, volume, mix and new/lost item effects. Each effect floats on the
+ * running total (an invisible base bar stacked below it).
+ */
+export function VarianceWaterfallChart({ breakdown, previousLabel, currentLabel, isLoading }: VarianceWaterfallChartProps) {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const instanceRef = useRef<echarts.ECharts | null>(null);
+
+  useEffect(() => {
+    if (!chartRef.current) return;
+
+    const instance = echarts.init(chartRef.current, undefined, { renderer: 'canvas' });
+    instanceRef.current = instance;
+
+    const handleResize = () => instance.resize();
+    window.addEventListener('resize', handleResize);
+
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      instance.dispose();
+      instanceRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const instance = instanceRef.current;
+    if (!instance) return;
+
+    if (isLoading || !breakdown) {
+      instance.showLoading({ text: '', color: '#6366f1', maskColor: 'rgba(255,255,255,0.6)' });
+      return;
+    }
+
+    instance.hideLoading();
+
+    // Bars: [base, height, signed value, color]
+    let running = breakdown.previous;
+    const bars = [
+      { label: previousLabel, base: 0, height: breakdown.previous, value: breakdown.previous, color: TOTAL_COLOR },
+      ...EFFECTS.map(({ key, label }) => {
+        const value = breakdown[key];
+        const base = value >= 0 ? running : running + value;
+        running += value;
+        return { label, base, height: Math.abs(value), value, color: value >= 0 ? UP_COLOR : DOWN_COLOR };
+      }),
+      { label: currentLabel, base: 0, height: breakdown.current, value: breakdown.current, color: TOTAL_COLOR },
+    ];
+
+    const option: echarts.EChartsOption = {
+      tooltip: {
+        trigger: 'axis',
+        axisPointer: { type: 'shadow' },
+        formatter: (params: echarts.DefaultLabelFormatterCallbackParams | echarts.DefaultLabelFormatterCallbackParams[]) => {
+          const items = Array.isArray(params) ? params : [params];
+          const bar = bars[items[0]?.dataIndex ?? 0];
+          if (!bar) return '';
+          const isTotal = bar.color === TOTAL_COLOR;
+          const sign = !isTotal && bar.value > 0 ? '+' : '';
+          return `<strong>${bar.label}</strong><br/>${sign}$ ${formatCurrency(bar.value)}`;
+        },
+      },
+      grid: {
+        left: '1%',
+        right: '2%',
+        bottom: '4%',
+        top: '6%',
+        containLabel: true,
+      },
+      xAxis: {
+        type: 'category',
+        data: bars.map((b) => b.label),
+        axisLabel: { fontSize: 11 },
+      },
+      yAxis: {
+        type: 'value',
+        axisLabel: { fontSize: 10, formatter: formatAxisValue },
+      },
+      series: [
+        {
+          name: 'base',
+          type: 'bar',
+          stack: 'waterfall',
+          silent: true,
+          itemStyle: { color: 'transparent' },
+          data: bars.map((b) => b.base),
+        },
+        {
+          name: 'valor',
+          type: 'bar',
+          stack: 'waterfall',
+          data: bars.map((b) => ({ value: b.height, itemStyle: { color: b.color, borderRadius: 2 } })),
+        },
+      ],
+    };
+
+    instance.setOption(option, true);
+  }, [breakdown, previousLabel, currentLabel, isLoading]);
+
+  return <div ref={chartRef} className="h-64 w-full" />;
+}
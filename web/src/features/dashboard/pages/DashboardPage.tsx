@@ -1,10 +1,10 @@
-import { useAuth } from '@/features/auth/hooks/useAuth';
+import { useMyAccess } from '@/core/api/hooks/useMyAccess';
 import { getRoleChannelLabel } from '@/core/config/access';
 import { DashboardView } from '../components/DashboardView';
 
 export function DashboardPage() {
-  const { user } = useAuth();
-  const channelLabel = getRoleChannelLabel(user?.dynaRole);
+  const { data: access } = useMyAccess();
+  const channelLabel = getRoleChannelLabel(access);
 
   return (
     <DashboardView
@@ -9,12 +9,10 @@ import { PageHeader } from '@/core/components/PageHeader';
 import { getDashboardTableColumns, getDashboardTableRows } from '../config/tableConfig';
 
 export function EjemploPage() {
-  const { startDate, endDate, preset } = useDateRange();
-  const { data, isLoading } = useBalance(startDate, endDate, preset);
+  const { startDate, endDate, preset, comparison, comparisonLabels } = useDateRange();
+  const { data, isLoading } = useBalance(startDate, endDate, preset, undefined, comparison);
 
   const balanceData = data?.data;
-  const currentYear = endDate.getFullYear();
-  const previousYear = currentYear - 1;
   const salesMetric = getSalesMetric(balanceData, preset);
 
   const tableRows = getDashboardTableRows(balanceData, preset);
@@ -29,7 +27,7 @@ export function EjemploPage() {
           <PrimaryMetricCard
             label={salesMetric.label}
             mainValue={`$ ${balanceData ? formatCurrency(salesMetric.current) : '0'}`}
-            secondaryLabel={`Año anterior (${previousYear})`}
+            secondaryLabel={comparisonLabels.title}
             secondaryValue={`$ ${balanceData ? formatCurrency(salesMetric.lastYear) : '0'}`}
             isLoading={isLoading}
           />
@@ -41,7 +39,7 @@ export function EjemploPage() {
                 {balanceData ? formatPercentageWithSign(salesMetric.vsLastYear) : '0'}%
               </span>
             }
-            description="vs año anterior"
+            description={comparisonLabels.vsLabel}
             isLoading={isLoading}
             centered
           />
@@ -65,7 +63,7 @@ export function EjemploPage() {
                 ? `${formatPercentage((balanceData.gross_margin / balanceData.sales) * 100)}%`
                 : '0%'
             }
-            secondaryLabel={`Año anterior (${previousYear})`}
+            secondaryLabel={comparisonLabels.title}
             secondaryValue={
               balanceData && balanceData.sales_last_year !== 0
                 ? `${formatPercentage((balanceData.gross_margin_last_year / balanceData.sales_last_year) * 100)}%`
@@ -91,7 +89,7 @@ export function EjemploPage() {
                   })()
                 : '0%'
             }
-            description="vs año anterior"
+            description={comparisonLabels.vsLabel}
             isLoading={isLoading}
             centered
           />
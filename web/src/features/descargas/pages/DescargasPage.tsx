@@ -0,0 +1,101 @@
+import { Button, Chip, Progress } from '@heroui/react';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { PageHeader } from '@/core/components/PageHeader';
+import { useExportJobs } from '@/core/api/hooks/useExports';
+import { downloadExportJob, formatFileSize } from '@/core/utils/exportJobs';
+import type { ExportJob, ExportJobKind } from '@/core/api/types';
+
+const KIND_LABELS: Record<ExportJobKind, string> = {
+  'list': 'Listado',
+  'festival-list': 'Festival · Listado',
+  'festival-sin-compra': 'Festival · Clientes sin compra',
+};
+
+const STATUS_CHIPS: Record<ExportJob['status'], { label: string; color: 'default' | 'primary' | 'success' | 'danger' }> = {
+  queued: { label: 'En cola', color: 'default' },
+  running: { label: 'Generando', color: 'primary' },
+  completed: { label: 'Lista', color: 'success' },
+  failed: { label: 'Falló', color: 'danger' },
+  expired: { label: 'Expirada', color: 'default' },
+};
+
+const dateFormatter = new Intl.DateTimeFormat('es-CO', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Download history: the user's latest background exports, with their
+ * progress and a download button until the file expires.
+ */
+export function DescargasPage() {
+  const { data, isLoading } = useExportJobs();
+  const jobs = data?.data ?? [];
+
+  const handleDownload = (job: ExportJob) => {
+    downloadExportJob(job).catch((error: Error) => toast.error(error.message));
+  };
+
+  return (
+    <div>
+      <PageHeader title="Descargas" showDateFilter={false} />
+
+      <div className="border border-gray-200 rounded-lg p-4 sm:p-6">
+        <h2 className="text-sm font-semibold text-gray-700 mb-1">Exportaciones recientes</h2>
+        <p className="text-xs text-zinc-500 mb-4">
+          Las exportaciones en segundo plano se generan en el servidor; puedes seguir navegando mientras tanto.
+          Los archivos se eliminan al expirar.
+        </p>
+
+        <div className="divide-y divide-gray-100">
+          {isLoading ? (
+            <div className="text-xs text-zinc-500 py-2">Cargando descargas...</div>
+          ) : jobs.length === 0 ? (
+            <div className="text-xs text-zinc-500 py-2">
+              Aún no hay exportaciones. Usa "En segundo plano" en el menú Exportar de un listado.
+            </div>
+          ) : (
+            jobs.map((job) => {
+              const status = STATUS_CHIPS[job.status];
+              return (
+                <div key={job.id} className="flex items-center gap-3 py-2">
+                  <div className="min-w-0 flex-1">
+                    <div className="text-sm font-medium text-gray-800 truncate">
+                      {job.filename}.{job.format}
+                    </div>
+                    <div className="text-xs text-zinc-500 truncate">
+                      {KIND_LABELS[job.kind]} · {dateFormatter.format(new Date(job.createdAt))}
+                      {job.sizeBytes !== null && ` · ${formatFileSize(job.sizeBytes)}`}
+                      {job.status === 'completed' && job.expiresAt &&
+                        ` · disponible hasta ${dateFormatter.format(new Date(job.expiresAt))}`}
+                      {job.status === 'failed' && job.error && ` · ${job.error}`}
+                    </div>
+                    {job.status === 'running' && (
+                      <Progress
+                        size="sm"
+                        className="mt-1 max-w-xs"
+                        aria-label={`Progreso de ${job.filename}`}
+                        value={job.progress}
+                      />
+                    )}
+                  </div>
+                  <Chip size="sm" variant="flat" color={status.color}>
+                    {status.label}
+                  </Chip>
+                  <Button
+                    size="sm"
+                    variant="light"
+                    isIconOnly
+                    aria-label={`Descargar ${job.filename}`}
+                    isDisabled={job.status !== 'completed'}
+                    onPress={() => handleDownload(job)}
+                  >
+                    <ArrowDownTrayIcon className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -29,6 +29,11 @@ export function DimensionBreakdown({ filters, initialGroupBy, onDrill, reportTit
   useEffect(() => setGroupBy(initialGroupBy), [initialGroupBy]);
 
   const categories = useMemo(() => getBreakdownCategories(filters), [filters]);
+  // Any other breakdown dimension can be nested under the selected one
+  const subDimensionOptions = useMemo(
+    () => categories.flatMap((cat) => cat.dims).filter((d) => d.key !== groupBy),
+    [categories, groupBy]
+  );
   const isEntity = ENTITY_DIMS.includes(groupBy);
   const dimLabel = DIM_LABEL[groupBy]?.toUpperCase();
 
@@ -70,6 +75,7 @@ export function DimensionBreakdown({ filters, initialGroupBy, onDrill, reportTit
         reportTitle={reportTitle}
         enableFilters
         filterContext={filters}
+        subDimensionOptions={subDimensionOptions}
         onRowClick={(row: RegionalData) => onDrill(groupBy, row.id, row.name)}
       />
     </div>
@@ -5,6 +5,8 @@ import {
 import { PlusIcon, XMarkIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
 import { useDimensionValues, type DimensionValue } from '@/core/api/hooks/useDimensionValues';
 import type { GroupByDimension } from '@/core/api/hooks/useList';
+import type { LabelValue } from '@/core/api/types';
+import { formatCurrency } from '@/core/utils/formatters';
 import { DIM_CATEGORIES, DIM_LABEL } from '../config/breakdownDimensions';
 
 /** Applied filters: dimension → selected values (id + name). */
@@ -13,12 +15,14 @@ export type AppliedFilters = Record<string, DimensionValue[]>;
 interface ValuePickerProps {
   dimension: GroupByDimension;
   contextFilters?: Record<string, any>;
+  /** Applied filters of the other dimensions; the options are the values reachable under them */
+  otherFilters: Record<string, string[]>;
   initialSelected: DimensionValue[];
   onApply: (values: DimensionValue[]) => void;
 }
 
 /** Searchable multi-select value picker for one dimension. */
-function ValuePicker({ dimension, contextFilters, initialSelected, onApply }: ValuePickerProps) {
+function ValuePicker({ dimension, contextFilters, otherFilters, initialSelected, onApply }: ValuePickerProps) {
   const [selected, setSelected] = useState<Map<string, string>>(
     () => new Map(initialSelected.map((v) => [v.id, v.name]))
   );
@@ -29,7 +33,7 @@ function ValuePicker({ dimension, contextFilters, initialSelected, onApply }: Va
     return () => clearTimeout(t);
   }, [input]);
 
-  const { values, isLoading } = useDimensionValues(dimension, contextFilters, search);
+  const { values, isLoading } = useDimensionValues(dimension, contextFilters, search, otherFilters);
 
   const toggle = (v: DimensionValue, on: boolean) => {
     setSelected((prev) => {
@@ -44,7 +48,7 @@ function ValuePicker({ dimension, contextFilters, initialSelected, onApply }: Va
   const resultIds = new Set(values.map((v) => v.id));
   const pinned = Array.from(selected.entries())
     .filter(([id]) => !resultIds.has(id))
-    .map(([id, name]) => ({ id, name }));
+    .map(([id, name]): DimensionValue & Partial<LabelValue> => ({ id, name }));
 
   const rows = [...pinned, ...values];
 
@@ -77,7 +81,15 @@ function ValuePicker({ dimension, contextFilters, initialSelected, onApply }: Va
                 isSelected={selected.has(v.id)}
                 onValueChange={(on) => toggle(v, on)}
               />
-              <span className="text-sm truncate">{v.name}</span>
+              <span className="text-sm truncate flex-1">{v.name}</span>
+              {v.sales !== undefined && v.rows !== undefined && (
+                <span
+                  className="text-[11px] tabular-nums text-default-400 shrink-0"
+                  title={`${v.rows.toLocaleString('es-ES')} registros`}
+                >
+                  {formatCurrency(v.sales)}
+                </span>
+              )}
             </label>
           ))
         )}
@@ -114,6 +126,15 @@ function setFilterValue(
   onChange(next);
 }
 
+/** Selected ids of every applied dimension but `dim` (bounds the picker options of `dim`). */
+function otherFilterIds(value: AppliedFilters, dim: string): Record<string, string[]> {
+  const ids: Record<string, string[]> = {};
+  for (const [d, values] of Object.entries(value)) {
+    if (d !== dim && values.length) ids[d] = values.map((v) => v.id);
+  }
+  return ids;
+}
+
 /**
  * Applied-filter chips (each editable via a popover, removable via X) + Clear.
  * Renders nothing when there are no applied filters.
@@ -147,6 +168,7 @@ export function FacetedFilterChips({ value, onChange, contextFilters }: FacetedP
               <ValuePicker
                 dimension={dim as GroupByDimension}
                 contextFilters={contextFilters}
+                otherFilters={otherFilterIds(value, dim)}
                 initialSelected={value[dim]!}
                 onApply={(vals) => setFilterValue(value, onChange, dim, vals)}
               />
@@ -203,6 +225,7 @@ export function FacetedFilterAddButton({ value, onChange, contextFilters }: Face
           <ValuePicker
             dimension={addingDim}
             contextFilters={contextFilters}
+            otherFilters={otherFilterIds(value, addingDim)}
             initialSelected={value[addingDim] ?? []}
             onApply={(vals) => {
               setFilterValue(value, onChange, addingDim, vals);
@@ -1,10 +1,11 @@
-import { useMemo } from 'react';
+import { Fragment, useCallback, useMemo, useState, type ReactNode } from 'react';
 import { TableHeader } from './components/TableHeader';
 import { TableRow } from './components/TableRow';
 import { useSort } from './hooks/useSort';
 import { COLUMN_DEFINITIONS, COLUMN_GROUPS } from './config/columns';
-import { DEFAULT_THRESHOLDS } from './constants';
-import type { RegionalData, TableConfig } from './types';
+import { getCatalogThresholds } from './utils/heatmap';
+import { useMetricCatalog } from '@/core/api/hooks/useMetricCatalog';
+import type { RegionalData, SortState, TableConfig } from './types';
 import type { ColumnDefinition, ColumnGroup } from './config/types';
 
 interface RegionalTableProps {
@@ -12,10 +13,16 @@ interface RegionalTableProps {
   totals?: RegionalData;
   config: TableConfig;
   className?: string;
+  /** Row click (first-dimension rows only in multi-dimension lists) */
   onRowClick?: (region: RegionalData) => void;
+  /** Multi-dimension lists: load more children (rows show "Ver más" while childCount > children) */
+  onLoadMoreChildren?: (region: RegionalData) => void;
   // Allow column customization
   columns?: ColumnDefinition[];
   columnGroups?: ColumnGroup[];
+  /** Controlled sort (uncontrolled when unset) */
+  sort?: SortState;
+  onSortChange?: (sort: SortState) => void;
 }
 
 export function RegionalTable({
@@ -24,20 +31,74 @@ export function RegionalTable({
   config,
   className = '',
   onRowClick,
+  onLoadMoreChildren,
   columns = COLUMN_DEFINITIONS,
   columnGroups = COLUMN_GROUPS,
+  sort,
+  onSortChange,
 }: RegionalTableProps) {
-  const { sortedData, sortKey, sortDirection, handleSort } = useSort(data, columns);
+  const { sortedData, sortKey, sortDirection, handleSort } = useSort(data, columns, sort, onSortChange);
+  const { data: metricCatalog } = useMetricCatalog();
 
-  // Merge default thresholds with config
+  // Config thresholds win over the ones published in the metric catalog
   const fullConfig = useMemo(
     () => ({
       ...config,
-      thresholds: config.thresholds || DEFAULT_THRESHOLDS,
+      thresholds: config.thresholds || getCatalogThresholds(metricCatalog),
     }),
-    [config]
+    [config, metricCatalog]
   );
 
+  // Expanded rows of a multi-dimension list, by their id path
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set());
+  const toggleRow = useCallback((path: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  }, []);
+
+  const isTree = data.some((region) => region.childCount !== undefined || region.children !== undefined);
+
+  const renderRows = (rows: RegionalData[], depth: number, parentPath: string): ReactNode =>
+    rows.map((region) => {
+      const path = `${parentPath}/${region.id}`;
+      const children = region.children ?? [];
+      const isExpandable = region.childCount !== undefined ? region.childCount > 0 : children.length > 0;
+      const isExpanded = isExpandable && expanded.has(path);
+      const remaining = (region.childCount ?? children.length) - children.length;
+
+      return (
+        <Fragment key={path}>
+          <TableRow
+            data={region}
+            columns={columns}
+            config={fullConfig}
+            {...(depth === 0 && { onClick: onRowClick })}
+            {...(isTree && { depth })}
+            isExpanded={isExpanded}
+            {...(isExpandable && { onToggle: () => toggleRow(path) })}
+          />
+          {isExpanded && renderRows(children, depth + 1, path)}
+          {isExpanded && remaining > 0 && onLoadMoreChildren && (
+            <tr className="border-b border-zinc-200">
+              <td colSpan={columns.length} style={{ paddingLeft: (depth + 1) * 16 + 28 }} className="py-1.5">
+                <button
+                  type="button"
+                  className="text-xs text-primary hover:underline"
+                  onClick={() => onLoadMoreChildren(region)}
+                >
+                  Ver más ({children.length} de {region.childCount})
+                </button>
+              </td>
+            </tr>
+          )}
+        </Fragment>
+      );
+    });
+
   return (
     <div className={className}>
       {/* Table */}
@@ -53,15 +114,7 @@ export function RegionalTable({
           />
 
           <tbody>
-            {sortedData.map((region) => (
-              <TableRow
-                key={region.id}
-                data={region}
-                columns={columns}
-                config={fullConfig}
-                onClick={onRowClick}
-              />
-            ))}
+            {renderRows(sortedData, 0, '')}
 
             {totals && (
               <TableRow
@@ -1,4 +1,5 @@
 import { memo } from 'react';
+import { ChevronRightIcon } from '@heroicons/react/24/outline';
 import type { ColumnDefinition } from '../config/types';
 import type { RegionalData, TableConfig } from '../types';
 
@@ -8,6 +9,11 @@ interface TableRowProps {
   config: TableConfig;
   isTotal?: boolean;
   onClick?: (data: RegionalData) => void;
+  /** Nesting level in a multi-dimension list (indents the first cell); unset for flat lists */
+  depth?: number;
+  /** Expandable rows (with children) show a toggle in the first cell */
+  isExpanded?: boolean;
+  onToggle?: (data: RegionalData) => void;
 }
 
 export const TableRow = memo(function TableRow({
@@ -16,6 +22,9 @@ export const TableRow = memo(function TableRow({
   config,
   isTotal = false,
   onClick,
+  depth,
+  isExpanded = false,
+  onToggle,
 }: TableRowProps) {
   const rowClass = isTotal
     ? 'border-t-2 border-zinc-300 font-bold'
@@ -40,7 +49,29 @@ export const TableRow = memo(function TableRow({
             className={`${isLast ? '' : 'border-r'} border-b border-zinc-200`}
             style={{ backgroundColor: bgColor }}
           >
-            {column.cellRenderer(data, config, value)}
+            {index === 0 && depth !== undefined ? (
+              <div className="flex items-center" style={{ paddingLeft: depth * 16 }}>
+                {onToggle ? (
+                  <button
+                    type="button"
+                    aria-label={isExpanded ? 'Contraer' : 'Expandir'}
+                    aria-expanded={isExpanded}
+                    className="ml-1 p-0.5 rounded hover:bg-zinc-200 text-zinc-500"
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      onToggle(data);
+                    }}
+                  >
+                    <ChevronRightIcon className={`h-4 w-4 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+                  </button>
+                ) : (
+                  <span className="ml-1 w-5" />
+                )}
+                <div className="min-w-0 flex-1">{column.cellRenderer(data, config, value)}</div>
+              </div>
+            ) : (
+              column.cellRenderer(data, config, value)
+            )}
           </td>
         );
       })}
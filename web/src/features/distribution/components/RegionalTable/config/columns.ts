@@ -6,7 +6,8 @@ import {
   complianceCellRenderer,
   marginCellRenderer,
   marginBudgetCellRenderer,
-  textCellRenderer
+  textCellRenderer,
+  createCustomMetricCellRenderer
 } from '../renderers/cellRenderers';
 import {
   budgetBackgroundColor,
@@ -15,6 +16,7 @@ import {
   // retainedBackgroundColor - not currently used
 } from './backgroundColors';
 import { getDimensionLabel } from '@/core/utils/dimensionLabels';
+import type { CustomMetric } from '@/core/api/types';
 
 // Define all columns
 export const COLUMN_DEFINITIONS: ColumnDefinition[] = [
@@ -217,3 +219,24 @@ export function getColumnsWithoutBudget(groupBy: GroupByDimension, hideRetained
 export function getColumnGroupsWithoutBudget(): ColumnGroup[] {
   return [];
 }
+
+/**
+ * Columns for the selected custom metrics (appended after the standard ones)
+ * Rows without the field (e.g. the totals row) render a dash
+ */
+export function getCustomMetricColumns(metrics: CustomMetric[]): ColumnDefinition[] {
+  return metrics.map((metric) => ({
+    id: metric.field,
+    header: {
+      label: metric.label,
+      sortable: true,
+      align: 'right',
+      rowSpan: 2,
+    },
+    accessor: (data) => data.custom?.[metric.field] ?? null,
+    cellRenderer: createCustomMetricCellRenderer(metric.format),
+    align: 'right',
+    sortable: true,
+    sortKey: metric.field,
+  }));
+}
@@ -1,22 +1,33 @@
 import { useState, useMemo, useCallback } from 'react';
-import type { RegionalData, SortKey, SortDirection } from '../types';
+import type { RegionalData, SortKey, SortState } from '../types';
 import type { ColumnDefinition } from '../config/types';
 
-export function useSort(data: RegionalData[], columns: ColumnDefinition[]) {
-  const [sortKey, setSortKey] = useState<SortKey | null>('sales');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+export const DEFAULT_SORT: SortState = { key: 'sales', direction: 'desc' };
 
-  // Note: keep the two setters independent (not nested). Nesting a
-  // side-effectful setter inside another setter's updater double-fires the
-  // toggle under React StrictMode, cancelling the direction change.
+/**
+ * Client-side sort of the table rows. Uncontrolled by default; pass `sort` +
+ * `onSortChange` to keep the sort outside the table (e.g. in the page URL).
+ */
+export function useSort(
+  data: RegionalData[],
+  columns: ColumnDefinition[],
+  sort?: SortState,
+  onSortChange?: (sort: SortState) => void
+) {
+  const [internalSort, setInternalSort] = useState<SortState>(DEFAULT_SORT);
+  const { key: sortKey, direction: sortDirection } = sort ?? internalSort;
+  const setSort = onSortChange ?? setInternalSort;
+
+  // Note: compute the next state from the current values instead of nesting
+  // setters. Nesting a side-effectful setter inside another setter's updater
+  // double-fires the toggle under React StrictMode, cancelling the direction change.
   const handleSort = useCallback((key: SortKey) => {
     if (key === sortKey) {
-      setSortDirection((prevDir) => (prevDir === 'asc' ? 'desc' : 'asc'));
+      setSort({ key, direction: sortDirection === 'asc' ? 'desc' : 'asc' });
     } else {
-      setSortKey(key);
-      setSortDirection('desc');
+      setSort({ key, direction: 'desc' });
     }
-  }, [sortKey]);
+  }, [sortKey, sortDirection, setSort]);
 
   const sortedData = useMemo(() => {
     if (!sortKey) return data;
@@ -25,7 +36,7 @@ export function useSort(data: RegionalData[], columns: ColumnDefinition[]) {
     const column = columns.find((col) => col.sortKey === sortKey);
     if (!column) return data;
 
-    const sorted = [...data].sort((a, b) => {
+    const sortRows = (rows: RegionalData[]): RegionalData[] => [...rows].sort((a, b) => {
       const aValue = column.accessor(a);
       const bValue = column.accessor(b);
 
@@ -51,9 +62,10 @@ export function useSort(data: RegionalData[], columns: ColumnDefinition[]) {
       return sortDirection === 'asc'
         ? (aSort as number) - (bSort as number)
         : (bSort as number) - (aSort as number);
-    });
+    }).map((row) => (row.children ? { ...row, children: sortRows(row.children) } : row));
 
-    return sorted;
+    // Child rows are sorted within their parent
+    return sortRows(data);
   }, [data, sortKey, sortDirection, columns]);
 
   return { sortedData, sortKey, sortDirection, handleSort };
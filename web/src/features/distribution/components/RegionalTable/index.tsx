@@ -1,2 +1,2 @@
 export { RegionalTable } from './RegionalTable';
-export type { RegionalData, TableConfig, HeatmapThresholds } from './types';
+export type { RegionalData, TableConfig, HeatmapThresholds, SortKey, SortState } from './types';
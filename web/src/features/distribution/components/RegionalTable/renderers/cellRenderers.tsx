@@ -138,3 +138,29 @@ export const textCellRenderer: CellRenderer = (_data, _config, value) => {
     </div>
   );
 };
+
+// Custom metric cell (single value formatted by the metric format)
+export function createCustomMetricCellRenderer(format: 'currency' | 'percent' | 'number'): CellRenderer<number | null> {
+  return (_data, config, value) => {
+    if (value === null || !Number.isFinite(value)) {
+      return (
+        <div className="px-4 text-right py-2.5">
+          <div className="text-[13px] text-zinc-400">{value === null ? '-' : 'N/A'}</div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="px-4 text-right py-2.5">
+        <div className="text-[13px] text-zinc-900">
+          {format === 'currency' && <><span className="text-[11px] text-zinc-500">{config.currency}</span>{' '}</>}
+          <span className="font-semibold">
+            {format === 'currency'
+              ? formatNumber(value, config.locale)
+              : `${formatPercent(value, config.locale, 2)}${format === 'percent' ? '%' : ''}`}
+          </span>
+        </div>
+      </div>
+    );
+  };
+}
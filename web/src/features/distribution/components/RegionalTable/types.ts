@@ -19,16 +19,23 @@ export interface RegionalData {
   retained: {
     amount: number;
     compliance: number;
-    /** Optional extra numeric slot (used by the festival listing). */
+    /** Optional extra numeric slot (used by the campaign listing). */
     variation?: number;
   };
+  /** Requested custom metrics by response field (custom_<key>); null = N/A */
+  custom?: Record<string, number | null>;
+  /** Multi-dimension lists: loaded rows of the next dimension (expandable) */
+  children?: RegionalData[];
+  /** Multi-dimension lists: total rows of the next dimension */
+  childCount?: number;
 }
 
 export interface TableConfig {
   currency: string;
   locale: string;
   currentYear: number;
-  previousYear: number;
+  /** Label of the comparison values (the previous year by default) */
+  previousYear: number | string;
   thresholds?: HeatmapThresholds;
 }
 
@@ -38,5 +45,10 @@ export interface HeatmapThresholds {
   margin: { excellent: number; good: number; neutral: number };
 }
 
-export type SortKey = 'name' | 'sales' | 'budget' | 'margin' | 'marginBudget' | 'retained' | 'comprometido' | 'avgOrder' | 'ppto' | 'pptoCumpl' | 'numerica' | 'items' | 'sinCompra';
+export type SortKey = 'name' | 'sales' | 'budget' | 'margin' | 'marginBudget' | 'retained' | 'comprometido' | 'avgOrder' | 'ppto' | 'pptoCumpl' | 'numerica' | 'items' | 'sinCompra' | `custom_${string}`;
 export type SortDirection = 'asc' | 'desc';
+
+export interface SortState {
+  key: SortKey | null;
+  direction: SortDirection;
+}
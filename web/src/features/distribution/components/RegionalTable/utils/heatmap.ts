@@ -1,4 +1,6 @@
 import type { HeatmapThresholds } from '../types';
+import type { MetricCatalogResponse } from '@/core/api/types';
+import { DEFAULT_THRESHOLDS } from '../constants';
 
 export interface HeatmapColor {
   bg: string;
@@ -35,3 +37,27 @@ export function getMarginColor(margin: number, thresholds: HeatmapThresholds): H
   if (margin >= thresholds.margin.neutral) return HEAT_COLORS.neutral;
   return HEAT_COLORS.warning;
 }
+
+/**
+ * Heatmap thresholds published in the metric catalog (variation: total sales
+ * growth, compliance: budget achievement, margin: gross margin %). Groups the
+ * catalog does not define keep DEFAULT_THRESHOLDS.
+ */
+export function getCatalogThresholds(catalog: MetricCatalogResponse | undefined): HeatmapThresholds {
+  const heatmapOf = (name: string) => catalog?.calculatedMetrics.find((m) => m.name === name)?.heatmap;
+  const variation = heatmapOf('sales_total_vs_last_year');
+  const compliance = heatmapOf('budget_achievement_pct');
+  const margin = heatmapOf('gross_margin_pct');
+
+  return {
+    variation: variation?.warning !== undefined
+      ? { excellent: variation.excellent, good: variation.good, neutral: variation.neutral, warning: variation.warning }
+      : DEFAULT_THRESHOLDS.variation,
+    compliance: compliance?.warning !== undefined
+      ? { excellent: compliance.excellent, good: compliance.good, neutral: compliance.neutral, warning: compliance.warning }
+      : DEFAULT_THRESHOLDS.compliance,
+    margin: margin
+      ? { excellent: margin.excellent, good: margin.good, neutral: margin.neutral }
+      : DEFAULT_THRESHOLDS.margin,
+  };
+}
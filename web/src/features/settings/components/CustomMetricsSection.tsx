@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { Button, Input, Select, SelectItem, Checkbox, Chip } from '@heroui/react';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { toast } from 'sonner';
+import { useCustomMetrics, useCustomMetricMutations } from '@/core/api/hooks/useCustomMetrics';
+import { useAuthStore } from '@/core/store/authStore';
+import type { CustomMetric } from '@/core/api/types';
+
+const FORMAT_OPTIONS: Array<{ key: CustomMetric['format']; label: string }> = [
+  { key: 'number', label: 'Número' },
+  { key: 'currency', label: 'Moneda' },
+  { key: 'percent', label: 'Porcentaje' },
+];
+
+/** Suggest a key from the label: "Margen / Cartera" → "margen_cartera" */
+function toKey(label: string): string {
+  return label
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+|_+$/g, '')
+    .slice(0, 48);
+}
+
+const emptyForm = { label: '', key: '', formula: '', format: 'number' as CustomMetric['format'], shared: false };
+
+/**
+ * Create, share and delete custom metrics. Selected metrics are added as
+ * columns in the analytics tables and exports (see CustomMetricPicker).
+ */
+export function CustomMetricsSection() {
+  const { data, isLoading } = useCustomMetrics();
+  const { create, update, remove } = useCustomMetricMutations();
+  const hasTeam = !!useAuthStore((s) => s.user?.dynaRole);
+  const [form, setForm] = useState(emptyForm);
+  const [keyEdited, setKeyEdited] = useState(false);
+
+  const metrics = data?.data ?? [];
+
+  const handleCreate = () => {
+    create.mutate(form, {
+      onSuccess: (metric) => {
+        toast.success(`Métrica "${metric.label}" creada`);
+        setForm(emptyForm);
+        setKeyEdited(false);
+      },
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 sm:p-6 mt-6">
+      <h2 className="text-sm font-semibold text-gray-700 mb-1">Métricas personalizadas</h2>
+      <p className="text-xs text-zinc-500 mb-4">
+        Combina las métricas base (por ejemplo <code>{'{sales}'}</code>, <code>{'{budget}'}</code>,{' '}
+        <code>{'{cartera}'}</code>) y sus valores del año anterior (<code>{'{sales_last_year}'}</code>) con
+        operadores y funciones como <code>safeDiv(a, b)</code>. Las métricas seleccionadas se añaden como
+        columnas en las tablas y en la exportación a Excel.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <Input
+          size="sm"
+          label="Nombre"
+          value={form.label}
+          onValueChange={(label) => setForm((f) => ({ ...f, label, ...(!keyEdited && { key: toKey(label) }) }))}
+        />
+        <Input
+          size="sm"
+          label="Clave"
+          description="Minúsculas, números y _"
+          value={form.key}
+          onValueChange={(key) => {
+            setKeyEdited(true);
+            setForm((f) => ({ ...f, key }));
+          }}
+        />
+        <Input
+          size="sm"
+          label="Fórmula"
+          className="sm:col-span-2"
+          placeholder="safeDiv({sales} - {sales_last_year}, {sales_last_year}) * 100"
+          value={form.formula}
+          onValueChange={(formula) => setForm((f) => ({ ...f, formula }))}
+        />
+        <Select
+          size="sm"
+          label="Formato"
+          selectedKeys={[form.format]}
+          onSelectionChange={(keys) => {
+            const format = Array.from(keys)[0] as CustomMetric['format'] | undefined;
+            if (format) setForm((f) => ({ ...f, format }));
+          }}
+        >
+          {FORMAT_OPTIONS.map((option) => (
+            <SelectItem key={option.key}>{option.label}</SelectItem>
+          ))}
+        </Select>
+        <div className="flex items-center justify-between gap-3">
+          <Checkbox
+            size="sm"
+            isSelected={form.shared}
+            isDisabled={!hasTeam}
+            onValueChange={(shared) => setForm((f) => ({ ...f, shared }))}
+          >
+            Compartir con mi equipo
+          </Checkbox>
+          <Button
+            size="sm"
+            color="primary"
+            isLoading={create.isPending}
+            isDisabled={!form.label || !form.key || !form.formula}
+            onPress={handleCreate}
+          >
+            Crear métrica
+          </Button>
+        </div>
+      </div>
+
+      <div className="mt-6 divide-y divide-gray-100">
+        {isLoading ? (
+          <div className="text-xs text-zinc-500 py-2">Cargando métricas...</div>
+        ) : metrics.length === 0 ? (
+          <div className="text-xs text-zinc-500 py-2">Aún no hay métricas personalizadas</div>
+        ) : (
+          metrics.map((metric) => (
+            <div key={metric.id} className="flex items-center gap-3 py-2">
+              <div className="min-w-0 flex-1">
+                <div className="text-sm font-medium text-gray-800 truncate">
+                  {metric.label} <span className="text-xs font-normal text-zinc-400">{metric.key}</span>
+                </div>
+                <div className="text-xs text-zinc-500 font-mono truncate">{metric.formula}</div>
+              </div>
+              {metric.owned ? (
+                <>
+                  <Checkbox
+                    size="sm"
+                    isSelected={metric.shared}
+                    isDisabled={!hasTeam || update.isPending}
+                    onValueChange={(shared) =>
+                      update.mutate(
+                        { id: metric.id, body: { shared } },
+                        { onError: (error) => toast.error(error.message) }
+                      )
+                    }
+                  >
+                    Compartida
+                  </Checkbox>
+                  <Button
+                    size="sm"
+                    variant="light"
+                    color="danger"
+                    isIconOnly
+                    aria-label={`Eliminar ${metric.label}`}
+                    isDisabled={remove.isPending}
+                    onPress={() =>
+                      remove.mutate(metric.id, {
+                        onSuccess: () => toast.success(`Métrica "${metric.label}" eliminada`),
+                        onError: (error) => toast.error(error.message),
+                      })
+                    }
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </Button>
+                </>
+              ) : (
+                <Chip size="sm" variant="flat">Equipo</Chip>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
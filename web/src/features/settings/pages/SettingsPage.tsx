@@ -1,5 +1,6 @@
 import { toast } from 'sonner';
 import { PageHeader } from '@/core/components/PageHeader';
+import { CustomMetricsSection } from '../components/CustomMetricsSection';
 
 export function SettingsPage() {
   return (
@@ -21,6 +22,8 @@ export function SettingsPage() {
           Recargar presupuesto
         </button>
       </div>
+
+      <CustomMetricsSection />
     </div>
   );
 }